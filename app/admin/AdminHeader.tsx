@@ -0,0 +1,59 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { Badge, Button } from '@/components/ui'
+
+const NAV_ITEMS = [
+  { href: '/admin', label: '현황' },
+  { href: '/admin/users', label: '교수/학생' },
+  { href: '/admin/courses', label: '강의' },
+  { href: '/admin/devices', label: '기기 재등록' }
+]
+
+export function AdminHeader() {
+  const { user, signOut } = useAuth()
+  const pathname = usePathname()
+
+  return (
+    <div className="border-b border-gray-200 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-16">
+          <div className="flex items-center space-x-4">
+            <h1 className="text-xl font-semibold text-gray-900">
+              관리자 콘솔
+            </h1>
+            <Badge variant="warning">관리자</Badge>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="text-sm text-gray-600">
+              <span className="font-medium">{user?.name}</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={signOut}>
+              로그아웃
+            </Button>
+          </div>
+        </div>
+        <nav className="flex space-x-6 -mb-px">
+          {NAV_ITEMS.map((item) => {
+            const active = item.href === '/admin' ? pathname === '/admin' : pathname?.startsWith(item.href)
+            return (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                  active
+                    ? 'border-primary-600 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {item.label}
+              </Link>
+            )
+          })}
+        </nav>
+      </div>
+    </div>
+  )
+}
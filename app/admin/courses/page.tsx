@@ -0,0 +1,274 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, Button, Input, Badge } from '@/components/ui'
+
+interface CourseItem {
+  id: string
+  name: string
+  courseCode: string
+  professorId: string
+  professorName: string | null
+  createdAt: string
+}
+
+interface ProfessorOption {
+  professorId: string
+  name: string
+}
+
+interface TermCourse extends CourseItem {
+  sessionCount: number
+  enrollmentCount: number
+  attendanceCount: number
+}
+
+interface TermPreview {
+  courses: TermCourse[]
+  totals: { courses: number; sessions: number; enrollments: number; attendances: number }
+}
+
+export default function AdminCoursesPage() {
+  const [courses, setCourses] = useState<CourseItem[]>([])
+  const [professors, setProfessors] = useState<ProfessorOption[]>([])
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [term, setTerm] = useState({ termStart: '', termEnd: '', professorId: '' })
+  const [preview, setPreview] = useState<TermPreview | null>(null)
+  const [working, setWorking] = useState(false)
+
+  const fetchCourses = useCallback(async () => {
+    const [coursesRes, professorsRes] = await Promise.all([
+      fetch('/api/admin/courses'),
+      fetch('/api/admin/professors')
+    ])
+    const [coursesData, professorsData] = await Promise.all([coursesRes.json(), professorsRes.json()])
+    if (!coursesRes.ok || !professorsRes.ok) {
+      setError(coursesData.error || professorsData.error || '강의 목록을 불러오지 못했습니다.')
+      return
+    }
+    setCourses(coursesData.courses)
+    setProfessors(professorsData.professors)
+  }, [])
+
+  useEffect(() => {
+    fetchCourses()
+  }, [fetchCourses])
+
+  const handleReassign = async (course: CourseItem, professorId: string) => {
+    if (!professorId || professorId === course.professorId) {
+      return
+    }
+    const professor = professors.find((item) => item.professorId === professorId)
+    if (!window.confirm(`${course.name} 강의를 ${professor?.name ?? professorId} 교수에게 이관할까요?`)) {
+      return
+    }
+
+    setError('')
+    setMessage('')
+    const response = await fetch(`/api/admin/courses/${course.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ professorId })
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || '담당 교수를 변경하지 못했습니다.')
+      return
+    }
+    setMessage(`${course.name} 강의의 담당 교수를 변경했습니다.`)
+    await fetchCourses()
+  }
+
+  const requestTermDelete = async (dryRun: boolean) => {
+    setWorking(true)
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch('/api/admin/courses/bulk-delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          termStart: term.termStart,
+          termEnd: term.termEnd,
+          professorId: term.professorId || undefined,
+          dryRun,
+          ...(!dryRun && { expectedCount: preview?.totals.courses ?? 0 })
+        })
+      })
+      const data = await response.json()
+
+      if (response.status === 409 && data.code === 'term_courses_changed') {
+        setPreview({ courses: data.courses, totals: data.totals })
+        setError(data.error)
+        return
+      }
+      if (!response.ok) {
+        setError(data.error || '삭제 대상을 확인하지 못했습니다.')
+        return
+      }
+
+      if (dryRun) {
+        setPreview({ courses: data.courses, totals: data.totals })
+      } else {
+        setMessage(`강의 ${data.deletedCourseIds.length}개를 삭제했습니다.`)
+        setPreview(null)
+        await fetchCourses()
+      }
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-success-50 border border-success-200 text-success-800 px-4 py-3 rounded-lg text-sm">
+          {message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">학기 강의 일괄 삭제</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            기간 안에 생성된 강의와 세션, 출석 기록, 위치 로그, 수강 등록이 함께 삭제되며 되돌릴 수 없습니다.
+          </p>
+          <div className="grid md:grid-cols-3 gap-4">
+            <Input
+              label="시작일"
+              type="date"
+              value={term.termStart}
+              onChange={(e) => {
+                setTerm(prev => ({ ...prev, termStart: e.target.value }))
+                setPreview(null)
+              }}
+            />
+            <Input
+              label="종료일"
+              type="date"
+              value={term.termEnd}
+              onChange={(e) => {
+                setTerm(prev => ({ ...prev, termEnd: e.target.value }))
+                setPreview(null)
+              }}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">교수 (선택)</label>
+              <select
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={term.professorId}
+                onChange={(e) => {
+                  setTerm(prev => ({ ...prev, professorId: e.target.value }))
+                  setPreview(null)
+                }}
+              >
+                <option value="">전체 교수</option>
+                {professors.map((professor) => (
+                  <option key={professor.professorId} value={professor.professorId}>
+                    {professor.name} ({professor.professorId})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => requestTermDelete(true)}
+              disabled={working || !term.termStart || !term.termEnd}
+            >
+              삭제 대상 확인
+            </Button>
+            {preview && preview.totals.courses > 0 && (
+              <Button
+                size="sm"
+                variant="danger"
+                loading={working}
+                disabled={working}
+                onClick={() => {
+                  if (window.confirm(`강의 ${preview.totals.courses}개와 출석 기록 ${preview.totals.attendances}건을 삭제할까요?`)) {
+                    requestTermDelete(false)
+                  }
+                }}
+              >
+                {preview.totals.courses}개 강의 삭제
+              </Button>
+            )}
+          </div>
+
+          {preview && (
+            <div className="border border-gray-200 rounded-lg">
+              <div className="px-4 py-2 bg-gray-50 text-sm text-gray-600">
+                강의 {preview.totals.courses} · 세션 {preview.totals.sessions} · 수강 등록 {preview.totals.enrollments} · 출석 기록 {preview.totals.attendances}
+              </div>
+              <div className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+                {preview.courses.map((course) => (
+                  <div key={course.id} className="px-4 py-2 flex justify-between text-sm">
+                    <span>
+                      {course.name} <span className="text-gray-400">({course.courseCode})</span>
+                    </span>
+                    <span className="text-gray-500">
+                      {course.professorName ?? course.professorId} · {new Date(course.createdAt).toLocaleDateString('ko-KR')}
+                    </span>
+                  </div>
+                ))}
+                {preview.courses.length === 0 && (
+                  <p className="px-4 py-4 text-sm text-gray-500">기간 안에 생성된 강의가 없습니다.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">강의 담당 교수</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y divide-gray-100">
+            {courses.map((course) => (
+              <div key={course.id} className="flex items-center justify-between py-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {course.name} <Badge variant="secondary">{course.courseCode}</Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    생성일 {new Date(course.createdAt).toLocaleDateString('ko-KR')}
+                  </div>
+                </div>
+                <select
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  value={course.professorId}
+                  onChange={(e) => handleReassign(course, e.target.value)}
+                >
+                  {!professors.some((professor) => professor.professorId === course.professorId) && (
+                    <option value={course.professorId}>{course.professorName ?? course.professorId}</option>
+                  )}
+                  {professors.map((professor) => (
+                    <option key={professor.professorId} value={professor.professorId}>
+                      {professor.name} ({professor.professorId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            {courses.length === 0 && (
+              <p className="py-6 text-center text-sm text-gray-500">등록된 강의가 없습니다.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+
+interface RebindRequestItem {
+  id: string
+  studentId: string
+  studentName: string
+  deviceId: string
+  deviceType: string | null
+  userAgent: string | null
+  status: 'pending' | 'approved' | 'rejected'
+  reviewedBy: string | null
+  reviewedAt: string | null
+  reviewComment: string | null
+  createdAt: string
+}
+
+type StatusFilter = 'pending' | 'all'
+
+const STATUS_BADGES: Record<RebindRequestItem['status'], { label: string; variant: 'warning' | 'success' | 'error' }> = {
+  pending: { label: '대기', variant: 'warning' },
+  approved: { label: '승인', variant: 'success' },
+  rejected: { label: '반려', variant: 'error' }
+}
+
+export default function AdminDevicesPage() {
+  const [filter, setFilter] = useState<StatusFilter>('pending')
+  const [requests, setRequests] = useState<RebindRequestItem[]>([])
+  const [error, setError] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  const fetchRequests = useCallback(async (status: StatusFilter) => {
+    const response = await fetch(`/api/admin/device-rebind-requests?status=${status}`)
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || '재등록 요청을 불러오지 못했습니다.')
+      return
+    }
+    setRequests(data.requests)
+  }, [])
+
+  useEffect(() => {
+    fetchRequests(filter)
+  }, [filter, fetchRequests])
+
+  const handleReview = async (request: RebindRequestItem, decision: 'approved' | 'rejected') => {
+    const comment = decision === 'rejected' ? window.prompt('반려 사유 (선택)') ?? undefined : undefined
+    setProcessingId(request.id)
+    setError('')
+    try {
+      const response = await fetch(`/api/admin/device-rebind-requests/${request.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comment || undefined })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || '재등록 요청을 처리하지 못했습니다.')
+        return
+      }
+      await fetchRequests(filter)
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">기기 재등록 요청</CardTitle>
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+            {(['pending', 'all'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFilter(value)}
+                className={`py-1 px-3 text-sm font-medium rounded-md transition-all ${
+                  filter === value ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {value === 'pending' ? '대기 중' : '전체'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        <p className="text-sm text-gray-600 mb-4">
+          승인하면 등록 한도를 넘지 않도록 가장 오래 사용하지 않은 기기의 등록이 해제됩니다.
+        </p>
+        <div className="divide-y divide-gray-100">
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{request.studentName}</span>
+                  <span className="text-xs text-gray-500">{request.studentId}</span>
+                  <Badge variant={STATUS_BADGES[request.status].variant}>{STATUS_BADGES[request.status].label}</Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {request.deviceType ?? 'other'} · {request.deviceId.slice(0, 12)}… · {new Date(request.createdAt).toLocaleString('ko-KR')}
+                </div>
+                {request.reviewedBy && (
+                  <div className="text-xs text-gray-400">
+                    {request.reviewedBy} 처리{request.reviewComment ? ` · ${request.reviewComment}` : ''}
+                  </div>
+                )}
+              </div>
+              {request.status === 'pending' && (
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(request, 'approved')}
+                    disabled={processingId === request.id}
+                  >
+                    승인
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleReview(request, 'rejected')}
+                    disabled={processingId === request.id}
+                  >
+                    반려
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          {requests.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-500">재등록 요청이 없습니다.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
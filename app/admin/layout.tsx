@@ -0,0 +1,22 @@
+'use client'
+
+import { useAuth } from '@/lib/auth-context'
+import { AdminHeader } from './AdminHeader'
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  const { user, loading } = useAuth()
+
+  // 역할 검사는 middleware 에서 수행, 여기서는 세션 확인 전 화면 깜빡임만 방지
+  if (loading || !user || user.role !== 'admin') {
+    return <div className="min-h-screen bg-gray-50" />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <AdminHeader />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </div>
+    </div>
+  )
+}
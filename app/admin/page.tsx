@@ -0,0 +1,123 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui'
+
+interface SystemStats {
+  students: number
+  professors: number
+  courses: number
+  enrollments: number
+  sessions: { total: number; active: number }
+  todayAttendance: { date: string; total: number; byStatus: Record<string, number> }
+  pendingDeviceRebinds: number | null
+  pendingAppeals: number
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  present: '출석',
+  late: '지각',
+  absent: '결석',
+  left_early: '조퇴'
+}
+
+function StatCard({ label, value, hint }: { label: string; value: number | string; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="text-sm text-gray-500 mb-1">{label}</div>
+        <div className="text-3xl font-bold text-gray-900">{value}</div>
+        {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function AdminPage() {
+  const [stats, setStats] = useState<SystemStats | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const response = await fetch('/api/admin/stats')
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || '현황을 불러오지 못했습니다.')
+          return
+        }
+        setStats(data.stats)
+      } catch (error) {
+        console.error('Failed to fetch admin stats:', error)
+        setError('현황을 불러오지 못했습니다.')
+      }
+    }
+
+    fetchStats()
+  }, [])
+
+  if (error) {
+    return (
+      <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+        {error}
+      </div>
+    )
+  }
+
+  if (!stats) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">현황을 불러오는 중...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid md:grid-cols-4 gap-4">
+        <StatCard label="학생" value={stats.students} />
+        <StatCard label="교수" value={stats.professors} />
+        <StatCard label="강의" value={stats.courses} hint={`수강 등록 ${stats.enrollments}건`} />
+        <StatCard label="진행 중 세션" value={stats.sessions.active} hint={`전체 ${stats.sessions.total}회`} />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">오늘 출석 ({stats.todayAttendance.date})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900 mb-4">{stats.todayAttendance.total}건</div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {Object.entries(stats.todayAttendance.byStatus).map(([status, count]) => (
+                <div key={status} className="flex justify-between text-gray-600">
+                  <span>{STATUS_LABELS[status] ?? status}</span>
+                  <span className="font-medium">{count}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">처리 대기</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between text-gray-600">
+              <span>기기 재등록 요청</span>
+              <span className="font-medium">
+                {stats.pendingDeviceRebinds === null ? '미설정' : `${stats.pendingDeviceRebinds}건`}
+              </span>
+            </div>
+            <div className="flex justify-between text-gray-600">
+              <span>출석 이의 신청 (교수 처리)</span>
+              <span className="font-medium">{stats.pendingAppeals}건</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
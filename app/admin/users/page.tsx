@@ -0,0 +1,294 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, Button, Input, Badge } from '@/components/ui'
+
+interface ProfessorItem {
+  professorId: string
+  name: string
+  email: string | null
+  createdAt: string
+  courseCount: number
+}
+
+interface StudentItem {
+  studentId: string
+  name: string
+  createdAt: string
+  enrollmentCount: number
+}
+
+type UserTab = 'professor' | 'student'
+
+const EMPTY_FORM = { id: '', name: '', email: '', password: '' }
+
+export default function AdminUsersPage() {
+  const [tab, setTab] = useState<UserTab>('professor')
+  const [professors, setProfessors] = useState<ProfessorItem[]>([])
+  const [students, setStudents] = useState<StudentItem[]>([])
+  const [keyword, setKeyword] = useState('')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [resetCode, setResetCode] = useState<{ userId: string; code: string; expiresAt: string } | null>(null)
+
+  const fetchProfessors = useCallback(async () => {
+    const response = await fetch('/api/admin/professors')
+    const data = await response.json()
+    if (response.ok) {
+      setProfessors(data.professors)
+    } else {
+      setError(data.error || '교수 목록을 불러오지 못했습니다.')
+    }
+  }, [])
+
+  const fetchStudents = useCallback(async (query: string) => {
+    const response = await fetch(`/api/admin/students?q=${encodeURIComponent(query)}`)
+    const data = await response.json()
+    if (response.ok) {
+      setStudents(data.students)
+    } else {
+      setError(data.error || '학생 목록을 불러오지 못했습니다.')
+    }
+  }, [])
+
+  useEffect(() => {
+    setError('')
+    setMessage('')
+    setResetCode(null)
+    setForm(EMPTY_FORM)
+    if (tab === 'professor') {
+      fetchProfessors()
+    } else {
+      fetchStudents('')
+    }
+  }, [tab, fetchProfessors, fetchStudents])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(tab === 'professor' ? '/api/admin/professors' : '/api/admin/students', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          tab === 'professor'
+            ? { professorId: form.id, name: form.name, email: form.email || undefined, password: form.password }
+            : { studentId: form.id, name: form.name, password: form.password }
+        )
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || '계정을 만들지 못했습니다.')
+        return
+      }
+
+      setMessage(`${form.name} 계정을 만들었습니다.`)
+      setForm(EMPTY_FORM)
+      if (tab === 'professor') {
+        await fetchProfessors()
+      } else {
+        await fetchStudents(keyword)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (userId: string, name: string) => {
+    const warning = tab === 'professor'
+      ? `${name} 교수 계정을 삭제할까요?`
+      : `${name} 학생 계정을 삭제할까요? 수강 등록과 출석 기록도 함께 삭제됩니다.`
+    if (!window.confirm(warning)) {
+      return
+    }
+
+    setError('')
+    setMessage('')
+    const response = await fetch(`/api/admin/${tab === 'professor' ? 'professors' : 'students'}/${encodeURIComponent(userId)}`, {
+      method: 'DELETE'
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || '계정을 삭제하지 못했습니다.')
+      return
+    }
+
+    setMessage(`${name} 계정을 삭제했습니다.`)
+    if (tab === 'professor') {
+      await fetchProfessors()
+    } else {
+      await fetchStudents(keyword)
+    }
+  }
+
+  const handleIssueResetCode = async (userId: string) => {
+    setError('')
+    setMessage('')
+    const response = await fetch('/api/auth/password/reset-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userType: tab, userId })
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || '재설정 코드를 발급하지 못했습니다.')
+      return
+    }
+    setResetCode({ userId, code: data.code, expiresAt: data.expiresAt })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg max-w-xs">
+        {(['professor', 'student'] as const).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setTab(type)}
+            className={`py-2 px-4 text-sm font-medium rounded-md transition-all ${
+              tab === type ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {type === 'professor' ? '교수' : '학생'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-success-50 border border-success-200 text-success-800 px-4 py-3 rounded-lg text-sm">
+          {message}
+        </div>
+      )}
+      {resetCode && (
+        <div className="bg-warning-50 border border-warning-200 text-warning-800 px-4 py-3 rounded-lg text-sm">
+          {resetCode.userId} 재설정 코드: <code className="font-mono font-semibold">{resetCode.code}</code>
+          {' '}({new Date(resetCode.expiresAt).toLocaleTimeString('ko-KR')}까지, 다시 볼 수 없으니 바로 전달하세요)
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{tab === 'professor' ? '교수 계정 추가' : '학생 계정 추가'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid md:grid-cols-4 gap-4 items-end">
+            <Input
+              label={tab === 'professor' ? '교수번호' : '학번'}
+              value={form.id}
+              onChange={(e) => setForm(prev => ({ ...prev, id: e.target.value }))}
+              placeholder={tab === 'professor' ? 'PROF001' : '202012345'}
+              required
+            />
+            <Input
+              label="이름"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+            {tab === 'professor' ? (
+              <Input
+                label="이메일 (선택)"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            ) : (
+              <div className="hidden md:block" />
+            )}
+            <Input
+              label="초기 비밀번호"
+              type="password"
+              value={form.password}
+              onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+              placeholder="6자 이상"
+              required
+            />
+            <div className="md:col-span-4">
+              <Button type="submit" size="sm" loading={submitting} disabled={submitting}>
+                계정 추가
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{tab === 'professor' ? '교수 목록' : '학생 목록'}</CardTitle>
+            {tab === 'student' && (
+              <form
+                className="flex space-x-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  fetchStudents(keyword)
+                }}
+              >
+                <Input
+                  value={keyword}
+                  onChange={(e) => setKeyword(e.target.value)}
+                  placeholder="학번 또는 이름"
+                />
+                <Button type="submit" size="sm" variant="secondary">검색</Button>
+              </form>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y divide-gray-100">
+            {tab === 'professor'
+              ? professors.map((professor) => (
+                <div key={professor.professorId} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="font-medium text-gray-900">{professor.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {professor.professorId}{professor.email ? ` · ${professor.email}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">강의 {professor.courseCount}</Badge>
+                    <Button size="sm" variant="ghost" onClick={() => handleIssueResetCode(professor.professorId)}>
+                      재설정 코드
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(professor.professorId, professor.name)}>
+                      삭제
+                    </Button>
+                  </div>
+                </div>
+              ))
+              : students.map((student) => (
+                <div key={student.studentId} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="font-medium text-gray-900">{student.name}</div>
+                    <div className="text-xs text-gray-500">{student.studentId}</div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">수강 {student.enrollmentCount}</Badge>
+                    <Button size="sm" variant="ghost" onClick={() => handleIssueResetCode(student.studentId)}>
+                      재설정 코드
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(student.studentId, student.name)}>
+                      삭제
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            {(tab === 'professor' ? professors.length : students.length) === 0 && (
+              <p className="py-6 text-center text-sm text-gray-500">등록된 계정이 없습니다.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { reassignCourse } from '@/lib/admin/admin-console'
+import { createLogger } from '@/lib/logger'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { CourseReassignSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const logger = createLogger('admin-courses')
+
+// PATCH - 강의 담당 교수 변경
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(CourseReassignSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const result = await reassignCourse(createServiceClient(), params.courseId, validated.professorId)
+    if (!result.ok) {
+      if (result.reason === 'course_not_found') {
+        return NextResponse.json({ error: '강의를 찾을 수 없습니다' }, { status: 404 })
+      }
+      if (result.reason === 'professor_not_found') {
+        return NextResponse.json({ error: '새 담당 교수를 찾을 수 없습니다' }, { status: 404 })
+      }
+      console.error('[Admin] 강의 이관 실패:', result.error)
+      return NextResponse.json({ error: 'Failed to reassign course' }, { status: 500 })
+    }
+
+    logger.info('강의 담당 교수 변경', {
+      userId: admin.adminId,
+      courseId: result.course.id,
+      from: result.course.previousProfessorId,
+      to: result.course.professorId
+    })
+
+    return NextResponse.json({ success: true, course: result.course })
+  } catch (error: unknown) {
+    console.error('Admin reassign course error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { deleteTermCourses, listTermCourses, resolveTermRange, summarizeTermCourses } from '@/lib/admin/admin-console'
+import { createLogger } from '@/lib/logger'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { TermCourseDeleteSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const logger = createLogger('admin-courses')
+
+// POST - 학기(강의 생성일 기간) 단위 강의 일괄 삭제, dryRun 이면 삭제 대상만 반환
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(TermCourseDeleteSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const range = resolveTermRange(validated.termStart, validated.termEnd)
+    if (!range) {
+      return NextResponse.json({ error: '학기 기간이 올바르지 않습니다' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const courses = await listTermCourses(supabase, range, validated.professorId)
+    const totals = summarizeTermCourses(courses)
+
+    if (validated.dryRun) {
+      return NextResponse.json({ success: true, dryRun: true, courses, totals })
+    }
+
+    // 미리보기 이후 강의가 추가/삭제되었으면 다시 확인하도록 거부
+    const result = await deleteTermCourses(supabase, courses, validated.expectedCount)
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: '미리보기 이후 삭제 대상이 변경되었습니다. 다시 확인해주세요',
+          code: 'term_courses_changed',
+          courses,
+          totals
+        },
+        { status: 409 }
+      )
+    }
+
+    logger.info('학기 강의 일괄 삭제', {
+      userId: admin.adminId,
+      termStart: validated.termStart,
+      termEnd: validated.termEnd,
+      professorId: validated.professorId ?? null,
+      deletedCourseIds: result.deletedCourseIds,
+      totals
+    })
+
+    return NextResponse.json({ success: true, dryRun: false, deletedCourseIds: result.deletedCourseIds, totals })
+  } catch (error: unknown) {
+    console.error('Admin bulk delete courses error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
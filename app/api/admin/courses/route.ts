@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 전체 강의 목록 (?professorId= 로 필터)
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const professorId = request.nextUrl.searchParams.get('professorId')
+
+    let query = createServiceClient()
+      .from('courses')
+      .select('id, name, course_code, professor_id, created_at, professors(name)')
+      .order('created_at', { ascending: false })
+    if (professorId) {
+      query = query.eq('professor_id', professorId)
+    }
+
+    const { data: courses, error } = await query
+    if (error) {
+      console.error('[Admin] 강의 목록 조회 실패:', error)
+      return NextResponse.json({ error: 'Failed to fetch courses' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      courses: (courses ?? []).map((course) => {
+        const professor = Array.isArray(course.professors) ? course.professors[0] : course.professors
+        return {
+          id: course.id,
+          name: course.name,
+          courseCode: course.course_code,
+          professorId: course.professor_id,
+          professorName: professor?.name ?? null,
+          createdAt: course.created_at
+        }
+      })
+    })
+  } catch (error: unknown) {
+    console.error('Admin list courses error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { DeviceRebindReviewSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { reviewDeviceRebindRequest } from '@/lib/device/device-binding'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH - 기기 재등록 요청 승인/반려 (관리자)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(DeviceRebindReviewSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const result = await reviewDeviceRebindRequest(createServiceClient(), {
+      requestId: params.requestId,
+      decision: validated.decision,
+      reviewedBy: validated.reviewedBy ?? admin.adminId,
+      comment: validated.comment || null
+    })
+
+    if (!result.ok) {
+      if (result.reason === 'not_found') {
+        return NextResponse.json({ error: '재등록 요청을 찾을 수 없습니다.' }, { status: 404 })
+      }
+      if (result.reason === 'already_reviewed') {
+        return NextResponse.json({ error: '이미 처리된 재등록 요청입니다.', code: 'request_resolved' }, { status: 409 })
+      }
+      console.error('[DeviceBinding] 재등록 요청 처리 실패:', result.error)
+      return NextResponse.json({ error: 'Failed to review rebind request' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: {
+        id: result.request.id,
+        studentId: result.request.student_id,
+        deviceId: result.request.device_id,
+        status: result.request.status,
+        reviewedBy: result.request.reviewed_by,
+        reviewedAt: result.request.reviewed_at,
+        reviewComment: result.request.review_comment
+      },
+      revokedDeviceIds: result.revokedDeviceIds
+    })
+  } catch (error: unknown) {
+    console.error('Review device rebind request error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { fetchDeviceRebindRequests, type DeviceRebindRequest } from '@/lib/device/device-binding'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const REQUEST_STATUSES: readonly DeviceRebindRequest['status'][] = ['pending', 'approved', 'rejected']
+
+// GET - 기기 재등록 요청 목록 (관리자, 기본값: 대기 중)
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const statusParam = request.nextUrl.searchParams.get('status') ?? 'pending'
+    const status = REQUEST_STATUSES.find((value) => value === statusParam)
+    if (statusParam !== 'all' && !status) {
+      return NextResponse.json({ error: 'status 는 pending, approved, rejected, all 중 하나여야 합니다.' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const requests = await fetchDeviceRebindRequests(supabase, status)
+
+    const studentIds = Array.from(new Set(requests.map((item) => item.student_id)))
+    const { data: students } = studentIds.length > 0
+      ? await supabase.from('students').select('student_id, name').in('student_id', studentIds)
+      : { data: [] as Array<{ student_id: string; name: string }> }
+    const studentNames = new Map((students ?? []).map((student) => [student.student_id, student.name]))
+
+    return NextResponse.json({
+      success: true,
+      requests: requests.map((item) => ({
+        id: item.id,
+        studentId: item.student_id,
+        studentName: studentNames.get(item.student_id) ?? item.student_id,
+        deviceId: item.device_id,
+        deviceType: item.device_type,
+        userAgent: item.user_agent,
+        status: item.status,
+        reviewedBy: item.reviewed_by,
+        reviewedAt: item.reviewed_at,
+        reviewComment: item.review_comment,
+        createdAt: item.created_at
+      }))
+    })
+  } catch (error: unknown) {
+    console.error('Get device rebind requests error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
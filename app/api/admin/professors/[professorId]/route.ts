@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AdminUserUpdateSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { revokeAllRefreshTokens } from '@/lib/auth-tokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH - 교수 정보 수정 (이름, 이메일)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { professorId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(AdminUserUpdateSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const { data: professor, error } = await createServiceClient()
+      .from('professors')
+      .update({
+        ...(validated.name !== undefined && { name: validated.name }),
+        ...(validated.email !== undefined && { email: validated.email }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('professor_id', params.professorId)
+      .select('professor_id, name, email')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Admin] 교수 정보 수정 실패:', error)
+      return NextResponse.json({ error: 'Failed to update professor' }, { status: 500 })
+    }
+    if (!professor) {
+      return NextResponse.json({ error: '교수를 찾을 수 없습니다' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      professor: { professorId: professor.professor_id, name: professor.name, email: professor.email }
+    })
+  } catch (error: unknown) {
+    console.error('Admin update professor error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - 교수 계정 삭제 (담당 강의가 남아 있으면 거부, 먼저 다른 교수에게 이관)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { professorId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    // courses.professor_id 는 ON DELETE CASCADE 이므로 강의가 함께 삭제되지 않도록 확인
+    const { count, error: countError } = await supabase
+      .from('courses')
+      .select('id', { count: 'exact', head: true })
+      .eq('professor_id', params.professorId)
+    if (countError) {
+      console.error('[Admin] 담당 강의 확인 실패:', countError)
+      return NextResponse.json({ error: 'Failed to delete professor' }, { status: 500 })
+    }
+    if ((count ?? 0) > 0) {
+      return NextResponse.json(
+        { error: `담당 강의 ${count}개를 다른 교수에게 이관한 후 삭제할 수 있습니다`, code: 'professor_has_courses' },
+        { status: 409 }
+      )
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('professors')
+      .delete()
+      .eq('professor_id', params.professorId)
+      .select('professor_id')
+      .maybeSingle()
+    if (error) {
+      console.error('[Admin] 교수 계정 삭제 실패:', error)
+      return NextResponse.json({ error: 'Failed to delete professor' }, { status: 500 })
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: '교수를 찾을 수 없습니다' }, { status: 404 })
+    }
+
+    await revokeAllRefreshTokens(supabase, { userId: params.professorId, userType: 'professor' }, 'logout_all')
+    console.log('[Admin] 교수 계정 삭제:', { professorId: params.professorId, by: admin.adminId })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    console.error('Admin delete professor error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
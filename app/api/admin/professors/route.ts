@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AdminProfessorCreateSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 교수 목록 (담당 강의 수 포함)
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const [professorsResult, coursesResult] = await Promise.all([
+      supabase.from('professors').select('professor_id, name, email, created_at').order('name', { ascending: true }),
+      supabase.from('courses').select('professor_id')
+    ])
+
+    if (professorsResult.error || coursesResult.error) {
+      console.error('[Admin] 교수 목록 조회 실패:', professorsResult.error ?? coursesResult.error)
+      return NextResponse.json({ error: 'Failed to fetch professors' }, { status: 500 })
+    }
+
+    const courseCounts = new Map<string, number>()
+    for (const course of coursesResult.data ?? []) {
+      courseCounts.set(course.professor_id, (courseCounts.get(course.professor_id) ?? 0) + 1)
+    }
+
+    return NextResponse.json({
+      success: true,
+      professors: (professorsResult.data ?? []).map((professor) => ({
+        professorId: professor.professor_id,
+        name: professor.name,
+        email: professor.email,
+        createdAt: professor.created_at,
+        courseCount: courseCounts.get(professor.professor_id) ?? 0
+      }))
+    })
+  } catch (error: unknown) {
+    console.error('Admin list professors error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - 교수 계정 생성
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(AdminProfessorCreateSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const supabase = createServiceClient()
+    const { data: professor, error } = await supabase
+      .from('professors')
+      .insert({
+        professor_id: validated.professorId,
+        name: validated.name,
+        email: validated.email ?? null,
+        password_hash: await hashPassword(validated.password)
+      })
+      .select('professor_id, name, email, created_at')
+      .single()
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: '이미 등록된 교수번호입니다' }, { status: 409 })
+    }
+    if (error || !professor) {
+      console.error('[Admin] 교수 계정 생성 실패:', error)
+      return NextResponse.json({ error: 'Failed to create professor' }, { status: 500 })
+    }
+
+    console.log('[Admin] 교수 계정 생성:', { professorId: professor.professor_id, by: admin.adminId })
+
+    return NextResponse.json({
+      success: true,
+      professor: {
+        professorId: professor.professor_id,
+        name: professor.name,
+        email: professor.email,
+        createdAt: professor.created_at,
+        courseCount: 0
+      }
+    }, { status: 201 })
+  } catch (error: unknown) {
+    console.error('Admin create professor error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { fetchSystemStats } from '@/lib/admin/admin-console'
+import { createServiceClient } from '@/lib/supabase-admin'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 시스템 전체 현황 (관리자)
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const stats = await fetchSystemStats(createServiceClient())
+    return NextResponse.json({ success: true, stats })
+  } catch (error: unknown) {
+    console.error('Admin stats error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AdminUserUpdateSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { revokeAllRefreshTokens } from '@/lib/auth-tokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH - 학생 이름 수정
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { studentId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(AdminUserUpdateSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+    if (validated.name === undefined) {
+      return NextResponse.json({ error: '학생은 이름만 수정할 수 있습니다' }, { status: 400 })
+    }
+
+    const { data: student, error } = await createServiceClient()
+      .from('students')
+      .update({ name: validated.name, updated_at: new Date().toISOString() })
+      .eq('student_id', params.studentId)
+      .select('student_id, name')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Admin] 학생 정보 수정 실패:', error)
+      return NextResponse.json({ error: 'Failed to update student' }, { status: 500 })
+    }
+    if (!student) {
+      return NextResponse.json({ error: '학생을 찾을 수 없습니다' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, student: { studentId: student.student_id, name: student.name } })
+  } catch (error: unknown) {
+    console.error('Admin update student error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - 학생 계정 삭제 (수강 등록/출석 기록이 CASCADE 로 함께 삭제됨)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { studentId: string } }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const { data: deleted, error } = await supabase
+      .from('students')
+      .delete()
+      .eq('student_id', params.studentId)
+      .select('student_id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Admin] 학생 계정 삭제 실패:', error)
+      return NextResponse.json({ error: 'Failed to delete student' }, { status: 500 })
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: '학생을 찾을 수 없습니다' }, { status: 404 })
+    }
+
+    await revokeAllRefreshTokens(supabase, { userId: params.studentId, userType: 'student' }, 'logout_all')
+    console.log('[Admin] 학생 계정 삭제:', { studentId: params.studentId, by: admin.adminId })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    console.error('Admin delete student error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin/admin-auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AdminStudentCreateSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const STUDENT_LIST_LIMIT = 100
+
+// GET - 학생 검색 (?q=학번 또는 이름 일부, 최대 100명)
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const keyword = request.nextUrl.searchParams.get('q')?.trim().replace(/[%,()]/g, '') ?? ''
+
+    let query = supabase
+      .from('students')
+      .select('student_id, name, created_at')
+      .order('student_id', { ascending: true })
+      .limit(STUDENT_LIST_LIMIT)
+    if (keyword) {
+      query = query.or(`student_id.ilike.%${keyword}%,name.ilike.%${keyword}%`)
+    }
+
+    const { data: students, error } = await query
+    if (error) {
+      console.error('[Admin] 학생 목록 조회 실패:', error)
+      return NextResponse.json({ error: 'Failed to fetch students' }, { status: 500 })
+    }
+
+    const studentIds = (students ?? []).map((student) => student.student_id)
+    const { data: enrollments } = studentIds.length > 0
+      ? await supabase.from('course_enrollments').select('student_id').in('student_id', studentIds)
+      : { data: [] as Array<{ student_id: string }> }
+
+    const enrollmentCounts = new Map<string, number>()
+    for (const enrollment of enrollments ?? []) {
+      enrollmentCounts.set(enrollment.student_id, (enrollmentCounts.get(enrollment.student_id) ?? 0) + 1)
+    }
+
+    return NextResponse.json({
+      success: true,
+      students: (students ?? []).map((student) => ({
+        studentId: student.student_id,
+        name: student.name,
+        createdAt: student.created_at,
+        enrollmentCount: enrollmentCounts.get(student.student_id) ?? 0
+      })),
+      limit: STUDENT_LIST_LIMIT
+    })
+  } catch (error: unknown) {
+    console.error('Admin list students error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - 학생 계정 생성
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) {
+    return admin
+  }
+
+  try {
+    const validated = validateSchema(AdminStudentCreateSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const { data: student, error } = await createServiceClient()
+      .from('students')
+      .insert({
+        student_id: validated.studentId,
+        name: validated.name,
+        password_hash: await hashPassword(validated.password)
+      })
+      .select('student_id, name, created_at')
+      .single()
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: '이미 등록된 학번입니다' }, { status: 409 })
+    }
+    if (error || !student) {
+      console.error('[Admin] 학생 계정 생성 실패:', error)
+      return NextResponse.json({ error: 'Failed to create student' }, { status: 500 })
+    }
+
+    console.log('[Admin] 학생 계정 생성:', { studentId: student.student_id, by: admin.adminId })
+
+    return NextResponse.json({
+      success: true,
+      student: {
+        studentId: student.student_id,
+        name: student.name,
+        createdAt: student.created_at,
+        enrollmentCount: 0
+      }
+    }, { status: 201 })
+  } catch (error: unknown) {
+    console.error('Admin create student error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AppealReviewSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { resolveApprovedStatus } from '@/lib/attendance/appeals'
+import { applyAttendanceStatusChange } from '@/lib/attendance/audit-log'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH - 이의 신청 승인/반려 (담당 교수)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { appealId: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can review appeals' }, { status: 403 })
+    }
+
+    const validated = validateSchema(AppealReviewSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: appeal, error: appealError } = await supabase
+      .from('attendance_appeals')
+      .select('id, attendance_id, session_id, course_id, student_id, original_status, requested_status, reason, attachment_path, attachment_name, attachment_type, status, resolved_status, reviewed_by, reviewed_at, review_comment, created_at, updated_at, courses!inner(professor_id)')
+      .eq('id', params.appealId)
+      .maybeSingle()
+
+    if (appealError) {
+      console.error('[Appeals] 이의 신청 조회 실패:', appealError)
+      return NextResponse.json({ error: 'Failed to fetch appeal' }, { status: 500 })
+    }
+
+    const course = appeal?.courses as { professor_id: string | null } | null
+    if (!appeal || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: '이의 신청을 찾을 수 없습니다.' }, { status: 404 })
+    }
+
+    if (appeal.status !== 'pending') {
+      return NextResponse.json({ error: '이미 처리된 이의 신청입니다.', code: 'appeal_resolved' }, { status: 409 })
+    }
+
+    const approved = validated.decision === 'approved'
+    const resolvedStatus = approved ? resolveApprovedStatus(appeal.requested_status, validated.resolvedStatus) : null
+    const reviewedAt = new Date().toISOString()
+
+    // 대기 상태인 경우에만 처리 (동시 처리 방지)
+    const { data: claimed, error: claimError } = await supabase
+      .from('attendance_appeals')
+      .update({
+        status: validated.decision,
+        resolved_status: resolvedStatus,
+        reviewed_by: user.userId,
+        reviewed_at: reviewedAt,
+        review_comment: validated.comment || null,
+        updated_at: reviewedAt
+      })
+      .eq('id', appeal.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle()
+
+    if (claimError) {
+      console.error('[Appeals] 이의 신청 처리 실패:', claimError)
+      return NextResponse.json({ error: 'Failed to review appeal' }, { status: 500 })
+    }
+
+    if (!claimed) {
+      return NextResponse.json({ error: '이미 처리된 이의 신청입니다.', code: 'appeal_resolved' }, { status: 409 })
+    }
+
+    let attendanceId = appeal.attendance_id
+    if (approved && resolvedStatus) {
+      // 신청 이후 출석 상태가 바뀌지 않았을 때만 반영 (감사 로그 포함)
+      // 출석 기록 없이 결석 처리된 신청은 승인 시 기록을 새로 생성
+      const change = await applyAttendanceStatusChange(supabase, {
+        attendanceId: appeal.attendance_id,
+        sessionId: appeal.session_id,
+        studentId: appeal.student_id,
+        previousStatus: appeal.attendance_id ? appeal.original_status : null,
+        newStatus: resolvedStatus,
+        reason: `이의 신청 승인: ${validated.comment || appeal.reason}`,
+        source: 'appeal',
+        changedBy: user.userId,
+        appealId: appeal.id
+      })
+
+      if (!change.ok) {
+        // 출석 상태 반영 실패 시 이의 신청을 다시 대기 상태로 되돌림
+        await supabase
+          .from('attendance_appeals')
+          .update({
+            status: 'pending',
+            resolved_status: null,
+            reviewed_by: null,
+            reviewed_at: null,
+            review_comment: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', appeal.id)
+
+        if (change.reason === 'error') {
+          console.error('[Appeals] 출석 상태 반영 실패:', change.error)
+          return NextResponse.json({ error: 'Failed to update attendance' }, { status: 500 })
+        }
+        return NextResponse.json({
+          error: '신청 이후 출석 상태가 변경되어 반영할 수 없습니다.',
+          code: 'attendance_changed'
+        }, { status: 409 })
+      }
+
+      if (!appeal.attendance_id) {
+        attendanceId = change.attendanceId
+        const { error: linkError } = await supabase
+          .from('attendance_appeals')
+          .update({ attendance_id: attendanceId })
+          .eq('id', appeal.id)
+        if (linkError) {
+          console.error('[Appeals] 생성된 출석 기록 연결 실패:', linkError)
+        }
+      }
+    }
+
+    console.log('[Appeals] 이의 신청 처리 완료:', {
+      appealId: appeal.id,
+      attendanceId,
+      decision: validated.decision,
+      from: appeal.original_status,
+      to: resolvedStatus,
+      reviewedBy: user.userId
+    })
+
+    return NextResponse.json({
+      success: true,
+      appeal: {
+        id: appeal.id,
+        attendanceId,
+        status: validated.decision,
+        originalStatus: appeal.original_status,
+        resolvedStatus,
+        reviewComment: validated.comment || null,
+        reviewedAt
+      }
+    })
+  } catch (error: unknown) {
+    console.error('Review attendance appeal error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,355 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { autoEndSessionIfNeeded } from '@/lib/session/session-service'
+import { APPEAL_CONFIG } from '@/lib/config/attendance-config'
+import { AppealCreateSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import {
+  buildAppealAttachmentPath,
+  checkAppealEligibility,
+  validateAppealAttachment
+} from '@/lib/attendance/appeals'
+import type { Database } from '@/types/supabase'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type AppealRow = Database['public']['Tables']['attendance_appeals']['Row']
+
+/** 이의 신청 대상 (출석 기록이 없으면 세션 기준 결석) */
+interface AppealTarget {
+  attendanceId: string | null
+  sessionId: string
+  courseId: string
+  sessionDate: string
+  status: string
+}
+
+const APPEAL_COLUMNS = 'id, attendance_id, session_id, course_id, student_id, original_status, requested_status, reason, attachment_path, attachment_name, attachment_type, status, resolved_status, reviewed_by, reviewed_at, review_comment, created_at, updated_at'
+
+/**
+ * 응답용 이의 신청 목록 구성 (학생 이름, 강의명, 수업일, 첨부파일 서명 URL 포함)
+ */
+async function formatAppeals(supabase: SupabaseClient<Database>, appeals: AppealRow[]) {
+  if (appeals.length === 0) {
+    return []
+  }
+
+  const studentIds = Array.from(new Set(appeals.map((appeal) => appeal.student_id)))
+  const courseIds = Array.from(new Set(appeals.map((appeal) => appeal.course_id)))
+  const sessionIds = Array.from(new Set(appeals.map((appeal) => appeal.session_id)))
+
+  const [studentsResult, coursesResult, sessionsResult] = await Promise.all([
+    supabase.from('students').select('student_id, name').in('student_id', studentIds),
+    supabase.from('courses').select('id, name, course_code').in('id', courseIds),
+    supabase.from('class_sessions').select('id, date').in('id', sessionIds)
+  ])
+
+  const studentNames = new Map((studentsResult.data ?? []).map((student) => [student.student_id, student.name]))
+  const courses = new Map((coursesResult.data ?? []).map((course) => [course.id, course]))
+  const sessionDates = new Map((sessionsResult.data ?? []).map((session) => [session.id, session.date]))
+
+  return Promise.all(appeals.map(async (appeal) => {
+    let attachmentUrl: string | null = null
+    if (appeal.attachment_path) {
+      const { data } = await supabase.storage
+        .from(APPEAL_CONFIG.attachmentBucket)
+        .createSignedUrl(appeal.attachment_path, APPEAL_CONFIG.attachmentUrlTtlSeconds)
+      attachmentUrl = data?.signedUrl ?? null
+    }
+
+    return {
+      id: appeal.id,
+      attendanceId: appeal.attendance_id,
+      sessionId: appeal.session_id,
+      sessionDate: sessionDates.get(appeal.session_id) ?? null,
+      courseId: appeal.course_id,
+      courseName: courses.get(appeal.course_id)?.name ?? '알 수 없는 강의',
+      courseCode: courses.get(appeal.course_id)?.course_code ?? '',
+      studentId: appeal.student_id,
+      studentName: studentNames.get(appeal.student_id) ?? appeal.student_id,
+      originalStatus: appeal.original_status,
+      requestedStatus: appeal.requested_status,
+      reason: appeal.reason,
+      attachment: appeal.attachment_path
+        ? { name: appeal.attachment_name, type: appeal.attachment_type, url: attachmentUrl }
+        : null,
+      status: appeal.status,
+      resolvedStatus: appeal.resolved_status,
+      reviewComment: appeal.review_comment,
+      reviewedAt: appeal.reviewed_at,
+      createdAt: appeal.created_at
+    }
+  }))
+}
+
+/**
+ * 요청 본문 읽기 (첨부파일이 있으면 multipart/form-data, 없으면 JSON)
+ */
+async function readAppealRequest(request: NextRequest): Promise<{ body: Record<string, unknown>; file: File | null }> {
+  const contentType = request.headers.get('content-type') ?? ''
+  if (!contentType.includes('multipart/form-data')) {
+    return { body: await request.json(), file: null }
+  }
+
+  const form = await request.formData()
+  const attachment = form.get('attachment')
+  return {
+    body: {
+      attendanceId: form.get('attendanceId') || undefined,
+      sessionId: form.get('sessionId') || undefined,
+      reason: form.get('reason') ?? undefined,
+      requestedStatus: form.get('requestedStatus') || undefined
+    },
+    file: attachment instanceof File && attachment.size > 0 ? attachment : null
+  }
+}
+
+// POST - 결석/조퇴 판정에 대한 이의 신청 (학생)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'student') {
+      return NextResponse.json({ error: 'Only students can file appeals' }, { status: 403 })
+    }
+
+    const { body, file } = await readAppealRequest(request)
+    const validated = validateSchema(AppealCreateSchema, body)
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    if (file) {
+      const attachmentError = validateAppealAttachment({ name: file.name, type: file.type, size: file.size })
+      if (attachmentError) {
+        return NextResponse.json({ error: attachmentError }, { status: 400 })
+      }
+    }
+
+    const supabase = createServiceClient()
+
+    let attendanceQuery = supabase
+      .from('attendances')
+      .select('id, session_id, student_id, status, class_sessions(id, date, course_id)')
+      .eq('student_id', user.userId)
+    attendanceQuery = validated.attendanceId
+      ? attendanceQuery.eq('id', validated.attendanceId)
+      : attendanceQuery.eq('session_id', validated.sessionId!)
+
+    const { data: attendance, error: attendanceError } = await attendanceQuery.maybeSingle()
+
+    if (attendanceError) {
+      console.error('[Appeals] 출석 기록 조회 실패:', attendanceError)
+      return NextResponse.json({ error: 'Failed to fetch attendance' }, { status: 500 })
+    }
+
+    let target: AppealTarget
+    if (attendance) {
+      const session = attendance.class_sessions as { id: string; date: string; course_id: string | null } | null
+      if (!session?.course_id) {
+        return NextResponse.json({ error: '출석 기록을 찾을 수 없습니다.' }, { status: 404 })
+      }
+      target = {
+        attendanceId: attendance.id,
+        sessionId: attendance.session_id,
+        courseId: session.course_id,
+        sessionDate: session.date,
+        status: attendance.status
+      }
+    } else if (validated.attendanceId) {
+      return NextResponse.json({ error: '출석 기록을 찾을 수 없습니다.' }, { status: 404 })
+    } else {
+      // 체크인 기록 없이 결석 처리된 수업: 종료된 세션의 수강생만 신청 가능
+      const { data: session, error: sessionError } = await supabase
+        .from('class_sessions')
+        .select('id, course_id, status, date, start_time, end_time, created_at, updated_at')
+        .eq('id', validated.sessionId!)
+        .maybeSingle()
+
+      if (sessionError) {
+        console.error('[Appeals] 세션 조회 실패:', sessionError)
+        return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 })
+      }
+
+      if (!session?.course_id) {
+        return NextResponse.json({ error: '수업을 찾을 수 없습니다.' }, { status: 404 })
+      }
+
+      const { data: enrollment } = await supabase
+        .from('course_enrollments')
+        .select('id')
+        .eq('course_id', session.course_id)
+        .eq('student_id', user.userId)
+        .maybeSingle()
+
+      if (!enrollment) {
+        return NextResponse.json({ error: '해당 강의의 수강생이 아닙니다.' }, { status: 404 })
+      }
+
+      const { session: current } = await autoEndSessionIfNeeded(supabase, { ...session, course_id: session.course_id })
+      if (current.status !== 'ended') {
+        return NextResponse.json({
+          error: '종료된 수업에 대해서만 이의 신청할 수 있습니다.',
+          code: 'session_not_ended'
+        }, { status: 400 })
+      }
+
+      target = {
+        attendanceId: null,
+        sessionId: session.id,
+        courseId: session.course_id,
+        sessionDate: session.date,
+        status: 'absent'
+      }
+    }
+
+    const eligibility = checkAppealEligibility({ status: target.status, sessionDate: target.sessionDate })
+    if (!eligibility.eligible) {
+      return NextResponse.json({
+        error: eligibility.reason === 'status_not_appealable'
+          ? '결석 또는 조퇴 처리된 출석만 이의 신청할 수 있습니다.'
+          : `이의 신청 기간(수업일로부터 ${APPEAL_CONFIG.filingWindowDays}일)이 지났습니다.`,
+        code: eligibility.reason
+      }, { status: 400 })
+    }
+
+    const { data: pending } = await supabase
+      .from('attendance_appeals')
+      .select('id')
+      .eq('session_id', target.sessionId)
+      .eq('student_id', user.userId)
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (pending) {
+      return NextResponse.json({ error: '이미 처리 대기 중인 이의 신청이 있습니다.', code: 'appeal_pending' }, { status: 409 })
+    }
+
+    let attachmentPath: string | null = null
+    if (file) {
+      attachmentPath = buildAppealAttachmentPath(user.userId, target.attendanceId ?? target.sessionId, file.name)
+      const { error: uploadError } = await supabase.storage
+        .from(APPEAL_CONFIG.attachmentBucket)
+        .upload(attachmentPath, Buffer.from(await file.arrayBuffer()), {
+          contentType: file.type,
+          upsert: false
+        })
+
+      if (uploadError) {
+        console.error('[Appeals] 첨부파일 업로드 실패:', uploadError)
+        return NextResponse.json({ error: '첨부파일 업로드에 실패했습니다.' }, { status: 500 })
+      }
+    }
+
+    const { data: appeal, error: insertError } = await supabase
+      .from('attendance_appeals')
+      .insert({
+        attendance_id: target.attendanceId,
+        session_id: target.sessionId,
+        course_id: target.courseId,
+        student_id: user.userId,
+        original_status: target.status as AppealRow['original_status'],
+        requested_status: validated.requestedStatus,
+        reason: validated.reason,
+        attachment_path: attachmentPath,
+        attachment_name: file?.name ?? null,
+        attachment_type: file?.type ?? null
+      })
+      .select(APPEAL_COLUMNS)
+      .single()
+
+    if (insertError || !appeal) {
+      if (attachmentPath) {
+        await supabase.storage.from(APPEAL_CONFIG.attachmentBucket).remove([attachmentPath])
+      }
+      // 동시에 두 번 제출된 경우 부분 유니크 인덱스에서 걸러짐
+      if (insertError?.code === '23505') {
+        return NextResponse.json({ error: '이미 처리 대기 중인 이의 신청이 있습니다.', code: 'appeal_pending' }, { status: 409 })
+      }
+      console.error('[Appeals] 이의 신청 저장 실패:', insertError)
+      return NextResponse.json({ error: 'Failed to create appeal' }, { status: 500 })
+    }
+
+    const [formatted] = await formatAppeals(supabase, [appeal])
+    return NextResponse.json({ success: true, appeal: formatted }, { status: 201 })
+  } catch (error: unknown) {
+    console.error('Create attendance appeal error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// GET - 이의 신청 목록 (학생: 본인 신청 내역, 교수: 담당 강의 처리 대기열)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createServiceClient()
+    const searchParams = request.nextUrl.searchParams
+    const statusFilter = searchParams.get('status') ?? (user.userType === 'professor' ? 'pending' : 'all')
+    const attendanceId = searchParams.get('attendanceId')
+    const sessionId = searchParams.get('sessionId')
+
+    if (!['pending', 'approved', 'rejected', 'all'].includes(statusFilter)) {
+      return NextResponse.json({ error: 'status는 pending, approved, rejected, all 중 하나여야 합니다.' }, { status: 400 })
+    }
+
+    let query = supabase
+      .from('attendance_appeals')
+      .select(APPEAL_COLUMNS)
+      .order('created_at', { ascending: user.userType === 'professor' && statusFilter === 'pending' })
+      .limit(100)
+
+    if (user.userType === 'student') {
+      query = query.eq('student_id', user.userId)
+    } else {
+      const { data: courses, error: coursesError } = await supabase
+        .from('courses')
+        .select('id')
+        .eq('professor_id', user.userId)
+
+      if (coursesError) {
+        console.error('[Appeals] 강의 조회 실패:', coursesError)
+        return NextResponse.json({ error: 'Failed to fetch courses' }, { status: 500 })
+      }
+
+      const courseIds = (courses ?? []).map((course) => course.id)
+      if (courseIds.length === 0) {
+        return NextResponse.json({ success: true, appeals: [] })
+      }
+      query = query.in('course_id', courseIds)
+    }
+
+    if (statusFilter !== 'all') {
+      query = query.eq('status', statusFilter as AppealRow['status'])
+    }
+    if (attendanceId) {
+      query = query.eq('attendance_id', attendanceId)
+    }
+    if (sessionId) {
+      query = query.eq('session_id', sessionId)
+    }
+
+    const { data: appeals, error } = await query
+    if (error) {
+      console.error('[Appeals] 이의 신청 조회 실패:', error)
+      return NextResponse.json({ error: 'Failed to fetch appeals' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      appeals: await formatAppeals(supabase, appeals ?? [])
+    })
+  } catch (error: unknown) {
+    console.error('Get attendance appeals error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -3,48 +3,39 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase-admin'
 import { autoEndSessionIfNeeded } from '@/lib/session/session-service'
-import { evaluateLocation } from '@/lib/utils/geo'
+import {
+  hasDeviceBindingColumns,
+  hasGeofenceColumns,
+  hasCheckinResponseColumns,
+  hasLateGradingColumns,
+  hasOfflineCheckinColumns
+} from '@/lib/courses/schemaSupport'
+import { getCourseRosterSettings } from '@/lib/courses/roster-import'
+import { describeCheckInStatus, gradeCheckIn, resolveLatePolicy, resolveSessionStartTime } from '@/lib/attendance/late-policy'
+import { resolveOfflineCapture, resolveSessionEndedAt } from '@/lib/attendance/offline-checkin'
+import { findStoredCheckInResponse, isIdempotencyKey } from '@/lib/attendance/checkin-idempotency'
+import { verifyCheckInTicket, verifyQRToken } from '@/lib/qr/qr-token'
+import { evaluateGeofence } from '@/lib/utils/geofence'
+import { loadClassroomLocation, loadClassroomProximityFingerprint } from '@/lib/location/classroom-location'
+import {
+  matchProximityFingerprint,
+  parseProximityObservations,
+  type ProximityMatch
+} from '@/lib/fusion/proximity-fingerprint'
+import {
+  SHARED_DEVICE_FAILURE_REASON,
+  detectDeviceType,
+  findOtherStudentsOnDevice,
+  isStudentDeviceActive,
+  normalizeNetworkType
+} from '@/lib/device/device-binding'
+import { DEVICE_BINDING_CONFIG } from '@/lib/config/attendance-config'
 import { RateLimitPresets } from '@/lib/middleware/rate-limit'
 import { createLogger } from '@/lib/logger'
-import type { SupabaseSessionRow, SupabaseCourseRow } from '@/lib/session/types'
+import type { SupabaseSessionRow } from '@/lib/session/types'
 
 const logger = createLogger('attendance-checkin')
 
-interface ResolvedLocation {
-  latitude: number
-  longitude: number
-  radius: number
-  displayName?: string
-}
-
-function resolveClassroomLocation(session: SupabaseSessionRow, course: SupabaseCourseRow | SupabaseCourseRow[] | null): ResolvedLocation | null {
-  if (session.classroom_latitude !== null && session.classroom_longitude !== null) {
-    return {
-      latitude: Number(session.classroom_latitude),
-      longitude: Number(session.classroom_longitude),
-      radius: session.classroom_radius ?? 100,
-      displayName: undefined
-    }
-  }
-
-  const courseRecord = Array.isArray(course) ? course[0] ?? null : course
-  if (!courseRecord) {
-    return null
-  }
-
-  if (courseRecord.location_latitude !== null && courseRecord.location_longitude !== null) {
-    return {
-      latitude: Number(courseRecord.location_latitude),
-      longitude: Number(courseRecord.location_longitude),
-      radius: courseRecord.location_radius ?? 100,
-      displayName: courseRecord.location ?? undefined
-    }
-  }
-
-  return null
-}
-
-
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
@@ -56,10 +47,23 @@ interface CheckInRequest {
   clientTimestamp?: string
   correlationId?: string
   attemptNumber?: number
+  /** QR에 포함된 서명 회전 토큰 */
+  qrToken?: string
+  /** 스캔 직후 QR 토큰을 교환한 체크인 티켓 (/api/attendance/checkin/ticket) */
+  checkInTicket?: string
+  /** navigator.connection 네트워크 종류 */
+  networkType?: string
+  /** 오프라인 대기열에서 재전송된 경우 QR 스캔 시각 (기기 시계) */
+  capturedAt?: string
+  /** 비콘/AP 관측 (강의실 근접 지문과 비교) */
+  proximity?: unknown
 }
 
 const MAX_CLOCK_SKEW_MS = 60 * 1000
 
+// 같은 correlationId 재요청에 저장된 첫 성공 응답을 돌려줄 때 표시
+const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed'
+
 // Legacy logging function - deprecated, use logger directly
 function logCheckin(event: string, data: Record<string, unknown>) {
   logger.info(event, data)
@@ -91,6 +95,7 @@ export async function POST(request: NextRequest) {
     const clientTimestamp = typeof clientTimestampRaw === 'string' ? clientTimestampRaw : undefined
     const attemptNumber = Number.isFinite(Number(body.attemptNumber)) ? Number(body.attemptNumber) : 0
     const correlationId = typeof body.correlationId === 'string' && body.correlationId.length > 0 ? body.correlationId : randomUUID()
+    const qrToken = typeof body.qrToken === 'string' && body.qrToken.length > 0 ? body.qrToken : null
     let parsedClientTimestamp: Date | null = null
 
     if (!clientTimestamp) {
@@ -143,6 +148,31 @@ export async function POST(request: NextRequest) {
 
     const supabase = createServiceClient()
     const serverNow = new Date()
+
+    // 체크인 기기 정보 (기기 식별자는 로그인 시 등록되어 토큰에 담긴 값만 사용)
+    const deviceBindingEnabled = await hasDeviceBindingColumns(supabase)
+    const deviceId = deviceBindingEnabled ? user.deviceId ?? null : null
+    const deviceContext = {
+      device_type: detectDeviceType(request.headers.get('user-agent')),
+      network_type: normalizeNetworkType(body.networkType),
+      ...(deviceBindingEnabled && { device_id: deviceId })
+    }
+
+    // 응답 시간 초과 후 재시도: 같은 correlationId의 첫 성공 응답을 그대로 반환 (시계 오차/QR 회전과 무관)
+    const idempotencyEnabled = isIdempotencyKey(body.correlationId) && await hasCheckinResponseColumns(supabase)
+    if (idempotencyEnabled) {
+      const storedResponse = await findStoredCheckInResponse(supabase, user.userId, sessionId, correlationId)
+      if (storedResponse) {
+        logCheckin('idempotent_replay', {
+          correlationId,
+          sessionId: sessionId.slice(0, 8),
+          studentId: user.userId.slice(0, 8),
+          attemptNumber
+        })
+        return NextResponse.json(storedResponse, { headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' } })
+      }
+    }
+
     const skew = Math.abs(serverNow.getTime() - parsedClientTimestamp.getTime())
     const clockSkewSeconds = Math.round(skew / 1000)
     if (skew > MAX_CLOCK_SKEW_MS) {
@@ -164,7 +194,8 @@ export async function POST(request: NextRequest) {
           clock_skew_seconds: clockSkewSeconds,
           result: 'clock_skew',
           failure_reason: 'client_clock_skew',
-          correlation_id: correlationId
+          correlation_id: correlationId,
+          ...deviceContext
         })
       return NextResponse.json(
         {
@@ -176,6 +207,62 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // 오프라인 대기열 재전송: 스캔 시각을 서버 시계로 보정해 QR/지각/종료 여부를 스캔 시점 기준으로 판정
+    // (QR 토큰이 스캔 시각에 유효해야 하므로 스캔 시각은 토큰에 서명된 타임스텝 밖으로 앞당길 수 없음)
+    const capturedAtRaw = typeof body.capturedAt === 'string' && body.capturedAt.length > 0 ? body.capturedAt : null
+    const offlineColumns = capturedAtRaw ? await hasOfflineCheckinColumns(supabase) : false
+    let capturedAt: Date | null = null
+    let queuedSeconds = 0
+    if (capturedAtRaw) {
+      const capture = resolveOfflineCapture(capturedAtRaw, parsedClientTimestamp, serverNow)
+      if (!capture.ok) {
+        await supabase
+          .from('attendance_attempts')
+          .insert({
+            session_id: sessionId,
+            student_id: user.userId,
+            attempt_number: attemptNumber,
+            client_timestamp: parsedClientTimestamp.toISOString(),
+            clock_skew_seconds: clockSkewSeconds,
+            result: capture.reason === 'too_old' ? 'expired' : 'error',
+            failure_reason: `offline_${capture.reason}`,
+            correlation_id: correlationId,
+            ...deviceContext
+          })
+        logCheckin('offline_capture_rejected', {
+          correlationId,
+          sessionId: sessionId.slice(0, 8),
+          studentId: user.userId.slice(0, 8),
+          attemptNumber,
+          reason: capture.reason
+        })
+        return NextResponse.json(
+          {
+            error: capture.reason === 'too_old'
+              ? '오프라인으로 저장된 출석이 너무 오래되어 인정되지 않습니다.'
+              : '오프라인 출석의 스캔 시각이 올바르지 않습니다.',
+            code: 'offline_capture_rejected',
+            reason: capture.reason
+          },
+          { status: 400 }
+        )
+      }
+      capturedAt = capture.capturedAt
+      queuedSeconds = capture.queuedSeconds
+    }
+
+    // 스캔 직후 교환한 체크인 티켓: 교환 시각(서버 시계)을 스캔 시각으로 쓰고 QR 토큰 검증을 대신함
+    const checkInTicket = typeof body.checkInTicket === 'string' && body.checkInTicket.length > 0 ? body.checkInTicket : null
+    const ticketVerification = checkInTicket
+      ? await verifyCheckInTicket(checkInTicket, sessionId, user.userId, serverNow.getTime())
+      : null
+    const ticketScannedAt = ticketVerification?.valid ? ticketVerification.claims.scannedAt : null
+    const checkInAt = ticketScannedAt ?? capturedAt ?? serverNow
+    const attemptContext = {
+      ...deviceContext,
+      ...(capturedAt && offlineColumns && { captured_at: capturedAt.toISOString() })
+    }
+
     console.log('🔧 [CheckIn] Supabase 클라이언트 생성 완료')
 
     console.log('🔍 [CheckIn] 세션 조회 시작...', {
@@ -216,6 +303,7 @@ export async function POST(request: NextRequest) {
           result: 'expired',
           failure_reason: 'session_not_found_precheck',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -243,11 +331,18 @@ export async function POST(request: NextRequest) {
 
     console.log('🎯 [CheckIn] 세션 상세 조회 시작...')
 
+    const geofenceColumns = await hasGeofenceColumns(supabase)
+      ? 'classroom_geofence, classroom_geofence_buffer,'
+      : ''
+
     const { data: session, error: sessionError } = await supabase
       .from('class_sessions')
       .select(`
         id,
         course_id,
+        date,
+        start_time,
+        end_time,
         created_at,
         updated_at,
         qr_code,
@@ -256,7 +351,8 @@ export async function POST(request: NextRequest) {
         classroom_latitude,
         classroom_longitude,
         classroom_radius,
-        courses ( id, name, course_code, location, location_latitude, location_longitude, location_radius )
+        ${geofenceColumns}
+        courses ( id, name, course_code, location, location_latitude, location_longitude, location_radius, classroom_location )
       `)
       .eq('id', sessionId)
       .maybeSingle<SupabaseSessionRow>()
@@ -305,6 +401,7 @@ export async function POST(request: NextRequest) {
           result: 'expired',
           failure_reason: 'session_not_found',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -335,6 +432,7 @@ export async function POST(request: NextRequest) {
           result: 'expired',
           failure_reason: 'session_data_null',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -370,6 +468,9 @@ export async function POST(request: NextRequest) {
     const autoEndResult = await autoEndSessionIfNeeded(supabase, {
       id: sessionRow.id,
       status: sessionRow.status,
+      date: sessionRow.date,
+      start_time: sessionRow.start_time,
+      end_time: sessionRow.end_time,
       created_at: sessionRow.created_at,
       updated_at: sessionRow.updated_at,
       course_id: courseId
@@ -381,7 +482,11 @@ export async function POST(request: NextRequest) {
       updated_at: autoEndResult.session.updated_at ?? sessionRow.updated_at
     }
 
-    if (autoEndResult.autoEnded || normalizedSession.status === 'ended') {
+    // 종료 전에 스캔해 두었다가 늦게 전송된 출석은 인정
+    const sessionEndedAt = resolveSessionEndedAt(normalizedSession)
+    const scannedAt = ticketScannedAt ?? capturedAt
+    const capturedBeforeEnd = scannedAt !== null && sessionEndedAt !== null && scannedAt < sessionEndedAt
+    if ((autoEndResult.autoEnded || normalizedSession.status === 'ended') && !capturedBeforeEnd) {
       await supabase
         .from('attendance_attempts')
         .insert({
@@ -393,6 +498,7 @@ export async function POST(request: NextRequest) {
           result: 'expired',
           failure_reason: 'session_ended',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -410,7 +516,7 @@ export async function POST(request: NextRequest) {
     }
 
     const expiresAt = new Date(normalizedSession.qr_code_expires_at)
-    if (expiresAt < new Date()) {
+    if (expiresAt < checkInAt) {
       await supabase
         .from('attendance_attempts')
         .insert({
@@ -422,6 +528,7 @@ export async function POST(request: NextRequest) {
           result: 'expired',
           failure_reason: 'qr_expired',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -438,7 +545,81 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const resolvedLocation = resolveClassroomLocation(normalizedSession, normalizedSession.courses)
+    // 서명된 회전 QR 토큰 검증 (캡처/전달된 QR 재사용 방지, 오프라인 재전송은 스캔 시각 기준)
+    const qrVerification = !ticketScannedAt && qrToken
+      ? await verifyQRToken(qrToken, sessionId, checkInAt.getTime())
+      : null
+    const qrFailure = qrVerification && !qrVerification.valid ? qrVerification : null
+    const ticketFailure = ticketVerification && !ticketVerification.valid ? ticketVerification : null
+    if (!ticketScannedAt && !qrVerification?.valid) {
+      const failureReason = qrFailure
+        ? `qr_${qrFailure.reason}`
+        : ticketFailure ? `ticket_${ticketFailure.reason}` : 'qr_token_missing'
+      const isRotated = qrFailure ? qrFailure.reason === 'stale_step' : ticketFailure?.reason === 'expired'
+      await supabase
+        .from('attendance_attempts')
+        .insert({
+          session_id: sessionId,
+          student_id: user.userId,
+          attempt_number: attemptNumber,
+          client_timestamp: parsedClientTimestamp.toISOString(),
+          clock_skew_seconds: clockSkewSeconds,
+          result: isRotated ? 'expired' : 'error',
+          failure_reason: failureReason,
+          correlation_id: correlationId,
+          ...attemptContext,
+          device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
+          device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
+          device_accuracy: Number.isFinite(accuracy) ? accuracy : null
+        })
+      logCheckin('qr_token_rejected', {
+        correlationId,
+        sessionId: sessionId.slice(0, 8),
+        studentId: user.userId.slice(0, 8),
+        attemptNumber,
+        reason: failureReason,
+        tokenStep: qrFailure?.claims?.step ?? null,
+        currentStep: qrFailure?.currentStep ?? null
+      })
+      return NextResponse.json(
+        isRotated
+          ? { error: 'QR 코드가 갱신되었습니다. 교수님 화면의 QR 코드를 다시 스캔해주세요.', code: 'qr_rotated' }
+          : { error: '유효하지 않은 QR 코드입니다. 교수님 화면의 QR 코드를 다시 스캔해주세요.', code: 'invalid_qr' },
+        { status: 400 }
+      )
+    }
+
+    // 재등록 승인으로 해제된 기기의 토큰으로는 체크인 불가
+    if (deviceId && !(await isStudentDeviceActive(supabase, user.userId, deviceId))) {
+      await supabase
+        .from('attendance_attempts')
+        .insert({
+          session_id: sessionId,
+          student_id: user.userId,
+          attempt_number: attemptNumber,
+          client_timestamp: parsedClientTimestamp.toISOString(),
+          clock_skew_seconds: clockSkewSeconds,
+          result: 'error',
+          failure_reason: 'device_revoked',
+          correlation_id: correlationId,
+          ...attemptContext
+        })
+      logCheckin('device_revoked', {
+        correlationId,
+        sessionId: sessionId.slice(0, 8),
+        studentId: user.userId.slice(0, 8),
+        attemptNumber
+      })
+      return NextResponse.json(
+        { error: '등록이 해제된 기기입니다. 다시 로그인해주세요.', code: 'device_revoked' },
+        { status: 403 }
+      )
+    }
+
+    const resolvedLocation = await loadClassroomLocation(supabase, {
+      session: normalizedSession,
+      course: normalizedSession.courses
+    })
     if (!resolvedLocation) {
       await supabase
         .from('attendance_attempts')
@@ -451,6 +632,7 @@ export async function POST(request: NextRequest) {
           result: 'error',
           failure_reason: 'missing_location',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -468,6 +650,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // 비콘/AP 관측이 강의실 근접 지문과 맞으면 GPS 정확도/거리와 별개의 위치 근거로 사용 (실내 GPS 불안정 대응)
+    const proximityObservations = parseProximityObservations(body.proximity, serverNow.getTime())
+    let proximityMatch: ProximityMatch | null = null
+    if (proximityObservations.length > 0) {
+      const fingerprint = await loadClassroomProximityFingerprint(supabase, {
+        location: resolvedLocation,
+        course: normalizedSession.courses
+      })
+      if (fingerprint) {
+        proximityMatch = matchProximityFingerprint(proximityObservations, fingerprint)
+      }
+    }
+    const proximityMatched = proximityMatch?.matched === true
+    const locationEvidence = proximityMatched ? 'proximity' : 'gps'
+
     console.log('🔍 [CheckIn] 위치 검증 시작:', {
       student: {
         latitude: latitude,
@@ -477,13 +674,16 @@ export async function POST(request: NextRequest) {
       classroom: {
         latitude: resolvedLocation.latitude,
         longitude: resolvedLocation.longitude,
-        radius: resolvedLocation.radius
+        radius: resolvedLocation.radius,
+        shape: resolvedLocation.geofence.type,
+        source: resolvedLocation.source
       },
+      proximity: proximityMatch,
       note: '학생과 강의실의 실제 GPS 좌표'
     })
 
-    // GPS 정확도 검증 (학술제 시연용: 2000m까지 허용)
-    if (accuracy > 2000) {
+    // GPS 정확도 검증 (학술제 시연용: 2000m까지 허용, 비콘으로 강의실이 확인되면 생략)
+    if (accuracy > 2000 && !proximityMatched) {
       console.warn(`⚠️ GPS 정확도가 낮음: ${Math.round(accuracy)}m`)
       await supabase
         .from('attendance_attempts')
@@ -496,6 +696,7 @@ export async function POST(request: NextRequest) {
           result: 'error',
           failure_reason: 'low_gps_accuracy',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -508,21 +709,15 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const evaluation = evaluateLocation(
-      latitude,
-      longitude,
-      accuracy,
-      resolvedLocation.latitude,
-      resolvedLocation.longitude,
-      resolvedLocation.radius
-    )
+    const evaluation = evaluateGeofence(latitude, longitude, accuracy, resolvedLocation.geofence)
 
     console.log('📊 [CheckIn] 위치 검증 결과:', {
       distance: Math.round(evaluation.distance),
       distanceInKm: (evaluation.distance / 1000).toFixed(2),
       effectiveDistance: Math.round(evaluation.effectiveDistance),
       isLocationValid: evaluation.isLocationValid,
-      allowedRadius: resolvedLocation.radius,
+      allowedRadius: evaluation.allowedRadius,
+      shape: evaluation.shape,
       passed: evaluation.isLocationValid ? '✅ 통과' : '❌ 실패'
     })
 
@@ -538,6 +733,7 @@ export async function POST(request: NextRequest) {
           result: 'error',
           failure_reason: 'distance_not_finite',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number.isFinite(latitude) ? Number(latitude.toFixed(2)) : null,
           device_lng: Number.isFinite(longitude) ? Number(longitude.toFixed(2)) : null,
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -555,7 +751,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!evaluation.isLocationValid) {
+    if (!evaluation.isLocationValid && !proximityMatched) {
       await supabase
         .from('attendance_attempts')
         .insert({
@@ -567,6 +763,7 @@ export async function POST(request: NextRequest) {
           result: 'error',
           failure_reason: 'location_out_of_range',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number(latitude.toFixed(2)),
           device_lng: Number(longitude.toFixed(2)),
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -583,15 +780,19 @@ export async function POST(request: NextRequest) {
         studentLocation: { latitude, longitude },
         classroomLocation: { latitude: resolvedLocation.latitude, longitude: resolvedLocation.longitude },
         calculatedDistance: evaluation.distance,
-        allowedRadius: resolvedLocation.radius,
-        difference: evaluation.distance - resolvedLocation.radius
+        allowedRadius: evaluation.allowedRadius,
+        shape: evaluation.shape,
+        difference: evaluation.distance - evaluation.allowedRadius
       })
       return NextResponse.json({
-        error: `위치 검증 실패: 강의실에서 ${Math.round(evaluation.distance)}m 떨어져 있습니다. (허용 반경: ${resolvedLocation.radius}m, GPS 정확도: ${Math.round(accuracy)}m)`,
+        error: evaluation.shape === 'polygon'
+          ? `위치 검증 실패: 강의실 경계에서 ${Math.round(evaluation.distance)}m 벗어나 있습니다. (허용 범위: ${Math.round(evaluation.allowedRadius)}m, GPS 정확도: ${Math.round(accuracy)}m)`
+          : `위치 검증 실패: 강의실에서 ${Math.round(evaluation.distance)}m 떨어져 있습니다. (허용 반경: ${resolvedLocation.radius}m, GPS 정확도: ${Math.round(accuracy)}m)`,
         code: 'invalid_location',
         distance: Math.round(evaluation.distance),
         effectiveDistance: Math.round(evaluation.effectiveDistance),
-        allowedRadius: resolvedLocation.radius,
+        allowedRadius: Math.round(evaluation.allowedRadius),
+        geofenceShape: evaluation.shape,
         gpsAccuracy: Math.round(accuracy),
         retryAfterSeconds: attemptNumber === 0 ? 3 : undefined,
         debug: process.env.NODE_ENV === 'development' ? {
@@ -603,6 +804,44 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    // 한 기기에서 같은 세션에 여러 학생이 체크인하는지 확인 (대리 출석 의심)
+    const sharedWith = deviceId
+      ? await findOtherStudentsOnDevice(supabase, { sessionId, deviceId, studentId: user.userId })
+      : []
+    if (sharedWith.length > 0) {
+      logCheckin('shared_device', {
+        correlationId,
+        sessionId: sessionId.slice(0, 8),
+        studentId: user.userId.slice(0, 8),
+        attemptNumber,
+        otherStudents: sharedWith.length,
+        action: DEVICE_BINDING_CONFIG.sharedDeviceAction
+      })
+
+      if (DEVICE_BINDING_CONFIG.sharedDeviceAction === 'block') {
+        await supabase
+          .from('attendance_attempts')
+          .insert({
+            session_id: sessionId,
+            student_id: user.userId,
+            attempt_number: attemptNumber,
+            client_timestamp: parsedClientTimestamp.toISOString(),
+            clock_skew_seconds: clockSkewSeconds,
+            result: 'error',
+            failure_reason: SHARED_DEVICE_FAILURE_REASON,
+            correlation_id: correlationId,
+            ...attemptContext,
+            device_lat: Number(latitude.toFixed(2)),
+            device_lng: Number(longitude.toFixed(2)),
+            device_accuracy: Number.isFinite(accuracy) ? accuracy : null
+          })
+        return NextResponse.json(
+          { error: '이 기기에서 이미 다른 학생이 출석했습니다. 본인 기기로 출석해주세요.', code: 'shared_device' },
+          { status: 403 }
+        )
+      }
+    }
+
     const { data: existingEnrollment, error: enrollmentError } = await supabase
       .from('course_enrollments')
       .select('id')
@@ -616,6 +855,33 @@ export async function POST(request: NextRequest) {
     }
 
     if (!existingEnrollment) {
+      const rosterSettings = await getCourseRosterSettings(supabase, courseId)
+      if (!rosterSettings.autoEnrollOnScan) {
+        await supabase
+          .from('attendance_attempts')
+          .insert({
+            session_id: sessionId,
+            student_id: user.userId,
+            attempt_number: attemptNumber,
+            client_timestamp: parsedClientTimestamp.toISOString(),
+            clock_skew_seconds: clockSkewSeconds,
+            result: 'error',
+            failure_reason: 'not_enrolled',
+            correlation_id: correlationId,
+            ...attemptContext
+          })
+        logCheckin('not_enrolled', {
+          correlationId,
+          sessionId: sessionId.slice(0, 8),
+          studentId: user.userId.slice(0, 8),
+          attemptNumber
+        })
+        return NextResponse.json(
+          { error: '이 강의는 수강 명단에 등록된 학생만 출석할 수 있습니다. 담당 교수에게 문의하세요.', code: 'not_enrolled' },
+          { status: 403 }
+        )
+      }
+
       const { error: enrollmentInsertError } = await supabase
         .from('course_enrollments')
         .insert({
@@ -642,10 +908,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to verify attendance record' }, { status: 500 })
     }
 
-    const nowIso = new Date().toISOString()
     let attendanceId: string
 
+    // 수업 시작 시각 기준 지각 판정 (마이그레이션 015 미적용 시 기존처럼 present)
+    const lateGradingEnabled = await hasLateGradingColumns(supabase)
+    let grade = gradeCheckIn(null, checkInAt, resolveLatePolicy(null))
+
+    if (lateGradingEnabled) {
+      const { data: courseTiming, error: courseTimingError } = await supabase
+        .from('courses')
+        .select('schedule, late_grace_minutes, late_cutoff_minutes')
+        .eq('id', courseId)
+        .maybeSingle()
+
+      if (courseTimingError) {
+        console.warn('Course timing lookup failed, grading as present:', courseTimingError)
+      } else {
+        const sessionStart = resolveSessionStartTime(normalizedSession, courseTiming?.schedule)
+        grade = gradeCheckIn(sessionStart?.startTime ?? null, checkInAt, resolveLatePolicy(courseTiming))
+      }
+    }
+
     if (existingAttendance) {
+      // 같은 correlationId의 동시 요청이 먼저 성공한 경우
+      const storedResponse = idempotencyEnabled
+        ? await findStoredCheckInResponse(supabase, user.userId, sessionId, correlationId)
+        : null
+      if (storedResponse) {
+        return NextResponse.json(storedResponse, { headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' } })
+      }
+
       await supabase
         .from('attendance_attempts')
         .insert({
@@ -657,6 +949,7 @@ export async function POST(request: NextRequest) {
           result: 'duplicate',
           failure_reason: 'already_present',
           correlation_id: correlationId,
+          ...attemptContext,
           device_lat: Number(latitude.toFixed(2)),
           device_lng: Number(longitude.toFixed(2)),
           device_accuracy: Number.isFinite(accuracy) ? accuracy : null
@@ -672,18 +965,65 @@ export async function POST(request: NextRequest) {
         { status: 409 }
       )
     } else {
+      // 지각 마감이 지난 체크인은 출석 기록을 만들지 않고 거부 (결석은 기록이 없는 상태로 남음)
+      if (grade.status === 'absent') {
+        await supabase
+          .from('attendance_attempts')
+          .insert({
+            session_id: sessionId,
+            student_id: user.userId,
+            attempt_number: attemptNumber,
+            client_timestamp: parsedClientTimestamp.toISOString(),
+            clock_skew_seconds: clockSkewSeconds,
+            result: 'expired',
+            failure_reason: 'late_cutoff_passed',
+            correlation_id: correlationId,
+            ...attemptContext,
+            device_lat: Number(latitude.toFixed(2)),
+            device_lng: Number(longitude.toFixed(2)),
+            device_accuracy: Number.isFinite(accuracy) ? accuracy : null
+          })
+        logCheckin('late_cutoff_passed', {
+          correlationId,
+          sessionId: sessionId.slice(0, 8),
+          studentId: user.userId.slice(0, 8),
+          attemptNumber,
+          lateMinutes: grade.minutesLate
+        })
+        return NextResponse.json(
+          {
+            error: `지각 인정 시간이 지나 출석할 수 없습니다. (수업 시작 후 ${grade.minutesLate}분)`,
+            code: 'late_cutoff_passed',
+            lateMinutes: grade.minutesLate,
+            sessionStartTime: grade.startTime
+          },
+          { status: 400 }
+        )
+      }
+
       const { data: insertedAttendance, error: insertAttendanceError } = await supabase
         .from('attendances')
         .insert({
           session_id: sessionId,
           student_id: user.userId,
-          status: 'present',
-          check_in_time: nowIso,
-          location_verified: true
+          status: grade.status,
+          check_in_time: checkInAt.toISOString(),
+          ...(capturedBeforeEnd && sessionEndedAt && { check_out_time: sessionEndedAt.toISOString() }),
+          location_verified: true,
+          ...(lateGradingEnabled && { late_minutes: grade.status === 'present' ? null : grade.minutesLate }),
+          ...(idempotencyEnabled && { correlation_id: correlationId })
         })
         .select('id')
         .single()
 
+      // 같은 correlationId의 동시 요청이 먼저 출석 기록을 만든 경우
+      if (insertAttendanceError?.code === '23505' && idempotencyEnabled) {
+        const storedResponse = await findStoredCheckInResponse(supabase, user.userId, sessionId, correlationId)
+        if (storedResponse) {
+          return NextResponse.json(storedResponse, { headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' } })
+        }
+      }
+
       if (insertAttendanceError || !insertedAttendance) {
         console.error('Attendance insert failed:', insertAttendanceError)
         return NextResponse.json({ error: 'Failed to create attendance record' }, { status: 500 })
@@ -710,6 +1050,24 @@ export async function POST(request: NextRequest) {
       console.warn('Failed to insert location log:', logError)
     }
 
+    const responseBody = {
+      success: true,
+      attendanceId,
+      sessionId,
+      status: grade.status,
+      lateMinutes: grade.minutesLate,
+      sessionStartTime: grade.startTime,
+      message: describeCheckInStatus(grade.status, grade.minutesLate),
+      locationVerified: true,
+      locationEvidence,
+      distance: Math.round(evaluation.distance),
+      retryAttempt: attemptNumber,
+      serverTimestamp: serverNow.toISOString(),
+      offline: capturedAt !== null,
+      checkInTime: checkInAt.toISOString(),
+      correlationId
+    }
+
     await supabase
       .from('attendance_attempts')
       .insert({
@@ -721,9 +1079,11 @@ export async function POST(request: NextRequest) {
         result: 'success',
         failure_reason: null,
         correlation_id: correlationId,
+        ...attemptContext,
         device_lat: Number(latitude.toFixed(2)),
         device_lng: Number(longitude.toFixed(2)),
-        device_accuracy: Number.isFinite(accuracy) ? accuracy : null
+        device_accuracy: Number.isFinite(accuracy) ? accuracy : null,
+        ...(idempotencyEnabled && { response_body: responseBody })
       })
 
     logCheckin('success', {
@@ -731,20 +1091,15 @@ export async function POST(request: NextRequest) {
       sessionId: sessionId.slice(0, 8),
       studentId: user.userId.slice(0, 8),
       attemptNumber,
-      distance: Math.round(evaluation.distance)
-    })
-
-    return NextResponse.json({
-      success: true,
-      attendanceId,
-      sessionId,
-      message: '출석이 완료되었습니다.',
-      locationVerified: true,
       distance: Math.round(evaluation.distance),
-      retryAttempt: attemptNumber,
-      serverTimestamp: serverNow.toISOString(),
-      correlationId
+      locationEvidence,
+      ...(proximityMatch && { proximityScore: proximityMatch.score }),
+      status: grade.status,
+      lateMinutes: grade.minutesLate,
+      ...(capturedAt && { offline: true, queuedSeconds })
     })
+
+    return NextResponse.json(responseBody)
   } catch (error) {
     console.error('Check-in API error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { signCheckInTicket, verifyQRToken } from '@/lib/qr/qr-token'
+import { RateLimitPresets } from '@/lib/middleware/rate-limit'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('attendance-checkin')
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface CheckInTicketRequest {
+  sessionId: string
+  qrToken: string
+}
+
+// POST - 스캔 직후 회전 QR 토큰을 체크인 티켓으로 교환 (위치 측정 중 QR 이 회전해도 체크인 가능)
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await RateLimitPresets.checkin(request)
+  if (rateLimitResult) {
+    return rateLimitResult
+  }
+
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'student') {
+      return NextResponse.json({ error: 'Only students can check in' }, { status: 403 })
+    }
+
+    const body = (await request.json()) as Partial<CheckInTicketRequest>
+    if (typeof body.sessionId !== 'string' || body.sessionId.length === 0) {
+      return NextResponse.json({ error: '유효한 세션 ID가 필요합니다.' }, { status: 400 })
+    }
+
+    const now = Date.now()
+    const verification = typeof body.qrToken === 'string' && body.qrToken.length > 0
+      ? await verifyQRToken(body.qrToken, body.sessionId, now)
+      : null
+
+    if (!verification || !verification.valid) {
+      const isRotated = verification?.valid === false && verification.reason === 'stale_step'
+      logger.info('checkin_ticket_rejected', {
+        sessionId: body.sessionId.slice(0, 8),
+        studentId: user.userId.slice(0, 8),
+        reason: verification ? verification.reason : 'token_missing'
+      })
+      return NextResponse.json(
+        isRotated
+          ? { error: 'QR 코드가 갱신되었습니다. 교수님 화면의 QR 코드를 다시 스캔해주세요.', code: 'qr_rotated' }
+          : { error: '유효하지 않은 QR 코드입니다. 교수님 화면의 QR 코드를 다시 스캔해주세요.', code: 'invalid_qr' },
+        { status: 400 }
+      )
+    }
+
+    const signed = await signCheckInTicket(verification.claims, user.userId, now)
+    return NextResponse.json({ success: true, ...signed })
+  } catch (error) {
+    console.error('Check-in ticket API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,8 +2,24 @@ import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { autoEndSessionIfNeeded } from '@/lib/session/session-service'
-import { calculateDistance } from '@/lib/utils/geo'
-import type { SupabaseSessionRow, SupabaseCourseRow } from '@/lib/session/types'
+import { hasFloorColumns, hasGeofenceColumns, hasSignalTrackingColumns } from '@/lib/courses/schemaSupport'
+import { measureGeofence } from '@/lib/utils/geofence'
+import { loadClassroomFloor, loadClassroomLocation, loadClassroomProximityFingerprint } from '@/lib/location/classroom-location'
+import {
+  matchProximityFingerprint,
+  parseProximityObservations,
+  type ProximityMatch
+} from '@/lib/fusion/proximity-fingerprint'
+import {
+  TRAJECTORY_FLOOR_SAMPLE_COLUMNS,
+  TRAJECTORY_SAMPLE_COLUMNS,
+  recordLeftEarlyDecision,
+  replayHeartbeatTrajectory,
+  resolveLeftEarlyPolicy,
+  type LeftEarlyDecision,
+  type TrajectoryLogRow,
+  type TrajectorySample
+} from '@/lib/attendance/left-early-policy'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -14,7 +30,8 @@ interface HeartbeatRequest {
   latitude: number;
   longitude: number;
   accuracy: number;
-  timestamp: number;
+  // 클라이언트 측정 시각 (참고용, 저장·조퇴 판정에는 서버 수신 시각 사용)
+  timestamp?: number;
   isBackground: boolean;
   source: 'foreground' | 'background' | 'page-hidden';
   // PDR 융합 메타데이터 (선택적)
@@ -26,49 +43,10 @@ interface HeartbeatRequest {
   // GPS 이상치 정보 (서버 조퇴 판단용)
   gpsAnomalyCount?: number;
   lastGpsAnomalyDistance?: number;
-}
-
-interface ResolvedLocation {
-  latitude: number
-  longitude: number
-  radius: number
-  displayName?: string
-}
-
-// Heartbeat API에서 사용할 최소 필드만 요구하는 타입
-type SessionLocationData = Pick<SupabaseSessionRow, 'classroom_latitude' | 'classroom_longitude' | 'classroom_radius'>;
-type CourseLocationData = Pick<SupabaseCourseRow, 'location_latitude' | 'location_longitude' | 'location_radius' | 'location'>;
-
-function resolveClassroomLocation(
-  session: SessionLocationData,
-  course: CourseLocationData | CourseLocationData[] | null
-): ResolvedLocation | null {
-  // 1순위: 세션별 강의실 위치 (QR 생성 시 설정)
-  if (session.classroom_latitude !== null && session.classroom_longitude !== null) {
-    return {
-      latitude: Number(session.classroom_latitude),
-      longitude: Number(session.classroom_longitude),
-      radius: session.classroom_radius ?? 30,
-      displayName: undefined
-    }
-  }
-
-  // 2순위: 강의 고정 위치
-  const courseRecord = Array.isArray(course) ? course[0] ?? null : course
-  if (!courseRecord) {
-    return null
-  }
-
-  if (courseRecord.location_latitude !== null && courseRecord.location_longitude !== null) {
-    return {
-      latitude: Number(courseRecord.location_latitude),
-      longitude: Number(courseRecord.location_longitude),
-      radius: courseRecord.location_radius ?? 30,
-      displayName: courseRecord.location ?? undefined
-    }
-  }
-
-  return null
+  // 비콘/AP 관측 (선택적, 강의실 근접 지문과 비교)
+  proximity?: unknown;
+  // 체크인 기준 층 변화 (선택적, 기압/GPS 고도 추정)
+  floorChange?: number;
 }
 
 export async function POST(request: NextRequest) {
@@ -99,7 +77,6 @@ export async function POST(request: NextRequest) {
       latitude,
       longitude,
       accuracy = 0,
-      timestamp,
       isBackground,
       source,
       // PDR 융합 메타데이터
@@ -110,7 +87,9 @@ export async function POST(request: NextRequest) {
       pdrWeight,
       // GPS 이상치 정보
       gpsAnomalyCount,
-      lastGpsAnomalyDistance
+      lastGpsAnomalyDistance,
+      proximity,
+      floorChange
     } = body;
 
     // 필수 파라미터 검증
@@ -130,6 +109,9 @@ export async function POST(request: NextRequest) {
     console.log(`💓 Heartbeat [${source}]: ${user.name} (${latitude.toFixed(6)}, ${longitude.toFixed(6)})${pdrInfo}${gpsAnomalyInfo}`);
 
     // 1. 출석 기록 검증 및 세션 정보 확인
+    const geofenceColumns = await hasGeofenceColumns(supabase)
+      ? 'classroom_geofence, classroom_geofence_buffer,'
+      : '';
     const { data: attendanceData, error: attendanceError } = await supabase
       .from('attendances')
       .select(`
@@ -138,6 +120,9 @@ export async function POST(request: NextRequest) {
         session_id,
         class_sessions!session_id (
           id,
+          date,
+          start_time,
+          end_time,
           created_at,
           updated_at,
           status,
@@ -145,11 +130,13 @@ export async function POST(request: NextRequest) {
           classroom_latitude,
           classroom_longitude,
           classroom_radius,
+          ${geofenceColumns}
           courses!course_id (
             location_latitude,
             location_longitude,
             location_radius,
-            location
+            location,
+            classroom_location
           )
         )
       `)
@@ -172,6 +159,9 @@ export async function POST(request: NextRequest) {
       ? await autoEndSessionIfNeeded(supabase, {
           id: session.id,
           status: session.status,
+          date: session.date ?? null,
+          start_time: session.start_time ?? null,
+          end_time: session.end_time ?? null,
           created_at: session.created_at ?? null,
           updated_at: session.updated_at ?? null,
           course_id: session.course_id
@@ -194,8 +184,8 @@ export async function POST(request: NextRequest) {
       updated_at: autoEndResult.session.updated_at
     }
 
-    // 3. 출석 상태 확인 (present가 아니면 heartbeat 중지)
-    if (attendanceData.status !== 'present') {
+    // 3. 출석 상태 확인 (present/late가 아니면 heartbeat 중지)
+    if (attendanceData.status !== 'present' && attendanceData.status !== 'late') {
       console.log(`🛑 Heartbeat 중지: 출석 상태가 '${attendanceData.status}'`);
       return NextResponse.json({
         success: true,
@@ -205,9 +195,23 @@ export async function POST(request: NextRequest) {
       }, { status: 200 });
     }
 
+    // 3.5. 마지막 heartbeat 시각 기록 (신호 끊김 판정용)
+    // GPS 정확도가 낮아 위치 로그를 남기지 않는 heartbeat 도 신호는 살아 있으므로 정확도 검증 전에 기록
+    const signalTrackingEnabled = await hasSignalTrackingColumns(supabase);
+    if (signalTrackingEnabled) {
+      const { error: lastHeartbeatError } = await supabase
+        .from('attendances')
+        .update({ last_heartbeat_at: new Date().toISOString() })
+        .eq('id', attendanceId);
+
+      if (lastHeartbeatError) {
+        console.error('마지막 heartbeat 기록 실패:', lastHeartbeatError);
+      }
+    }
+
     // 4. 강의실 위치 정보 추출
     const course = Array.isArray(normalizedSession.courses) ? normalizedSession.courses[0] : normalizedSession.courses;
-    const resolvedLocation = resolveClassroomLocation(normalizedSession, course);
+    const resolvedLocation = await loadClassroomLocation(supabase, { session: normalizedSession, course });
 
     if (!resolvedLocation) {
       console.error('❌ 강의실 위치 정보가 설정되지 않음');
@@ -225,17 +229,16 @@ export async function POST(request: NextRequest) {
     console.log('📍 강의실 위치 정보:', {
       latitude: resolvedLocation.latitude,
       longitude: resolvedLocation.longitude,
-      radius: resolvedLocation.radius
+      radius: resolvedLocation.radius,
+      shape: resolvedLocation.geofence.type,
+      source: resolvedLocation.source
     });
     console.log('📍 학생 위치:', { latitude, longitude, accuracy });
 
-    // 5. 거리 계산 (Haversine 공식)
-    const distance = calculateDistance(
-      latitude,
-      longitude,
-      resolvedLocation.latitude,
-      resolvedLocation.longitude
-    );
+    // 5. 거리 계산 (원형: 중심까지 Haversine 거리, 다각형: 경계 밖 거리)
+    const measurement = measureGeofence(latitude, longitude, accuracy, resolvedLocation.geofence);
+    const distance = measurement.distance;
+    const allowedDistance = measurement.allowedDistance;
 
     console.log('📏 계산된 거리:', distance, 'm');
 
@@ -248,79 +251,47 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    const locationValid = distance <= resolvedLocation.radius;
-
-    // 5.5. GPS 이상치 기반 조퇴 판단 (핵심 로직)
-    // GPS 이상치가 연속으로 감지되고, 이상치 거리가 허용 범위를 크게 초과하면 조퇴 처리
-    // 이는 PDR이 실제 이동을 반영하지 못할 때 GPS 원본 데이터를 신뢰하는 로직
-    if (gpsAnomalyCount && gpsAnomalyCount >= 1 && lastGpsAnomalyDistance) {
-      // GPS 이상치 거리가 허용 반경의 2배를 초과하면 실제로 이탈한 것으로 판단
-      const anomalyThreshold = resolvedLocation.radius * 2;
-
-      if (lastGpsAnomalyDistance > anomalyThreshold) {
-        console.warn(`🚨 GPS 이상치 기반 위치 이탈 감지: ${user.name}`);
-        console.warn(`   - 이상치 연속 횟수: ${gpsAnomalyCount}회`);
-        console.warn(`   - 이상치 GPS 거리: ${lastGpsAnomalyDistance.toFixed(0)}m (임계값: ${anomalyThreshold}m)`);
-
-        // 위치 로그 기록 (GPS 이상치 플래그 포함)
-        await supabase
-          .from('location_logs')
-          .insert({
-            attendance_id: attendanceId,
-            latitude: latitude,
-            longitude: longitude,
-            accuracy: accuracy,
-            timestamp: new Date(timestamp).toISOString(),
-            is_valid: false,
-            tracking_mode: trackingMode,
-            environment: environment,
-            confidence: confidence,
-            gps_weight: gpsWeight,
-            pdr_weight: pdrWeight
-          });
+    // 5.1. 비콘/AP 관측이 강의실 근접 지문과 맞으면 GPS 와 별개의 위치 근거로 사용 (실내 GPS 불안정 대응)
+    // 관측 시각이 없으면 서버 시각으로 채움 (클라이언트 timestamp 로 오래된 관측을 새 것처럼 보내지 못하도록)
+    const proximityObservations = parseProximityObservations(proximity, Date.now());
+    let proximityMatch: ProximityMatch | null = null;
+    if (proximityObservations.length > 0) {
+      const fingerprint = await loadClassroomProximityFingerprint(supabase, { location: resolvedLocation, course });
+      if (fingerprint) {
+        proximityMatch = matchProximityFingerprint(proximityObservations, fingerprint);
+        console.log(`📶 근접 지문 매칭: ${proximityMatch.reason} (${proximityMatch.matchedCount}/${proximityMatch.expectedCount}, 점수 ${proximityMatch.score})`);
+      }
+    }
+    const proximityMatched = proximityMatch?.matched === true;
+    const locationEvidence = proximityMatched ? 'proximity' : 'gps';
+
+    // 5.2. 층이 등록된 강의실이면 체크인 기준 층 변화가 0 이 아닌 heartbeat 는 강의실 밖
+    // 위아래 층 강의실은 위도/경도가 같아 GPS 경계로는 구분되지 않음
+    const reportedFloorChange = typeof floorChange === 'number' && Number.isInteger(floorChange) ? floorChange : null;
+    const classroomFloor = reportedFloorChange !== null
+      ? await loadClassroomFloor(supabase, { location: resolvedLocation, course })
+      : null;
+    const floorAware = classroomFloor !== null && reportedFloorChange !== null;
+    const differentFloor = floorAware && reportedFloorChange !== 0;
+    const studentFloor = floorAware ? classroomFloor + reportedFloorChange : null;
+    if (differentFloor) {
+      console.warn(`🏢 다른 층 감지: ${user.name} - ${studentFloor}층 (강의실 ${classroomFloor}층)`);
+    }
 
-        // 조퇴 처리
-        const { error: updateError } = await supabase
-          .from('attendances')
-          .update({
-            status: 'left_early',
-            check_out_time: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', attendanceId);
+    // 비콘 지문은 강의실(층)마다 다르므로 근접 매칭이 되면 고도 추정보다 우선
+    const locationValid = proximityMatched || (measurement.isInside && !differentFloor);
 
-        if (updateError) {
-          console.error('GPS 이상치 기반 조퇴 처리 실패:', updateError);
-        } else {
-          console.log(`✅ GPS 이상치 기반 조퇴 처리 완료: ${user.name} - GPS 거리 ${lastGpsAnomalyDistance.toFixed(0)}m`);
-        }
-
-        return NextResponse.json({
-          success: true,
-          locationValid: false,
-          statusChanged: true,
-          newStatus: 'left_early',
-          distance: Math.round(lastGpsAnomalyDistance),
-          allowedRadius: resolvedLocation.radius,
-          sessionEnded: false,
-          message: `GPS 이상치 감지: 강의실에서 약 ${Math.round(lastGpsAnomalyDistance)}m 이탈하여 조퇴 처리되었습니다.`,
-          metadata: {
-            source,
-            isBackground,
-            timestamp: new Date().toISOString(),
-            gpsAnomalyCount,
-            lastGpsAnomalyDistance: Math.round(lastGpsAnomalyDistance),
-            ...(trackingMode && { trackingMode }),
-            ...(environment && { environment })
-          }
-        });
-      }
+    // 5.5. GPS 이상치 정보는 참고용으로만 기록
+    // 조퇴 여부는 단일 샘플이 아니라 아래 8단계의 궤적 재생(최근 location_logs)으로 판단
+    if (gpsAnomalyCount && gpsAnomalyCount >= 1 && lastGpsAnomalyDistance) {
+      console.warn(`🚨 GPS 이상치 보고: ${user.name} - 연속 ${gpsAnomalyCount}회, 원본 GPS 거리 ${lastGpsAnomalyDistance.toFixed(0)}m`);
     }
 
     // 5.6. GPS 정확도 체크 (location_logs 기록 전에 먼저 검증)
     // GPS 정확도가 너무 낮으면 위치 검증 건너뜀 (실내 GPS 불안정 대응)
     // 50m로 낮춰서 더 정밀한 위치 검증 수행
-    if (accuracy > 50) {
+    // 비콘으로 강의실 안이 확인되면 GPS 정확도와 무관하게 검증을 계속함
+    if (accuracy > 50 && !proximityMatched) {
       console.warn(`⚠️ GPS 정확도가 낮아 위치 검증 건너뜀 (정확도: ${Math.round(accuracy)}m)`);
       console.warn(`💡 실내 환경에서 GPS 정확도가 낮을 수 있습니다`);
 
@@ -331,7 +302,7 @@ export async function POST(request: NextRequest) {
         lowAccuracy: true,
         distance: Math.round(distance),
         accuracy: Math.round(accuracy),
-        allowedRadius: resolvedLocation.radius,
+        allowedRadius: Math.round(allowedDistance),
         sessionEnded: false,
         message: `GPS 정확도가 낮아 위치 검증을 건너뜁니다 (정확도: ${Math.round(accuracy)}m)`,
         metadata: {
@@ -346,76 +317,98 @@ export async function POST(request: NextRequest) {
     }
 
     // 6. 위치 로그 기록 (PDR 메타데이터 포함) - GPS 정확도가 좋은 경우만
-    const { error: locationLogError } = await supabase
-      .from('location_logs')
-      .insert({
-        attendance_id: attendanceId,
-        latitude: latitude,
-        longitude: longitude,
-        accuracy: accuracy,
-        timestamp: new Date(timestamp).toISOString(),
-        is_valid: locationValid,
-        // PDR 융합 메타데이터 (선택적)
-        tracking_mode: trackingMode,
-        environment: environment,
-        confidence: confidence,
-        gps_weight: gpsWeight,
-        pdr_weight: pdrWeight
-      });
+    // 기록 시각은 서버 수신 시각: 궤적 재생의 시간 창·이탈 지속 시간을 클라이언트 시계로 조작하지 못하도록
+    // 비콘으로 확인된 heartbeat 의 GPS 좌표가 부정확하거나 경계 밖(또는 다른 층)이면 궤적 재생이 잘못 판정하지 않도록 기록하지 않음
+    const skipLocationLog = proximityMatched && (accuracy > 50 || !measurement.isInside || differentFloor);
+    if (!skipLocationLog) {
+      const { error: locationLogError } = await supabase
+        .from('location_logs')
+        .insert({
+          attendance_id: attendanceId,
+          latitude: latitude,
+          longitude: longitude,
+          accuracy: accuracy,
+          timestamp: new Date().toISOString(),
+          is_valid: locationValid,
+          // PDR 융합 메타데이터 (선택적)
+          tracking_mode: trackingMode,
+          environment: environment,
+          confidence: confidence,
+          gps_weight: gpsWeight,
+          pdr_weight: pdrWeight,
+          // 층 변화 (층이 등록된 강의실에서만, 궤적 재생 시 다른 층 판정용)
+          ...(floorAware && { floor_change: reportedFloorChange })
+        });
 
-    if (locationLogError) {
-      console.error('위치 로그 기록 실패:', locationLogError);
-      // 로그 실패는 치명적이지 않으므로 계속 진행
+      if (locationLogError) {
+        console.error('위치 로그 기록 실패:', locationLogError);
+        // 로그 실패는 치명적이지 않으므로 계속 진행
+      }
     }
 
-    // 7. attendances 테이블의 last_heartbeat 업데이트
-    const { error: heartbeatUpdateError } = await supabase
-      .from('attendances')
-      .update({
-        updated_at: new Date().toISOString(),
-        // last_heartbeat 컬럼이 있다면 업데이트
-        // last_heartbeat: new Date().toISOString()
-      })
-      .eq('id', attendanceId);
-
-    if (heartbeatUpdateError) {
-      console.error('Heartbeat 업데이트 실패:', heartbeatUpdateError);
+    // 7. last_heartbeat_at 컬럼이 없는 DB 는 updated_at 으로 마지막 heartbeat 를 표시
+    // (컬럼이 있으면 3.5단계에서 기록했으므로 updated_at 은 상태 변경에만 사용)
+    if (!signalTrackingEnabled) {
+      const { error: heartbeatUpdateError } = await supabase
+        .from('attendances')
+        .update({
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', attendanceId);
+
+      if (heartbeatUpdateError) {
+        console.error('Heartbeat 업데이트 실패:', heartbeatUpdateError);
+      }
     }
 
-    // 8. 위치 이탈 시 처리
+    // 8. 위치 이탈 시 처리: 최근 궤적을 서버에서 다시 판정
+    // 참고: GPS 정확도가 낮은 경우는 이미 위에서 early return 되어 여기까지 오지 않음
+    let replayDecision: LeftEarlyDecision | null = null;
     if (!locationValid) {
-      console.warn(`⚠️ 위치 이탈 감지: ${user.name} - ${Math.round(distance)}m (허용: ${resolvedLocation.radius}m)`);
+      console.warn(`⚠️ 위치 이탈 감지: ${user.name} - ${Math.round(distance)}m (허용: ${Math.round(allowedDistance)}m)${differentFloor ? `, ${studentFloor}층` : ''}`);
 
-      // 최근 location_logs 조회하여 연속 이탈 확인 (현재 기록 포함하여 4개 조회)
-      // 참고: GPS 정확도가 낮은 경우는 이미 위에서 early return 되어 여기까지 오지 않음
+      const policy = resolveLeftEarlyPolicy();
+      const trajectoryColumns = await hasFloorColumns(supabase) ? TRAJECTORY_FLOOR_SAMPLE_COLUMNS : TRAJECTORY_SAMPLE_COLUMNS;
       const { data: recentLogs, error: logsError } = await supabase
         .from('location_logs')
-        .select('is_valid, accuracy')
+        .select(trajectoryColumns)
         .eq('attendance_id', attendanceId)
-        .order('created_at', { ascending: false })
-        .limit(4);
+        .order('timestamp', { ascending: false })
+        .limit(policy.windowSamples * 2)
+        .returns<TrajectoryLogRow[]>();
 
       if (logsError) {
         console.error('최근 위치 로그 조회 실패:', logsError);
       }
 
-      // 연속 2회 이상 이탈 감지 시 조퇴 처리 (학술제 시연용: 빠른 반응)
-      // 단, 정확도가 좋은 GPS 데이터만 카운트
-      const validLogs = recentLogs?.filter(log => (log.accuracy || 0) <= 100) || [];
-      const shouldMarkEarlyLeave = validLogs.length >= 2 && validLogs.every(log => !log.is_valid);
-
-      if (shouldMarkEarlyLeave) {
-        console.warn(`🚪 조퇴 처리 시작: ${user.name} - 연속 ${validLogs.length}회 범위 이탈 감지`);
-
-        // attendances 테이블 업데이트: 조퇴 처리
-        const { error: updateError } = await supabase
+      const samples: TrajectorySample[] = (recentLogs ?? []).map((log) => ({
+        id: log.id,
+        timestamp: log.timestamp,
+        latitude: Number(log.latitude),
+        longitude: Number(log.longitude),
+        accuracy: Number(log.accuracy),
+        confidence: log.confidence === null || log.confidence === undefined ? null : Number(log.confidence),
+        trackingMode: log.tracking_mode ?? null,
+        floorChange: log.floor_change ?? null
+      }));
+      const decision = replayHeartbeatTrajectory(samples, resolvedLocation.geofence, new Date(), policy);
+      replayDecision = decision;
+
+      if (decision.shouldMarkLeftEarly) {
+        console.warn(`🚪 조퇴 처리 시작: ${user.name} - 최근 ${decision.windowCount}개 중 ${decision.outsideCount}개 경계 밖, ${decision.outsideMinutes}분 지속`);
+
+        // attendances 테이블 업데이트: 조퇴 처리 (그 사이 상태가 바뀌었으면 건너뜀)
+        const { data: updatedAttendance, error: updateError } = await supabase
           .from('attendances')
           .update({
             status: 'left_early',
             check_out_time: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
-          .eq('id', attendanceId);
+          .eq('id', attendanceId)
+          .in('status', ['present', 'late'])
+          .select('id')
+          .maybeSingle();
 
         if (updateError) {
           console.error('조퇴 처리 실패:', updateError);
@@ -425,7 +418,16 @@ export async function POST(request: NextRequest) {
           }, { status: 500 });
         }
 
-        console.log(`✅ 조퇴 처리 완료: ${user.name} - 거리: ${Math.round(distance)}m`);
+        if (updatedAttendance) {
+          await recordLeftEarlyDecision(supabase, {
+            attendanceId,
+            sessionId,
+            studentId: user.userId,
+            policy,
+            decision
+          });
+          console.log(`✅ 조퇴 처리 완료: ${user.name} - 거리: ${Math.round(distance)}m`);
+        }
 
         return NextResponse.json({
           success: true,
@@ -433,14 +435,17 @@ export async function POST(request: NextRequest) {
           statusChanged: true,
           newStatus: 'left_early',
           distance: Math.round(distance),
-          allowedRadius: resolvedLocation.radius,
+          allowedRadius: Math.round(allowedDistance),
           sessionEnded: false,
-          message: `강의실 범위를 ${Math.round(distance)}m 벗어나 조퇴 처리되었습니다.`,
+          message: `강의실 범위를 ${decision.outsideMinutes}분 이상 벗어나 조퇴 처리되었습니다.`,
           metadata: {
             source,
             isBackground,
             timestamp: new Date().toISOString(),
-            consecutiveViolations: validLogs.length,
+            outsideSamples: decision.outsideCount,
+            windowSamples: decision.windowCount,
+            outsideMinutes: decision.outsideMinutes,
+            weightedOutsideRatio: decision.weightedOutsideRatio,
             // PDR 융합 메타데이터 (있는 경우)
             ...(trackingMode && { trackingMode }),
             ...(environment && { environment }),
@@ -452,22 +457,27 @@ export async function POST(request: NextRequest) {
       }
 
       // 조퇴 처리 조건 미달 - 경고만 전송
-      const validLogCount = validLogs.length;
-      console.warn(`⚠️ 위치 이탈 경고: ${user.name} - 유효 로그 ${validLogCount}회 (조퇴 처리: 2회 필요)`);
+      console.warn(`⚠️ 위치 이탈 경고: ${user.name} - 경계 밖 ${decision.outsideCount}/${decision.windowCount}회 (${decision.reason})`);
     }
 
     // 9. 성공 응답
     const responseMessage = locationValid
-      ? `위치 추적 성공 - 강의실 범위 내 (거리: ${Math.round(distance)}m)`
-      : `⚠️ 강의실 범위 이탈 - 거리: ${Math.round(distance)}m (허용: ${resolvedLocation.radius}m)`;
+      ? proximityMatched && !measurement.isInside
+        ? `위치 추적 성공 - 강의실 비콘 확인 (${proximityMatch?.matchedCount}/${proximityMatch?.expectedCount}개)`
+        : `위치 추적 성공 - 강의실 범위 내 (거리: ${Math.round(distance)}m)`
+      : differentFloor && measurement.isInside
+        ? `⚠️ 강의실과 다른 층 - ${studentFloor}층 (강의실: ${classroomFloor}층)`
+        : `⚠️ 강의실 범위 이탈 - 거리: ${Math.round(distance)}m (허용: ${Math.round(allowedDistance)}m)`;
 
     console.log(`✅ Heartbeat 처리 완료: ${responseMessage}`);
 
     return NextResponse.json({
       success: true,
       locationValid: locationValid,
+      locationEvidence,
+      ...(floorAware && { differentFloor }),
       distance: Math.round(distance),
-      allowedRadius: resolvedLocation.radius,
+      allowedRadius: Math.round(allowedDistance),
       sessionEnded: false,
       message: responseMessage,
       metadata: {
@@ -479,7 +489,22 @@ export async function POST(request: NextRequest) {
         ...(environment && { environment }),
         ...(confidence !== undefined && { confidence }),
         ...(gpsWeight !== undefined && { gpsWeight }),
-        ...(pdrWeight !== undefined && { pdrWeight })
+        ...(pdrWeight !== undefined && { pdrWeight }),
+        // 근접 지문 매칭 결과 (관측이 있는 경우)
+        ...(proximityMatch && {
+          proximityReason: proximityMatch.reason,
+          proximityScore: proximityMatch.score
+        }),
+        // 층 판정 정보 (층이 등록된 강의실인 경우)
+        ...(floorAware && {
+          floorChange: reportedFloorChange,
+          classroomFloor
+        }),
+        // 궤적 재생 결과 (범위 이탈 시)
+        ...(replayDecision && {
+          outsideSamples: replayDecision.outsideCount,
+          windowSamples: replayDecision.windowCount
+        })
       }
     });
 
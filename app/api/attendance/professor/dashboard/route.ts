@@ -5,6 +5,9 @@ export const dynamic = 'force-dynamic'
 export const revalidate = 0
 import { getCurrentUser } from '@/lib/auth'
 import { createClient } from '@/lib/supabase-server'
+import { hasLateGradingColumns } from '@/lib/courses/schemaSupport'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
 
 export async function GET() {
   try {
@@ -73,10 +76,11 @@ export async function GET() {
         sessions: sessions.map(s => ({ id: s.id, status: s.status, courseName: s.courses?.name }))
       })
 
+      const lateGradingEnabled = await hasLateGradingColumns(supabase as unknown as SupabaseClient<Database>)
       const { data: attendanceData, error: attendanceError } = sessionIds.length
         ? await supabase
             .from('attendances')
-            .select('id, session_id, student_id, status, check_in_time, location_verified, students ( name, student_id )')
+            .select(`id, session_id, student_id, status, check_in_time, location_verified, ${lateGradingEnabled ? 'late_minutes, ' : ''}students ( name, student_id )`)
             .in('session_id', sessionIds)
         : { data: [], error: null }
 
@@ -119,6 +123,7 @@ export async function GET() {
               name: item.students?.name ?? item.student_id,
               status: item.status,
               checkInTime: item.check_in_time,
+              lateMinutes: item.late_minutes ?? null,
               locationVerified: Boolean(item.location_verified),
             })),
           },
@@ -2,6 +2,8 @@
 import { createServiceClient } from '@/lib/supabase-admin'
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
+import { hasLateGradingColumns } from '@/lib/courses/schemaSupport'
+import { loadSignalStates } from '@/lib/attendance/signal-lost'
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic'
@@ -47,14 +49,22 @@ export async function GET(request: NextRequest) {
     })
 
     // 출석 데이터 + 학생 정보
+    const lateGradingEnabled = await hasLateGradingColumns(supabase)
     const { data: attendanceData } = await supabase
       .from('attendances')
-      .select(`id, status, check_in_time, check_out_time, location_verified, updated_at, student_id, session_id, users:users ( student_id, name )`)
+      .select(`id, status, check_in_time, check_out_time, location_verified, updated_at, student_id, session_id, ${lateGradingEnabled ? 'late_minutes, ' : ''}users:users ( student_id, name )`)
       .eq('session_id', sessionId)
       .order('created_at', { ascending: false })
 
     const attendances: any[] = Array.isArray(attendanceData) ? attendanceData : []
 
+    // heartbeat 끊김(신호 끊김) 및 종료 후 확인 필요 여부 (신호 끊김은 진행 중인 세션에서만 의미가 있음)
+    const signalStates = new Map(
+      (await loadSignalStates(supabase, sessionId)).map((state) => [state.attendanceId, state])
+    )
+    const isSignalLost = (attendanceId: string) =>
+      typedSession.status !== 'ended' && (signalStates.get(attendanceId)?.signalLost ?? false)
+
     // 수강 신청한 학생 수
     const { count: enrolledCount } = await supabase
       .from('course_enrollments')
@@ -68,7 +78,7 @@ export async function GET(request: NextRequest) {
     const absentStudents = totalStudents - presentStudents - lateStudents - leftEarlyStudents
 
     const activeAttendanceIds = attendances
-      .filter(a => a.status === 'present')
+      .filter(a => a.status === 'present' || a.status === 'late')
       .map(a => a.id)
 
     let recentLocations: any[] = []
@@ -97,6 +107,8 @@ export async function GET(request: NextRequest) {
         late: lateStudents,
         left_early: leftEarlyStudents,
         absent: absentStudents,
+        signal_lost: attendances.filter(a => isSignalLost(a.id)).length,
+        needs_review: attendances.filter(a => signalStates.get(a.id)?.needsReview).length,
         attendance_rate: totalStudents > 0 ? ((presentStudents / totalStudents) * 100).toFixed(1) : '0.0'
       },
       attendances: attendances.map(attendance => ({
@@ -109,8 +121,12 @@ export async function GET(request: NextRequest) {
         status: attendance.status,
         check_in_time: attendance.check_in_time,
         check_out_time: attendance.check_out_time,
+        late_minutes: attendance.late_minutes ?? null,
         location_verified: attendance.location_verified,
-        last_updated: attendance.updated_at
+        last_updated: attendance.updated_at,
+        last_seen_at: signalStates.get(attendance.id)?.lastSeenAt ?? null,
+        signal_lost: isSignalLost(attendance.id),
+        needs_review: signalStates.get(attendance.id)?.needsReview ?? false
       })),
       recent_locations: recentLocations.slice(0, 10)
     }
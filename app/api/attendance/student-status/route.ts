@@ -33,7 +33,7 @@ export async function GET(request: NextRequest) {
     // 해당 세션이 존재하는지 확인
     const { data: session, error: sessionError } = await supabase
       .from('class_sessions')
-      .select('id, course_id, status, qr_code_expires_at, created_at, updated_at')
+      .select('id, course_id, status, qr_code_expires_at, date, start_time, end_time, created_at, updated_at')
       .eq('id', sessionId)
       .single()
 
@@ -44,13 +44,16 @@ export async function GET(request: NextRequest) {
     const autoEndResult = await autoEndSessionIfNeeded(supabase, {
       id: session.id,
       status: session.status,
+      date: session.date,
+      start_time: session.start_time,
+      end_time: session.end_time,
       created_at: session.created_at ?? null,
       updated_at: session.updated_at ?? null,
       course_id: session.course_id
     })
 
     const normalizedSession = autoEndResult.session
-    const autoEndInfo = calculateAutoEndAt(session.created_at ?? null)
+    const autoEndInfo = calculateAutoEndAt(session)
 
     // 학생이 해당 강의에 수강신청했는지 확인
     const { data: enrollment } = await supabase
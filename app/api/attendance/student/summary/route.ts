@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { loadStudentAttendanceSummary } from '@/lib/attendance/student-summary'
+import { ATTENDANCE_RISK_CONFIG } from '@/lib/config/attendance-config'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 학생별 강의 출석 요약 (학생 본인 또는 담당 교수)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createServiceClient()
+    const courseId = request.nextUrl.searchParams.get('courseId')
+    let studentId: string
+    let courseIds: string[] | undefined = courseId ? [courseId] : undefined
+
+    if (user.userType === 'student') {
+      studentId = user.userId
+    } else if (user.userType === 'professor') {
+      const requestedStudentId = request.nextUrl.searchParams.get('studentId')
+      if (!requestedStudentId) {
+        return NextResponse.json({ error: 'studentId가 필요합니다' }, { status: 400 })
+      }
+      studentId = requestedStudentId
+
+      // 교수는 담당 강의의 기록만 조회
+      let courseQuery = supabase.from('courses').select('id').eq('professor_id', user.userId)
+      if (courseId) {
+        courseQuery = courseQuery.eq('id', courseId)
+      }
+      const { data: courses, error } = await courseQuery
+      if (error) {
+        throw error
+      }
+      courseIds = (courses ?? []).map((course) => course.id)
+    } else {
+      return NextResponse.json({ error: 'Only students and professors can view attendance summaries' }, { status: 403 })
+    }
+
+    const courses = await loadStudentAttendanceSummary(supabase, studentId, courseIds)
+    if (user.userType === 'professor' && courses.length === 0) {
+      return NextResponse.json({ error: 'Student is not enrolled in your courses' }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      studentId,
+      absenceRatioThreshold: ATTENDANCE_RISK_CONFIG.absenceRatioThreshold,
+      courses
+    })
+  } catch (error: unknown) {
+    console.error('Get student attendance summary error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { authenticateStudent, authenticateProfessor } from '@/lib/auth'
-import { SignJWT } from 'jose'
+import { authenticateUser } from '@/lib/auth'
 import { RateLimitPresets } from '@/lib/middleware/rate-limit'
 import { LoginRequestSchema } from '@/lib/schemas/auth'
 import { validateSchema } from '@/lib/utils/validation'
 import { withFastAPIPerformance } from '@/lib/middleware/performance'
-
-const ONE_WEEK_SECONDS = 60 * 60 * 24 * 7
+import { createServiceClient } from '@/lib/supabase-admin'
+import { registerStudentDevice } from '@/lib/device/device-binding'
+import { DEVICE_BINDING_CONFIG } from '@/lib/config/attendance-config'
+import { issueAuthSession, setAuthCookies } from '@/lib/auth-tokens'
 
 async function loginHandler(request: NextRequest) {
   // Rate limiting 체크
@@ -24,11 +25,16 @@ async function loginHandler(request: NextRequest) {
       return validated // 검증 실패 응답 반환
     }
 
-    const { id, password, userType } = validated
+    const { id, password, userType, deviceId } = validated
 
-    const authUser = userType === 'student'
-      ? await authenticateStudent(id, password)
-      : await authenticateProfessor(id, password)
+    if (userType === 'student' && !deviceId) {
+      return NextResponse.json(
+        { error: '기기 정보를 확인할 수 없습니다. 페이지를 새로고침한 후 다시 시도해주세요', code: 'device_required' },
+        { status: 400 }
+      )
+    }
+
+    const authUser = await authenticateUser(userType, id, password)
 
     if (!authUser) {
       return NextResponse.json(
@@ -37,18 +43,44 @@ async function loginHandler(request: NextRequest) {
       )
     }
 
-    const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-    const secret = new TextEncoder().encode(jwtSecret)
+    const supabase = createServiceClient()
 
-    const token = await new SignJWT({
-      userId: authUser.id,
-      userType: authUser.type,
-      name: authUser.name
-    })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime(`${ONE_WEEK_SECONDS}s`)
-      .sign(secret)
+    // 학생 기기 등록 (등록 한도 초과 시 관리자 승인 대기)
+    let boundDeviceId: string | undefined
+    if (authUser.type === 'student' && deviceId) {
+      try {
+        const registration = await registerStudentDevice(
+          supabase,
+          { studentId: authUser.id, deviceId, userAgent: request.headers.get('user-agent') }
+        )
+        if (registration.status === 'rebind_required') {
+          return NextResponse.json(
+            {
+              error: `등록 가능한 기기 수(${DEVICE_BINDING_CONFIG.maxDevicesPerStudent}대)를 초과했습니다. 관리자 승인 후 이 기기로 로그인할 수 있습니다`,
+              code: 'device_limit_reached',
+              rebindRequestId: registration.request?.id ?? null
+            },
+            { status: 403 }
+          )
+        }
+        boundDeviceId = registration.device.device_id
+      } catch (error) {
+        // 기기 테이블 조회 실패로 로그인 자체를 막지 않음 (체크인 시 기기 미확인으로 기록)
+        console.error('Device registration error:', error)
+      }
+    }
+
+    // 짧은 액세스 토큰 + 회전형 리프레시 토큰 발급
+    const tokens = await issueAuthSession(
+      supabase,
+      {
+        userId: authUser.id,
+        userType: authUser.type,
+        name: authUser.name,
+        ...(boundDeviceId && { deviceId: boundDeviceId })
+      },
+      request.headers.get('user-agent')
+    )
 
     const response = NextResponse.json({
       success: true,
@@ -59,13 +91,7 @@ async function loginHandler(request: NextRequest) {
       }
     })
 
-    response.cookies.set('auth-token', token, {
-      path: '/',
-      maxAge: ONE_WEEK_SECONDS,
-      httpOnly: true,
-      sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production'
-    })
+    setAuthCookies(response, tokens)
 
     return response
   } catch (error) {
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { clearAuthCookies, revokeAllRefreshTokens } from '@/lib/auth-tokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 모든 기기에서 로그아웃 (사용자의 리프레시 토큰 전체 폐기)
+ *
+ * 다른 기기의 액세스 토큰은 만료(ACCESS_TOKEN_TTL_SECONDS)될 때까지 유효하며, 이후 갱신할 수 없습니다.
+ */
+export async function POST() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const revokedSessions = await revokeAllRefreshTokens(
+      createServiceClient(),
+      { userId: user.userId, userType: user.userType },
+      'logout_all'
+    )
+
+    const response = NextResponse.json({
+      success: true,
+      message: '모든 기기에서 로그아웃되었습니다',
+      revokedSessions
+    })
+    clearAuthCookies(response)
+    return response
+  } catch (error) {
+    console.error('Logout all error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
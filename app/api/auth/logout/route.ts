@@ -1,24 +1,45 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AUTH_TOKEN_CONFIG } from '@/lib/config/auth-config'
+import { clearAuthCookies, hashRefreshToken, revokeRefreshTokenFamily } from '@/lib/auth-tokens'
 
-export async function POST() {
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 현재 기기 로그아웃 (이 로그인의 리프레시 토큰 폐기 + 쿠키 삭제)
+ */
+export async function POST(request: NextRequest) {
   try {
     console.log('Logout request received')
 
-    // Create response
+    const supabase = createServiceClient()
+    const accessToken = request.cookies.get(AUTH_TOKEN_CONFIG.accessCookieName)?.value
+    const refreshToken = request.cookies.get(AUTH_TOKEN_CONFIG.refreshCookieName)?.value
+
+    // 액세스 토큰이 만료되었으면 리프레시 토큰으로 세션을 찾음
+    let familyId = accessToken ? (await verifyToken(accessToken))?.sid ?? null : null
+    if (!familyId && refreshToken) {
+      const { data } = await supabase
+        .from('auth_refresh_tokens')
+        .select('family_id')
+        .eq('token_hash', hashRefreshToken(refreshToken))
+        .maybeSingle()
+      familyId = data?.family_id ?? null
+    }
+
+    if (familyId) {
+      await revokeRefreshTokenFamily(supabase, familyId, 'logout')
+    }
+
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully'
     })
+    clearAuthCookies(response)
 
-    // Clear the auth cookie
-    response.cookies.set('auth-token', '', {
-      path: '/',
-      maxAge: 0, // Expire immediately
-      sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production'
-    })
-
-    console.log('Logout successful, cookie cleared')
+    console.log('Logout successful, session revoked:', Boolean(familyId))
 
     return response
 
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateUser, getCurrentUser } from '@/lib/auth'
+import { RateLimitPresets } from '@/lib/middleware/rate-limit'
+import { PasswordChangeRequestSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { updateUserPassword } from '@/lib/password-reset'
+import { issueAuthSession, revokeAllRefreshTokens, setAuthCookies } from '@/lib/auth-tokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 로그인 사용자 비밀번호 변경
+ *
+ * 다른 기기의 세션은 모두 폐기하고, 현재 기기에는 새 세션을 발급합니다.
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await RateLimitPresets.auth(request)
+  if (rateLimitResult) {
+    return rateLimitResult
+  }
+
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validated = validateSchema(PasswordChangeRequestSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const authUser = await authenticateUser(user.userType, user.userId, validated.currentPassword)
+    if (!authUser) {
+      return NextResponse.json(
+        { error: '현재 비밀번호가 올바르지 않습니다', code: 'invalid_current_password' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceClient()
+    const target = { userType: user.userType, userId: user.userId }
+
+    await updateUserPassword(supabase, target, validated.newPassword)
+    await revokeAllRefreshTokens(supabase, target, 'password_changed')
+
+    const tokens = await issueAuthSession(
+      supabase,
+      {
+        userId: user.userId,
+        userType: user.userType,
+        name: authUser.name,
+        ...(user.deviceId && { deviceId: user.deviceId })
+      },
+      request.headers.get('user-agent')
+    )
+
+    const response = NextResponse.json({
+      success: true,
+      message: '비밀번호가 변경되었습니다. 다른 기기에서는 다시 로그인해야 합니다'
+    })
+    setAuthCookies(response, tokens)
+    return response
+  } catch (error) {
+    console.error('Password change error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
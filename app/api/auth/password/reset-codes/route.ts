@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser, isAdminApiRequest } from '@/lib/auth'
+import { RateLimitPresets } from '@/lib/middleware/rate-limit'
+import { PasswordResetCodeIssueSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { issuePasswordResetCode, isStudentOfProfessor, passwordResetTargetExists } from '@/lib/password-reset'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 비밀번호 재설정 코드 발급
+ *
+ * - 교수: 담당 강의 수강생(학생)만
+ * - 관리자 (관리자 세션 또는 Authorization: Bearer ${ADMIN_API_KEY}): 모든 학생/교수
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await RateLimitPresets.auth(request)
+  if (rateLimitResult) {
+    return rateLimitResult
+  }
+
+  try {
+    const isAdminKey = isAdminApiRequest(request)
+    const user = isAdminKey ? null : await getCurrentUser()
+    if (!isAdminKey && !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (user && user.userType === 'student') {
+      return NextResponse.json({ error: 'Only professors and administrators can issue password reset codes' }, { status: 403 })
+    }
+    // 관리자 키 또는 관리자 세션이 아니면 교수 (담당 학생만 가능)
+    const professor = user?.userType === 'professor' ? user : null
+
+    const validated = validateSchema(PasswordResetCodeIssueSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const supabase = createServiceClient()
+
+    if (professor) {
+      const allowed = validated.userType === 'student' &&
+        await isStudentOfProfessor(supabase, professor.userId, validated.userId)
+      if (!allowed) {
+        return NextResponse.json(
+          { error: 'Professors can only issue reset codes for students enrolled in their courses' },
+          { status: 403 }
+        )
+      }
+    }
+
+    if (!(await passwordResetTargetExists(supabase, validated))) {
+      return NextResponse.json({ error: '사용자를 찾을 수 없습니다' }, { status: 404 })
+    }
+
+    const { code, expiresAt } = await issuePasswordResetCode(supabase, validated, {
+      issuedBy: user ? user.userId : 'admin',
+      issuedByType: professor ? 'professor' : 'admin'
+    })
+
+    console.log('[PasswordReset] 재설정 코드 발급:', {
+      userType: validated.userType,
+      userId: validated.userId,
+      issuedBy: user ? user.userId : 'admin'
+    })
+
+    return NextResponse.json({
+      success: true,
+      userType: validated.userType,
+      userId: validated.userId,
+      code,
+      expiresAt
+    })
+  } catch (error) {
+    console.error('Issue password reset code error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateLimitPresets } from '@/lib/middleware/rate-limit'
+import { PasswordResetRequestSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { redeemPasswordResetCode } from '@/lib/password-reset'
+import { revokeAllRefreshTokens } from '@/lib/auth-tokens'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const REDEEM_FAILURE_MESSAGES = {
+  invalid_code: '재설정 코드가 올바르지 않습니다',
+  expired: '재설정 코드가 만료되었습니다. 새 코드를 요청해주세요',
+  locked: '재설정 코드 입력 횟수를 초과했습니다. 새 코드를 요청해주세요'
+} as const
+
+/**
+ * 재설정 코드로 비밀번호 재설정 (로그인 불필요)
+ *
+ * 성공 시 모든 기기의 로그인 세션을 폐기합니다.
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await RateLimitPresets.auth(request)
+  if (rateLimitResult) {
+    return rateLimitResult
+  }
+
+  try {
+    const validated = validateSchema(PasswordResetRequestSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const supabase = createServiceClient()
+    const target = { userType: validated.userType, userId: validated.userId }
+
+    const result = await redeemPasswordResetCode(supabase, target, validated.code, validated.newPassword)
+    if (!result.ok) {
+      if (result.reason === 'error') {
+        console.error('Password reset error:', result.error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+      return NextResponse.json(
+        { error: REDEEM_FAILURE_MESSAGES[result.reason], code: `reset_code_${result.reason}` },
+        { status: 400 }
+      )
+    }
+
+    const revokedSessions = await revokeAllRefreshTokens(supabase, target, 'password_reset')
+
+    console.log('[PasswordReset] 비밀번호 재설정 완료:', { ...target, revokedSessions })
+
+    return NextResponse.json({
+      success: true,
+      message: '비밀번호가 재설정되었습니다. 새 비밀번호로 로그인해주세요'
+    })
+  } catch (error) {
+    console.error('Password reset error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
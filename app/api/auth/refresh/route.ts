@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AUTH_TOKEN_CONFIG } from '@/lib/config/auth-config'
+import { clearAuthCookies, revokeRefreshTokenFamily, rotateRefreshToken, setAuthCookies, type RefreshTokenRotationResult } from '@/lib/auth-tokens'
+import { isStudentDeviceActive } from '@/lib/device/device-binding'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 리프레시 토큰으로 액세스 토큰 재발급 (리프레시 토큰도 새 값으로 교체)
+ */
+async function refreshSession(request: NextRequest): Promise<RefreshTokenRotationResult> {
+  const refreshToken = request.cookies.get(AUTH_TOKEN_CONFIG.refreshCookieName)?.value
+  if (!refreshToken) {
+    return { ok: false, reason: 'not_found' }
+  }
+
+  const supabase = createServiceClient()
+  const result = await rotateRefreshToken(supabase, refreshToken, request.headers.get('user-agent'))
+
+  // 재등록 승인으로 해제된 기기의 세션은 더 이상 갱신하지 않음
+  if (result.ok && result.user.userType === 'student' && result.user.deviceId &&
+    !(await isStudentDeviceActive(supabase, result.user.userId, result.user.deviceId))) {
+    await revokeRefreshTokenFamily(supabase, result.tokens.familyId, 'logout')
+    return { ok: false, reason: 'revoked' }
+  }
+
+  return result
+}
+
+// POST - 클라이언트의 토큰 갱신
+export async function POST(request: NextRequest) {
+  try {
+    const result = await refreshSession(request)
+
+    if (!result.ok) {
+      if (result.reason === 'error') {
+        console.error('Token refresh error:', result.error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+
+      // 다른 탭이 방금 갱신한 경우 쿠키는 유지 (새 쿠키로 다시 시도)
+      const response = NextResponse.json(
+        { error: '세션이 만료되었습니다. 다시 로그인해주세요', code: result.reason },
+        { status: result.reason === 'concurrent_refresh' ? 409 : 401 }
+      )
+      if (result.reason !== 'concurrent_refresh') {
+        clearAuthCookies(response)
+      }
+      return response
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: result.user.userId,
+        name: result.user.name,
+        type: result.user.userType
+      },
+      accessTokenExpiresAt: new Date(Date.now() + AUTH_TOKEN_CONFIG.accessTokenTtlSeconds * 1000).toISOString()
+    })
+    setAuthCookies(response, result.tokens)
+    return response
+  } catch (error) {
+    console.error('Token refresh error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * 같은 사이트 경로만 허용 (오픈 리다이렉트 방지)
+ *
+ * `//evil.com`, `/\evil.com` 처럼 다른 호스트로 해석되는 값은 URL 로 풀어 보고 origin 이 다르면 버립니다.
+ */
+function resolveRedirectTarget(redirectTo: string | null, requestUrl: string): string {
+  if (!redirectTo || !redirectTo.startsWith('/') || redirectTo.includes('\\')) {
+    return '/'
+  }
+
+  try {
+    const origin = new URL(requestUrl).origin
+    const resolved = new URL(redirectTo, requestUrl)
+    return resolved.origin === origin ? `${resolved.pathname}${resolved.search}${resolved.hash}` : '/'
+  } catch {
+    return '/'
+  }
+}
+
+// GET - 페이지 이동 중 액세스 토큰이 만료된 경우 (middleware 가 redirectTo 와 함께 보냄)
+export async function GET(request: NextRequest) {
+  const target = resolveRedirectTarget(request.nextUrl.searchParams.get('redirectTo'), request.url)
+
+  try {
+    const result = await refreshSession(request)
+    if (result.ok) {
+      const response = NextResponse.redirect(new URL(target, request.url))
+      setAuthCookies(response, result.tokens)
+      return response
+    }
+    // 다른 탭이 방금 갱신한 경우 쿠키는 유지하고 원래 페이지로 (다른 탭이 받은 새 쿠키로 다시 요청)
+    if (result.reason === 'concurrent_refresh') {
+      return NextResponse.redirect(new URL(target, request.url))
+    }
+    if (result.reason === 'error') {
+      console.error('Token refresh error:', result.error)
+    }
+  } catch (error) {
+    console.error('Token refresh error:', error)
+  }
+
+  const loginUrl = new URL('/auth/login', request.url)
+  loginUrl.searchParams.set('redirectTo', target)
+  const response = NextResponse.redirect(loginUrl)
+  clearAuthCookies(response)
+  return response
+}
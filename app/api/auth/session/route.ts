@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
-import { jwtVerify } from 'jose'
+import { verifyToken } from '@/lib/auth'
+import { AUTH_TOKEN_CONFIG } from '@/lib/config/auth-config'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -9,7 +10,7 @@ export const revalidate = 0
 export async function GET() {
   try {
     const cookieStore = cookies()
-    const authToken = cookieStore.get('auth-token')?.value
+    const authToken = cookieStore.get(AUTH_TOKEN_CONFIG.accessCookieName)?.value
 
     if (!authToken) {
       return NextResponse.json(
@@ -18,15 +19,9 @@ export async function GET() {
       )
     }
 
-    // JWT 토큰 검증
-    let sessionData
-    try {
-      const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-      const secret = new TextEncoder().encode(jwtSecret)
-      const { payload } = await jwtVerify(authToken, secret)
-      sessionData = payload as { userId: string; userType: string; name: string }
-    } catch (error) {
-      console.log('Invalid JWT token:', error)
+    // JWT 토큰 검증 (만료 시 클라이언트가 /api/auth/refresh 로 갱신 후 재시도)
+    const sessionData = await verifyToken(authToken)
+    if (!sessionData) {
       return NextResponse.json(
         { error: 'Invalid token' },
         { status: 401 }
@@ -40,7 +35,8 @@ export async function GET() {
         id: sessionData.userId,
         name: sessionData.name,
         type: sessionData.userType
-      }
+      },
+      accessTokenExpiresAt: sessionData.exp ? new Date(sessionData.exp * 1000).toISOString() : null
     })
 
   } catch (error) {
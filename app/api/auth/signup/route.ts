@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { SignJWT } from 'jose'
 import { hashPassword, authenticateStudent, authenticateProfessor } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase-admin'
 import { RateLimitPresets } from '@/lib/middleware/rate-limit'
 import { SignupRequestSchema } from '@/lib/schemas/auth'
 import { validateSchema } from '@/lib/utils/validation'
 import { withStandardAPIPerformance } from '@/lib/middleware/performance'
-
-const ONE_WEEK_SECONDS = 60 * 60 * 24 * 7
+import { registerStudentDevice } from '@/lib/device/device-binding'
+import { issueAuthSession, setAuthCookies } from '@/lib/auth-tokens'
 
 async function signupHandler(request: NextRequest) {
   // Rate limiting 체크
@@ -25,7 +24,7 @@ async function signupHandler(request: NextRequest) {
       return validated // 검증 실패 응답 반환
     }
 
-    const { name, password, userType, studentId, professorId } = validated
+    const { name, password, userType, studentId, professorId, deviceId } = validated
 
     const supabase = createServiceClient()
 
@@ -108,18 +107,32 @@ async function signupHandler(request: NextRequest) {
       return NextResponse.json({ error: '생성된 계정을 확인할 수 없습니다.' }, { status: 500 })
     }
 
-    const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-    const secret = new TextEncoder().encode(jwtSecret)
+    // 가입한 기기를 첫 등록 기기로 저장
+    let boundDeviceId: string | undefined
+    if (authUser.type === 'student' && deviceId) {
+      try {
+        const registration = await registerStudentDevice(supabase, {
+          studentId: authUser.id,
+          deviceId,
+          userAgent: request.headers.get('user-agent')
+        })
+        boundDeviceId = registration.status === 'rebind_required' ? undefined : registration.device.device_id
+      } catch (error) {
+        console.error('Device registration error:', error)
+      }
+    }
 
-    const token = await new SignJWT({
-      userId: authUser.id,
-      userType: authUser.type,
-      name: authUser.name
-    })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime(`${ONE_WEEK_SECONDS}s`)
-      .sign(secret)
+    // 짧은 액세스 토큰 + 회전형 리프레시 토큰 발급
+    const tokens = await issueAuthSession(
+      supabase,
+      {
+        userId: authUser.id,
+        userType: authUser.type,
+        name: authUser.name,
+        ...(boundDeviceId && { deviceId: boundDeviceId })
+      },
+      request.headers.get('user-agent')
+    )
 
     const response = NextResponse.json({
       success: true,
@@ -131,13 +144,7 @@ async function signupHandler(request: NextRequest) {
       message: '회원가입이 완료되었습니다'
     })
 
-    response.cookies.set('auth-token', token, {
-      path: '/',
-      maxAge: ONE_WEEK_SECONDS,
-      httpOnly: true,
-      sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production'
-    })
+    setAuthCookies(response, tokens)
 
     return response
   } catch (error) {
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import {
+  buildAttendanceGradebook,
+  fetchGradebookAttendances,
+  renderGradebookCsv,
+  renderGradebookXlsx,
+  type GradebookFormat
+} from '@/lib/attendance/gradebook'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const CONTENT_TYPES: Record<GradebookFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+function buildContentDisposition(courseCode: string, format: GradebookFormat): string {
+  const today = new Date().toISOString().slice(0, 10)
+  const filename = `attendance-${courseCode}-${today}.${format}`
+  const asciiFallback = filename.replace(/[^\x20-\x7E]/g, '_').replace(/"/g, '')
+  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
+
+// GET - 강의 출석부 내보내기 (학생 × 세션, CSV/XLSX)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can export attendance' }, { status: 403 })
+    }
+
+    const format = (request.nextUrl.searchParams.get('format') ?? 'csv').toLowerCase()
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: 'format은 csv 또는 xlsx 이어야 합니다.' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: course, error: courseError } = await supabase
+      .from('courses')
+      .select('id, name, course_code')
+      .eq('id', params.courseId)
+      .eq('professor_id', user.userId)
+      .maybeSingle()
+
+    if (courseError) {
+      console.error('[Attendance Export] 강의 조회 실패:', courseError)
+      return NextResponse.json({ error: 'Failed to fetch course' }, { status: 500 })
+    }
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const [sessionsResult, enrollmentsResult] = await Promise.all([
+      supabase
+        .from('class_sessions')
+        .select('id, date, start_time, status')
+        .eq('course_id', course.id),
+      supabase
+        .from('course_enrollments')
+        .select('student_id')
+        .eq('course_id', course.id)
+    ])
+
+    if (sessionsResult.error || enrollmentsResult.error) {
+      console.error('[Attendance Export] 세션/수강생 조회 실패:', sessionsResult.error ?? enrollmentsResult.error)
+      return NextResponse.json({ error: 'Failed to fetch attendance data' }, { status: 500 })
+    }
+
+    const sessions = sessionsResult.data ?? []
+    const studentIds = Array.from(new Set((enrollmentsResult.data ?? []).map((row) => row.student_id)))
+    const sessionIds = sessions.map((session) => session.id)
+
+    const [studentsResult, attendancesResult] = await Promise.all([
+      studentIds.length
+        ? supabase.from('students').select('student_id, name').in('student_id', studentIds)
+        : Promise.resolve({ data: [], error: null }),
+      fetchGradebookAttendances(supabase, sessionIds).then(
+        (data) => ({ data, error: null }),
+        (error: unknown) => ({ data: null, error })
+      )
+    ])
+
+    if (studentsResult.error || attendancesResult.error) {
+      console.error('[Attendance Export] 출석 기록 조회 실패:', studentsResult.error ?? attendancesResult.error)
+      return NextResponse.json({ error: 'Failed to fetch attendance data' }, { status: 500 })
+    }
+
+    const nameMap = new Map((studentsResult.data ?? []).map((row) => [row.student_id, row.name]))
+    const gradebook = buildAttendanceGradebook(
+      studentIds.map((studentId) => ({ studentId, name: nameMap.get(studentId) ?? '' })),
+      sessions,
+      attendancesResult.data ?? []
+    )
+
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': buildContentDisposition(course.course_code, format),
+      'Cache-Control': 'no-store'
+    }
+
+    if (format === 'xlsx') {
+      const buffer = await renderGradebookXlsx(gradebook, course.name)
+      return new NextResponse(new Uint8Array(buffer), { headers })
+    }
+
+    return new NextResponse(renderGradebookCsv(gradebook), { headers })
+  } catch (error) {
+    console.error('Attendance export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { loadCourseAttendanceSummary } from '@/lib/attendance/student-summary'
+import { ATTENDANCE_RISK_CONFIG } from '@/lib/config/attendance-config'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 강의 수강생별 출석 요약 (위험 학생 우선)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can view course attendance summaries' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: course, error: courseError } = await supabase
+      .from('courses')
+      .select('id, name, course_code')
+      .eq('id', params.courseId)
+      .eq('professor_id', user.userId)
+      .maybeSingle()
+    if (courseError) {
+      throw courseError
+    }
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const students = await loadCourseAttendanceSummary(supabase, course.id)
+
+    return NextResponse.json({
+      success: true,
+      course: { id: course.id, name: course.name, courseCode: course.course_code },
+      absenceRatioThreshold: ATTENDANCE_RISK_CONFIG.absenceRatioThreshold,
+      atRiskCount: students.filter((student) => student.atRisk).length,
+      students
+    })
+  } catch (error) {
+    console.error('Get course attendance summary error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
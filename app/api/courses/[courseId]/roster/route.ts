@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import {
+  applyRosterDiff,
+  getCourseRosterSettings,
+  loadRosterDiff,
+  parseRosterCsv,
+  type RosterDiff
+} from '@/lib/courses/roster-import'
+import { CourseRosterSettingsSchema, RosterImportSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { courseId: string } }
+
+async function requireCourseProfessor(courseId: string) {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (user.userType !== 'professor') {
+    return NextResponse.json({ error: 'Only professors can manage course rosters' }, { status: 403 })
+  }
+
+  const supabase = createServiceClient()
+  const { data: course, error } = await supabase
+    .from('courses')
+    .select('id, name')
+    .eq('id', courseId)
+    .eq('professor_id', user.userId)
+    .maybeSingle()
+  if (error) {
+    throw error
+  }
+  if (!course) {
+    return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+  }
+
+  return { user, course, supabase }
+}
+
+function summarize(diff: RosterDiff) {
+  return {
+    toEnroll: diff.toEnroll.length,
+    alreadyEnrolled: diff.alreadyEnrolled.length,
+    unknown: diff.unknown.length,
+    duplicates: diff.duplicates.length,
+    nameMismatches: diff.nameMismatches.length,
+    notInRoster: diff.notInRoster.length
+  }
+}
+
+// GET - 수강 명단 설정 및 현재 수강생 수
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const context = await requireCourseProfessor(params.courseId)
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    const { count, error } = await context.supabase
+      .from('course_enrollments')
+      .select('id', { count: 'exact', head: true })
+      .eq('course_id', params.courseId)
+    if (error) {
+      throw error
+    }
+
+    const settings = await getCourseRosterSettings(context.supabase, params.courseId)
+    return NextResponse.json({ success: true, enrollmentCount: count ?? 0, ...settings })
+  } catch (error) {
+    console.error('Get course roster error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - QR 스캔 자동 수강 등록 켜기/끄기
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const context = await requireCourseProfessor(params.courseId)
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    const validated = validateSchema(CourseRosterSettingsSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const settings = await getCourseRosterSettings(context.supabase, params.courseId)
+    if (!settings.supported) {
+      return NextResponse.json(
+        { error: '수강 명단 설정을 사용하려면 데이터베이스 마이그레이션(025)이 필요합니다', code: 'roster_settings_unavailable' },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await context.supabase
+      .from('courses')
+      .update({ auto_enroll_on_scan: validated.autoEnrollOnScan })
+      .eq('id', params.courseId)
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, ...settings, autoEnrollOnScan: validated.autoEnrollOnScan })
+  } catch (error) {
+    console.error('Update course roster settings error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - CSV 수강 명단 가져오기, dryRun 이면 비교 결과만 반환
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const context = await requireCourseProfessor(params.courseId)
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    const validated = validateSchema(RosterImportSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const { rows, errors: parseErrors } = parseRosterCsv(validated.csv)
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'CSV에서 가져올 학번을 찾지 못했습니다', code: 'roster_empty', parseErrors },
+        { status: 400 }
+      )
+    }
+
+    const diff = await loadRosterDiff(context.supabase, params.courseId, rows)
+    const summary = summarize(diff)
+
+    if (validated.dryRun) {
+      return NextResponse.json({ success: true, dryRun: true, diff, summary, parseErrors })
+    }
+
+    // 미리보기 이후 수강생이 바뀌었으면 등록 해제 전에 다시 확인하도록 거부
+    if (validated.removeMissing && validated.expectedRemoveCount !== diff.notInRoster.length) {
+      return NextResponse.json(
+        {
+          error: '미리보기 이후 수강 등록 현황이 변경되었습니다. 다시 확인해주세요',
+          code: 'roster_changed',
+          diff,
+          summary,
+          parseErrors
+        },
+        { status: 409 }
+      )
+    }
+
+    const result = await applyRosterDiff(context.supabase, params.courseId, diff, {
+      removeMissing: validated.removeMissing,
+      autoEnrollOnScan: validated.autoEnrollOnScan
+    })
+
+    console.log('[Roster] 수강 명단 반영:', {
+      courseId: params.courseId,
+      professorId: context.user.userId,
+      enrolled: result.enrolled,
+      removed: result.removed,
+      unknown: summary.unknown,
+      autoEnrollOnScan: validated.autoEnrollOnScan ?? null
+    })
+
+    const settings = await getCourseRosterSettings(context.supabase, params.courseId)
+    return NextResponse.json({ success: true, dryRun: false, ...result, diff, summary, parseErrors, settings })
+  } catch (error) {
+    console.error('Import course roster error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { createClient } from '@/lib/supabase-server'
+import { hasLateGradingColumns } from '@/lib/courses/schemaSupport'
+import { CourseLatePolicySchema } from '@/lib/schemas/course'
+import { validateSchema } from '@/lib/utils/validation'
 
 // GET - 특정 강의 상세 조회
 export async function GET(
@@ -19,10 +22,12 @@ export async function GET(
       return NextResponse.json({ error: 'Only professors can view course details' }, { status: 403 })
     }
 
+    const lateGradingSupport = await hasLateGradingColumns(supabase)
     const { data: courseData, error } = await supabase
       .from('courses')
       .select(
         `id, name, course_code, classroom_location, schedule, created_at,
+         ${lateGradingSupport ? 'late_grace_minutes, late_cutoff_minutes,' : ''}
          class_sessions ( id, date, status, attendances ( id, student_id, status ) )`
       )
       .eq('id', params.courseId)
@@ -62,6 +67,8 @@ export async function GET(
       locationLatitude: classroomLocation?.latitude ?? null,
       locationLongitude: classroomLocation?.longitude ?? null,
       locationRadius: classroomLocation?.radius ?? 100,
+      lateGraceMinutes: course.late_grace_minutes ?? null,
+      lateCutoffMinutes: course.late_cutoff_minutes ?? null,
       createdAt: course.created_at,
       sessions: Array.isArray(course.class_sessions)
         ? course.class_sessions.map((session: any) => {
@@ -113,6 +120,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Course name and code are required' }, { status: 400 })
     }
 
+    const latePolicy = validateSchema(CourseLatePolicySchema, body)
+    if (latePolicy instanceof NextResponse) {
+      return latePolicy
+    }
+
     const { error: checkError } = await supabase
       .from('courses')
       .select('id')
@@ -172,6 +184,8 @@ export async function PUT(
         course_code: courseCode,
         classroom_location: classroomLocation,
         schedule: normalizedSchedule,
+        ...(latePolicy.lateGraceMinutes !== undefined && { late_grace_minutes: latePolicy.lateGraceMinutes }),
+        ...(latePolicy.lateCutoffMinutes !== undefined && { late_cutoff_minutes: latePolicy.lateCutoffMinutes }),
       } as any)
       .eq('id', params.courseId)
       .eq('professor_id', user.userId)
@@ -210,6 +224,8 @@ export async function PUT(
         locationLatitude: updatedLocation?.latitude ?? null,
         locationLongitude: updatedLocation?.longitude ?? null,
         locationRadius: updatedLocation?.radius ?? 100,
+        lateGraceMinutes: updated.late_grace_minutes ?? null,
+        lateCutoffMinutes: updated.late_cutoff_minutes ?? null,
       },
     })
   } catch (error) {
@@ -4,8 +4,11 @@ import { getCurrentUserFromRequest } from '@/lib/auth'
 import {
   hasAdvancedCourseLocationColumns,
   hasCourseDescriptionColumn,
-  hasCourseScheduleColumn
+  hasCourseScheduleColumn,
+  hasLateGradingColumns
 } from '@/lib/courses/schemaSupport'
+import { CourseLatePolicySchema } from '@/lib/schemas/course'
+import { validateSchema } from '@/lib/utils/validation'
 import type { SupabaseCourseRow } from '@/lib/session/types'
 import type { Database } from '@/types/supabase'
 
@@ -19,6 +22,8 @@ interface CourseResponseItem {
   locationLatitude?: number | null
   locationLongitude?: number | null
   locationRadius?: number | null
+  lateGraceMinutes?: number | null
+  lateCutoffMinutes?: number | null
 }
 
 type RawCourseRow = SupabaseCourseRow & {
@@ -29,6 +34,7 @@ interface SchemaSupportFlags {
   advancedLocation: boolean
   description: boolean
   schedule: boolean
+  lateGrading: boolean
 }
 
 function mapCourseResponse(
@@ -81,7 +87,9 @@ function mapCourseResponse(
     totalSessions: sessionCount,
     locationLatitude: latitude,
     locationLongitude: longitude,
-    locationRadius: radius
+    locationRadius: radius,
+    lateGraceMinutes: support.lateGrading ? course.late_grace_minutes ?? null : null,
+    lateCutoffMinutes: support.lateGrading ? course.late_cutoff_minutes ?? null : null
   }
 }
 
@@ -99,10 +107,11 @@ export async function GET(request: NextRequest) {
 
     const supabase = createServiceClient()
 
-    const [advancedLocation, descriptionSupport, scheduleSupport] = await Promise.all([
+    const [advancedLocation, descriptionSupport, scheduleSupport, lateGradingSupport] = await Promise.all([
       hasAdvancedCourseLocationColumns(supabase),
       hasCourseDescriptionColumn(supabase),
-      hasCourseScheduleColumn(supabase)
+      hasCourseScheduleColumn(supabase),
+      hasLateGradingColumns(supabase)
     ])
 
     const baseColumns = ['id', 'name', 'course_code', 'classroom_location', 'created_at']
@@ -119,6 +128,10 @@ export async function GET(request: NextRequest) {
       baseColumns.push('description')
     }
 
+    if (lateGradingSupport) {
+      baseColumns.push('late_grace_minutes', 'late_cutoff_minutes')
+    }
+
     const selectClause = `${baseColumns.join(', ')}, class_sessions(count)`
 
     const { data, error } = await supabase
@@ -139,7 +152,8 @@ export async function GET(request: NextRequest) {
       mapCourseResponse(course, {
         advancedLocation,
         description: descriptionSupport,
-        schedule: scheduleSupport
+        schedule: scheduleSupport,
+        lateGrading: lateGradingSupport
       })
     )
 
@@ -162,18 +176,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: '교수만 강의를 생성할 수 있습니다.' }, { status: 403 })
     }
 
-    const { name, courseCode, description, location } = await request.json()
+    const body = await request.json()
+    const { name, courseCode, description, location } = body
 
     if (!name || !courseCode) {
       return NextResponse.json({ error: '강의명과 강의코드는 필수입니다.' }, { status: 400 })
     }
 
+    const latePolicy = validateSchema(CourseLatePolicySchema, body)
+    if (latePolicy instanceof NextResponse) {
+      return latePolicy
+    }
+
     const supabase = createServiceClient()
 
-    const [advancedLocation, descriptionSupport, scheduleSupport] = await Promise.all([
+    const [advancedLocation, descriptionSupport, scheduleSupport, lateGradingSupport] = await Promise.all([
       hasAdvancedCourseLocationColumns(supabase),
       hasCourseDescriptionColumn(supabase),
-      hasCourseScheduleColumn(supabase)
+      hasCourseScheduleColumn(supabase),
+      hasLateGradingColumns(supabase)
     ])
 
     const insertPayload: Database['public']['Tables']['courses']['Insert'] = {
@@ -204,6 +225,15 @@ export async function POST(request: NextRequest) {
       insertPayload.location_radius = location ? 100 : null
     }
 
+    if (lateGradingSupport) {
+      if (latePolicy.lateGraceMinutes !== undefined) {
+        insertPayload.late_grace_minutes = latePolicy.lateGraceMinutes
+      }
+      if (latePolicy.lateCutoffMinutes !== undefined) {
+        insertPayload.late_cutoff_minutes = latePolicy.lateCutoffMinutes
+      }
+    }
+
     const baseColumns = ['id', 'name', 'course_code', 'classroom_location', 'created_at']
 
     if (scheduleSupport) {
@@ -218,6 +248,10 @@ export async function POST(request: NextRequest) {
       baseColumns.push('description')
     }
 
+    if (lateGradingSupport) {
+      baseColumns.push('late_grace_minutes', 'late_cutoff_minutes')
+    }
+
     const selectClause = baseColumns.join(', ')
 
     const { data, error } = await supabase
@@ -236,7 +270,8 @@ export async function POST(request: NextRequest) {
       {
         advancedLocation,
         description: descriptionSupport,
-        schedule: scheduleSupport
+        schedule: scheduleSupport,
+        lateGrading: lateGradingSupport
       }
     )
     course.totalSessions = 0
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { runSessionScheduler } from '@/lib/session/scheduler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 세션 스케줄러 실행 (Vercel Cron 또는 외부 스케줄러에서 호출)
+ *
+ * Authorization: Bearer ${CRON_SECRET}
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('[Session Scheduler] CRON_SECRET 이 설정되지 않았습니다.')
+    return NextResponse.json({ error: 'Scheduler is not configured' }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const result = await runSessionScheduler(supabase)
+
+    console.log('[Session Scheduler] 실행 완료:', {
+      created: result.created,
+      skipped: result.skipped.length,
+      activated: result.activated,
+      ended: result.ended
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[Session Scheduler] 실행 실패:', error)
+    return NextResponse.json({ error: 'Session scheduler failed' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase-admin'
+import { getCourseRosterSettings } from '@/lib/courses/roster-import'
 
 interface EnrollmentRequest {
   courseId: string
@@ -62,6 +63,15 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    // 명단을 가져오고 자동 등록을 끈 강의는 교수가 등록한 학생만 수강
+    const rosterSettings = await getCourseRosterSettings(supabase, courseId)
+    if (!rosterSettings.autoEnrollOnScan) {
+      return NextResponse.json(
+        { error: '이 강의는 수강 명단에 등록된 학생만 출석할 수 있습니다. 담당 교수에게 문의하세요.', code: 'not_enrolled' },
+        { status: 403 }
+      )
+    }
+
     const { data: inserted, error: insertError } = await supabase
       .from('course_enrollments')
       .insert({
@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
-import { calculateDistance } from '@/lib/utils/geo'
+import { hasGeofenceColumns } from '@/lib/courses/schemaSupport'
+import { loadClassroomLocation } from '@/lib/location/classroom-location'
+import { measureGeofence } from '@/lib/utils/geofence'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -51,13 +53,24 @@ export async function POST(request: NextRequest) {
     }
 
     // Get session and classroom location info
+    const geofenceColumns = await hasGeofenceColumns(supabase)
+      ? 'classroom_geofence, classroom_geofence_buffer,'
+      : ''
     const { data: sessionData, error: sessionError } = await supabase
       .from('attendances')
       .select(`
         session_id,
         class_sessions!session_id (
           course_id,
+          classroom_latitude,
+          classroom_longitude,
+          classroom_radius,
+          ${geofenceColumns}
           courses!course_id (
+            location,
+            location_latitude,
+            location_longitude,
+            location_radius,
             classroom_location
           )
         )
@@ -70,30 +83,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session information not found' }, { status: 500 })
     }
 
-    // Extract classroom location
+    // Resolve classroom location (session → predefined location → course)
     const session = Array.isArray(sessionData.class_sessions) ? sessionData.class_sessions[0] : sessionData.class_sessions
     const course = Array.isArray(session?.courses) ? session.courses[0] : session?.courses
-    const classroomLocation = course?.classroom_location as {
-      latitude: number;
-      longitude: number;
-      radius: number;
-    }
+    const classroomLocation = await loadClassroomLocation(supabase, { session, course })
 
     if (!classroomLocation) {
       return NextResponse.json({ error: 'Classroom location not configured' }, { status: 500 })
     }
 
-    // Calculate distance using Haversine formula
-    const distance = calculateDistance(
-      latitude,
-      longitude,
-      classroomLocation.latitude,
-      classroomLocation.longitude
-    );
-
-    const locationValid = distance <= classroomLocation.radius;
+    const measurement = measureGeofence(latitude, longitude, accuracy, classroomLocation.geofence)
+    const distance = measurement.distance
+    const allowedRadius = Math.round(measurement.allowedDistance)
+    const locationValid = measurement.isInside
 
-    console.log(`Location tracking: ${Math.round(distance)}m from classroom (limit: ${classroomLocation.radius}m) → ${locationValid ? '✅ Valid' : '❌ Invalid'}`)
+    console.log(`Location tracking: ${Math.round(distance)}m from classroom (limit: ${allowedRadius}m, source: ${classroomLocation.source}) → ${locationValid ? '✅ Valid' : '❌ Invalid'}`)
 
     // Log the location tracking
     const { error: locationLogError } = await supabase
@@ -116,10 +120,10 @@ export async function POST(request: NextRequest) {
       success: true,
       locationValid: locationValid,
       distance: Math.round(distance),
-      allowedRadius: classroomLocation.radius,
+      allowedRadius,
       message: locationValid
         ? 'Location tracked successfully - within classroom area'
-        : `Student has moved ${Math.round(distance)}m from classroom (allowed: ${classroomLocation.radius}m)`
+        : `Student has moved ${Math.round(distance)}m from classroom (allowed: ${allowedRadius}m)`
     })
   } catch (error) {
     console.error('Location tracking API error:', error)
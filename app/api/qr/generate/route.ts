@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase-admin'
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { Database } from '@/types/supabase'
+import type { Database, Json } from '@/types/supabase'
 import {
   hasAdvancedCourseLocationColumns,
   hasCourseDescriptionColumn,
-  hasCourseScheduleColumn
+  hasCourseScheduleColumn,
+  hasGeofenceColumns
 } from '@/lib/courses/schemaSupport'
+import { attachQRToken } from '@/lib/qr/qr-token'
+import { polygonEnclosingCircle, toPolygonGeofence, type GeoJSONPolygon } from '@/lib/utils/geofence'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -25,6 +28,9 @@ interface QRGenerateRequest {
     locationType?: LocationType
     predefinedLocationId?: string | null
     displayName?: string | null
+    /** GeoJSON Polygon (또는 Feature). 있으면 latitude/longitude/radius 대신 사용 */
+    geofence?: unknown
+    geofenceBuffer?: number | string | null
   }
 }
 
@@ -35,6 +41,8 @@ interface NormalizedLocation {
   displayName?: string
   locationType: LocationType
   predefinedLocationId: string | null
+  geofence: GeoJSONPolygon | null
+  geofenceBuffer: number | null
 }
 
 const MIN_ALLOWED_RADIUS = 100
@@ -82,9 +90,10 @@ async function resolvePredefinedLocation(
   predefinedLocationId: string,
   locationType: LocationType
 ) {
+  const geofenceColumns = await hasGeofenceColumns(supabase) ? ', geofence, geofence_buffer' : ''
   const { data, error } = await supabase
     .from('predefined_locations')
-    .select('id, latitude, longitude, radius, display_name, is_active')
+    .select(`id, latitude, longitude, radius, display_name, is_active${geofenceColumns}`)
     .eq('id', predefinedLocationId)
     .maybeSingle<Database['public']['Tables']['predefined_locations']['Row']>()
 
@@ -97,6 +106,21 @@ async function resolvePredefinedLocation(
     return null
   }
 
+  const polygonGeofence = toPolygonGeofence(data.geofence, data.geofence_buffer)
+  if (polygonGeofence) {
+    const circle = polygonEnclosingCircle(polygonGeofence.polygon, polygonGeofence.bufferMeters)
+    return {
+      latitude: circle.latitude,
+      longitude: circle.longitude,
+      radius: circle.radius,
+      displayName: data.display_name ?? undefined,
+      locationType,
+      predefinedLocationId,
+      geofence: polygonGeofence.polygon,
+      geofenceBuffer: polygonGeofence.bufferMeters
+    } satisfies NormalizedLocation
+  }
+
   const lat = toNumber(data.latitude)
   const lon = toNumber(data.longitude)
   const rad = toNumber(data.radius)
@@ -116,7 +140,9 @@ async function resolvePredefinedLocation(
     radius: normalizedRadius,
     displayName: data.display_name ?? undefined,
     locationType,
-    predefinedLocationId
+    predefinedLocationId,
+    geofence: null,
+    geofenceBuffer: null
   } satisfies NormalizedLocation
 }
 
@@ -282,6 +308,26 @@ export async function POST(request: NextRequest) {
     const fallbackLon = toNumber(classroomLocation.longitude)
     const fallbackRadius = toNumber(classroomLocation.radius)
 
+    if (!normalizedLocation && classroomLocation.geofence !== undefined && classroomLocation.geofence !== null) {
+      const polygonGeofence = toPolygonGeofence(classroomLocation.geofence, classroomLocation.geofenceBuffer)
+      if (!polygonGeofence) {
+        return NextResponse.json({ error: 'Invalid classroom geofence. A GeoJSON Polygon is required.' }, { status: 400 })
+      }
+
+      // 다각형을 감싸는 원을 함께 저장 (원형 좌표만 읽는 기존 화면 호환)
+      const circle = polygonEnclosingCircle(polygonGeofence.polygon, polygonGeofence.bufferMeters)
+      normalizedLocation = {
+        latitude: circle.latitude,
+        longitude: circle.longitude,
+        radius: circle.radius,
+        displayName: classroomLocation.displayName ?? undefined,
+        locationType,
+        predefinedLocationId: classroomLocation.predefinedLocationId ?? null,
+        geofence: polygonGeofence.polygon,
+        geofenceBuffer: polygonGeofence.bufferMeters
+      }
+    }
+
     if (!normalizedLocation) {
       if (fallbackLat === null || fallbackLon === null) {
         return NextResponse.json({ error: 'Invalid classroom location. latitude/longitude are required.' }, { status: 400 })
@@ -298,7 +344,9 @@ export async function POST(request: NextRequest) {
         radius: normalizedRadius,
         displayName: classroomLocation.displayName ?? undefined,
         locationType,
-        predefinedLocationId: classroomLocation.predefinedLocationId ?? null
+        predefinedLocationId: classroomLocation.predefinedLocationId ?? null,
+        geofence: null,
+        geofenceBuffer: null
       }
     }
 
@@ -319,7 +367,11 @@ export async function POST(request: NextRequest) {
       qr_code_expires_at: expiresAt.toISOString(),
       classroom_latitude: normalizedLocation.latitude,
       classroom_longitude: normalizedLocation.longitude,
-      classroom_radius: normalizedLocation.radius
+      classroom_radius: normalizedLocation.radius,
+      ...(normalizedLocation.geofence && {
+        classroom_geofence: normalizedLocation.geofence as unknown as Json,
+        classroom_geofence_buffer: normalizedLocation.geofenceBuffer
+      })
     }
 
     console.log('📦 [QR Generate] 세션 생성 데이터:', {
@@ -394,10 +446,15 @@ export async function POST(request: NextRequest) {
       console.log('✔️ [QR Generate] QR 코드 DB 업데이트 성공')
     }
 
+    // 화면 표시용 QR에는 현재 타임스텝 서명 토큰 포함 (DB에는 저장하지 않음)
+    const { qrData: signedQrData, signed } = await attachQRToken(qrDataObject)
+
     const response = {
       success: true,
-      qrData: qrDataObject,
-      qrCode: qrCodeString,  // 이제 JSON 문자열
+      qrData: signedQrData,
+      qrCode: JSON.stringify(signedQrData),
+      qrRotationSeconds: signed.rotationSeconds,
+      qrRotatesAt: signed.rotatesAt,
       expiresAt: expiresAt.toISOString(),
       courseName: resolvedCourse.name,
       courseCode: resolvedCourse.courseCode,
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { AttendanceOverrideSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+import { applyAttendanceStatusChange, type AttendanceStatusValue } from '@/lib/attendance/audit-log'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH - 교수 출석 상태 수동 변경 (사유 필수, 감사 로그 기록)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; studentId: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can override attendance' }, { status: 403 })
+    }
+
+    const validated = validateSchema(AttendanceOverrideSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    const supabase = createServiceClient()
+    const studentId = decodeURIComponent(params.studentId)
+
+    const { data: session, error: sessionError } = await supabase
+      .from('class_sessions')
+      .select('id, course_id, courses!inner(professor_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (sessionError) {
+      console.error('[Attendance Override] 세션 조회 실패:', sessionError)
+      return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 })
+    }
+
+    const course = session?.courses as { professor_id: string | null } | null
+    if (!session?.course_id || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: 'Session not found or access denied' }, { status: 404 })
+    }
+
+    const { data: attendance, error: attendanceError } = await supabase
+      .from('attendances')
+      .select('id, status')
+      .eq('session_id', session.id)
+      .eq('student_id', studentId)
+      .maybeSingle()
+
+    if (attendanceError) {
+      console.error('[Attendance Override] 출석 기록 조회 실패:', attendanceError)
+      return NextResponse.json({ error: 'Failed to fetch attendance' }, { status: 500 })
+    }
+
+    if (!attendance) {
+      // 체크인하지 못한 학생은 수강생인 경우에만 새 기록 생성
+      const { data: enrollment } = await supabase
+        .from('course_enrollments')
+        .select('id')
+        .eq('course_id', session.course_id)
+        .eq('student_id', studentId)
+        .maybeSingle()
+
+      if (!enrollment) {
+        return NextResponse.json({ error: '해당 강의의 수강생이 아닙니다.' }, { status: 404 })
+      }
+    } else if (attendance.status === validated.status) {
+      return NextResponse.json({ error: '이미 같은 출석 상태입니다.', code: 'status_unchanged' }, { status: 400 })
+    }
+
+    const result = await applyAttendanceStatusChange(supabase, {
+      attendanceId: attendance?.id ?? null,
+      sessionId: session.id,
+      studentId,
+      previousStatus: (attendance?.status as AttendanceStatusValue | undefined) ?? null,
+      newStatus: validated.status,
+      reason: validated.reason,
+      source: 'manual_override',
+      changedBy: user.userId
+    })
+
+    if (!result.ok) {
+      if (result.reason === 'conflict') {
+        return NextResponse.json({
+          error: '출석 상태가 방금 변경되었습니다. 새로고침 후 다시 시도해주세요.',
+          code: 'attendance_changed'
+        }, { status: 409 })
+      }
+      console.error('[Attendance Override] 출석 상태 변경 실패:', result.error)
+      return NextResponse.json({ error: 'Failed to override attendance' }, { status: 500 })
+    }
+
+    console.log('[Attendance Override] 출석 상태 변경:', {
+      sessionId: session.id,
+      studentId,
+      from: result.entry.previous_status,
+      to: result.entry.new_status,
+      changedBy: user.userId
+    })
+
+    return NextResponse.json({
+      success: true,
+      attendance: {
+        id: result.attendanceId,
+        studentId,
+        status: validated.status
+      },
+      audit: {
+        id: result.entry.id,
+        previousStatus: result.entry.previous_status,
+        newStatus: result.entry.new_status,
+        reason: result.entry.reason,
+        changedBy: result.entry.changed_by,
+        createdAt: result.entry.created_at
+      }
+    })
+  } catch (error: unknown) {
+    console.error('Attendance override error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
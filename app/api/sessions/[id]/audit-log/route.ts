@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { fetchSessionAuditLog } from '@/lib/attendance/audit-log'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 세션 출석 상태 변경 이력 (담당 교수)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can view the audit log' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: session } = await supabase
+      .from('class_sessions')
+      .select('id, courses!inner(professor_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    const course = session?.courses as { professor_id: string | null } | null
+    if (!session || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: 'Session not found or access denied' }, { status: 404 })
+    }
+
+    const entries = await fetchSessionAuditLog(
+      supabase,
+      session.id,
+      request.nextUrl.searchParams.get('studentId') ?? undefined
+    )
+
+    const studentIds = Array.from(new Set(entries.map((entry) => entry.student_id)))
+    const professorIds = Array.from(new Set(entries.map((entry) => entry.changed_by)))
+    const [studentsResult, professorsResult] = await Promise.all([
+      studentIds.length > 0
+        ? supabase.from('students').select('student_id, name').in('student_id', studentIds)
+        : Promise.resolve({ data: [] as Array<{ student_id: string; name: string }> }),
+      professorIds.length > 0
+        ? supabase.from('professors').select('professor_id, name').in('professor_id', professorIds)
+        : Promise.resolve({ data: [] as Array<{ professor_id: string; name: string }> })
+    ])
+
+    const studentNames = new Map((studentsResult.data ?? []).map((student) => [student.student_id, student.name]))
+    const professorNames = new Map((professorsResult.data ?? []).map((professor) => [professor.professor_id, professor.name]))
+
+    return NextResponse.json({
+      success: true,
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        attendanceId: entry.attendance_id,
+        studentId: entry.student_id,
+        studentName: studentNames.get(entry.student_id) ?? entry.student_id,
+        previousStatus: entry.previous_status,
+        newStatus: entry.new_status,
+        reason: entry.reason,
+        source: entry.source,
+        appealId: entry.appeal_id,
+        changedBy: entry.changed_by,
+        changedByName: professorNames.get(entry.changed_by) ?? entry.changed_by,
+        createdAt: entry.created_at
+      }))
+    })
+  } catch (error: unknown) {
+    console.error('Get attendance audit log error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
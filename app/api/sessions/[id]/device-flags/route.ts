@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { hasDeviceBindingColumns } from '@/lib/courses/schemaSupport'
+import { findSharedDeviceCheckIns } from '@/lib/device/device-binding'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 한 기기에서 여러 학생이 체크인한 기록 (담당 교수)
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can view device flags' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: session } = await supabase
+      .from('class_sessions')
+      .select('id, courses!inner(professor_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    const course = session?.courses as { professor_id: string | null } | null
+    if (!session || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: 'Session not found or access denied' }, { status: 404 })
+    }
+
+    if (!(await hasDeviceBindingColumns(supabase))) {
+      return NextResponse.json({ success: true, flags: [] })
+    }
+
+    const { data: attempts, error } = await supabase
+      .from('attendance_attempts')
+      .select('student_id, device_id, device_type, result, failure_reason, created_at')
+      .eq('session_id', session.id)
+      .not('device_id', 'is', null)
+
+    if (error) {
+      console.error('[DeviceBinding] 체크인 시도 조회 실패:', error)
+      return NextResponse.json({ error: 'Failed to fetch check-in attempts' }, { status: 500 })
+    }
+
+    const flags = findSharedDeviceCheckIns(attempts ?? [])
+
+    const studentIds = Array.from(new Set(flags.flatMap((flag) => flag.students.map((student) => student.studentId))))
+    const { data: students } = studentIds.length > 0
+      ? await supabase.from('students').select('student_id, name').in('student_id', studentIds)
+      : { data: [] as Array<{ student_id: string; name: string }> }
+    const studentNames = new Map((students ?? []).map((student) => [student.student_id, student.name]))
+
+    return NextResponse.json({
+      success: true,
+      flags: flags.map((flag) => ({
+        ...flag,
+        students: flag.students.map((student) => ({
+          ...student,
+          name: studentNames.get(student.studentId) ?? student.studentId
+        }))
+      }))
+    })
+  } catch (error: unknown) {
+    console.error('Get device flags error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
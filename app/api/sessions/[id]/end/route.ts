@@ -81,7 +81,7 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
 
     // 4. 세션 상태를 'ended'로 변경하고 출석 데이터 정리
     const { endedAt } = await markSessionEnded(supabase, sessionId)
-    const { stats } = await finalizeAttendanceRecords(supabase, sessionId)
+    const { stats, signalLost } = await finalizeAttendanceRecords(supabase, sessionId, endedAt)
 
     console.log('📊 수업 종료 통계:', stats)
 
@@ -101,6 +101,8 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
       metadata: {
         totalStudents: stats.total,
         presentStudents: stats.present + stats.late,
+        signalLostPolicy: signalLost.policy,
+        signalLostAttendanceIds: signalLost.attendanceIds,
         heartbeatsWillStop: true
       }
     });
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { autoEndSessionIfNeeded } from '@/lib/session/session-service'
+import {
+  buildSignalEvents,
+  formatSseEvent,
+  loadAttendanceEvents,
+  parseLastEventId,
+  sortSessionEvents,
+  type SessionEvent
+} from '@/lib/session/session-events'
+import { loadSignalStates } from '@/lib/attendance/signal-lost'
+import { SESSION_EVENTS_CONFIG } from '@/lib/config/attendance-config'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// 막 커밋된 행이 조회 구간 경계에서 빠지지 않도록 현재 시각보다 조금 앞까지만 조회
+const COMMIT_LAG_MS = 1000
+// 연결이 끊기면 브라우저 EventSource 가 이 간격 후 Last-Event-ID 로 재연결
+const RECONNECT_DELAY_MS = 3000
+
+const SESSION_COLUMNS = 'id, course_id, status, date, start_time, end_time, created_at, updated_at'
+
+// GET - 세션 실시간 이벤트 스트림 (담당 교수, Server-Sent Events)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can subscribe to session events' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: session } = await supabase
+      .from('class_sessions')
+      .select('id, courses!inner(professor_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    const course = session?.courses as { professor_id: string | null } | null
+    if (!session || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: 'Session not found or access denied' }, { status: 404 })
+    }
+
+    const sessionId = session.id
+    // EventSource 는 재연결 시 헤더로, 수동 재연결은 쿼리로 마지막 이벤트 id 를 전달
+    const lastEventId = parseLastEventId(
+      request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId')
+    )
+
+    const encoder = new TextEncoder()
+    let closed = false
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(chunk))
+          }
+        }
+        const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+        const startedAt = Date.now()
+        let cursor = lastEventId ?? startedAt - COMMIT_LAG_MS
+        let lastWriteAt = startedAt
+        // 연결마다 ready 로 현재 신호 끊김 목록을 보내고, 이후에는 바뀐 것만 이벤트로 보냄
+        let readySent = false
+        const silentIds = new Set<string>()
+        // 이미 알린 출석 상태 (같은 상태로의 수정은 status_change 로 보내지 않음)
+        const knownStatuses = new Map<string, string>()
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+        try {
+          while (!closed) {
+            const { data: row, error } = await supabase
+              .from('class_sessions')
+              .select(SESSION_COLUMNS)
+              .eq('id', sessionId)
+              .maybeSingle()
+            if (error || !row?.course_id) {
+              throw error ?? new Error('Session disappeared while streaming')
+            }
+
+            const { session: current, autoEnded } = await autoEndSessionIfNeeded(supabase, {
+              ...row,
+              course_id: row.course_id
+            })
+
+            const until = Date.now() - COMMIT_LAG_MS
+            const signalStates = await loadSignalStates(supabase, sessionId, until)
+
+            if (!readySent) {
+              // 재연결은 Last-Event-ID 이후의 상태 변경을 다시 보내야 하므로 현재 상태를 기준으로 삼지 않음
+              if (lastEventId === null) {
+                for (const state of signalStates) {
+                  knownStatuses.set(state.attendanceId, state.status)
+                }
+              }
+              const signalLost = signalStates
+                .filter((state) => state.signalLost)
+                .map((state) => ({ attendanceId: state.attendanceId, studentId: state.studentId, lastHeartbeatAt: state.lastSeenAt }))
+              signalLost.forEach((item) => silentIds.add(item.attendanceId))
+              send(formatSseEvent({ type: 'ready', at: cursor, data: { sessionId, status: current.status, signalLost } }))
+              readySent = true
+            }
+
+            const events = sortSessionEvents([
+              ...(await loadAttendanceEvents(supabase, sessionId, cursor, until, knownStatuses)),
+              ...buildSignalEvents(signalStates, silentIds, until)
+            ])
+            for (const event of events) {
+              send(formatSseEvent(event))
+            }
+            if (events.length > 0) {
+              lastWriteAt = Date.now()
+            }
+            cursor = until
+
+            if (current.status === 'ended') {
+              const endedAt = Date.parse(current.updated_at ?? '') || until
+              const endEvent: SessionEvent = {
+                type: 'session_end',
+                at: Math.max(endedAt, cursor),
+                data: { sessionId, endedAt: new Date(endedAt).toISOString(), autoEnded }
+              }
+              send(formatSseEvent(endEvent))
+              break
+            }
+
+            const elapsed = Date.now() - startedAt
+            if (elapsed >= SESSION_EVENTS_CONFIG.maxStreamSeconds * 1000) {
+              // data 없는 id 필드는 이벤트 없이 재연결 위치(Last-Event-ID)만 갱신
+              send(`id: ${cursor}\n\n`)
+              break
+            }
+
+            if (Date.now() - lastWriteAt >= SESSION_EVENTS_CONFIG.keepAliveSeconds * 1000) {
+              send(`: keep-alive\nid: ${cursor}\n\n`)
+              lastWriteAt = Date.now()
+            }
+
+            await sleep(SESSION_EVENTS_CONFIG.pollIntervalSeconds * 1000)
+          }
+        } catch (error) {
+          console.error('Session events stream error:', error)
+        } finally {
+          if (!closed) {
+            closed = true
+            controller.close()
+          }
+        }
+      },
+      cancel() {
+        closed = true
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Session events error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { fetchSessionLeftEarlyDecisions } from '@/lib/attendance/left-early-policy'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - 세션 조퇴 판정 근거 (담당 교수)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can view left early decisions' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: session } = await supabase
+      .from('class_sessions')
+      .select('id, courses!inner(professor_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    const course = session?.courses as { professor_id: string | null } | null
+    if (!session || course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: 'Session not found or access denied' }, { status: 404 })
+    }
+
+    const decisions = await fetchSessionLeftEarlyDecisions(
+      supabase,
+      session.id,
+      request.nextUrl.searchParams.get('studentId') ?? undefined
+    )
+
+    const studentIds = Array.from(new Set(decisions.map((decision) => decision.student_id)))
+    const { data: students } = studentIds.length > 0
+      ? await supabase.from('students').select('student_id, name').in('student_id', studentIds)
+      : { data: [] as Array<{ student_id: string; name: string }> }
+
+    const studentNames = new Map((students ?? []).map((student) => [student.student_id, student.name]))
+
+    return NextResponse.json({
+      success: true,
+      decisions: decisions.map((decision) => ({
+        id: decision.id,
+        attendanceId: decision.attendance_id,
+        studentId: decision.student_id,
+        studentName: studentNames.get(decision.student_id) ?? decision.student_id,
+        decidedAt: decision.decided_at,
+        rule: decision.rule,
+        windowCount: decision.window_count,
+        outsideCount: decision.outside_count,
+        outsideMinutes: decision.outside_minutes,
+        weightedOutsideRatio: decision.weighted_outside_ratio,
+        samples: decision.samples
+      }))
+    })
+  } catch (error: unknown) {
+    console.error('Get left early decisions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
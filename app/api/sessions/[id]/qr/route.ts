@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { attachQRToken } from '@/lib/qr/qr-token'
+import type { QRCodeData } from '@/lib/qr/qr-generator'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function parseStoredBaseUrl(qrCode: string | null): string | undefined {
+  if (!qrCode) {
+    return undefined
+  }
+
+  try {
+    const parsed = JSON.parse(qrCode) as { baseUrl?: unknown }
+    return typeof parsed.baseUrl === 'string' ? parsed.baseUrl : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * 현재 타임스텝으로 서명된 세션 QR 발급
+ *
+ * 교수 화면(QRCodeDisplay)이 회전 주기마다 호출해 QR 이미지를 갱신합니다.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.userType !== 'professor') {
+      return NextResponse.json({ error: 'Only professors can display session QR codes' }, { status: 403 })
+    }
+
+    const sessionId = params.id
+    if (!sessionId) {
+      return NextResponse.json({ error: '세션 ID가 필요합니다.' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: session, error: sessionError } = await supabase
+      .from('class_sessions')
+      .select(`
+        id,
+        course_id,
+        status,
+        qr_code,
+        qr_code_expires_at,
+        courses!course_id (
+          professor_id
+        )
+      `)
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session || !session.course_id) {
+      return NextResponse.json({ error: '세션을 찾을 수 없습니다.' }, { status: 404 })
+    }
+
+    const course = Array.isArray(session.courses) ? session.courses[0] : session.courses
+    if (course?.professor_id !== user.userId) {
+      return NextResponse.json({ error: '이 세션의 QR코드를 조회할 권한이 없습니다.' }, { status: 403 })
+    }
+
+    if (session.status === 'ended') {
+      return NextResponse.json({ error: '이미 종료된 세션입니다.', code: 'session_ended' }, { status: 410 })
+    }
+
+    if (!session.qr_code_expires_at || new Date(session.qr_code_expires_at) < new Date()) {
+      return NextResponse.json({ error: 'QR코드가 만료되었습니다.', code: 'expired' }, { status: 410 })
+    }
+
+    const baseQrData: QRCodeData = {
+      sessionId: session.id,
+      courseId: session.course_id,
+      expiresAt: session.qr_code_expires_at,
+      type: 'attendance',
+      baseUrl: parseStoredBaseUrl(session.qr_code) ?? request.nextUrl.origin
+    }
+
+    const { qrData, signed } = await attachQRToken(baseQrData)
+
+    return NextResponse.json({
+      success: true,
+      qrData,
+      qrCode: JSON.stringify(qrData),
+      step: signed.step,
+      rotationSeconds: signed.rotationSeconds,
+      rotatesAt: signed.rotatesAt
+    })
+  } catch (error) {
+    console.error('Session QR rotation error:', error)
+    return NextResponse.json({ error: 'QR코드 갱신 중 오류가 발생했습니다.' }, { status: 500 })
+  }
+}
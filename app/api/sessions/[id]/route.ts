@@ -82,6 +82,8 @@ export async function GET(
         created_at,
         updated_at,
         date,
+        start_time,
+        end_time,
         qr_code,
         qr_code_expires_at,
         status,
@@ -121,6 +123,9 @@ export async function GET(
     const autoEndResult = await autoEndSessionIfNeeded(supabase, {
       id: sessionRow.id,
       status: sessionRow.status,
+      date: sessionRow.date,
+      start_time: sessionRow.start_time,
+      end_time: sessionRow.end_time,
       created_at: sessionRow.created_at,
       updated_at: sessionRow.updated_at,
       course_id: sessionRow.course_id
@@ -134,7 +139,7 @@ export async function GET(
 
     const course = resolveCourse(normalizedSession)
     const classroomLocation = resolveLocation(normalizedSession, course)
-    const autoEndInfo = calculateAutoEndAt(normalizedSession.created_at ?? null)
+    const autoEndInfo = calculateAutoEndAt(normalizedSession)
 
     const responseData = {
       session: {
@@ -147,6 +152,8 @@ export async function GET(
         expiresAt: normalizedSession.qr_code_expires_at,
         status: normalizedSession.status,
         date: normalizedSession.date,
+        startTime: normalizedSession.start_time,
+        endTime: normalizedSession.end_time,
         qrCodeUrl: normalizedSession.qr_code ?? null,
         baseUrl: (() => {
           try {
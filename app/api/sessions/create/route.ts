@@ -2,7 +2,12 @@ import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase-admin'
-import type { Database } from '@/types/supabase'
+import { attachQRToken } from '@/lib/qr/qr-token'
+import { hasCourseScheduleColumn } from '@/lib/courses/schemaSupport'
+import { parseCourseSchedule, type CourseScheduleSlot } from '@/lib/session/schedule'
+import { findOpenableScheduledSession, resolveManualSessionTimes } from '@/lib/session/scheduler'
+import { polygonEnclosingCircle, toPolygonGeofence } from '@/lib/utils/geofence'
+import type { Database, Json } from '@/types/supabase'
 
 const FALLBACK_LOCATION = {
   latitude: 36.6372,
@@ -40,6 +45,9 @@ export async function POST(request: NextRequest) {
         longitude?: number
         radius?: number
         address?: string
+        /** GeoJSON Polygon (또는 Feature). 있으면 원형 반경 대신 다각형으로 판정 */
+        geofence?: unknown
+        geofenceBuffer?: number
       }
     }
 
@@ -51,6 +59,14 @@ export async function POST(request: NextRequest) {
     const supabase = createServiceClient()
     const requestLocation = body.location ?? {}
 
+    const hasRequestedGeofence = requestLocation.geofence !== undefined && requestLocation.geofence !== null
+    const polygonGeofence = hasRequestedGeofence
+      ? toPolygonGeofence(requestLocation.geofence, requestLocation.geofenceBuffer)
+      : null
+    if (hasRequestedGeofence && !polygonGeofence) {
+      return NextResponse.json({ error: '강의실 경계(GeoJSON Polygon) 형식이 올바르지 않습니다.' }, { status: 400 })
+    }
+
     // ensure professor profile exists (fallback for seed 환경)
     const { data: existingProfile } = await supabase
       .from('user_profiles')
@@ -263,11 +279,30 @@ export async function POST(request: NextRequest) {
     // 반경 제한: 최소 10m, 최대 500m (GPS 정확도 고려)
     const radius = Math.max(10, Math.min(500, requestedRadius))
 
+    // 다각형 경계가 있으면 이를 감싸는 원을 원형 좌표로 함께 저장 (기존 화면 호환)
+    const classroom = polygonGeofence
+      ? polygonEnclosingCircle(polygonGeofence.polygon, polygonGeofence.bufferMeters)
+      : { latitude, longitude, radius }
+
     const now = new Date()
     const createdAtIso = now.toISOString()
     const expiresAt = new Date(now.getTime() + 10 * 60 * 1000)
     const expiresAtIso = expiresAt.toISOString()
-    const sessionId = randomUUID()
+
+    // 시간표로 미리 생성된 수업이 지금 열려 있으면 새 세션 대신 그 세션을 사용
+    const scheduledSession = await findOpenableScheduledSession(supabase, course.id, now)
+    const sessionId = scheduledSession?.id ?? randomUUID()
+
+    let courseSchedule: CourseScheduleSlot[] = []
+    if (!scheduledSession && await hasCourseScheduleColumn(supabase)) {
+      const { data: scheduleRow } = await supabase
+        .from('courses')
+        .select('schedule')
+        .eq('id', course.id)
+        .maybeSingle()
+      courseSchedule = parseCourseSchedule(scheduleRow?.schedule ?? null)
+    }
+    const sessionTimes = resolveManualSessionTimes(courseSchedule, now)
 
     const baseUrl = request.nextUrl.origin
     const qrPayload = {
@@ -278,23 +313,34 @@ export async function POST(request: NextRequest) {
       baseUrl
     }
 
-    const sessionInsert = {
-      id: sessionId,
-      course_id: course.id,
-      date: createdAtIso.split('T')[0],
+    const sessionUpdate = {
       status: 'active',
       qr_code: JSON.stringify(qrPayload),
       qr_code_expires_at: expiresAtIso,
-      classroom_latitude: latitude,
-      classroom_longitude: longitude,
-      classroom_radius: radius
+      classroom_latitude: classroom.latitude,
+      classroom_longitude: classroom.longitude,
+      classroom_radius: classroom.radius,
+      ...(polygonGeofence && {
+        classroom_geofence: polygonGeofence.polygon as unknown as Json,
+        classroom_geofence_buffer: polygonGeofence.bufferMeters
+      })
+    }
+
+    const sessionInsert = {
+      ...sessionUpdate,
+      id: sessionId,
+      course_id: course.id,
+      date: sessionTimes.date,
+      start_time: sessionTimes.startTime,
+      end_time: sessionTimes.endTime
     }
 
     console.log('📍 [Session Create] 강의실 위치 설정:', {
       classroom: {
-        latitude: latitude,
-        longitude: longitude,
-        radius: radius
+        latitude: classroom.latitude,
+        longitude: classroom.longitude,
+        radius: classroom.radius,
+        shape: polygonGeofence ? 'polygon' : 'circle'
       },
       source: {
         requestLocation: requestLocation,
@@ -307,37 +353,53 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    const { error: insertError } = await supabase
-      .from('class_sessions')
-      .insert(sessionInsert)
+    const { error: insertError } = scheduledSession
+      ? await supabase
+          .from('class_sessions')
+          .update({ ...sessionUpdate, updated_at: createdAtIso })
+          .eq('id', scheduledSession.id)
+      : await supabase
+          .from('class_sessions')
+          .insert(sessionInsert)
 
     if (insertError) {
       console.error('[Session Create] 세션 생성 실패:', insertError)
       return NextResponse.json({ error: '세션 생성에 실패했습니다.' }, { status: 500 })
     }
 
+    // DB에는 서명 없는 기본 정보만 저장하고, 화면에는 현재 타임스텝 토큰을 붙여 전달
+    const { qrData: signedQrPayload, signed } = await attachQRToken(qrPayload, now.getTime())
+
     const responseSession = {
       id: sessionId,
       courseId: course.id,
       courseName: course.name,
       courseCode: course.course_code,
       location: {
-        lat: latitude,
-        lng: longitude,
-        radius,
+        lat: classroom.latitude,
+        lng: classroom.longitude,
+        radius: classroom.radius,
+        geofence: polygonGeofence?.polygon ?? null,
+        geofenceBuffer: polygonGeofence?.bufferMeters ?? null,
         address: requestLocation.address ?? (typeof course.location === 'string' ? course.location : FALLBACK_LOCATION.address)
       },
-      qrCode: JSON.stringify(qrPayload),
+      qrCode: JSON.stringify(signedQrPayload),
       qrCodeExpiresAt: expiresAtIso,
+      qrRotationSeconds: signed.rotationSeconds,
+      qrRotatesAt: signed.rotatesAt,
       expiresAt: expiresAtIso,
       isActive: true,
+      startTime: scheduledSession?.start_time ?? sessionTimes.startTime,
+      endTime: scheduledSession?.end_time ?? sessionTimes.endTime,
+      scheduled: Boolean(scheduledSession),
       createdAt: createdAtIso
     }
 
     console.log('[Session Create] 세션 생성 완료:', {
       sessionId,
       courseId: course.id,
-      expiresAt: expiresAtIso
+      expiresAt: expiresAtIso,
+      reusedScheduledSession: Boolean(scheduledSession)
     })
 
     return NextResponse.json({ success: true, session: responseSession })
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase-admin'
+import { hasPdrCalibrationColumn } from '@/lib/courses/schemaSupport'
+import { parsePDRCalibration } from '@/lib/pdr/pdr-calibration'
+import { PDRCalibrationSchema } from '@/lib/schemas'
+import { validateSchema } from '@/lib/utils/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function requireStudent() {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (user.userType !== 'student') {
+    return NextResponse.json({ error: 'Only students can manage PDR calibration' }, { status: 403 })
+  }
+
+  return { user, supabase: createServiceClient() }
+}
+
+function unavailable() {
+  return NextResponse.json(
+    { error: 'PDR 보정을 저장하려면 데이터베이스 마이그레이션(029)이 필요합니다', code: 'pdr_calibration_unavailable' },
+    { status: 409 }
+  )
+}
+
+// GET - 저장된 PDR 보정 값 (없으면 calibration: null)
+export async function GET() {
+  try {
+    const context = await requireStudent()
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    if (!(await hasPdrCalibrationColumn(context.supabase))) {
+      return NextResponse.json({ success: true, supported: false, calibration: null })
+    }
+
+    const { data, error } = await context.supabase
+      .from('students')
+      .select('pdr_calibration')
+      .eq('student_id', context.user.userId)
+      .maybeSingle()
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      supported: true,
+      calibration: parsePDRCalibration(data?.pdr_calibration ?? null)
+    })
+  } catch (error) {
+    console.error('Get PDR calibration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - 걷기 보정 결과 저장
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await requireStudent()
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    const validated = validateSchema(PDRCalibrationSchema, await request.json())
+    if (validated instanceof NextResponse) {
+      return validated
+    }
+
+    if (!(await hasPdrCalibrationColumn(context.supabase))) {
+      return unavailable()
+    }
+
+    const { error } = await context.supabase
+      .from('students')
+      .update({ pdr_calibration: validated, updated_at: new Date().toISOString() })
+      .eq('student_id', context.user.userId)
+    if (error) {
+      throw error
+    }
+
+    console.log('[PDR Calibration] 보정 값 저장:', {
+      studentId: context.user.userId,
+      weinbergK: validated.weinbergK,
+      stepThreshold: validated.stepThreshold,
+      distance: validated.distance,
+      steps: validated.steps
+    })
+
+    return NextResponse.json({ success: true, supported: true, calibration: validated })
+  } catch (error) {
+    console.error('Save PDR calibration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - 보정 값 삭제 (기본 파라미터로 되돌림)
+export async function DELETE() {
+  try {
+    const context = await requireStudent()
+    if (context instanceof NextResponse) {
+      return context
+    }
+
+    if (!(await hasPdrCalibrationColumn(context.supabase))) {
+      return unavailable()
+    }
+
+    const { error } = await context.supabase
+      .from('students')
+      .update({ pdr_calibration: null, updated_at: new Date().toISOString() })
+      .eq('student_id', context.user.userId)
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, supported: true, calibration: null })
+  } catch (error) {
+    console.error('Delete PDR calibration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { Card, CardHeader, CardTitle, CardContent, Button, Input } from '@/components/ui'
 import { useAuth } from '@/lib/auth-context'
+import { DeviceStorageUnavailableError, getDeviceFingerprint } from '@/lib/device/device-fingerprint'
 
 export default function LoginPage() {
   const { refreshUser } = useAuth()
@@ -12,7 +13,8 @@ export default function LoginPage() {
     password: '',
     studentId: '',
     professorId: '',
-    loginType: 'student' as 'student' | 'professor'
+    adminId: '',
+    loginType: 'student' as 'student' | 'professor' | 'admin'
   })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
@@ -23,15 +25,21 @@ export default function LoginPage() {
     setError('')
 
     try {
+      // 학생은 로그인한 기기를 계정에 등록
+      const deviceId = formData.loginType === 'student' ? await getDeviceFingerprint() : undefined
+
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          id: formData.loginType === 'student' ? formData.studentId : formData.professorId,
+          id: formData.loginType === 'student'
+            ? formData.studentId
+            : formData.loginType === 'professor' ? formData.professorId : formData.adminId,
           password: formData.password,
           userType: formData.loginType,
+          deviceId,
         }),
       })
 
@@ -62,13 +70,16 @@ export default function LoginPage() {
       } else if (data.user?.type === 'professor') {
         console.log('Redirecting to /professor')
         window.location.href = '/professor'
+      } else if (data.user?.type === 'admin') {
+        console.log('Redirecting to /admin')
+        window.location.href = '/admin'
       } else {
         console.log('Unknown user type:', data.user?.type)
         setError('사용자 타입을 알 수 없습니다.')
       }
     } catch (error) {
       console.error('Login error:', error)
-      setError('로그인 중 오류가 발생했습니다.')
+      setError(error instanceof DeviceStorageUnavailableError ? error.message : '로그인 중 오류가 발생했습니다.')
     } finally {
       setLoading(false)
     }
@@ -118,6 +129,18 @@ export default function LoginPage() {
               </button>
             </div>
 
+            <div className="-mt-4 mb-6 text-right">
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, loginType: 'admin' }))}
+                className={`text-xs transition-colors ${
+                  formData.loginType === 'admin' ? 'text-primary-600 font-medium' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                관리자 로그인
+              </button>
+            </div>
+
             <form onSubmit={handleSubmit} className="space-y-4">
               {error && (
                 <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
@@ -134,7 +157,7 @@ export default function LoginPage() {
                   placeholder="202012345"
                   required
                 />
-              ) : (
+              ) : formData.loginType === 'professor' ? (
                 <Input
                   label="교수번호"
                   type="text"
@@ -143,6 +166,15 @@ export default function LoginPage() {
                   placeholder="PROF001"
                   required
                 />
+              ) : (
+                <Input
+                  label="관리자 ID"
+                  type="text"
+                  value={formData.adminId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, adminId: e.target.value }))}
+                  placeholder="admin001"
+                  required
+                />
               )}
 
               <Input
@@ -164,6 +196,15 @@ export default function LoginPage() {
               </Button>
             </form>
 
+            <div className="mt-4 text-center">
+              <Link
+                href="/auth/reset-password"
+                className="text-sm text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                비밀번호를 잊으셨나요?
+              </Link>
+            </div>
+
             <div className="mt-6 text-center">
               <p className="text-sm text-gray-600">
                 계정이 없으신가요?{' '}
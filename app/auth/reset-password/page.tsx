@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardHeader, CardTitle, CardContent, Button, Input } from '@/components/ui'
+
+export default function ResetPasswordPage() {
+  const [formData, setFormData] = useState({
+    userId: '',
+    code: '',
+    newPassword: '',
+    confirmPassword: '',
+    userType: 'student' as 'student' | 'professor'
+  })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [completed, setCompleted] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError('새 비밀번호가 일치하지 않습니다.')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/auth/password/reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userType: formData.userType,
+          userId: formData.userId,
+          code: formData.code,
+          newPassword: formData.newPassword,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || '비밀번호 재설정에 실패했습니다.')
+        return
+      }
+
+      setCompleted(true)
+    } catch (error) {
+      console.error('Password reset error:', error)
+      setError('비밀번호 재설정 중 오류가 발생했습니다.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 px-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            비밀번호 재설정
+          </h1>
+          <p className="text-gray-600">
+            {formData.userType === 'student'
+              ? '담당 교수님께 받은 재설정 코드를 입력하세요'
+              : '관리자에게 받은 재설정 코드를 입력하세요'}
+          </p>
+        </div>
+
+        <Card className="shadow-medium">
+          <CardHeader>
+            <CardTitle className="text-center">새 비밀번호 설정</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {completed ? (
+              <div className="space-y-4 text-center">
+                <div className="bg-success-50 border border-success-200 text-success-800 px-4 py-3 rounded-lg text-sm">
+                  비밀번호가 재설정되었습니다. 모든 기기에서 로그아웃되었으니 새 비밀번호로 로그인해주세요.
+                </div>
+                <Link
+                  href="/auth/login"
+                  className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+                >
+                  로그인하러 가기
+                </Link>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2 mb-6 p-1 bg-gray-100 rounded-lg">
+                  {(['student', 'professor'] as const).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, userType: type }))}
+                      className={`py-2 px-4 text-sm font-medium rounded-md transition-all ${
+                        formData.userType === type
+                          ? 'bg-white text-primary-600 shadow-sm'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {type === 'student' ? '학생' : '교수'}
+                    </button>
+                  ))}
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {error && (
+                    <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <Input
+                    label={formData.userType === 'student' ? '학번' : '교수번호'}
+                    type="text"
+                    value={formData.userId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, userId: e.target.value }))}
+                    placeholder={formData.userType === 'student' ? '202012345' : 'PROF001'}
+                    required
+                  />
+
+                  <Input
+                    label="재설정 코드"
+                    type="text"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value }))}
+                    placeholder="ABCD-EFGH"
+                    autoComplete="one-time-code"
+                    required
+                  />
+
+                  <Input
+                    label="새 비밀번호"
+                    type="password"
+                    value={formData.newPassword}
+                    onChange={(e) => setFormData(prev => ({ ...prev, newPassword: e.target.value }))}
+                    placeholder="6자 이상"
+                    autoComplete="new-password"
+                    required
+                  />
+
+                  <Input
+                    label="새 비밀번호 확인"
+                    type="password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                    autoComplete="new-password"
+                    required
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    loading={loading}
+                    disabled={loading}
+                  >
+                    비밀번호 재설정
+                  </Button>
+                </form>
+              </>
+            )}
+
+            <div className="mt-6 text-center">
+              <Link
+                href="/auth/login"
+                className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                ← 로그인으로 돌아가기
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
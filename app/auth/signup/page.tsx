@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { Card, CardHeader, CardTitle, CardContent, Button, Input } from '@/components/ui'
 import { useAuth } from '@/lib/auth-context'
+import { DeviceStorageUnavailableError, getDeviceFingerprint } from '@/lib/device/device-fingerprint'
 
 export default function SignupPage() {
   const router = useRouter()
@@ -61,6 +62,8 @@ export default function SignupPage() {
     }
 
     try {
+      const deviceId = formData.userType === 'student' ? await getDeviceFingerprint() : undefined
+
       const response = await fetch('/api/auth/signup', {
         method: 'POST',
         headers: {
@@ -72,6 +75,7 @@ export default function SignupPage() {
           studentId: formData.userType === 'student' ? formData.studentId : undefined,
           professorId: formData.userType === 'professor' ? formData.professorId : undefined,
           password: formData.password,
+          deviceId,
         }),
       })
 
@@ -100,7 +104,7 @@ export default function SignupPage() {
       }
     } catch (error) {
       console.error('Signup error:', error)
-      setError('회원가입 중 오류가 발생했습니다.')
+      setError(error instanceof DeviceStorageUnavailableError ? error.message : '회원가입 중 오류가 발생했습니다.')
     } finally {
       setLoading(false)
     }
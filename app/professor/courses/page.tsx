@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/lib/auth-context'
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+import { CourseAttendanceSummary, RosterImport } from '@/components/courses'
 import Link from 'next/link'
 
 interface Course {
@@ -12,6 +13,8 @@ interface Course {
   description?: string
   location?: string
   totalSessions: number
+  lateGraceMinutes?: number | null
+  lateCutoffMinutes?: number | null
 }
 
 export default function CoursesPage() {
@@ -20,11 +23,15 @@ export default function CoursesPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [showCreateForm, setShowCreateForm] = useState(false)
+  const [rosterCourse, setRosterCourse] = useState<Course | null>(null)
+  const [summaryCourse, setSummaryCourse] = useState<Course | null>(null)
   const [formData, setFormData] = useState({
     name: '',
     courseCode: '',
     description: '',
-    location: ''
+    location: '',
+    lateGraceMinutes: '10',
+    lateCutoffMinutes: '30'
   })
 
   useEffect(() => {
@@ -67,7 +74,11 @@ export default function CoursesPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          lateGraceMinutes: Number(formData.lateGraceMinutes),
+          lateCutoffMinutes: formData.lateCutoffMinutes === '' ? null : Number(formData.lateCutoffMinutes)
+        }),
       })
 
       const data = (await response.json()) as { course: Course; error?: string }
@@ -80,7 +91,7 @@ export default function CoursesPage() {
       setCourses(prev => [...prev, data.course])
 
       // 폼 초기화
-      setFormData({ name: '', courseCode: '', description: '', location: '' })
+      setFormData({ name: '', courseCode: '', description: '', location: '', lateGraceMinutes: '10', lateCutoffMinutes: '30' })
       setShowCreateForm(false)
       setError('')
 
@@ -204,6 +215,37 @@ export default function CoursesPage() {
                     placeholder="예: 제1자연관 501호"
                   />
                 </div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      출석 인정 시간 (분)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={180}
+                      value={formData.lateGraceMinutes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, lateGraceMinutes: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">수업 시작 후 이 시간까지는 출석으로 처리됩니다.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      지각 인정 시간 (분)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={180}
+                      value={formData.lateCutoffMinutes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, lateCutoffMinutes: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      placeholder="비워두면 마감 없음"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">이 시간이 지나면 결석으로 처리됩니다.</p>
+                  </div>
+                </div>
                 <div className="flex space-x-3">
                   <Button type="submit">강의 생성</Button>
                   <Button type="button" variant="secondary" onClick={() => setShowCreateForm(false)}>
@@ -215,6 +257,24 @@ export default function CoursesPage() {
           </Card>
         )}
 
+        {rosterCourse && (
+          <RosterImport
+            key={rosterCourse.id}
+            courseId={rosterCourse.id}
+            courseName={rosterCourse.name}
+            onClose={() => setRosterCourse(null)}
+          />
+        )}
+
+        {summaryCourse && (
+          <CourseAttendanceSummary
+            key={summaryCourse.id}
+            courseId={summaryCourse.id}
+            courseName={summaryCourse.name}
+            onClose={() => setSummaryCourse(null)}
+          />
+        )}
+
         {/* Courses List */}
         {isLoading ? (
           <div className="text-center py-8">
@@ -244,6 +304,14 @@ export default function CoursesPage() {
                     <div className="flex items-center">
                       <span>📊 {course.totalSessions}개 세션</span>
                     </div>
+                    {course.lateGraceMinutes != null && (
+                      <div className="flex items-center">
+                        <span>
+                          ⏰ 출석 {course.lateGraceMinutes}분
+                          {course.lateCutoffMinutes != null ? ` · 지각 ${course.lateCutoffMinutes}분` : ' · 지각 마감 없음'}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex space-x-2">
@@ -261,6 +329,20 @@ export default function CoursesPage() {
                     >
                       QR생성
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRosterCourse(course)}
+                    >
+                      명단
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSummaryCourse(course)}
+                    >
+                      출석 현황
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
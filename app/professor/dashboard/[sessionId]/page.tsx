@@ -3,11 +3,28 @@
 import { useEffect, useState, useCallback } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
-import { Card, CardHeader, CardTitle, CardContent, Badge, LoadingPage } from '@/components/ui'
+import { Card, CardHeader, CardTitle, CardContent, Badge, Button, LoadingPage } from '@/components/ui'
+import {
+  AttendanceAuditHistory,
+  AttendanceOverrideForm,
+  LeftEarlyEvidence,
+  SharedDeviceFlags,
+  type AttendanceAuditItem,
+  type LeftEarlyDecisionItem,
+  type SharedDeviceFlagItem
+} from '@/components/attendance'
 
-// ✅ Realtime 사용으로 인한 동적 렌더링 필요
+// ✅ 실시간 이벤트 스트림 사용으로 인한 동적 렌더링 필요
 export const dynamic = 'force-dynamic'
 
+interface SessionStreamEvent {
+  attendanceId?: string
+  studentId?: string
+  status?: string
+  lastHeartbeatAt?: string
+  signalLost?: Array<{ attendanceId: string; studentId: string; lastHeartbeatAt?: string }>
+}
+
 interface AttendanceStatus {
   session: {
     id: string
@@ -25,6 +42,8 @@ interface AttendanceStatus {
     late: number
     left_early: number
     absent: number
+    signal_lost?: number
+    needs_review?: number
     attendance_rate: string
   }
   attendances: Array<{
@@ -36,8 +55,12 @@ interface AttendanceStatus {
     }
     status: 'present' | 'absent' | 'late' | 'left_early'
     check_in_time?: string
+    late_minutes?: number | null
     location_verified: boolean
     last_updated: string
+    last_seen_at?: string | null
+    signal_lost?: boolean
+    needs_review?: boolean
   }>
   recent_locations: Array<{
     latitude: number
@@ -58,6 +81,19 @@ export default function AttendanceDashboard() {
   const [loadingData, setLoadingData] = useState(true)
   const [error, setError] = useState<string>('')
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
+  const [auditEntries, setAuditEntries] = useState<AttendanceAuditItem[]>([])
+  const [leftEarlyDecisions, setLeftEarlyDecisions] = useState<LeftEarlyDecisionItem[]>([])
+  const [deviceFlags, setDeviceFlags] = useState<SharedDeviceFlagItem[]>([])
+  const [overrideOpen, setOverrideOpen] = useState(false)
+  const [streamConnected, setStreamConnected] = useState(false)
+  const [sessionEnded, setSessionEnded] = useState(false)
+  // heartbeat 가 끊긴 출석 기록 (attendanceId → 마지막 heartbeat 시각, 모르면 null)
+  const [signalGaps, setSignalGaps] = useState<Record<string, string | null>>({})
+  const [overrideTarget, setOverrideTarget] = useState<{
+    studentId: string
+    name: string
+    status: 'present' | 'absent' | 'late' | 'left_early'
+  } | null>(null)
 
   const fetchAttendanceStatus = useCallback(async () => {
     try {
@@ -79,6 +115,49 @@ export default function AttendanceDashboard() {
     }
   }, [sessionId])
 
+  // 출석 상태 수동 변경/이의 신청 승인 이력
+  const fetchAuditLog = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/audit-log`)
+      if (!response.ok) return
+      const data = await response.json()
+      setAuditEntries(data.entries ?? [])
+    } catch (error: unknown) {
+      console.error('출석 변경 이력 조회 실패:', error)
+    }
+  }, [sessionId])
+
+  // 위치 궤적 기반 조퇴 판정 근거
+  const fetchLeftEarlyDecisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/left-early-decisions`)
+      if (!response.ok) return
+      const data = await response.json()
+      setLeftEarlyDecisions(data.decisions ?? [])
+    } catch (error: unknown) {
+      console.error('조퇴 판정 근거 조회 실패:', error)
+    }
+  }, [sessionId])
+
+  // 한 기기에서 여러 학생이 체크인한 기록 (대리 출석 의심)
+  const fetchDeviceFlags = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/device-flags`)
+      if (!response.ok) return
+      const data = await response.json()
+      setDeviceFlags(data.flags ?? [])
+    } catch (error: unknown) {
+      console.error('공유 기기 기록 조회 실패:', error)
+    }
+  }, [sessionId])
+
+  const handleOverrideSaved = useCallback(() => {
+    setOverrideOpen(false)
+    setOverrideTarget(null)
+    fetchAttendanceStatus()
+    fetchAuditLog()
+  }, [fetchAttendanceStatus, fetchAuditLog])
+
   useEffect(() => {
     if (loading || !user || user.role !== 'professor') {
       return
@@ -86,46 +165,108 @@ export default function AttendanceDashboard() {
 
     // 초기 데이터 로드
     fetchAttendanceStatus()
+    fetchAuditLog()
+    fetchLeftEarlyDecisions()
+    fetchDeviceFlags()
+
+    // ✅ 세션 이벤트 스트림 (SSE) - Supabase Realtime 없이 동작, 끊기면 브라우저가 Last-Event-ID 로 재연결
+    let eventSource: EventSource | null = null
+    let lastEventId = ''
+    let stopped = false
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+    // 체크인이 몰릴 때 한 번만 다시 조회
+    const scheduleRefresh = () => {
+      if (refreshTimer) return
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null
+        fetchAttendanceStatus()
+        fetchAuditLog()
+        fetchLeftEarlyDecisions()
+        fetchDeviceFlags()
+      }, 500)
+    }
 
-    let channelName: string | null = null
-    let trackerModule: any = null
-
-    // ✅ Supabase Realtime 구독 설정 (동적 import)
-    import('@/lib/realtime/supabase-tracker').then(({ getRealtimeTracker }) => {
-      trackerModule = getRealtimeTracker()
-
-      channelName = trackerModule.subscribeToSessionAttendance(
-        sessionId,
-        (payload: any) => {
-          console.log('🔄 [Realtime] 출석 상태 변경 감지:', payload.eventType)
-          // 실시간 업데이트 시 데이터 다시 가져오기
-          fetchAttendanceStatus()
-        },
-        (error: unknown) => {
-          console.error('❌ [Realtime] 구독 오류:', error)
+    const readEvent = (event: Event) => {
+      const message = event as MessageEvent<string>
+      lastEventId = message.lastEventId || lastEventId
+      return JSON.parse(message.data) as SessionStreamEvent
+    }
+
+    const clearGap = (attendanceId?: string) => {
+      if (!attendanceId) return
+      setSignalGaps((prev) => {
+        if (!(attendanceId in prev)) return prev
+        const next = { ...prev }
+        delete next[attendanceId]
+        return next
+      })
+    }
+
+    const connect = () => {
+      const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''
+      const source = new EventSource(`/api/sessions/${sessionId}/events${query}`)
+      eventSource = source
+
+      source.onopen = () => setStreamConnected(true)
+      source.onerror = () => {
+        setStreamConnected(false)
+        // 401 등으로 브라우저가 재연결을 포기한 경우 (토큰 갱신 후) 직접 다시 연결
+        if (source.readyState === EventSource.CLOSED && !stopped) {
+          reconnectTimer = setTimeout(connect, 5000)
         }
-      )
-    }).catch(error => {
-      console.error('❌ [Realtime] import 에러:', error)
-    })
+      }
 
-    // 정리 함수: 컴포넌트 언마운트 시 구독 해제
-    return () => {
-      if (channelName) {
-        console.log('🔕 [Session Dashboard] Realtime 구독 해제:', channelName)
-
-        if (trackerModule) {
-          trackerModule.unsubscribe(channelName)
-        } else {
-          // tracker가 아직 로드되지 않았다면 동기적으로 import하여 정리
-          import('@/lib/realtime/supabase-tracker').then(({ getRealtimeTracker }) => {
-            const tracker = getRealtimeTracker()
-            tracker.unsubscribe(channelName!)
-          })
+      source.addEventListener('ready', (event) => {
+        const data = readEvent(event)
+        setSignalGaps(Object.fromEntries((data.signalLost ?? []).map((item) => [item.attendanceId, item.lastHeartbeatAt ?? null])))
+      })
+      source.addEventListener('checkin', (event) => {
+        readEvent(event)
+        scheduleRefresh()
+      })
+      source.addEventListener('status_change', (event) => {
+        const data = readEvent(event)
+        if (data.status !== 'present' && data.status !== 'late') {
+          clearGap(data.attendanceId)
         }
+        scheduleRefresh()
+      })
+      source.addEventListener('heartbeat_gap', (event) => {
+        const data = readEvent(event)
+        if (data.attendanceId) {
+          setSignalGaps((prev) => ({ ...prev, [data.attendanceId as string]: data.lastHeartbeatAt ?? null }))
+        }
+      })
+      source.addEventListener('heartbeat_resumed', (event) => {
+        clearGap(readEvent(event).attendanceId)
+      })
+      source.addEventListener('session_end', () => {
+        console.log('🔕 [Session Dashboard] 세션 종료, 이벤트 스트림 닫음')
+        stopped = true
+        source.close()
+        setStreamConnected(false)
+        setSessionEnded(true)
+        setSignalGaps({})
+        scheduleRefresh()
+      })
+    }
+
+    connect()
+
+    // 정리 함수: 컴포넌트 언마운트 시 스트림 종료
+    return () => {
+      stopped = true
+      eventSource?.close()
+      if (refreshTimer) {
+        clearTimeout(refreshTimer)
+      }
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
       }
     }
-  }, [sessionId, loading, user, fetchAttendanceStatus])
+  }, [sessionId, loading, user, fetchAttendanceStatus, fetchAuditLog, fetchLeftEarlyDecisions, fetchDeviceFlags])
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -218,6 +359,13 @@ export default function AttendanceDashboard() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              {sessionEnded ? (
+                <Badge variant="secondary">세션 종료</Badge>
+              ) : (
+                <Badge variant={streamConnected ? 'success' : 'warning'}>
+                  {streamConnected ? '실시간 연결됨' : '재연결 중'}
+                </Badge>
+              )}
               <div className="text-sm text-gray-600">
                 <span>마지막 업데이트: {formatTime(lastUpdated.toISOString())}</span>
               </div>
@@ -319,7 +467,19 @@ export default function AttendanceDashboard() {
         {/* Attendance List */}
         <Card>
           <CardHeader>
-            <CardTitle>학생별 출석 현황</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>학생별 출석 현황</CardTitle>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  setOverrideTarget(null)
+                  setOverrideOpen(true)
+                }}
+              >
+                학번으로 상태 변경
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             {attendanceData.attendances.length > 0 ? (
@@ -345,6 +505,9 @@ export default function AttendanceDashboard() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         마지막 업데이트
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        관리
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -360,6 +523,17 @@ export default function AttendanceDashboard() {
                           <Badge variant={getStatusColor(attendance.status)}>
                             {getStatusText(attendance.status)}
                           </Badge>
+                          {attendance.late_minutes ? (
+                            <span className="ml-2 text-xs text-warning-600">{attendance.late_minutes}분 늦음</span>
+                          ) : null}
+                          {(streamConnected ? attendance.id in signalGaps : attendance.signal_lost) ? (
+                            <span className="ml-2 text-xs text-error-600">
+                              📡 신호 끊김{(signalGaps[attendance.id] ?? attendance.last_seen_at) ? ` (${formatTime((signalGaps[attendance.id] ?? attendance.last_seen_at) as string)}부터)` : ''}
+                            </span>
+                          ) : null}
+                          {attendance.needs_review ? (
+                            <Badge variant="warning" className="ml-2">확인 필요</Badge>
+                          ) : null}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {attendance.check_in_time ? formatTime(attendance.check_in_time) : '-'}
@@ -382,7 +556,23 @@ export default function AttendanceDashboard() {
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {formatTime(attendance.last_updated)}
+                          {formatTime(attendance.last_seen_at ?? attendance.last_updated)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setOverrideTarget({
+                                studentId: attendance.student.student_id,
+                                name: attendance.student.name,
+                                status: attendance.status
+                              })
+                              setOverrideOpen(true)
+                            }}
+                          >
+                            상태 변경
+                          </Button>
                         </td>
                       </tr>
                     ))}
@@ -399,6 +589,53 @@ export default function AttendanceDashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* Manual Override */}
+        {overrideOpen && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle>출석 상태 수동 변경</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AttendanceOverrideForm
+                sessionId={sessionId}
+                student={overrideTarget}
+                onSaved={handleOverrideSaved}
+                onCancel={() => setOverrideOpen(false)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Shared Device Flags */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>공유 기기 체크인</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SharedDeviceFlags flags={deviceFlags} />
+          </CardContent>
+        </Card>
+
+        {/* Audit History */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>출석 상태 변경 이력</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AttendanceAuditHistory entries={auditEntries} />
+          </CardContent>
+        </Card>
+
+        {/* Left Early Evidence */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>조퇴 판정 근거</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LeftEarlyEvidence decisions={leftEarlyDecisions} />
+          </CardContent>
+        </Card>
       </div>
     </div>
   )
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+import { AppealQueue } from '@/components/attendance'
 
 // ✅ Realtime 사용으로 인한 동적 렌더링 필요
 export const dynamic = 'force-dynamic'
@@ -13,6 +14,7 @@ interface AttendanceStudent {
   name: string
   status: 'present' | 'late' | 'absent'
   checkInTime: string | null
+  lateMinutes: number | null
   locationVerified: boolean
 }
 
@@ -333,6 +335,9 @@ export default function ProfessorDashboardPage() {
           </Card>
         )}
 
+        {/* Attendance Appeals */}
+        <AppealQueue />
+
         {/* Active Sessions */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -422,6 +427,9 @@ export default function ProfessorDashboardPage() {
                                     {formatDateTime(student.checkInTime)}
                                   </span>
                                 )}
+                                {student.lateMinutes ? (
+                                  <span className="text-xs text-warning-600">{student.lateMinutes}분 늦음</span>
+                                ) : null}
                                 {getStatusBadge(student.status)}
                               </div>
                             </div>
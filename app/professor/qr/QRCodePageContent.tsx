@@ -15,6 +15,7 @@ export default function QRCodePageContent() {
   const [courses, setCourses] = useState<Course[]>([])
   const [selectedCourse, setSelectedCourse] = useState('')
   const [qrData, setQrData] = useState<QRCodeData | null>(null)
+  const [qrRotation, setQrRotation] = useState<{ rotationSeconds?: number; rotatesAt?: string }>({})
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState('')
   const [locationData, setLocationData] = useState<LocationData | null>(null)
@@ -54,7 +55,9 @@ export default function QRCodePageContent() {
             latitude: locationData.latitude,
             longitude: locationData.longitude,
             radius: locationData.radius,
-            address: locationData.displayName ?? undefined
+            address: locationData.displayName ?? undefined,
+            geofence: locationData.geofence,
+            geofenceBuffer: locationData.geofenceBuffer
           }
         })
       })
@@ -62,7 +65,7 @@ export default function QRCodePageContent() {
       if (!raw) {
         throw new Error(`서버 응답이 비어 있습니다. 상태코드: ${response.status}. 환경변수 및 권한 설정을 확인하세요.`)
       }
-      let result: { success: true; session: { qrCode: string; qrCodeExpiresAt: string; id: string; courseId: string } } | { error: string }
+      let result: { success: true; session: { qrCode: string; qrCodeExpiresAt: string; qrRotationSeconds?: number; qrRotatesAt?: string; id: string; courseId: string } } | { error: string }
       try {
         result = JSON.parse(raw)
       } catch {
@@ -78,6 +81,10 @@ export default function QRCodePageContent() {
 
       console.log('🎯 [Session Create] API 응답 세션:', result.session)
       console.log('🔍 [Session Create] sessionId:', parsed.sessionId)
+      setQrRotation({
+        rotationSeconds: result.session.qrRotationSeconds,
+        rotatesAt: result.session.qrRotatesAt
+      })
       setQrData({
         ...parsed,
         expiresAt: result.session.qrCodeExpiresAt
@@ -174,6 +181,8 @@ export default function QRCodePageContent() {
             {qrData ? (
               <QRCodeDisplay
                 qrData={qrData}
+                rotationSeconds={qrRotation.rotationSeconds}
+                rotatesAt={qrRotation.rotatesAt}
                 onRefresh={handleRefreshQR}
                 onExpire={handleExpiredQR}
                 onEndSession={handleEndSession}
@@ -197,6 +197,26 @@ export default function ProfessorStatisticsPage() {
               ))}
             </select>
           </div>
+
+          {selectedCourse !== 'all' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">출석부 내보내기</label>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/courses/${selectedCourse}/attendance/export?format=xlsx`}
+                  className="inline-flex items-center rounded-md bg-primary-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-primary-700"
+                >
+                  Excel (.xlsx)
+                </a>
+                <a
+                  href={`/api/courses/${selectedCourse}/attendance/export?format=csv`}
+                  className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+                >
+                  CSV
+                </a>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Error State */}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/lib/auth-context'
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+import { AppealForm } from '@/components/attendance'
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
 import { createHeartbeatManager, type HeartbeatCallback } from '@/lib/realtime/heartbeat-manager'
@@ -43,6 +44,8 @@ export default function AttendancePage() {
   const [trackingStatus, setTrackingStatus] = useState<'in_range' | 'out_of_range' | 'checking'>('checking')
   const [lastLocationUpdate, setLastLocationUpdate] = useState<Date | null>(null)
   const [sessionEnded, setSessionEnded] = useState(false)
+  // 체크인 기록 없이 종료된 수업 (세션 기준으로 결석 이의 신청 가능)
+  const [missingRecordAbsent, setMissingRecordAbsent] = useState(false)
   const [heartbeatManager, setHeartbeatManager] = useState<ReturnType<typeof createHeartbeatManager> | null>(null)
 
   // Heartbeat 추적 중지
@@ -164,6 +167,11 @@ export default function AttendancePage() {
     [isTracking, heartbeatManager, handleHeartbeatUpdate, sessionId]
   )
 
+  // 이의 신청 승인으로 출석 상태가 바뀐 경우 반영
+  const handleAppealStatusChange = useCallback((status: 'present' | 'late') => {
+    setAttendanceData(prev => (prev ? { ...prev, status } : prev))
+  }, [])
+
   const fetchSessionData = useCallback(async () => {
     try {
       const sessionResponse = await fetch(`/api/sessions/${sessionId}`)
@@ -202,6 +210,8 @@ export default function AttendancePage() {
         if (attendancePayload.session.isActive && attendancePayload.attendance.status === 'present') {
           await startHeartbeatTracking(attendancePayload.attendance.id)
         }
+      } else if (attendanceResponse.ok && attendancePayload.session.status === 'ended') {
+        setMissingRecordAbsent(true)
       }
 
       if (!attendancePayload.session.isActive) {
@@ -329,6 +339,30 @@ export default function AttendancePage() {
                 </div>
               )}
 
+              {attendanceData && (attendanceData.status === 'absent' || attendanceData.status === 'left_early') && (
+                <AppealForm
+                  attendanceId={attendanceData.id}
+                  sessionId={sessionId}
+                  attendanceStatus={attendanceData.status}
+                  onStatusChange={handleAppealStatusChange}
+                />
+              )}
+
+              {!attendanceData && missingRecordAbsent && (
+                <>
+                  <div className="p-4 rounded-lg bg-red-50">
+                    <h3 className="font-semibold text-red-900">출석 상태: ❌ 결석</h3>
+                    <p className="text-sm text-red-800 mt-1">체크인 기록이 없어 결석으로 처리되었습니다.</p>
+                  </div>
+                  <AppealForm
+                    attendanceId={null}
+                    sessionId={sessionId}
+                    attendanceStatus="absent"
+                    onStatusChange={handleAppealStatusChange}
+                  />
+                </>
+              )}
+
               {sessionEnded && sessionData && (
                 <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
                   <h3 className="font-semibold text-gray-700">
@@ -336,7 +370,7 @@ export default function AttendancePage() {
                   </h3>
                   <p className="text-sm text-gray-600 mt-1">
                     {sessionData.autoEnded
-                      ? '수업 시작 후 2시간이 지남에 따라 자동으로 종료되었습니다.'
+                      ? '수업 종료 시각이 지나 자동으로 종료되었습니다.'
                       : '교수님이 수업을 종료하여 위치 추적이 중지되었습니다.'}
                     {' '}출석 상태가 최종 확정되었습니다.
                   </p>
@@ -16,12 +16,25 @@ interface AttendanceRecord {
   locationVerified: boolean
 }
 
+interface CourseSummary {
+  courseId: string
+  courseName: string
+  courseCode: string
+  stats: { total: number; present: number; late: number; absent: number; left_early: number; attendance_rate: number }
+  currentAbsenceStreak: number
+  effectiveAbsences: number
+  absenceRatio: number
+  atRisk: boolean
+}
+
 export default function AttendanceStatusPage() {
   const router = useRouter()
   const { user, loading } = useAuth()
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string>('')
+  const [courseSummaries, setCourseSummaries] = useState<CourseSummary[]>([])
+  const [absenceRatioThreshold, setAbsenceRatioThreshold] = useState(0.25)
 
   useEffect(() => {
     const fetchAttendanceRecords = async () => {
@@ -54,7 +67,26 @@ export default function AttendanceStatusPage() {
       }
     }
 
+    const fetchCourseSummaries = async () => {
+      if (!user || user.role !== 'student' || loading) {
+        return
+      }
+
+      try {
+        const response = await fetch('/api/attendance/student/summary')
+        if (!response.ok) {
+          return
+        }
+        const data = await response.json()
+        setCourseSummaries(data.courses || [])
+        setAbsenceRatioThreshold(data.absenceRatioThreshold)
+      } catch (error: unknown) {
+        console.error('Fetch attendance summary error:', error)
+      }
+    }
+
     fetchAttendanceRecords()
+    fetchCourseSummaries()
   }, [user, loading])
 
   const getStatusBadge = (status: string) => {
@@ -207,6 +239,48 @@ export default function AttendanceStatusPage() {
           </Card>
         )}
 
+        {/* Course Summaries */}
+        {courseSummaries.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>강의별 출석</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-gray-200">
+                {courseSummaries.map((summary) => (
+                  <div key={summary.courseId} className="p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-medium text-gray-900">{summary.courseName}</h3>
+                        {summary.atRisk && <Badge variant="error">결석 위험</Badge>}
+                      </div>
+                      <span className="text-sm font-medium">{summary.stats.attendance_rate}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                      <div
+                        className={`${summary.atRisk ? 'bg-error-600' : 'bg-success-600'} h-2 rounded-full transition-all duration-300`}
+                        style={{ width: `${summary.stats.attendance_rate}%` }}
+                      ></div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {summary.courseCode} • 수업 {summary.stats.total}회 • 출석 {summary.stats.present} • 지각 {summary.stats.late}
+                      {' '}• 결석 {summary.stats.absent} • 조퇴 {summary.stats.left_early}
+                    </p>
+                    {summary.currentAbsenceStreak >= 2 && (
+                      <p className="text-xs text-error-600 mt-1">최근 {summary.currentAbsenceStreak}회 연속 결석</p>
+                    )}
+                    {summary.atRisk && (
+                      <p className="text-xs text-error-600 mt-1">
+                        결석이 수업의 {Math.round(absenceRatioThreshold * 100)}% 이상입니다. 담당 교수님과 상의하세요.
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Error State */}
         {error && (
           <Card className="mb-8">
@@ -0,0 +1,343 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Input, LoadingPage } from '@/components/ui'
+import PredefinedLocations, { type LocationOption } from '@/components/location/PredefinedLocations'
+import { UnifiedSensorManager } from '@/lib/sensors/sensor-manager'
+import { calibratePDR, type PDRCalibration } from '@/lib/pdr/pdr-calibration'
+import { CALIBRATION_CONFIG } from '@/lib/config/pdr-config'
+import { calculateDistance } from '@/lib/utils/geo'
+
+type DistanceMode = 'hallway' | 'locations'
+type WalkState = 'idle' | 'walking' | 'done'
+
+export default function PDRCalibrationPage() {
+  const router = useRouter()
+  const { user, loading } = useAuth()
+  const [saved, setSaved] = useState<PDRCalibration | null>(null)
+  const [supported, setSupported] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [mode, setMode] = useState<DistanceMode>('hallway')
+  const [hallwayDistance, setHallwayDistance] = useState<string>(String(CALIBRATION_CONFIG.defaultDistance))
+  const [startLocation, setStartLocation] = useState<LocationOption | null>(null)
+  const [endLocation, setEndLocation] = useState<LocationOption | null>(null)
+  const [walkState, setWalkState] = useState<WalkState>('idle')
+  const [sampleCount, setSampleCount] = useState(0)
+  const [result, setResult] = useState<PDRCalibration | null>(null)
+  const [error, setError] = useState<string>('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const sensorManagerRef = useRef<UnifiedSensorManager | null>(null)
+
+  const distance = mode === 'hallway'
+    ? Number(hallwayDistance)
+    : startLocation && endLocation
+      ? calculateDistance(startLocation.latitude, startLocation.longitude, endLocation.latitude, endLocation.longitude)
+      : Number.NaN
+  const distanceValid = Number.isFinite(distance) &&
+    distance >= CALIBRATION_CONFIG.minDistance &&
+    distance <= CALIBRATION_CONFIG.maxDistance
+
+  useEffect(() => {
+    if (!user || user.role !== 'student' || loading) {
+      return
+    }
+
+    const fetchCalibration = async () => {
+      try {
+        const response = await fetch('/api/student/pdr-calibration')
+        if (!response.ok) {
+          throw new Error('보정 정보를 가져오는데 실패했습니다.')
+        }
+        const data = await response.json()
+        setSaved(data.calibration ?? null)
+        setSupported(data.supported !== false)
+      } catch (err) {
+        console.error('PDR 보정 정보 조회 실패:', err)
+        setError(err instanceof Error ? err.message : '보정 정보를 가져오는데 실패했습니다.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    void fetchCalibration()
+  }, [user, loading])
+
+  const releaseSensors = useCallback(() => {
+    sensorManagerRef.current?.stopTracking()
+    sensorManagerRef.current?.destroy()
+    sensorManagerRef.current = null
+  }, [])
+
+  useEffect(() => releaseSensors, [releaseSensors])
+
+  // 출발 지점에서 시작: 센서 권한 요청(iOS 는 사용자 제스처 필요) 후 기록 시작
+  const startWalk = async () => {
+    setError('')
+    setResult(null)
+    setSampleCount(0)
+
+    try {
+      const manager = new UnifiedSensorManager({ frequency: 60 })
+      const initialized = await manager.initialize()
+      if (!initialized) {
+        throw new Error('이 기기에서 동작 센서를 사용할 수 없습니다.')
+      }
+
+      manager.startTracking(
+        () => setSampleCount((count) => count + 1),
+        (sensorError) => setError(sensorError.message)
+      )
+      manager.startRecording({ description: `PDR 보정 ${distance.toFixed(1)}m` })
+      sensorManagerRef.current = manager
+      setWalkState('walking')
+    } catch (err) {
+      releaseSensors()
+      setError(err instanceof Error ? err.message : '센서 시작에 실패했습니다.')
+    }
+  }
+
+  // 도착 지점에서 종료: 기록으로 보정 값 계산
+  const finishWalk = () => {
+    const recorder = sensorManagerRef.current?.stopRecording() ?? null
+    releaseSensors()
+    setWalkState('done')
+
+    if (!recorder) {
+      setError('센서 기록이 없습니다. 다시 시도해주세요.')
+      return
+    }
+
+    try {
+      setResult(calibratePDR(recorder.getTrace(), distance))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '보정 값 계산에 실패했습니다.')
+    }
+  }
+
+  const saveResult = async () => {
+    if (!result) return
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/student/pdr-calibration', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || '보정 값 저장에 실패했습니다.')
+      }
+      setSaved(data.calibration)
+      setResult(null)
+      setWalkState('idle')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '보정 값 저장에 실패했습니다.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const resetCalibration = async () => {
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/student/pdr-calibration', { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || '보정 값 삭제에 실패했습니다.')
+      }
+      setSaved(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '보정 값 삭제에 실패했습니다.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (loading || !user || user.role !== 'student') {
+    return <LoadingPage message="로딩 중..." />
+  }
+
+  if (isLoading) {
+    return <LoadingPage message="보정 정보를 불러오는 중..." />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="border-b border-gray-200 bg-white">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.back()}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">
+                걸음 보정
+              </h1>
+            </div>
+            <div className="text-sm text-gray-600">
+              <span className="font-medium">{user.name}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>현재 보정 값</CardTitle>
+              {saved ? <Badge variant="success">보정됨</Badge> : <Badge variant="secondary">기본값</Badge>}
+            </div>
+            <CardDescription>
+              실내에서 GPS 가 약할 때 걸음 수와 걸음 길이로 위치를 추정합니다. 내 걸음에 맞게 보정하면 더 정확해집니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {saved ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-4 text-center text-sm">
+                  <div>
+                    <div className="text-lg font-semibold text-gray-900">{(saved.averageStepLength * 100).toFixed(0)}cm</div>
+                    <div className="text-gray-500">평균 걸음 길이</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-semibold text-gray-900">{saved.cadence.toFixed(1)}</div>
+                    <div className="text-gray-500">초당 걸음</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-semibold text-gray-900">{saved.distance.toFixed(0)}m</div>
+                    <div className="text-gray-500">보정 거리</div>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>{new Date(saved.calibratedAt).toLocaleString('ko-KR')} 보정</span>
+                  <Button variant="ghost" size="sm" onClick={resetCalibration} disabled={isSaving}>
+                    기본값으로 되돌리기
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">아직 보정하지 않아 평균 성인 기준 값을 사용합니다.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>걸어서 보정하기</CardTitle>
+            <CardDescription>
+              거리를 아는 구간을 휴대폰을 손에 든 채 평소 속도로 곧게 걸어 주세요.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!supported && (
+              <div className="text-sm text-warning-700 bg-warning-50 border border-warning-200 rounded-lg p-3">
+                서버에 보정 값을 저장할 수 없는 상태입니다. 관리자에게 문의해주세요.
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant={mode === 'hallway' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setMode('hallway')}
+                disabled={walkState === 'walking'}
+              >
+                직접 잰 복도
+              </Button>
+              <Button
+                variant={mode === 'locations' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setMode('locations')}
+                disabled={walkState === 'walking'}
+              >
+                등록된 두 위치 사이
+              </Button>
+            </div>
+
+            {mode === 'hallway' ? (
+              <Input
+                label="걸을 거리 (m)"
+                type="number"
+                inputMode="decimal"
+                min={CALIBRATION_CONFIG.minDistance}
+                max={CALIBRATION_CONFIG.maxDistance}
+                value={hallwayDistance}
+                onChange={(e) => setHallwayDistance(e.target.value)}
+                disabled={walkState === 'walking'}
+                helperText={`줄자로 잰 ${CALIBRATION_CONFIG.minDistance}~${CALIBRATION_CONFIG.maxDistance}m 구간 (기본 ${CALIBRATION_CONFIG.defaultDistance}m)`}
+              />
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 mb-2">출발 위치</p>
+                  <PredefinedLocations onLocationSelect={setStartLocation} disabled={walkState === 'walking'} />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-900 mb-2">도착 위치</p>
+                  <PredefinedLocations onLocationSelect={setEndLocation} disabled={walkState === 'walking'} />
+                </div>
+              </div>
+            )}
+
+            <div className="text-sm text-gray-600">
+              보정 거리: {Number.isFinite(distance) ? `${distance.toFixed(1)}m` : '-'}
+              {Number.isFinite(distance) && !distanceValid && (
+                <span className="ml-2 text-error-600">
+                  ({CALIBRATION_CONFIG.minDistance}~{CALIBRATION_CONFIG.maxDistance}m 사이여야 합니다)
+                </span>
+              )}
+            </div>
+
+            {walkState === 'walking' ? (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  걷는 중... 센서 데이터 {sampleCount}개. 도착 지점에 멈춰 서면 버튼을 누르세요.
+                </p>
+                <Button className="w-full" onClick={finishWalk}>
+                  도착
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={startWalk} disabled={!distanceValid || !supported}>
+                출발 지점에서 시작
+              </Button>
+            )}
+
+            {result && (
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <p className="text-sm text-gray-900">
+                  {result.steps}걸음, 평균 걸음 길이 {(result.averageStepLength * 100).toFixed(0)}cm,
+                  초당 {result.cadence.toFixed(1)}걸음
+                </p>
+                <Button className="w-full" onClick={saveResult} disabled={isSaving}>
+                  {isSaving ? '저장 중...' : '이 값으로 저장'}
+                </Button>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-sm text-error-600 bg-error-50 border border-error-200 rounded-lg p-3">
+                {error}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
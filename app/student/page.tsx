@@ -90,6 +90,27 @@ export default function StudentPage() {
               </Button>
             </CardContent>
           </Card>
+
+          <Card className="transition-all duration-200 hover:shadow-medium">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-warning-100 rounded-lg">
+                  <svg className="w-6 h-6 text-warning-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                  </svg>
+                </div>
+                <CardTitle>걸음 보정</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600 mb-4">
+                짧은 거리를 걸어 실내 위치 추적을 내 걸음에 맞추세요.
+              </p>
+              <Button variant="secondary" className="w-full" onClick={() => window.location.href = '/student/calibration'}>
+                걸음 보정하기
+              </Button>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Today's Classes */}
@@ -7,17 +7,35 @@ import { QRCodeScannerNative } from '@/components/qr/QRCodeScannerNative'
 import { QRCodeData } from '@/lib/qr/qr-generator'
 import { GPSKalmanFilter, analyzeFilteringEffect } from '@/lib/utils/gps-filter'
 import { EnvironmentDetector } from '@/lib/fusion/environment-detector'
+import { ProximityScanner, createDefaultProximitySources, type ProximityObservation } from '@/lib/fusion/proximity-source'
+import { getNetworkType } from '@/lib/device/device-fingerprint'
+import { postCheckInWithRetry, requestCheckInTicket } from '@/lib/attendance/checkin-retry'
+import { swManager } from '@/lib/service-worker/sw-manager'
+import { enqueueCheckIn, isOfflineQueueSupported, listQueuedCheckIns } from '@/lib/service-worker/offline-checkin-queue'
 
 type CheckInResult = {
   success?: boolean
   sessionId?: string
   attendanceId?: string
   message?: string
+  status?: 'present' | 'late'
+  lateMinutes?: number
   retryAfterSeconds?: number
   code?: string
+  /** 네트워크가 없어 오프라인 대기열에 저장됨 */
+  queued?: boolean
 }
 import { Card, CardHeader, CardTitle, CardContent, Button, LoadingPage } from '@/components/ui'
 
+// 다른 배포 도메인의 QR을 스캔한 경우 서명 토큰을 유지한 채 해당 도메인으로 이동
+function buildScanRedirectUrl(qrData: QRCodeData): string {
+  const params = new URLSearchParams({ sessionId: qrData.sessionId })
+  if (qrData.token) {
+    params.set('token', qrData.token)
+  }
+  return `${qrData.baseUrl}/student/scan?${params.toString()}`
+}
+
 export default function ScanPage() {
   return (
     <Suspense fallback={<div className="min-h-screen bg-gray-50" />}>
@@ -33,14 +51,20 @@ function ScanPageContent() {
   const [processing, setProcessing] = useState(false)
   const [error, setError] = useState<string>('')
   const [success, setSuccess] = useState(false)
+  const [successMessage, setSuccessMessage] = useState('')
+  const [queued, setQueued] = useState(false)
   const [announcement, setAnnouncement] = useState('')
   const searchParams = useSearchParams()
   const sessionIdParam = searchParams.get('sessionId')
+  const qrTokenParam = searchParams.get('token')
   const hasProcessedSessionRef = useRef(false)
   const correlationIdRef = useRef<string>('')
+  const scannedAtRef = useRef<string>('')
+  const checkInTicketRef = useRef<string | null>(null)
   const liveRegionRef = useRef<HTMLDivElement | null>(null)
   const gpsFilterRef = useRef<GPSKalmanFilter | null>(null)
   const environmentDetectorRef = useRef<EnvironmentDetector | null>(null)
+  const proximityScannerRef = useRef<ProximityScanner | null>(null)
 
   const announce = useCallback((message: string) => {
     setAnnouncement(message)
@@ -68,6 +92,12 @@ function ScanPageContent() {
       environmentDetectorRef.current = new EnvironmentDetector()
     }
 
+    // 비콘/AP 근접 스캔 (지원되는 브라우저만, GPS 샘플링 동안 관측 수집)
+    if (!proximityScannerRef.current) {
+      proximityScannerRef.current = new ProximityScanner(createDefaultProximitySources())
+    }
+    const proximityScanning = proximityScannerRef.current.start()
+
     // 3회 샘플링하여 평균 계산
     const samples: Array<{ lat: number; lng: number; accuracy: number }> = []
     const sampleCount = 3
@@ -131,11 +161,15 @@ function ScanPageContent() {
     // 감지된 환경 정보
     const environment = environmentDetectorRef.current.getCurrentEnvironment()
 
+    // 수집된 비콘/AP 관측 (강의실 근접 지문이 있으면 서버가 위치 근거로 사용)
+    const proximity = await proximityScanning ? proximityScannerRef.current.getObservations() : []
+
     // 필터링 결과 로그
     console.log('🔬 [GPS Kalman Filter] 필터링 결과:')
     console.log(analyzeFilteringEffect(filtered))
     console.log(`📊 수집된 샘플 수: ${samples.length}`)
     console.log(`🌍 [Environment Detector] 감지된 환경: ${environment}`)
+    console.log(`📶 [Proximity] 관측된 비콘/AP: ${proximity.length}개`)
     console.log(`🎯 [좌표 선택] ${useRawCoordinates ? '원본 좌표 사용' : '필터링된 좌표 사용'} (신뢰도: ${(filtered.confidence * 100).toFixed(1)}%, 샘플: ${samples.length})`)
 
     // GPS 정확도 경고 (학술제 시연용: 경고만 표시, 에러는 던지지 않음)
@@ -162,18 +196,25 @@ function ScanPageContent() {
         speed: null
       },
       timestamp: Date.now(),
-      environment // 환경 정보 추가
-    } as GeolocationPosition & { environment: 'outdoor' | 'indoor' | 'unknown' }
+      environment, // 환경 정보 추가
+      proximity
+    } as GeolocationPosition & { environment: 'outdoor' | 'indoor' | 'unknown'; proximity: ProximityObservation[] }
   }, [announce])
 
   const performCheckIn = useCallback(async (
     qrData: QRCodeData,
     attemptNumber = 0,
-    cachedData?: { coords: GeolocationCoordinates; environment?: 'outdoor' | 'indoor' | 'unknown' }
+    cachedData?: { coords: GeolocationCoordinates; environment?: 'outdoor' | 'indoor' | 'unknown'; proximity?: ProximityObservation[] }
   ): Promise<CheckInResult> => {
+    // 위치 측정 중 QR 이 회전해도 체크인할 수 있도록 스캔 직후 티켓으로 교환 (재시도는 같은 티켓 사용)
+    if (!cachedData) {
+      checkInTicketRef.current = qrData.token ? await requestCheckInTicket(qrData.sessionId, qrData.token) : null
+    }
+
     const locationData = cachedData ?? await acquireLocation()
     const { latitude, longitude, accuracy } = locationData.coords
     const environment = locationData.environment ?? 'unknown'
+    const proximity = locationData.proximity ?? []
 
     if (qrData.courseId) {
       try {
@@ -220,18 +261,46 @@ function ScanPageContent() {
       environment,
       attemptNumber,
       correlationId: correlationIdRef.current,
-      clientTimestamp: new Date().toISOString()
+      clientTimestamp: new Date().toISOString(),
+      qrToken: qrData.token,
+      ...(checkInTicketRef.current && { checkInTicket: checkInTicketRef.current }),
+      networkType: getNetworkType(),
+      ...(proximity.length > 0 && { proximity })
     }
 
     console.log('📨 [Scan Page] API 호출 전 데이터:', checkInData)
 
-    const response = await fetch('/api/attendance/checkin', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(checkInData)
-    })
+    let response: Response
+    try {
+      // 응답을 못 받거나 일시 오류면 같은 correlationId로 지수 백오프 재시도 (서버가 첫 성공 응답을 재사용)
+      response = await postCheckInWithRetry(
+        () => ({ ...checkInData, clientTimestamp: new Date().toISOString() }),
+        undefined,
+        {
+          onRetry: (retryIndex, delayMs) => {
+            announce(`서버 응답이 없어 ${Math.ceil(delayMs / 1000)}초 후 다시 전송합니다. (${retryIndex}회)`)
+          }
+        }
+      )
+    } catch (networkError) {
+      // 캠퍼스 Wi-Fi 끊김 등으로 전송 실패 → 스캔 시각과 함께 저장했다가 서비스 워커가 재전송
+      if (!isOfflineQueueSupported()) {
+        throw networkError
+      }
+      console.warn('📴 [Scan Page] 네트워크 오류, 오프라인 대기열에 저장:', networkError)
+      await enqueueCheckIn({
+        correlationId: checkInData.correlationId,
+        sessionId: checkInData.sessionId,
+        qrToken: checkInData.qrToken ?? null,
+        latitude,
+        longitude,
+        accuracy,
+        networkType: checkInData.networkType,
+        capturedAt: scannedAtRef.current || checkInData.clientTimestamp
+      })
+      void swManager.requestCheckInReplay()
+      return { queued: true, sessionId: qrData.sessionId }
+    }
 
     const result = await response.json()
     console.log('📩 [Scan Page] API 응답:', {
@@ -273,7 +342,7 @@ function ScanPageContent() {
         const delaySeconds = typeof result.retryAfterSeconds === 'number' ? result.retryAfterSeconds : 3
         announce(`출석 확인에 잠시 시간이 필요합니다. ${delaySeconds}초 후 다시 시도합니다.`)
         await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000))
-        return performCheckIn(qrData, attemptNumber + 1, { coords: locationData.coords, environment })
+        return performCheckIn(qrData, attemptNumber + 1, { coords: locationData.coords, environment, proximity })
       }
 
       throw new Error(result?.error || '출석 체크에 실패했습니다.')
@@ -294,19 +363,26 @@ function ScanPageContent() {
     setProcessing(true)
     setError('')
     correlationIdRef.current = crypto.randomUUID()
+    scannedAtRef.current = new Date().toISOString()
     announce('QR 코드를 확인하고 있습니다...')
 
     try {
       if (typeof window !== 'undefined' && qrData.baseUrl && qrData.baseUrl !== window.location.origin) {
         setProcessing(false)
-        window.location.href = `${qrData.baseUrl}/student/scan?sessionId=${encodeURIComponent(qrData.sessionId)}`
+        window.location.href = buildScanRedirectUrl(qrData)
         return
       }
 
       const result = await performCheckIn(qrData)
+      if (result.queued) {
+        setQueued(true)
+        announce('네트워크가 연결되지 않아 출석을 저장했습니다. 연결되면 자동으로 전송합니다.')
+        return
+      }
 
+      setSuccessMessage(result.message ?? '')
       setSuccess(true)
-      announce('출석이 완료되었습니다. 잠시 후 출석 현황으로 이동합니다.')
+      announce(`${result.message ?? '출석이 완료되었습니다.'} 잠시 후 출석 현황으로 이동합니다.`)
       
       setTimeout(() => {
         router.push(`/student/attendance/${result.sessionId ?? qrData.sessionId}`)
@@ -353,6 +429,47 @@ function ScanPageContent() {
     setScannerActive(false)
   }
 
+  // 페이지를 떠나면 비콘/AP 근접 스캔 중지
+  useEffect(() => () => proximityScannerRef.current?.stop(), [])
+
+  // 오프라인 대기열 재전송 결과 수신 + 네트워크 복구 시 재전송 요청
+  useEffect(() => {
+    if (!isOfflineQueueSupported()) {
+      return
+    }
+
+    swManager.onCheckInReplayed((data) => {
+      setQueued(false)
+      setSuccessMessage(data.message ?? data.error ?? '')
+      setSuccess(true)
+      announce(`${data.message ?? '저장된 출석이 전송되었습니다.'} 잠시 후 출석 현황으로 이동합니다.`)
+      setTimeout(() => {
+        router.push(`/student/attendance/${data.sessionId}`)
+      }, 2000)
+    })
+    swManager.onCheckInReplayFailed((data) => {
+      setQueued(false)
+      setError(data.error || '저장된 출석을 전송하지 못했습니다. 다시 스캔해주세요.')
+    })
+
+    const requestReplay = () => {
+      void swManager.requestCheckInReplay()
+    }
+
+    void (async () => {
+      if (await swManager.register()) {
+        const pending = await listQueuedCheckIns()
+        if (pending.length > 0) {
+          setQueued(true)
+          requestReplay()
+        }
+      }
+    })()
+
+    window.addEventListener('online', requestReplay)
+    return () => window.removeEventListener('online', requestReplay)
+  }, [announce, router])
+
   useEffect(() => {
     if (!sessionIdParam || hasProcessedSessionRef.current) {
       return
@@ -381,20 +498,29 @@ function ScanPageContent() {
           courseId: sessionInfo.courseId || sessionInfo.course_id || '',
           expiresAt: sessionInfo.expiresAt || sessionInfo.qr_code_expires_at || new Date(Date.now() + 25 * 60 * 1000).toISOString(),
           type: 'attendance',
-          baseUrl: sessionInfo.baseUrl || sessionInfo.base_url || (typeof window !== 'undefined' ? window.location.origin : undefined)
+          baseUrl: sessionInfo.baseUrl || sessionInfo.base_url || (typeof window !== 'undefined' ? window.location.origin : undefined),
+          token: qrTokenParam ?? undefined
         }
 
         if (typeof window !== 'undefined' && qrData.baseUrl && qrData.baseUrl !== window.location.origin) {
           redirected = true
           setProcessing(false)
-          window.location.href = `${qrData.baseUrl}/student/scan?sessionId=${encodeURIComponent(qrData.sessionId)}`
+          window.location.href = buildScanRedirectUrl(qrData)
           return
         }
 
         correlationIdRef.current = crypto.randomUUID()
+        scannedAtRef.current = new Date().toISOString()
         const result = await performCheckIn(qrData)
+        if (result.queued) {
+          setQueued(true)
+          announce('네트워크가 연결되지 않아 출석을 저장했습니다. 연결되면 자동으로 전송합니다.')
+          completed = true
+          return
+        }
+        setSuccessMessage(result.message ?? '')
         setSuccess(true)
-        announce('출석이 완료되었습니다. 잠시 후 출석 현황으로 이동합니다.')
+        announce(`${result.message ?? '출석이 완료되었습니다.'} 잠시 후 출석 현황으로 이동합니다.`)
         setTimeout(() => {
           router.push(`/student/attendance/${result.sessionId ?? sessionIdParam}`)
         }, 2000)
@@ -416,7 +542,7 @@ function ScanPageContent() {
         }
       }
     })()
-  }, [sessionIdParam, performCheckIn, router, announce])
+  }, [sessionIdParam, qrTokenParam, performCheckIn, router, announce])
 
   if (loading || !user || user.role !== 'student') {
     return (
@@ -440,6 +566,38 @@ function ScanPageContent() {
     )
   }
 
+  if (queued && !success) {
+    return (
+      <>
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 px-4">
+          <Card className="w-full max-w-md">
+            <CardContent className="p-8">
+              <div className="text-center">
+                <div className="w-16 h-16 bg-warning-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <svg className="w-8 h-8 text-warning-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                </div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                  출석 전송 대기 중
+                </h2>
+                <p className="text-gray-600 text-sm mb-4">
+                  네트워크가 연결되면 자동으로 출석을 전송합니다.
+                </p>
+                <p className="text-xs text-gray-400">
+                  출석과 지각 여부는 QR을 스캔한 시각 기준으로 판정됩니다.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+        <div ref={liveRegionRef} className="sr-only" role="status" aria-live="assertive">
+          {announcement}
+        </div>
+      </>
+    )
+  }
+
   if (success) {
     return (
       <>
@@ -456,7 +614,7 @@ function ScanPageContent() {
                   출석 완료! 🎉
                 </h2>
                 <p className="text-gray-600 text-sm mb-4">
-                  출석이 성공적으로 처리되었습니다.
+                  {successMessage || '출석이 성공적으로 처리되었습니다.'}
                 </p>
                 <p className="text-xs text-gray-400">
                   잠시 후 출석 추적 페이지로 이동합니다...
@@ -0,0 +1,187 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge, Button } from '@/components/ui'
+
+interface AppealSummary {
+  id: string
+  status: 'pending' | 'approved' | 'rejected'
+  requestedStatus: 'present' | 'late'
+  resolvedStatus: 'present' | 'late' | null
+  reason: string
+  reviewComment: string | null
+  createdAt: string
+  reviewedAt: string | null
+}
+
+interface AppealFormProps {
+  /** 출석 기록 ID (체크인 기록 없이 결석 처리된 수업이면 null) */
+  attendanceId: string | null
+  sessionId: string
+  attendanceStatus: string
+  /** 승인으로 출석 상태가 바뀌었을 때 호출 */
+  onStatusChange?: (status: 'present' | 'late') => void
+}
+
+const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,application/pdf'
+
+const STATUS_LABELS: Record<string, string> = {
+  present: '출석',
+  late: '지각'
+}
+
+export function AppealForm({ attendanceId, sessionId, attendanceStatus, onStatusChange }: AppealFormProps) {
+  const [appeals, setAppeals] = useState<AppealSummary[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [requestedStatus, setRequestedStatus] = useState<'present' | 'late'>('present')
+  const [attachment, setAttachment] = useState<File | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchAppeals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/attendance/appeals?sessionId=${sessionId}`)
+      if (!response.ok) return
+      const payload = await response.json()
+      const list: AppealSummary[] = payload.appeals ?? []
+      setAppeals(list)
+
+      const approved = list.find((appeal) => appeal.status === 'approved' && appeal.resolvedStatus)
+      if (approved?.resolvedStatus && approved.resolvedStatus !== attendanceStatus) {
+        onStatusChange?.(approved.resolvedStatus)
+      }
+    } catch (fetchError) {
+      console.error('이의 신청 내역 조회 실패:', fetchError)
+    }
+  }, [sessionId, attendanceStatus, onStatusChange])
+
+  useEffect(() => {
+    fetchAppeals()
+  }, [fetchAppeals])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const form = new FormData()
+      if (attendanceId) {
+        form.append('attendanceId', attendanceId)
+      } else {
+        form.append('sessionId', sessionId)
+      }
+      form.append('reason', reason)
+      form.append('requestedStatus', requestedStatus)
+      if (attachment) {
+        form.append('attachment', attachment)
+      }
+
+      const response = await fetch('/api/attendance/appeals', { method: 'POST', body: form })
+      const payload = await response.json()
+
+      if (!response.ok) {
+        setError(payload.details?.[0]?.message ?? payload.error ?? '이의 신청에 실패했습니다.')
+        return
+      }
+
+      setIsOpen(false)
+      setReason('')
+      setAttachment(null)
+      await fetchAppeals()
+    } catch (submitError) {
+      console.error('이의 신청 실패:', submitError)
+      setError('네트워크 오류로 이의 신청에 실패했습니다.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const latest = appeals[0]
+  const canFile = (attendanceStatus === 'absent' || attendanceStatus === 'left_early') &&
+    latest?.status !== 'pending'
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">출석 이의 신청</h3>
+        {latest && (
+          latest.status === 'pending'
+            ? <Badge variant="warning">처리 대기</Badge>
+            : latest.status === 'approved'
+            ? <Badge variant="success">승인됨</Badge>
+            : <Badge variant="error">반려됨</Badge>
+        )}
+      </div>
+
+      {latest && (
+        <div className="text-sm text-gray-700 space-y-1">
+          <p>신청일: {new Date(latest.createdAt).toLocaleString('ko-KR')}</p>
+          <p className="whitespace-pre-wrap">사유: {latest.reason}</p>
+          {latest.status === 'approved' && latest.resolvedStatus && (
+            <p className="text-green-700">출석 상태가 &apos;{STATUS_LABELS[latest.resolvedStatus]}&apos;(으)로 변경되었습니다.</p>
+          )}
+          {latest.reviewComment && <p>교수 의견: {latest.reviewComment}</p>}
+        </div>
+      )}
+
+      {canFile && !isOpen && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            결석/조퇴 처리에 이의가 있으면 사유와 증빙자료를 제출할 수 있습니다.
+          </p>
+          <Button size="sm" variant="secondary" onClick={() => setIsOpen(true)}>
+            {latest ? '다시 신청' : '이의 신청'}
+          </Button>
+        </div>
+      )}
+
+      {canFile && isOpen && (
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">요청 상태</label>
+            <select
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              value={requestedStatus}
+              onChange={(event) => setRequestedStatus(event.target.value as 'present' | 'late')}
+            >
+              <option value="present">출석</option>
+              <option value="late">지각</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">사유</label>
+            <textarea
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              rows={4}
+              maxLength={1000}
+              placeholder="결석/조퇴 처리에 대한 이의 사유를 10자 이상 입력해주세요."
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">증빙자료 (선택, JPG/PNG/PDF 5MB 이하)</label>
+            <input
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              className="text-sm"
+              onChange={(event) => setAttachment(event.target.files?.[0] ?? null)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setIsOpen(false)} disabled={submitting}>
+              취소
+            </Button>
+            <Button type="submit" size="sm" loading={submitting}>
+              제출
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
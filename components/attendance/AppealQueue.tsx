@@ -0,0 +1,145 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge, Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui'
+
+interface PendingAppeal {
+  id: string
+  courseName: string
+  courseCode: string
+  sessionDate: string | null
+  studentId: string
+  studentName: string
+  originalStatus: 'absent' | 'left_early'
+  requestedStatus: 'present' | 'late'
+  reason: string
+  attachment: { name: string | null; type: string | null; url: string | null } | null
+  createdAt: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  present: '출석',
+  late: '지각',
+  absent: '결석',
+  left_early: '조퇴'
+}
+
+export function AppealQueue() {
+  const [appeals, setAppeals] = useState<PendingAppeal[]>([])
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchAppeals = useCallback(async () => {
+    try {
+      const response = await fetch('/api/attendance/appeals?status=pending')
+      if (!response.ok) return
+      const payload = await response.json()
+      setAppeals(payload.appeals ?? [])
+    } catch (fetchError) {
+      console.error('이의 신청 대기열 조회 실패:', fetchError)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAppeals()
+  }, [fetchAppeals])
+
+  const review = async (appealId: string, decision: 'approved' | 'rejected') => {
+    setProcessingId(appealId)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/attendance/appeals/${appealId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comments[appealId] || undefined })
+      })
+      const payload = await response.json()
+
+      if (!response.ok) {
+        setError(payload.error ?? '이의 신청 처리에 실패했습니다.')
+      }
+      await fetchAppeals()
+    } catch (reviewError) {
+      console.error('이의 신청 처리 실패:', reviewError)
+      setError('네트워크 오류로 처리에 실패했습니다.')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  if (appeals.length === 0 && !error) {
+    return null
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">출석 이의 신청</CardTitle>
+          <Badge variant="warning">대기 {appeals.length}건</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-error-600 mb-3">{error}</p>}
+        <div className="space-y-3">
+          {appeals.map((appeal) => (
+            <div key={appeal.id} className="p-4 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium text-gray-900">{appeal.studentName}</span>
+                  <span className="text-sm text-gray-500 ml-2">({appeal.studentId})</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {new Date(appeal.createdAt).toLocaleString('ko-KR')}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">
+                {appeal.courseName} ({appeal.courseCode}) • {appeal.sessionDate ?? '-'} •{' '}
+                {STATUS_LABELS[appeal.originalStatus]} → {STATUS_LABELS[appeal.requestedStatus]} 요청
+              </p>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{appeal.reason}</p>
+              {appeal.attachment?.url && (
+                <a
+                  href={appeal.attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-primary-600 hover:underline"
+                >
+                  📎 {appeal.attachment.name ?? '첨부파일'}
+                </a>
+              )}
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  className="flex-1 border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+                  placeholder="처리 의견 (선택)"
+                  maxLength={500}
+                  value={comments[appeal.id] ?? ''}
+                  onChange={(event) => setComments((prev) => ({ ...prev, [appeal.id]: event.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => review(appeal.id, 'approved')}
+                  loading={processingId === appeal.id}
+                  disabled={processingId !== null}
+                >
+                  승인
+                </Button>
+                <Button
+                  size="sm"
+                  variant="danger"
+                  onClick={() => review(appeal.id, 'rejected')}
+                  disabled={processingId !== null}
+                >
+                  반려
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
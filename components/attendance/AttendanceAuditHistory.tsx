@@ -0,0 +1,60 @@
+'use client'
+
+import { Badge } from '@/components/ui'
+
+export interface AttendanceAuditItem {
+  id: string
+  studentId: string
+  studentName: string
+  previousStatus: string | null
+  newStatus: string
+  reason: string
+  source: 'manual_override' | 'appeal'
+  changedByName: string
+  createdAt: string
+}
+
+interface AttendanceAuditHistoryProps {
+  entries: AttendanceAuditItem[]
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  present: '출석',
+  late: '지각',
+  absent: '결석',
+  left_early: '조퇴'
+}
+
+export function AttendanceAuditHistory({ entries }: AttendanceAuditHistoryProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">출석 상태 변경 이력이 없습니다.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-3 flex items-start justify-between">
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-900">{entry.studentName}</span>
+              <span className="text-xs text-gray-500">({entry.studentId})</span>
+              <Badge variant={entry.source === 'appeal' ? 'primary' : 'secondary'}>
+                {entry.source === 'appeal' ? '이의 신청' : '수동 변경'}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-700">
+              {entry.previousStatus ? STATUS_LABELS[entry.previousStatus] ?? entry.previousStatus : '기록 없음'}
+              {' → '}
+              <span className="font-medium">{STATUS_LABELS[entry.newStatus] ?? entry.newStatus}</span>
+            </p>
+            <p className="text-xs text-gray-500">사유: {entry.reason}</p>
+          </div>
+          <div className="text-right text-xs text-gray-500 whitespace-nowrap ml-4">
+            <p>{entry.changedByName}</p>
+            <p>{new Date(entry.createdAt).toLocaleString('ko-KR')}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui'
+
+type AttendanceStatusValue = 'present' | 'late' | 'absent' | 'left_early'
+
+interface AttendanceOverrideFormProps {
+  sessionId: string
+  /** 표에서 선택한 학생 (없으면 학번 직접 입력) */
+  student?: { studentId: string; name: string; status: AttendanceStatusValue } | null
+  onSaved?: () => void
+  onCancel?: () => void
+}
+
+const STATUS_OPTIONS: Array<{ value: AttendanceStatusValue; label: string }> = [
+  { value: 'present', label: '출석' },
+  { value: 'late', label: '지각' },
+  { value: 'left_early', label: '조퇴' },
+  { value: 'absent', label: '결석' }
+]
+
+export function AttendanceOverrideForm({ sessionId, student, onSaved, onCancel }: AttendanceOverrideFormProps) {
+  const [studentId, setStudentId] = useState(student?.studentId ?? '')
+  const [status, setStatus] = useState<AttendanceStatusValue>(student?.status === 'present' ? 'absent' : 'present')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setStudentId(student?.studentId ?? '')
+    setStatus(student?.status === 'present' ? 'absent' : 'present')
+    setReason('')
+    setError('')
+  }, [student])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(
+        `/api/sessions/${sessionId}/attendances/${encodeURIComponent(studentId.trim())}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status, reason })
+        }
+      )
+      const payload = await response.json()
+
+      if (!response.ok) {
+        setError(payload.details?.[0]?.message ?? payload.error ?? '출석 상태 변경에 실패했습니다.')
+        return
+      }
+
+      setReason('')
+      onSaved?.()
+    } catch (saveError) {
+      console.error('출석 상태 변경 실패:', saveError)
+      setError('네트워크 오류로 출석 상태 변경에 실패했습니다.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form className="space-y-3" onSubmit={handleSubmit}>
+      <div className="grid md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">학번</label>
+          {student ? (
+            <p className="px-3 py-2 text-sm text-gray-900">{student.name} ({student.studentId})</p>
+          ) : (
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              placeholder="체크인하지 못한 학생의 학번"
+              value={studentId}
+              onChange={(event) => setStudentId(event.target.value)}
+              required
+            />
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">변경할 상태</label>
+          <select
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            value={status}
+            onChange={(event) => setStatus(event.target.value as AttendanceStatusValue)}
+          >
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">사유 (필수)</label>
+          <input
+            type="text"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            placeholder="예: 휴대폰 방전으로 구두 확인"
+            maxLength={500}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            required
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-error-600">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={saving}>
+            취소
+          </Button>
+        )}
+        <Button type="submit" size="sm" loading={saving}>
+          상태 변경
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { Badge } from '@/components/ui'
+
+export interface LeftEarlySampleItem {
+  id: string
+  timestamp: string
+  distance: number
+  allowedDistance: number
+  accuracy: number
+  confidence?: number | null
+  weight: number
+  outside: boolean
+}
+
+export interface LeftEarlyDecisionItem {
+  id: string
+  studentId: string
+  studentName: string
+  decidedAt: string
+  rule: {
+    windowSamples?: number
+    minOutsideSamples?: number
+    minOutsideMinutes?: number
+  } | null
+  windowCount: number
+  outsideCount: number
+  outsideMinutes: number
+  weightedOutsideRatio: number
+  samples: LeftEarlySampleItem[] | null
+}
+
+interface LeftEarlyEvidenceProps {
+  decisions: LeftEarlyDecisionItem[]
+}
+
+export function LeftEarlyEvidence({ decisions }: LeftEarlyEvidenceProps) {
+  if (decisions.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">위치 기반 조퇴 판정 기록이 없습니다.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {decisions.map((decision) => (
+        <li key={decision.id} className="py-4 space-y-3">
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-gray-900">{decision.studentName}</span>
+                <span className="text-xs text-gray-500">({decision.studentId})</span>
+                <Badge variant="warning">조퇴 판정</Badge>
+              </div>
+              <p className="text-xs text-gray-500">
+                규칙: 최근 {decision.rule?.windowSamples ?? '-'}개 중 {decision.rule?.minOutsideSamples ?? '-'}개 이상,{' '}
+                {decision.rule?.minOutsideMinutes ?? '-'}분 이상 강의실 밖
+              </p>
+              <p className="text-sm text-gray-700">
+                {decision.windowCount}개 중 {decision.outsideCount}개 범위 밖 · {decision.outsideMinutes}분 ·
+                가중 비율 {Math.round(decision.weightedOutsideRatio * 100)}%
+              </p>
+            </div>
+            <p className="text-xs text-gray-500 whitespace-nowrap ml-4">
+              {new Date(decision.decidedAt).toLocaleString('ko-KR')}
+            </p>
+          </div>
+
+          {decision.samples && decision.samples.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">시각</th>
+                    <th className="py-1 pr-4 font-medium">거리 / 허용</th>
+                    <th className="py-1 pr-4 font-medium">정확도</th>
+                    <th className="py-1 pr-4 font-medium">신뢰도</th>
+                    <th className="py-1 font-medium">가중치</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decision.samples.map((sample) => (
+                    <tr key={sample.id} className={sample.outside ? 'bg-red-50 text-red-700' : 'text-gray-700'}>
+                      <td className="py-1 pr-4">{new Date(sample.timestamp).toLocaleTimeString('ko-KR')}</td>
+                      <td className="py-1 pr-4">{sample.distance}m / {sample.allowedDistance}m</td>
+                      <td className="py-1 pr-4">±{Math.round(sample.accuracy)}m</td>
+                      <td className="py-1 pr-4">{typeof sample.confidence === 'number' ? sample.confidence.toFixed(2) : '-'}</td>
+                      <td className="py-1">{sample.weight}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
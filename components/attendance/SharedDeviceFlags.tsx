@@ -0,0 +1,55 @@
+'use client'
+
+import { Badge } from '@/components/ui'
+
+export interface SharedDeviceFlagItem {
+  deviceId: string
+  deviceType: string | null
+  students: Array<{ studentId: string; name: string; firstAttemptAt: string; blocked: boolean }>
+}
+
+interface SharedDeviceFlagsProps {
+  flags: SharedDeviceFlagItem[]
+}
+
+const DEVICE_TYPE_LABELS: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  desktop: 'PC',
+  other: '기타'
+}
+
+export function SharedDeviceFlags({ flags }: SharedDeviceFlagsProps) {
+  if (flags.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">한 기기에서 여러 학생이 체크인한 기록이 없습니다.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {flags.map((flag) => (
+        <li key={flag.deviceId} className="py-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <Badge variant="error">공유 기기 의심</Badge>
+            <span className="text-sm font-medium text-gray-900">
+              {DEVICE_TYPE_LABELS[flag.deviceType ?? 'other'] ?? flag.deviceType} 기기 · 학생 {flag.students.length}명
+            </span>
+            <span className="text-xs text-gray-400 font-mono">{flag.deviceId.slice(0, 8)}</span>
+          </div>
+          <ul className="space-y-1 pl-1">
+            {flag.students.map((student) => (
+              <li key={student.studentId} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">
+                  {student.name} <span className="text-xs text-gray-500">({student.studentId})</span>
+                  {student.blocked && <span className="ml-2 text-xs text-error-600">체크인 거부됨</span>}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {new Date(student.firstAttemptAt).toLocaleTimeString('ko-KR')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  )
+}
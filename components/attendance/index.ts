@@ -0,0 +1,6 @@
+export { AppealForm } from './AppealForm'
+export { AppealQueue } from './AppealQueue'
+export { AttendanceAuditHistory, type AttendanceAuditItem } from './AttendanceAuditHistory'
+export { AttendanceOverrideForm } from './AttendanceOverrideForm'
+export { LeftEarlyEvidence, type LeftEarlyDecisionItem, type LeftEarlySampleItem } from './LeftEarlyEvidence'
+export { SharedDeviceFlags, type SharedDeviceFlagItem } from './SharedDeviceFlags'
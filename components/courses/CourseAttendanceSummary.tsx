@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+
+interface StudentSummaryItem {
+  studentId: string
+  name: string
+  stats: { total: number; present: number; late: number; absent: number; left_early: number; attendance_rate: number }
+  currentAbsenceStreak: number
+  effectiveAbsences: number
+  absenceRatio: number
+  atRisk: boolean
+}
+
+interface CourseAttendanceSummaryProps {
+  courseId: string
+  courseName: string
+  onClose: () => void
+}
+
+export function CourseAttendanceSummary({ courseId, courseName, onClose }: CourseAttendanceSummaryProps) {
+  const [students, setStudents] = useState<StudentSummaryItem[]>([])
+  const [threshold, setThreshold] = useState(0.25)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      try {
+        const response = await fetch(`/api/courses/${courseId}/attendance/summary`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || '출석 현황을 불러오지 못했습니다.')
+          return
+        }
+        setStudents(data.students)
+        setThreshold(data.absenceRatioThreshold)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSummary()
+  }, [courseId])
+
+  const atRiskCount = students.filter((student) => student.atRisk).length
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{courseName} 수강생 출석 현황</CardTitle>
+          <Button size="sm" variant="ghost" onClick={onClose}>닫기</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {isLoading ? (
+          <p className="py-6 text-center text-sm text-gray-500">불러오는 중...</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              수강생 {students.length}명 · 결석 위험 {atRiskCount}명 (종료된 수업의 {Math.round(threshold * 100)}% 이상 결석)
+            </p>
+            <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {students.map((student) => (
+                <div key={student.studentId} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{student.name || student.studentId}</span>
+                      <span className="text-xs text-gray-500">{student.studentId}</span>
+                      {student.atRisk && <Badge variant="error">위험</Badge>}
+                      {student.currentAbsenceStreak >= 2 && (
+                        <Badge variant="warning">{student.currentAbsenceStreak}회 연속 결석</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      출석 {student.stats.present} · 지각 {student.stats.late} · 결석 {student.stats.absent} · 조퇴 {student.stats.left_early}
+                    </div>
+                  </div>
+                  <span className={`font-medium ${student.atRisk ? 'text-error-600' : 'text-gray-700'}`}>
+                    {student.stats.attendance_rate}%
+                  </span>
+                </div>
+              ))}
+              {students.length === 0 && (
+                <p className="py-6 text-center text-sm text-gray-500">수강생이 없습니다.</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
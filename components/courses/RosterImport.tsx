@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui'
+
+interface RosterStudentItem {
+  studentId: string
+  name: string
+}
+
+interface RosterDiffItem {
+  toEnroll: RosterStudentItem[]
+  alreadyEnrolled: RosterStudentItem[]
+  unknown: Array<{ line: number; studentId: string; name: string | null }>
+  duplicates: Array<{ studentId: string; lines: number[] }>
+  nameMismatches: Array<{ studentId: string; line: number; csvName: string; registeredName: string }>
+  notInRoster: RosterStudentItem[]
+}
+
+interface RosterPreview {
+  diff: RosterDiffItem
+  parseErrors: Array<{ line: number; message: string }>
+}
+
+interface RosterSettingsItem {
+  supported: boolean
+  autoEnrollOnScan: boolean
+  rosterImportedAt: string | null
+  enrollmentCount: number
+}
+
+interface RosterImportProps {
+  courseId: string
+  courseName: string
+  onClose: () => void
+}
+
+export function RosterImport({ courseId, courseName, onClose }: RosterImportProps) {
+  const [settings, setSettings] = useState<RosterSettingsItem | null>(null)
+  const [csv, setCsv] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<RosterPreview | null>(null)
+  const [removeMissing, setRemoveMissing] = useState(false)
+  const [disableAutoEnroll, setDisableAutoEnroll] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const response = await fetch(`/api/courses/${courseId}/roster`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || '수강 명단 설정을 불러오지 못했습니다.')
+        return
+      }
+      setSettings(data)
+    }
+    fetchSettings()
+  }, [courseId])
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null)
+    setMessage('')
+    setError('')
+    if (!file) {
+      return
+    }
+    setFileName(file.name)
+    setCsv(await file.text())
+  }
+
+  const requestImport = async (dryRun: boolean) => {
+    setWorking(true)
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch(`/api/courses/${courseId}/roster`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv,
+          dryRun,
+          removeMissing,
+          ...(!dryRun && removeMissing && { expectedRemoveCount: preview?.diff.notInRoster.length ?? 0 }),
+          ...(!dryRun && settings?.supported && { autoEnrollOnScan: !disableAutoEnroll })
+        })
+      })
+      const data = await response.json()
+
+      if (response.status === 409 && data.code === 'roster_changed') {
+        setPreview({ diff: data.diff, parseErrors: data.parseErrors })
+        setError(data.error)
+        return
+      }
+      if (!response.ok) {
+        setError(data.error || '수강 명단을 확인하지 못했습니다.')
+        return
+      }
+
+      if (dryRun) {
+        setPreview({ diff: data.diff, parseErrors: data.parseErrors })
+      } else {
+        setMessage(`${data.enrolled}명을 등록했습니다.${data.removed > 0 ? ` ${data.removed}명의 등록을 해제했습니다.` : ''}`)
+        setPreview(null)
+        setSettings(prev => prev && {
+          ...data.settings,
+          enrollmentCount: prev.enrollmentCount + data.enrolled - data.removed
+        })
+      }
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const toggleAutoEnroll = async () => {
+    if (!settings) {
+      return
+    }
+    setError('')
+    const response = await fetch(`/api/courses/${courseId}/roster`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ autoEnrollOnScan: !settings.autoEnrollOnScan })
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || '설정을 변경하지 못했습니다.')
+      return
+    }
+    setSettings(prev => prev && { ...prev, autoEnrollOnScan: data.autoEnrollOnScan })
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{courseName} 수강 명단</CardTitle>
+          <Button size="sm" variant="ghost" onClick={onClose}>닫기</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-error-50 border border-error-200 text-error-800 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-success-50 border border-success-200 text-success-800 px-4 py-3 rounded-lg text-sm">
+            {message}
+          </div>
+        )}
+
+        {settings && (
+          <div className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3 text-sm">
+            <div className="text-gray-700">
+              수강생 {settings.enrollmentCount}명
+              {settings.rosterImportedAt && (
+                <span className="text-gray-500"> · 명단 반영 {new Date(settings.rosterImportedAt).toLocaleString('ko-KR')}</span>
+              )}
+            </div>
+            {settings.supported && (
+              <div className="flex items-center space-x-2">
+                <Badge variant={settings.autoEnrollOnScan ? 'success' : 'secondary'}>
+                  {settings.autoEnrollOnScan ? 'QR 스캔 자동 등록' : '명단 학생만 출석'}
+                </Badge>
+                <Button size="sm" variant="ghost" onClick={toggleAutoEnroll}>
+                  {settings.autoEnrollOnScan ? '자동 등록 끄기' : '자동 등록 켜기'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">CSV 파일</label>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="block w-full text-sm text-gray-600"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            학번, 이름 열이 있는 CSV (첫 행 헤더 생략 시 1열 학번, 2열 이름). 출석부 내보내기 파일도 사용할 수 있습니다.
+          </p>
+        </div>
+
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={removeMissing} onChange={(e) => setRemoveMissing(e.target.checked)} />
+            <span>명단에 없는 기존 수강생 등록 해제 (출석 기록은 유지)</span>
+          </label>
+          {settings?.supported && (
+            <label className="flex items-center space-x-2">
+              <input type="checkbox" checked={disableAutoEnroll} onChange={(e) => setDisableAutoEnroll(e.target.checked)} />
+              <span>반영 후 QR 스캔 자동 등록 끄기 (명단 학생만 출석)</span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button size="sm" variant="secondary" onClick={() => requestImport(true)} disabled={working || !csv}>
+            {fileName ? `${fileName} 확인` : '변경 내용 확인'}
+          </Button>
+          {preview && (
+            <Button size="sm" loading={working} disabled={working} onClick={() => requestImport(false)}>
+              명단 반영
+            </Button>
+          )}
+        </div>
+
+        {preview && (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+            <div className="px-4 py-2 bg-gray-50 text-gray-600">
+              신규 {preview.diff.toEnroll.length} · 기존 {preview.diff.alreadyEnrolled.length} · 없는 학번 {preview.diff.unknown.length}
+              {' '}· 중복 {preview.diff.duplicates.length} · 명단 외 {preview.diff.notInRoster.length}
+            </div>
+            {preview.diff.toEnroll.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-success-700 mb-1">새로 등록</div>
+                <div className="text-gray-600">
+                  {preview.diff.toEnroll.map((student) => `${student.name}(${student.studentId})`).join(', ')}
+                </div>
+              </div>
+            )}
+            {preview.diff.unknown.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-error-700 mb-1">가입하지 않은 학번 (등록 제외)</div>
+                <div className="text-gray-600">
+                  {preview.diff.unknown.map((row) => `${row.line}행 ${row.studentId}${row.name ? ` ${row.name}` : ''}`).join(', ')}
+                </div>
+              </div>
+            )}
+            {preview.diff.duplicates.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-warning-700 mb-1">중복 학번 (첫 행만 반영)</div>
+                <div className="text-gray-600">
+                  {preview.diff.duplicates.map((item) => `${item.studentId} (${item.lines.join(', ')}행)`).join(', ')}
+                </div>
+              </div>
+            )}
+            {preview.diff.nameMismatches.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-warning-700 mb-1">이름 불일치 (학번 기준으로 등록)</div>
+                <div className="text-gray-600">
+                  {preview.diff.nameMismatches
+                    .map((item) => `${item.studentId}: ${item.csvName} → ${item.registeredName}`)
+                    .join(', ')}
+                </div>
+              </div>
+            )}
+            {preview.diff.notInRoster.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-gray-700 mb-1">
+                  명단에 없는 수강생{removeMissing ? ' (등록 해제)' : ''}
+                </div>
+                <div className="text-gray-600">
+                  {preview.diff.notInRoster.map((student) => `${student.name}(${student.studentId})`).join(', ')}
+                </div>
+              </div>
+            )}
+            {preview.parseErrors.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-medium text-error-700 mb-1">읽지 못한 행</div>
+                <ul className="text-gray-600">
+                  {preview.parseErrors.map((item) => (
+                    <li key={item.line}>{item.line}행: {item.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,2 @@
+export { CourseAttendanceSummary } from './CourseAttendanceSummary'
+export { RosterImport } from './RosterImport'
@@ -0,0 +1,419 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { Button, Input } from '@/components/ui'
+import { GEOFENCE_CONFIG } from '@/lib/config/attendance-config'
+import { parseGeoJSONPolygon, type GeoJSONPolygon, type GeoJSONPosition } from '@/lib/utils/geofence'
+
+interface Vertex {
+  latitude: number
+  longitude: number
+}
+
+interface Bounds {
+  minLat: number
+  maxLat: number
+  minLng: number
+  maxLng: number
+}
+
+export interface GeofencePolygonValue {
+  polygon: GeoJSONPolygon
+  bufferMeters: number
+}
+
+interface GeofencePolygonEditorProps {
+  value?: GeofencePolygonValue | null
+  onChange: (value: GeofencePolygonValue | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+const VIEW_SIZE = 240
+const VIEW_PADDING = 24
+/** 꼭짓점이 1개뿐일 때 미리보기에 보여줄 범위 (도, 약 50m) */
+const MIN_SPAN_DEGREES = 0.0005
+
+function toVertices(ring: GeoJSONPosition[]): Vertex[] {
+  return ring.slice(0, -1).map(([longitude, latitude]) => ({ latitude, longitude }))
+}
+
+function computeBounds(vertices: Vertex[]): Bounds | null {
+  if (vertices.length === 0) {
+    return null
+  }
+
+  const lats = vertices.map((vertex) => vertex.latitude)
+  const lngs = vertices.map((vertex) => vertex.longitude)
+  const centerLat = (Math.min(...lats) + Math.max(...lats)) / 2
+  const centerLng = (Math.min(...lngs) + Math.max(...lngs)) / 2
+  // 정사각형 화면에 왜곡 없이 그리기 위해 경도 폭을 위도 기준으로 환산
+  const cosLat = Math.cos((centerLat * Math.PI) / 180)
+  const span = Math.max(
+    MIN_SPAN_DEGREES,
+    Math.max(...lats) - Math.min(...lats),
+    (Math.max(...lngs) - Math.min(...lngs)) * cosLat
+  ) * 1.2
+
+  return {
+    minLat: centerLat - span / 2,
+    maxLat: centerLat + span / 2,
+    minLng: centerLng - span / 2 / cosLat,
+    maxLng: centerLng + span / 2 / cosLat
+  }
+}
+
+function toScreen(vertex: Vertex, bounds: Bounds) {
+  const inner = VIEW_SIZE - VIEW_PADDING * 2
+  return {
+    x: VIEW_PADDING + ((vertex.longitude - bounds.minLng) / (bounds.maxLng - bounds.minLng)) * inner,
+    y: VIEW_PADDING + ((bounds.maxLat - vertex.latitude) / (bounds.maxLat - bounds.minLat)) * inner
+  }
+}
+
+function fromScreen(x: number, y: number, bounds: Bounds): Vertex {
+  const inner = VIEW_SIZE - VIEW_PADDING * 2
+  return {
+    latitude: bounds.maxLat - ((y - VIEW_PADDING) / inner) * (bounds.maxLat - bounds.minLat),
+    longitude: bounds.minLng + ((x - VIEW_PADDING) / inner) * (bounds.maxLng - bounds.minLng)
+  }
+}
+
+/**
+ * 다각형 강의실 경계 그리기/편집
+ *
+ * 현재 GPS 위치나 좌표 입력으로 꼭짓점을 추가하고, 미리보기에서 클릭해 꼭짓점을 추가하거나
+ * 드래그해 옮길 수 있습니다. GeoJSON Polygon 을 붙여넣어 불러올 수도 있습니다.
+ */
+export default function GeofencePolygonEditor({
+  value = null,
+  onChange,
+  disabled = false,
+  className = ''
+}: GeofencePolygonEditorProps) {
+  const [vertices, setVertices] = useState<Vertex[]>(() => (value ? toVertices(value.polygon.coordinates[0]) : []))
+  const [holes, setHoles] = useState<GeoJSONPosition[][]>(() => value?.polygon.coordinates.slice(1) ?? [])
+  const [buffer, setBuffer] = useState(() => String(value?.bufferMeters ?? GEOFENCE_CONFIG.defaultBufferMeters))
+  const [latitudeInput, setLatitudeInput] = useState('')
+  const [longitudeInput, setLongitudeInput] = useState('')
+  const [geojsonInput, setGeojsonInput] = useState('')
+  const [locating, setLocating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [frozenBounds, setFrozenBounds] = useState<Bounds | null>(null)
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  const bounds = useMemo(() => frozenBounds ?? computeBounds(vertices), [frozenBounds, vertices])
+
+  // 꼭짓점/버퍼가 바뀌면 유효한 다각형일 때만 상위로 전달
+  useEffect(() => {
+    const parsedBuffer = Number(buffer)
+    const bufferMeters = Number.isFinite(parsedBuffer)
+      ? Math.min(GEOFENCE_CONFIG.maxBufferMeters, Math.max(0, parsedBuffer))
+      : GEOFENCE_CONFIG.defaultBufferMeters
+    const polygon = vertices.length >= 3
+      ? parseGeoJSONPolygon({
+          type: 'Polygon',
+          coordinates: [vertices.map((vertex) => [vertex.longitude, vertex.latitude]), ...holes]
+        })
+      : null
+
+    onChangeRef.current(polygon ? { polygon, bufferMeters } : null)
+  }, [vertices, holes, buffer])
+
+  const addVertex = (vertex: Vertex) => {
+    if (vertices.length >= GEOFENCE_CONFIG.maxVertices) {
+      setError(`꼭짓점은 최대 ${GEOFENCE_CONFIG.maxVertices}개까지 추가할 수 있습니다.`)
+      return
+    }
+    setError(null)
+    setVertices((prev) => [...prev, vertex])
+  }
+
+  const removeVertex = (index: number) => {
+    setVertices((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const handleAddCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setError('브라우저에서 위치 서비스를 지원하지 않습니다.')
+      return
+    }
+
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false)
+        addVertex({ latitude: position.coords.latitude, longitude: position.coords.longitude })
+      },
+      (geoError) => {
+        setLocating(false)
+        setError(`현재 위치를 가져오지 못했습니다: ${geoError.message}`)
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    )
+  }
+
+  const handleAddManualVertex = () => {
+    const latitude = Number(latitudeInput)
+    const longitude = Number(longitudeInput)
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      setError('위도는 -90 ~ 90, 경도는 -180 ~ 180 사이의 숫자여야 합니다.')
+      return
+    }
+
+    addVertex({ latitude, longitude })
+    setLatitudeInput('')
+    setLongitudeInput('')
+  }
+
+  const handleImportGeoJSON = () => {
+    const polygon = parseGeoJSONPolygon(geojsonInput)
+    if (!polygon) {
+      setError(`GeoJSON Polygon 형식이 올바르지 않습니다. (꼭짓점 최대 ${GEOFENCE_CONFIG.maxVertices}개)`)
+      return
+    }
+
+    setError(null)
+    setVertices(toVertices(polygon.coordinates[0]))
+    setHoles(polygon.coordinates.slice(1))
+    setGeojsonInput('')
+  }
+
+  const handleClear = () => {
+    setVertices([])
+    setHoles([])
+    setError(null)
+  }
+
+  const toSvgPoint = (event: ReactPointerEvent<SVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0 || rect.height === 0) {
+      return null
+    }
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * VIEW_SIZE,
+      y: ((event.clientY - rect.top) / rect.height) * VIEW_SIZE
+    }
+  }
+
+  const handleCanvasPointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    // 기준이 될 꼭짓점이 2개 이상일 때만 화면 클릭으로 추가 (축척을 알 수 있어야 함)
+    if (disabled || dragIndex !== null || !bounds || vertices.length < 2) {
+      return
+    }
+    const point = toSvgPoint(event)
+    if (point) {
+      addVertex(fromScreen(point.x, point.y, bounds))
+    }
+  }
+
+  const handleVertexPointerDown = (index: number, event: ReactPointerEvent<SVGCircleElement>) => {
+    if (disabled) {
+      return
+    }
+    event.stopPropagation()
+    // 드래그 중에는 축척이 바뀌지 않도록 현재 범위를 고정
+    setFrozenBounds(bounds)
+    setDragIndex(index)
+  }
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null || !bounds) {
+      return
+    }
+    const point = toSvgPoint(event)
+    if (point) {
+      const moved = fromScreen(point.x, point.y, bounds)
+      setVertices((prev) => prev.map((vertex, i) => (i === dragIndex ? moved : vertex)))
+    }
+  }
+
+  const handlePointerUp = () => {
+    setDragIndex(null)
+    setFrozenBounds(null)
+  }
+
+  const screenPoints = bounds ? vertices.map((vertex) => toScreen(vertex, bounds)) : []
+  const holePaths = bounds
+    ? holes.map((hole) => toVertices(hole).map((vertex) => toScreen(vertex, bounds)))
+    : []
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+          className="w-full max-w-xs aspect-square bg-white border border-gray-200 rounded-lg touch-none select-none"
+          onPointerDown={handleCanvasPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          {screenPoints.length >= 2 && (
+            <polygon
+              points={screenPoints.map((point) => `${point.x},${point.y}`).join(' ')}
+              className="fill-primary-100 stroke-primary-600"
+              strokeWidth={2}
+              fillOpacity={screenPoints.length >= 3 ? 0.6 : 0}
+            />
+          )}
+          {holePaths.map((hole, holeIndex) => (
+            <polygon
+              key={`hole-${holeIndex}`}
+              points={hole.map((point) => `${point.x},${point.y}`).join(' ')}
+              className="fill-white stroke-gray-400"
+              strokeDasharray="4 3"
+            />
+          ))}
+          {screenPoints.map((point, index) => (
+            <g key={index}>
+              <circle
+                cx={point.x}
+                cy={point.y}
+                r={7}
+                className={dragIndex === index ? 'fill-primary-700' : 'fill-primary-500 cursor-move'}
+                onPointerDown={(event) => handleVertexPointerDown(index, event)}
+              />
+              <text x={point.x + 9} y={point.y - 9} className="fill-gray-700 text-[10px]">
+                {index + 1}
+              </text>
+            </g>
+          ))}
+          {vertices.length < 3 && (
+            <text x={VIEW_SIZE / 2} y={VIEW_SIZE - 8} textAnchor="middle" className="fill-gray-400 text-[10px]">
+              꼭짓점을 3개 이상 추가하세요
+            </text>
+          )}
+        </svg>
+        <p className="text-xs text-gray-500">
+          꼭짓점이 2개 이상이면 미리보기를 눌러 꼭짓점을 추가할 수 있고, 꼭짓점을 드래그해 옮길 수 있습니다.
+        </p>
+
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={handleAddCurrentLocation}
+          loading={locating}
+          disabled={disabled || locating}
+          className="w-full"
+        >
+          🎯 현재 위치를 꼭짓점으로 추가
+        </Button>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            label="위도"
+            type="number"
+            step="0.000001"
+            placeholder="예: 36.6291"
+            value={latitudeInput}
+            onChange={(e) => setLatitudeInput(e.target.value)}
+            disabled={disabled}
+          />
+          <Input
+            label="경도"
+            type="number"
+            step="0.000001"
+            placeholder="예: 127.4565"
+            value={longitudeInput}
+            onChange={(e) => setLongitudeInput(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleAddManualVertex}
+          disabled={disabled || !latitudeInput || !longitudeInput}
+          className="w-full"
+        >
+          ✏️ 좌표로 꼭짓점 추가
+        </Button>
+
+        {vertices.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-xs">
+            {vertices.map((vertex, index) => (
+              <li key={index} className="flex items-center justify-between px-3 py-2">
+                <span className="text-gray-700">
+                  {index + 1}. {vertex.latitude.toFixed(6)}, {vertex.longitude.toFixed(6)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeVertex(index)}
+                  disabled={disabled}
+                  className="text-error-600 hover:text-error-800"
+                >
+                  삭제
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Input
+          label={`경계 버퍼 (미터, 0 ~ ${GEOFENCE_CONFIG.maxBufferMeters})`}
+          type="number"
+          min="0"
+          max={String(GEOFENCE_CONFIG.maxBufferMeters)}
+          value={buffer}
+          onChange={(e) => setBuffer(e.target.value)}
+          disabled={disabled}
+          className="max-w-xs"
+        />
+
+        <div>
+          <label htmlFor="geofence-geojson" className="block text-sm font-medium text-gray-700 mb-1">
+            GeoJSON 붙여넣기
+          </label>
+          <textarea
+            id="geofence-geojson"
+            rows={3}
+            value={geojsonInput}
+            onChange={(e) => setGeojsonInput(e.target.value)}
+            disabled={disabled}
+            placeholder='{"type":"Polygon","coordinates":[[[127.4563,36.6290],[127.4567,36.6290],[127.4567,36.6293],[127.4563,36.6293]]]}'
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <div className="flex gap-2 mt-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleImportGeoJSON}
+              disabled={disabled || !geojsonInput.trim()}
+            >
+              불러오기
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleClear}
+              disabled={disabled || (vertices.length === 0 && holes.length === 0)}
+            >
+              모두 지우기
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-error-50 border border-error-200 text-error-800 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg text-xs">
+          💡 강의실 모서리를 따라 돌며 현재 위치를 추가하거나, 지도 서비스에서 확인한 좌표를 입력하세요.
+          경계 밖이라도 버퍼와 GPS 정확도(최대 {GEOFENCE_CONFIG.maxAccuracyMarginMeters}m)만큼은 출석이 인정됩니다.
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,9 +4,11 @@ import { useState, useEffect } from 'react'
 import CurrentLocationButton from './CurrentLocationButton'
 import ManualLocationInput from './ManualLocationInput'
 import PredefinedLocations, { type LocationOption as PredefinedLocationOption } from './PredefinedLocations'
+import GeofencePolygonEditor, { type GeofencePolygonValue } from './GeofencePolygonEditor'
 import { Input } from '@/components/ui'
+import { polygonEnclosingCircle, toPolygonGeofence, type GeoJSONPolygon } from '@/lib/utils/geofence'
 
-export type LocationType = 'predefined' | 'current' | 'manual'
+export type LocationType = 'predefined' | 'current' | 'manual' | 'polygon'
 
 const MIN_RADIUS = 100
 const MAX_RADIUS = 500
@@ -18,6 +20,9 @@ export interface LocationData {
   displayName?: string
   locationType: LocationType
   predefinedLocationId?: string
+  /** 다각형 경계 (있으면 latitude/longitude/radius 는 이를 감싸는 원) */
+  geofence?: GeoJSONPolygon
+  geofenceBuffer?: number
 }
 
 interface LocationSelectorProps {
@@ -59,13 +64,18 @@ function LocationSelector({
     console.log('🏢 Predefined location selected:', location)
     
     if (location) {
+      const polygonGeofence = toPolygonGeofence(location.geofence, location.geofence_buffer)
       const locationData: LocationData = {
         latitude: Number(location.latitude),
         longitude: Number(location.longitude),
         radius: location.radius || Number(radius) || 100,
         displayName: location.display_name,
         locationType: 'predefined',
-        predefinedLocationId: location.id
+        predefinedLocationId: location.id,
+        ...(polygonGeofence && {
+          geofence: polygonGeofence.polygon,
+          geofenceBuffer: polygonGeofence.bufferMeters
+        })
       }
       console.log('🏢 Calling onChange with predefined location:', locationData)
       onChange(locationData)
@@ -120,6 +130,32 @@ function LocationSelector({
     onChange(locationData)
   }
 
+  const handlePolygonChange = (polygonValue: GeofencePolygonValue | null) => {
+    // 다른 모드로 전환된 뒤 늦게 도착한 변경은 무시
+    if (selectedType !== 'polygon') {
+      return
+    }
+
+    if (!polygonValue) {
+      if (value?.locationType === 'polygon') {
+        onChange(null)
+      }
+      return
+    }
+
+    const circle = polygonEnclosingCircle(polygonValue.polygon, polygonValue.bufferMeters)
+    const vertexCount = polygonValue.polygon.coordinates[0].length - 1
+    onChange({
+      latitude: circle.latitude,
+      longitude: circle.longitude,
+      radius: circle.radius,
+      displayName: `다각형 경계 (꼭짓점 ${vertexCount}개)`,
+      locationType: 'polygon',
+      geofence: polygonValue.polygon,
+      geofenceBuffer: polygonValue.bufferMeters
+    })
+  }
+
   const handleRadiusChange = (newRadius: string) => {
     const parsedRadius = Number(newRadius)
     const normalizedRadius = Number.isFinite(parsedRadius)
@@ -253,6 +289,39 @@ function LocationSelector({
             </div>
           </div>
 
+          {/* Polygon Geofence Option */}
+          <div className="flex items-start gap-3">
+            <input
+              type="radio"
+              id="polygon"
+              name="locationType"
+              checked={selectedType === 'polygon'}
+              onChange={(e) => {
+                if (e.target.checked) {
+                  console.log('🔷 Switching to polygon geofence mode')
+                  setSelectedType('polygon')
+                  if (value && value.locationType !== 'polygon') {
+                    onChange(null)
+                  }
+                }
+              }}
+              disabled={disabled}
+              className="mt-1 h-4 w-4 text-primary-600 focus:ring-primary-500"
+            />
+            <div className="flex-1 min-w-0">
+              <label htmlFor="polygon" className="block text-sm font-medium text-gray-700 mb-2">
+                🔷 다각형 경계 그리기
+              </label>
+              {selectedType === 'polygon' && (
+                <GeofencePolygonEditor
+                  value={value?.geofence ? { polygon: value.geofence, bufferMeters: value.geofenceBuffer ?? 0 } : null}
+                  onChange={handlePolygonChange}
+                  disabled={disabled}
+                />
+              )}
+            </div>
+          </div>
+
           {/* Radius Setting (For Current Location) */}
           {selectedType === 'current' && (
             <div className="ml-7 pt-2 border-t border-gray-200">
@@ -280,6 +349,11 @@ function LocationSelector({
                   경도: {value.longitude.toFixed(6)}, 
                   반경: {value.radius}m
                 </div>
+                {value.geofence && (
+                  <div className="text-xs text-success-600 mt-1">
+                    다각형 경계: 꼭짓점 {value.geofence.coordinates[0].length - 1}개, 버퍼 {value.geofenceBuffer ?? 0}m
+                  </div>
+                )}
               </div>
             </div>
           )}
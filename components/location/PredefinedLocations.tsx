@@ -11,6 +11,9 @@ export interface LocationOption {
   latitude: number
   longitude: number
   radius: number
+  /** GeoJSON Polygon 경계 (없으면 원형 반경) */
+  geofence?: unknown
+  geofence_buffer?: number | null
 }
 
 interface BuildingOption {
@@ -5,14 +5,28 @@ import Image from 'next/image'
 import { Card, CardHeader, CardTitle, CardContent, Badge, Button } from '@/components/ui'
 import { QRCodeGenerator, QRCodeData } from '@/lib/qr/qr-generator'
 
+const DEFAULT_ROTATION_SECONDS = 15
+
 interface QRCodeDisplayProps {
   qrData: QRCodeData
+  /** 서명 토큰 회전 주기 (초) */
+  rotationSeconds?: number
+  /** 첫 토큰이 교체되어야 하는 시각 (ISO) */
+  rotatesAt?: string
   onRefresh?: () => void
   onExpire?: () => void
   onEndSession?: () => void
 }
 
-export function QRCodeDisplay({ qrData, onRefresh, onExpire, onEndSession }: QRCodeDisplayProps) {
+export function QRCodeDisplay({
+  qrData,
+  rotationSeconds = DEFAULT_ROTATION_SECONDS,
+  rotatesAt,
+  onRefresh,
+  onExpire,
+  onEndSession
+}: QRCodeDisplayProps) {
+  const [currentQrData, setCurrentQrData] = useState<QRCodeData>(qrData)
   const [qrCodeImage, setQrCodeImage] = useState<string>('')
   const [timeRemaining, setTimeRemaining] = useState<number>(0)
   const [loading, setLoading] = useState(true)
@@ -20,17 +34,65 @@ export function QRCodeDisplay({ qrData, onRefresh, onExpire, onEndSession }: QRC
   const [isEndingSession, setIsEndingSession] = useState(false)
   const [sessionEnded, setSessionEnded] = useState(false)
 
+  useEffect(() => {
+    setCurrentQrData(qrData)
+  }, [qrData])
+
+  // 서명 토큰 회전: 타임스텝이 바뀔 때마다 서버에서 새로 서명된 QR을 받아옴
+  useEffect(() => {
+    if (!qrData.token || sessionEnded) {
+      return
+    }
+
+    const rotationMs = rotationSeconds * 1000
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const scheduleNext = (delayMs: number) => {
+      timer = setTimeout(rotate, Math.min(rotationMs, Math.max(1000, delayMs)))
+    }
+
+    const rotate = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${qrData.sessionId}/qr`, { cache: 'no-store' })
+        const result = await response.json()
+        if (cancelled) return
+
+        if (!response.ok) {
+          // 종료/만료된 세션은 더 이상 회전하지 않음
+          if (response.status !== 410) {
+            scheduleNext(rotationMs)
+          }
+          return
+        }
+
+        setCurrentQrData(result.qrData)
+        scheduleNext(Date.parse(result.rotatesAt) - Date.now())
+      } catch (rotateError) {
+        console.warn('⚠️ [QRCodeDisplay] QR 토큰 갱신 실패:', rotateError)
+        if (!cancelled) {
+          scheduleNext(rotationMs)
+        }
+      }
+    }
+
+    scheduleNext(rotatesAt ? Date.parse(rotatesAt) - Date.now() : rotationMs)
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [qrData, rotationSeconds, rotatesAt, sessionEnded])
+
   // Generate QR code image
   useEffect(() => {
     const generateQRCode = async () => {
       try {
-        console.log('🎯 [QRCodeDisplay] 받은 qrData:', qrData)
-        console.log('🔑 [QRCodeDisplay] sessionId:', qrData.sessionId)
-        console.log('📋 [QRCodeDisplay] 실제 QR로 인코딩할 데이터:', JSON.stringify(qrData))
+        console.log('🔑 [QRCodeDisplay] sessionId:', currentQrData.sessionId)
 
-        setLoading(true)
+        // 회전 시 화면 깜빡임을 막기 위해 로딩 상태는 첫 생성에서만 사용
         setError('')
-        const dataURL = await QRCodeGenerator.generateDataURL(qrData, {
+        const dataURL = await QRCodeGenerator.generateDataURL(currentQrData, {
           width: 300,
           color: {
             dark: '#0369a1',
@@ -46,7 +108,7 @@ export function QRCodeDisplay({ qrData, onRefresh, onExpire, onEndSession }: QRC
     }
 
     generateQRCode()
-  }, [qrData])
+  }, [currentQrData])
 
   // Update countdown timer
   useEffect(() => {
@@ -189,6 +251,11 @@ export function QRCodeDisplay({ qrData, onRefresh, onExpire, onEndSession }: QRC
                 <p className="text-xs text-gray-500">
                   QR코드를 스캔하면 자동으로 출석 페이지로 이동합니다
                 </p>
+                {qrData.token && (
+                  <p className="text-xs text-gray-400">
+                    보안을 위해 QR코드가 {rotationSeconds}초마다 자동으로 바뀝니다
+                  </p>
+                )}
               </>
             )}
           </div>
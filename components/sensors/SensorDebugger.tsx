@@ -26,8 +26,11 @@ export function SensorDebugger({
   const [dataHistory, setDataHistory] = useState<SensorData[]>([])
   const [updateCount, setUpdateCount] = useState(0)
   const [errorMessage, setErrorMessage] = useState<string>('')
+  const [isRecording, setIsRecording] = useState(false)
+  const [gpsFixCount, setGpsFixCount] = useState(0)
 
   const sensorManagerRef = useRef<UnifiedSensorManager | null>(null)
+  const gpsWatchIdRef = useRef<number | null>(null)
 
   // 센서 추적 시작
   const startTracking = async () => {
@@ -64,8 +67,62 @@ export function SensorDebugger({
     }
   }
 
+  // 센서 기록 시작 (센서 데이터 + GPS 측위, JSON Lines)
+  const startRecording = () => {
+    const manager = sensorManagerRef.current
+    if (!manager) return
+
+    manager.startRecording({ description: window.location.pathname })
+    setGpsFixCount(0)
+    setIsRecording(true)
+
+    if ('geolocation' in navigator) {
+      gpsWatchIdRef.current = navigator.geolocation.watchPosition(
+        (position) => {
+          manager.recordGpsFix({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            altitude: position.coords.altitude,
+            altitudeAccuracy: position.coords.altitudeAccuracy,
+            heading: position.coords.heading,
+            speed: position.coords.speed
+          })
+          setGpsFixCount((count) => count + 1)
+        },
+        (error) => console.warn('기록 중 GPS 오류:', error.message),
+        { enableHighAccuracy: true, maximumAge: 0 }
+      )
+    }
+  }
+
+  // 센서 기록 중지 및 파일 저장
+  const stopRecording = () => {
+    if (gpsWatchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(gpsWatchIdRef.current)
+      gpsWatchIdRef.current = null
+    }
+    setIsRecording(false)
+
+    const recorder = sensorManagerRef.current?.stopRecording()
+    if (!recorder || recorder.getStatistics().records === 0) return
+
+    const blob = new Blob([recorder.toJsonl()], { type: 'application/x-ndjson' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `sensor-trace-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
   // 센서 추적 중지
   const stopTracking = () => {
+    if (gpsWatchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(gpsWatchIdRef.current)
+      gpsWatchIdRef.current = null
+    }
+    setIsRecording(false)
     sensorManagerRef.current?.stopTracking()
     sensorManagerRef.current?.destroy()
     sensorManagerRef.current = null
@@ -106,12 +163,20 @@ export function SensorDebugger({
                 ▶ 시작
               </button>
             ) : (
-              <button
-                onClick={stopTracking}
-                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 text-sm font-medium"
-              >
-                ⏹ 중지
-              </button>
+              <>
+                <button
+                  onClick={stopTracking}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 text-sm font-medium"
+                >
+                  ⏹ 중지
+                </button>
+                <button
+                  onClick={isRecording ? stopRecording : startRecording}
+                  className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 text-sm font-medium"
+                >
+                  {isRecording ? `💾 기록 저장 (GPS ${gpsFixCount})` : '⏺ 기록'}
+                </button>
+              </>
             )}
             <button
               onClick={clearData}
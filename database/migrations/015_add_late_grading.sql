@@ -0,0 +1,16 @@
+-- Migration 015: 지각 판정 설정 및 지각 시간 기록
+-- 체크인 시각을 수업 시작 시각(class_sessions.start_time 또는 courses.schedule)과 비교해
+-- present / late / absent 를 판정하기 위한 컬럼 추가
+
+-- 강의별 지각 판정 기준 (분)
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS late_grace_minutes INTEGER NOT NULL DEFAULT 10 CHECK (late_grace_minutes BETWEEN 0 AND 180),
+ADD COLUMN IF NOT EXISTS late_cutoff_minutes INTEGER DEFAULT 30 CHECK (late_cutoff_minutes IS NULL OR late_cutoff_minutes BETWEEN 0 AND 180);
+
+-- 체크인 시점의 지각 시간 (수업 시작 기준, 분)
+ALTER TABLE attendances
+ADD COLUMN IF NOT EXISTS late_minutes INTEGER CHECK (late_minutes IS NULL OR late_minutes >= 0);
+
+COMMENT ON COLUMN courses.late_grace_minutes IS '수업 시작 후 출석(present)으로 인정하는 유예 시간 (분)';
+COMMENT ON COLUMN courses.late_cutoff_minutes IS '수업 시작 후 지각(late)으로 인정하는 마감 시간 (분). 초과 시 결석, NULL이면 마감 없음';
+COMMENT ON COLUMN attendances.late_minutes IS '체크인 시각 기준 수업 시작 후 경과 시간 (분). 출석 인정 시 NULL';
@@ -0,0 +1,80 @@
+-- Migration 016: 출석 이의 신청 (attendance_appeals) 테이블 및 첨부파일 버킷 추가
+
+-- attendance_appeals 테이블 생성
+CREATE TABLE IF NOT EXISTS attendance_appeals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES attendances(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES class_sessions(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  original_status TEXT NOT NULL CHECK (original_status IN ('absent', 'left_early')),
+  requested_status TEXT NOT NULL DEFAULT 'present' CHECK (requested_status IN ('present', 'late')),
+  reason TEXT NOT NULL,
+  attachment_path TEXT,
+  attachment_name TEXT,
+  attachment_type TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  resolved_status TEXT CHECK (resolved_status IN ('present', 'late')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 출석 기록당 대기 중인 이의 신청은 하나만 허용
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_appeals_pending_attendance
+  ON attendance_appeals (attendance_id)
+  WHERE status = 'pending';
+
+-- 교수 처리 대기열 / 학생 신청 내역 조회 인덱스
+CREATE INDEX IF NOT EXISTS idx_attendance_appeals_course_status
+  ON attendance_appeals (course_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_appeals_student_time
+  ON attendance_appeals (student_id, created_at DESC);
+
+-- Row Level Security 적용
+ALTER TABLE attendance_appeals ENABLE ROW LEVEL SECURITY;
+
+-- 학생은 자신의 이의 신청만 조회 가능
+DROP POLICY IF EXISTS "Students can view own attendance appeals" ON attendance_appeals;
+CREATE POLICY "Students can view own attendance appeals"
+  ON attendance_appeals
+  FOR SELECT
+  USING (student_id = auth.uid()::text);
+
+-- 교수는 담당 강의의 이의 신청을 조회 가능
+DROP POLICY IF EXISTS "Professors can view course attendance appeals" ON attendance_appeals;
+CREATE POLICY "Professors can view course attendance appeals"
+  ON attendance_appeals
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM courses c
+      WHERE c.id = attendance_appeals.course_id
+        AND c.professor_id = auth.uid()::text
+    )
+  );
+
+-- 신청/처리는 service role 을 사용하는 API 에서만 수행
+
+DROP POLICY IF EXISTS "Service role manages attendance appeals" ON attendance_appeals;
+CREATE POLICY "Service role manages attendance appeals"
+  ON attendance_appeals
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE attendance_appeals IS '결석/조퇴 판정에 대한 학생 이의 신청 및 교수 처리 기록';
+COMMENT ON COLUMN attendance_appeals.original_status IS '신청 당시 출석 상태 (absent | left_early)';
+COMMENT ON COLUMN attendance_appeals.requested_status IS '학생이 요청한 변경 상태 (present | late)';
+COMMENT ON COLUMN attendance_appeals.resolved_status IS '승인 시 실제로 반영된 출석 상태';
+COMMENT ON COLUMN attendance_appeals.reviewed_by IS '처리한 교수 ID';
+COMMENT ON COLUMN attendance_appeals.attachment_path IS 'attendance-appeals 스토리지 버킷 내 첨부파일 경로';
+
+-- 첨부파일용 비공개 스토리지 버킷 (서명 URL로만 열람)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attendance-appeals', 'attendance-appeals', false)
+ON CONFLICT (id) DO NOTHING;
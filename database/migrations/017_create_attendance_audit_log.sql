@@ -0,0 +1,73 @@
+-- Migration 017: 출석 상태 변경 감사 로그 (attendance_audit_log) 추가
+-- 교수 수동 변경, 이의 신청 승인 등 사람이 바꾼 출석 상태를 모두 기록합니다.
+
+CREATE TABLE IF NOT EXISTS attendance_audit_log (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  -- 감사 기록은 원본이 삭제되어도 남아야 하므로 외래 키를 두지 않음
+  attendance_id UUID NOT NULL,
+  session_id UUID NOT NULL,
+  student_id TEXT NOT NULL,
+  previous_status TEXT CHECK (previous_status IN ('present', 'late', 'absent', 'left_early')),
+  new_status TEXT NOT NULL CHECK (new_status IN ('present', 'late', 'absent', 'left_early')),
+  reason TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual_override', 'appeal')),
+  changed_by TEXT NOT NULL,
+  appeal_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_session_time
+  ON attendance_audit_log (session_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_attendance
+  ON attendance_audit_log (attendance_id, created_at DESC);
+
+-- 추가 전용: UPDATE / DELETE 차단
+CREATE OR REPLACE FUNCTION prevent_attendance_audit_log_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'attendance_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS attendance_audit_log_append_only ON attendance_audit_log;
+CREATE TRIGGER attendance_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON attendance_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_attendance_audit_log_mutation();
+
+-- Row Level Security 적용
+ALTER TABLE attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- 교수는 담당 강의의 변경 이력을 조회 가능
+DROP POLICY IF EXISTS "Professors can view course attendance audit log" ON attendance_audit_log;
+CREATE POLICY "Professors can view course attendance audit log"
+  ON attendance_audit_log
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM class_sessions cs
+      JOIN courses c ON cs.course_id = c.id
+      WHERE cs.id = attendance_audit_log.session_id
+        AND c.professor_id = auth.uid()::text
+    )
+  );
+
+-- 기록은 service role 을 사용하는 API 에서만 추가 (SELECT / INSERT 만 허용)
+DROP POLICY IF EXISTS "Service role reads attendance audit log" ON attendance_audit_log;
+CREATE POLICY "Service role reads attendance audit log"
+  ON attendance_audit_log
+  FOR SELECT
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role appends attendance audit log" ON attendance_audit_log;
+CREATE POLICY "Service role appends attendance audit log"
+  ON attendance_audit_log
+  FOR INSERT
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE attendance_audit_log IS '출석 상태 수동 변경 감사 로그 (추가 전용)';
+COMMENT ON COLUMN attendance_audit_log.previous_status IS '변경 전 상태 (출석 기록을 새로 만든 경우 NULL)';
+COMMENT ON COLUMN attendance_audit_log.source IS '변경 경로 (manual_override | appeal)';
+COMMENT ON COLUMN attendance_audit_log.changed_by IS '변경한 교수 ID';
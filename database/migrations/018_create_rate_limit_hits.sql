@@ -0,0 +1,79 @@
+-- Migration 018: 서버리스 환경 공유 Rate Limit 저장소 (슬라이딩 윈도우)
+-- Vercel 람다는 인스턴스마다 메모리가 분리되므로 요청 기록을 DB에 저장합니다.
+-- RATE_LIMIT_STORE=postgres 일 때 lib/middleware/rate-limit-store.ts 가 사용합니다.
+-- SECURITY DEFINER 함수는 search_path 를 public 으로 고정합니다 (search_path 하이재킹 방지).
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_time
+  ON rate_limit_hits (key, hit_at);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_time
+  ON rate_limit_hits (hit_at);
+
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages rate limit hits" ON rate_limit_hits;
+CREATE POLICY "Service role manages rate limit hits"
+  ON rate_limit_hits
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- 요청 기록 추가 후 윈도우 내 요청 수와 리셋 시각 반환
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hit_count INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  v_window INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+BEGIN
+  -- 같은 키의 동시 요청을 직렬화 (트랜잭션 종료 시 자동 해제)
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits
+  WHERE key = p_key AND hit_at <= v_now - v_window;
+
+  INSERT INTO rate_limit_hits (key, hit_at) VALUES (p_key, v_now);
+
+  -- 다른 키의 오래된 기록은 가끔씩 정리
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits WHERE hit_at < v_now - INTERVAL '1 day';
+  END IF;
+
+  RETURN QUERY
+    SELECT COUNT(*)::INTEGER, MIN(h.hit_at) + v_window
+    FROM rate_limit_hits h
+    WHERE h.key = p_key AND h.hit_at > v_now - v_window;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- 윈도우 내 요청 수 조회 (기록 추가 없음)
+CREATE OR REPLACE FUNCTION rate_limit_count(p_key TEXT, p_window_ms INTEGER)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM rate_limit_hits
+  WHERE key = p_key
+    AND hit_at > clock_timestamp() - make_interval(secs => p_window_ms / 1000.0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+-- 특정 키의 기록 삭제
+CREATE OR REPLACE FUNCTION rate_limit_reset(p_key TEXT)
+RETURNS VOID AS $$
+  DELETE FROM rate_limit_hits WHERE key = p_key;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_count(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_reset(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_count(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_reset(TEXT) TO service_role;
+
+COMMENT ON TABLE rate_limit_hits IS 'API Rate Limit 요청 기록 (슬라이딩 윈도우)';
@@ -0,0 +1,64 @@
+-- Migration 019: 다각형(GeoJSON Polygon) 강의실 경계
+-- 원형 반경 대신 건물/강의실 모양의 다각형 경계와 버퍼(미터)를 저장할 수 있도록 컬럼 추가
+-- 다각형이 있으면 출석 판정에 우선 사용하고, latitude/longitude/radius 는 다각형을 감싸는 원으로 함께 저장
+
+-- 사전 정의 위치의 다각형 경계
+ALTER TABLE predefined_locations
+ADD COLUMN IF NOT EXISTS geofence JSONB,
+ADD COLUMN IF NOT EXISTS geofence_buffer NUMERIC(5, 1) CHECK (geofence_buffer IS NULL OR geofence_buffer BETWEEN 0 AND 50);
+
+-- 세션별 강의실 다각형 경계 (세션 생성 시 복사)
+ALTER TABLE class_sessions
+ADD COLUMN IF NOT EXISTS classroom_geofence JSONB,
+ADD COLUMN IF NOT EXISTS classroom_geofence_buffer NUMERIC(5, 1) CHECK (classroom_geofence_buffer IS NULL OR classroom_geofence_buffer BETWEEN 0 AND 50);
+
+-- GeoJSON Polygon 형태만 허용 (세부 좌표 검증은 애플리케이션에서 수행)
+ALTER TABLE predefined_locations
+DROP CONSTRAINT IF EXISTS predefined_locations_geofence_polygon;
+ALTER TABLE predefined_locations
+ADD CONSTRAINT predefined_locations_geofence_polygon
+CHECK (geofence IS NULL OR (geofence->>'type' = 'Polygon' AND jsonb_typeof(geofence->'coordinates') = 'array'));
+
+ALTER TABLE class_sessions
+DROP CONSTRAINT IF EXISTS class_sessions_classroom_geofence_polygon;
+ALTER TABLE class_sessions
+ADD CONSTRAINT class_sessions_classroom_geofence_polygon
+CHECK (classroom_geofence IS NULL OR (classroom_geofence->>'type' = 'Polygon' AND jsonb_typeof(classroom_geofence->'coordinates') = 'array'));
+
+COMMENT ON COLUMN predefined_locations.geofence IS 'GeoJSON Polygon 경계 ([경도, 위도] 좌표). NULL이면 radius 원형 경계 사용';
+COMMENT ON COLUMN predefined_locations.geofence_buffer IS '다각형 경계 바깥으로 추가 허용하는 거리 (미터)';
+COMMENT ON COLUMN class_sessions.classroom_geofence IS '세션 강의실의 GeoJSON Polygon 경계. NULL이면 classroom_radius 원형 경계 사용';
+COMMENT ON COLUMN class_sessions.classroom_geofence_buffer IS '다각형 경계 바깥으로 추가 허용하는 거리 (미터)';
+
+-- 강의실 목록 RPC가 다각형 경계도 반환하도록 재정의 (반환 형식 변경이라 DROP 후 생성)
+DROP FUNCTION IF EXISTS get_rooms_by_building(TEXT);
+
+CREATE OR REPLACE FUNCTION get_rooms_by_building(p_building_name TEXT)
+RETURNS TABLE(
+  id UUID,
+  room_number TEXT,
+  display_name TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  radius INTEGER,
+  geofence JSONB,
+  geofence_buffer NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pl.id,
+    pl.room_number,
+    pl.display_name,
+    pl.latitude,
+    pl.longitude,
+    pl.radius,
+    pl.geofence,
+    pl.geofence_buffer
+  FROM predefined_locations pl
+  WHERE pl.building_name = p_building_name
+    AND pl.is_active = true
+  ORDER BY pl.room_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
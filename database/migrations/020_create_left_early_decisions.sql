@@ -0,0 +1,61 @@
+-- Migration 020: heartbeat 궤적 기반 조퇴 판정 근거 (left_early_decisions) 추가
+-- 서버가 최근 location_logs 를 강의실 경계로 다시 판정해 조퇴 처리한 경우,
+-- 사용한 규칙과 판정에 쓰인 샘플을 남겨 교수가 근거를 확인할 수 있도록 합니다.
+
+CREATE TABLE IF NOT EXISTS left_early_decisions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES attendances(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES class_sessions(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- 판정 당시 규칙 (N, K, M, 가중치 기준 등)
+  rule JSONB NOT NULL,
+  window_count INTEGER NOT NULL CHECK (window_count >= 0),
+  outside_count INTEGER NOT NULL CHECK (outside_count >= 0),
+  outside_minutes NUMERIC(6, 2) NOT NULL CHECK (outside_minutes >= 0),
+  weighted_outside_ratio NUMERIC(4, 3) NOT NULL CHECK (weighted_outside_ratio BETWEEN 0 AND 1),
+  -- 판정 창의 샘플 (위치, 정확도, 신뢰도, 경계까지 거리, 가중치, 경계 밖 여부)
+  samples JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_left_early_decisions_session
+  ON left_early_decisions (session_id, decided_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_left_early_decisions_attendance
+  ON left_early_decisions (attendance_id);
+
+-- Row Level Security 적용
+ALTER TABLE left_early_decisions ENABLE ROW LEVEL SECURITY;
+
+-- 학생은 본인 판정 근거만 조회
+DROP POLICY IF EXISTS "Students can view own left early decisions" ON left_early_decisions;
+CREATE POLICY "Students can view own left early decisions"
+  ON left_early_decisions
+  FOR SELECT
+  USING (student_id = auth.uid()::text);
+
+-- 교수는 담당 강의의 판정 근거 조회
+DROP POLICY IF EXISTS "Professors can view course left early decisions" ON left_early_decisions;
+CREATE POLICY "Professors can view course left early decisions"
+  ON left_early_decisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM class_sessions cs
+      JOIN courses c ON cs.course_id = c.id
+      WHERE cs.id = left_early_decisions.session_id
+        AND c.professor_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role manages left early decisions" ON left_early_decisions;
+CREATE POLICY "Service role manages left early decisions"
+  ON left_early_decisions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE left_early_decisions IS 'heartbeat 궤적 재생으로 내린 조퇴 판정과 근거 샘플';
+COMMENT ON COLUMN left_early_decisions.rule IS '판정 규칙 스냅샷 (windowSamples, minOutsideSamples, minOutsideMinutes 등)';
+COMMENT ON COLUMN left_early_decisions.samples IS '판정 창의 샘플 목록 (outside=true 인 샘플이 조퇴 판정에 기여)';
@@ -0,0 +1,89 @@
+-- Migration 021: 학생 기기 등록, 기기 재등록 요청, 체크인 기기 식별자 추가
+-- 한 휴대폰으로 여러 학생 계정에 로그인해 대리 출석하는 것을 막기 위해
+-- 로그인 시 기기를 등록하고 체크인 시도에 기기 식별자를 기록합니다.
+
+-- 학생별 등록 기기
+CREATE TABLE IF NOT EXISTS student_devices (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  device_type TEXT,
+  user_agent TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  registered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (student_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_devices_student_status
+  ON student_devices (student_id, status, last_seen_at DESC);
+
+-- 등록 한도를 넘은 기기의 재등록 요청 (관리자 승인)
+CREATE TABLE IF NOT EXISTS device_rebind_requests (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  device_type TEXT,
+  user_agent TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 같은 기기에 대해 대기 중인 요청은 하나만 허용
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_rebind_requests_pending_device
+  ON device_rebind_requests (student_id, device_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_device_rebind_requests_status_time
+  ON device_rebind_requests (status, created_at DESC);
+
+-- 체크인 시도 기기 식별자 (공유 기기 감지용)
+ALTER TABLE attendance_attempts
+  ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_attempts_session_device
+  ON attendance_attempts (session_id, device_id)
+  WHERE device_id IS NOT NULL;
+
+-- Row Level Security 적용
+ALTER TABLE student_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_rebind_requests ENABLE ROW LEVEL SECURITY;
+
+-- 학생은 자신의 기기와 요청만 조회 가능
+DROP POLICY IF EXISTS "Students can view own devices" ON student_devices;
+CREATE POLICY "Students can view own devices"
+  ON student_devices
+  FOR SELECT
+  USING (student_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Students can view own rebind requests" ON device_rebind_requests;
+CREATE POLICY "Students can view own rebind requests"
+  ON device_rebind_requests
+  FOR SELECT
+  USING (student_id = auth.uid()::text);
+
+-- 등록/승인은 service role 을 사용하는 API 에서만 수행
+DROP POLICY IF EXISTS "Service role manages student devices" ON student_devices;
+CREATE POLICY "Service role manages student devices"
+  ON student_devices
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role manages rebind requests" ON device_rebind_requests;
+CREATE POLICY "Service role manages rebind requests"
+  ON device_rebind_requests
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE student_devices IS '학생별 등록 기기 (로그인 시 기기 식별자 등록)';
+COMMENT ON COLUMN student_devices.device_id IS '클라이언트가 생성한 기기 식별자 해시';
+COMMENT ON COLUMN student_devices.status IS 'active: 로그인/체크인 가능, revoked: 재등록 승인으로 해제됨';
+COMMENT ON TABLE device_rebind_requests IS '등록 한도를 넘은 새 기기의 재등록 요청 및 관리자 처리 기록';
+COMMENT ON COLUMN attendance_attempts.device_id IS '체크인 시도 기기 식별자 (로그인 시 등록된 기기)';
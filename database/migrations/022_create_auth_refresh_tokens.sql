@@ -0,0 +1,62 @@
+-- Migration 022: 회전형 리프레시 토큰 (auth_refresh_tokens) 추가
+-- 7일짜리 JWT 대신 짧은 액세스 토큰 + 서버에 저장하는 리프레시 토큰을 사용합니다.
+-- 토큰 원문은 저장하지 않고 SHA-256 해시만 보관하며,
+-- 같은 로그인에서 이어진 토큰들은 family_id 로 묶어 재사용 감지 시 한 번에 폐기합니다.
+
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  family_id UUID NOT NULL,
+  user_id TEXT NOT NULL,
+  user_type TEXT NOT NULL CHECK (user_type IN ('student', 'professor')),
+  -- 토큰 교체 시 액세스 토큰에 다시 담을 이름
+  user_name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  device_id TEXT,
+  user_agent TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- 새 토큰으로 교체된 시각 (교체된 토큰이 다시 쓰이면 재사용으로 판단)
+  rotated_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_family
+  ON auth_refresh_tokens (family_id);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_user_active
+  ON auth_refresh_tokens (user_type, user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_expires
+  ON auth_refresh_tokens (expires_at);
+
+-- Row Level Security 적용 (발급/폐기는 service role 을 사용하는 API 에서만 수행)
+ALTER TABLE auth_refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages refresh tokens" ON auth_refresh_tokens;
+CREATE POLICY "Service role manages refresh tokens"
+  ON auth_refresh_tokens
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- 만료 후 보존 기간이 지난 토큰 정리
+CREATE OR REPLACE FUNCTION purge_expired_refresh_tokens(max_age interval DEFAULT INTERVAL '7 days')
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM auth_refresh_tokens
+  WHERE expires_at < NOW() - max_age;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+COMMENT ON TABLE auth_refresh_tokens IS '회전형 리프레시 토큰 (SHA-256 해시 저장, family 단위 폐기)';
+COMMENT ON COLUMN auth_refresh_tokens.family_id IS '한 번의 로그인에서 이어진 토큰 묶음 ID (액세스 토큰의 sid)';
+COMMENT ON COLUMN auth_refresh_tokens.revoked_reason IS '폐기 사유 (logout | logout_all | reuse_detected)';
+COMMENT ON COLUMN auth_refresh_tokens.rotated_at IS '새 토큰으로 교체된 시각, 교체된 토큰 재사용 시 family 전체 폐기';
+COMMENT ON FUNCTION purge_expired_refresh_tokens IS '만료 후 max_age 가 지난 리프레시 토큰을 삭제합니다.';
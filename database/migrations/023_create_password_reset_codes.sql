@@ -0,0 +1,38 @@
+-- Migration 023: 비밀번호 재설정 코드 (password_reset_codes) 추가
+-- 이메일 없이 교수(담당 강의 수강생) 또는 관리자가 1회용 재설정 코드를 발급합니다.
+-- 코드 원문은 발급 응답에서 한 번만 보여주고 SHA-256 해시만 저장하며,
+-- 사용자별로 가장 최근에 발급한 코드만 유효합니다.
+
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  user_type TEXT NOT NULL CHECK (user_type IN ('student', 'professor')),
+  code_hash TEXT NOT NULL,
+  -- 발급자 (교수번호 또는 관리자 API 호출 시 'admin')
+  issued_by TEXT NOT NULL,
+  issued_by_type TEXT NOT NULL CHECK (issued_by_type IN ('professor', 'admin')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  used_at TIMESTAMP WITH TIME ZONE,
+  -- 새 코드 발급 또는 입력 실패 횟수 초과로 무효화된 시각
+  invalidated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user_active
+  ON password_reset_codes (user_type, user_id, created_at DESC)
+  WHERE used_at IS NULL AND invalidated_at IS NULL;
+
+-- Row Level Security 적용 (발급/사용은 service role 을 사용하는 API 에서만 수행)
+ALTER TABLE password_reset_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages password reset codes" ON password_reset_codes;
+CREATE POLICY "Service role manages password reset codes"
+  ON password_reset_codes
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE password_reset_codes IS '교수/관리자가 발급한 1회용 비밀번호 재설정 코드 (SHA-256 해시 저장)';
+COMMENT ON COLUMN password_reset_codes.failed_attempts IS '잘못된 코드 입력 횟수, 한도 초과 시 코드 무효화';
+COMMENT ON COLUMN auth_refresh_tokens.revoked_reason IS '폐기 사유 (logout | logout_all | reuse_detected | password_reset | password_changed)';
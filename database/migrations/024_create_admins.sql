@@ -0,0 +1,37 @@
+-- Migration 024: 관리자 계정 (admins) 추가
+-- 학생/교수 외에 학과 관리자 역할을 추가합니다. 관리자는 /admin 화면에서
+-- 교수/학생 계정, 강의 담당 교수 변경, 학기 단위 강의 삭제, 기기 재등록 승인을 처리합니다.
+--
+-- 첫 관리자 계정은 SQL Editor 에서 직접 추가합니다 (비밀번호는 bcrypt 해시):
+--   node -e "require('bcryptjs').hash('비밀번호', 12).then(console.log)"
+--   INSERT INTO admins (admin_id, name, password_hash) VALUES ('admin001', '학과 관리자', '<해시>');
+-- 이후 관리자는 /admin 화면 또는 ADMIN_API_KEY 로 다른 계정을 관리할 수 있습니다.
+
+CREATE TABLE IF NOT EXISTS admins (
+  admin_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Row Level Security 적용 (로그인/관리는 service role 을 사용하는 API 에서만 수행)
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages admins" ON admins;
+CREATE POLICY "Service role manages admins"
+  ON admins
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- 관리자 로그인 세션도 리프레시 토큰으로 관리
+ALTER TABLE auth_refresh_tokens DROP CONSTRAINT IF EXISTS auth_refresh_tokens_user_type_check;
+ALTER TABLE auth_refresh_tokens
+  ADD CONSTRAINT auth_refresh_tokens_user_type_check
+  CHECK (user_type IN ('student', 'professor', 'admin'));
+
+-- 관리자 세션에서 발급한 재설정 코드는 발급자에 관리자 ID 를 기록
+COMMENT ON COLUMN password_reset_codes.issued_by IS '발급자 (교수번호, 관리자 ID, 또는 ADMIN_API_KEY 호출 시 admin)';
+
+COMMENT ON TABLE admins IS '학과 관리자 계정 (/admin 화면, 관리자 API)';
@@ -0,0 +1,10 @@
+-- Migration 025: 수강 명단 일괄 등록 및 스캔 자동 등록 설정
+-- 교수가 CSV 명단으로 수강생을 등록한 강의는 QR 스캔만으로 수강 등록되지 않도록
+-- 자동 등록 여부를 강의별로 끌 수 있게 합니다.
+
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS auto_enroll_on_scan BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS roster_imported_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN courses.auto_enroll_on_scan IS 'QR 스캔 시 수강 등록되지 않은 학생을 자동 등록할지 여부. FALSE면 명단에 있는 학생만 출석 가능';
+COMMENT ON COLUMN courses.roster_imported_at IS '마지막으로 CSV 수강 명단을 반영한 시각';
@@ -0,0 +1,9 @@
+-- Migration 026: 오프라인 체크인 캡처 시각 기록
+-- 강의실에서 네트워크가 끊긴 상태로 QR 을 스캔하면 기기에 시도를 저장했다가
+-- 연결이 돌아올 때 서비스 워커가 재전송합니다. 이때 QR 검증과 지각 판정은
+-- 전송 시각이 아니라 스캔(캡처) 시각 기준으로 하며, 그 시각을 시도 기록에 남깁니다.
+
+ALTER TABLE attendance_attempts
+  ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN attendance_attempts.captured_at IS '오프라인 대기열로 재전송된 시도의 스캔 시각 (서버 시계로 보정). 온라인 체크인은 NULL';
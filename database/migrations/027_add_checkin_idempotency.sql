@@ -0,0 +1,20 @@
+-- Migration 027: correlationId 기반 체크인 멱등성
+-- 응답 시간 초과 후 같은 correlationId 로 재시도하면 첫 성공 응답을 그대로 돌려주도록
+-- 성공한 시도에 응답 본문을 저장합니다.
+-- 출석 기록에도 처음 생성한 요청의 correlation_id 를 남겨, 응답 본문이 저장되기 전의 재요청도
+-- 이미 출석(already_present)이 아닌 같은 체크인으로 처리합니다.
+
+ALTER TABLE attendance_attempts
+  ADD COLUMN IF NOT EXISTS response_body JSONB;
+
+COMMENT ON COLUMN attendance_attempts.response_body IS '성공한 체크인 시도의 응답 본문. 같은 correlation_id 재요청 시 그대로 반환';
+
+-- 재요청 시 학생 + correlation_id 로 성공 시도를 조회
+CREATE INDEX IF NOT EXISTS idx_attendance_attempts_student_correlation
+  ON attendance_attempts (student_id, correlation_id)
+  WHERE result = 'success';
+
+ALTER TABLE attendances
+  ADD COLUMN IF NOT EXISTS correlation_id UUID;
+
+COMMENT ON COLUMN attendances.correlation_id IS '출석 기록을 생성한 체크인 요청의 correlation_id (멱등 재요청 판별용)';
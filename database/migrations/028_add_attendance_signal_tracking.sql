@@ -0,0 +1,15 @@
+-- Migration 028: heartbeat 끊김(signal lost) 추적
+-- 출석 기록마다 마지막 heartbeat 시각을 저장해 신호가 끊긴 학생을 출석 중으로 두지 않고 구분하고,
+-- 세션 종료 시 끊긴 채로 남은 기록을 교수 확인 대상으로 표시합니다.
+
+ALTER TABLE attendances
+  ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+COMMENT ON COLUMN attendances.last_heartbeat_at IS '마지막으로 받은 heartbeat 시각 (GPS 정확도와 무관하게 갱신)';
+COMMENT ON COLUMN attendances.review_reason IS '교수 확인이 필요한 사유. signal_lost: heartbeat 가 끊긴 채 세션이 종료됨';
+
+-- 교수 대시보드의 확인 필요 목록 조회
+CREATE INDEX IF NOT EXISTS idx_attendances_session_review
+  ON attendances (session_id)
+  WHERE review_reason IS NOT NULL;
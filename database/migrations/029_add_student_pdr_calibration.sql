@@ -0,0 +1,8 @@
+-- Migration 029: 학생별 PDR 걷기 보정 값
+-- 거리를 아는 구간을 걸은 기록으로 구한 걸음 감지 임계값과 Weinberg K 를 학생 프로필에 저장하고,
+-- 다음 출석부터 PDR 추적기에 불러옵니다.
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS pdr_calibration JSONB;
+
+COMMENT ON COLUMN students.pdr_calibration IS 'PDR 걷기 보정 값 {stepThreshold, weinbergK, averageStepLength, cadence, distance, steps, calibratedAt}. NULL 이면 기본 파라미터 사용';
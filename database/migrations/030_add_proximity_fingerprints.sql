@@ -0,0 +1,25 @@
+-- Migration 030: 강의실 비콘/Wi-Fi 근접 지문
+-- GPS 가 닿지 않는 실내 강의실에서 BLE 비콘이나 Wi-Fi AP 관측을 위치 근거로 쓸 수 있도록
+-- 강의실마다 보여야 하는 비콘/AP ID 와 강의실 안에서 측정한 평균 RSSI 를 저장합니다.
+--
+-- 형식: {"beacons": [{"kind": "ble", "id": "<iBeacon UUID>:<major>:<minor>", "rssi": -62}, {"kind": "wifi", "id": "<BSSID>", "rssi": -55}]}
+--
+-- 예시:
+-- UPDATE predefined_locations
+-- SET proximity_fingerprint = '{"beacons": [
+--   {"kind": "ble", "id": "fda50693-a4e2-4fb1-afcf-c6eb07647825:10:301", "rssi": -61},
+--   {"kind": "ble", "id": "fda50693-a4e2-4fb1-afcf-c6eb07647825:10:302", "rssi": -70},
+--   {"kind": "wifi", "id": "00:1a:2b:3c:4d:5e", "rssi": -52}
+-- ]}'
+-- WHERE building_name = '공학관' AND room_number = '301호';
+
+ALTER TABLE predefined_locations
+  ADD COLUMN IF NOT EXISTS proximity_fingerprint JSONB;
+
+ALTER TABLE predefined_locations
+DROP CONSTRAINT IF EXISTS predefined_locations_proximity_fingerprint_beacons;
+ALTER TABLE predefined_locations
+ADD CONSTRAINT predefined_locations_proximity_fingerprint_beacons
+CHECK (proximity_fingerprint IS NULL OR jsonb_typeof(proximity_fingerprint->'beacons') = 'array');
+
+COMMENT ON COLUMN predefined_locations.proximity_fingerprint IS '강의실 근접 지문 {beacons: [{kind: ble|wifi, id, rssi}]}. NULL 이면 GPS 로만 위치 검증';
@@ -0,0 +1,18 @@
+-- Migration 031: 강의실 층 정보
+-- 같은 건물의 위아래 강의실은 위도/경도가 같아 GPS 로 구분할 수 없으므로
+-- 강의실 층을 저장하고, heartbeat 마다 체크인 기준 층 변화(기압/GPS 고도 추정)를 기록합니다.
+-- 층이 등록된 강의실에서는 층 변화가 0 이 아닌 heartbeat 를 강의실 밖으로 판정합니다.
+--
+-- 예시:
+-- UPDATE predefined_locations SET floor = 3 WHERE building_name = '공학관' AND room_number = '301호';
+-- UPDATE predefined_locations SET floor = 5 WHERE building_name = '공학관' AND room_number = '501호';
+
+ALTER TABLE predefined_locations
+  ADD COLUMN IF NOT EXISTS floor SMALLINT;
+
+COMMENT ON COLUMN predefined_locations.floor IS '강의실 층 (지하는 음수). NULL 이면 층 검증 안 함';
+
+ALTER TABLE location_logs
+  ADD COLUMN IF NOT EXISTS floor_change SMALLINT;
+
+COMMENT ON COLUMN location_logs.floor_change IS '체크인 기준 층 변화 (층이 등록된 강의실에서 고도 추정이 있을 때만)';
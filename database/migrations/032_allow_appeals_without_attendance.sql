@@ -0,0 +1,14 @@
+-- Migration 032: 출석 기록 없는 결석에 대한 이의 신청 허용
+-- 체크인하지 않은 학생은 세션 종료 시 attendances 행이 생기지 않으므로,
+-- 이의 신청을 세션 + 학생 기준으로 받고 승인 시 출석 기록을 새로 만듭니다.
+
+ALTER TABLE attendance_appeals
+  ALTER COLUMN attendance_id DROP NOT NULL;
+
+COMMENT ON COLUMN attendance_appeals.attendance_id IS '이의 대상 출석 기록 (기록 없이 결석 처리된 경우 NULL, 승인 시 생성된 기록으로 채움)';
+
+-- 세션·학생당 대기 중인 이의 신청은 하나만 허용 (출석 기록 유무와 무관)
+DROP INDEX IF EXISTS idx_attendance_appeals_pending_attendance;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_appeals_pending_session_student
+  ON attendance_appeals (session_id, student_id)
+  WHERE status = 'pending';
@@ -0,0 +1,11 @@
+/**
+ * 서버 시작 시 1회 실행 (Next.js instrumentation)
+ *
+ * 프로덕션에서 JWT_SECRET 이 없으면 요청을 받기 전에 시작을 중단합니다.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertAuthConfig } = await import('./lib/config/auth-config')
+    assertAuthConfig()
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser, isAdminApiRequest } from '@/lib/auth'
+
+/**
+ * 관리자 API 호출자
+ *
+ * - session: /admin 화면에서 로그인한 관리자 (adminId = 관리자 ID)
+ * - api_key: 스크립트/배치에서 ADMIN_API_KEY 로 호출 (adminId = 'admin')
+ */
+export interface AdminActor {
+  adminId: string
+  via: 'session' | 'api_key'
+}
+
+/**
+ * 관리자 API 인증 (관리자 세션 또는 ADMIN_API_KEY)
+ *
+ * 실패 시 바로 반환할 수 있는 NextResponse (401/403) 를 돌려줍니다.
+ */
+export async function requireAdmin(request: Request): Promise<AdminActor | NextResponse> {
+  if (isAdminApiRequest(request)) {
+    return { adminId: 'admin', via: 'api_key' }
+  }
+
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (user.userType !== 'admin') {
+    return NextResponse.json({ error: 'Only administrators can access this resource' }, { status: 403 })
+  }
+
+  return { adminId: user.userId, via: 'session' }
+}
@@ -0,0 +1,183 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import {
+  deleteCourses,
+  deleteTermCourses,
+  listTermCourses,
+  reassignCourse,
+  resolveTermRange,
+  summarizeTermCourses,
+  type TermCourseSummary
+} from './admin-console'
+
+test('resolveTermRange covers whole campus days on both ends', () => {
+  const range = resolveTermRange('2025-03-01', '2025-06-30')
+
+  assert.ok(range)
+  // Asia/Seoul(UTC+9) 자정 기준
+  assert.strictEqual(range.from.toISOString(), '2025-02-28T15:00:00.000Z')
+  assert.strictEqual(range.to.toISOString(), '2025-06-30T15:00:00.000Z')
+})
+
+test('resolveTermRange rejects reversed or malformed ranges', () => {
+  assert.strictEqual(resolveTermRange('2025-06-30', '2025-03-01'), null)
+  assert.strictEqual(resolveTermRange('2025/03/01', '2025-06-30'), null)
+  assert.ok(resolveTermRange('2025-03-01', '2025-03-01'))
+})
+
+interface RecordedCall {
+  table: string
+  action: 'select' | 'update' | 'delete'
+  values?: Record<string, unknown>
+  filters: Array<[string, unknown]>
+}
+
+/**
+ * 테이블별 응답을 순서대로 돌려주는 최소 Supabase 쿼리 빌더 mock
+ */
+function createMockSupabase(responses: Record<string, Array<{ data: unknown; error: unknown }>>) {
+  const calls: RecordedCall[] = []
+
+  const client = {
+    from(table: string) {
+      const call: RecordedCall = { table, action: 'select', filters: [] }
+      calls.push(call)
+      const next = () => responses[table]?.shift() ?? { data: null, error: null }
+      const builder = {
+        select() {
+          return builder
+        },
+        update(values: Record<string, unknown>) {
+          Object.assign(call, { action: 'update', values })
+          return builder
+        },
+        delete() {
+          call.action = 'delete'
+          return builder
+        },
+        eq(column: string, value: unknown) {
+          call.filters.push([column, value])
+          return builder
+        },
+        in(column: string, values: unknown) {
+          call.filters.push([column, values])
+          return builder
+        },
+        gte: () => builder,
+        lt: () => builder,
+        order: () => builder,
+        maybeSingle: () => Promise.resolve(next()),
+        then(resolve: (value: { data: unknown; error: unknown }) => void) {
+          resolve(next())
+        }
+      }
+      return builder
+    }
+  }
+
+  return { supabase: client as unknown as SupabaseClient<Database>, calls }
+}
+
+const term = resolveTermRange('2025-03-01', '2025-06-30')!
+
+function termCourse(id: string, overrides: Partial<TermCourseSummary> = {}): TermCourseSummary {
+  return {
+    id,
+    name: `강의 ${id}`,
+    courseCode: id.toUpperCase(),
+    professorId: 'prof-1',
+    professorName: '김교수',
+    createdAt: '2025-03-02T00:00:00.000Z',
+    sessionCount: 0,
+    enrollmentCount: 0,
+    attendanceCount: 0,
+    ...overrides
+  }
+}
+
+test('reassignCourse moves the course to the new professor', async () => {
+  const { supabase, calls } = createMockSupabase({
+    courses: [{ data: { id: 'course-1', professor_id: 'prof-1' }, error: null }],
+    professors: [{ data: { professor_id: 'prof-2', name: '이교수' }, error: null }]
+  })
+
+  const result = await reassignCourse(supabase, 'course-1', 'prof-2', new Date('2025-03-04T01:00:00.000Z'))
+
+  assert.deepStrictEqual(result, {
+    ok: true,
+    course: { id: 'course-1', previousProfessorId: 'prof-1', professorId: 'prof-2', professorName: '이교수' }
+  })
+  const update = calls.find((call) => call.action === 'update')
+  assert.deepStrictEqual(update?.values, { professor_id: 'prof-2', updated_at: '2025-03-04T01:00:00.000Z' })
+  assert.deepStrictEqual(update?.filters, [['id', 'course-1']])
+})
+
+test('reassignCourse leaves the course untouched when the course or professor is missing', async () => {
+  const missingProfessor = createMockSupabase({
+    courses: [{ data: { id: 'course-1', professor_id: 'prof-1' }, error: null }]
+  })
+  const result = await reassignCourse(missingProfessor.supabase, 'course-1', 'prof-9')
+  assert.deepStrictEqual(result, { ok: false, reason: 'professor_not_found' })
+  assert.ok(missingProfessor.calls.every((call) => call.action === 'select'))
+
+  const missingCourse = createMockSupabase({
+    professors: [{ data: { professor_id: 'prof-2', name: '이교수' }, error: null }]
+  })
+  assert.deepStrictEqual(await reassignCourse(missingCourse.supabase, 'course-9', 'prof-2'), {
+    ok: false,
+    reason: 'course_not_found'
+  })
+})
+
+test('listTermCourses counts sessions, enrollments and attendances per course', async () => {
+  const { supabase } = createMockSupabase({
+    courses: [{
+      data: [
+        { id: 'c1', name: '자료구조', course_code: 'CS201', professor_id: 'prof-1', created_at: '2025-03-02T00:00:00.000Z', professors: { name: '김교수' } },
+        { id: 'c2', name: '운영체제', course_code: 'CS301', professor_id: 'prof-2', created_at: '2025-03-03T00:00:00.000Z', professors: [{ name: '이교수' }] }
+      ],
+      error: null
+    }],
+    class_sessions: [{ data: [{ id: 's1', course_id: 'c1' }, { id: 's2', course_id: 'c1' }, { id: 's3', course_id: 'c2' }], error: null }],
+    course_enrollments: [{ data: [{ course_id: 'c1' }, { course_id: 'c1' }, { course_id: 'c1' }], error: null }],
+    attendances: [{ data: [{ session_id: 's1' }, { session_id: 's2' }, { session_id: 's3' }, { session_id: 's1' }], error: null }]
+  })
+
+  const courses = await listTermCourses(supabase, term)
+
+  assert.deepStrictEqual(
+    courses.map((course) => [course.id, course.professorName, course.sessionCount, course.enrollmentCount, course.attendanceCount]),
+    [['c1', '김교수', 2, 3, 3], ['c2', '이교수', 1, 0, 1]]
+  )
+  assert.deepStrictEqual(summarizeTermCourses(courses), { courses: 2, sessions: 3, enrollments: 3, attendances: 4 })
+})
+
+test('deleteCourses deletes only the given courses and returns the deleted ids', async () => {
+  const { supabase, calls } = createMockSupabase({
+    courses: [{ data: [{ id: 'c1' }], error: null }]
+  })
+
+  assert.deepStrictEqual(await deleteCourses(supabase, ['c1', 'c2']), ['c1'])
+  assert.strictEqual(calls[0].action, 'delete')
+  assert.deepStrictEqual(calls[0].filters, [['id', ['c1', 'c2']]])
+
+  const empty = createMockSupabase({})
+  assert.deepStrictEqual(await deleteCourses(empty.supabase, []), [])
+  assert.strictEqual(empty.calls.length, 0)
+})
+
+test('deleteTermCourses refuses to delete when the previewed count no longer matches', async () => {
+  const courses = [termCourse('c1'), termCourse('c2')]
+
+  const changed = createMockSupabase({})
+  assert.deepStrictEqual(await deleteTermCourses(changed.supabase, courses, 1), { ok: false, reason: 'changed' })
+  assert.deepStrictEqual(await deleteTermCourses(changed.supabase, courses, undefined), { ok: false, reason: 'changed' })
+  assert.strictEqual(changed.calls.length, 0)
+
+  const matched = createMockSupabase({
+    courses: [{ data: [{ id: 'c1' }, { id: 'c2' }], error: null }]
+  })
+  assert.deepStrictEqual(await deleteTermCourses(matched.supabase, courses, 2), { ok: true, deletedCourseIds: ['c1', 'c2'] })
+})
@@ -0,0 +1,300 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { campusDateTimeToUtc, toCampusLocal } from '@/lib/session/schedule'
+import { hasDeviceBindingColumns } from '@/lib/courses/schemaSupport'
+
+/**
+ * 관리자 콘솔 데이터 작업
+ *
+ * 학기 단위 강의 삭제는 database/DELETE_OLD_COURSES_GUIDE.md 의 SQL 작업을 대신합니다.
+ * 학기는 별도 컬럼이 없으므로 강의 생성일(캠퍼스 현지 날짜) 기간으로 구분하며,
+ * 강의를 삭제하면 세션/출석/위치 로그/수강 등록이 CASCADE 로 함께 삭제됩니다.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TermRange {
+  /** 기간 시작 (포함) */
+  from: Date
+  /** 기간 끝 다음 날 0시 (미포함) */
+  to: Date
+}
+
+export interface SystemStats {
+  students: number
+  professors: number
+  courses: number
+  enrollments: number
+  sessions: { total: number; active: number }
+  todayAttendance: { date: string; total: number; byStatus: Record<string, number> }
+  pendingDeviceRebinds: number | null
+  pendingAppeals: number
+}
+
+export interface TermCourseSummary {
+  id: string
+  name: string
+  courseCode: string
+  professorId: string
+  professorName: string | null
+  createdAt: string
+  sessionCount: number
+  enrollmentCount: number
+  attendanceCount: number
+}
+
+export interface TermCourseTotals {
+  courses: number
+  sessions: number
+  enrollments: number
+  attendances: number
+}
+
+export type CourseReassignResult =
+  | { ok: true; course: { id: string; previousProfessorId: string; professorId: string; professorName: string } }
+  | { ok: false; reason: 'course_not_found' | 'professor_not_found' | 'error'; error?: unknown }
+
+export type TermCourseDeleteResult =
+  | { ok: true; deletedCourseIds: string[] }
+  | { ok: false; reason: 'changed' }
+
+/**
+ * 학기 기간(YYYY-MM-DD, 양 끝 포함)을 UTC 구간으로 변환
+ */
+export function resolveTermRange(termStart: string, termEnd: string): TermRange | null {
+  const from = campusDateTimeToUtc(termStart, '00:00')
+  const endDay = campusDateTimeToUtc(termEnd, '00:00')
+  if (!from || !endDay || endDay.getTime() < from.getTime()) {
+    return null
+  }
+  return { from, to: new Date(endDay.getTime() + DAY_MS) }
+}
+
+function countByKey<T>(rows: T[], key: (row: T) => string | null): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const row of rows) {
+    const value = key(row)
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+  }
+  return counts
+}
+
+/**
+ * 시스템 전체 현황
+ */
+export async function fetchSystemStats(
+  supabase: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<SystemStats> {
+  const today = toCampusLocal(now).date
+  const todayStart = campusDateTimeToUtc(today, '00:00') ?? now
+
+  const [students, professors, courses, enrollments, sessions, activeSessions, appeals, todayAttendances] = await Promise.all([
+    supabase.from('students').select('student_id', { count: 'exact', head: true }),
+    supabase.from('professors').select('professor_id', { count: 'exact', head: true }),
+    supabase.from('courses').select('id', { count: 'exact', head: true }),
+    supabase.from('course_enrollments').select('id', { count: 'exact', head: true }),
+    supabase.from('class_sessions').select('id', { count: 'exact', head: true }),
+    supabase.from('class_sessions').select('id', { count: 'exact', head: true }).eq('status', 'active'),
+    supabase.from('attendance_appeals').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+    supabase.from('attendances').select('status').gte('created_at', todayStart.toISOString())
+  ])
+
+  const failed = [students, professors, courses, enrollments, sessions, activeSessions, appeals, todayAttendances]
+    .find((result) => result.error)
+  if (failed?.error) {
+    throw failed.error
+  }
+
+  let pendingDeviceRebinds: number | null = null
+  if (await hasDeviceBindingColumns(supabase)) {
+    const { count, error } = await supabase
+      .from('device_rebind_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+    if (error) {
+      throw error
+    }
+    pendingDeviceRebinds = count ?? 0
+  }
+
+  const attendanceRows = todayAttendances.data ?? []
+  return {
+    students: students.count ?? 0,
+    professors: professors.count ?? 0,
+    courses: courses.count ?? 0,
+    enrollments: enrollments.count ?? 0,
+    sessions: { total: sessions.count ?? 0, active: activeSessions.count ?? 0 },
+    todayAttendance: {
+      date: today,
+      total: attendanceRows.length,
+      byStatus: Object.fromEntries(countByKey(attendanceRows, (row) => row.status))
+    },
+    pendingDeviceRebinds,
+    pendingAppeals: appeals.count ?? 0
+  }
+}
+
+/**
+ * 학기 기간에 생성된 강의와 함께 삭제될 데이터 수
+ */
+export async function listTermCourses(
+  supabase: SupabaseClient<Database>,
+  range: TermRange,
+  professorId?: string
+): Promise<TermCourseSummary[]> {
+  let query = supabase
+    .from('courses')
+    .select('id, name, course_code, professor_id, created_at, professors(name)')
+    .gte('created_at', range.from.toISOString())
+    .lt('created_at', range.to.toISOString())
+    .order('created_at', { ascending: true })
+  if (professorId) {
+    query = query.eq('professor_id', professorId)
+  }
+
+  const { data: courses, error } = await query
+  if (error) {
+    throw error
+  }
+  if (!courses || courses.length === 0) {
+    return []
+  }
+
+  const courseIds = courses.map((course) => course.id)
+  const [sessionsResult, enrollmentsResult] = await Promise.all([
+    supabase.from('class_sessions').select('id, course_id').in('course_id', courseIds),
+    supabase.from('course_enrollments').select('course_id').in('course_id', courseIds)
+  ])
+  if (sessionsResult.error) {
+    throw sessionsResult.error
+  }
+  if (enrollmentsResult.error) {
+    throw enrollmentsResult.error
+  }
+
+  const sessions = sessionsResult.data ?? []
+  const courseBySession = new Map(sessions.map((session) => [session.id, session.course_id]))
+  let attendanceCounts = new Map<string, number>()
+  if (sessions.length > 0) {
+    const { data: attendances, error: attendanceError } = await supabase
+      .from('attendances')
+      .select('session_id')
+      .in('session_id', Array.from(courseBySession.keys()))
+    if (attendanceError) {
+      throw attendanceError
+    }
+    attendanceCounts = countByKey(attendances ?? [], (row) => courseBySession.get(row.session_id) ?? null)
+  }
+
+  const sessionCounts = countByKey(sessions, (session) => session.course_id)
+  const enrollmentCounts = countByKey(enrollmentsResult.data ?? [], (row) => row.course_id)
+
+  return courses.map((course) => {
+    const professor = Array.isArray(course.professors) ? course.professors[0] : course.professors
+    return {
+      id: course.id,
+      name: course.name,
+      courseCode: course.course_code,
+      professorId: course.professor_id,
+      professorName: professor?.name ?? null,
+      createdAt: course.created_at,
+      sessionCount: sessionCounts.get(course.id) ?? 0,
+      enrollmentCount: enrollmentCounts.get(course.id) ?? 0,
+      attendanceCount: attendanceCounts.get(course.id) ?? 0
+    }
+  })
+}
+
+/**
+ * 강의 담당 교수 변경
+ */
+export async function reassignCourse(
+  supabase: SupabaseClient<Database>,
+  courseId: string,
+  professorId: string,
+  now: Date = new Date()
+): Promise<CourseReassignResult> {
+  const [{ data: course, error: courseError }, { data: professor, error: professorError }] = await Promise.all([
+    supabase.from('courses').select('id, professor_id').eq('id', courseId).maybeSingle(),
+    supabase.from('professors').select('professor_id, name').eq('professor_id', professorId).maybeSingle()
+  ])
+
+  if (courseError || professorError) {
+    return { ok: false, reason: 'error', error: courseError ?? professorError }
+  }
+  if (!course) {
+    return { ok: false, reason: 'course_not_found' }
+  }
+  if (!professor) {
+    return { ok: false, reason: 'professor_not_found' }
+  }
+
+  const { error } = await supabase
+    .from('courses')
+    .update({ professor_id: professor.professor_id, updated_at: now.toISOString() })
+    .eq('id', course.id)
+  if (error) {
+    return { ok: false, reason: 'error', error }
+  }
+
+  return {
+    ok: true,
+    course: {
+      id: course.id,
+      previousProfessorId: course.professor_id,
+      professorId: professor.professor_id,
+      professorName: professor.name
+    }
+  }
+}
+
+/**
+ * 삭제 대상 강의와 함께 삭제될 데이터 합계
+ */
+export function summarizeTermCourses(courses: TermCourseSummary[]): TermCourseTotals {
+  return {
+    courses: courses.length,
+    sessions: courses.reduce((sum, course) => sum + course.sessionCount, 0),
+    enrollments: courses.reduce((sum, course) => sum + course.enrollmentCount, 0),
+    attendances: courses.reduce((sum, course) => sum + course.attendanceCount, 0)
+  }
+}
+
+/**
+ * 미리보기에서 확인한 강의 수(expectedCount)가 현재 삭제 대상과 같을 때만 일괄 삭제
+ */
+export async function deleteTermCourses(
+  supabase: SupabaseClient<Database>,
+  courses: TermCourseSummary[],
+  expectedCount: number | undefined
+): Promise<TermCourseDeleteResult> {
+  if (expectedCount !== courses.length) {
+    return { ok: false, reason: 'changed' }
+  }
+  return { ok: true, deletedCourseIds: await deleteCourses(supabase, courses.map((course) => course.id)) }
+}
+
+/**
+ * 강의 일괄 삭제 (삭제된 강의 ID 반환)
+ */
+export async function deleteCourses(
+  supabase: SupabaseClient<Database>,
+  courseIds: string[]
+): Promise<string[]> {
+  if (courseIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('courses')
+    .delete()
+    .in('id', courseIds)
+    .select('id')
+  if (error) {
+    throw error
+  }
+  return (data ?? []).map((course) => course.id)
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  buildAppealAttachmentPath,
+  checkAppealEligibility,
+  getAppealDeadline,
+  validateAppealAttachment
+} from './appeals'
+import { AppealCreateSchema } from '@/lib/schemas/appeal'
+
+test('checkAppealEligibility accepts absent and left_early only', () => {
+  const now = new Date('2025-03-05T03:00:00.000Z')
+  assert.strictEqual(checkAppealEligibility({ status: 'absent', sessionDate: '2025-03-04' }, now).eligible, true)
+  assert.strictEqual(checkAppealEligibility({ status: 'left_early', sessionDate: '2025-03-04' }, now).eligible, true)
+  assert.deepStrictEqual(checkAppealEligibility({ status: 'present', sessionDate: '2025-03-04' }, now), {
+    eligible: false,
+    reason: 'status_not_appealable'
+  })
+})
+
+test('checkAppealEligibility closes after the filing window', () => {
+  // 2025-03-04 수업 → 7일 뒤인 03-11 23:59 KST 까지 신청 가능
+  assert.strictEqual(getAppealDeadline('2025-03-04')?.toISOString(), '2025-03-11T15:00:00.000Z')
+  assert.strictEqual(
+    checkAppealEligibility({ status: 'absent', sessionDate: '2025-03-04' }, new Date('2025-03-11T14:59:00.000Z')).eligible,
+    true
+  )
+  assert.deepStrictEqual(
+    checkAppealEligibility({ status: 'absent', sessionDate: '2025-03-04' }, new Date('2025-03-11T15:00:00.000Z')),
+    { eligible: false, reason: 'filing_window_closed' }
+  )
+})
+
+test('validateAppealAttachment rejects unsupported types and oversized files', () => {
+  assert.strictEqual(validateAppealAttachment({ name: 'note.pdf', type: 'application/pdf', size: 1024 }), null)
+  assert.notStrictEqual(validateAppealAttachment({ name: 'note.exe', type: 'application/x-msdownload', size: 1024 }), null)
+  assert.notStrictEqual(validateAppealAttachment({ name: 'big.png', type: 'image/png', size: 6 * 1024 * 1024 }), null)
+})
+
+test('buildAppealAttachmentPath keeps files under the student folder with a safe name', () => {
+  const path = buildAppealAttachmentPath('20250001', 'att-1', '../진단서 (병원).PDF', new Date(1700000000000))
+  assert.strictEqual(path, '20250001/att-1/1700000000000-attachment.pdf')
+  assert.strictEqual(
+    buildAppealAttachmentPath('20250001', 'att-1', 'medical note.jpg', new Date(1700000000000)),
+    '20250001/att-1/1700000000000-medical_note.jpg'
+  )
+})
+
+test('AppealCreateSchema accepts session-keyed appeals for absences without an attendance record', () => {
+  const reason = '병원 진료로 수업에 참석하지 못했습니다.'
+  const bySession = AppealCreateSchema.safeParse({ sessionId: '3f1c2a9e-8b7d-4c6e-9a5b-1d2e3f4a5b6c', reason })
+  assert.strictEqual(bySession.success, true)
+  assert.strictEqual(bySession.success && bySession.data.attendanceId, undefined)
+  assert.strictEqual(AppealCreateSchema.safeParse({ reason }).success, false)
+})
@@ -0,0 +1,104 @@
+import { APPEAL_CONFIG } from '@/lib/config/attendance-config'
+import { campusDateTimeToUtc } from '@/lib/session/schedule'
+
+/**
+ * 출석 이의 신청 규칙
+ *
+ * 결석/조퇴로 판정된 출석 기록에 대해 학생이 사유와 증빙을 제출하고,
+ * 교수가 승인하면 출석 상태를 요청한 상태로 되돌립니다.
+ */
+
+export type AppealableStatus = 'absent' | 'left_early'
+export type AppealRequestedStatus = 'present' | 'late'
+export type AppealStatus = 'pending' | 'approved' | 'rejected'
+
+export const APPEALABLE_STATUSES: readonly AppealableStatus[] = ['absent', 'left_early']
+
+export type AppealIneligibleReason = 'status_not_appealable' | 'filing_window_closed'
+
+export interface AppealAttachmentInfo {
+  name: string
+  type: string
+  size: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isAppealableStatus(status: string | null | undefined): status is AppealableStatus {
+  return APPEALABLE_STATUSES.includes(status as AppealableStatus)
+}
+
+/**
+ * 이의 신청 마감 시각 (수업일 자정 기준 filingWindowDays 일 뒤의 자정, 캠퍼스 현지 시각)
+ */
+export function getAppealDeadline(sessionDate: string | null | undefined): Date | null {
+  if (!sessionDate) {
+    return null
+  }
+  const dayStart = campusDateTimeToUtc(sessionDate, '00:00')
+  return dayStart ? new Date(dayStart.getTime() + (APPEAL_CONFIG.filingWindowDays + 1) * DAY_MS) : null
+}
+
+/**
+ * 출석 기록이 이의 신청 대상인지 확인
+ */
+export function checkAppealEligibility(
+  attendance: { status: string; sessionDate?: string | null },
+  now: Date = new Date()
+): { eligible: true; deadline: Date | null } | { eligible: false; reason: AppealIneligibleReason } {
+  if (!isAppealableStatus(attendance.status)) {
+    return { eligible: false, reason: 'status_not_appealable' }
+  }
+
+  const deadline = getAppealDeadline(attendance.sessionDate)
+  if (deadline && now.getTime() >= deadline.getTime()) {
+    return { eligible: false, reason: 'filing_window_closed' }
+  }
+
+  return { eligible: true, deadline }
+}
+
+/**
+ * 첨부파일 형식/크기 검증 (문제가 없으면 null)
+ */
+export function validateAppealAttachment(file: AppealAttachmentInfo): string | null {
+  if (!(APPEAL_CONFIG.allowedAttachmentTypes as readonly string[]).includes(file.type)) {
+    return '첨부파일은 JPG, PNG, PDF 형식만 업로드할 수 있습니다'
+  }
+  if (file.size <= 0) {
+    return '빈 파일은 첨부할 수 없습니다'
+  }
+  if (file.size > APPEAL_CONFIG.maxAttachmentBytes) {
+    return `첨부파일은 ${Math.round(APPEAL_CONFIG.maxAttachmentBytes / 1024 / 1024)}MB 이하여야 합니다`
+  }
+  return null
+}
+
+/**
+ * 스토리지 저장 경로 생성 (학생별 폴더, 원본 파일명은 안전한 문자만 유지)
+ */
+export function buildAppealAttachmentPath(
+  studentId: string,
+  attendanceId: string,
+  fileName: string,
+  now: Date = new Date()
+): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+  const baseName = fileName
+    .slice(0, extension ? -(extension.length + 1) : undefined)
+    .replace(/[^A-Za-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60) || 'attachment'
+  const safeExtension = extension.replace(/[^a-z0-9]/g, '')
+  return `${studentId}/${attendanceId}/${now.getTime()}-${baseName}${safeExtension ? `.${safeExtension}` : ''}`
+}
+
+/**
+ * 승인 시 반영할 출석 상태 결정 (교수가 지정하지 않으면 학생 요청 상태)
+ */
+export function resolveApprovedStatus(
+  requestedStatus: AppealRequestedStatus,
+  override?: AppealRequestedStatus
+): AppealRequestedStatus {
+  return override ?? requestedStatus
+}
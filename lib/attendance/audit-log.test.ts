@@ -0,0 +1,122 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { applyAttendanceStatusChange, type AttendanceStatusChange } from './audit-log'
+
+interface RecordedCall {
+  table: string
+  action: 'update' | 'insert' | 'delete'
+  values?: Record<string, unknown>
+  filters: Array<[string, unknown]>
+}
+
+/**
+ * 테이블별 응답을 지정하는 최소 Supabase 쿼리 빌더 mock
+ */
+function createMockSupabase(responses: Record<string, Array<{ data: unknown; error: unknown }>>) {
+  const calls: RecordedCall[] = []
+
+  const client = {
+    from(table: string) {
+      const call: RecordedCall = { table, action: 'update', filters: [] }
+      const builder = {
+        update(values: Record<string, unknown>) {
+          Object.assign(call, { action: 'update', values })
+          calls.push(call)
+          return builder
+        },
+        insert(values: Record<string, unknown>) {
+          Object.assign(call, { action: 'insert', values })
+          calls.push(call)
+          return builder
+        },
+        delete() {
+          call.action = 'delete'
+          calls.push(call)
+          return builder
+        },
+        eq(column: string, value: unknown) {
+          call.filters.push([column, value])
+          return builder
+        },
+        select() {
+          return builder
+        },
+        maybeSingle: () => Promise.resolve(responses[table]?.shift() ?? { data: null, error: null }),
+        single: () => Promise.resolve(responses[table]?.shift() ?? { data: null, error: null }),
+        then(resolve: (value: { data: null; error: null }) => void) {
+          resolve({ data: null, error: null })
+        }
+      }
+      return builder
+    }
+  }
+
+  return { supabase: client as unknown as SupabaseClient<Database>, calls }
+}
+
+const baseChange: AttendanceStatusChange = {
+  attendanceId: 'att-1',
+  sessionId: 'session-1',
+  studentId: '20250001',
+  previousStatus: 'absent',
+  newStatus: 'present',
+  reason: '휴대폰 배터리 방전, 출석 확인함',
+  source: 'manual_override',
+  changedBy: 'prof-1'
+}
+
+test('applyAttendanceStatusChange updates the record only from the expected status and appends an audit entry', async () => {
+  const { supabase, calls } = createMockSupabase({
+    attendances: [{ data: { id: 'att-1' }, error: null }],
+    attendance_audit_log: [{ data: { id: 'log-1', new_status: 'present' }, error: null }]
+  })
+
+  const result = await applyAttendanceStatusChange(supabase, baseChange, new Date('2025-03-04T01:00:00.000Z'))
+
+  assert.strictEqual(result.ok, true)
+  assert.deepStrictEqual(calls[0].filters, [['id', 'att-1'], ['status', 'absent']])
+  assert.strictEqual(calls[1].table, 'attendance_audit_log')
+  assert.strictEqual(calls[1].values?.previous_status, 'absent')
+  assert.strictEqual(calls[1].values?.new_status, 'present')
+  assert.strictEqual(calls[1].values?.changed_by, 'prof-1')
+})
+
+test('applyAttendanceStatusChange reports a conflict when the status changed meanwhile', async () => {
+  const { supabase, calls } = createMockSupabase({ attendances: [{ data: null, error: null }] })
+
+  const result = await applyAttendanceStatusChange(supabase, baseChange)
+
+  assert.deepStrictEqual(result, { ok: false, reason: 'conflict' })
+  assert.strictEqual(calls.some((call) => call.table === 'attendance_audit_log'), false)
+})
+
+test('applyAttendanceStatusChange reverts the status when the audit entry cannot be written', async () => {
+  const { supabase, calls } = createMockSupabase({
+    attendances: [{ data: { id: 'att-1' }, error: null }],
+    attendance_audit_log: [{ data: null, error: { message: 'insert failed' } }]
+  })
+
+  const result = await applyAttendanceStatusChange(supabase, baseChange)
+
+  assert.strictEqual(result.ok, false)
+  const revert = calls[2]
+  assert.strictEqual(revert.table, 'attendances')
+  assert.strictEqual(revert.values?.status, 'absent')
+  assert.deepStrictEqual(revert.filters, [['id', 'att-1'], ['status', 'present']])
+})
+
+test('applyAttendanceStatusChange creates a missing attendance record with a null previous status', async () => {
+  const { supabase, calls } = createMockSupabase({
+    attendances: [{ data: { id: 'att-new' }, error: null }],
+    attendance_audit_log: [{ data: { id: 'log-1' }, error: null }]
+  })
+
+  const result = await applyAttendanceStatusChange(supabase, { ...baseChange, attendanceId: null, previousStatus: null })
+
+  assert.deepStrictEqual(result.ok && result.attendanceId, 'att-new')
+  assert.strictEqual(calls[0].action, 'insert')
+  assert.strictEqual(calls[1].values?.attendance_id, 'att-new')
+  assert.strictEqual(calls[1].values?.previous_status, null)
+})
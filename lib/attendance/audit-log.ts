@@ -0,0 +1,143 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+
+/**
+ * 출석 상태 수동 변경 + 감사 로그 기록
+ *
+ * 체크인/heartbeat/세션 종료 집계 외에 사람이 출석 상태를 바꾸는 경로(교수 수동 변경, 이의 신청 승인)는
+ * 모두 이 함수를 거쳐 attendance_audit_log 에 변경 전후 상태를 남깁니다.
+ */
+
+export type AttendanceStatusValue = 'present' | 'late' | 'absent' | 'left_early'
+export type AttendanceChangeSource = Database['public']['Tables']['attendance_audit_log']['Row']['source']
+export type AttendanceAuditEntry = Database['public']['Tables']['attendance_audit_log']['Row']
+
+export const ATTENDANCE_STATUS_VALUES: readonly AttendanceStatusValue[] = ['present', 'late', 'absent', 'left_early']
+
+export interface AttendanceStatusChange {
+  /** 기존 출석 기록 ID (없으면 새로 생성) */
+  attendanceId: string | null
+  sessionId: string
+  studentId: string
+  /** 변경 전 상태, 조회 이후 다른 경로로 바뀌었으면 충돌로 처리 */
+  previousStatus: AttendanceStatusValue | null
+  newStatus: AttendanceStatusValue
+  reason: string
+  source: AttendanceChangeSource
+  changedBy: string
+  appealId?: string | null
+}
+
+export type AttendanceStatusChangeResult =
+  | { ok: true; attendanceId: string; entry: AttendanceAuditEntry }
+  | { ok: false; reason: 'conflict' | 'error'; error?: unknown }
+
+const AUDIT_COLUMNS = 'id, attendance_id, session_id, student_id, previous_status, new_status, reason, source, changed_by, appeal_id, created_at'
+
+/**
+ * 출석 상태를 바꾸고 감사 로그를 추가
+ *
+ * 감사 로그 기록에 실패하면 출석 상태 변경을 되돌려, 기록 없는 변경이 남지 않도록 합니다.
+ */
+export async function applyAttendanceStatusChange(
+  supabase: SupabaseClient<Database>,
+  change: AttendanceStatusChange,
+  now: Date = new Date()
+): Promise<AttendanceStatusChangeResult> {
+  const timestamp = now.toISOString()
+  let attendanceId = change.attendanceId
+
+  if (attendanceId) {
+    let update = supabase
+      .from('attendances')
+      .update({ status: change.newStatus, updated_at: timestamp })
+      .eq('id', attendanceId)
+    if (change.previousStatus) {
+      update = update.eq('status', change.previousStatus)
+    }
+
+    const { data, error } = await update.select('id').maybeSingle()
+    if (error) {
+      return { ok: false, reason: 'error', error }
+    }
+    if (!data) {
+      return { ok: false, reason: 'conflict' }
+    }
+  } else {
+    const { data, error } = await supabase
+      .from('attendances')
+      .insert({
+        session_id: change.sessionId,
+        student_id: change.studentId,
+        status: change.newStatus,
+        location_verified: false
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      // 그 사이 학생이 체크인해 기록이 생긴 경우
+      return error?.code === '23505' ? { ok: false, reason: 'conflict' } : { ok: false, reason: 'error', error }
+    }
+    attendanceId = data.id
+  }
+
+  const { data: entry, error: auditError } = await supabase
+    .from('attendance_audit_log')
+    .insert({
+      attendance_id: attendanceId,
+      session_id: change.sessionId,
+      student_id: change.studentId,
+      previous_status: change.previousStatus,
+      new_status: change.newStatus,
+      reason: change.reason,
+      source: change.source,
+      changed_by: change.changedBy,
+      appeal_id: change.appealId ?? null,
+      created_at: timestamp
+    })
+    .select(AUDIT_COLUMNS)
+    .single()
+
+  if (auditError || !entry) {
+    console.error('[Attendance Audit] 감사 로그 기록 실패, 변경을 되돌립니다:', auditError)
+    if (change.attendanceId && change.previousStatus) {
+      await supabase
+        .from('attendances')
+        .update({ status: change.previousStatus, updated_at: new Date().toISOString() })
+        .eq('id', attendanceId)
+        .eq('status', change.newStatus)
+    } else if (!change.attendanceId) {
+      await supabase.from('attendances').delete().eq('id', attendanceId)
+    }
+    return { ok: false, reason: 'error', error: auditError }
+  }
+
+  return { ok: true, attendanceId, entry }
+}
+
+/**
+ * 세션의 출석 변경 이력 (최신순)
+ */
+export async function fetchSessionAuditLog(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  studentId?: string
+): Promise<AttendanceAuditEntry[]> {
+  let query = supabase
+    .from('attendance_audit_log')
+    .select(AUDIT_COLUMNS)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (studentId) {
+    query = query.eq('student_id', studentId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw error
+  }
+  return data ?? []
+}
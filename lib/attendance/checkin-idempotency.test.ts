@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { findStoredCheckInResponse } from './checkin-idempotency'
+
+const CORRELATION_ID = '4f7c2a1e-9b3d-4c8e-a6f0-1d2e3f4a5b6c'
+
+/**
+ * 테이블별 maybeSingle 응답과 eq 필터를 기록하는 최소 Supabase 쿼리 빌더 mock
+ */
+function createMockSupabase(responses: Record<string, { data: unknown; error: unknown }>) {
+  const filters: Record<string, Array<[string, unknown]>> = {}
+
+  const client = {
+    from(table: string) {
+      filters[table] = []
+      const builder = {
+        select: () => builder,
+        not: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        eq(column: string, value: unknown) {
+          filters[table].push([column, value])
+          return builder
+        },
+        maybeSingle: () => Promise.resolve(responses[table] ?? { data: null, error: null })
+      }
+      return builder
+    }
+  }
+
+  return { supabase: client as unknown as SupabaseClient<Database>, filters }
+}
+
+test('findStoredCheckInResponse replays the stored body for the same session only', async () => {
+  const { supabase, filters } = createMockSupabase({
+    attendance_attempts: { data: { response_body: { success: true, attendanceId: 'att-1' } }, error: null }
+  })
+
+  const response = await findStoredCheckInResponse(supabase, '20250001', 'session-1', CORRELATION_ID)
+
+  assert.deepStrictEqual(response, { success: true, attendanceId: 'att-1' })
+  assert.deepStrictEqual(filters.attendance_attempts, [
+    ['student_id', '20250001'],
+    ['session_id', 'session-1'],
+    ['correlation_id', CORRELATION_ID],
+    ['result', 'success']
+  ])
+  assert.strictEqual(filters.attendances, undefined)
+})
+
+test('findStoredCheckInResponse rebuilds the response from an attendance created before the body was stored', async () => {
+  const { supabase, filters } = createMockSupabase({
+    attendances: {
+      data: { id: 'att-1', status: 'late', check_in_time: '2025-03-04T00:17:00.000Z', late_minutes: 17, location_verified: true },
+      error: null
+    }
+  })
+
+  const response = await findStoredCheckInResponse(supabase, '20250001', 'session-1', CORRELATION_ID)
+
+  assert.strictEqual(response?.attendanceId, 'att-1')
+  assert.strictEqual(response?.status, 'late')
+  assert.strictEqual(response?.lateMinutes, 17)
+  assert.strictEqual(response?.checkInTime, '2025-03-04T00:17:00.000Z')
+  assert.deepStrictEqual(filters.attendances, [
+    ['session_id', 'session-1'],
+    ['student_id', '20250001'],
+    ['correlation_id', CORRELATION_ID]
+  ])
+
+  // 다른 요청이 만든 기록(또는 기록 없음)은 재요청으로 보지 않음
+  const other = createMockSupabase({})
+  assert.strictEqual(await findStoredCheckInResponse(other.supabase, '20250001', 'session-1', CORRELATION_ID), null)
+})
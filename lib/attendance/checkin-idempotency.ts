@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/supabase'
+import { describeCheckInStatus } from '@/lib/attendance/late-policy'
+
+/**
+ * correlationId 기반 체크인 멱등성
+ *
+ * 성공한 시도(attendance_attempts.result = 'success')에 응답 본문을 저장해 두고,
+ * 같은 학생이 같은 세션에 같은 correlationId로 다시 요청하면 검증을 다시 하지 않고 저장된 응답을 돌려줍니다.
+ * 출석 기록 생성과 응답 저장 사이의 재요청은 출석 기록의 correlation_id 로 알아보고 기록에서 응답을 만듭니다.
+ * (마이그레이션 027 미적용 시 기존처럼 매 요청을 새로 처리)
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** attendance_attempts.correlation_id 가 UUID 컬럼이므로 UUID 형식만 조회 */
+export function isIdempotencyKey(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+export async function findStoredCheckInResponse(
+  supabase: SupabaseClient<Database>,
+  studentId: string,
+  sessionId: string,
+  correlationId: string
+): Promise<Record<string, Json | undefined> | null> {
+  const { data, error } = await supabase
+    .from('attendance_attempts')
+    .select('response_body, created_at')
+    .eq('student_id', studentId)
+    .eq('session_id', sessionId)
+    .eq('correlation_id', correlationId)
+    .eq('result', 'success')
+    .not('response_body', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const body = data?.response_body
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    return body
+  }
+
+  // 출석 기록은 생성됐지만 응답 본문이 아직 저장되지 않은 경우
+  const { data: attendance, error: attendanceError } = await supabase
+    .from('attendances')
+    .select('id, status, check_in_time, late_minutes, location_verified')
+    .eq('session_id', sessionId)
+    .eq('student_id', studentId)
+    .eq('correlation_id', correlationId)
+    .maybeSingle()
+
+  if (attendanceError) {
+    throw attendanceError
+  }
+  if (!attendance || (attendance.status !== 'present' && attendance.status !== 'late')) {
+    return null
+  }
+
+  const lateMinutes = attendance.late_minutes ?? 0
+  return {
+    success: true,
+    attendanceId: attendance.id,
+    sessionId,
+    status: attendance.status,
+    lateMinutes,
+    message: describeCheckInStatus(attendance.status, lateMinutes),
+    locationVerified: attendance.location_verified ?? true,
+    checkInTime: attendance.check_in_time,
+    correlationId
+  }
+}
@@ -0,0 +1,86 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { computeBackoffDelay, postCheckInWithRetry, requestCheckInTicket } from './checkin-retry'
+
+const options = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 8000 }
+
+test('computeBackoffDelay doubles per retry, caps, and jitters within 50-100%', () => {
+  assert.strictEqual(computeBackoffDelay(0, options, () => 1), 1000)
+  assert.strictEqual(computeBackoffDelay(2, options, () => 1), 4000)
+  assert.strictEqual(computeBackoffDelay(5, options, () => 1), 8000)
+  assert.strictEqual(computeBackoffDelay(2, options, () => 0), 2000)
+})
+
+test('postCheckInWithRetry resends the same correlationId after network and 5xx failures', async () => {
+  const bodies: Array<Record<string, unknown>> = []
+  const delays: number[] = []
+  const responses: Array<() => Response> = [
+    () => { throw new TypeError('Failed to fetch') },
+    () => new Response('{}', { status: 503 }),
+    () => new Response(JSON.stringify({ success: true }), { status: 200 })
+  ]
+
+  const response = await postCheckInWithRetry(
+    () => ({ correlationId: 'fixed-id', clientTimestamp: new Date().toISOString() }),
+    options,
+    {
+      fetchImpl: async (_url, init) => {
+        bodies.push(JSON.parse(String(init?.body)))
+        return responses[bodies.length - 1]()
+      },
+      sleep: async (ms) => { delays.push(ms) },
+      random: () => 1
+    }
+  )
+
+  assert.strictEqual(response.status, 200)
+  assert.deepStrictEqual(bodies.map((body) => body.correlationId), ['fixed-id', 'fixed-id', 'fixed-id'])
+  assert.deepStrictEqual(delays, [1000, 2000])
+})
+
+test('postCheckInWithRetry returns validation failures without retrying and rethrows the last network error', async () => {
+  let calls = 0
+  const rejected = await postCheckInWithRetry(() => ({}), options, {
+    fetchImpl: async () => {
+      calls++
+      return new Response(JSON.stringify({ code: 'invalid_location' }), { status: 400 })
+    },
+    sleep: async () => {}
+  })
+  assert.strictEqual(rejected.status, 400)
+  assert.strictEqual(calls, 1)
+
+  calls = 0
+  await assert.rejects(
+    postCheckInWithRetry(() => ({}), options, {
+      fetchImpl: async () => {
+        calls++
+        throw new TypeError('Failed to fetch')
+      },
+      sleep: async () => {}
+    }),
+    TypeError
+  )
+  assert.strictEqual(calls, options.maxAttempts)
+})
+
+test('requestCheckInTicket returns the ticket, falls back on network errors and surfaces rejected QR codes', async () => {
+  const ticket = await requestCheckInTicket('session-1', 'qr-token', async (url, init) => {
+    assert.strictEqual(url, '/api/attendance/checkin/ticket')
+    assert.deepStrictEqual(JSON.parse(String(init?.body)), { sessionId: 'session-1', qrToken: 'qr-token' })
+    return new Response(JSON.stringify({ success: true, ticket: 'ticket-1' }), { status: 200 })
+  })
+  assert.strictEqual(ticket, 'ticket-1')
+
+  // 오프라인이면 QR 토큰으로 체크인/대기열 저장을 이어감
+  assert.strictEqual(await requestCheckInTicket('session-1', 'qr-token', async () => { throw new TypeError('Failed to fetch') }), null)
+  assert.strictEqual(await requestCheckInTicket('session-1', 'qr-token', async () => new Response('{}', { status: 503 })), null)
+
+  await assert.rejects(
+    requestCheckInTicket('session-1', 'qr-token', async () => new Response(
+      JSON.stringify({ error: 'QR 코드가 갱신되었습니다.', code: 'qr_rotated' }),
+      { status: 400 }
+    )),
+    /QR 코드가 갱신되었습니다/
+  )
+})
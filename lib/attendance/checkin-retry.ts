@@ -0,0 +1,133 @@
+/**
+ * 체크인 요청 자동 재시도 (클라이언트)
+ *
+ * 응답을 받지 못했거나(네트워크 오류) 서버가 일시 오류(408/429/5xx)를 돌려주면
+ * 지수 백오프로 다시 보냅니다. 매 시도는 같은 correlationId를 사용하므로
+ * 첫 요청이 실제로는 처리되었더라도 서버가 저장된 첫 성공 응답을 돌려줍니다.
+ */
+
+export interface CheckInRetryOptions {
+  /** 첫 요청을 포함한 최대 전송 횟수 */
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const CHECKIN_RETRY_DEFAULTS: CheckInRetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000
+}
+
+export interface CheckInRetryHooks {
+  fetchImpl?: typeof fetch
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+  onRetry?: (retryIndex: number, delayMs: number, reason: string) => void
+}
+
+/**
+ * n번째 재시도 전 대기 시간 (base * 2^n, 상한 적용 후 50~100% 지터)
+ */
+export function computeBackoffDelay(
+  retryIndex: number,
+  options: Pick<CheckInRetryOptions, 'baseDelayMs' | 'maxDelayMs'> = CHECKIN_RETRY_DEFAULTS,
+  random: () => number = Math.random
+): number {
+  const capped = Math.min(options.baseDelayMs * 2 ** retryIndex, options.maxDelayMs)
+  return Math.round(capped / 2 + (capped / 2) * random())
+}
+
+export function isTransientCheckInStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+function readRetryAfterMs(response: Response): number | null {
+  const seconds = Number(response.headers.get('Retry-After'))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null
+}
+
+/**
+ * 체크인 요청 전송 (일시 오류 시 같은 correlationId로 재시도)
+ *
+ * 요청 본문은 매 시도마다 새로 만들어 clientTimestamp가 전송 시각을 반영하도록 합니다.
+ * 마지막 시도까지 네트워크 오류면 그 오류를 그대로 던집니다 (호출 측에서 오프라인 대기열 처리).
+ */
+export async function postCheckInWithRetry(
+  buildBody: () => Record<string, unknown>,
+  options: CheckInRetryOptions = CHECKIN_RETRY_DEFAULTS,
+  hooks: CheckInRetryHooks = {}
+): Promise<Response> {
+  const fetchImpl = hooks.fetchImpl ?? fetch
+  const sleep = hooks.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= options.maxAttempts - 1
+    let response: Response
+    try {
+      response = await fetchImpl('/api/attendance/checkin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildBody())
+      })
+    } catch (error) {
+      // 오프라인이 확실하면 기다려도 소용없으므로 바로 포기
+      const offline = typeof navigator !== 'undefined' && navigator.onLine === false
+      if (isLastAttempt || offline) {
+        throw error
+      }
+      const delayMs = computeBackoffDelay(attempt, options, hooks.random)
+      hooks.onRetry?.(attempt + 1, delayMs, 'network')
+      await sleep(delayMs)
+      continue
+    }
+
+    if (isLastAttempt || !isTransientCheckInStatus(response.status)) {
+      return response
+    }
+
+    const delayMs = Math.min(
+      readRetryAfterMs(response) ?? computeBackoffDelay(attempt, options, hooks.random),
+      options.maxDelayMs
+    )
+    hooks.onRetry?.(attempt + 1, delayMs, `status_${response.status}`)
+    await sleep(delayMs)
+  }
+}
+
+/**
+ * 스캔 직후 QR 토큰을 체크인 티켓으로 교환
+ *
+ * 위치 측정 중 QR 이 회전해도 체크인이 거부되지 않도록 스캔하자마자 호출합니다.
+ * 네트워크 오류나 일시 오류면 null (QR 토큰으로 그대로 체크인/오프라인 대기열 저장),
+ * QR 자체가 거부되면 다시 스캔하도록 서버 메시지로 오류를 던집니다.
+ */
+export async function requestCheckInTicket(
+  sessionId: string,
+  qrToken: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<string | null> {
+  let response: Response
+  try {
+    response = await fetchImpl('/api/attendance/checkin/ticket', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId, qrToken })
+    })
+  } catch {
+    return null
+  }
+
+  const result = await response.json().catch(() => ({})) as { ticket?: unknown; error?: string; code?: string }
+  if (response.ok) {
+    return typeof result.ticket === 'string' ? result.ticket : null
+  }
+  if (result.code === 'qr_rotated' || result.code === 'invalid_qr') {
+    throw new Error(result.error || 'QR 코드를 다시 스캔해주세요.')
+  }
+  return null
+}
@@ -0,0 +1,127 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import ExcelJS from 'exceljs'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import {
+  buildAttendanceGradebook,
+  fetchGradebookAttendances,
+  renderGradebookCsv,
+  renderGradebookXlsx
+} from './gradebook'
+
+const students = [
+  { studentId: '20250002', name: '이영희' },
+  { studentId: '20250001', name: '김철수' }
+]
+
+const sessions = [
+  { id: 's2', date: '2025-03-11', start_time: '09:00:00', status: 'ended' },
+  { id: 's1', date: '2025-03-04', start_time: '09:00:00', status: 'ended' },
+  { id: 's3', date: '2025-03-18', start_time: '09:00:00', status: 'active' }
+]
+
+const attendances = [
+  { session_id: 's1', student_id: '20250001', status: 'present' },
+  { session_id: 's2', student_id: '20250001', status: 'late' },
+  { session_id: 's3', student_id: '20250001', status: 'present' },
+  { session_id: 's1', student_id: '20250002', status: 'present' }
+]
+
+test('buildAttendanceGradebook orders sessions and fills ended sessions as absent', () => {
+  const gradebook = buildAttendanceGradebook(students, sessions, attendances)
+
+  assert.deepStrictEqual(gradebook.sessions.map((session) => session.id), ['s1', 's2', 's3'])
+  assert.deepStrictEqual(gradebook.rows.map((row) => row.studentId), ['20250001', '20250002'])
+
+  const [kim, lee] = gradebook.rows
+  assert.deepStrictEqual(kim.statuses, ['present', 'late', 'present'])
+  assert.strictEqual(kim.stats.attendance_rate, 100)
+
+  // 종료된 s2는 결석, 진행 중인 s3는 집계 제외
+  assert.deepStrictEqual(lee.statuses, ['present', 'absent', null])
+  assert.strictEqual(lee.stats.total, 2)
+  assert.strictEqual(lee.stats.attendance_rate, 50)
+})
+
+test('renderGradebookCsv writes codes, totals and escapes cells', () => {
+  const gradebook = buildAttendanceGradebook(
+    [...students, { studentId: '20250003', name: '=HYPERLINK("x")' }],
+    sessions,
+    attendances
+  )
+  const lines = renderGradebookCsv(gradebook).replace(/^\uFEFF/, '').trim().split('\r\n')
+
+  assert.strictEqual(lines[0], '학번,이름,1회차 (2025-03-04),2회차 (2025-03-11),3회차 (2025-03-18),출석,지각,결석,조퇴,출석률(%)')
+  assert.strictEqual(lines[1], '20250001,김철수,O,L,O,2,1,0,0,100')
+  assert.strictEqual(lines[2], '20250002,이영희,O,X,,1,0,1,0,50')
+  assert.strictEqual(lines[3], `20250003,"'=HYPERLINK(""x"")",X,X,,0,0,2,0,0`)
+})
+
+test('renderGradebookXlsx produces a readable workbook', async () => {
+  const buffer = await renderGradebookXlsx(buildAttendanceGradebook(students, sessions, attendances), '자료구조 [A]')
+
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer)
+  const sheet = workbook.worksheets[0]
+
+  assert.strictEqual(sheet.name, '자료구조  A')
+  assert.strictEqual(sheet.getRow(2).getCell(1).value, '20250001')
+  assert.strictEqual(sheet.getRow(3).getCell(4).value, 'X')
+  assert.strictEqual(sheet.getRow(3).getCell(10).value, 50)
+})
+
+/**
+ * PostgREST 처럼 range 요청을 max-rows 이하로 잘라 돌려주는 attendances mock
+ */
+function createPagedSupabase(rows: Array<{ id: string; session_id: string; student_id: string; status: string }>, maxRows: number) {
+  const ranges: Array<[number, number]> = []
+  const client = {
+    from() {
+      let range: [number, number] = [0, Infinity]
+      const builder = {
+        select: () => builder,
+        in: () => builder,
+        eq: () => builder,
+        order: () => builder,
+        range(from: number, to: number) {
+          range = [from, to]
+          ranges.push(range)
+          return builder
+        },
+        then(resolve: (value: { data: unknown; error: null }) => void) {
+          const [from, to] = range
+          resolve({ data: rows.slice(from, Math.min(to + 1, from + maxRows)), error: null })
+        }
+      }
+      return builder
+    }
+  }
+  return { supabase: client as unknown as SupabaseClient<Database>, ranges }
+}
+
+test('fetchGradebookAttendances pages past the PostgREST row limit so no check-in is exported as absent', async () => {
+  const rows = Array.from({ length: 2500 }, (_, index) => ({
+    id: `att-${String(index).padStart(5, '0')}`,
+    session_id: `s${index % 25}`,
+    student_id: `2025${String(Math.floor(index / 25)).padStart(4, '0')}`,
+    status: 'present'
+  }))
+  const { supabase, ranges } = createPagedSupabase(rows, 1000)
+
+  const attendances = await fetchGradebookAttendances(
+    supabase,
+    Array.from({ length: 25 }, (_, index) => `s${index}`)
+  )
+
+  assert.strictEqual(attendances.length, 2500)
+  assert.deepStrictEqual(ranges, [[0, 999], [1000, 1999], [2000, 2999]])
+  assert.deepStrictEqual(attendances[2499], { session_id: 's24', student_id: '20250099', status: 'present' })
+
+  const gradebook = buildAttendanceGradebook(
+    [{ studentId: '20250099', name: '' }],
+    [{ id: 's24', date: '2025-06-10', start_time: '09:00:00', status: 'ended' }],
+    attendances
+  )
+  assert.deepStrictEqual(gradebook.rows[0].statuses, ['present'])
+})
@@ -0,0 +1,220 @@
+import ExcelJS from 'exceljs'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { summarizeAttendanceStatuses, type AttendanceStats } from '@/lib/session/session-service'
+
+/**
+ * 강의별 출석부(학생 × 세션) 생성 및 CSV/XLSX 변환
+ *
+ * 학적 제출용으로 학생별 합계와 출석률을 함께 출력합니다.
+ * 출석률 계산은 세션 종료 집계(summarizeAttendanceStatuses)와 동일한 공식을 사용합니다.
+ */
+
+export type GradebookFormat = 'csv' | 'xlsx'
+
+export const GRADEBOOK_STATUS_CODES: Record<string, string> = {
+  present: 'O',
+  late: 'L',
+  absent: 'X',
+  left_early: 'E'
+}
+
+/** PostgREST 기본 최대 행 수 (max-rows) 와 같은 페이지 크기 */
+export const GRADEBOOK_ATTENDANCE_PAGE_SIZE = 1000
+
+export interface GradebookSession {
+  id: string
+  date: string
+  start_time?: string | null
+  status: string
+}
+
+export interface GradebookStudent {
+  studentId: string
+  name: string
+}
+
+export interface GradebookAttendance {
+  session_id: string
+  student_id: string
+  status: string
+}
+
+export interface GradebookRow {
+  studentId: string
+  name: string
+  /** 세션 순서대로의 출석 상태 (기록 없음은 null) */
+  statuses: Array<string | null>
+  stats: AttendanceStats
+}
+
+export interface AttendanceGradebook {
+  sessions: GradebookSession[]
+  rows: GradebookRow[]
+}
+
+/**
+ * 세션들의 출석 기록 전체 조회
+ *
+ * PostgREST 는 한 번에 max-rows 까지만 돌려주므로, 잘린 기록이 결석으로 집계되지 않도록
+ * 짧은 페이지가 나올 때까지 range 로 나눠 읽습니다.
+ *
+ * @param studentId - 지정하면 해당 학생의 기록만
+ */
+export async function fetchGradebookAttendances(
+  supabase: SupabaseClient<Database>,
+  sessionIds: string[],
+  studentId?: string,
+  pageSize: number = GRADEBOOK_ATTENDANCE_PAGE_SIZE
+): Promise<GradebookAttendance[]> {
+  if (sessionIds.length === 0) {
+    return []
+  }
+
+  const attendances: GradebookAttendance[] = []
+  for (let from = 0; ; from += pageSize) {
+    let query = supabase
+      .from('attendances')
+      .select('id, session_id, student_id, status')
+      .in('session_id', sessionIds)
+    if (studentId) {
+      query = query.eq('student_id', studentId)
+    }
+
+    const { data, error } = await query.order('id').range(from, from + pageSize - 1)
+    if (error) {
+      throw error
+    }
+
+    const page = data ?? []
+    attendances.push(...page.map(({ session_id, student_id, status }) => ({ session_id, student_id, status })))
+    if (page.length < pageSize) {
+      return attendances
+    }
+  }
+}
+
+/**
+ * 수강생·세션·출석 기록으로 출석부 행렬 구성
+ *
+ * 종료된 세션에 출석 기록이 없는 학생은 결석으로 집계하고,
+ * 진행 중이거나 예정된 세션의 빈 칸은 합계에서 제외합니다.
+ */
+export function buildAttendanceGradebook(
+  students: GradebookStudent[],
+  sessions: GradebookSession[],
+  attendances: GradebookAttendance[]
+): AttendanceGradebook {
+  const orderedSessions = [...sessions].sort((a, b) =>
+    a.date === b.date
+      ? (a.start_time ?? '').localeCompare(b.start_time ?? '')
+      : a.date.localeCompare(b.date)
+  )
+
+  const statusByKey = new Map<string, string>()
+  for (const attendance of attendances) {
+    statusByKey.set(`${attendance.student_id}:${attendance.session_id}`, attendance.status)
+  }
+
+  const rows = [...students]
+    .sort((a, b) => a.studentId.localeCompare(b.studentId))
+    .map((student) => {
+      const statuses = orderedSessions.map((session) => {
+        const recorded = statusByKey.get(`${student.studentId}:${session.id}`)
+        if (recorded) {
+          return recorded
+        }
+        return session.status === 'ended' ? 'absent' : null
+      })
+
+      return {
+        studentId: student.studentId,
+        name: student.name,
+        statuses,
+        stats: summarizeAttendanceStatuses(statuses.filter((status): status is string => status !== null))
+      }
+    })
+
+  return { sessions: orderedSessions, rows }
+}
+
+/**
+ * 출석부를 헤더 포함 2차원 표로 변환
+ */
+export function gradebookToTable(gradebook: AttendanceGradebook): Array<Array<string | number>> {
+  const header = [
+    '학번',
+    '이름',
+    ...gradebook.sessions.map((session, index) => `${index + 1}회차 (${session.date})`),
+    '출석',
+    '지각',
+    '결석',
+    '조퇴',
+    '출석률(%)'
+  ]
+
+  const body = gradebook.rows.map((row) => [
+    row.studentId,
+    row.name,
+    ...row.statuses.map((status) => (status ? GRADEBOOK_STATUS_CODES[status] ?? status : '')),
+    row.stats.present,
+    row.stats.late,
+    row.stats.absent,
+    row.stats.left_early,
+    row.stats.attendance_rate
+  ])
+
+  return [header, ...body]
+}
+
+function escapeCsvCell(value: string | number): string {
+  let text = String(value)
+  // 스프레드시트 수식 주입 방지
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * CSV 출력 (엑셀에서 한글이 깨지지 않도록 UTF-8 BOM 포함)
+ */
+export function renderGradebookCsv(gradebook: AttendanceGradebook): string {
+  const lines = gradebookToTable(gradebook).map((row) => row.map(escapeCsvCell).join(','))
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+/**
+ * XLSX 출력 (출석부 시트 + 상태 코드 범례 시트)
+ */
+export async function renderGradebookXlsx(gradebook: AttendanceGradebook, sheetName = '출석부'): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+
+  // 엑셀 시트 이름 제약: 31자, []:*?/\ 사용 불가
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || '출석부'
+  const sheet = workbook.addWorksheet(safeSheetName, {
+    views: [{ state: 'frozen', xSplit: 2, ySplit: 1 }]
+  })
+  sheet.addRows(gradebookToTable(gradebook))
+  sheet.getRow(1).font = { bold: true }
+  sheet.getColumn(1).width = 14
+  sheet.getColumn(2).width = 12
+
+  const legend = workbook.addWorksheet('범례')
+  legend.addRows([
+    ['코드', '상태'],
+    [GRADEBOOK_STATUS_CODES.present, '출석'],
+    [GRADEBOOK_STATUS_CODES.late, '지각'],
+    [GRADEBOOK_STATUS_CODES.absent, '결석'],
+    [GRADEBOOK_STATUS_CODES.left_early, '조퇴'],
+    ['(빈 칸)', '진행 중이거나 예정된 세션']
+  ])
+  legend.getRow(1).font = { bold: true }
+
+  const arrayBuffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(arrayBuffer)
+}
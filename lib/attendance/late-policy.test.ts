@@ -0,0 +1,73 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { gradeCheckIn, resolveLatePolicy, resolveSessionStartTime } from './late-policy'
+
+const START = new Date('2025-03-04T00:00:00.000Z') // 09:00 KST
+const minutesAfterStart = (minutes: number) => new Date(START.getTime() + minutes * 60 * 1000)
+
+test('resolveLatePolicy falls back to defaults when course has no settings', () => {
+  assert.deepStrictEqual(resolveLatePolicy(null), { graceMinutes: 10, lateCutoffMinutes: 30 })
+})
+
+test('resolveLatePolicy keeps cutoff at or after grace window', () => {
+  assert.deepStrictEqual(
+    resolveLatePolicy({ late_grace_minutes: 20, late_cutoff_minutes: 5 }),
+    { graceMinutes: 20, lateCutoffMinutes: 20 }
+  )
+  assert.deepStrictEqual(
+    resolveLatePolicy({ late_grace_minutes: 5, late_cutoff_minutes: null }),
+    { graceMinutes: 5, lateCutoffMinutes: null }
+  )
+})
+
+test('gradeCheckIn grades present, late and absent around the windows', () => {
+  const policy = { graceMinutes: 10, lateCutoffMinutes: 30 }
+
+  assert.deepStrictEqual(gradeCheckIn(START, minutesAfterStart(-5), policy).status, 'present')
+  assert.deepStrictEqual(gradeCheckIn(START, minutesAfterStart(10), policy).status, 'present')
+
+  const late = gradeCheckIn(START, minutesAfterStart(17), policy)
+  assert.strictEqual(late.status, 'late')
+  assert.strictEqual(late.minutesLate, 17)
+
+  const absent = gradeCheckIn(START, minutesAfterStart(45), policy)
+  assert.strictEqual(absent.status, 'absent')
+  assert.strictEqual(absent.minutesLate, 45)
+})
+
+test('gradeCheckIn without cutoff never grades absent', () => {
+  const grade = gradeCheckIn(START, minutesAfterStart(120), { graceMinutes: 10, lateCutoffMinutes: null })
+  assert.strictEqual(grade.status, 'late')
+})
+
+test('gradeCheckIn treats unknown start time as present', () => {
+  assert.deepStrictEqual(gradeCheckIn(null, new Date(), { graceMinutes: 10, lateCutoffMinutes: 30 }), {
+    status: 'present',
+    minutesLate: 0,
+    startTime: null
+  })
+})
+
+test('resolveSessionStartTime prefers session start_time over schedule', () => {
+  const resolved = resolveSessionStartTime(
+    { date: '2025-03-04', start_time: '09:00:00', created_at: '2025-03-04T04:00:00.000Z' },
+    [{ day_of_week: 2, start_time: '13:00', end_time: '14:30' }]
+  )
+  assert.strictEqual(resolved?.source, 'session')
+  assert.strictEqual(resolved?.startTime.toISOString(), START.toISOString())
+})
+
+test('resolveSessionStartTime picks the schedule slot the session was opened for', () => {
+  const schedule = [
+    { day_of_week: 2, start_time: '09:00', end_time: '10:30' },
+    { day_of_week: 2, start_time: '13:00', end_time: '14:30' }
+  ]
+
+  // 2025-03-04 (화) 12:55 KST에 세션 생성 → 13:00 수업
+  const resolved = resolveSessionStartTime({ created_at: '2025-03-04T03:55:00.000Z' }, schedule)
+  assert.strictEqual(resolved?.source, 'schedule')
+  assert.strictEqual(resolved?.startTime.toISOString(), '2025-03-04T04:00:00.000Z')
+
+  // 같은 요일 수업이 모두 끝난 뒤 생성된 세션은 판정하지 않음
+  assert.strictEqual(resolveSessionStartTime({ created_at: '2025-03-04T09:00:00.000Z' }, schedule), null)
+})
@@ -0,0 +1,131 @@
+import { LATE_POLICY_CONFIG } from '@/lib/config/attendance-config'
+import type { Json } from '@/types/supabase'
+import { campusDateTimeToUtc, findScheduleWindowAt, parseCourseSchedule } from '@/lib/session/schedule'
+
+export type CheckInStatus = 'present' | 'late' | 'absent'
+
+export interface LatePolicy {
+  /** 출석 인정 유예 시간 (분) */
+  graceMinutes: number
+  /** 지각 인정 마감 시간 (분), null이면 마감 없음 */
+  lateCutoffMinutes: number | null
+}
+
+export interface SessionStart {
+  startTime: Date
+  source: 'session' | 'schedule'
+}
+
+export interface CheckInGrade {
+  status: CheckInStatus
+  /** 수업 시작 기준 경과 분 (출석 인정 시 0) */
+  minutesLate: number
+  startTime: string | null
+}
+
+interface CourseLatePolicyFields {
+  late_grace_minutes?: number | null
+  late_cutoff_minutes?: number | null
+}
+
+interface SessionTimingFields {
+  date?: string | null
+  start_time?: string | null
+  created_at?: string | null
+}
+
+function normaliseMinutes(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return null
+  }
+  return Math.min(Math.round(parsed), LATE_POLICY_CONFIG.maxMinutes)
+}
+
+/**
+ * 강의별 지각 설정을 기본값과 병합
+ */
+export function resolveLatePolicy(course?: CourseLatePolicyFields | null): LatePolicy {
+  const graceMinutes = normaliseMinutes(course?.late_grace_minutes) ?? LATE_POLICY_CONFIG.graceMinutes
+  const cutoff = course && 'late_cutoff_minutes' in course
+    ? normaliseMinutes(course.late_cutoff_minutes)
+    : LATE_POLICY_CONFIG.lateCutoffMinutes
+
+  return {
+    graceMinutes,
+    lateCutoffMinutes: cutoff === null ? null : Math.max(cutoff, graceMinutes)
+  }
+}
+
+/**
+ * 세션 시작 시각 결정
+ *
+ * 1순위: class_sessions.start_time (date + start_time, 캠퍼스 현지 시각)
+ * 2순위: 세션 생성 시각이 속한 courses.schedule 수업 시작 시각
+ */
+export function resolveSessionStartTime(
+  session: SessionTimingFields,
+  schedule?: Json | string | null
+): SessionStart | null {
+  if (session.date && session.start_time) {
+    const startTime = campusDateTimeToUtc(session.date, session.start_time)
+    if (startTime) {
+      return { startTime, source: 'session' }
+    }
+  }
+
+  if (!session.created_at) {
+    return null
+  }
+
+  const createdAt = new Date(session.created_at)
+  if (Number.isNaN(createdAt.getTime())) {
+    return null
+  }
+
+  const scheduled = findScheduleWindowAt(parseCourseSchedule(schedule), createdAt)
+  return scheduled ? { startTime: scheduled.start, source: 'schedule' } : null
+}
+
+/**
+ * 체크인 시각을 수업 시작 시각과 비교해 출석 상태 판정
+ *
+ * - 유예 시간 이내: present
+ * - 지각 마감 이내: late
+ * - 지각 마감 초과: absent (체크인 API 는 출석 기록 없이 late_cutoff_passed 로 거부)
+ * 시작 시각을 알 수 없으면 기존과 동일하게 present 처리합니다.
+ */
+export function gradeCheckIn(
+  startTime: Date | null,
+  checkInTime: Date,
+  policy: LatePolicy
+): CheckInGrade {
+  if (!startTime) {
+    return { status: 'present', minutesLate: 0, startTime: null }
+  }
+
+  const elapsedMs = checkInTime.getTime() - startTime.getTime()
+  const minutesLate = Math.max(0, Math.floor(elapsedMs / 60000))
+
+  if (elapsedMs <= policy.graceMinutes * 60000) {
+    return { status: 'present', minutesLate: 0, startTime: startTime.toISOString() }
+  }
+
+  if (policy.lateCutoffMinutes === null || elapsedMs <= policy.lateCutoffMinutes * 60000) {
+    return { status: 'late', minutesLate, startTime: startTime.toISOString() }
+  }
+
+  return { status: 'absent', minutesLate, startTime: startTime.toISOString() }
+}
+
+/**
+ * 체크인 성공 응답 메시지 (지각 마감 초과는 체크인 API 에서 거부되므로 없음)
+ */
+export function describeCheckInStatus(status: Exclude<CheckInStatus, 'absent'>, minutesLate: number): string {
+  return status === 'late'
+    ? `지각 처리되었습니다. (수업 시작 후 ${minutesLate}분)`
+    : '출석이 완료되었습니다.'
+}
@@ -0,0 +1,124 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { replayHeartbeatTrajectory, resolveLeftEarlyPolicy, weighSample, type TrajectorySample } from './left-early-policy'
+
+const NOW = new Date('2025-03-04T01:00:00.000Z')
+const CLASSROOM = { type: 'circle' as const, latitude: 37.5, longitude: 127, radius: 50 }
+const POLICY = resolveLeftEarlyPolicy({
+  windowSamples: 6,
+  minOutsideSamples: 4,
+  minOutsideMinutes: 2,
+  minWeightedOutsideRatio: 0.6,
+  referenceAccuracyMeters: 20,
+  maxSampleAccuracyMeters: 100,
+  maxSampleAgeMinutes: 15
+})
+
+// 위도 0.001° ≈ 111m → 강의실 반경(50m) 밖
+const INSIDE = 37.5
+const OUTSIDE = 37.501
+
+/**
+ * 30초 간격 샘플 생성 (마지막 항목이 가장 최근)
+ */
+function trajectory(latitudes: number[], overrides: Partial<TrajectorySample> = {}): TrajectorySample[] {
+  return latitudes.map((latitude, index) => ({
+    id: `log-${index}`,
+    timestamp: new Date(NOW.getTime() - (latitudes.length - 1 - index) * 30 * 1000).toISOString(),
+    latitude,
+    longitude: 127,
+    accuracy: 10,
+    confidence: null,
+    ...overrides
+  }))
+}
+
+test('a single out-of-range sample does not trigger left early', () => {
+  const decision = replayHeartbeatTrajectory(trajectory([INSIDE, INSIDE, INSIDE, INSIDE, INSIDE, OUTSIDE]), CLASSROOM, NOW, POLICY)
+
+  assert.strictEqual(decision.shouldMarkLeftEarly, false)
+  assert.strictEqual(decision.reason, 'too_few_outside')
+  assert.strictEqual(decision.outsideCount, 1)
+})
+
+test('K of the last N samples outside for M minutes triggers left early', () => {
+  const decision = replayHeartbeatTrajectory(
+    trajectory([INSIDE, INSIDE, OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE]),
+    CLASSROOM,
+    NOW,
+    POLICY
+  )
+
+  assert.strictEqual(decision.shouldMarkLeftEarly, true)
+  assert.strictEqual(decision.reason, 'triggered')
+  assert.strictEqual(decision.windowCount, 6)
+  assert.strictEqual(decision.outsideCount, 5)
+  assert.strictEqual(decision.outsideMinutes, 2)
+  assert.deepStrictEqual(
+    decision.samples.map((sample) => sample.outside),
+    [false, true, true, true, true, true]
+  )
+})
+
+test('returning to the classroom or leaving too briefly does not trigger', () => {
+  const returned = replayHeartbeatTrajectory(
+    trajectory([OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE, INSIDE]),
+    CLASSROOM,
+    NOW,
+    POLICY
+  )
+  assert.strictEqual(returned.reason, 'latest_inside')
+
+  const brief = replayHeartbeatTrajectory(
+    trajectory([OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE]),
+    CLASSROOM,
+    NOW,
+    resolveLeftEarlyPolicy({ ...POLICY, minOutsideMinutes: 5 })
+  )
+  assert.strictEqual(brief.reason, 'too_short')
+})
+
+test('low-accuracy and low-confidence outside samples are down-weighted', () => {
+  const samples = trajectory([INSIDE, INSIDE, OUTSIDE, OUTSIDE, OUTSIDE, OUTSIDE]).map((sample, index) =>
+    index >= 2 ? { ...sample, accuracy: 80, confidence: 0.3 } : sample
+  )
+  const decision = replayHeartbeatTrajectory(samples, CLASSROOM, NOW, resolveLeftEarlyPolicy({ ...POLICY, minOutsideMinutes: 1 }))
+
+  assert.strictEqual(decision.outsideCount, 4)
+  assert.ok(decision.weightedOutsideRatio < 0.6)
+  assert.strictEqual(decision.reason, 'low_weighted_ratio')
+})
+
+test('stale and very inaccurate samples are excluded from the window', () => {
+  const stale = trajectory([OUTSIDE, OUTSIDE, OUTSIDE]).map((sample) => ({
+    ...sample,
+    timestamp: new Date(NOW.getTime() - 30 * 60 * 1000).toISOString()
+  }))
+  const inaccurate = trajectory([OUTSIDE, OUTSIDE], { accuracy: 500 })
+  const decision = replayHeartbeatTrajectory([...stale, ...inaccurate], CLASSROOM, NOW, POLICY)
+
+  assert.strictEqual(decision.windowCount, 0)
+  assert.strictEqual(decision.reason, 'insufficient_samples')
+})
+
+test('weighSample combines accuracy and confidence', () => {
+  assert.strictEqual(weighSample({ accuracy: 10, confidence: null }, POLICY), 1)
+  assert.strictEqual(weighSample({ accuracy: 40, confidence: null }, POLICY), 0.5)
+  assert.strictEqual(weighSample({ accuracy: 40, confidence: 0.5 }, POLICY), 0.25)
+})
+
+test('resolveLeftEarlyPolicy keeps K within 1..N', () => {
+  assert.strictEqual(resolveLeftEarlyPolicy({ windowSamples: 3, minOutsideSamples: 10 }).minOutsideSamples, 3)
+  assert.strictEqual(resolveLeftEarlyPolicy({ minOutsideSamples: 0 }).minOutsideSamples, 1)
+})
+
+test('samples on a different floor count as outside even within the classroom boundary', () => {
+  const samples = trajectory([INSIDE, INSIDE, INSIDE, INSIDE, INSIDE, INSIDE]).map((sample, index) =>
+    ({ ...sample, floorChange: index >= 1 ? 2 : 0 })
+  )
+  const decision = replayHeartbeatTrajectory(samples, CLASSROOM, NOW, POLICY)
+
+  assert.strictEqual(decision.outsideCount, 5)
+  assert.ok(decision.samples.slice(1).every((sample) => sample.differentFloor && sample.outside))
+  assert.strictEqual(decision.shouldMarkLeftEarly, true)
+})
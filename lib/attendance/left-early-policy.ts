@@ -0,0 +1,243 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/supabase'
+import { LEFT_EARLY_POLICY_CONFIG } from '@/lib/config/attendance-config'
+import { measureGeofence, type ClassroomGeofence } from '@/lib/utils/geofence'
+
+/**
+ * heartbeat 궤적 재생 기반 조퇴 판정
+ *
+ * 샘플 하나(한 번의 이상치, 한 번의 범위 이탈)로 조퇴를 결정하지 않고,
+ * 최근 location_logs 를 현재 강의실 경계로 다시 판정해 규칙을 만족할 때만 조퇴로 처리합니다.
+ */
+
+export interface LeftEarlyPolicy {
+  windowSamples: number
+  minOutsideSamples: number
+  minOutsideMinutes: number
+  minWeightedOutsideRatio: number
+  referenceAccuracyMeters: number
+  maxSampleAccuracyMeters: number
+  maxSampleAgeMinutes: number
+}
+
+export interface TrajectorySample {
+  id: string
+  /** 서버 수신 시각 (location_logs.timestamp) */
+  timestamp: string
+  latitude: number
+  longitude: number
+  accuracy: number
+  /** PDR 융합 신뢰도 (0 ~ 1, 없으면 1로 취급) */
+  confidence?: number | null
+  trackingMode?: string | null
+  /** 체크인 기준 층 변화 (층이 등록된 강의실에서만 기록, 0 이 아니면 경계 밖) */
+  floorChange?: number | null
+}
+
+export interface ReplayedSample extends TrajectorySample {
+  /** 경계까지 거리 (원형: 중심까지, 다각형: 경계 밖 거리) */
+  distance: number
+  allowedDistance: number
+  /** 층이 달라 경계 밖으로 본 샘플 */
+  differentFloor: boolean
+  outside: boolean
+  weight: number
+}
+
+export type LeftEarlyDecisionReason =
+  | 'triggered'
+  | 'insufficient_samples'
+  | 'too_few_outside'
+  | 'latest_inside'
+  | 'too_short'
+  | 'low_weighted_ratio'
+
+export interface LeftEarlyDecision {
+  shouldMarkLeftEarly: boolean
+  reason: LeftEarlyDecisionReason
+  windowCount: number
+  outsideCount: number
+  outsideMinutes: number
+  weightedOutsideRatio: number
+  /** 판정 창의 샘플 (오래된 순) */
+  samples: ReplayedSample[]
+}
+
+export type LeftEarlyDecisionRecord = Database['public']['Tables']['left_early_decisions']['Row']
+
+/** location_logs 에서 재생에 필요한 컬럼 */
+export const TRAJECTORY_SAMPLE_COLUMNS = 'id, latitude, longitude, accuracy, timestamp, confidence, tracking_mode'
+
+/** 층 컬럼이 있을 때 함께 읽는 컬럼 (migration 031) */
+export const TRAJECTORY_FLOOR_SAMPLE_COLUMNS = `${TRAJECTORY_SAMPLE_COLUMNS}, floor_change`
+
+type LocationLogRow = Database['public']['Tables']['location_logs']['Row']
+
+/** 위 컬럼으로 읽은 location_logs 행 */
+export type TrajectoryLogRow = Pick<
+  LocationLogRow,
+  'id' | 'latitude' | 'longitude' | 'accuracy' | 'timestamp' | 'confidence' | 'tracking_mode'
+> & Partial<Pick<LocationLogRow, 'floor_change'>>
+
+const DECISION_COLUMNS = 'id, attendance_id, session_id, student_id, decided_at, rule, window_count, outside_count, outside_minutes, weighted_outside_ratio, samples, created_at'
+
+export function resolveLeftEarlyPolicy(overrides: Partial<LeftEarlyPolicy> = {}): LeftEarlyPolicy {
+  const policy = { ...LEFT_EARLY_POLICY_CONFIG, ...overrides }
+  const windowSamples = Math.max(1, Math.round(policy.windowSamples))
+  return {
+    ...policy,
+    windowSamples,
+    // K 는 1 ~ N 범위로 보정
+    minOutsideSamples: Math.min(windowSamples, Math.max(1, Math.round(policy.minOutsideSamples))),
+    minOutsideMinutes: Math.max(0, policy.minOutsideMinutes)
+  }
+}
+
+/**
+ * 샘플 가중치: GPS 정확도 가중치 × PDR 신뢰도
+ *
+ * 정확도가 referenceAccuracyMeters 이하면 1, 그보다 나쁘면 비례해 줄어듭니다.
+ */
+export function weighSample(sample: Pick<TrajectorySample, 'accuracy' | 'confidence'>, policy: LeftEarlyPolicy): number {
+  const accuracy = Number.isFinite(sample.accuracy) ? Math.max(sample.accuracy, 0) : policy.maxSampleAccuracyMeters
+  const accuracyWeight = Math.min(1, policy.referenceAccuracyMeters / Math.max(accuracy, 1))
+  const confidence = typeof sample.confidence === 'number' && Number.isFinite(sample.confidence)
+    ? Math.min(1, Math.max(0.1, sample.confidence))
+    : 1
+  return accuracyWeight * confidence
+}
+
+/**
+ * 최근 샘플을 강의실 경계로 다시 판정해 조퇴 여부 결정
+ *
+ * 조퇴 조건 (모두 만족):
+ * - 최근 N개 중 K개 이상이 경계 밖 (층 변화가 기록된 샘플은 다른 층이어도 경계 밖)
+ * - 가장 최근 샘플이 경계 밖 (이미 돌아온 학생은 제외)
+ * - 가장 오래된 경계 밖 샘플부터 최신 샘플까지 M분 이상
+ * - 가중치 기준 경계 밖 비율이 minWeightedOutsideRatio 이상
+ */
+export function replayHeartbeatTrajectory(
+  samples: TrajectorySample[],
+  geofence: ClassroomGeofence,
+  now: Date = new Date(),
+  policy: LeftEarlyPolicy = resolveLeftEarlyPolicy()
+): LeftEarlyDecision {
+  const oldestAllowed = now.getTime() - policy.maxSampleAgeMinutes * 60 * 1000
+  const window = samples
+    .map((sample) => ({ sample, time: new Date(sample.timestamp).getTime() }))
+    .filter(({ sample, time }) =>
+      Number.isFinite(time) &&
+      time >= oldestAllowed &&
+      Number.isFinite(sample.latitude) &&
+      Number.isFinite(sample.longitude) &&
+      Number.isFinite(sample.accuracy) &&
+      sample.accuracy <= policy.maxSampleAccuracyMeters
+    )
+    .sort((a, b) => b.time - a.time)
+    .slice(0, policy.windowSamples)
+    .reverse()
+
+  const replayed = window.map(({ sample, time }) => {
+    const measurement = measureGeofence(sample.latitude, sample.longitude, sample.accuracy, geofence)
+    // 같은 위도/경도의 다른 층 강의실은 경계 안이어도 밖으로 판정
+    const differentFloor = typeof sample.floorChange === 'number' && sample.floorChange !== 0
+    return {
+      time,
+      sample: {
+        ...sample,
+        distance: Math.round(measurement.distance * 10) / 10,
+        allowedDistance: Math.round(measurement.allowedDistance * 10) / 10,
+        differentFloor,
+        outside: !measurement.isInside || differentFloor,
+        weight: Math.round(weighSample(sample, policy) * 1000) / 1000
+      } satisfies ReplayedSample
+    }
+  })
+
+  const outside = replayed.filter(({ sample }) => sample.outside)
+  const totalWeight = replayed.reduce((sum, { sample }) => sum + sample.weight, 0)
+  const outsideWeight = outside.reduce((sum, { sample }) => sum + sample.weight, 0)
+  const weightedOutsideRatio = totalWeight > 0 ? Math.round((outsideWeight / totalWeight) * 1000) / 1000 : 0
+  const latest = replayed[replayed.length - 1]
+  const outsideMinutes = outside.length > 0 && latest
+    ? Math.round(((latest.time - outside[0].time) / 60000) * 100) / 100
+    : 0
+
+  let reason: LeftEarlyDecisionReason = 'triggered'
+  if (replayed.length < policy.minOutsideSamples) {
+    reason = 'insufficient_samples'
+  } else if (outside.length < policy.minOutsideSamples) {
+    reason = 'too_few_outside'
+  } else if (!latest?.sample.outside) {
+    reason = 'latest_inside'
+  } else if (outsideMinutes < policy.minOutsideMinutes) {
+    reason = 'too_short'
+  } else if (weightedOutsideRatio < policy.minWeightedOutsideRatio) {
+    reason = 'low_weighted_ratio'
+  }
+
+  return {
+    shouldMarkLeftEarly: reason === 'triggered',
+    reason,
+    windowCount: replayed.length,
+    outsideCount: outside.length,
+    outsideMinutes,
+    weightedOutsideRatio,
+    samples: replayed.map(({ sample }) => sample)
+  }
+}
+
+/**
+ * 조퇴 판정 근거 저장 (실패해도 조퇴 처리는 유지하고 로그만 남김)
+ */
+export async function recordLeftEarlyDecision(
+  supabase: SupabaseClient<Database>,
+  params: { attendanceId: string; sessionId: string; studentId: string; policy: LeftEarlyPolicy; decision: LeftEarlyDecision },
+  now: Date = new Date()
+): Promise<LeftEarlyDecisionRecord | null> {
+  const { data, error } = await supabase
+    .from('left_early_decisions')
+    .insert({
+      attendance_id: params.attendanceId,
+      session_id: params.sessionId,
+      student_id: params.studentId,
+      decided_at: now.toISOString(),
+      rule: params.policy as unknown as Json,
+      window_count: params.decision.windowCount,
+      outside_count: params.decision.outsideCount,
+      outside_minutes: params.decision.outsideMinutes,
+      weighted_outside_ratio: params.decision.weightedOutsideRatio,
+      samples: params.decision.samples as unknown as Json
+    })
+    .select(DECISION_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('[LeftEarly] 판정 근거 저장 실패:', error)
+    return null
+  }
+  return data
+}
+
+/**
+ * 세션의 조퇴 판정 근거 조회 (최신순)
+ */
+export async function fetchSessionLeftEarlyDecisions(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  studentId?: string
+): Promise<LeftEarlyDecisionRecord[]> {
+  let query = supabase
+    .from('left_early_decisions')
+    .select(DECISION_COLUMNS)
+    .eq('session_id', sessionId)
+  if (studentId) {
+    query = query.eq('student_id', studentId)
+  }
+
+  const { data, error } = await query.order('decided_at', { ascending: false })
+  if (error) {
+    throw error
+  }
+  return data ?? []
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { resolveOfflineCapture, resolveSessionEndedAt } from './offline-checkin'
+
+const serverNow = new Date('2025-03-04T02:00:00.000Z')
+
+test('resolveOfflineCapture shifts the capture time by the device clock offset', () => {
+  // 기기 시계가 서버보다 20초 느림
+  const clientSentAt = new Date('2025-03-04T01:59:40.000Z')
+  const result = resolveOfflineCapture('2025-03-04T00:59:40.000Z', clientSentAt, serverNow, 180)
+
+  assert.ok(result.ok)
+  assert.strictEqual(result.capturedAt.toISOString(), '2025-03-04T01:00:00.000Z')
+  assert.strictEqual(result.queuedSeconds, 3600)
+})
+
+test('resolveOfflineCapture rejects malformed, future and stale captures', () => {
+  assert.deepStrictEqual(resolveOfflineCapture('not-a-date', serverNow, serverNow, 180), { ok: false, reason: 'invalid' })
+  assert.deepStrictEqual(
+    resolveOfflineCapture('2025-03-04T02:00:05.000Z', serverNow, serverNow, 180),
+    { ok: false, reason: 'future' }
+  )
+  assert.deepStrictEqual(
+    resolveOfflineCapture('2025-03-03T22:59:00.000Z', serverNow, serverNow, 180),
+    { ok: false, reason: 'too_old' }
+  )
+})
+
+test('resolveOfflineCapture keeps queued scans until the replay TTL by default', () => {
+  // 기본 보관 기한 180분: 수업 중 스캔해 두었다가 강의실을 나와 재전송
+  const replayed = resolveOfflineCapture('2025-03-04T00:05:00.000Z', serverNow, serverNow)
+  assert.ok(replayed.ok)
+  assert.strictEqual(replayed.queuedSeconds, 6900)
+
+  assert.deepStrictEqual(
+    resolveOfflineCapture('2025-03-03T22:59:00.000Z', serverNow, serverNow),
+    { ok: false, reason: 'too_old' }
+  )
+})
+
+test('resolveSessionEndedAt uses the earlier of manual end and scheduled end', () => {
+  const base = { date: '2025-03-04', start_time: '09:00', end_time: '10:15' }
+
+  // 자동 종료가 늦게 처리되어도 예정 종료 시각 기준 (캠퍼스 UTC+9)
+  assert.strictEqual(
+    resolveSessionEndedAt({ ...base, status: 'ended', updated_at: '2025-03-04T02:30:00.000Z' })?.toISOString(),
+    '2025-03-04T01:15:00.000Z'
+  )
+  // 수업 중 수동 종료
+  assert.strictEqual(
+    resolveSessionEndedAt({ ...base, status: 'ended', updated_at: '2025-03-04T00:50:00.000Z' })?.toISOString(),
+    '2025-03-04T00:50:00.000Z'
+  )
+  assert.strictEqual(resolveSessionEndedAt({ ...base, status: 'active', updated_at: null }), null)
+})
@@ -0,0 +1,70 @@
+import { OFFLINE_CHECKIN_CONFIG } from '@/lib/config/attendance-config'
+import { calculateAutoEndAt, type SessionTiming } from '@/lib/session/session-service'
+
+/**
+ * 오프라인 대기열 체크인 검증
+ *
+ * 네트워크 없이 스캔한 체크인은 기기에 저장되었다가 서비스 워커(public/sw.js)가 재전송합니다.
+ * 요청에는 전송 시각(clientTimestamp)과 스캔 시각(capturedAt)이 모두 기기 시계로 담기며,
+ * 전송 시각으로 기기 시계 오차를 구해 스캔 시각을 서버 시계로 보정합니다.
+ * QR 토큰은 보정된 스캔 시각 기준으로 검증하므로, 스캔 시각은 토큰에 서명된 타임스텝의 허용 구간 안이어야 합니다.
+ * 재전송은 대기열 보관 기한(OFFLINE_CHECKIN_CONFIG.replayTtlMinutes) 안에, 종료된 세션은 종료 전에 스캔한 경우만 받습니다.
+ */
+
+export type OfflineCaptureRejectReason = 'invalid' | 'future' | 'too_old'
+
+export type OfflineCaptureResult =
+  | { ok: true; capturedAt: Date; queuedSeconds: number }
+  | { ok: false; reason: OfflineCaptureRejectReason }
+
+// 스캔 시각과 전송 시각이 같은 밀리초로 찍히는 경우 등을 위한 여유
+const CAPTURE_FUTURE_TOLERANCE_MS = 1000
+
+/**
+ * 기기 시계 기준 스캔 시각을 서버 시계 기준으로 보정
+ *
+ * @param capturedAtRaw - 스캔 시각 (기기 시계, ISO)
+ * @param clientSentAt - 전송 시각 (기기 시계, clock skew 검증을 통과한 값)
+ */
+export function resolveOfflineCapture(
+  capturedAtRaw: string,
+  clientSentAt: Date,
+  serverNow: Date,
+  replayTtlMinutes: number = OFFLINE_CHECKIN_CONFIG.replayTtlMinutes
+): OfflineCaptureResult {
+  const capturedMs = Date.parse(capturedAtRaw)
+  if (Number.isNaN(capturedMs)) {
+    return { ok: false, reason: 'invalid' }
+  }
+
+  if (capturedMs > clientSentAt.getTime() + CAPTURE_FUTURE_TOLERANCE_MS) {
+    return { ok: false, reason: 'future' }
+  }
+
+  const clockOffsetMs = serverNow.getTime() - clientSentAt.getTime()
+  const capturedAt = new Date(Math.min(capturedMs + clockOffsetMs, serverNow.getTime()))
+  const queuedMs = serverNow.getTime() - capturedAt.getTime()
+  if (queuedMs > replayTtlMinutes * 60 * 1000) {
+    return { ok: false, reason: 'too_old' }
+  }
+
+  return { ok: true, capturedAt, queuedSeconds: Math.round(queuedMs / 1000) }
+}
+
+/**
+ * 종료된 세션이 실제로 끝난 시각
+ *
+ * 수동 종료는 종료 처리 시각(updated_at), 자동 종료는 예정 종료 시각이 더 이르므로 둘 중 이른 값을 씁니다.
+ */
+export function resolveSessionEndedAt(
+  session: SessionTiming & { status: string; updated_at?: string | null }
+): Date | null {
+  if (session.status !== 'ended') {
+    return null
+  }
+
+  const candidates = [session.updated_at, calculateAutoEndAt(session).autoEndAt]
+    .map((value) => (value ? Date.parse(value) : NaN))
+    .filter((value) => Number.isFinite(value))
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : null
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  isSignalLost,
+  planSignalLostFinalization,
+  resolveLastSeenMs,
+  type SignalTrackedAttendance
+} from './signal-lost'
+
+const ms = (iso: string) => Date.parse(iso)
+
+const attendance = (overrides: Partial<SignalTrackedAttendance>): SignalTrackedAttendance => ({
+  id: 'att-1',
+  student_id: 'student-1',
+  status: 'present',
+  check_in_time: '2025-03-04T01:00:00.000Z',
+  created_at: '2025-03-04T01:00:00.000Z',
+  last_heartbeat_at: null,
+  ...overrides
+})
+
+test('resolveLastSeenMs uses the latest of check-in, last_heartbeat_at and location logs', () => {
+  assert.strictEqual(resolveLastSeenMs(attendance({})), ms('2025-03-04T01:00:00.000Z'))
+  assert.strictEqual(
+    resolveLastSeenMs(attendance({ last_heartbeat_at: '2025-03-04T01:10:00.000Z' }), ms('2025-03-04T01:05:00.000Z')),
+    ms('2025-03-04T01:10:00.000Z')
+  )
+  assert.strictEqual(resolveLastSeenMs(attendance({}), ms('2025-03-04T01:05:00.000Z')), ms('2025-03-04T01:05:00.000Z'))
+})
+
+test('isSignalLost only flags present/late records silent for the whole window', () => {
+  const row = attendance({ last_heartbeat_at: '2025-03-04T01:10:00.000Z' })
+
+  assert.strictEqual(isSignalLost(row, ms('2025-03-04T01:11:29.000Z'), 90), false)
+  assert.strictEqual(isSignalLost(row, ms('2025-03-04T01:11:30.000Z'), 90), true)
+  assert.strictEqual(isSignalLost({ ...row, status: 'late' }, ms('2025-03-04T01:20:00.000Z'), 90), true)
+  assert.strictEqual(isSignalLost({ ...row, status: 'left_early' }, ms('2025-03-04T01:20:00.000Z'), 90), false)
+})
+
+test('planSignalLostFinalization applies keep, left_early and review policies', () => {
+  const rows = [
+    attendance({ id: 'silent', last_heartbeat_at: '2025-03-04T01:30:00.000Z' }),
+    attendance({ id: 'alive', last_heartbeat_at: '2025-03-04T02:29:30.000Z' }),
+    attendance({ id: 'absent', status: 'absent' })
+  ]
+  const endedAt = ms('2025-03-04T02:30:00.000Z')
+
+  assert.deepStrictEqual(planSignalLostFinalization(rows, endedAt, 'keep', 90), [])
+  assert.deepStrictEqual(planSignalLostFinalization(rows, endedAt, 'left_early', 90), [
+    {
+      attendanceId: 'silent',
+      lastSeenAt: '2025-03-04T01:30:00.000Z',
+      update: { status: 'left_early', check_out_time: '2025-03-04T01:30:00.000Z' }
+    }
+  ])
+  assert.deepStrictEqual(
+    planSignalLostFinalization(rows, endedAt, 'review', 90).map((item) => [item.attendanceId, item.update]),
+    [['silent', { review_reason: 'signal_lost' }]]
+  )
+})
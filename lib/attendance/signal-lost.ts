@@ -0,0 +1,245 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { SIGNAL_LOST_CONFIG } from '@/lib/config/attendance-config'
+import { hasSignalTrackingColumns } from '@/lib/courses/schemaSupport'
+
+/**
+ * heartbeat 끊김(signal lost) 판정
+ *
+ * 출석 중(present/late)인 학생의 마지막 heartbeat 이후 기준 시간이 지나면 "신호 끊김" 으로 봅니다.
+ * 출석 상태 자체는 바꾸지 않고, 세션이 끊긴 채 종료되면 SIGNAL_LOST_CONFIG.finalizePolicy 에 따라 처리합니다.
+ *
+ * 마지막 heartbeat 는 attendances.last_heartbeat_at 을 사용하고,
+ * 컬럼이 없는 DB 에서는 location_logs 의 최근 기록으로 대신합니다.
+ */
+
+export type SignalLostPolicy = 'keep' | 'left_early' | 'review'
+
+export const SIGNAL_LOST_REVIEW_REASON = 'signal_lost'
+
+export interface SignalTrackedAttendance {
+  id: string
+  student_id: string
+  status: string
+  check_in_time: string | null
+  created_at: string
+  last_heartbeat_at?: string | null
+  review_reason?: string | null
+}
+
+export interface SignalState {
+  attendanceId: string
+  studentId: string
+  status: string
+  /** 마지막 heartbeat (없으면 체크인) 시각 */
+  lastSeenAt: string
+  signalLost: boolean
+  needsReview: boolean
+}
+
+export interface SignalLostFinalization {
+  attendanceId: string
+  lastSeenAt: string
+  update: Database['public']['Tables']['attendances']['Update']
+}
+
+function isTrackedStatus(status: string): boolean {
+  return status === 'present' || status === 'late'
+}
+
+/**
+ * 마지막으로 신호가 있던 시각 (epoch ms)
+ *
+ * last_heartbeat_at, location_logs 최근 기록, 체크인 시각 중 가장 늦은 값입니다.
+ */
+export function resolveLastSeenMs(attendance: SignalTrackedAttendance, latestLogMs: number | null = null): number {
+  const candidates = [
+    Date.parse(attendance.check_in_time ?? attendance.created_at),
+    Date.parse(attendance.last_heartbeat_at ?? ''),
+    latestLogMs ?? Number.NaN
+  ].filter((ms) => Number.isFinite(ms))
+  return candidates.length > 0 ? Math.max(...candidates) : Number.NaN
+}
+
+export function isSignalLost(
+  attendance: SignalTrackedAttendance,
+  nowMs: number,
+  silenceSeconds: number = SIGNAL_LOST_CONFIG.silenceSeconds,
+  latestLogMs: number | null = null
+): boolean {
+  if (!isTrackedStatus(attendance.status)) {
+    return false
+  }
+  const lastSeenMs = resolveLastSeenMs(attendance, latestLogMs)
+  return Number.isFinite(lastSeenMs) && nowMs - lastSeenMs >= silenceSeconds * 1000
+}
+
+export function resolveSignalStates(
+  attendances: SignalTrackedAttendance[],
+  nowMs: number,
+  silenceSeconds: number = SIGNAL_LOST_CONFIG.silenceSeconds,
+  latestLogs: Map<string, number> = new Map()
+): SignalState[] {
+  return attendances.map((attendance) => {
+    const latestLogMs = latestLogs.get(attendance.id) ?? null
+    const lastSeenMs = resolveLastSeenMs(attendance, latestLogMs)
+    return {
+      attendanceId: attendance.id,
+      studentId: attendance.student_id,
+      status: attendance.status,
+      lastSeenAt: new Date(Number.isFinite(lastSeenMs) ? lastSeenMs : nowMs).toISOString(),
+      signalLost: isSignalLost(attendance, nowMs, silenceSeconds, latestLogMs),
+      needsReview: attendance.review_reason === SIGNAL_LOST_REVIEW_REASON
+    }
+  })
+}
+
+/**
+ * 세션 종료 시각에 신호가 끊겨 있던 출석 기록의 처리 계획
+ *
+ * - keep: 변경 없음
+ * - left_early: 마지막 신호 시각을 퇴실 시각으로 조퇴 처리
+ * - review: 출석 상태는 유지하고 교수 확인 필요로 표시
+ */
+export function planSignalLostFinalization(
+  attendances: SignalTrackedAttendance[],
+  endedAtMs: number,
+  policy: SignalLostPolicy = SIGNAL_LOST_CONFIG.finalizePolicy,
+  silenceSeconds: number = SIGNAL_LOST_CONFIG.silenceSeconds,
+  latestLogs: Map<string, number> = new Map()
+): SignalLostFinalization[] {
+  if (policy === 'keep') {
+    return []
+  }
+
+  return resolveSignalStates(attendances, endedAtMs, silenceSeconds, latestLogs)
+    .filter((state) => state.signalLost)
+    .map((state) => ({
+      attendanceId: state.attendanceId,
+      lastSeenAt: state.lastSeenAt,
+      update: policy === 'left_early'
+        ? { status: 'left_early', check_out_time: state.lastSeenAt }
+        : { review_reason: SIGNAL_LOST_REVIEW_REASON }
+    }))
+}
+
+/**
+ * location_logs 기준 출석 기록별 최근 heartbeat 시각 (last_heartbeat_at 컬럼이 없을 때)
+ */
+export async function fetchLatestHeartbeatTimes(
+  supabase: SupabaseClient<Database>,
+  attendanceIds: string[],
+  sinceMs: number
+): Promise<Map<string, number>> {
+  const latest = new Map<string, number>()
+  if (attendanceIds.length === 0) {
+    return latest
+  }
+
+  const { data, error } = await supabase
+    .from('location_logs')
+    .select('attendance_id, timestamp')
+    .in('attendance_id', attendanceIds)
+    .gt('timestamp', new Date(sinceMs).toISOString())
+  if (error) {
+    throw error
+  }
+
+  for (const row of data ?? []) {
+    const ms = Date.parse(row.timestamp)
+    if (Number.isFinite(ms) && ms > (latest.get(row.attendance_id) ?? -Infinity)) {
+      latest.set(row.attendance_id, ms)
+    }
+  }
+  return latest
+}
+
+async function loadSignalTrackedAttendances(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  nowMs: number,
+  silenceSeconds: number
+): Promise<{ attendances: SignalTrackedAttendance[]; latestLogs: Map<string, number>; trackingEnabled: boolean }> {
+  const trackingEnabled = await hasSignalTrackingColumns(supabase)
+  const { data, error } = await supabase
+    .from('attendances')
+    .select(`id, student_id, status, check_in_time, created_at${trackingEnabled ? ', last_heartbeat_at, review_reason' : ''}`)
+    .eq('session_id', sessionId)
+  if (error) {
+    throw error
+  }
+
+  const attendances = (data ?? []) as unknown as SignalTrackedAttendance[]
+  // 기준 시간 두 배 이전의 기록은 끊김 여부에 영향이 없으므로 최근 것만 조회
+  const latestLogs = trackingEnabled
+    ? new Map<string, number>()
+    : await fetchLatestHeartbeatTimes(
+        supabase,
+        attendances.filter((row) => isTrackedStatus(row.status)).map((row) => row.id),
+        nowMs - silenceSeconds * 2000
+      )
+
+  return { attendances, latestLogs, trackingEnabled }
+}
+
+/**
+ * 세션 출석 기록별 신호 상태
+ */
+export async function loadSignalStates(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  nowMs: number = Date.now(),
+  silenceSeconds: number = SIGNAL_LOST_CONFIG.silenceSeconds
+): Promise<SignalState[]> {
+  const { attendances, latestLogs } = await loadSignalTrackedAttendances(supabase, sessionId, nowMs, silenceSeconds)
+  return resolveSignalStates(attendances, nowMs, silenceSeconds, latestLogs)
+}
+
+/**
+ * 세션 종료 시 신호 끊김 정책 적용
+ *
+ * 그 사이 상태가 바뀐 기록은 건너뜁니다. review 정책은 review_reason 컬럼이 있어야 하며,
+ * 없으면 keep 과 같이 동작합니다.
+ */
+export async function applySignalLostPolicy(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  endedAtMs: number = Date.now(),
+  policy: SignalLostPolicy = SIGNAL_LOST_CONFIG.finalizePolicy
+): Promise<{ policy: SignalLostPolicy; attendanceIds: string[] }> {
+  const silenceSeconds = SIGNAL_LOST_CONFIG.silenceSeconds
+  const { attendances, latestLogs, trackingEnabled } = await loadSignalTrackedAttendances(
+    supabase,
+    sessionId,
+    endedAtMs,
+    silenceSeconds
+  )
+
+  if (policy === 'review' && !trackingEnabled) {
+    console.info('[Signal Lost] review_reason 컬럼이 없어 신호 끊김 기록을 그대로 둡니다')
+    return { policy: 'keep', attendanceIds: [] }
+  }
+
+  const plan = planSignalLostFinalization(attendances, endedAtMs, policy, silenceSeconds, latestLogs)
+  const attendanceIds: string[] = []
+  for (const item of plan) {
+    const { data, error } = await supabase
+      .from('attendances')
+      .update({ ...item.update, updated_at: new Date(endedAtMs).toISOString() })
+      .eq('id', item.attendanceId)
+      .in('status', ['present', 'late'])
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Signal Lost] 종료 처리 실패:', item.attendanceId, error)
+    } else if (data) {
+      attendanceIds.push(item.attendanceId)
+    }
+  }
+
+  if (attendanceIds.length > 0) {
+    console.log(`📡 신호 끊김 ${attendanceIds.length}건 종료 처리 (${policy})`)
+  }
+  return { policy, attendanceIds }
+}
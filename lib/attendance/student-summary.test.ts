@@ -0,0 +1,44 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { summarizeAttendanceStatuses } from '@/lib/session/session-service'
+import { summarizeAttendanceRisk } from './student-summary'
+
+const config = { absenceRatioThreshold: 0.25, latesPerAbsence: 0 }
+
+function summarize(statuses: Array<string | null>, overrides: Partial<typeof config> = {}) {
+  const counted = statuses.filter((status): status is string => status !== null)
+  return summarizeAttendanceRisk(summarizeAttendanceStatuses(counted), statuses, { ...config, ...overrides })
+}
+
+test('summarizeAttendanceRisk counts the trailing absence streak and skips open sessions', () => {
+  const summary = summarize(['present', 'absent', 'late', 'absent', 'absent', null])
+
+  assert.strictEqual(summary.currentAbsenceStreak, 2)
+  assert.strictEqual(summary.effectiveAbsences, 3)
+  assert.strictEqual(summary.absenceRatio, 0.6)
+  assert.strictEqual(summary.atRisk, true)
+})
+
+test('summarizeAttendanceRisk flags students once absences reach the threshold', () => {
+  const belowThreshold = summarize(['absent', 'present', 'present', 'present', 'present'])
+  assert.strictEqual(belowThreshold.atRisk, false)
+  assert.strictEqual(belowThreshold.currentAbsenceStreak, 0)
+
+  const atThreshold = summarize(['absent', 'present', 'present', 'present'])
+  assert.strictEqual(atThreshold.atRisk, true)
+
+  assert.strictEqual(summarize([null, null]).atRisk, false)
+})
+
+test('summarizeAttendanceRisk converts lates into absences when configured', () => {
+  const statuses = ['late', 'late', 'late', 'present', 'present', 'present', 'present', 'present']
+
+  assert.strictEqual(summarize(statuses).atRisk, false)
+
+  const converted = summarize(statuses, { latesPerAbsence: 3 })
+  assert.strictEqual(converted.effectiveAbsences, 1)
+  assert.strictEqual(converted.absenceRatio, 0.125)
+  assert.strictEqual(converted.atRisk, false)
+
+  assert.strictEqual(summarize(statuses, { latesPerAbsence: 1 }).atRisk, true)
+})
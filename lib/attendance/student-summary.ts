@@ -0,0 +1,181 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { ATTENDANCE_RISK_CONFIG } from '@/lib/config/attendance-config'
+import type { AttendanceStats } from '@/lib/session/session-service'
+import { buildAttendanceGradebook, fetchGradebookAttendances, type GradebookSession } from '@/lib/attendance/gradebook'
+
+/**
+ * 학생별 강의 출석 요약 (출석률, 연속 결석, 위험 표시)
+ *
+ * 출석부 내보내기와 같은 규칙(buildAttendanceGradebook)으로 상태를 채우므로
+ * 종료된 세션에 기록이 없으면 결석, 진행 중/예정 세션은 집계에서 제외됩니다.
+ */
+
+export interface AttendanceRiskSummary {
+  stats: AttendanceStats
+  /** 가장 최근 세션부터 이어진 결석 횟수 */
+  currentAbsenceStreak: number
+  /** 지각 환산을 포함한 결석 수 */
+  effectiveAbsences: number
+  /** 집계 세션 대비 결석 비율 (0 ~ 1) */
+  absenceRatio: number
+  atRisk: boolean
+}
+
+export interface CourseAttendanceSummary extends AttendanceRiskSummary {
+  courseId: string
+  courseName: string
+  courseCode: string
+}
+
+export interface StudentAttendanceSummary extends AttendanceRiskSummary {
+  studentId: string
+  name: string
+}
+
+interface SummaryCourse {
+  id: string
+  name: string
+  course_code: string
+}
+
+/**
+ * 세션 순서대로의 상태 목록으로 위험 요약 계산
+ */
+export function summarizeAttendanceRisk(
+  stats: AttendanceStats,
+  statuses: Array<string | null>,
+  config: { absenceRatioThreshold: number; latesPerAbsence: number } = ATTENDANCE_RISK_CONFIG
+): AttendanceRiskSummary {
+  let currentAbsenceStreak = 0
+  for (let i = statuses.length - 1; i >= 0; i--) {
+    const status = statuses[i]
+    if (status === null) {
+      continue
+    }
+    if (status !== 'absent') {
+      break
+    }
+    currentAbsenceStreak++
+  }
+
+  const convertedLates = config.latesPerAbsence > 0 ? Math.floor(stats.late / config.latesPerAbsence) : 0
+  const effectiveAbsences = stats.absent + convertedLates
+  const absenceRatio = stats.total > 0 ? effectiveAbsences / stats.total : 0
+
+  return {
+    stats,
+    currentAbsenceStreak,
+    effectiveAbsences,
+    absenceRatio: Math.round(absenceRatio * 1000) / 1000,
+    atRisk: stats.total > 0 && absenceRatio >= config.absenceRatioThreshold
+  }
+}
+
+async function fetchCourseSessions(
+  supabase: SupabaseClient<Database>,
+  courseIds: string[]
+): Promise<Array<GradebookSession & { course_id: string | null }>> {
+  if (courseIds.length === 0) {
+    return []
+  }
+  const { data, error } = await supabase
+    .from('class_sessions')
+    .select('id, course_id, date, start_time, status')
+    .in('course_id', courseIds)
+  if (error) {
+    throw error
+  }
+  return data ?? []
+}
+
+/**
+ * 한 학생의 수강 강의별 요약
+ *
+ * @param courseIds - 지정하면 해당 강의만 (교수 조회 시 담당 강의로 제한)
+ */
+export async function loadStudentAttendanceSummary(
+  supabase: SupabaseClient<Database>,
+  studentId: string,
+  courseIds?: string[]
+): Promise<CourseAttendanceSummary[]> {
+  let enrollmentQuery = supabase
+    .from('course_enrollments')
+    .select('course_id, courses(id, name, course_code)')
+    .eq('student_id', studentId)
+  if (courseIds) {
+    if (courseIds.length === 0) {
+      return []
+    }
+    enrollmentQuery = enrollmentQuery.in('course_id', courseIds)
+  }
+
+  const { data: enrollments, error: enrollmentError } = await enrollmentQuery
+  if (enrollmentError) {
+    throw enrollmentError
+  }
+
+  const courses: SummaryCourse[] = []
+  for (const enrollment of enrollments ?? []) {
+    const course = Array.isArray(enrollment.courses) ? enrollment.courses[0] : enrollment.courses
+    if (course) {
+      courses.push(course)
+    }
+  }
+
+  const sessions = await fetchCourseSessions(supabase, courses.map((course) => course.id))
+  const attendances = await fetchGradebookAttendances(supabase, sessions.map((session) => session.id), studentId)
+
+  return courses
+    .map((course) => {
+      const gradebook = buildAttendanceGradebook(
+        [{ studentId, name: '' }],
+        sessions.filter((session) => session.course_id === course.id),
+        attendances
+      )
+      const [row] = gradebook.rows
+      return {
+        courseId: course.id,
+        courseName: course.name,
+        courseCode: course.course_code,
+        ...summarizeAttendanceRisk(row.stats, row.statuses)
+      }
+    })
+    .sort((a, b) => a.courseName.localeCompare(b.courseName, 'ko'))
+}
+
+/**
+ * 한 강의의 수강생별 요약 (위험 학생, 결석 비율 높은 순)
+ */
+export async function loadCourseAttendanceSummary(
+  supabase: SupabaseClient<Database>,
+  courseId: string
+): Promise<StudentAttendanceSummary[]> {
+  const [sessions, enrollmentsResult] = await Promise.all([
+    fetchCourseSessions(supabase, [courseId]),
+    supabase.from('course_enrollments').select('student_id, students(name)').eq('course_id', courseId)
+  ])
+  if (enrollmentsResult.error) {
+    throw enrollmentsResult.error
+  }
+
+  const attendances = await fetchGradebookAttendances(supabase, sessions.map((session) => session.id))
+
+  const students = (enrollmentsResult.data ?? []).map((enrollment) => {
+    const student = Array.isArray(enrollment.students) ? enrollment.students[0] : enrollment.students
+    return { studentId: enrollment.student_id, name: student?.name ?? '' }
+  })
+
+  const gradebook = buildAttendanceGradebook(students, sessions, attendances)
+  return gradebook.rows
+    .map((row) => ({
+      studentId: row.studentId,
+      name: row.name,
+      ...summarizeAttendanceRisk(row.stats, row.statuses)
+    }))
+    .sort((a, b) =>
+      a.atRisk === b.atRisk
+        ? b.absenceRatio - a.absenceRatio || a.studentId.localeCompare(b.studentId)
+        : a.atRisk ? -1 : 1
+    )
+}
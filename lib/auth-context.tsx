@@ -1,22 +1,87 @@
 'use client'
 
-import { createContext, useContext, useEffect, useState, useCallback } from 'react'
+import { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
 import { AuthUser } from '@/types'
 
 interface AuthContextType {
   user: AuthUser | null
   loading: boolean
   signOut: () => Promise<void>
+  signOutAll: () => Promise<void>
   refreshUser: () => Promise<void>
 }
 
+// 액세스 토큰 만료 1분 전에 미리 갱신
+const REFRESH_AHEAD_MS = 60 * 1000
+const MIN_REFRESH_DELAY_MS = 5 * 1000
+
+interface SessionResponse {
+  user: { id: string; name: string; type: string }
+  accessTokenExpiresAt?: string | null
+}
+
+function toAuthUser(data: SessionResponse): AuthUser {
+  return {
+    id: data.user.id,
+    email: null, // 이메일은 사용하지 않음
+    role: data.user.type as AuthUser['role'],
+    student_id: data.user.type === 'student' ? data.user.id : null,
+    professor_id: data.user.type === 'professor' ? data.user.id : null,
+    name: data.user.name,
+  }
+}
+
+async function refreshAccessToken(): Promise<SessionResponse | null> {
+  const response = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    credentials: 'include',
+  })
+  if (response.status === 409) {
+    // 다른 탭이 방금 갱신함 → 새 쿠키로 세션만 다시 조회
+    const session = await fetch('/api/auth/session', { method: 'GET', credentials: 'include' })
+    return session.ok ? await session.json() : null
+  }
+  return response.ok ? await response.json() : null
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null)
   const [loading, setLoading] = useState(true)
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const clearRefreshTimer = useCallback(() => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current)
+      refreshTimerRef.current = null
+    }
+  }, [])
+
+  const scheduleRefresh = useCallback((expiresAt: string | null | undefined) => {
+    clearRefreshTimer()
+    if (!expiresAt) {
+      return
+    }
+
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now() - REFRESH_AHEAD_MS, MIN_REFRESH_DELAY_MS)
+    refreshTimerRef.current = setTimeout(async () => {
+      try {
+        const data = await refreshAccessToken()
+        if (data) {
+          setUser(toAuthUser(data))
+          scheduleRefresh(data.accessTokenExpiresAt)
+        } else {
+          // 리프레시 토큰이 만료/폐기됨 (다른 기기에서 전체 로그아웃 등)
+          setUser(null)
+        }
+      } catch (error) {
+        console.error('Error refreshing session:', error)
+      }
+    }, delay)
+  }, [clearRefreshTimer])
 
-  const fetchUserSession = useCallback(async () => {
+  const fetchUserSession = useCallback(async (): Promise<SessionResponse | null> => {
     try {
       const response = await fetch('/api/auth/session', {
         method: 'GET',
@@ -24,18 +89,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       })
 
       if (response.ok) {
-        const data = await response.json()
-        return {
-          id: data.user.id,
-          email: null, // 이메일은 사용하지 않음
-          role: data.user.type as 'student' | 'professor',
-          student_id: data.user.type === 'student' ? data.user.id : null,
-          professor_id: data.user.type === 'professor' ? data.user.id : null,
-          name: data.user.name,
-        }
-      } else {
-        return null
+        return await response.json()
+      }
+
+      // 액세스 토큰이 만료되었으면 한 번 갱신 후 재시도
+      if (response.status === 401) {
+        return await refreshAccessToken()
       }
+
+      return null
     } catch (error) {
       console.error('Error fetching user session:', error)
       return null
@@ -44,14 +106,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const refreshUser = useCallback(async () => {
     setLoading(true)
-    const userData = await fetchUserSession()
-    setUser(userData)
+    const data = await fetchUserSession()
+    setUser(data ? toAuthUser(data) : null)
+    scheduleRefresh(data?.accessTokenExpiresAt)
     setLoading(false)
-  }, [fetchUserSession])
+  }, [fetchUserSession, scheduleRefresh])
 
   useEffect(() => {
     refreshUser()
-  }, [refreshUser])
+    return clearRefreshTimer
+  }, [refreshUser, clearRefreshTimer])
 
   const signOut = async () => {
     try {
@@ -59,6 +123,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         method: 'POST',
         credentials: 'include',
       })
+      clearRefreshTimer()
       setUser(null)
       // Redirect to home page
       window.location.href = '/'
@@ -67,10 +132,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // 모든 기기에서 로그아웃 (분실 기기 등)
+  const signOutAll = async () => {
+    try {
+      await fetch('/api/auth/logout-all', {
+        method: 'POST',
+        credentials: 'include',
+      })
+      clearRefreshTimer()
+      setUser(null)
+      window.location.href = '/'
+    } catch (error) {
+      console.error('Logout all error:', error)
+    }
+  }
+
   const value = {
     user,
     loading,
     signOut,
+    signOutAll,
     refreshUser,
   }
 
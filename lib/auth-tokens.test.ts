@@ -0,0 +1,48 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { classifyRefreshToken, generateRefreshToken, hashRefreshToken } from './auth-tokens'
+import { MissingJwtSecretError, getJwtSecretKey } from './config/auth-config'
+
+const NOW = new Date('2025-03-04T01:00:00.000Z')
+
+function row(overrides: Partial<Parameters<typeof classifyRefreshToken>[0]> = {}) {
+  return {
+    expires_at: '2025-04-03T01:00:00.000Z',
+    rotated_at: null,
+    revoked_at: null,
+    ...overrides
+  }
+}
+
+test('generateRefreshToken returns distinct tokens and hashRefreshToken is stable', () => {
+  const first = generateRefreshToken()
+  const second = generateRefreshToken()
+
+  assert.notStrictEqual(first, second)
+  assert.match(first, /^[A-Za-z0-9_-]{43}$/)
+  assert.strictEqual(hashRefreshToken(first), hashRefreshToken(first))
+  assert.match(hashRefreshToken(first), /^[0-9a-f]{64}$/)
+})
+
+test('classifyRefreshToken prefers revoked over rotated over expired', () => {
+  assert.strictEqual(classifyRefreshToken(row(), NOW), 'active')
+  assert.strictEqual(classifyRefreshToken(row({ expires_at: '2025-03-04T00:59:59.000Z' }), NOW), 'expired')
+  assert.strictEqual(
+    classifyRefreshToken(row({ expires_at: '2025-03-04T00:59:59.000Z', rotated_at: '2025-03-03T00:00:00.000Z' }), NOW),
+    'rotated'
+  )
+  assert.strictEqual(
+    classifyRefreshToken(row({ rotated_at: '2025-03-03T00:00:00.000Z', revoked_at: '2025-03-03T01:00:00.000Z' }), NOW),
+    'revoked'
+  )
+})
+
+test('getJwtSecretKey requires JWT_SECRET only in production', () => {
+  assert.throws(() => getJwtSecretKey({ NODE_ENV: 'production' } as NodeJS.ProcessEnv), MissingJwtSecretError)
+  assert.throws(() => getJwtSecretKey({ NODE_ENV: 'production', JWT_SECRET: '  ' } as NodeJS.ProcessEnv), MissingJwtSecretError)
+  assert.deepStrictEqual(
+    getJwtSecretKey({ NODE_ENV: 'production', JWT_SECRET: 'secret' } as NodeJS.ProcessEnv),
+    new TextEncoder().encode('secret')
+  )
+  assert.ok(getJwtSecretKey({ NODE_ENV: 'development' } as NodeJS.ProcessEnv).length > 0)
+})
@@ -0,0 +1,289 @@
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import type { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { generateToken, type SessionData } from '@/lib/auth'
+import { AUTH_TOKEN_CONFIG } from '@/lib/config/auth-config'
+
+/**
+ * 회전형 리프레시 토큰 세션
+ *
+ * 로그인하면 짧은 액세스 토큰(JWT)과 무작위 리프레시 토큰을 발급하고, 리프레시 토큰은 해시만 저장합니다.
+ * 리프레시 토큰은 한 번 쓰면 새 토큰으로 교체되며, 이미 교체된 토큰이 다시 쓰이면(탈취 의심)
+ * 같은 로그인에서 이어진 토큰(family) 전체를 폐기합니다.
+ */
+
+type RefreshTokenRow = Database['public']['Tables']['auth_refresh_tokens']['Row']
+
+export type RefreshTokenRevokeReason = 'logout' | 'logout_all' | 'reuse_detected' | 'password_reset' | 'password_changed'
+export type RefreshTokenState = 'active' | 'rotated' | 'revoked' | 'expired'
+
+export interface AuthSessionUser {
+  userId: string
+  userType: SessionData['userType']
+  name: string
+  deviceId?: string
+}
+
+export interface AuthSessionTokens {
+  accessToken: string
+  refreshToken: string
+  familyId: string
+  refreshTokenExpiresAt: string
+}
+
+export type RefreshTokenRotationResult =
+  | { ok: true; tokens: AuthSessionTokens; user: AuthSessionUser }
+  | { ok: false; reason: 'not_found' | 'expired' | 'revoked' | 'reuse_detected' | 'concurrent_refresh' | 'error'; error?: unknown }
+
+const REFRESH_TOKEN_COLUMNS = 'id, family_id, user_id, user_type, user_name, token_hash, device_id, user_agent, expires_at, rotated_at, revoked_at, revoked_reason, created_at'
+
+export function generateRefreshToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * 저장된 리프레시 토큰 상태 판정 (폐기 > 교체 > 만료 순)
+ */
+export function classifyRefreshToken(
+  row: Pick<RefreshTokenRow, 'expires_at' | 'rotated_at' | 'revoked_at'>,
+  now: Date = new Date()
+): RefreshTokenState {
+  if (row.revoked_at) {
+    return 'revoked'
+  }
+  if (row.rotated_at) {
+    return 'rotated'
+  }
+  if (new Date(row.expires_at).getTime() <= now.getTime()) {
+    return 'expired'
+  }
+  return 'active'
+}
+
+async function insertRefreshToken(
+  supabase: SupabaseClient<Database>,
+  familyId: string,
+  user: AuthSessionUser,
+  userAgent: string | null,
+  now: Date
+): Promise<{ refreshToken: string; expiresAt: string }> {
+  const refreshToken = generateRefreshToken()
+  const expiresAt = new Date(now.getTime() + AUTH_TOKEN_CONFIG.refreshTokenTtlSeconds * 1000).toISOString()
+
+  const { error } = await supabase
+    .from('auth_refresh_tokens')
+    .insert({
+      family_id: familyId,
+      user_id: user.userId,
+      user_type: user.userType,
+      user_name: user.name,
+      token_hash: hashRefreshToken(refreshToken),
+      device_id: user.deviceId ?? null,
+      user_agent: userAgent,
+      expires_at: expiresAt,
+      created_at: now.toISOString()
+    })
+  if (error) {
+    throw error
+  }
+
+  return { refreshToken, expiresAt }
+}
+
+async function signSessionAccessToken(user: AuthSessionUser, familyId: string, now: Date): Promise<string> {
+  return generateToken(
+    {
+      userId: user.userId,
+      userType: user.userType,
+      name: user.name,
+      sid: familyId,
+      ...(user.deviceId && { deviceId: user.deviceId })
+    },
+    now
+  )
+}
+
+/**
+ * 로그인/회원가입 시 새 세션(family) 발급
+ */
+export async function issueAuthSession(
+  supabase: SupabaseClient<Database>,
+  user: AuthSessionUser,
+  userAgent: string | null,
+  now: Date = new Date()
+): Promise<AuthSessionTokens> {
+  const familyId = randomUUID()
+  const { refreshToken, expiresAt } = await insertRefreshToken(supabase, familyId, user, userAgent, now)
+  return {
+    accessToken: await signSessionAccessToken(user, familyId, now),
+    refreshToken,
+    familyId,
+    refreshTokenExpiresAt: expiresAt
+  }
+}
+
+/**
+ * 리프레시 토큰 교체
+ *
+ * - 교체된 토큰이 유예 시간 이후 다시 쓰이면 family 전체 폐기 (reuse_detected)
+ * - 유예 시간 안이면 다른 탭의 동시 갱신으로 보고 요청만 거부 (concurrent_refresh)
+ */
+export async function rotateRefreshToken(
+  supabase: SupabaseClient<Database>,
+  refreshToken: string,
+  userAgent: string | null,
+  now: Date = new Date()
+): Promise<RefreshTokenRotationResult> {
+  const { data: row, error } = await supabase
+    .from('auth_refresh_tokens')
+    .select(REFRESH_TOKEN_COLUMNS)
+    .eq('token_hash', hashRefreshToken(refreshToken))
+    .maybeSingle()
+  if (error) {
+    return { ok: false, reason: 'error', error }
+  }
+  if (!row) {
+    return { ok: false, reason: 'not_found' }
+  }
+
+  const state = classifyRefreshToken(row, now)
+  if (state === 'revoked' || state === 'expired') {
+    return { ok: false, reason: state }
+  }
+  if (state === 'rotated') {
+    return handleRotatedToken(supabase, row, now)
+  }
+
+  // 교체되지 않은 경우에만 교체 표시 (동시 요청 중 하나만 성공)
+  const { data: claimed, error: claimError } = await supabase
+    .from('auth_refresh_tokens')
+    .update({ rotated_at: now.toISOString() })
+    .eq('id', row.id)
+    .is('rotated_at', null)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle()
+  if (claimError) {
+    return { ok: false, reason: 'error', error: claimError }
+  }
+  if (!claimed) {
+    return { ok: false, reason: 'concurrent_refresh' }
+  }
+
+  const user: AuthSessionUser = {
+    userId: row.user_id,
+    userType: row.user_type,
+    name: row.user_name,
+    ...(row.device_id && { deviceId: row.device_id })
+  }
+
+  try {
+    const { refreshToken: nextToken, expiresAt } = await insertRefreshToken(supabase, row.family_id, user, userAgent, now)
+    return {
+      ok: true,
+      user,
+      tokens: {
+        accessToken: await signSessionAccessToken(user, row.family_id, now),
+        refreshToken: nextToken,
+        familyId: row.family_id,
+        refreshTokenExpiresAt: expiresAt
+      }
+    }
+  } catch (insertError) {
+    return { ok: false, reason: 'error', error: insertError }
+  }
+}
+
+async function handleRotatedToken(
+  supabase: SupabaseClient<Database>,
+  row: RefreshTokenRow,
+  now: Date
+): Promise<RefreshTokenRotationResult> {
+  const rotatedAgoMs = now.getTime() - new Date(row.rotated_at ?? 0).getTime()
+  if (rotatedAgoMs <= AUTH_TOKEN_CONFIG.reuseGraceSeconds * 1000) {
+    return { ok: false, reason: 'concurrent_refresh' }
+  }
+
+  console.warn('[Auth] 교체된 리프레시 토큰 재사용 감지, 세션 전체 폐기:', {
+    familyId: row.family_id,
+    userType: row.user_type,
+    userId: row.user_id.slice(0, 4)
+  })
+  await revokeRefreshTokenFamily(supabase, row.family_id, 'reuse_detected', now)
+  return { ok: false, reason: 'reuse_detected' }
+}
+
+/**
+ * 한 로그인 세션(family)의 토큰 폐기
+ */
+export async function revokeRefreshTokenFamily(
+  supabase: SupabaseClient<Database>,
+  familyId: string,
+  reason: RefreshTokenRevokeReason,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from('auth_refresh_tokens')
+    .update({ revoked_at: now.toISOString(), revoked_reason: reason })
+    .eq('family_id', familyId)
+    .is('revoked_at', null)
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * 사용자의 모든 기기 세션 폐기 (폐기한 세션 수 반환)
+ */
+export async function revokeAllRefreshTokens(
+  supabase: SupabaseClient<Database>,
+  user: Pick<AuthSessionUser, 'userId' | 'userType'>,
+  reason: RefreshTokenRevokeReason,
+  now: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('auth_refresh_tokens')
+    .update({ revoked_at: now.toISOString(), revoked_reason: reason })
+    .eq('user_id', user.userId)
+    .eq('user_type', user.userType)
+    .is('revoked_at', null)
+    .select('family_id')
+  if (error) {
+    throw error
+  }
+  return new Set((data ?? []).map((token) => token.family_id)).size
+}
+
+export function setAuthCookies(response: NextResponse, tokens: AuthSessionTokens): void {
+  const secure = process.env.NODE_ENV === 'production'
+  response.cookies.set(AUTH_TOKEN_CONFIG.accessCookieName, tokens.accessToken, {
+    path: '/',
+    maxAge: AUTH_TOKEN_CONFIG.accessTokenTtlSeconds,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure
+  })
+  response.cookies.set(AUTH_TOKEN_CONFIG.refreshCookieName, tokens.refreshToken, {
+    path: AUTH_TOKEN_CONFIG.refreshCookiePath,
+    maxAge: AUTH_TOKEN_CONFIG.refreshTokenTtlSeconds,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure
+  })
+}
+
+export function clearAuthCookies(response: NextResponse): void {
+  const secure = process.env.NODE_ENV === 'production'
+  response.cookies.set(AUTH_TOKEN_CONFIG.accessCookieName, '', { path: '/', maxAge: 0, sameSite: 'lax', secure })
+  response.cookies.set(AUTH_TOKEN_CONFIG.refreshCookieName, '', {
+    path: AUTH_TOKEN_CONFIG.refreshCookiePath,
+    maxAge: 0,
+    sameSite: 'lax',
+    secure
+  })
+}
@@ -2,22 +2,28 @@ import bcrypt from 'bcryptjs'
 import { jwtVerify, SignJWT, type JWTPayload } from 'jose'
 import { cookies } from 'next/headers'
 import { createClient } from './supabase-server'
+import { createServiceClient } from './supabase-admin'
+import { AUTH_TOKEN_CONFIG, getJwtSecretKey } from './config/auth-config'
 
-// JWT Secret key (in production, use environment variable)
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 const SALT_ROUNDS = 12
 
 // Types
+export type UserRole = 'student' | 'professor' | 'admin'
+
 export interface AuthUser {
   id: string
   name: string
-  type: 'student' | 'professor'
+  type: UserRole
 }
 
 export interface SessionData extends JWTPayload {
   userId: string
-  userType: 'student' | 'professor'
+  userType: UserRole
   name: string
+  /** 로그인 시 등록된 기기 식별자 (학생만) */
+  deviceId?: string
+  /** 리프레시 토큰 family ID (로그아웃 시 폐기 대상) */
+  sid?: string
 }
 
 // Password hashing
@@ -29,21 +35,20 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return await bcrypt.compare(password, hash)
 }
 
-// JWT Token functions
-export async function generateToken(payload: SessionData): Promise<string> {
-  const secret = new TextEncoder().encode(JWT_SECRET)
+// JWT Token functions (짧은 수명의 액세스 토큰, 갱신은 lib/auth-tokens.ts 의 리프레시 토큰으로 수행)
+export async function generateToken(payload: SessionData, now: Date = new Date()): Promise<string> {
+  const issuedAt = Math.floor(now.getTime() / 1000)
   return await new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
-    .setIssuedAt()
-    .setExpirationTime('7d')
-    .setIssuer('attendance-app')
-    .sign(secret)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(issuedAt + AUTH_TOKEN_CONFIG.accessTokenTtlSeconds)
+    .setIssuer(AUTH_TOKEN_CONFIG.issuer)
+    .sign(getJwtSecretKey())
 }
 
 export async function verifyToken(token: string): Promise<SessionData | null> {
   try {
-    const secret = new TextEncoder().encode(JWT_SECRET)
-    const { payload } = await jwtVerify(token, secret)
+    const { payload } = await jwtVerify(token, getJwtSecretKey(), { issuer: AUTH_TOKEN_CONFIG.issuer })
     return payload as unknown as SessionData
   } catch {
     return null
@@ -53,11 +58,11 @@ export async function verifyToken(token: string): Promise<SessionData | null> {
 // Cookie management
 export function setAuthCookie(token: string) {
   const cookieStore = cookies()
-  cookieStore.set('auth-token', token, {
+  cookieStore.set(AUTH_TOKEN_CONFIG.accessCookieName, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: AUTH_TOKEN_CONFIG.accessTokenTtlSeconds,
     path: '/'
   })
 }
@@ -65,7 +70,7 @@ export function setAuthCookie(token: string) {
 export function getAuthToken(): string | null {
   try {
     const cookieStore = cookies()
-    return cookieStore.get('auth-token')?.value || null
+    return cookieStore.get(AUTH_TOKEN_CONFIG.accessCookieName)?.value || null
   } catch {
     return null
   }
@@ -73,7 +78,14 @@ export function getAuthToken(): string | null {
 
 export function clearAuthCookie() {
   const cookieStore = cookies()
-  cookieStore.delete('auth-token')
+  cookieStore.delete(AUTH_TOKEN_CONFIG.accessCookieName)
+}
+
+// 관리자 API 키 인증 (Authorization: Bearer ${ADMIN_API_KEY}, 키가 없으면 항상 거부)
+// 관리자 세션까지 허용하려면 lib/admin/admin-auth.ts 의 requireAdmin 사용
+export function isAdminApiRequest(request: Request): boolean {
+  const adminApiKey = process.env.ADMIN_API_KEY
+  return Boolean(adminApiKey) && request.headers.get('authorization') === `Bearer ${adminApiKey}`
 }
 
 // Get current user from token
@@ -108,7 +120,7 @@ export async function getCurrentUserFromRequest(request: Request): Promise<Sessi
 
     console.log('Parsed cookies:', Object.keys(cookies))
 
-    const token = cookies['auth-token']
+    const token = cookies[AUTH_TOKEN_CONFIG.accessCookieName]
     if (!token) {
       console.log('No auth-token cookie found')
       return null
@@ -208,3 +220,53 @@ export async function authenticateProfessor(professorId: string, password: strin
     return null
   }
 }
+
+// 관리자 테이블은 RLS 로 service role 만 접근 가능
+export async function authenticateAdmin(adminId: string, password: string): Promise<AuthUser | null> {
+  const supabase = createServiceClient()
+
+  try {
+    const { data: admin, error } = await supabase
+      .from('admins')
+      .select('admin_id, name, password_hash')
+      .eq('admin_id', adminId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Admin authentication DB error:', error)
+      return null
+    }
+
+    if (!admin) {
+      console.log('Admin not found:', adminId)
+      return null
+    }
+
+    const isValid = await verifyPassword(password, admin.password_hash)
+    if (!isValid) {
+      console.log('Invalid password for admin:', adminId)
+      return null
+    }
+
+    console.log('Admin authentication successful:', adminId)
+    return {
+      id: admin.admin_id,
+      name: admin.name,
+      type: 'admin'
+    }
+  } catch (error) {
+    console.error('Admin authentication error:', error)
+    return null
+  }
+}
+
+export async function authenticateUser(userType: UserRole, id: string, password: string): Promise<AuthUser | null> {
+  switch (userType) {
+    case 'student':
+      return await authenticateStudent(id, password)
+    case 'professor':
+      return await authenticateProfessor(id, password)
+    case 'admin':
+      return await authenticateAdmin(id, password)
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * 학사 일정 (휴일) 설정
+ *
+ * 세션 스케줄러가 시간표를 실제 수업 세션으로 펼칠 때 휴일을 건너뛰는 데 사용합니다.
+ * 기본 목록은 공휴일이며, 학교 자체 휴일(개교기념일, 보강 주간 등)은 환경 변수로 추가합니다.
+ *
+ * - ACADEMIC_HOLIDAYS: 'YYYY-MM-DD[:이름]' 을 쉼표로 구분 (예: '2025-05-15:개교기념일,2025-06-10')
+ * - ACADEMIC_TERM_START / ACADEMIC_TERM_END: 학기 기간 (YYYY-MM-DD), 기간 밖 날짜는 세션을 만들지 않음
+ */
+
+export interface AcademicHoliday {
+  date: string
+  name: string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 공휴일 (대체공휴일 포함)
+ */
+const PUBLIC_HOLIDAYS: AcademicHoliday[] = [
+  { date: '2025-01-01', name: '신정' },
+  { date: '2025-01-28', name: '설날 연휴' },
+  { date: '2025-01-29', name: '설날' },
+  { date: '2025-01-30', name: '설날 연휴' },
+  { date: '2025-03-01', name: '삼일절' },
+  { date: '2025-03-03', name: '대체공휴일' },
+  { date: '2025-05-05', name: '어린이날·부처님오신날' },
+  { date: '2025-05-06', name: '대체공휴일' },
+  { date: '2025-06-03', name: '대통령 선거일' },
+  { date: '2025-06-06', name: '현충일' },
+  { date: '2025-08-15', name: '광복절' },
+  { date: '2025-10-03', name: '개천절' },
+  { date: '2025-10-05', name: '추석 연휴' },
+  { date: '2025-10-06', name: '추석' },
+  { date: '2025-10-07', name: '추석 연휴' },
+  { date: '2025-10-08', name: '대체공휴일' },
+  { date: '2025-10-09', name: '한글날' },
+  { date: '2025-12-25', name: '성탄절' },
+  { date: '2026-01-01', name: '신정' },
+  { date: '2026-02-16', name: '설날 연휴' },
+  { date: '2026-02-17', name: '설날' },
+  { date: '2026-02-18', name: '설날 연휴' },
+  { date: '2026-03-01', name: '삼일절' },
+  { date: '2026-03-02', name: '대체공휴일' },
+  { date: '2026-05-05', name: '어린이날' },
+  { date: '2026-05-24', name: '부처님오신날' },
+  { date: '2026-05-25', name: '대체공휴일' },
+  { date: '2026-06-03', name: '전국동시지방선거' },
+  { date: '2026-06-06', name: '현충일' },
+  { date: '2026-08-15', name: '광복절' },
+  { date: '2026-08-17', name: '대체공휴일' },
+  { date: '2026-09-24', name: '추석 연휴' },
+  { date: '2026-09-25', name: '추석' },
+  { date: '2026-09-26', name: '추석 연휴' },
+  { date: '2026-10-03', name: '개천절' },
+  { date: '2026-10-05', name: '대체공휴일' },
+  { date: '2026-10-09', name: '한글날' },
+  { date: '2026-12-25', name: '성탄절' }
+]
+
+export function parseHolidayList(raw: string | undefined): AcademicHoliday[] {
+  if (!raw) {
+    return []
+  }
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [date, ...nameParts] = entry.split(':')
+      return { date: date.trim(), name: nameParts.join(':').trim() || '학교 휴일' }
+    })
+    .filter((holiday) => DATE_PATTERN.test(holiday.date))
+}
+
+function readDateEnv(name: string): string | null {
+  const raw = process.env[name]?.trim()
+  return raw && DATE_PATTERN.test(raw) ? raw : null
+}
+
+export const ACADEMIC_CALENDAR = {
+  holidays: [...PUBLIC_HOLIDAYS, ...parseHolidayList(process.env.ACADEMIC_HOLIDAYS)],
+  termStart: readDateEnv('ACADEMIC_TERM_START'),
+  termEnd: readDateEnv('ACADEMIC_TERM_END')
+}
+
+const holidayByDate = new Map(ACADEMIC_CALENDAR.holidays.map((holiday) => [holiday.date, holiday]))
+
+/**
+ * 휴일이면 휴일 정보, 아니면 null
+ */
+export function findAcademicHoliday(date: string): AcademicHoliday | null {
+  return holidayByDate.get(date) ?? null
+}
+
+/**
+ * 학기 기간 안의 수업일인지 확인 (기간 미설정 시 항상 true)
+ */
+export function isWithinAcademicTerm(date: string): boolean {
+  if (ACADEMIC_CALENDAR.termStart && date < ACADEMIC_CALENDAR.termStart) {
+    return false
+  }
+  if (ACADEMIC_CALENDAR.termEnd && date > ACADEMIC_CALENDAR.termEnd) {
+    return false
+  }
+  return true
+}
@@ -0,0 +1,388 @@
+/**
+ * 출석 판정 정책 파라미터 설정
+ *
+ * 지각 판정, 캠퍼스 시간대 등 출석 처리 전반에서 공유하는 기본값을 관리합니다.
+ * 강의별 설정값이 있으면 그 값이 우선합니다.
+ */
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === '') {
+    return fallback
+  }
+  const parsed = Number(raw)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * 지각 판정 기본값
+ */
+export const LATE_POLICY_CONFIG = {
+  /**
+   * 출석 인정 유예 시간 (분)
+   *
+   * - 현재값: 10분
+   * - 수업 시작 후 이 시간 안에 체크인하면 'present'
+   * - 강의별 courses.late_grace_minutes 값이 있으면 대체됨
+   */
+  graceMinutes: 10,
+
+  /**
+   * 지각 인정 마감 시간 (분)
+   *
+   * - 현재값: 30분
+   * - 유예 시간 이후 이 시간까지 체크인하면 'late', 이후에는 'absent'
+   * - 강의별 courses.late_cutoff_minutes 값이 있으면 대체됨
+   */
+  lateCutoffMinutes: 30,
+
+  /**
+   * 설정 가능한 최대값 (분)
+   */
+  maxMinutes: 180
+} as const
+
+/**
+ * 세션 자동 생성/시작/종료 설정
+ */
+export const SESSION_SCHEDULE_CONFIG = {
+  /**
+   * 시간표로 미리 생성할 기간 (일)
+   *
+   * - 현재값: 14일
+   * - 스케줄러 실행 시 오늘부터 이 기간 안의 수업을 'scheduled' 세션으로 생성
+   */
+  lookaheadDays: 14,
+
+  /**
+   * 수업 시작 전 QR 출석을 미리 열 수 있는 시간 (분)
+   *
+   * - 현재값: 10분
+   * - 교수가 이 시간 안에 QR을 띄우면 새 세션 대신 해당 예정 세션을 사용
+   */
+  openEarlyMinutes: 10,
+
+  /**
+   * 종료 시각이 없는 세션의 기본 수업 시간 (분)
+   *
+   * - 현재값: 120분
+   * - 시간표 밖에서 수동으로 연 세션, end_time 이 없는 기존 세션의 자동 종료 기준
+   */
+  defaultDurationMinutes: 120
+} as const
+
+/**
+ * 캠퍼스 시간대 (UTC 기준 오프셋, 분)
+ *
+ * class_sessions.start_time 과 courses.schedule 은 캠퍼스 현지 시각(TIME)으로 저장됩니다.
+ * 서버(Vercel)는 UTC로 동작하므로 판정 시 이 오프셋으로 변환합니다.
+ * 기본값: 540분 (Asia/Seoul, UTC+9)
+ */
+export const CAMPUS_UTC_OFFSET_MINUTES = readNumberEnv('CAMPUS_UTC_OFFSET_MINUTES', 540)
+
+/**
+ * 출석 QR 서명/회전 설정
+ */
+export const QR_ROTATION_CONFIG = {
+  /**
+   * QR 토큰 회전 주기 (초)
+   *
+   * - 현재값: 15초
+   * - 교수 화면의 QR은 이 주기마다 새 타임스텝으로 다시 서명됨
+   * - 캡처된 QR 이미지를 다른 학생에게 전달해도 주기가 지나면 사용할 수 없음
+   */
+  rotationSeconds: readNumberEnv('QR_ROTATION_SECONDS', 15),
+
+  /**
+   * 허용하는 과거 타임스텝 수
+   *
+   * - 현재값: 1 (직전 주기까지 허용)
+   * - 스캔 직후 체크인 티켓으로 교환하기까지 걸리는 시간을 흡수
+   */
+  allowedPastSteps: 1,
+
+  /**
+   * 체크인 티켓 유효 시간 (초)
+   *
+   * - 현재값: 180초
+   * - 스캔 직후 QR 토큰을 티켓으로 교환한 뒤 위치 측정(최대 3회 × 15초), 재시도까지 흡수
+   */
+  checkInTicketSeconds: readNumberEnv('QR_CHECKIN_TICKET_SECONDS', 180)
+} as const
+
+/**
+ * 출석 이의 신청 설정
+ */
+export const APPEAL_CONFIG = {
+  /**
+   * 이의 신청 가능 기간 (일)
+   *
+   * - 현재값: 7일
+   * - 수업일 기준 이 기간이 지나면 신청할 수 없음
+   */
+  filingWindowDays: readNumberEnv('APPEAL_FILING_WINDOW_DAYS', 7),
+
+  /**
+   * 신청 사유 최소/최대 길이 (자)
+   */
+  minReasonLength: 10,
+  maxReasonLength: 1000,
+
+  /**
+   * 첨부파일 최대 크기 (바이트)
+   *
+   * - 현재값: 5MB
+   */
+  maxAttachmentBytes: 5 * 1024 * 1024,
+
+  /**
+   * 허용하는 첨부파일 형식 (진단서, 공문 스캔본 등)
+   */
+  allowedAttachmentTypes: ['image/jpeg', 'image/png', 'application/pdf'],
+
+  /**
+   * 첨부파일 저장 버킷 (비공개)
+   */
+  attachmentBucket: 'attendance-appeals',
+
+  /**
+   * 첨부파일 서명 URL 유효 시간 (초)
+   */
+  attachmentUrlTtlSeconds: 600
+} as const
+
+/**
+ * 다각형(GeoJSON Polygon) 강의실 경계 설정
+ */
+export const GEOFENCE_CONFIG = {
+  /**
+   * 경계 바깥으로 추가 허용하는 기본 버퍼 (미터)
+   *
+   * - 현재값: 5m
+   * - 벽 두께, 출입문 앞 대기 등 경계선 근처 오차를 흡수
+   */
+  defaultBufferMeters: 5,
+
+  /**
+   * 교수가 설정할 수 있는 최대 버퍼 (미터)
+   */
+  maxBufferMeters: 50,
+
+  /**
+   * GPS 정확도로 인정하는 최대 추가 여유 (미터)
+   *
+   * - 현재값: 20m
+   * - 보고된 정확도만큼 경계를 넓혀 주되, 정확도를 부풀려 먼 곳에서 출석하지 못하도록 상한을 둠
+   */
+  maxAccuracyMarginMeters: readNumberEnv('GEOFENCE_MAX_ACCURACY_MARGIN_METERS', 20),
+
+  /**
+   * 다각형 꼭짓점 최대 개수
+   */
+  maxVertices: 100
+} as const
+
+/**
+ * 강의실 위치 결정 기본값
+ *
+ * 체크인, heartbeat, 위치 추적이 모두 이 표를 사용합니다.
+ * 값이 서로 다르면 같은 자리에서 체크인은 통과하고 heartbeat 에서 이탈로 판정될 수 있습니다.
+ */
+export const CLASSROOM_LOCATION_CONFIG = {
+  /**
+   * 위치 출처별로 반경이 비어 있을 때 사용하는 허용 반경 (미터)
+   *
+   * - session: 세션 생성 시 저장한 강의실 좌표 (class_sessions.classroom_*)
+   * - predefined: 강의에 연결된 미리 정의된 강의실 (predefined_locations)
+   * - course: 강의 기본 위치 (courses.location_* 또는 classroom_location)
+   */
+  defaultRadiusMeters: {
+    session: 100,
+    predefined: 100,
+    course: 100
+  }
+} as const
+
+/**
+ * 조퇴 판정 (heartbeat 궤적 재생) 설정
+ *
+ * 최근 location_logs 를 서버에서 현재 강의실 경계로 다시 판정해
+ * "최근 N개 중 K개 이상이 경계 밖이고, 그 상태가 M분 이상 지속" 되면 조퇴로 처리합니다.
+ * 각 샘플은 GPS 정확도와 PDR 융합 신뢰도(confidence)로 가중치를 둡니다.
+ */
+export const LEFT_EARLY_POLICY_CONFIG = {
+  /**
+   * 판정에 사용하는 최근 샘플 수 (N)
+   *
+   * - 현재값: 6 (heartbeat 30초 주기 기준 약 3분)
+   */
+  windowSamples: readNumberEnv('LEFT_EARLY_WINDOW_SAMPLES', 6),
+
+  /**
+   * 경계 밖이어야 하는 최소 샘플 수 (K)
+   */
+  minOutsideSamples: readNumberEnv('LEFT_EARLY_MIN_OUTSIDE_SAMPLES', 4),
+
+  /**
+   * 경계 밖 상태가 지속되어야 하는 최소 시간 (분, M)
+   *
+   * - 가장 오래된 경계 밖 샘플부터 최신 샘플까지의 시간
+   */
+  minOutsideMinutes: readNumberEnv('LEFT_EARLY_MIN_OUTSIDE_MINUTES', 2),
+
+  /**
+   * 가중치 기준 경계 밖 비율 하한 (0 ~ 1)
+   *
+   * - 정확도가 낮거나 신뢰도가 낮은 샘플만 경계 밖이면 조퇴로 보지 않음
+   */
+  minWeightedOutsideRatio: 0.6,
+
+  /**
+   * 가중치 1로 취급하는 GPS 정확도 (미터)
+   *
+   * - 이보다 나쁜 정확도는 기준값/정확도 비율로 가중치가 줄어듦 (40m → 0.5)
+   */
+  referenceAccuracyMeters: 20,
+
+  /**
+   * 판정에서 제외하는 GPS 정확도 (미터)
+   */
+  maxSampleAccuracyMeters: 100,
+
+  /**
+   * 이보다 오래된 샘플은 판정에서 제외 (분)
+   *
+   * - 백그라운드 전환 등으로 heartbeat 가 끊겼다가 재개된 경우 예전 샘플이 섞이지 않도록 함
+   */
+  maxSampleAgeMinutes: 15
+} as const
+
+/**
+ * 기기 등록 및 공유 기기 체크인 감지 설정
+ *
+ * 학생은 로그인할 때 기기 식별자를 등록하며, 등록 가능한 기기 수를 넘으면
+ * 관리자가 재등록 요청을 승인해야 새 기기로 로그인할 수 있습니다.
+ */
+export const DEVICE_BINDING_CONFIG = {
+  /**
+   * 학생당 등록 가능한 최대 기기 수
+   *
+   * - 현재값: 2 (휴대폰 + 태블릿)
+   */
+  maxDevicesPerStudent: readNumberEnv('DEVICE_MAX_PER_STUDENT', 2),
+
+  /**
+   * 한 기기에서 같은 세션에 여러 학생이 체크인할 때의 처리
+   *
+   * - 'flag': 체크인은 허용하고 교수 대시보드에 표시 (기본값)
+   * - 'block': 두 번째 학생부터 체크인 거부
+   */
+  sharedDeviceAction: (process.env.SHARED_DEVICE_ACTION === 'block' ? 'block' : 'flag') as 'flag' | 'block'
+} as const
+
+/**
+ * CSV 수강 명단 일괄 등록 설정
+ */
+export const ROSTER_IMPORT_CONFIG = {
+  /**
+   * 한 번에 가져올 수 있는 최대 행 수 (헤더 제외)
+   */
+  maxRows: 1000,
+
+  /**
+   * CSV 본문 최대 길이 (자)
+   */
+  maxCsvLength: 200_000
+} as const
+
+/**
+ * 학생별 출석 위험 판정 설정
+ *
+ * 종료된 세션 중 결석 비율이 기준에 도달하면 위험(atRisk)으로 표시합니다.
+ * 많은 학교의 "수업 시간 1/4 이상 결석 시 F" 학칙을 기본값으로 합니다.
+ */
+export const ATTENDANCE_RISK_CONFIG = {
+  /**
+   * 위험으로 표시하는 결석 비율 (0 ~ 1)
+   *
+   * - 현재값: 0.25 (1/4)
+   */
+  absenceRatioThreshold: readNumberEnv('ATTENDANCE_RISK_ABSENCE_RATIO', 0.25),
+
+  /**
+   * 결석 1회로 환산하는 지각 횟수 (0이면 환산하지 않음)
+   *
+   * - 예: 3 이면 지각 3회 = 결석 1회
+   */
+  latesPerAbsence: readNumberEnv('ATTENDANCE_RISK_LATES_PER_ABSENCE', 0)
+} as const
+
+/**
+ * 오프라인 체크인 대기열 설정
+ *
+ * 네트워크가 없을 때 스캔한 체크인은 기기에 저장했다가 서비스 워커가 재전송합니다.
+ * 서버는 QR 토큰이 스캔 시각에 유효했는지를 토큰에 서명된 타임스텝으로 검증하므로,
+ * 스캔 시각은 토큰의 허용 구간 밖으로 앞당길 수 없습니다.
+ */
+export const OFFLINE_CHECKIN_CONFIG = {
+  /**
+   * 대기열 보관 기한: 스캔 후 재전송까지 허용하는 최대 시간 (분)
+   *
+   * - 현재값: 180분 (수업 내내 연결이 없다가 강의실을 나와서 전송되는 경우까지 허용)
+   * - 세션 종료 후 재전송은 이와 별개로 종료 전에 스캔한 경우만 인정
+   */
+  replayTtlMinutes: readNumberEnv('OFFLINE_CHECKIN_REPLAY_TTL_MINUTES', 180)
+} as const
+
+/**
+ * heartbeat 끊김(signal lost) 판정 설정
+ *
+ * 출석 중(present/late)인 학생의 마지막 heartbeat 이후 기준 시간이 지나면
+ * 출석 상태는 그대로 두고 "신호 끊김" 으로 표시합니다. 세션 종료 시 처리는 정책을 따릅니다.
+ */
+export const SIGNAL_LOST_CONFIG = {
+  /**
+   * 마지막 heartbeat 이후 이 시간이 지나면 신호 끊김 (초)
+   *
+   * - 현재값: 90초 (포그라운드 30초 주기 기준 3회 누락)
+   */
+  silenceSeconds: readNumberEnv('SIGNAL_LOST_SILENCE_SECONDS', 90),
+
+  /**
+   * 신호가 끊긴 채 세션이 종료된 출석 기록의 처리
+   *
+   * - 'review': 출석 상태는 유지하고 교수 확인 필요로 표시 (기본값)
+   * - 'keep': 출석 상태 유지
+   * - 'left_early': 마지막 heartbeat 시각으로 조퇴 처리
+   */
+  finalizePolicy: (
+    process.env.SIGNAL_LOST_FINALIZE_POLICY === 'keep' || process.env.SIGNAL_LOST_FINALIZE_POLICY === 'left_early'
+      ? process.env.SIGNAL_LOST_FINALIZE_POLICY
+      : 'review'
+  ) as 'keep' | 'left_early' | 'review'
+} as const
+
+/**
+ * 교수 대시보드 실시간 이벤트 스트림 (SSE) 설정
+ *
+ * GET /api/sessions/[id]/events 가 주기적으로 DB 를 조회해 체크인, 상태 변경,
+ * heartbeat 끊김, 세션 종료를 이벤트로 보냅니다. Supabase Realtime 없이 동작합니다.
+ */
+export const SESSION_EVENTS_CONFIG = {
+  /**
+   * DB 조회 주기 (초)
+   */
+  pollIntervalSeconds: readNumberEnv('SESSION_EVENTS_POLL_SECONDS', 3),
+
+  /**
+   * 한 연결의 최대 유지 시간 (초)
+   *
+   * - 서버리스 함수 실행 시간 제한보다 짧게 두고, 브라우저가 Last-Event-ID 로 자동 재연결
+   */
+  maxStreamSeconds: readNumberEnv('SESSION_EVENTS_MAX_STREAM_SECONDS', 240),
+
+  /**
+   * 연결 유지용 주석 전송 주기 (초)
+   */
+  keepAliveSeconds: 15
+} as const
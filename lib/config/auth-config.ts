@@ -0,0 +1,107 @@
+/**
+ * 인증 토큰 설정
+ *
+ * 액세스 토큰은 짧게 유지하는 서명 JWT(auth-token 쿠키)이고,
+ * 리프레시 토큰은 서버(auth_refresh_tokens)에 해시로 저장되는 무작위 값(refresh-token 쿠키)입니다.
+ * middleware(Edge)에서도 사용하므로 Node 전용 모듈을 import 하지 않습니다.
+ *
+ * - JWT_SECRET: 액세스 토큰 서명 키 (프로덕션 필수)
+ * - ACCESS_TOKEN_TTL_SECONDS / REFRESH_TOKEN_TTL_SECONDS: 토큰 유효 기간
+ * - PASSWORD_RESET_CODE_TTL_MINUTES: 비밀번호 재설정 코드 유효 기간
+ */
+
+const DEVELOPMENT_JWT_SECRET = 'your-secret-key-change-in-production'
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === '') {
+    return fallback
+  }
+  const parsed = Number(raw)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export const AUTH_TOKEN_CONFIG = {
+  /**
+   * 액세스 토큰 유효 기간 (초)
+   *
+   * - 현재값: 15분
+   * - 상태를 저장하지 않는 토큰이므로 로그아웃/전체 로그아웃 후에도 이 시간까지는 유효
+   */
+  accessTokenTtlSeconds: readNumberEnv('ACCESS_TOKEN_TTL_SECONDS', 15 * 60),
+
+  /**
+   * 리프레시 토큰 유효 기간 (초)
+   *
+   * - 현재값: 30일
+   * - 사용할 때마다 새 토큰으로 교체되며, 교체 시 만료 시각도 다시 계산
+   */
+  refreshTokenTtlSeconds: readNumberEnv('REFRESH_TOKEN_TTL_SECONDS', 30 * 24 * 60 * 60),
+
+  /**
+   * 교체 직후 같은 리프레시 토큰이 다시 들어와도 재사용으로 보지 않는 시간 (초)
+   *
+   * - 여러 탭이 동시에 토큰을 갱신하는 경우를 허용 (이 경우 family 는 폐기하지 않고 요청만 거부)
+   */
+  reuseGraceSeconds: 10,
+
+  accessCookieName: 'auth-token',
+  refreshCookieName: 'refresh-token',
+
+  /**
+   * 리프레시 토큰 쿠키 경로 (인증 API 에만 전송)
+   */
+  refreshCookiePath: '/api/auth',
+
+  issuer: 'attendance-app'
+} as const
+
+export const PASSWORD_RESET_CONFIG = {
+  /**
+   * 재설정 코드 유효 기간 (분)
+   *
+   * - 현재값: 30분
+   * - 교수/관리자가 학생에게 직접 전달하는 시간을 고려
+   */
+  codeTtlMinutes: readNumberEnv('PASSWORD_RESET_CODE_TTL_MINUTES', 30),
+
+  /**
+   * 코드 입력 실패 허용 횟수 (초과 시 코드 무효화, 새 코드 발급 필요)
+   */
+  maxFailedAttempts: 5,
+
+  /**
+   * 코드 길이 (혼동하기 쉬운 0/O, 1/I 제외한 영문 대문자+숫자)
+   */
+  codeLength: 8
+} as const
+
+export class MissingJwtSecretError extends Error {
+  constructor() {
+    super('JWT_SECRET 환경 변수가 설정되지 않았습니다. 프로덕션에서는 반드시 설정해야 합니다.')
+    this.name = 'MissingJwtSecretError'
+  }
+}
+
+/**
+ * 액세스 토큰 서명 키
+ *
+ * 프로덕션에서 JWT_SECRET 이 없으면 예외를 던지고, 개발 환경에서만 고정 키를 사용합니다.
+ */
+export function getJwtSecretKey(env: NodeJS.ProcessEnv = process.env): Uint8Array {
+  const secret = env.JWT_SECRET?.trim()
+  if (!secret) {
+    if (env.NODE_ENV === 'production') {
+      throw new MissingJwtSecretError()
+    }
+    return new TextEncoder().encode(DEVELOPMENT_JWT_SECRET)
+  }
+  return new TextEncoder().encode(secret)
+}
+
+/**
+ * 서버 시작 시 인증 설정 검증 (instrumentation.ts 에서 호출)
+ */
+export function assertAuthConfig(env: NodeJS.ProcessEnv = process.env): void {
+  getJwtSecretKey(env)
+}
@@ -110,6 +110,55 @@ export const WEINBERG_CONFIG = {
   maxStepLength: 1.2   // 120cm
 } as const
 
+/**
+ * 사용자별 걷기 보정 파라미터
+ *
+ * 학생이 거리를 아는 구간(미리 정의된 두 위치 사이, 또는 줄자로 잰 복도)을 걸은 기록으로
+ * 걸음 감지 임계값과 Weinberg K 를 사용자별로 맞춥니다.
+ */
+export const CALIBRATION_CONFIG = {
+  /**
+   * 기본 보정 거리 (m) - 줄자로 잰 복도
+   */
+  defaultDistance: 20,
+
+  /**
+   * 보정 거리 범위 (m)
+   *
+   * - 짧으면 걸음 수가 적어 K 오차가 커지고, 길면 방향 전환이 섞이기 쉬움
+   */
+  minDistance: 10,
+  maxDistance: 200,
+
+  /**
+   * 최소 감지 걸음 수
+   */
+  minSteps: 12,
+
+  /**
+   * 걸음 감지 임계값 후보 수 (가속도 크기 분포의 중앙값 ~ 98 백분위)
+   */
+  thresholdCandidates: 24,
+
+  /**
+   * 가장 규칙적인 후보와의 걸음 간격 변동계수 차이 허용값
+   * 이 안에 드는 후보들 중 가운데 임계값을 선택 (경계 값보다 노이즈에 강함)
+   */
+  intervalCvTolerance: 0.05,
+
+  /**
+   * 허용 걸음 빈도 (steps/sec)
+   */
+  minCadence: 0.8,
+  maxCadence: 3.0,
+
+  /**
+   * 보정 K 허용 범위 (벗어나면 걸음 감지가 잘못된 것으로 보고 저장하지 않음)
+   */
+  minK: 0.2,
+  maxK: 0.9
+} as const
+
 /**
  * GPS-PDR Fusion 재보정 파라미터
  */
@@ -204,6 +253,80 @@ export const FUSION_CONFIG = {
   positionDifferenceThreshold: 25
 } as const
 
+/**
+ * Extended Kalman Filter 융합 파라미터 (GPSPDRFusionManager filter: 'ekf')
+ *
+ * 상태: 위치(x, y), 속도(vx, vy), 자이로 방향 bias(b)
+ * 걸음마다 PDR 걸음 길이/방향을 속도 관측으로, GPS 측위를 위치 관측으로 사용합니다.
+ */
+export const EKF_CONFIG = {
+  /**
+   * 걸음 길이 표준편차 (m)
+   *
+   * - 현재값: 0.1m
+   * - 걷기 보정(9.5) 후에는 0.05m 까지 낮출 수 있음
+   */
+  stepLengthStd: 0.1,
+
+  /**
+   * 걸음 방향 표준편차 (rad)
+   *
+   * - 현재값: 0.1 rad (약 6°)
+   * - bias 와 별개인 걸음마다의 흔들림
+   */
+  stepHeadingStd: 0.1,
+
+  /**
+   * 걸음마다의 위치 모델 오차 표준편차 (m)
+   *
+   * - 현재값: 0.5m
+   * - Weinberg 추정이 실제 보폭과 꾸준히 어긋나는 오차 (클수록 GPS 를 더 따름)
+   * - 걷기 보정(9.5) 후에는 줄여도 됨
+   */
+  stepPositionStd: 0.5,
+
+  /**
+   * 속도 변화 노이즈 (m/s/√s)
+   *
+   * - 현재값: 0.5
+   * - 클수록 걸음 관측을 더 빨리 따라감
+   */
+  velocityNoise: 0.5,
+
+  /**
+   * 방향 bias 변화 노이즈 (rad/√s)
+   *
+   * - 현재값: 0.01 (약 0.6°/√s)
+   * - 자이로 drift 가 심한 기기일수록 크게
+   */
+  headingBiasNoise: 0.01,
+
+  /**
+   * 초기 방향 bias 표준편차 (rad)
+   *
+   * - 현재값: 0.2 rad (약 11°)
+   * - 지자기 보정 없이 시작하면 크게 (단, 너무 크면 선형화 오차로 발산 가능)
+   */
+  initialHeadingBiasStd: 0.2,
+
+  /**
+   * 초기 속도 표준편차 (m/s)
+   */
+  initialVelocityStd: 1.5,
+
+  /**
+   * 정지 판단 시간 (ms)
+   *
+   * 마지막 걸음 이후 이 시간이 지나 GPS 가 들어오면 속도 0 을 관측값으로 사용 (ZUPT)
+   */
+  stationaryTimeout: 1500,
+
+  /**
+   * 첫 걸음처럼 걸음 간격을 모를 때 사용할 간격 (ms)
+   */
+  defaultStepInterval: 500
+} as const
+
 /**
  * Environment Detector 파라미터
  */
@@ -258,6 +381,121 @@ export const ENVIRONMENT_CONFIG = {
   minSampleCount: 3
 } as const
 
+/**
+ * 근접(BLE 비콘 / Wi-Fi AP) 위치 근거 파라미터
+ */
+export const PROXIMITY_CONFIG = {
+  /**
+   * 관측 유지 시간 (ms)
+   *
+   * - 현재값: 15000ms (15초)
+   * - 이보다 오래된 관측은 체크인/heartbeat 에 보내지 않음
+   */
+  observationWindow: 15000,
+
+  /**
+   * 최소 RSSI (dBm)
+   *
+   * - 현재값: -90 dBm
+   * - 이보다 약한 신호는 옆 강의실/복도에서도 잡히므로 무시
+   */
+  minRssi: -90,
+
+  /**
+   * 최소 일치 비콘 수
+   *
+   * - 현재값: 2
+   * - 지문의 비콘이 이보다 적으면 지문 전체가 보여야 함
+   */
+  minMatchedBeacons: 2,
+
+  /**
+   * 최소 일치 비율 (일치 비콘 / 지문 비콘)
+   *
+   * - 현재값: 0.5
+   */
+  minCoverage: 0.5,
+
+  /**
+   * 최대 RSSI 편차 (dB, 일치 비콘의 RMS)
+   *
+   * - 현재값: 10 dB
+   * - 기기/자세에 따라 5~8 dB 는 흔들리므로 너무 낮추지 말 것
+   */
+  maxRssiDeviation: 10,
+
+  /**
+   * 요청 하나에 보낼 수 있는 최대 관측 수
+   */
+  maxObservations: 50
+} as const
+
+/**
+ * 층(고도) 추적 파라미터
+ */
+export const FLOOR_CONFIG = {
+  /**
+   * 한 층 높이 (m)
+   *
+   * - 현재값: 3.5m
+   * - 강의동은 보통 3.3~4.0m, 층고가 다른 건물은 조정
+   */
+  floorHeight: 3.5,
+
+  /**
+   * 층 변경 히스테리시스 (층 단위)
+   *
+   * - 현재값: 0.15
+   * - 계단 중간에서 층이 왔다 갔다 하지 않도록, 반올림 경계를 이만큼 넘어야 층 변경
+   */
+  hysteresis: 0.15,
+
+  /**
+   * 기압 고도 평활 계수 (EMA, 0~1)
+   *
+   * - 현재값: 0.2
+   * - 기압계 노이즈는 ±0.1hPa(≈ ±1m) 정도라 평활이 필요
+   */
+  pressureSmoothing: 0.2,
+
+  /**
+   * GPS 고도를 사용할 최대 고도 정확도 (m)
+   *
+   * - 현재값: 10m
+   * - 기압계가 없을 때만 사용, 실내 GPS 고도는 오차가 커서 대부분 걸러짐
+   */
+  maxGpsAltitudeAccuracy: 10,
+
+  /**
+   * GPS 고도 평활 계수 (EMA, 0~1)
+   */
+  gpsAltitudeSmoothing: 0.3,
+
+  /**
+   * 기압 측정 유효 시간 (ms)
+   *
+   * - 현재값: 5000ms
+   * - 마지막 기압 측정 후 이 시간이 지나면 GPS 고도로 대체
+   */
+  barometerTimeout: 5000,
+
+  /**
+   * 기압 drift 보정 시정수 (ms)
+   *
+   * - 현재값: 60000ms
+   * - 날씨에 따른 기압 변화(시간당 ~1hPa ≈ 8m)를 현재 층 높이 기준으로 천천히 흡수
+   */
+  driftTimeConstant: 60000,
+
+  /**
+   * 기압 drift 보정 최대 속도 (m/s)
+   *
+   * - 현재값: 0.02 m/s (시간당 72m)
+   * - 날씨 변화보다 충분히 크고 계단/엘리베이터(0.2m/s 이상)보다 충분히 작게
+   */
+  maxDriftRate: 0.02
+} as const
+
 /**
  * 파라미터 프리셋
  *
@@ -0,0 +1,48 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { buildRosterDiff, parseRosterCsv } from './roster-import'
+
+test('parseRosterCsv reads header columns, quotes, BOM and reports bad rows', () => {
+  const csv = '\uFEFF이름,학번,비고\r\n"김, 철수",20250001,\r\n\r\n이영희,,휴학\r\n박민수,2025 0003\r\n최지우,20250004'
+  const { rows, errors } = parseRosterCsv(csv)
+
+  assert.deepStrictEqual(rows, [
+    { line: 2, studentId: '20250001', name: '김, 철수' },
+    { line: 6, studentId: '20250004', name: '최지우' }
+  ])
+  assert.deepStrictEqual(errors.map((error) => error.line), [4, 5])
+})
+
+test('parseRosterCsv treats a headerless file as student ID then name', () => {
+  const { rows, errors } = parseRosterCsv('20250001,김철수\n20250002\n')
+
+  assert.deepStrictEqual(rows, [
+    { line: 1, studentId: '20250001', name: '김철수' },
+    { line: 2, studentId: '20250002', name: null }
+  ])
+  assert.strictEqual(errors.length, 0)
+})
+
+test('buildRosterDiff separates new, enrolled, unknown, duplicate and missing students', () => {
+  const { rows } = parseRosterCsv('학번,이름\n20250001,김철수\n20250002,이영이\n20259999,유령\n20250001,김철수\n20250003,박민수')
+  const registered = new Map([
+    ['20250001', '김철수'],
+    ['20250002', '이영희'],
+    ['20250003', '박민수']
+  ])
+  const enrolled = new Map([
+    ['20250003', '박민수'],
+    ['20250004', '최지우']
+  ])
+
+  const diff = buildRosterDiff(rows, registered, enrolled)
+
+  assert.deepStrictEqual(diff.toEnroll.map((student) => student.studentId), ['20250001', '20250002'])
+  assert.deepStrictEqual(diff.alreadyEnrolled.map((student) => student.studentId), ['20250003'])
+  assert.deepStrictEqual(diff.unknown.map((row) => row.studentId), ['20259999'])
+  assert.deepStrictEqual(diff.duplicates, [{ studentId: '20250001', lines: [2, 5] }])
+  assert.deepStrictEqual(diff.nameMismatches, [
+    { studentId: '20250002', line: 3, csvName: '이영이', registeredName: '이영희' }
+  ])
+  assert.deepStrictEqual(diff.notInRoster, [{ studentId: '20250004', name: '최지우' }])
+})
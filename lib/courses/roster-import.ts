@@ -0,0 +1,343 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { ROSTER_IMPORT_CONFIG } from '@/lib/config/attendance-config'
+import { hasRosterSettingsColumns } from '@/lib/courses/schemaSupport'
+
+/**
+ * CSV 수강 명단 일괄 등록
+ *
+ * 교수가 올린 학번/이름 CSV를 students 테이블과 대조해 등록될 학생, 이미 등록된 학생,
+ * 존재하지 않는 학번, 중복 학번을 미리 보여준 뒤 course_enrollments 에 반영합니다.
+ * 학번이 기준이며 이름이 다르면 경고만 표시합니다.
+ * 출석부 내보내기 CSV(학번,이름,...)를 그대로 다시 가져올 수 있습니다.
+ */
+
+export interface RosterRow {
+  /** CSV 행 번호 (1부터, 헤더 포함) */
+  line: number
+  studentId: string
+  name: string | null
+}
+
+export interface RosterParseError {
+  line: number
+  message: string
+}
+
+export interface RosterParseResult {
+  rows: RosterRow[]
+  errors: RosterParseError[]
+}
+
+export interface RosterStudent {
+  studentId: string
+  name: string
+}
+
+export interface RosterDiff {
+  /** 새로 수강 등록될 학생 */
+  toEnroll: RosterStudent[]
+  /** 이미 수강 등록된 학생 */
+  alreadyEnrolled: RosterStudent[]
+  /** students 테이블에 없는 학번 */
+  unknown: RosterRow[]
+  /** CSV 안에서 두 번 이상 나온 학번 (첫 행만 반영) */
+  duplicates: Array<{ studentId: string; lines: number[] }>
+  /** CSV 이름과 등록된 이름이 다른 학생 */
+  nameMismatches: Array<{ studentId: string; line: number; csvName: string; registeredName: string }>
+  /** 수강 등록되어 있지만 CSV에 없는 학생 */
+  notInRoster: RosterStudent[]
+}
+
+const STUDENT_ID_HEADERS = ['학번', 'studentid', 'student_id', 'id']
+const NAME_HEADERS = ['이름', '성명', 'name']
+
+// Supabase .in() 필터가 URL 에 실리므로 나눠서 조회
+const LOOKUP_CHUNK_SIZE = 200
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+  return cells.map((cell) => cell.trim())
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().replace(/\s/g, '')
+}
+
+/**
+ * CSV 본문 파싱
+ *
+ * 첫 행이 헤더(학번/이름 등)면 열 위치를 헤더에서 찾고, 헤더가 없으면 1열 학번, 2열 이름으로 읽습니다.
+ * 엑셀에서 저장한 UTF-8 BOM 과 CRLF 줄바꿈을 허용합니다.
+ */
+export function parseRosterCsv(csv: string): RosterParseResult {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const rows: RosterRow[] = []
+  const errors: RosterParseError[] = []
+
+  let idColumn = 0
+  let nameColumn: number | null = 1
+  let startIndex = 0
+
+  const firstLineIndex = lines.findIndex((line) => line.trim() !== '')
+  if (firstLineIndex >= 0) {
+    const headers = splitCsvLine(lines[firstLineIndex]).map(normalizeHeader)
+    const headerIdColumn = headers.findIndex((cell) => STUDENT_ID_HEADERS.includes(cell))
+    if (headerIdColumn >= 0) {
+      const headerNameColumn = headers.findIndex((cell) => NAME_HEADERS.includes(cell))
+      idColumn = headerIdColumn
+      nameColumn = headerNameColumn >= 0 ? headerNameColumn : null
+      startIndex = firstLineIndex + 1
+    }
+  }
+
+  for (let i = startIndex; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue
+    }
+
+    const line = i + 1
+    const cells = splitCsvLine(lines[i])
+    const studentId = cells[idColumn] ?? ''
+    if (!studentId) {
+      errors.push({ line, message: '학번이 비어 있습니다' })
+      continue
+    }
+    if (/\s/.test(studentId)) {
+      errors.push({ line, message: `학번 형식이 올바르지 않습니다: ${studentId}` })
+      continue
+    }
+
+    if (rows.length >= ROSTER_IMPORT_CONFIG.maxRows) {
+      errors.push({ line, message: `한 번에 최대 ${ROSTER_IMPORT_CONFIG.maxRows}명까지 가져올 수 있습니다` })
+      break
+    }
+
+    const name = nameColumn !== null ? cells[nameColumn] ?? '' : ''
+    rows.push({ line, studentId, name: name || null })
+  }
+
+  return { rows, errors }
+}
+
+/**
+ * 명단과 현재 등록 현황 비교
+ *
+ * @param registered - CSV 학번 중 students 테이블에 있는 학생 (학번 → 이름)
+ * @param enrolled - 현재 수강 등록된 학생 (학번 → 이름)
+ */
+export function buildRosterDiff(
+  rows: RosterRow[],
+  registered: Map<string, string>,
+  enrolled: Map<string, string>
+): RosterDiff {
+  const diff: RosterDiff = {
+    toEnroll: [],
+    alreadyEnrolled: [],
+    unknown: [],
+    duplicates: [],
+    nameMismatches: [],
+    notInRoster: []
+  }
+
+  const linesById = new Map<string, number[]>()
+  for (const row of rows) {
+    const lines = linesById.get(row.studentId)
+    if (lines) {
+      lines.push(row.line)
+      continue
+    }
+    linesById.set(row.studentId, [row.line])
+
+    const registeredName = registered.get(row.studentId)
+    if (registeredName === undefined) {
+      diff.unknown.push(row)
+      continue
+    }
+
+    if (row.name && row.name !== registeredName) {
+      diff.nameMismatches.push({ studentId: row.studentId, line: row.line, csvName: row.name, registeredName })
+    }
+
+    const student = { studentId: row.studentId, name: registeredName }
+    if (enrolled.has(row.studentId)) {
+      diff.alreadyEnrolled.push(student)
+    } else {
+      diff.toEnroll.push(student)
+    }
+  }
+
+  linesById.forEach((lines, studentId) => {
+    if (lines.length > 1) {
+      diff.duplicates.push({ studentId, lines })
+    }
+  })
+
+  enrolled.forEach((name, studentId) => {
+    if (!linesById.has(studentId)) {
+      diff.notInRoster.push({ studentId, name })
+    }
+  })
+
+  return diff
+}
+
+/**
+ * 명단 학번 조회 후 현재 수강 등록과 비교
+ */
+export async function loadRosterDiff(
+  supabase: SupabaseClient<Database>,
+  courseId: string,
+  rows: RosterRow[]
+): Promise<RosterDiff> {
+  const studentIds = Array.from(new Set(rows.map((row) => row.studentId)))
+  const registered = new Map<string, string>()
+
+  for (let i = 0; i < studentIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('students')
+      .select('student_id, name')
+      .in('student_id', studentIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+    if (error) {
+      throw error
+    }
+    for (const student of data ?? []) {
+      registered.set(student.student_id, student.name)
+    }
+  }
+
+  const { data: enrollments, error: enrollmentError } = await supabase
+    .from('course_enrollments')
+    .select('student_id, students(name)')
+    .eq('course_id', courseId)
+  if (enrollmentError) {
+    throw enrollmentError
+  }
+
+  const enrolled = new Map<string, string>()
+  for (const enrollment of enrollments ?? []) {
+    const student = Array.isArray(enrollment.students) ? enrollment.students[0] : enrollment.students
+    enrolled.set(enrollment.student_id, student?.name ?? enrollment.student_id)
+  }
+
+  return buildRosterDiff(rows, registered, enrolled)
+}
+
+/**
+ * 비교 결과를 수강 등록에 반영
+ *
+ * 이미 등록된 학생은 건너뛰며(UNIQUE(course_id, student_id)), removeMissing 이면
+ * 명단에 없는 학생의 수강 등록을 해제합니다. 출석 기록은 남습니다.
+ */
+export async function applyRosterDiff(
+  supabase: SupabaseClient<Database>,
+  courseId: string,
+  diff: RosterDiff,
+  options: { removeMissing: boolean; autoEnrollOnScan?: boolean },
+  now: Date = new Date()
+): Promise<{ enrolled: number; removed: number }> {
+  let enrolled = 0
+  if (diff.toEnroll.length > 0) {
+    const { data, error } = await supabase
+      .from('course_enrollments')
+      .upsert(
+        diff.toEnroll.map((student) => ({
+          course_id: courseId,
+          student_id: student.studentId,
+          enrolled_at: now.toISOString()
+        })),
+        { onConflict: 'course_id,student_id', ignoreDuplicates: true }
+      )
+      .select('id')
+    if (error) {
+      throw error
+    }
+    enrolled = data?.length ?? 0
+  }
+
+  let removed = 0
+  if (options.removeMissing && diff.notInRoster.length > 0) {
+    const { data, error } = await supabase
+      .from('course_enrollments')
+      .delete()
+      .eq('course_id', courseId)
+      .in('student_id', diff.notInRoster.map((student) => student.studentId))
+      .select('id')
+    if (error) {
+      throw error
+    }
+    removed = data?.length ?? 0
+  }
+
+  if (await hasRosterSettingsColumns(supabase)) {
+    const { error } = await supabase
+      .from('courses')
+      .update({
+        roster_imported_at: now.toISOString(),
+        ...(options.autoEnrollOnScan !== undefined && { auto_enroll_on_scan: options.autoEnrollOnScan })
+      })
+      .eq('id', courseId)
+    if (error) {
+      throw error
+    }
+  }
+
+  return { enrolled, removed }
+}
+
+export interface CourseRosterSettingsState {
+  /** 마이그레이션 025 적용 여부 */
+  supported: boolean
+  autoEnrollOnScan: boolean
+  rosterImportedAt: string | null
+}
+
+/**
+ * 강의의 명단 설정 (마이그레이션 025 미적용 시 항상 스캔 자동 등록)
+ */
+export async function getCourseRosterSettings(
+  supabase: SupabaseClient<Database>,
+  courseId: string
+): Promise<CourseRosterSettingsState> {
+  if (!(await hasRosterSettingsColumns(supabase))) {
+    return { supported: false, autoEnrollOnScan: true, rosterImportedAt: null }
+  }
+
+  const { data, error } = await supabase
+    .from('courses')
+    .select('auto_enroll_on_scan, roster_imported_at')
+    .eq('id', courseId)
+    .maybeSingle()
+  if (error) {
+    throw error
+  }
+  return {
+    supported: true,
+    autoEnrollOnScan: data?.auto_enroll_on_scan ?? true,
+    rosterImportedAt: data?.roster_imported_at ?? null
+  }
+}
@@ -4,11 +4,31 @@ import type { Database } from '@/types/supabase'
 let cachedCourseLocationSupport: boolean | null = null
 let cachedCourseScheduleSupport: boolean | null = null
 let cachedCourseDescriptionSupport: boolean | null = null
+let cachedLateGradingSupport: boolean | null = null
+let cachedGeofenceSupport: boolean | null = null
+let cachedDeviceBindingSupport: boolean | null = null
+let cachedRosterSettingsSupport: boolean | null = null
+let cachedOfflineCheckinSupport: boolean | null = null
+let cachedCheckinResponseSupport: boolean | null = null
+let cachedSignalTrackingSupport: boolean | null = null
+let cachedPdrCalibrationSupport: boolean | null = null
+let cachedProximityFingerprintSupport: boolean | null = null
+let cachedFloorSupport: boolean | null = null
 
 export function resetCourseSchemaSupportCache() {
   cachedCourseLocationSupport = null
   cachedCourseScheduleSupport = null
   cachedCourseDescriptionSupport = null
+  cachedLateGradingSupport = null
+  cachedGeofenceSupport = null
+  cachedDeviceBindingSupport = null
+  cachedRosterSettingsSupport = null
+  cachedOfflineCheckinSupport = null
+  cachedCheckinResponseSupport = null
+  cachedSignalTrackingSupport = null
+  cachedPdrCalibrationSupport = null
+  cachedProximityFingerprintSupport = null
+  cachedFloorSupport = null
 }
 
 export async function hasAdvancedCourseLocationColumns(
@@ -76,3 +96,233 @@ export async function hasCourseDescriptionColumn(
   cachedCourseDescriptionSupport = true
   return true
 }
+
+export async function hasLateGradingColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedLateGradingSupport !== null) {
+    return cachedLateGradingSupport
+  }
+
+  const [courseResult, attendanceResult] = await Promise.all([
+    supabase.from('courses').select('late_grace_minutes, late_cutoff_minutes').limit(1),
+    supabase.from('attendances').select('late_minutes').limit(1)
+  ])
+  const error = courseResult.error ?? attendanceResult.error
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Late grading columns are missing, check-ins will be recorded as present:', error.message)
+    }
+    cachedLateGradingSupport = false
+    return false
+  }
+
+  cachedLateGradingSupport = true
+  return true
+}
+
+export async function hasGeofenceColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedGeofenceSupport !== null) {
+    return cachedGeofenceSupport
+  }
+
+  const [sessionResult, locationResult] = await Promise.all([
+    supabase.from('class_sessions').select('classroom_geofence, classroom_geofence_buffer').limit(1),
+    supabase.from('predefined_locations').select('geofence, geofence_buffer').limit(1)
+  ])
+  const error = sessionResult.error ?? locationResult.error
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Geofence columns are missing, classrooms will use circular radius only:', error.message)
+    }
+    cachedGeofenceSupport = false
+    return false
+  }
+
+  cachedGeofenceSupport = true
+  return true
+}
+
+export async function hasDeviceBindingColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedDeviceBindingSupport !== null) {
+    return cachedDeviceBindingSupport
+  }
+
+  const [attemptResult, deviceResult] = await Promise.all([
+    supabase.from('attendance_attempts').select('device_id').limit(1),
+    supabase.from('student_devices').select('id').limit(1)
+  ])
+  const error = attemptResult.error ?? deviceResult.error
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Device binding tables are missing, check-ins will skip shared device detection:', error.message)
+    }
+    cachedDeviceBindingSupport = false
+    return false
+  }
+
+  cachedDeviceBindingSupport = true
+  return true
+}
+
+export async function hasRosterSettingsColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedRosterSettingsSupport !== null) {
+    return cachedRosterSettingsSupport
+  }
+
+  const { error } = await supabase.from('courses').select('auto_enroll_on_scan, roster_imported_at').limit(1)
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Roster settings columns are missing, scans will always auto-enroll students:', error.message)
+    }
+    cachedRosterSettingsSupport = false
+    return false
+  }
+
+  cachedRosterSettingsSupport = true
+  return true
+}
+
+export async function hasOfflineCheckinColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedOfflineCheckinSupport !== null) {
+    return cachedOfflineCheckinSupport
+  }
+
+  const { error } = await supabase.from('attendance_attempts').select('captured_at').limit(1)
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Offline check-in columns are missing, queued attempts will not record capture time:', error.message)
+    }
+    cachedOfflineCheckinSupport = false
+    return false
+  }
+
+  cachedOfflineCheckinSupport = true
+  return true
+}
+
+export async function hasCheckinResponseColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedCheckinResponseSupport !== null) {
+    return cachedCheckinResponseSupport
+  }
+
+  const [attempts, attendances] = await Promise.all([
+    supabase.from('attendance_attempts').select('response_body').limit(1),
+    supabase.from('attendances').select('correlation_id').limit(1)
+  ])
+  const error = attempts.error ?? attendances.error
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Check-in idempotency columns are missing, retried check-ins will not be idempotent:', error.message)
+    }
+    cachedCheckinResponseSupport = false
+    return false
+  }
+
+  cachedCheckinResponseSupport = true
+  return true
+}
+
+export async function hasSignalTrackingColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedSignalTrackingSupport !== null) {
+    return cachedSignalTrackingSupport
+  }
+
+  const { error } = await supabase.from('attendances').select('last_heartbeat_at, review_reason').limit(1)
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Attendance signal tracking columns are missing, falling back to location_logs:', error.message)
+    }
+    cachedSignalTrackingSupport = false
+    return false
+  }
+
+  cachedSignalTrackingSupport = true
+  return true
+}
+
+export async function hasPdrCalibrationColumn(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedPdrCalibrationSupport !== null) {
+    return cachedPdrCalibrationSupport
+  }
+
+  const { error } = await supabase.from('students').select('pdr_calibration').limit(1)
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Students table lacks pdr_calibration column, PDR calibration will not be saved:', error.message)
+    }
+    cachedPdrCalibrationSupport = false
+    return false
+  }
+
+  cachedPdrCalibrationSupport = true
+  return true
+}
+
+export async function hasProximityFingerprintColumn(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedProximityFingerprintSupport !== null) {
+    return cachedProximityFingerprintSupport
+  }
+
+  const { error } = await supabase.from('predefined_locations').select('proximity_fingerprint').limit(1)
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Predefined locations lack proximity_fingerprint column, beacon evidence will be ignored:', error.message)
+    }
+    cachedProximityFingerprintSupport = false
+    return false
+  }
+
+  cachedProximityFingerprintSupport = true
+  return true
+}
+
+export async function hasFloorColumns(
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  if (cachedFloorSupport !== null) {
+    return cachedFloorSupport
+  }
+
+  const { error: locationError } = await supabase.from('predefined_locations').select('floor').limit(1)
+  const { error: logError } = locationError
+    ? { error: null }
+    : await supabase.from('location_logs').select('floor_change').limit(1)
+  const error = locationError ?? logError
+
+  if (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.info('Floor columns are missing, floor changes will be ignored:', error.message)
+    }
+    cachedFloorSupport = false
+    return false
+  }
+
+  cachedFloorSupport = true
+  return true
+}
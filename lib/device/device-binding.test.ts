@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  SHARED_DEVICE_FAILURE_REASON,
+  detectDeviceType,
+  findSharedDeviceCheckIns,
+  normalizeDeviceId,
+  normalizeNetworkType,
+  type DeviceCheckInAttempt
+} from './device-binding'
+
+const PHONE = 'a'.repeat(64)
+const TABLET = 'b'.repeat(64)
+
+function attempt(studentId: string, deviceId: string | null, minute: number, overrides: Partial<DeviceCheckInAttempt> = {}): DeviceCheckInAttempt {
+  return {
+    student_id: studentId,
+    device_id: deviceId,
+    device_type: 'android',
+    result: 'success',
+    failure_reason: null,
+    created_at: `2025-03-04T01:${String(minute).padStart(2, '0')}:00.000Z`,
+    ...overrides
+  }
+}
+
+test('detectDeviceType classifies common user agents', () => {
+  assert.strictEqual(detectDeviceType('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)'), 'ios')
+  assert.strictEqual(detectDeviceType('Mozilla/5.0 (Linux; Android 14; SM-S918N)'), 'android')
+  assert.strictEqual(detectDeviceType('Mozilla/5.0 (Windows NT 10.0; Win64; x64)'), 'desktop')
+  assert.strictEqual(detectDeviceType(null), 'other')
+})
+
+test('normalizeDeviceId and normalizeNetworkType reject unexpected values', () => {
+  assert.strictEqual(normalizeDeviceId(PHONE), PHONE)
+  assert.strictEqual(normalizeDeviceId('short'), null)
+  assert.strictEqual(normalizeDeviceId(`${PHONE};drop`), null)
+  assert.strictEqual(normalizeNetworkType('WiFi'), 'wifi')
+  assert.strictEqual(normalizeNetworkType('4g'), '4g')
+  assert.strictEqual(normalizeNetworkType('satellite'), null)
+})
+
+test('findSharedDeviceCheckIns flags devices used by several students', () => {
+  const flags = findSharedDeviceCheckIns([
+    attempt('202300002', PHONE, 5),
+    attempt('202300001', PHONE, 3),
+    attempt('202300003', TABLET, 4),
+    attempt('202300001', PHONE, 6, { result: 'duplicate', failure_reason: 'already_present' })
+  ])
+
+  assert.strictEqual(flags.length, 1)
+  assert.strictEqual(flags[0].deviceId, PHONE)
+  assert.deepStrictEqual(
+    flags[0].students.map((student) => student.studentId),
+    ['202300001', '202300002']
+  )
+})
+
+test('findSharedDeviceCheckIns includes blocked attempts and ignores other failures', () => {
+  const flags = findSharedDeviceCheckIns([
+    attempt('202300001', PHONE, 1),
+    attempt('202300002', PHONE, 2, { result: 'error', failure_reason: SHARED_DEVICE_FAILURE_REASON }),
+    attempt('202300003', PHONE, 3, { result: 'error', failure_reason: 'location_out_of_range' }),
+    attempt('202300004', null, 4)
+  ])
+
+  assert.strictEqual(flags.length, 1)
+  assert.deepStrictEqual(flags[0].students, [
+    { studentId: '202300001', firstAttemptAt: '2025-03-04T01:01:00.000Z', blocked: false },
+    { studentId: '202300002', firstAttemptAt: '2025-03-04T01:02:00.000Z', blocked: true }
+  ])
+})
@@ -0,0 +1,368 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { DEVICE_BINDING_CONFIG } from '@/lib/config/attendance-config'
+
+/**
+ * 학생 기기 등록과 공유 기기 체크인 감지
+ *
+ * 로그인 시 클라이언트가 보낸 기기 식별자를 학생 계정에 등록하고(최대 maxDevicesPerStudent 대),
+ * 체크인 시도에 기기 식별자를 남겨 한 기기에서 여러 학생이 같은 세션에 체크인하는 경우를 찾아냅니다.
+ */
+
+type Tables = Database['public']['Tables']
+
+export type StudentDevice = Tables['student_devices']['Row']
+export type DeviceRebindRequest = Tables['device_rebind_requests']['Row']
+export type DeviceType = 'ios' | 'android' | 'desktop' | 'other'
+
+export const SHARED_DEVICE_FAILURE_REASON = 'shared_device'
+
+const DEVICE_COLUMNS = 'id, student_id, device_id, device_type, user_agent, status, registered_at, last_seen_at, revoked_at'
+const REBIND_COLUMNS = 'id, student_id, device_id, device_type, user_agent, status, reviewed_by, reviewed_at, review_comment, created_at, updated_at'
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,128}$/
+const NETWORK_TYPES = ['wifi', 'cellular', 'ethernet', 'bluetooth', 'none', 'other', 'unknown', 'slow-2g', '2g', '3g', '4g', '5g']
+
+export type DeviceRegistrationResult =
+  | { status: 'known' | 'registered'; device: StudentDevice }
+  | { status: 'rebind_required'; request: DeviceRebindRequest | null; activeDevices: number }
+
+export type RebindReviewResult =
+  | { ok: true; request: DeviceRebindRequest; revokedDeviceIds: string[] }
+  | { ok: false; reason: 'not_found' | 'already_reviewed' | 'error'; error?: unknown }
+
+export interface DeviceCheckInAttempt {
+  student_id: string
+  device_id: string | null
+  device_type: string | null
+  result: string
+  failure_reason: string | null
+  created_at: string
+}
+
+export interface SharedDeviceFlag {
+  deviceId: string
+  deviceType: string | null
+  students: Array<{ studentId: string; firstAttemptAt: string; blocked: boolean }>
+}
+
+/**
+ * 클라이언트 기기 식별자 검증 (형식이 맞지 않으면 null)
+ */
+export function normalizeDeviceId(value: unknown): string | null {
+  return typeof value === 'string' && DEVICE_ID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * navigator.connection 값 검증 (알 수 없는 값이면 null)
+ */
+export function normalizeNetworkType(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const normalized = value.trim().toLowerCase()
+  return NETWORK_TYPES.includes(normalized) ? normalized : null
+}
+
+/**
+ * User-Agent 로 기기 종류 판별
+ */
+export function detectDeviceType(userAgent: string | null | undefined): DeviceType {
+  if (!userAgent) {
+    return 'other'
+  }
+  if (/iPhone|iPad|iPod/i.test(userAgent)) {
+    return 'ios'
+  }
+  if (/Android/i.test(userAgent)) {
+    return 'android'
+  }
+  if (/Windows|Macintosh|Linux|CrOS/i.test(userAgent)) {
+    return 'desktop'
+  }
+  return 'other'
+}
+
+/**
+ * 로그인 시 기기 등록
+ *
+ * - 이미 등록된 활성 기기면 마지막 사용 시각만 갱신
+ * - 등록 한도 안이면 새로 등록 (해제된 기기도 다시 활성화)
+ * - 한도를 넘으면 관리자 승인 대기 재등록 요청을 만들고 로그인 거부
+ */
+export async function registerStudentDevice(
+  supabase: SupabaseClient<Database>,
+  params: { studentId: string; deviceId: string; userAgent: string | null },
+  now: Date = new Date()
+): Promise<DeviceRegistrationResult> {
+  const timestamp = now.toISOString()
+  const deviceType = detectDeviceType(params.userAgent)
+
+  const { data: devices, error } = await supabase
+    .from('student_devices')
+    .select(DEVICE_COLUMNS)
+    .eq('student_id', params.studentId)
+  if (error) {
+    throw error
+  }
+
+  const existing = (devices ?? []).find((device) => device.device_id === params.deviceId)
+  if (existing?.status === 'active') {
+    const { data: touched } = await supabase
+      .from('student_devices')
+      .update({ last_seen_at: timestamp, user_agent: params.userAgent, device_type: deviceType })
+      .eq('id', existing.id)
+      .select(DEVICE_COLUMNS)
+      .maybeSingle()
+    return { status: 'known', device: touched ?? existing }
+  }
+
+  const activeDevices = (devices ?? []).filter((device) => device.status === 'active').length
+  if (activeDevices < DEVICE_BINDING_CONFIG.maxDevicesPerStudent) {
+    const { data: device, error: upsertError } = await supabase
+      .from('student_devices')
+      .upsert(
+        {
+          student_id: params.studentId,
+          device_id: params.deviceId,
+          device_type: deviceType,
+          user_agent: params.userAgent,
+          status: 'active',
+          registered_at: timestamp,
+          last_seen_at: timestamp,
+          revoked_at: null
+        },
+        { onConflict: 'student_id,device_id' }
+      )
+      .select(DEVICE_COLUMNS)
+      .single()
+    if (upsertError) {
+      throw upsertError
+    }
+    return { status: 'registered', device }
+  }
+
+  // 같은 기기의 대기 중인 요청이 있으면 재사용
+  const { data: pending } = await supabase
+    .from('device_rebind_requests')
+    .select(REBIND_COLUMNS)
+    .eq('student_id', params.studentId)
+    .eq('device_id', params.deviceId)
+    .eq('status', 'pending')
+    .maybeSingle()
+  if (pending) {
+    return { status: 'rebind_required', request: pending, activeDevices }
+  }
+
+  const { data: request, error: requestError } = await supabase
+    .from('device_rebind_requests')
+    .insert({
+      student_id: params.studentId,
+      device_id: params.deviceId,
+      device_type: deviceType,
+      user_agent: params.userAgent
+    })
+    .select(REBIND_COLUMNS)
+    .single()
+  if (requestError) {
+    console.error('[DeviceBinding] 재등록 요청 생성 실패:', requestError)
+  }
+  return { status: 'rebind_required', request: request ?? null, activeDevices }
+}
+
+/**
+ * 체크인 시 토큰에 기록된 기기가 아직 등록 상태인지 확인
+ */
+export async function isStudentDeviceActive(
+  supabase: SupabaseClient<Database>,
+  studentId: string,
+  deviceId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('student_devices')
+    .select('id')
+    .eq('student_id', studentId)
+    .eq('device_id', deviceId)
+    .eq('status', 'active')
+    .maybeSingle()
+  if (error) {
+    // 조회 실패로 정상 학생의 체크인을 막지 않음
+    console.warn('[DeviceBinding] 등록 기기 조회 실패:', error.message)
+    return true
+  }
+  return Boolean(data)
+}
+
+/**
+ * 재등록 요청 처리
+ *
+ * 승인하면 가장 오래 사용하지 않은 기기부터 해제해 자리를 만들고 새 기기를 활성화합니다.
+ */
+export async function reviewDeviceRebindRequest(
+  supabase: SupabaseClient<Database>,
+  params: { requestId: string; decision: 'approved' | 'rejected'; reviewedBy: string; comment?: string | null },
+  now: Date = new Date()
+): Promise<RebindReviewResult> {
+  const timestamp = now.toISOString()
+
+  const { data: request, error } = await supabase
+    .from('device_rebind_requests')
+    .select(REBIND_COLUMNS)
+    .eq('id', params.requestId)
+    .maybeSingle()
+  if (error) {
+    return { ok: false, reason: 'error', error }
+  }
+  if (!request) {
+    return { ok: false, reason: 'not_found' }
+  }
+  if (request.status !== 'pending') {
+    return { ok: false, reason: 'already_reviewed' }
+  }
+
+  const revokedDeviceIds: string[] = []
+  if (params.decision === 'approved') {
+    const { data: activeDevices, error: devicesError } = await supabase
+      .from('student_devices')
+      .select('id, device_id')
+      .eq('student_id', request.student_id)
+      .eq('status', 'active')
+      .order('last_seen_at', { ascending: true })
+    if (devicesError) {
+      return { ok: false, reason: 'error', error: devicesError }
+    }
+
+    const excess = (activeDevices ?? []).length - (DEVICE_BINDING_CONFIG.maxDevicesPerStudent - 1)
+    const toRevoke = excess > 0 ? (activeDevices ?? []).slice(0, excess) : []
+    if (toRevoke.length > 0) {
+      const { error: revokeError } = await supabase
+        .from('student_devices')
+        .update({ status: 'revoked', revoked_at: timestamp })
+        .in('id', toRevoke.map((device) => device.id))
+      if (revokeError) {
+        return { ok: false, reason: 'error', error: revokeError }
+      }
+      revokedDeviceIds.push(...toRevoke.map((device) => device.device_id))
+    }
+
+    const { error: bindError } = await supabase
+      .from('student_devices')
+      .upsert(
+        {
+          student_id: request.student_id,
+          device_id: request.device_id,
+          device_type: request.device_type,
+          user_agent: request.user_agent,
+          status: 'active',
+          registered_at: timestamp,
+          last_seen_at: timestamp,
+          revoked_at: null
+        },
+        { onConflict: 'student_id,device_id' }
+      )
+    if (bindError) {
+      return { ok: false, reason: 'error', error: bindError }
+    }
+  }
+
+  const { data: reviewed, error: reviewError } = await supabase
+    .from('device_rebind_requests')
+    .update({
+      status: params.decision,
+      reviewed_by: params.reviewedBy,
+      reviewed_at: timestamp,
+      review_comment: params.comment ?? null,
+      updated_at: timestamp
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending')
+    .select(REBIND_COLUMNS)
+    .maybeSingle()
+  if (reviewError) {
+    return { ok: false, reason: 'error', error: reviewError }
+  }
+  if (!reviewed) {
+    return { ok: false, reason: 'already_reviewed' }
+  }
+
+  return { ok: true, request: reviewed, revokedDeviceIds }
+}
+
+/**
+ * 재등록 요청 목록 (최신순)
+ */
+export async function fetchDeviceRebindRequests(
+  supabase: SupabaseClient<Database>,
+  status?: DeviceRebindRequest['status']
+): Promise<DeviceRebindRequest[]> {
+  let query = supabase.from('device_rebind_requests').select(REBIND_COLUMNS)
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(200)
+  if (error) {
+    throw error
+  }
+  return data ?? []
+}
+
+/**
+ * 같은 세션에서 이 기기로 이미 체크인한 다른 학생 ID 목록
+ */
+export async function findOtherStudentsOnDevice(
+  supabase: SupabaseClient<Database>,
+  params: { sessionId: string; deviceId: string; studentId: string }
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('attendance_attempts')
+    .select('student_id')
+    .eq('session_id', params.sessionId)
+    .eq('device_id', params.deviceId)
+    .eq('result', 'success')
+    .neq('student_id', params.studentId)
+  if (error) {
+    console.warn('[DeviceBinding] 공유 기기 조회 실패:', error.message)
+    return []
+  }
+  return Array.from(new Set((data ?? []).map((attempt) => attempt.student_id)))
+}
+
+/**
+ * 세션 체크인 시도에서 둘 이상의 학생이 사용한 기기 찾기
+ *
+ * 성공한 체크인과 공유 기기로 거부된 시도만 대상으로 하며, 학생은 첫 시도 순으로 정렬합니다.
+ */
+export function findSharedDeviceCheckIns(attempts: DeviceCheckInAttempt[]): SharedDeviceFlag[] {
+  const byDevice = new Map<string, { deviceType: string | null; students: Map<string, { firstAttemptAt: string; blocked: boolean }> }>()
+
+  for (const attempt of attempts) {
+    const blocked = attempt.failure_reason === SHARED_DEVICE_FAILURE_REASON
+    if (!attempt.device_id || (attempt.result !== 'success' && !blocked)) {
+      continue
+    }
+
+    const entry = byDevice.get(attempt.device_id) ?? { deviceType: attempt.device_type, students: new Map() }
+    const student = entry.students.get(attempt.student_id)
+    if (!student) {
+      entry.students.set(attempt.student_id, { firstAttemptAt: attempt.created_at, blocked })
+    } else {
+      if (attempt.created_at < student.firstAttemptAt) {
+        student.firstAttemptAt = attempt.created_at
+      }
+      // 한 번이라도 체크인에 성공했으면 거부 표시를 하지 않음
+      student.blocked = student.blocked && blocked
+    }
+    byDevice.set(attempt.device_id, entry)
+  }
+
+  return Array.from(byDevice.entries())
+    .filter(([, entry]) => entry.students.size > 1)
+    .map(([deviceId, entry]) => ({
+      deviceId,
+      deviceType: entry.deviceType,
+      students: Array.from(entry.students.entries())
+        .map(([studentId, student]) => ({ studentId, ...student }))
+        .sort((a, b) => a.firstAttemptAt.localeCompare(b.firstAttemptAt))
+    }))
+}
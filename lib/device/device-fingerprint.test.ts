@@ -0,0 +1,75 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { createHash } from 'node:crypto'
+import { DeviceStorageUnavailableError, getDeviceFingerprint } from './device-fingerprint'
+
+/**
+ * localStorage 만 흉내 내는 최소 window mock (브라우저 특성은 호출마다 바꿔 끼움)
+ */
+function installWindow(storage: Pick<Storage, 'getItem' | 'setItem'>, screen = { width: 390, height: 844 }, devicePixelRatio = 3) {
+  Object.assign(globalThis, { window: { localStorage: storage, screen, devicePixelRatio } })
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)', platform: 'iPhone', language: 'ko-KR', hardwareConcurrency: 6 },
+    configurable: true
+  })
+}
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const values = new Map(Object.entries(initial))
+  return {
+    values,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value)
+    }
+  }
+}
+
+test('getDeviceFingerprint keeps the stored identifier when browser traits change', async () => {
+  const storage = memoryStorage()
+  installWindow(storage)
+  const first = await getDeviceFingerprint()
+  assert.match(first, /^[0-9a-f]{64}$/)
+
+  // 브라우저 업데이트, 화면 확대, 언어 변경
+  installWindow(storage, { width: 428, height: 926 }, 2)
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X)', platform: 'iPhone', language: 'en-US', hardwareConcurrency: 6 },
+    configurable: true
+  })
+  assert.strictEqual(await getDeviceFingerprint(), first)
+})
+
+test('getDeviceFingerprint carries over the identifier registered from a legacy seed', async () => {
+  const storage = memoryStorage({ 'attendance-device-seed': 'legacy-seed' })
+  installWindow(storage)
+  const migrated = await getDeviceFingerprint()
+  const legacySource = [
+    'legacy-seed',
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+    'iPhone',
+    'ko-KR',
+    '6',
+    '390x844x3',
+    Intl.DateTimeFormat().resolvedOptions().timeZone ?? ''
+  ].join('|')
+  assert.strictEqual(migrated, createHash('sha256').update(legacySource).digest('hex'))
+
+  installWindow(storage, { width: 1024, height: 768 }, 1)
+  assert.strictEqual(await getDeviceFingerprint(), migrated)
+  assert.strictEqual(storage.values.get('attendance-device-id'), migrated)
+})
+
+test('getDeviceFingerprint refuses to mint a throwaway identifier when storage is unavailable', async () => {
+  installWindow({
+    getItem: () => {
+      throw new Error('SecurityError')
+    },
+    setItem: () => undefined
+  })
+  await assert.rejects(getDeviceFingerprint(), DeviceStorageUnavailableError)
+
+  // 저장이 조용히 무시되는 경우
+  installWindow({ getItem: () => null, setItem: () => undefined })
+  await assert.rejects(getDeviceFingerprint(), DeviceStorageUnavailableError)
+})
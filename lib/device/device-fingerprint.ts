@@ -0,0 +1,91 @@
+/**
+ * 브라우저 기기 식별자 (로그인 시 기기 등록용)
+ *
+ * 처음 로그인할 때 만든 무작위 식별자를 localStorage 에 보관해 계속 사용합니다.
+ * 브라우저 업데이트, 화면 확대, 언어 변경 등으로 값이 바뀌지 않도록 브라우저/화면 특성은 섞지 않습니다.
+ */
+
+const STORAGE_KEY = 'attendance-device-id'
+
+/** 이전 버전에서 쓰던 무작위 값 (이미 등록된 기기 식별자를 그대로 유지하기 위해 한 번만 사용) */
+const LEGACY_SEED_KEY = 'attendance-device-seed'
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{64}$/
+
+/**
+ * 저장소를 쓸 수 없어 기기 식별자를 유지할 수 없는 경우
+ *
+ * 로그인마다 새 식별자를 만들면 기기 등록 한도를 금방 채우므로, 로그인 화면에서 안내하고 중단합니다.
+ */
+export class DeviceStorageUnavailableError extends Error {
+  constructor() {
+    super('이 브라우저에서는 기기 정보를 저장할 수 없습니다. 사생활 보호(시크릿) 모드를 끄거나 사이트 데이터 저장을 허용한 뒤 다시 시도해주세요.')
+    this.name = 'DeviceStorageUnavailableError'
+  }
+}
+
+async function sha256Hex(source: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * 이전 버전의 식별자 계산 (무작위 값 + 브라우저/화면 특성)
+ *
+ * 업데이트 직후 첫 로그인에서만 사용하며, 결과를 저장해 이후에는 특성이 바뀌어도 같은 값을 씁니다.
+ */
+function legacyFingerprintSource(seed: string): string {
+  return [
+    seed,
+    navigator.userAgent,
+    navigator.platform ?? '',
+    navigator.language,
+    String(navigator.hardwareConcurrency ?? ''),
+    `${window.screen.width}x${window.screen.height}x${window.devicePixelRatio}`,
+    Intl.DateTimeFormat().resolvedOptions().timeZone ?? ''
+  ].join('|')
+}
+
+/**
+ * 기기 식별자 (64자리 16진수)
+ *
+ * @throws DeviceStorageUnavailableError - localStorage 를 읽거나 쓸 수 없는 경우
+ */
+export async function getDeviceFingerprint(): Promise<string> {
+  let storage: Storage
+  let stored: string | null
+  let legacySeed: string | null
+  try {
+    storage = window.localStorage
+    stored = storage.getItem(STORAGE_KEY)
+    legacySeed = storage.getItem(LEGACY_SEED_KEY)
+  } catch {
+    throw new DeviceStorageUnavailableError()
+  }
+
+  if (stored && DEVICE_ID_PATTERN.test(stored)) {
+    return stored
+  }
+
+  const deviceId = await sha256Hex(legacySeed ? legacyFingerprintSource(legacySeed) : crypto.randomUUID())
+  try {
+    storage.setItem(STORAGE_KEY, deviceId)
+    // 저장이 무시되는 브라우저도 있어 다시 읽어 확인
+    if (storage.getItem(STORAGE_KEY) !== deviceId) {
+      throw new DeviceStorageUnavailableError()
+    }
+  } catch {
+    throw new DeviceStorageUnavailableError()
+  }
+  return deviceId
+}
+
+/**
+ * 현재 네트워크 종류 (지원하지 않는 브라우저면 undefined)
+ */
+export function getNetworkType(): string | undefined {
+  const connection = (navigator as Navigator & { connection?: { type?: string; effectiveType?: string } }).connection
+  return connection?.type ?? connection?.effectiveType
+}
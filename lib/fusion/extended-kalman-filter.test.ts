@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { ExtendedKalmanFilter } from './extended-kalman-filter'
+import { KalmanFilter2D, type FusionFilter } from './kalman-filter'
+
+const STEP = 0.7
+const INTERVAL = 500
+
+/**
+ * 동쪽으로 걷는 걸음을 넣고 1초마다 실제 위치의 GPS 를 넣음
+ * PDR 방향에는 bias 만큼의 자이로 오차가 섞임
+ */
+function walk(filter: FusionFilter, steps: number, { bias = 0, gpsAccuracy = 0 } = {}): void {
+  filter.initialize(0, 0, 4, 0)
+  for (let i = 1; i <= steps; i++) {
+    const t = i * INTERVAL
+    const heading = bias
+    filter.predict(STEP * Math.cos(heading), STEP * Math.sin(heading), {
+      distance: STEP,
+      heading,
+      intervalMs: i === 1 ? 0 : INTERVAL,
+      timestamp: t
+    })
+    if (gpsAccuracy > 0 && i % 2 === 0) {
+      filter.update(i * STEP, 0, gpsAccuracy, t)
+    }
+  }
+}
+
+test('EKF follows PDR steps when there is no GPS', () => {
+  const ekf = new ExtendedKalmanFilter()
+  walk(ekf, 20)
+
+  const position = ekf.getPosition()
+  assert.ok(Math.abs(position.x - 20 * STEP) < 0.3, `x ${position.x}`)
+  assert.ok(Math.abs(position.y) < 1e-9)
+  assert.ok(Math.abs(ekf.getVelocity().x - STEP / (INTERVAL / 1000)) < 0.1)
+  assert.strictEqual(ekf.getHeadingBias(), 0)
+})
+
+test('EKF estimates gyro heading bias from GPS and beats the position-only filter', () => {
+  const bias = 0.3
+  const ekf = new ExtendedKalmanFilter()
+  const kalman = new KalmanFilter2D(1.0)
+  walk(ekf, 60, { bias, gpsAccuracy: 5 })
+  walk(kalman, 60, { bias, gpsAccuracy: 5 })
+
+  const truth = { x: 60 * STEP, y: 0 }
+  const error = (filter: FusionFilter) =>
+    Math.hypot(filter.getPosition().x - truth.x, filter.getPosition().y - truth.y)
+
+  assert.ok(Math.abs(ekf.getHeadingBias() - bias) < 0.1, `bias ${ekf.getHeadingBias()}`)
+  assert.ok(error(ekf) < error(kalman), `ekf ${error(ekf)} kalman ${error(kalman)}`)
+  assert.ok(error(ekf) < 1.5, `ekf ${error(ekf)}`)
+})
+
+test('EKF weighs GPS by per-fix accuracy and zeroes velocity after the walker stops', () => {
+  const pull = (accuracy: number) => {
+    const ekf = new ExtendedKalmanFilter()
+    walk(ekf, 4)
+    const before = ekf.getPosition().x
+    ekf.update(before + 10, 0, accuracy, 4 * INTERVAL)
+    return ekf.getPosition().x - before
+  }
+  assert.ok(pull(3) > pull(30) * 2, `3m ${pull(3)} vs 30m ${pull(30)}`)
+
+  const ekf = new ExtendedKalmanFilter()
+  walk(ekf, 10)
+  const position = ekf.getPosition()
+  ekf.update(position.x, position.y, 10, 10 * INTERVAL + 5000)
+  assert.ok(Math.hypot(ekf.getVelocity().x, ekf.getVelocity().y) < 0.2, `velocity ${ekf.getVelocity().x}`)
+})
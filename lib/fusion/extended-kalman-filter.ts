@@ -0,0 +1,355 @@
+/**
+ * Extended Kalman Filter (EKF)
+ * 위치, 속도, 자이로 방향 bias 를 함께 추정합니다.
+ *
+ * 상태 벡터 X: [x, y, vx, vy, b]
+ * - (x, y): 위치 (m, 동/북)
+ * - (vx, vy): 실제 방향 기준 속도 (m/s)
+ * - b: PDR 방향에 섞인 자이로 bias (라디안, PDR 방향 = 실제 방향 + b)
+ *
+ * 걸음마다
+ * 1. 걸음 길이/간격/방향으로 만든 속도를 관측값으로 보정 (PDR 방향 기준이므로 b 만큼 회전된 비선형 관측)
+ * 2. 걸음 간격 동안 속도를 적분해 위치 이동
+ * GPS 측위는 측위마다의 정확도를 분산으로 하는 위치 관측입니다.
+ * 위치-속도-bias 공분산이 쌓이므로 GPS 가 PDR 경로와 꾸준히 어긋나면 b 가 추정되어 이후 걸음 방향이 보정됩니다.
+ */
+
+import { EKF_CONFIG } from '@/lib/config/pdr-config'
+import type { FusionFilter, StepObservation } from './kalman-filter'
+
+/**
+ * EKF 설정 (기본값: EKF_CONFIG)
+ */
+export interface ExtendedKalmanFilterConfig {
+  /** 걸음 길이 표준편차 (m) */
+  stepLengthStd?: number
+  /** 걸음 방향 표준편차 (rad) */
+  stepHeadingStd?: number
+  /** 걸음마다의 위치 모델 오차 표준편차 (m) */
+  stepPositionStd?: number
+  /** 속도 변화 노이즈 (m/s/√s) */
+  velocityNoise?: number
+  /** 방향 bias 변화 노이즈 (rad/√s) */
+  headingBiasNoise?: number
+  /** 초기 방향 bias 표준편차 (rad) */
+  initialHeadingBiasStd?: number
+  /** 초기 속도 표준편차 (m/s) */
+  initialVelocityStd?: number
+  /** 정지 판단 시간 (ms) */
+  stationaryTimeout?: number
+  /** 걸음 간격을 모를 때 사용할 간격 (ms) */
+  defaultStepInterval?: number
+}
+
+type Matrix = number[][]
+
+const STATE_SIZE = 5
+const ZUPT_VELOCITY_STD = 0.1  // 정지 관측 속도 표준편차 (m/s)
+
+function zeros(rows: number, cols: number): Matrix {
+  return Array.from({ length: rows }, () => new Array<number>(cols).fill(0))
+}
+
+function identity(size: number): Matrix {
+  const matrix = zeros(size, size)
+  for (let i = 0; i < size; i++) matrix[i][i] = 1
+  return matrix
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  const result = zeros(a.length, b[0].length)
+  for (let i = 0; i < a.length; i++) {
+    for (let k = 0; k < b.length; k++) {
+      if (a[i][k] === 0) continue
+      for (let j = 0; j < b[0].length; j++) {
+        result[i][j] += a[i][k] * b[k][j]
+      }
+    }
+  }
+  return result
+}
+
+function transpose(a: Matrix): Matrix {
+  return a[0].map((_, j) => a.map((row) => row[j]))
+}
+
+function add(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((value, j) => value + b[i][j]))
+}
+
+function inverse2x2(a: Matrix): Matrix {
+  const det = a[0][0] * a[1][1] - a[0][1] * a[1][0]
+  return [
+    [a[1][1] / det, -a[0][1] / det],
+    [-a[1][0] / det, a[0][0] / det]
+  ]
+}
+
+/**
+ * 걸음 방향 기준 (진행, 측면) 분산을 x/y 공분산으로 회전
+ */
+function rotatedCovariance(heading: number, alongStd: number, crossStd: number): Matrix {
+  const c = Math.cos(heading)
+  const s = Math.sin(heading)
+  const along = alongStd * alongStd
+  const cross = crossStd * crossStd
+  return [
+    [c * c * along + s * s * cross, c * s * (along - cross)],
+    [c * s * (along - cross), s * s * along + c * c * cross]
+  ]
+}
+
+/**
+ * Extended Kalman Filter 클래스
+ */
+export class ExtendedKalmanFilter implements FusionFilter {
+  private config: Required<ExtendedKalmanFilterConfig>
+
+  // 상태 벡터 [x, y, vx, vy, b]
+  private state: number[] = new Array<number>(STATE_SIZE).fill(0)
+
+  // 공분산 행렬 (5x5)
+  private P: Matrix = zeros(STATE_SIZE, STATE_SIZE)
+
+  // 마지막 예측/보정 시각, 마지막 걸음 시각 (ms)
+  private lastTime: number | null = null
+  private lastStepTime: number | null = null
+
+  private initialized = false
+
+  constructor(config: ExtendedKalmanFilterConfig = {}) {
+    this.config = {
+      stepLengthStd: config.stepLengthStd ?? EKF_CONFIG.stepLengthStd,
+      stepHeadingStd: config.stepHeadingStd ?? EKF_CONFIG.stepHeadingStd,
+      stepPositionStd: config.stepPositionStd ?? EKF_CONFIG.stepPositionStd,
+      velocityNoise: config.velocityNoise ?? EKF_CONFIG.velocityNoise,
+      headingBiasNoise: config.headingBiasNoise ?? EKF_CONFIG.headingBiasNoise,
+      initialHeadingBiasStd: config.initialHeadingBiasStd ?? EKF_CONFIG.initialHeadingBiasStd,
+      initialVelocityStd: config.initialVelocityStd ?? EKF_CONFIG.initialVelocityStd,
+      stationaryTimeout: config.stationaryTimeout ?? EKF_CONFIG.stationaryTimeout,
+      defaultStepInterval: config.defaultStepInterval ?? EKF_CONFIG.defaultStepInterval
+    }
+  }
+
+  /**
+   * 초기 위치와 불확실성 설정 (속도 0, bias 0)
+   */
+  initialize(x: number, y: number, initialVariance: number = 10.0, timestamp?: number): void {
+    const velocityVariance = this.config.initialVelocityStd ** 2
+    const biasVariance = this.config.initialHeadingBiasStd ** 2
+
+    this.state = [x, y, 0, 0, 0]
+    this.P = zeros(STATE_SIZE, STATE_SIZE)
+    this.P[0][0] = initialVariance
+    this.P[1][1] = initialVariance
+    this.P[2][2] = velocityVariance
+    this.P[3][3] = velocityVariance
+    this.P[4][4] = biasVariance
+
+    this.lastTime = timestamp ?? null
+    this.lastStepTime = null
+    this.initialized = true
+  }
+
+  /**
+   * 예측 단계 (PDR 걸음)
+   *
+   * step 이 없으면 KalmanFilter2D 와 같이 (dx, dy) 만큼 이동하고 걸음 길이 분산만큼 불확실성을 늘립니다.
+   */
+  predict(dx: number, dy: number, step?: StepObservation): void {
+    if (!this.initialized) return
+
+    if (!step) {
+      const variance = this.config.stepLengthStd ** 2
+      this.state[0] += dx
+      this.state[1] += dy
+      this.P[0][0] += variance
+      this.P[1][1] += variance
+      return
+    }
+
+    this.propagate(step.timestamp)
+
+    const intervalMs = step.intervalMs > 0 ? step.intervalMs : this.config.defaultStepInterval
+    const dt = intervalMs / 1000
+
+    // 1. 속도 관측 (PDR 방향 기준): z = (L / dt)(cos θ, sin θ), h(X) = R(b)·v
+    const speed = step.distance / dt
+    this.correctVelocity(
+      [speed * Math.cos(step.heading), speed * Math.sin(step.heading)],
+      rotatedCovariance(
+        step.heading,
+        this.config.stepLengthStd / dt,
+        Math.max(step.distance, this.config.stepLengthStd) * this.config.stepHeadingStd / dt
+      )
+    )
+
+    // 2. 걸음 간격 동안 속도 적분: x += vx·dt, y += vy·dt
+    const F = identity(STATE_SIZE)
+    F[0][2] = dt
+    F[1][3] = dt
+    this.state[0] += this.state[2] * dt
+    this.state[1] += this.state[3] * dt
+    this.P = multiply(multiply(F, this.P), transpose(F))
+    // 걸음 길이 추정의 계통 오차는 속도 관측으로 드러나지 않으므로 위치 불확실성에 직접 더함
+    this.P[0][0] += this.config.stepPositionStd ** 2
+    this.P[1][1] += this.config.stepPositionStd ** 2
+
+    this.lastStepTime = step.timestamp
+  }
+
+  /**
+   * 업데이트 단계 (GPS)
+   * 측정 노이즈 R = accuracy² I (측위마다 다름)
+   */
+  update(measurementX: number, measurementY: number, accuracy: number, timestamp?: number): void {
+    if (!this.initialized) {
+      this.initialize(measurementX, measurementY, accuracy * accuracy, timestamp)
+      return
+    }
+
+    if (timestamp !== undefined) {
+      this.propagate(timestamp)
+      // 걸음이 멈춘 뒤의 측위면 위치 보정 전에 정지(속도 0) 관측 반영
+      if (this.lastStepTime !== null && timestamp - this.lastStepTime > this.config.stationaryTimeout) {
+        const variance = ZUPT_VELOCITY_STD ** 2
+        this.correctVelocity([0, 0], [[variance, 0], [0, variance]])
+      }
+    }
+
+    const H = zeros(2, STATE_SIZE)
+    H[0][0] = 1
+    H[1][1] = 1
+    const variance = accuracy * accuracy
+    this.correct(
+      [measurementX - this.state[0], measurementY - this.state[1]],
+      H,
+      [[variance, 0], [0, variance]]
+    )
+  }
+
+  /**
+   * 시간 경과에 따른 속도/bias 불확실성 증가 (위치는 걸음으로만 이동)
+   */
+  private propagate(timestamp: number): void {
+    if (this.lastTime !== null && timestamp > this.lastTime) {
+      const dt = (timestamp - this.lastTime) / 1000
+      this.P[2][2] += this.config.velocityNoise ** 2 * dt
+      this.P[3][3] += this.config.velocityNoise ** 2 * dt
+      this.P[4][4] += this.config.headingBiasNoise ** 2 * dt
+    }
+    if (this.lastTime === null || timestamp > this.lastTime) {
+      this.lastTime = timestamp
+    }
+  }
+
+  /**
+   * PDR 방향 기준 속도 관측 보정
+   *
+   * h(X) = [vx·cos b − vy·sin b, vx·sin b + vy·cos b]
+   */
+  private correctVelocity(measurement: [number, number], R: Matrix): void {
+    const [, , vx, vy, b] = this.state
+    const cos = Math.cos(b)
+    const sin = Math.sin(b)
+    const h1 = vx * cos - vy * sin
+    const h2 = vx * sin + vy * cos
+
+    const H = zeros(2, STATE_SIZE)
+    H[0][2] = cos
+    H[0][3] = -sin
+    H[0][4] = -h2
+    H[1][2] = sin
+    H[1][3] = cos
+    H[1][4] = h1
+
+    this.correct([measurement[0] - h1, measurement[1] - h2], H, R)
+  }
+
+  /**
+   * 2차원 관측 보정 (Joseph form 으로 공분산 대칭/양정치 유지)
+   *
+   * K = P·Hᵀ·(H·P·Hᵀ + R)⁻¹
+   * X = X + K·innovation
+   * P = (I − K·H)·P·(I − K·H)ᵀ + K·R·Kᵀ
+   */
+  private correct(innovation: [number, number], H: Matrix, R: Matrix): void {
+    const Ht = transpose(H)
+    const S = add(multiply(multiply(H, this.P), Ht), R)
+    const K = multiply(multiply(this.P, Ht), inverse2x2(S))
+
+    for (let i = 0; i < STATE_SIZE; i++) {
+      this.state[i] += K[i][0] * innovation[0] + K[i][1] * innovation[1]
+    }
+
+    const IKH = add(identity(STATE_SIZE), multiply(K, H).map((row) => row.map((value) => -value)))
+    this.P = add(
+      multiply(multiply(IKH, this.P), transpose(IKH)),
+      multiply(multiply(K, R), transpose(K))
+    )
+  }
+
+  /**
+   * 현재 추정 위치 반환
+   */
+  getPosition(): { x: number, y: number } {
+    return { x: this.state[0], y: this.state[1] }
+  }
+
+  /**
+   * 현재 추정 속도 반환 (m/s, 실제 방향 기준)
+   */
+  getVelocity(): { x: number, y: number } {
+    return { x: this.state[2], y: this.state[3] }
+  }
+
+  /**
+   * 현재 추정 자이로 방향 bias 반환 (라디안, PDR 방향 = 실제 방향 + bias)
+   */
+  getHeadingBias(): number {
+    return this.state[4]
+  }
+
+  /**
+   * 현재 불확실성(표준편차) 반환
+   */
+  getUncertainty(): { stdDevX: number, stdDevY: number } {
+    return {
+      stdDevX: Math.sqrt(Math.max(0, this.P[0][0])),
+      stdDevY: Math.sqrt(Math.max(0, this.P[1][1]))
+    }
+  }
+
+  /**
+   * 필터 재설정
+   */
+  reset(): void {
+    this.state = new Array<number>(STATE_SIZE).fill(0)
+    this.P = zeros(STATE_SIZE, STATE_SIZE)
+    this.lastTime = null
+    this.lastStepTime = null
+    this.initialized = false
+  }
+
+  /**
+   * 위치를 특정 값으로 강제 설정 (재보정 등)
+   * 속도와 bias 추정은 유지하고 위치와의 상관관계만 지움
+   */
+  setState(x: number, y: number, variance: number = 0): void {
+    if (!this.initialized) {
+      this.initialize(x, y, variance)
+      return
+    }
+
+    this.state[0] = x
+    this.state[1] = y
+    for (let i = 0; i < STATE_SIZE; i++) {
+      for (const j of [0, 1]) {
+        this.P[i][j] = 0
+        this.P[j][i] = 0
+      }
+    }
+    this.P[0][0] = variance
+    this.P[1][1] = variance
+  }
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { FloorTracker, pressureToAltitude } from './floor-tracker'
+
+const BASE_PRESSURE = 1000 // hPa
+
+/**
+ * 고도 altitude(m) 에 해당하는 기압 (BASE_PRESSURE 기준)
+ */
+function pressureAt(altitude: number): number {
+  const base = pressureToAltitude(BASE_PRESSURE)
+  return 1013.25 * Math.pow(1 - (base + altitude) / 44330, 5.255)
+}
+
+test('barometer tracks floors climbed from the baseline with hysteresis', () => {
+  let now = 0
+  const tracker = new FloorTracker({ now: () => now })
+  const feed = (altitude: number, seconds: number) => {
+    for (let i = 0; i < seconds; i++) {
+      now += 1000
+      tracker.updatePressure(pressureAt(altitude), now)
+    }
+  }
+
+  assert.ok(Math.abs(pressureToAltitude(1013.25)) < 1e-9)
+  feed(0, 10)
+  assert.strictEqual(tracker.getEstimate()?.floorChange, 0)
+  assert.strictEqual(tracker.getEstimate()?.source, 'barometer')
+
+  // 층 높이의 절반 남짓 (계단 중간) 은 층 변화가 아님
+  feed(2.2, 20)
+  assert.strictEqual(tracker.getEstimate()?.floorChange, 0)
+
+  feed(7, 20)
+  const estimate = tracker.getEstimate()
+  assert.strictEqual(estimate?.floorChange, 2)
+  assert.ok(Math.abs(estimate.relativeAltitude - 7) < 0.5, `altitude ${estimate.relativeAltitude}`)
+})
+
+test('slow weather drift is absorbed but an elevator ride is not', () => {
+  let now = 0
+  const tracker = new FloorTracker({ now: () => now })
+
+  // 한 시간 동안 기압 고도가 8m 올라감 (날씨 변화)
+  for (let i = 0; i <= 3600; i += 5) {
+    now = i * 1000
+    tracker.updatePressure(pressureAt(8 * i / 3600), now)
+  }
+  assert.strictEqual(tracker.getEstimate()?.floorChange, 0)
+
+  // 20초 동안 엘리베이터로 2개 층 내려감
+  for (let i = 1; i <= 40; i++) {
+    now += 1000
+    tracker.updatePressure(pressureAt(8 - Math.min(7, 7 * i / 20)), now)
+  }
+  assert.strictEqual(tracker.getEstimate()?.floorChange, -2)
+})
+
+test('falls back to accurate GPS altitude when the barometer goes quiet', () => {
+  let now = 0
+  const tracker = new FloorTracker({ now: () => now })
+  assert.strictEqual(tracker.getEstimate(), null)
+
+  tracker.updatePressure(pressureAt(0), now)
+  tracker.updateGPSAltitude(50, 5, now)
+
+  // 기압계가 멈추면 GPS 고도 사용, 고도 정확도가 나쁜 측위는 무시
+  for (let i = 1; i <= 20; i++) {
+    now = i * 1000
+    tracker.updateGPSAltitude(i % 2 === 0 ? 53.5 : 80, i % 2 === 0 ? 5 : 40, now)
+  }
+  const estimate = tracker.getEstimate()
+  assert.strictEqual(estimate?.source, 'gps')
+  assert.strictEqual(estimate.floorChange, 1)
+})
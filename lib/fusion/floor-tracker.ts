@@ -0,0 +1,197 @@
+/**
+ * 층 추적기 (Floor Tracker)
+ * 체크인 시점의 고도를 기준으로 학생이 몇 층 오르내렸는지 추정합니다.
+ *
+ * 같은 건물의 위아래 강의실은 위도/경도가 같아 GPS/PDR 로는 구분할 수 없으므로 고도를 따로 봅니다.
+ * - 기압계가 있으면 기압 고도 (층 구분에 충분한 ±1m 수준 상대 정확도)
+ * - 기압계가 없거나 측정이 끊기면 고도 정확도가 좋은 GPS 고도
+ *
+ * 기압은 날씨에 따라 천천히 변하므로, 현재 층 높이와의 차이를 maxDriftRate 이하의 속도로 기준 고도에 흡수합니다.
+ * 계단/엘리베이터 이동은 이보다 훨씬 빨라 층 변화로 남습니다.
+ */
+
+import { FLOOR_CONFIG } from '@/lib/config/pdr-config'
+
+/**
+ * 고도 출처
+ */
+export type FloorSource = 'barometer' | 'gps'
+
+/**
+ * 층 추정 결과
+ */
+export interface FloorEstimate {
+  /** 기준(체크인) 대비 층 변화 (위로 +) */
+  floorChange: number
+  /** 기준 대비 상대 고도 (m) */
+  relativeAltitude: number
+  /** 사용한 고도 출처 */
+  source: FloorSource
+  /** 마지막 측정 시각 */
+  timestamp: number
+}
+
+/**
+ * 층 추적 설정 (기본값: FLOOR_CONFIG)
+ */
+export interface FloorTrackerConfig {
+  floorHeight?: number
+  hysteresis?: number
+  pressureSmoothing?: number
+  maxGpsAltitudeAccuracy?: number
+  gpsAltitudeSmoothing?: number
+  barometerTimeout?: number
+  driftTimeConstant?: number
+  maxDriftRate?: number
+  /** 현재 시각 (ms, 기본 Date.now) */
+  now?: () => number
+}
+
+const STANDARD_SEA_LEVEL_PRESSURE = 1013.25 // hPa
+
+/**
+ * 기압(hPa)을 표준 대기 기준 고도(m)로 변환
+ */
+export function pressureToAltitude(pressure: number, seaLevelPressure: number = STANDARD_SEA_LEVEL_PRESSURE): number {
+  return 44330 * (1 - Math.pow(pressure / seaLevelPressure, 1 / 5.255))
+}
+
+/**
+ * 출처별 평활 고도와 기준 고도
+ */
+interface AltitudeTrack {
+  altitude: number
+  baseline: number
+  timestamp: number
+  receivedAt: number
+}
+
+/**
+ * 층 추적기 클래스
+ */
+export class FloorTracker {
+  private config: Required<FloorTrackerConfig>
+
+  private barometer: AltitudeTrack | null = null
+  private gps: AltitudeTrack | null = null
+  private floorChange = 0
+
+  constructor(config: FloorTrackerConfig = {}) {
+    this.config = {
+      floorHeight: config.floorHeight ?? FLOOR_CONFIG.floorHeight,
+      hysteresis: config.hysteresis ?? FLOOR_CONFIG.hysteresis,
+      pressureSmoothing: config.pressureSmoothing ?? FLOOR_CONFIG.pressureSmoothing,
+      maxGpsAltitudeAccuracy: config.maxGpsAltitudeAccuracy ?? FLOOR_CONFIG.maxGpsAltitudeAccuracy,
+      gpsAltitudeSmoothing: config.gpsAltitudeSmoothing ?? FLOOR_CONFIG.gpsAltitudeSmoothing,
+      barometerTimeout: config.barometerTimeout ?? FLOOR_CONFIG.barometerTimeout,
+      driftTimeConstant: config.driftTimeConstant ?? FLOOR_CONFIG.driftTimeConstant,
+      maxDriftRate: config.maxDriftRate ?? FLOOR_CONFIG.maxDriftRate,
+      now: config.now ?? Date.now
+    }
+  }
+
+  /**
+   * 기준 초기화 (다음 측정을 층 변화 0 의 기준으로 사용)
+   */
+  reset(): void {
+    this.barometer = null
+    this.gps = null
+    this.floorChange = 0
+  }
+
+  /**
+   * 기압 측정 입력 (hPa)
+   */
+  updatePressure(pressure: number, timestamp: number): void {
+    // 지표면 기압 범위를 벗어나면 센서 오류로 보고 무시
+    if (!Number.isFinite(pressure) || pressure < 300 || pressure > 1100) return
+
+    const altitude = pressureToAltitude(pressure)
+    const track = this.barometer
+    if (!track) {
+      // 기압계가 GPS 보다 늦게 들어오면 GPS 로 추정한 층 높이에서 시작
+      this.barometer = this.createTrack(altitude, timestamp)
+      return
+    }
+
+    const dt = Math.max(0, timestamp - track.timestamp)
+    track.altitude += this.config.pressureSmoothing * (altitude - track.altitude)
+    track.timestamp = timestamp
+    track.receivedAt = this.config.now()
+
+    // 날씨에 따른 기압 drift 흡수: 현재 층 높이로 천천히, 최대 maxDriftRate 로
+    if (dt > 0) {
+      const drift = track.altitude - track.baseline - this.floorChange * this.config.floorHeight
+      const maxStep = this.config.maxDriftRate * (dt / 1000)
+      const step = drift * (1 - Math.exp(-dt / this.config.driftTimeConstant))
+      track.baseline += Math.max(-maxStep, Math.min(maxStep, step))
+    }
+
+    this.updateFloorChange(track)
+  }
+
+  /**
+   * GPS 고도 입력 (m, 고도 정확도가 나쁘면 무시)
+   */
+  updateGPSAltitude(altitude: number, altitudeAccuracy: number, timestamp: number): void {
+    if (!Number.isFinite(altitude) || !Number.isFinite(altitudeAccuracy)) return
+    if (altitudeAccuracy > this.config.maxGpsAltitudeAccuracy) return
+
+    const track = this.gps
+    if (!track) {
+      this.gps = this.createTrack(altitude, timestamp)
+      return
+    }
+
+    track.altitude += this.config.gpsAltitudeSmoothing * (altitude - track.altitude)
+    track.timestamp = timestamp
+    track.receivedAt = this.config.now()
+
+    if (!this.isBarometerActive()) {
+      this.updateFloorChange(track)
+    }
+  }
+
+  /**
+   * 현재 층 추정 (고도 측정이 없으면 null)
+   */
+  getEstimate(): FloorEstimate | null {
+    const source: FloorSource | null = this.isBarometerActive() ? 'barometer' : this.gps ? 'gps' : null
+    const track = source === 'barometer' ? this.barometer : source === 'gps' ? this.gps : null
+    if (!source || !track) return null
+
+    return {
+      floorChange: this.floorChange,
+      relativeAltitude: Math.round((track.altitude - track.baseline) * 100) / 100,
+      source,
+      timestamp: track.timestamp
+    }
+  }
+
+  private isBarometerActive(): boolean {
+    return this.barometer !== null &&
+      this.config.now() - this.barometer.receivedAt <= this.config.barometerTimeout
+  }
+
+  /**
+   * 새 출처의 첫 측정: 이미 추정된 층 변화가 있으면 그 높이에서 시작
+   */
+  private createTrack(altitude: number, timestamp: number): AltitudeTrack {
+    return {
+      altitude,
+      baseline: altitude - this.floorChange * this.config.floorHeight,
+      timestamp,
+      receivedAt: this.config.now()
+    }
+  }
+
+  /**
+   * 히스테리시스를 두고 층 변화 갱신 (반올림 경계를 hysteresis 만큼 넘어야 변경)
+   */
+  private updateFloorChange(track: AltitudeTrack): void {
+    const floors = (track.altitude - track.baseline) / this.config.floorHeight
+    if (Math.abs(floors - this.floorChange) > 0.5 + this.config.hysteresis) {
+      this.floorChange = Math.round(floors)
+    }
+  }
+}
@@ -4,8 +4,13 @@
  */
 
 import { GPSKalmanFilter } from '@/lib/utils/gps-filter'
+import type { SensorData } from '@/lib/sensors/sensor-types'
 import { PDRTracker, type PDRPosition, type PDRDelta, cartesianToGPS, gpsToCartesian } from '@/lib/pdr/pdr-tracker'
-import { KalmanFilter2D } from './kalman-filter'
+import type { StepDetectorConfig } from '@/lib/pdr/step-detector'
+import type { StepLengthConfig } from '@/lib/pdr/step-length-estimator'
+import { KalmanFilter2D, type FusionFilter } from './kalman-filter'
+import { ExtendedKalmanFilter, type ExtendedKalmanFilterConfig } from './extended-kalman-filter'
+import { FloorTracker, type FloorEstimate, type FloorTrackerConfig } from './floor-tracker'
 
 /**
  * 2D 위치 (위도, 경도)
@@ -14,6 +19,8 @@ export interface Position2D {
   lat: number
   lng: number
   accuracy?: number  // 정확도 (미터)
+  altitude?: number | null  // GPS 고도 (미터, 층 추적용)
+  altitudeAccuracy?: number | null  // 고도 정확도 (미터)
   timestamp: number
 }
 
@@ -39,8 +46,23 @@ export interface FusedPosition extends Position2D {
   gpsAnomalyCount?: number
   /** 마지막 GPS 이상치 시 감지된 거리 (Kalman 예측과의 차이, 미터) */
   lastGpsAnomalyDistance?: number
+  /** 추정 속도 (m/s, filter: 'ekf' 일 때만) */
+  velocity?: { x: number, y: number }
+  /** 추정 자이로 방향 bias (라디안, filter: 'ekf' 일 때만) */
+  headingBias?: number
+  /** 추적 시작 대비 층 변화 (기압/GPS 고도가 있을 때만) */
+  floorChange?: number
+  /** 추적 시작 대비 상대 고도 (m) */
+  relativeAltitude?: number
 }
 
+/**
+ * 융합 필터 종류
+ * - 'kalman': 위치만 추정하는 KalmanFilter2D (기본값)
+ * - 'ekf': 위치/속도/자이로 방향 bias 를 함께 추정하는 ExtendedKalmanFilter
+ */
+export type FusionFilterType = 'kalman' | 'ekf'
+
 /**
  * GPS-PDR 융합 설정
  */
@@ -49,11 +71,21 @@ export interface GPSPDRFusionConfig {
   pdrConfig?: {
     sensorFrequency?: number
     userHeight?: number
+    /** 걸음 감지 설정 (사용자별 보정 값) */
+    stepDetector?: StepDetectorConfig
+    /** 걸음 길이 설정 (사용자별 보정 값) */
+    stepLength?: StepLengthConfig
   }
-  /** Kalman Filter 설정 */
+  /** 융합 필터 종류 (기본 'kalman') */
+  filter?: FusionFilterType
+  /** Kalman Filter 설정 (filter: 'kalman') */
   kalmanConfig?: {
     processNoise?: number // PDR 노이즈 분산
   }
+  /** EKF 설정 (filter: 'ekf', 기본값 EKF_CONFIG) */
+  ekfConfig?: ExtendedKalmanFilterConfig
+  /** 층 추적 설정 (기본값 FLOOR_CONFIG) */
+  floorConfig?: FloorTrackerConfig
   /** GPS 재보정 전략 */
   recalibration?: {
     /** 주기적 재보정 간격 (ms, 기본 60초) - Kalman Filter에서는 덜 자주 필요 */
@@ -63,6 +95,10 @@ export interface GPSPDRFusionConfig {
     /** 최소 GPS 정확도 (m, 이보다 나쁘면 GPS 무시) */
     minGpsAccuracy?: number
   }
+  /** 센서 입력 방식 ('external' 이면 pushSensorData 로 센서 기록 재생) */
+  sensorInput?: 'device' | 'external'
+  /** 현재 시각 (ms, 기본 Date.now) */
+  now?: () => number
 }
 
 /**
@@ -79,6 +115,8 @@ export interface FusionStatistics {
   recalibrationCount: number
   /** 평균 GPS 정확도 (m) */
   averageGpsAccuracy: number
+  /** 사용 중인 융합 필터 */
+  filter: FusionFilterType
   /** 현재 융합 위치 */
   currentPosition: FusedPosition | null
   /** 추적 시작 시간 */
@@ -91,18 +129,20 @@ export interface FusionStatistics {
  * 내부 config 타입
  */
 interface InternalFusionConfig {
-  pdrConfig: {
-    sensorFrequency?: number
-    userHeight?: number
-  }
+  pdrConfig: NonNullable<GPSPDRFusionConfig['pdrConfig']>
+  filter: FusionFilterType
   kalmanConfig: {
     processNoise: number
   }
+  ekfConfig: ExtendedKalmanFilterConfig
+  floorConfig: FloorTrackerConfig
   recalibration: {
     periodicInterval: number
     errorThreshold: number
     minGpsAccuracy: number
   }
+  sensorInput: 'device' | 'external'
+  now: () => number
 }
 
 /**
@@ -114,7 +154,8 @@ export class GPSPDRFusionManager {
   // 구성 요소
   private gpsKalmanFilter: GPSKalmanFilter // 1차적으로 GPS 노이즈 제거
   private pdrTracker: PDRTracker
-  private kalmanFilter: KalmanFilter2D
+  private kalmanFilter: FusionFilter
+  private floorTracker: FloorTracker // 기압/GPS 고도로 층 변화 추적
 
   // GPS 원점 (PDR Cartesian 좌표계의 기준점)
   private gpsOrigin: { lat: number, lng: number } | null = null
@@ -152,20 +193,32 @@ export class GPSPDRFusionManager {
   constructor(config: GPSPDRFusionConfig = {}) {
     this.config = {
       pdrConfig: config.pdrConfig ?? {},
+      filter: config.filter ?? 'kalman',
       kalmanConfig: {
         processNoise: config.kalmanConfig?.processNoise ?? 1.0 // 기본값
       },
+      ekfConfig: config.ekfConfig ?? {},
+      floorConfig: config.floorConfig ?? {},
       recalibration: {
         periodicInterval: config.recalibration?.periodicInterval ?? 60000, // 60초
         errorThreshold: config.recalibration?.errorThreshold ?? 20, // 20m (강의실 간 거리가 가깝기 때문에 낮춤)
         minGpsAccuracy: config.recalibration?.minGpsAccuracy ?? 40 // 40m
-      }
+      },
+      sensorInput: config.sensorInput ?? 'device',
+      now: config.now ?? Date.now
     }
 
     // 구성 요소 초기화
     this.gpsKalmanFilter = new GPSKalmanFilter()
-    this.pdrTracker = new PDRTracker(this.config.pdrConfig)
-    this.kalmanFilter = new KalmanFilter2D(this.config.kalmanConfig.processNoise)
+    this.pdrTracker = new PDRTracker({
+      ...this.config.pdrConfig,
+      sensorInput: this.config.sensorInput,
+      now: this.config.now
+    })
+    this.kalmanFilter = this.config.filter === 'ekf'
+      ? new ExtendedKalmanFilter(this.config.ekfConfig)
+      : new KalmanFilter2D(this.config.kalmanConfig.processNoise)
+    this.floorTracker = new FloorTracker({ now: this.config.now, ...this.config.floorConfig })
 
     // PDR 업데이트 콜백 등록
     this.pdrTracker.onPositionUpdate((position, delta) => {
@@ -175,6 +228,12 @@ export class GPSPDRFusionManager {
     this.pdrTracker.onError((error) => {
       this.handleError(error)
     })
+
+    // 기압 측정은 층 추적기로
+    this.pdrTracker.onPressure((pressure) => {
+      if (!this.isTracking) return
+      this.floorTracker.updatePressure(pressure.pressure, pressure.timestamp)
+    })
   }
 
   /**
@@ -193,13 +252,15 @@ export class GPSPDRFusionManager {
         lng: initialGpsPosition.lng
       }
 
-      // 2. 필터 초기화
+      // 2. 필터 초기화 (층 변화는 추적 시작 위치 기준)
       this.gpsKalmanFilter.reset()
       this.kalmanFilter.reset()
+      this.floorTracker.reset()
+      this.updateGPSAltitude(initialGpsPosition)
       
       // Kalman 필터 초기 상태 설정 (원점 0,0, 불확실성은 GPS 정확도)
       const accuracy = initialGpsPosition.accuracy ?? 20
-      this.kalmanFilter.initialize(0, 0, accuracy * accuracy)
+      this.kalmanFilter.initialize(0, 0, accuracy * accuracy, this.config.now())
 
       // 3. PDR 초기화 (실패 시 GPS 전용 모드로 폴백)
       let pdrInitialized = false
@@ -223,7 +284,7 @@ export class GPSPDRFusionManager {
 
       // 5. 초기 위치 설정
       this.lastGpsPosition = initialGpsPosition
-      this.lastRecalibrationTime = Date.now()
+      this.lastRecalibrationTime = this.config.now()
 
       // 초기 위치 전송
       const initialFused: FusedPosition = {
@@ -238,7 +299,7 @@ export class GPSPDRFusionManager {
       this.onPositionUpdateCallback?.(initialFused)
 
       this.isTracking = true
-      this.startTime = Date.now()
+      this.startTime = this.config.now()
 
       console.log('✅ GPS-PDR 융합 추적 시작 (Kalman Filter)')
       console.log(`   GPS 원점: (${initialGpsPosition.lat.toFixed(6)}, ${initialGpsPosition.lng.toFixed(6)})`)
@@ -251,6 +312,13 @@ export class GPSPDRFusionManager {
     }
   }
 
+  /**
+   * 외부 센서 데이터 입력 (sensorInput: 'external')
+   */
+  pushSensorData(data: SensorData): void {
+    this.pdrTracker.pushSensorData(data)
+  }
+
   /**
    * GPS 유효성 검증 (이상치 감지)
    * @returns GPS가 유효하면 true, 이상치면 false
@@ -335,6 +403,9 @@ export class GPSPDRFusionManager {
     this.stats.gpsUpdateCount++
     this.stats.gpsAccuracySum += gpsPosition.accuracy ?? 20
 
+    // 고도는 수평 위치 필터와 별개로 층 추적기에 전달
+    this.updateGPSAltitude(rawGpsPosition)
+
     // 2. GPS 좌표를 Cartesian으로 변환
     const gpsCartesian = gpsToCartesian(
       { lat: gpsPosition.lat, lng: gpsPosition.lng },
@@ -388,7 +459,7 @@ export class GPSPDRFusionManager {
     // 4. Kalman Filter Update (보정)
     // GPS 정확도가 너무 나쁘면 보정 스킵
     if ((gpsPosition.accuracy ?? 100) <= this.config.recalibration.minGpsAccuracy) {
-      this.kalmanFilter.update(gpsCartesian.x, gpsCartesian.y, gpsPosition.accuracy ?? 20)
+      this.kalmanFilter.update(gpsCartesian.x, gpsCartesian.y, gpsPosition.accuracy ?? 20, this.config.now())
       this.stats.fusionCount++
     } else {
       console.log(`GPS 정확도 낮음(${gpsPosition.accuracy}m), 보정 스킵`)
@@ -401,6 +472,15 @@ export class GPSPDRFusionManager {
     this.emitFusedPosition('fused', gpsPosition.timestamp)
   }
 
+  /**
+   * GPS 고도를 층 추적기에 전달 (고도가 있는 측위만)
+   */
+  private updateGPSAltitude(position: Position2D): void {
+    if (typeof position.altitude === 'number' && typeof position.altitudeAccuracy === 'number') {
+      this.floorTracker.updateGPSAltitude(position.altitude, position.altitudeAccuracy, position.timestamp)
+    }
+  }
+
   /**
    * PDR 업데이트 처리 (Prediction Step)
    */
@@ -410,8 +490,14 @@ export class GPSPDRFusionManager {
     this.stats.pdrUpdateCount++
 
     // 1. Kalman Filter Predict (예측)
-    // PDR의 dx, dy를 사용하여 상태 업데이트
-    this.kalmanFilter.predict(delta.dx, delta.dy)
+    // PDR의 dx, dy를 사용하여 상태 업데이트 (EKF 는 걸음 길이/방향/간격 사용)
+    // 걸음 timestamp 는 센서 시계라 GPS 와 맞추기 위해 융합 시계(now)를 사용
+    this.kalmanFilter.predict(delta.dx, delta.dy, {
+      distance: delta.distance,
+      heading: delta.heading,
+      intervalMs: delta.step.intervalMs,
+      timestamp: this.config.now()
+    })
 
     // 2. 융합된 위치 내보내기
     this.emitFusedPosition('pdr', pdrPosition.timestamp)
@@ -458,6 +544,17 @@ export class GPSPDRFusionManager {
       lastGpsAnomalyDistance
     }
 
+    if (this.kalmanFilter instanceof ExtendedKalmanFilter) {
+      fusedPosition.velocity = this.kalmanFilter.getVelocity()
+      fusedPosition.headingBias = this.kalmanFilter.getHeadingBias()
+    }
+
+    const floor = this.floorTracker.getEstimate()
+    if (floor) {
+      fusedPosition.floorChange = floor.floorChange
+      fusedPosition.relativeAltitude = floor.relativeAltitude
+    }
+
     this.stats.currentPosition = fusedPosition
     this.onPositionUpdateCallback?.(fusedPosition)
   }
@@ -531,7 +628,7 @@ export class GPSPDRFusionManager {
    */
   getStatistics(): FusionStatistics {
     const elapsedTime = this.isTracking
-      ? (Date.now() - this.startTime) / 1000
+      ? (this.config.now() - this.startTime) / 1000
       : 0
 
     const averageGpsAccuracy = this.stats.gpsUpdateCount > 0
@@ -541,6 +638,7 @@ export class GPSPDRFusionManager {
     return {
       ...this.stats,
       averageGpsAccuracy,
+      filter: this.config.filter,
       startTime: this.startTime,
       elapsedTime
     }
@@ -591,6 +689,13 @@ export class GPSPDRFusionManager {
     return this.stats.currentPosition ? { ...this.stats.currentPosition } : null
   }
 
+  /**
+   * 추적 시작 대비 층 추정 (고도 측정이 없으면 null)
+   */
+  getFloorEstimate(): FloorEstimate | null {
+    return this.floorTracker.getEstimate()
+  }
+
   /**
    * 전체 초기화
    */
@@ -599,6 +704,7 @@ export class GPSPDRFusionManager {
 
     this.gpsKalmanFilter.reset()
     this.kalmanFilter.reset()
+    this.floorTracker.reset()
     this.pdrTracker.reset()
 
     this.gpsOrigin = null
@@ -1,3 +1,32 @@
+/**
+ * 걸음 관측 (PDR 한 걸음)
+ */
+export interface StepObservation {
+  /** 걸음 길이 (m) */
+  distance: number
+  /** PDR 방향 (라디안, 자이로 bias 포함) */
+  heading: number
+  /** 이전 걸음과의 간격 (ms, 첫 걸음은 0) */
+  intervalMs: number
+  /** 걸음 시각 (ms, GPS 업데이트와 같은 시계) */
+  timestamp: number
+}
+
+/**
+ * GPSPDRFusionManager 가 사용하는 위치 필터 (KalmanFilter2D, ExtendedKalmanFilter)
+ */
+export interface FusionFilter {
+  initialize(x: number, y: number, initialVariance?: number, timestamp?: number): void
+  /** PDR 예측 (step 정보를 쓰지 않는 필터는 dx, dy 만 사용) */
+  predict(dx: number, dy: number, step?: StepObservation): void
+  /** GPS 보정 (accuracy: 수평 정확도 m, 측위마다의 분산 accuracy²) */
+  update(measurementX: number, measurementY: number, accuracy: number, timestamp?: number): void
+  getPosition(): { x: number, y: number }
+  getUncertainty(): { stdDevX: number, stdDevY: number }
+  reset(): void
+  setState(x: number, y: number, variance?: number): void
+}
+
 /**
  * 2D Kalman Filter
  * GPS와 PDR 데이터를 융합하여 최적의 위치(x, y)를 추정합니다.
@@ -5,7 +34,7 @@
  * 상태 벡터 X: [x, y]
  * 공분산 행렬 P: [[varX, covXY], [covXY, varY]]
  */
-export class KalmanFilter2D {
+export class KalmanFilter2D implements FusionFilter {
   // 상태 벡터 (현재 추정 위치)
   private x: number = 0
   private y: number = 0
@@ -0,0 +1,75 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  matchProximityFingerprint,
+  parseProximityFingerprint,
+  parseProximityObservations,
+  type ProximityFingerprint
+} from './proximity-fingerprint'
+import type { ProximityObservation } from './proximity-source'
+
+const ROOM_301: ProximityFingerprint = {
+  beacons: [
+    { kind: 'ble', id: 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:301', rssi: -61 },
+    { kind: 'ble', id: 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:302', rssi: -70 },
+    { kind: 'wifi', id: '00:1a:2b:3c:4d:5e', rssi: -52 }
+  ]
+}
+
+function scan(entries: Array<[ProximityObservation['kind'], string, number]>): ProximityObservation[] {
+  return entries.map(([kind, id, rssi]) => ({ kind, id, rssi, timestamp: 1 }))
+}
+
+test('matchProximityFingerprint accepts a scan taken inside the classroom', () => {
+  const match = matchProximityFingerprint(scan([
+    ['ble', 'FDA50693-A4E2-4FB1-AFCF-C6EB07647825:10:301', -64],
+    ['wifi', '00:1A:2B:3C:4D:5E', -55],
+    ['wifi', 'aa:bb:cc:dd:ee:ff', -40]
+  ]), ROOM_301)
+
+  assert.strictEqual(match.matched, true)
+  assert.strictEqual(match.reason, 'matched')
+  assert.strictEqual(match.matchedCount, 2)
+  assert.strictEqual(match.expectedCount, 3)
+  assert.strictEqual(match.rssiDeviation, 3)
+  assert.ok(match.score > 0.5, `score ${match.score}`)
+})
+
+test('matchProximityFingerprint rejects the corridor, unrelated rooms and empty scans', () => {
+  // 복도: 같은 비콘이 보이지만 훨씬 약함
+  const corridor = matchProximityFingerprint(scan([
+    ['ble', 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:301', -82],
+    ['ble', 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:302', -88],
+    ['wifi', '00:1a:2b:3c:4d:5e', -75]
+  ]), ROOM_301)
+  assert.strictEqual(corridor.reason, 'rssi_mismatch')
+
+  // 한 개만 보이거나 -90 dBm 보다 약한 관측은 세지 않음
+  const oneBeacon = matchProximityFingerprint(scan([
+    ['ble', 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:301', -61],
+    ['wifi', '00:1a:2b:3c:4d:5e', -95]
+  ]), ROOM_301)
+  assert.strictEqual(oneBeacon.reason, 'too_few_beacons')
+
+  assert.strictEqual(matchProximityFingerprint([], ROOM_301).reason, 'no_observations')
+  assert.strictEqual(matchProximityFingerprint(scan([['wifi', 'aa:bb:cc:dd:ee:ff', -40]]), ROOM_301).reason, 'too_few_beacons')
+
+  // 비콘이 하나뿐인 강의실은 그 비콘만 맞으면 됨
+  const single = matchProximityFingerprint(scan([['wifi', '00:1a:2b:3c:4d:5e', -50]]), { beacons: [ROOM_301.beacons[2]] })
+  assert.strictEqual(single.matched, true)
+})
+
+test('stored fingerprints and request observations are parsed defensively', () => {
+  assert.deepStrictEqual(parseProximityFingerprint(ROOM_301), ROOM_301)
+  assert.strictEqual(parseProximityFingerprint(null), null)
+  assert.strictEqual(parseProximityFingerprint({ beacons: [] }), null)
+  assert.strictEqual(parseProximityFingerprint({ beacons: [{ kind: 'nfc', id: 'x', rssi: -50 }] }), null)
+
+  assert.deepStrictEqual(
+    parseProximityObservations([{ kind: 'ble', id: 'beacon-a', rssi: -60 }], 42),
+    [{ kind: 'ble', id: 'beacon-a', rssi: -60, timestamp: 42 }]
+  )
+  assert.deepStrictEqual(parseProximityObservations(undefined), [])
+  assert.deepStrictEqual(parseProximityObservations([{ kind: 'ble', id: 'beacon-a', rssi: 20 }]), [])
+  assert.deepStrictEqual(parseProximityObservations('beacon-a'), [])
+})
@@ -0,0 +1,132 @@
+/**
+ * 강의실 근접 지문 매칭
+ * 체크인/heartbeat 에 들어온 비콘/AP 관측이 강의실 지문(predefined_locations.proximity_fingerprint)과 맞는지 판정합니다.
+ *
+ * 지문의 비콘 중 충분히 많은 수가 보이고 (minMatchedBeacons, minCoverage),
+ * 보인 비콘의 RSSI 가 강의실 안에서 측정한 값과 가까우면 (maxRssiDeviation) 강의실 안으로 봅니다.
+ * 옆 강의실이나 복도에서는 같은 비콘이 보이더라도 신호가 약해 RSSI 편차로 걸러집니다.
+ */
+
+import { PROXIMITY_CONFIG } from '@/lib/config/pdr-config'
+import { ProximityFingerprintSchema, ProximityObservationsSchema } from '@/lib/schemas/proximity'
+import { proximityKey, type ProximityKind, type ProximityObservation } from './proximity-source'
+
+/**
+ * 강의실 근접 지문
+ */
+export interface ProximityFingerprint {
+  beacons: { kind: ProximityKind, id: string, rssi: number }[]
+}
+
+export type ProximityMatchReason = 'matched' | 'no_observations' | 'too_few_beacons' | 'rssi_mismatch'
+
+/**
+ * 지문 매칭 결과
+ */
+export interface ProximityMatch {
+  matched: boolean
+  reason: ProximityMatchReason
+  /** 지문과 일치한 비콘 수 */
+  matchedCount: number
+  /** 지문의 비콘 수 */
+  expectedCount: number
+  /** 일치 비율 (0~1) */
+  coverage: number
+  /** 일치 비콘의 RSSI 편차 RMS (dB, 일치 비콘이 없으면 null) */
+  rssiDeviation: number | null
+  /** 매칭 점수 (0~1, 일치 비율 × RSSI 근접도) */
+  score: number
+}
+
+export interface ProximityMatchConfig {
+  minRssi?: number
+  minMatchedBeacons?: number
+  minCoverage?: number
+  maxRssiDeviation?: number
+}
+
+/**
+ * 저장된 지문 파싱 (형식이 맞지 않으면 null)
+ */
+export function parseProximityFingerprint(value: unknown): ProximityFingerprint | null {
+  const result = ProximityFingerprintSchema.safeParse(value)
+  return result.success ? result.data : null
+}
+
+/**
+ * 요청의 관측 목록 파싱 (없거나 형식이 맞지 않으면 빈 목록)
+ */
+export function parseProximityObservations(value: unknown, now: number = Date.now()): ProximityObservation[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  const result = ProximityObservationsSchema.safeParse(value)
+  if (!result.success) {
+    return []
+  }
+  return result.data.map((observation) => ({ ...observation, timestamp: observation.timestamp ?? now }))
+}
+
+/**
+ * 관측을 강의실 지문과 비교
+ */
+export function matchProximityFingerprint(
+  observations: ProximityObservation[],
+  fingerprint: ProximityFingerprint,
+  config: ProximityMatchConfig = {}
+): ProximityMatch {
+  const minRssi = config.minRssi ?? PROXIMITY_CONFIG.minRssi
+  const minMatchedBeacons = config.minMatchedBeacons ?? PROXIMITY_CONFIG.minMatchedBeacons
+  const minCoverage = config.minCoverage ?? PROXIMITY_CONFIG.minCoverage
+  const maxRssiDeviation = config.maxRssiDeviation ?? PROXIMITY_CONFIG.maxRssiDeviation
+
+  // 같은 비콘의 관측은 평균 RSSI 로 합침
+  const observed = new Map<string, { sum: number, count: number }>()
+  for (const observation of observations) {
+    if (observation.rssi < minRssi) continue
+    const key = proximityKey(observation)
+    const entry = observed.get(key) ?? { sum: 0, count: 0 }
+    entry.sum += observation.rssi
+    entry.count++
+    observed.set(key, entry)
+  }
+
+  const expectedCount = fingerprint.beacons.length
+  const differences: number[] = []
+  for (const beacon of fingerprint.beacons) {
+    const entry = observed.get(proximityKey(beacon))
+    if (entry) {
+      differences.push(entry.sum / entry.count - beacon.rssi)
+    }
+  }
+
+  const matchedCount = differences.length
+  const coverage = expectedCount > 0 ? matchedCount / expectedCount : 0
+  const rssiDeviation = matchedCount > 0
+    ? Math.sqrt(differences.reduce((sum, difference) => sum + difference * difference, 0) / matchedCount)
+    : null
+  const score = rssiDeviation === null
+    ? 0
+    : coverage * Math.max(0, 1 - rssiDeviation / (2 * maxRssiDeviation))
+
+  const result = (matched: boolean, reason: ProximityMatchReason): ProximityMatch => ({
+    matched,
+    reason,
+    matchedCount,
+    expectedCount,
+    coverage: Math.round(coverage * 1000) / 1000,
+    rssiDeviation: rssiDeviation === null ? null : Math.round(rssiDeviation * 10) / 10,
+    score: Math.round(score * 1000) / 1000
+  })
+
+  if (observed.size === 0) {
+    return result(false, 'no_observations')
+  }
+  if (matchedCount < Math.min(minMatchedBeacons, expectedCount) || coverage < minCoverage) {
+    return result(false, 'too_few_beacons')
+  }
+  if (rssiDeviation !== null && rssiDeviation > maxRssiDeviation) {
+    return result(false, 'rssi_mismatch')
+  }
+  return result(true, 'matched')
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { ExternalProximitySource, ProximityScanner, parseIBeaconId } from './proximity-source'
+
+test('ProximityScanner averages simulated observations per beacon and drops stale ones', async () => {
+  let now = 100_000
+  const ble = new ExternalProximitySource('ble', () => now)
+  const wifi = new ExternalProximitySource('wifi', () => now)
+  const scanner = new ProximityScanner([ble, wifi], { observationWindow: 10_000, now: () => now })
+
+  ble.push('beacon-a', -70)
+  assert.deepStrictEqual(scanner.getObservations(), [], 'ignored before start')
+
+  assert.strictEqual(await scanner.start(), true)
+  ble.push('beacon-a', -80, now - 12_000)
+  ble.push('BEACON-A', -60)
+  ble.push('beacon-a', -64)
+  wifi.push('00:1a:2b:3c:4d:5e', -50)
+
+  const observations = scanner.getObservations()
+  assert.deepStrictEqual(
+    observations.map(({ kind, rssi }) => [kind, rssi]),
+    [['wifi', -50], ['ble', -62]]
+  )
+
+  now += 11_000
+  assert.deepStrictEqual(scanner.getObservations(), [])
+
+  scanner.stop()
+  ble.push('beacon-a', -60)
+  assert.deepStrictEqual(scanner.getObservations(), [])
+})
+
+test('parseIBeaconId reads UUID, major and minor from Apple manufacturer data', () => {
+  const bytes = new Uint8Array(23)
+  bytes.set([0x02, 0x15])
+  bytes.set([0xfd, 0xa5, 0x06, 0x93, 0xa4, 0xe2, 0x4f, 0xb1, 0xaf, 0xcf, 0xc6, 0xeb, 0x07, 0x64, 0x78, 0x25], 2)
+  bytes.set([0x00, 0x0a, 0x01, 0xf5, 0xc5], 18)
+
+  assert.strictEqual(parseIBeaconId(new DataView(bytes.buffer)), 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:501')
+  assert.strictEqual(parseIBeaconId(new DataView(new Uint8Array([0x4c, 0x00]).buffer)), null)
+})
@@ -0,0 +1,259 @@
+/**
+ * 근접 위치 소스 (Proximity Source)
+ * BLE 비콘이나 Wi-Fi AP 관측을 GPS 가 닿지 않는 실내 강의실의 위치 근거로 모읍니다.
+ *
+ * 소스마다 관측을 받는 방법이 다르므로 ProximitySource 인터페이스로 감싸고,
+ * ProximityScanner 가 여러 소스의 최근 관측을 ID 별로 평균해 체크인/heartbeat 요청에 넣을 목록을 만듭니다.
+ * - ExternalProximitySource: 네이티브 앱 브리지나 시뮬레이션에서 관측을 직접 넣음 (브라우저는 Wi-Fi 스캔 불가)
+ * - WebBluetoothProximitySource: Web Bluetooth 광고 스캔으로 iBeacon 관측 (지원 브라우저만)
+ */
+
+import { PROXIMITY_CONFIG } from '@/lib/config/pdr-config'
+
+/**
+ * 관측 종류 (ble: 비콘, wifi: AP)
+ */
+export type ProximityKind = 'ble' | 'wifi'
+
+/**
+ * 비콘/AP 관측
+ */
+export interface ProximityObservation {
+  kind: ProximityKind
+  /** iBeacon 은 UUID:major:minor, Wi-Fi 는 BSSID */
+  id: string
+  /** 수신 신호 세기 (dBm) */
+  rssi: number
+  /** 관측 시각 (epoch ms) */
+  timestamp: number
+}
+
+/**
+ * 근접 위치 소스 인터페이스
+ */
+export interface ProximitySource {
+  readonly kind: ProximityKind
+  /** 이 환경에서 사용할 수 있는지 */
+  isSupported(): boolean
+  /** 관측 시작 (실패하거나 지원하지 않으면 false) */
+  start(): Promise<boolean>
+  stop(): void
+  onObservation(callback: (observation: ProximityObservation) => void): void
+}
+
+/**
+ * 관측 키 (종류 + 소문자 ID)
+ */
+export function proximityKey(observation: Pick<ProximityObservation, 'kind' | 'id'>): string {
+  return `${observation.kind}:${observation.id.trim().toLowerCase()}`
+}
+
+/**
+ * 외부에서 관측을 넣는 소스
+ *
+ * 네이티브 앱 브리지가 스캔 결과를 push 하거나, 테스트/개발 중에 시뮬레이션 관측을 넣을 때 사용합니다.
+ */
+export class ExternalProximitySource implements ProximitySource {
+  private callback: ((observation: ProximityObservation) => void) | null = null
+  private active = false
+
+  constructor(
+    readonly kind: ProximityKind,
+    private now: () => number = Date.now
+  ) {}
+
+  isSupported(): boolean {
+    return true
+  }
+
+  async start(): Promise<boolean> {
+    this.active = true
+    return true
+  }
+
+  stop(): void {
+    this.active = false
+  }
+
+  onObservation(callback: (observation: ProximityObservation) => void): void {
+    this.callback = callback
+  }
+
+  /**
+   * 관측 추가 (시작 전이나 중지 후에는 무시)
+   */
+  push(id: string, rssi: number, timestamp: number = this.now()): void {
+    if (!this.active) return
+    this.callback?.({ kind: this.kind, id, rssi, timestamp })
+  }
+}
+
+// Web Bluetooth 광고 스캔 API (실험적 기능이라 DOM 타입에 없음)
+interface BluetoothAdvertisingEvent extends Event {
+  rssi?: number
+  manufacturerData?: Map<number, DataView>
+}
+
+interface BluetoothLEScan {
+  active: boolean
+  stop(): void
+}
+
+interface BluetoothWithScan extends EventTarget {
+  requestLEScan(options: { acceptAllAdvertisements?: boolean, keepRepeatedDevices?: boolean }): Promise<BluetoothLEScan>
+}
+
+const APPLE_COMPANY_ID = 0x004c
+
+function getBluetooth(): Partial<BluetoothWithScan> | undefined {
+  return typeof navigator === 'undefined'
+    ? undefined
+    : (navigator as unknown as { bluetooth?: Partial<BluetoothWithScan> }).bluetooth
+}
+
+/**
+ * iBeacon 광고의 제조사 데이터를 UUID:major:minor 로 변환 (iBeacon 이 아니면 null)
+ */
+export function parseIBeaconId(data: DataView): string | null {
+  // 0x02 0x15 | UUID 16바이트 | major 2바이트 | minor 2바이트 | 측정 전력 1바이트
+  if (data.byteLength < 23 || data.getUint8(0) !== 0x02 || data.getUint8(1) !== 0x15) {
+    return null
+  }
+
+  const hex = Array.from({ length: 16 }, (_, i) => data.getUint8(2 + i).toString(16).padStart(2, '0')).join('')
+  const uuid = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+  return `${uuid}:${data.getUint16(18)}:${data.getUint16(20)}`
+}
+
+/**
+ * Web Bluetooth 광고 스캔 소스 (iBeacon)
+ */
+export class WebBluetoothProximitySource implements ProximitySource {
+  readonly kind = 'ble' as const
+
+  private callback: ((observation: ProximityObservation) => void) | null = null
+  private scan: BluetoothLEScan | null = null
+
+  private handleAdvertisement = (event: Event) => {
+    const { rssi, manufacturerData } = event as BluetoothAdvertisingEvent
+    const data = manufacturerData?.get(APPLE_COMPANY_ID)
+    const id = data ? parseIBeaconId(data) : null
+    if (id && typeof rssi === 'number') {
+      this.callback?.({ kind: 'ble', id, rssi, timestamp: Date.now() })
+    }
+  }
+
+  isSupported(): boolean {
+    return typeof getBluetooth()?.requestLEScan === 'function'
+  }
+
+  async start(): Promise<boolean> {
+    if (this.scan) return true
+    if (!this.isSupported()) return false
+
+    const bluetooth = getBluetooth() as BluetoothWithScan
+    try {
+      // 사용자 제스처 안에서 호출해야 권한 요청이 뜸
+      this.scan = await bluetooth.requestLEScan({ acceptAllAdvertisements: true, keepRepeatedDevices: true })
+      bluetooth.addEventListener('advertisementreceived', this.handleAdvertisement)
+      console.log('📶 BLE 비콘 스캔 시작')
+      return true
+    } catch (error) {
+      console.warn('⚠️ BLE 비콘 스캔을 시작할 수 없습니다:', error)
+      return false
+    }
+  }
+
+  stop(): void {
+    if (!this.scan) return
+    getBluetooth()?.removeEventListener?.('advertisementreceived', this.handleAdvertisement)
+    this.scan.stop()
+    this.scan = null
+  }
+
+  onObservation(callback: (observation: ProximityObservation) => void): void {
+    this.callback = callback
+  }
+}
+
+/**
+ * 이 브라우저에서 사용할 수 있는 기본 근접 소스
+ */
+export function createDefaultProximitySources(): ProximitySource[] {
+  const bluetooth = new WebBluetoothProximitySource()
+  return bluetooth.isSupported() ? [bluetooth] : []
+}
+
+/**
+ * 여러 근접 소스의 최근 관측 수집기
+ */
+export class ProximityScanner {
+  private observations: ProximityObservation[] = []
+
+  constructor(
+    private sources: ProximitySource[],
+    private config: { observationWindow?: number, now?: () => number } = {}
+  ) {
+    for (const source of sources) {
+      source.onObservation((observation) => this.record(observation))
+    }
+  }
+
+  /**
+   * 지원되는 소스 시작 (하나라도 시작되면 true)
+   */
+  async start(): Promise<boolean> {
+    const started = await Promise.all(
+      this.sources.filter((source) => source.isSupported()).map((source) => source.start())
+    )
+    return started.some(Boolean)
+  }
+
+  stop(): void {
+    for (const source of this.sources) {
+      source.stop()
+    }
+    this.observations = []
+  }
+
+  /**
+   * 관측 창 안의 관측을 비콘/AP 별로 평균 (최신 관측 시각 사용, 신호가 센 순)
+   */
+  getObservations(): ProximityObservation[] {
+    this.prune()
+
+    const grouped = new Map<string, { observation: ProximityObservation, rssiSum: number, count: number }>()
+    for (const observation of this.observations) {
+      const key = proximityKey(observation)
+      const entry = grouped.get(key)
+      if (!entry) {
+        grouped.set(key, { observation, rssiSum: observation.rssi, count: 1 })
+        continue
+      }
+      entry.rssiSum += observation.rssi
+      entry.count++
+      if (observation.timestamp > entry.observation.timestamp) {
+        entry.observation = observation
+      }
+    }
+
+    return Array.from(grouped.values())
+      .map(({ observation, rssiSum, count }) => ({
+        ...observation,
+        rssi: Math.round((rssiSum / count) * 10) / 10
+      }))
+      .sort((a, b) => b.rssi - a.rssi)
+      .slice(0, PROXIMITY_CONFIG.maxObservations)
+  }
+
+  private record(observation: ProximityObservation): void {
+    this.observations.push(observation)
+    this.prune()
+  }
+
+  private prune(): void {
+    const now = (this.config.now ?? Date.now)()
+    const window = this.config.observationWindow ?? PROXIMITY_CONFIG.observationWindow
+    this.observations = this.observations.filter((observation) => now - observation.timestamp <= window)
+  }
+}
@@ -0,0 +1,97 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { SensorTraceRecorder, parseSensorTrace, serializeSensorTrace, type SensorTrace } from '@/lib/sensors/sensor-trace'
+import { cartesianToGPS } from '@/lib/pdr/pdr-tracker'
+import { benchmarkFusionFilters, replaySensorTrace } from './trace-replay'
+
+const origin = { lat: 37.5665, lng: 126.978 }
+const startedAt = 1741050000000
+
+/**
+ * 동쪽으로 초당 2걸음, 50Hz 로 걷는 합성 기록 (1초마다 실측 지점, gpsAccuracy 를 주면 2초마다 GPS)
+ */
+function syntheticWalk(seconds: number, stepLength = 0.6, gpsAccuracy = 0): SensorTrace {
+  const recorder = new SensorTraceRecorder({ startedAt, origin }, 100_000, () => startedAt)
+  const hz = 50
+  for (let i = 0; i <= hz * seconds; i++) {
+    const t = startedAt + Math.round((i * 1000) / hz)
+    const pulse = Math.pow(Math.max(0, Math.sin((i / hz) * 2 * 2 * Math.PI)), 8)
+    recorder.recordSensor(
+      { acceleration: { x: 0, y: 0, z: 9.8 + 6 * pulse, timestamp: t }, rotation: { alpha: 0, beta: 0, gamma: 0 } },
+      t
+    )
+    if (i > 0 && i % hz === 0) {
+      const point = cartesianToGPS({ x: (i / hz) * 2 * stepLength, y: 0 }, origin)
+      recorder.recordTruth({ ...point, label: `${i / hz}s` }, t + 1)
+      if (gpsAccuracy > 0 && (i / hz) % 2 === 0) {
+        recorder.recordGps({ ...point, accuracy: gpsAccuracy }, t)
+      }
+    }
+  }
+  return recorder.getTrace()
+}
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, warn } = console
+  console.log = () => {}
+  console.warn = () => {}
+  try {
+    return await run()
+  } finally {
+    console.log = log
+    console.warn = warn
+  }
+}
+
+test('sensor traces round-trip through JSON Lines and report the offending line', () => {
+  const recorder = new SensorTraceRecorder({ startedAt, description: '복도 20m' }, 10, () => startedAt)
+  recorder.recordGps({ ...origin, accuracy: 8 }, startedAt + 20)
+  recorder.recordSensor({ acceleration: { x: 0, y: 0, z: 9.8, timestamp: 5 }, rotation: null }, startedAt + 10)
+
+  const parsed = parseSensorTrace(recorder.toJsonl())
+  assert.strictEqual(parsed.meta.description, '복도 20m')
+  assert.deepStrictEqual(parsed.records.map((record) => record.type), ['sensor', 'gps'])
+
+  const broken = recorder.toJsonl() + '{"type":"gps","t":1,"fix":{"lat":"x"}}\n'
+  assert.throws(() => parseSensorTrace(broken), /4번째 줄/)
+})
+
+test('replaySensorTrace is deterministic and follows the recorded walk without GPS', async () => {
+  const trace = syntheticWalk(10)
+
+  const first = await quietly(() => replaySensorTrace(trace))
+  const second = await quietly(() => replaySensorTrace(parseSensorTrace(serializeSensorTrace(trace))))
+
+  assert.strictEqual(first.steps, 20)
+  assert.deepStrictEqual(second.positions, first.positions)
+  assert.ok(first.finalPosition && first.finalPosition.x > 10, 'moves east along +x')
+  assert.ok(Math.abs(first.finalPosition!.y) < 0.01)
+  assert.strictEqual(first.truthErrors.length, 10)
+})
+
+test('replaySensorTrace measures fusion error against ground truth', async () => {
+  const result = await quietly(() => replaySensorTrace(syntheticWalk(10, 0.7), { pdrOnly: true }))
+
+  assert.ok(result.meanError !== null && result.maxError !== null)
+  // 걸음 길이 추정이 실제보다 짧으므로 오차는 시간에 따라 커짐
+  assert.ok(result.truthErrors[9].error > result.truthErrors[0].error)
+  assert.ok(result.maxError! < 5, `max error ${result.maxError}`)
+})
+
+test('benchmarkFusionFilters replays the same traces through each fusion filter', async () => {
+  const traces = [
+    { name: 'walk-gps', trace: syntheticWalk(20, 0.7, 5) },
+    { name: 'walk-no-gps', trace: syntheticWalk(10, 0.7) }
+  ]
+  const [kalman, ekf] = await quietly(() => benchmarkFusionFilters(traces))
+
+  assert.deepStrictEqual([kalman.filter, ekf.filter], ['kalman', 'ekf'])
+  assert.deepStrictEqual(ekf.traces.map((entry) => entry.name), ['walk-gps', 'walk-no-gps'])
+  assert.deepStrictEqual(ekf.traces.map((entry) => entry.truthPoints), [20, 10])
+  for (const benchmark of [kalman, ekf]) {
+    const [withGps, withoutGps] = benchmark.traces
+    // 20초를 걸어도 GPS 보정이 있으면 10초 PDR 만 걸은 것보다 오차가 작음
+    assert.ok(withGps.meanError! < withoutGps.meanError!, `${benchmark.filter} ${withGps.meanError} vs ${withoutGps.meanError}`)
+    assert.strictEqual(benchmark.maxError, Math.max(withGps.maxError!, withoutGps.maxError!))
+  }
+})
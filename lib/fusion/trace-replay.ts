@@ -0,0 +1,216 @@
+/**
+ * 센서 기록 재생기 (Trace Replay)
+ * JSON Lines 센서 기록을 브라우저 없이 StepDetector → HeadingEstimator → PDRTracker → GPSPDRFusionManager 에 다시 넣어
+ * 같은 기록에서 항상 같은 결과를 얻습니다. 파라미터 튜닝과 융합 정확도 회귀 테스트에 사용합니다.
+ *
+ * 재생 중 모든 구성 요소의 시계는 레코드의 t (기록 시각) 입니다.
+ */
+
+import type { SensorTrace } from '@/lib/sensors/sensor-trace'
+import { gpsToCartesian } from '@/lib/pdr/pdr-tracker'
+import {
+  GPSPDRFusionManager,
+  type FusedPosition,
+  type FusionFilterType,
+  type GPSPDRFusionConfig
+} from './gps-pdr-fusion'
+
+/**
+ * 재생 설정
+ */
+export interface SensorTraceReplayOptions {
+  /** 융합 설정 (센서 입력/시계는 재생기가 지정) */
+  fusion?: Omit<GPSPDRFusionConfig, 'sensorInput' | 'now'>
+  /** GPS 보정 없이 PDR 만 재생 (첫 GPS 측위는 원점으로만 사용) */
+  pdrOnly?: boolean
+}
+
+/**
+ * 실측 지점별 위치 오차
+ */
+export interface TruthError {
+  t: number
+  label?: string
+  /** 융합 위치와 실측 지점 사이 거리 (m) */
+  error: number
+}
+
+/**
+ * 재생 결과
+ */
+export interface SensorTraceReplayResult {
+  /** 재생 원점 (첫 GPS 측위 또는 meta.origin) */
+  origin: { lat: number, lng: number }
+  /** 융합 위치 변화 (시간 순) */
+  positions: FusedPosition[]
+  finalPosition: FusedPosition | null
+  /** 감지된 걸음 수 */
+  steps: number
+  /** PDR 누적 이동 거리 (m) */
+  distance: number
+  gpsUpdates: number
+  recalibrations: number
+  truthErrors: TruthError[]
+  /** 실측 지점 평균 오차 (m, 실측 지점이 없으면 null) */
+  meanError: number | null
+  maxError: number | null
+}
+
+/**
+ * 센서 기록 재생
+ */
+export async function replaySensorTrace(
+  trace: SensorTrace,
+  options: SensorTraceReplayOptions = {}
+): Promise<SensorTraceReplayResult> {
+  const firstGps = trace.records.find((record) => record.type === 'gps')
+  const origin = trace.meta.origin
+    ?? (firstGps?.type === 'gps' ? { lat: firstGps.fix.lat, lng: firstGps.fix.lng } : null)
+
+  if (!origin) {
+    throw new Error('재생할 원점이 없습니다 (GPS 측위 또는 meta.origin 필요)')
+  }
+
+  let clock = trace.meta.startedAt
+  const fusion = new GPSPDRFusionManager({
+    ...options.fusion,
+    sensorInput: 'external',
+    now: () => clock
+  })
+
+  const positions: FusedPosition[] = []
+  fusion.onPositionUpdate((position) => positions.push(position))
+
+  const truthErrors: TruthError[] = []
+  let started = false
+
+  // meta.origin 이 있으면 기록 처음부터, 없으면 첫 GPS 측위부터 재생
+  if (trace.meta.origin) {
+    clock = trace.records[0]?.t ?? clock
+    started = await fusion.startTracking({ ...trace.meta.origin, accuracy: 5, timestamp: clock })
+  }
+
+  for (const record of trace.records) {
+    clock = record.t
+
+    if (!started) {
+      if (record.type !== 'gps') continue
+      started = await fusion.startTracking({
+        lat: record.fix.lat,
+        lng: record.fix.lng,
+        accuracy: record.fix.accuracy,
+        altitude: record.fix.altitude,
+        altitudeAccuracy: record.fix.altitudeAccuracy,
+        timestamp: record.t
+      })
+      continue
+    }
+
+    switch (record.type) {
+      case 'sensor':
+        fusion.pushSensorData(record.data)
+        break
+      case 'gps':
+        if (!options.pdrOnly) {
+          fusion.updateGPS({
+            lat: record.fix.lat,
+            lng: record.fix.lng,
+            accuracy: record.fix.accuracy,
+            altitude: record.fix.altitude,
+            altitudeAccuracy: record.fix.altitudeAccuracy,
+            timestamp: record.t
+          })
+        }
+        break
+      case 'truth': {
+        const current = fusion.getCurrentPosition()
+        if (current) {
+          const truth = gpsToCartesian({ lat: record.lat, lng: record.lng }, origin)
+          const estimate = gpsToCartesian({ lat: current.lat, lng: current.lng }, origin)
+          truthErrors.push({
+            t: record.t,
+            label: record.label,
+            error: Math.hypot(truth.x - estimate.x, truth.y - estimate.y)
+          })
+        }
+        break
+      }
+    }
+  }
+
+  const pdrStats = fusion.getPDRStatistics()
+  const fusionStats = fusion.getStatistics()
+  const finalPosition = fusion.getCurrentPosition()
+  fusion.destroy()
+
+  const errors = truthErrors.map((item) => item.error)
+  return {
+    origin,
+    positions,
+    finalPosition: finalPosition ? { ...finalPosition } : null,
+    steps: pdrStats.totalSteps,
+    distance: pdrStats.totalDistance,
+    gpsUpdates: fusionStats.gpsUpdateCount,
+    recalibrations: fusionStats.recalibrationCount,
+    truthErrors,
+    meanError: errors.length > 0 ? errors.reduce((sum, error) => sum + error, 0) / errors.length : null,
+    maxError: errors.length > 0 ? Math.max(...errors) : null
+  }
+}
+
+/**
+ * 필터별 기록 재생 결과
+ */
+export interface FusionFilterBenchmarkEntry {
+  name: string
+  meanError: number | null
+  maxError: number | null
+  truthPoints: number
+}
+
+/**
+ * 필터별 벤치마크 결과
+ */
+export interface FusionFilterBenchmark {
+  filter: FusionFilterType
+  traces: FusionFilterBenchmarkEntry[]
+  /** 모든 기록의 실측 지점 평균 오차 (m, 실측 지점이 없으면 null) */
+  meanError: number | null
+  maxError: number | null
+}
+
+/**
+ * 같은 기록들을 융합 필터별로 재생해 실측 지점 오차를 비교
+ */
+export async function benchmarkFusionFilters(
+  traces: { name: string, trace: SensorTrace }[],
+  filters: FusionFilterType[] = ['kalman', 'ekf'],
+  options: SensorTraceReplayOptions = {}
+): Promise<FusionFilterBenchmark[]> {
+  const benchmarks: FusionFilterBenchmark[] = []
+
+  for (const filter of filters) {
+    const entries: FusionFilterBenchmarkEntry[] = []
+    const errors: number[] = []
+
+    for (const { name, trace } of traces) {
+      const result = await replaySensorTrace(trace, { ...options, fusion: { ...options.fusion, filter } })
+      entries.push({
+        name,
+        meanError: result.meanError,
+        maxError: result.maxError,
+        truthPoints: result.truthErrors.length
+      })
+      errors.push(...result.truthErrors.map((item) => item.error))
+    }
+
+    benchmarks.push({
+      filter,
+      traces: entries,
+      meanError: errors.length > 0 ? errors.reduce((sum, error) => sum + error, 0) / errors.length : null,
+      maxError: errors.length > 0 ? Math.max(...errors) : null
+    })
+  }
+
+  return benchmarks
+}
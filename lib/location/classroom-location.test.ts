@@ -0,0 +1,215 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { resetCourseSchemaSupportCache } from '@/lib/courses/schemaSupport'
+import {
+  loadClassroomFloor,
+  loadClassroomLocation,
+  loadClassroomProximityFingerprint,
+  resolveClassroomLocation,
+  type PredefinedLocationFields,
+  type SessionLocationFields
+} from './classroom-location'
+
+const EMPTY_SESSION: SessionLocationFields = {
+  classroom_latitude: null,
+  classroom_longitude: null,
+  classroom_radius: null
+}
+
+const PREDEFINED: PredefinedLocationFields = {
+  id: 'loc-501',
+  display_name: '제1자연관 501호',
+  latitude: 36.6291,
+  longitude: 127.4565,
+  radius: 60,
+  is_active: true
+}
+
+const SQUARE = {
+  type: 'Polygon',
+  coordinates: [[[127.0, 37.5], [127.001, 37.5], [127.001, 37.501], [127.0, 37.501], [127.0, 37.5]]]
+}
+
+test('resolveClassroomLocation prefers the session location', () => {
+  const resolved = resolveClassroomLocation({
+    session: { classroom_latitude: 37.5, classroom_longitude: 127, classroom_radius: 80 },
+    predefinedLocation: PREDEFINED,
+    course: { location_latitude: 36, location_longitude: 128, location_radius: 200 }
+  })
+
+  assert.strictEqual(resolved?.source, 'session')
+  assert.strictEqual(resolved?.radius, 80)
+  assert.deepStrictEqual(resolved?.geofence, { type: 'circle', latitude: 37.5, longitude: 127, radius: 80 })
+})
+
+test('resolveClassroomLocation uses the session polygon when present', () => {
+  const resolved = resolveClassroomLocation({
+    session: {
+      classroom_latitude: 37.5005,
+      classroom_longitude: 127.0005,
+      classroom_radius: 90,
+      classroom_geofence: SQUARE,
+      classroom_geofence_buffer: 8
+    }
+  })
+
+  assert.strictEqual(resolved?.geofence.type, 'polygon')
+  assert.strictEqual(resolved?.geofence.type === 'polygon' && resolved.geofence.bufferMeters, 8)
+})
+
+test('resolveClassroomLocation falls back to the predefined location', () => {
+  const resolved = resolveClassroomLocation({
+    session: EMPTY_SESSION,
+    predefinedLocation: PREDEFINED,
+    course: { location_latitude: 36, location_longitude: 128, location_radius: 200 }
+  })
+
+  assert.strictEqual(resolved?.source, 'predefined')
+  assert.strictEqual(resolved?.predefinedLocationId, 'loc-501')
+  assert.strictEqual(resolved?.displayName, '제1자연관 501호')
+  assert.strictEqual(resolved?.radius, 60)
+})
+
+test('resolveClassroomLocation skips inactive predefined locations', () => {
+  const resolved = resolveClassroomLocation({
+    session: EMPTY_SESSION,
+    predefinedLocation: { ...PREDEFINED, is_active: false },
+    course: { location: '공학관 301호', location_latitude: 36, location_longitude: 128, location_radius: null }
+  })
+
+  assert.strictEqual(resolved?.source, 'course')
+  assert.strictEqual(resolved?.displayName, '공학관 301호')
+})
+
+test('resolveClassroomLocation falls back to course columns, then classroom_location JSON', () => {
+  const fromColumns = resolveClassroomLocation({
+    session: EMPTY_SESSION,
+    course: [{ location_latitude: 36, location_longitude: 128, location_radius: 150 }]
+  })
+  assert.strictEqual(fromColumns?.source, 'course')
+  assert.strictEqual(fromColumns?.radius, 150)
+
+  const fromJson = resolveClassroomLocation({
+    session: EMPTY_SESSION,
+    course: {
+      location_latitude: null,
+      location_longitude: null,
+      classroom_location: { latitude: '36.5', longitude: '127.5', radius: 120, displayName: '임시 강의실' }
+    }
+  })
+  assert.strictEqual(fromJson?.source, 'course')
+  assert.strictEqual(fromJson?.latitude, 36.5)
+  assert.strictEqual(fromJson?.radius, 120)
+  assert.strictEqual(fromJson?.displayName, '임시 강의실')
+})
+
+test('resolveClassroomLocation applies the same default radius for every source', () => {
+  const fromSession = resolveClassroomLocation({
+    session: { classroom_latitude: 37.5, classroom_longitude: 127, classroom_radius: null }
+  })
+  const fromPredefined = resolveClassroomLocation({ predefinedLocation: { ...PREDEFINED, radius: null } })
+  const fromCourse = resolveClassroomLocation({ course: { location_latitude: 36, location_longitude: 128 } })
+
+  assert.strictEqual(fromSession?.radius, 100)
+  assert.strictEqual(fromPredefined?.radius, 100)
+  assert.strictEqual(fromCourse?.radius, 100)
+})
+
+test('resolveClassroomLocation returns null without any usable coordinates', () => {
+  assert.strictEqual(resolveClassroomLocation({ session: EMPTY_SESSION, course: null }), null)
+  assert.strictEqual(
+    resolveClassroomLocation({ course: { classroom_location: { displayName: '공학관', radius: 100 } } }),
+    null
+  )
+})
+
+test('loadClassroomLocation looks up the linked predefined location only when needed', async () => {
+  resetCourseSchemaSupportCache()
+  const lookups: Array<[string, unknown]> = []
+  const client = {
+    from(table: string) {
+      const builder = {
+        select: () => builder,
+        limit: () => Promise.resolve({ data: [], error: null }),
+        eq(column: string, value: unknown) {
+          lookups.push([column, value])
+          return builder
+        },
+        maybeSingle: () => Promise.resolve({ data: table === 'predefined_locations' ? PREDEFINED : null, error: null })
+      }
+      return builder
+    }
+  }
+  const supabase = client as unknown as SupabaseClient<Database>
+  const course = { classroom_location: { predefinedLocationId: 'loc-501' } }
+
+  const fromSession = await loadClassroomLocation(supabase, {
+    session: { classroom_latitude: 37.5, classroom_longitude: 127, classroom_radius: 80 },
+    course
+  })
+  assert.strictEqual(fromSession?.source, 'session')
+  assert.deepStrictEqual(lookups, [])
+
+  const fromPredefined = await loadClassroomLocation(supabase, { session: EMPTY_SESSION, course })
+  assert.strictEqual(fromPredefined?.source, 'predefined')
+  assert.deepStrictEqual(lookups, [['id', 'loc-501']])
+})
+
+test('loadClassroomProximityFingerprint reads the linked room fingerprint even for session locations', async () => {
+  resetCourseSchemaSupportCache()
+  const fingerprint = { beacons: [{ kind: 'ble', id: 'fda50693-a4e2-4fb1-afcf-c6eb07647825:10:501', rssi: -60 }] }
+  const lookups: Array<[string, unknown]> = []
+  let stored: unknown = fingerprint
+  const builder = {
+    select: () => builder,
+    limit: () => Promise.resolve({ data: [], error: null }),
+    eq(column: string, value: unknown) {
+      lookups.push([column, value])
+      return builder
+    },
+    maybeSingle: () => Promise.resolve({ data: { proximity_fingerprint: stored }, error: null })
+  }
+  const supabase = { from: () => builder } as unknown as SupabaseClient<Database>
+  const location = resolveClassroomLocation({
+    session: { classroom_latitude: 37.5, classroom_longitude: 127, classroom_radius: 80 }
+  })!
+
+  const loaded = await loadClassroomProximityFingerprint(supabase, {
+    location,
+    course: { classroom_location: { predefinedLocationId: 'loc-501' } }
+  })
+  assert.deepStrictEqual(loaded, fingerprint)
+  assert.deepStrictEqual(lookups, [['id', 'loc-501']])
+
+  // 연결된 강의실이 없거나 저장된 지문 형식이 잘못되면 null
+  assert.strictEqual(await loadClassroomProximityFingerprint(supabase, { location, course: null }), null)
+  stored = { beacons: [] }
+  assert.strictEqual(await loadClassroomProximityFingerprint(supabase, { location, course: { classroom_location: { predefinedLocationId: 'loc-501' } } }), null)
+})
+
+test('loadClassroomFloor reads the linked room floor only when the floor columns exist', async () => {
+  resetCourseSchemaSupportCache()
+  let stored: unknown = 5
+  let columnsExist = true
+  const builder = {
+    select: () => builder,
+    limit: () => Promise.resolve(columnsExist
+      ? { data: [], error: null }
+      : { data: null, error: { message: 'column predefined_locations.floor does not exist' } }),
+    eq: () => builder,
+    maybeSingle: () => Promise.resolve({ data: { floor: stored }, error: null })
+  }
+  const supabase = { from: () => builder } as unknown as SupabaseClient<Database>
+  const location = resolveClassroomLocation({ predefinedLocation: PREDEFINED })!
+
+  assert.strictEqual(await loadClassroomFloor(supabase, { location, course: null }), 5)
+  stored = null
+  assert.strictEqual(await loadClassroomFloor(supabase, { location, course: null }), null)
+
+  resetCourseSchemaSupportCache()
+  columnsExist = false
+  stored = 5
+  assert.strictEqual(await loadClassroomFloor(supabase, { location, course: null }), null)
+})
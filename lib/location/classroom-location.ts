@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { CLASSROOM_LOCATION_CONFIG } from '@/lib/config/attendance-config'
+import { hasFloorColumns, hasGeofenceColumns, hasProximityFingerprintColumn } from '@/lib/courses/schemaSupport'
+import { isValidCoordinates } from '@/lib/utils/geo'
+import { toPolygonGeofence, type ClassroomGeofence } from '@/lib/utils/geofence'
+import { parseProximityFingerprint, type ProximityFingerprint } from '@/lib/fusion/proximity-fingerprint'
+
+/**
+ * 강의실 위치 결정 정책
+ *
+ * 체크인, heartbeat, 위치 추적이 같은 순서와 같은 기본 반경으로 강의실 위치를 정하도록
+ * 한 곳에서 관리합니다. 우선순위는 다음과 같습니다.
+ *
+ * 1. 세션에 저장된 강의실 좌표/다각형 (class_sessions.classroom_*)
+ * 2. 강의에 연결된 미리 정의된 강의실 (courses.classroom_location.predefinedLocationId)
+ * 3. 강의 기본 위치 (courses.location_*, 없으면 courses.classroom_location 좌표)
+ */
+
+type Tables = Database['public']['Tables']
+
+export type ClassroomLocationSource = keyof typeof CLASSROOM_LOCATION_CONFIG.defaultRadiusMeters
+
+export type SessionLocationFields = Pick<
+  Tables['class_sessions']['Row'],
+  'classroom_latitude' | 'classroom_longitude' | 'classroom_radius'
+> & Partial<Pick<Tables['class_sessions']['Row'], 'classroom_geofence' | 'classroom_geofence_buffer'>>
+
+export type CourseLocationFields = Partial<Pick<
+  Tables['courses']['Row'],
+  'location' | 'location_latitude' | 'location_longitude' | 'location_radius' | 'classroom_location'
+>>
+
+export type PredefinedLocationFields = Pick<
+  Tables['predefined_locations']['Row'],
+  'id' | 'display_name' | 'latitude' | 'longitude' | 'radius' | 'is_active'
+> & Partial<Pick<Tables['predefined_locations']['Row'], 'geofence' | 'geofence_buffer'>>
+
+export interface ClassroomLocationInput {
+  session?: SessionLocationFields | null
+  course?: CourseLocationFields | CourseLocationFields[] | null
+  predefinedLocation?: PredefinedLocationFields | null
+}
+
+export interface ResolvedClassroomLocation {
+  source: ClassroomLocationSource
+  latitude: number
+  longitude: number
+  radius: number
+  displayName?: string
+  predefinedLocationId: string | null
+  /** 다각형 경계가 있으면 다각형, 없으면 위 좌표/반경의 원형 경계 */
+  geofence: ClassroomGeofence
+}
+
+interface LegacyClassroomLocation {
+  latitude?: unknown
+  longitude?: unknown
+  radius?: unknown
+  displayName?: unknown
+  predefinedLocationId?: unknown
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toRadius(value: unknown, source: ClassroomLocationSource): number {
+  const radius = toFiniteNumber(value)
+  return radius !== null && radius > 0 ? radius : CLASSROOM_LOCATION_CONFIG.defaultRadiusMeters[source]
+}
+
+function normalizeCourse(course: ClassroomLocationInput['course']): CourseLocationFields | null {
+  return Array.isArray(course) ? course[0] ?? null : course ?? null
+}
+
+function readLegacyLocation(course: CourseLocationFields | null): LegacyClassroomLocation | null {
+  const value = course?.classroom_location
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as LegacyClassroomLocation : null
+}
+
+function buildLocation(
+  source: ClassroomLocationSource,
+  latitudeValue: unknown,
+  longitudeValue: unknown,
+  radiusValue: unknown,
+  extras: { displayName?: string | null; predefinedLocationId?: string | null; geofence?: unknown; geofenceBuffer?: unknown }
+): ResolvedClassroomLocation | null {
+  const latitude = toFiniteNumber(latitudeValue)
+  const longitude = toFiniteNumber(longitudeValue)
+  if (latitude === null || longitude === null || !isValidCoordinates(latitude, longitude)) {
+    return null
+  }
+
+  const radius = toRadius(radiusValue, source)
+  return {
+    source,
+    latitude,
+    longitude,
+    radius,
+    displayName: extras.displayName ?? undefined,
+    predefinedLocationId: extras.predefinedLocationId ?? null,
+    geofence: toPolygonGeofence(extras.geofence, extras.geofenceBuffer) ??
+      { type: 'circle', latitude, longitude, radius }
+  }
+}
+
+/**
+ * 강의의 classroom_location 에 기록된 미리 정의된 강의실 ID
+ */
+export function getLinkedPredefinedLocationId(course: ClassroomLocationInput['course']): string | null {
+  const id = readLegacyLocation(normalizeCourse(course))?.predefinedLocationId
+  return typeof id === 'string' && id.length > 0 ? id : null
+}
+
+/**
+ * 세션 → 미리 정의된 강의실 → 강의 순으로 강의실 위치 결정 (모두 없으면 null)
+ */
+export function resolveClassroomLocation(input: ClassroomLocationInput): ResolvedClassroomLocation | null {
+  const { session, predefinedLocation } = input
+  const course = normalizeCourse(input.course)
+
+  if (session) {
+    const fromSession = buildLocation('session', session.classroom_latitude, session.classroom_longitude, session.classroom_radius, {
+      geofence: session.classroom_geofence,
+      geofenceBuffer: session.classroom_geofence_buffer
+    })
+    if (fromSession) {
+      return fromSession
+    }
+  }
+
+  if (predefinedLocation && predefinedLocation.is_active !== false) {
+    const fromPredefined = buildLocation('predefined', predefinedLocation.latitude, predefinedLocation.longitude, predefinedLocation.radius, {
+      displayName: predefinedLocation.display_name,
+      predefinedLocationId: predefinedLocation.id,
+      geofence: predefinedLocation.geofence,
+      geofenceBuffer: predefinedLocation.geofence_buffer
+    })
+    if (fromPredefined) {
+      return fromPredefined
+    }
+  }
+
+  if (course) {
+    const fromColumns = buildLocation('course', course.location_latitude, course.location_longitude, course.location_radius, {
+      displayName: course.location
+    })
+    if (fromColumns) {
+      return fromColumns
+    }
+
+    const legacy = readLegacyLocation(course)
+    if (legacy) {
+      return buildLocation('course', legacy.latitude, legacy.longitude, legacy.radius, {
+        displayName: typeof legacy.displayName === 'string' ? legacy.displayName : course.location,
+        predefinedLocationId: getLinkedPredefinedLocationId(course)
+      })
+    }
+  }
+
+  return null
+}
+
+/**
+ * 필요할 때만 미리 정의된 강의실을 조회해 강의실 위치 결정
+ *
+ * 세션에 좌표가 있으면 추가 조회 없이 바로 반환합니다.
+ */
+export async function loadClassroomLocation(
+  supabase: SupabaseClient<Database>,
+  input: Omit<ClassroomLocationInput, 'predefinedLocation'>
+): Promise<ResolvedClassroomLocation | null> {
+  const fromSession = input.session ? resolveClassroomLocation({ session: input.session }) : null
+  if (fromSession) {
+    return fromSession
+  }
+
+  const predefinedLocationId = getLinkedPredefinedLocationId(input.course)
+  let predefinedLocation: PredefinedLocationFields | null = null
+  if (predefinedLocationId) {
+    const geofenceColumns = await hasGeofenceColumns(supabase) ? ', geofence, geofence_buffer' : ''
+    const { data, error } = await supabase
+      .from('predefined_locations')
+      .select(`id, display_name, latitude, longitude, radius, is_active${geofenceColumns}`)
+      .eq('id', predefinedLocationId)
+      .maybeSingle<PredefinedLocationFields>()
+
+    if (error) {
+      console.warn('[ClassroomLocation] 미리 정의된 강의실 조회 실패:', error.message)
+    }
+    predefinedLocation = data ?? null
+  }
+
+  return resolveClassroomLocation({ ...input, predefinedLocation })
+}
+
+/**
+ * 강의실의 비콘/AP 근접 지문 조회 (없으면 null)
+ *
+ * 세션 좌표로 강의실을 정했더라도 강의에 연결된 미리 정의된 강의실의 지문을 사용합니다.
+ * 근접 관측이 들어온 요청에서만 호출해 추가 조회를 줄입니다.
+ */
+export async function loadClassroomProximityFingerprint(
+  supabase: SupabaseClient<Database>,
+  input: { location: ResolvedClassroomLocation, course: ClassroomLocationInput['course'] }
+): Promise<ProximityFingerprint | null> {
+  const predefinedLocationId = input.location.predefinedLocationId ?? getLinkedPredefinedLocationId(input.course)
+  if (!predefinedLocationId || !await hasProximityFingerprintColumn(supabase)) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('predefined_locations')
+    .select('proximity_fingerprint')
+    .eq('id', predefinedLocationId)
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[ClassroomLocation] 강의실 근접 지문 조회 실패:', error.message)
+    return null
+  }
+  return parseProximityFingerprint(data?.proximity_fingerprint)
+}
+
+/**
+ * 강의실 층 조회 (층이 등록되지 않았으면 null)
+ *
+ * 근접 지문과 같이 강의에 연결된 미리 정의된 강의실의 층을 사용합니다.
+ * 층 변화가 들어온 heartbeat 에서만 호출합니다.
+ */
+export async function loadClassroomFloor(
+  supabase: SupabaseClient<Database>,
+  input: { location: ResolvedClassroomLocation, course: ClassroomLocationInput['course'] }
+): Promise<number | null> {
+  const predefinedLocationId = input.location.predefinedLocationId ?? getLinkedPredefinedLocationId(input.course)
+  if (!predefinedLocationId || !await hasFloorColumns(supabase)) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('predefined_locations')
+    .select('floor')
+    .eq('id', predefinedLocationId)
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[ClassroomLocation] 강의실 층 조회 실패:', error.message)
+    return null
+  }
+  const floor = data?.floor
+  return typeof floor === 'number' && Number.isInteger(floor) ? floor : null
+}
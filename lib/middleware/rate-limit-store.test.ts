@@ -0,0 +1,115 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  resolveRateLimitStoreType,
+  type RateLimitRpcClient,
+  type RateLimitStore
+} from './rate-limit-store'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * migration 018 의 rate_limit_* 함수와 같은 규칙으로 동작하는 rpc mock
+ */
+function createRpcClient() {
+  const rows: Array<{ key: string; hitAt: number }> = []
+  let sequence = 0
+
+  const rpc = async (fn: string, args: { p_key: string; p_window_ms?: number }) => {
+    // 같은 밀리초의 요청도 순서가 유지되도록 보정 (clock_timestamp 는 마이크로초 단위)
+    const now = Date.now() + (sequence += 0.001)
+    const windowStart = now - (args.p_window_ms ?? 0)
+    const inWindow = () => rows.filter((row) => row.key === args.p_key && row.hitAt > windowStart)
+
+    switch (fn) {
+      case 'rate_limit_hit': {
+        for (let i = rows.length - 1; i >= 0; i -= 1) {
+          if (rows[i].key === args.p_key && rows[i].hitAt <= windowStart) rows.splice(i, 1)
+        }
+        rows.push({ key: args.p_key, hitAt: now })
+        const hits = inWindow()
+        const oldest = Math.min(...hits.map((row) => row.hitAt))
+        return {
+          data: [{ hit_count: hits.length, reset_at: new Date(oldest + (args.p_window_ms ?? 0)).toISOString() }],
+          error: null
+        }
+      }
+      case 'rate_limit_count':
+        return { data: inWindow().length, error: null }
+      case 'rate_limit_reset':
+        for (let i = rows.length - 1; i >= 0; i -= 1) {
+          if (rows[i].key === args.p_key) rows.splice(i, 1)
+        }
+        return { data: null, error: null }
+      default:
+        return { data: null, error: { message: `unknown function ${fn}` } }
+    }
+  }
+
+  return { rpc } as unknown as RateLimitRpcClient
+}
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['PostgresRateLimitStore', () => {
+    const client = createRpcClient()
+    return new PostgresRateLimitStore(() => client)
+  }]
+]
+
+for (const [name, createStore] of stores) {
+  test(`${name} counts hits within the window per key`, async () => {
+    const store = createStore()
+    try {
+      assert.strictEqual((await store.hit('auth:1.1.1.1', 60_000)).count, 1)
+      assert.strictEqual((await store.hit('auth:1.1.1.1', 60_000)).count, 2)
+      const third = await store.hit('auth:1.1.1.1', 60_000)
+      assert.strictEqual(third.count, 3)
+      assert.ok(third.resetTime > Date.now() && third.resetTime <= Date.now() + 60_000)
+
+      assert.strictEqual((await store.hit('auth:2.2.2.2', 60_000)).count, 1)
+      assert.strictEqual(await store.get('auth:1.1.1.1', 60_000), 3)
+      assert.strictEqual(await store.get('auth:3.3.3.3', 60_000), 0)
+    } finally {
+      await store.destroy()
+    }
+  })
+
+  test(`${name} slides the window as old hits expire`, async () => {
+    const store = createStore()
+    try {
+      await store.hit('checkin:a', 80)
+      await sleep(50)
+      await store.hit('checkin:a', 80)
+      await sleep(40)
+
+      // 첫 요청은 윈도우를 벗어나고 두 번째 요청만 남음
+      assert.strictEqual(await store.get('checkin:a', 80), 1)
+      assert.strictEqual((await store.hit('checkin:a', 80)).count, 2)
+    } finally {
+      await store.destroy()
+    }
+  })
+
+  test(`${name} reset clears only the given key`, async () => {
+    const store = createStore()
+    try {
+      await store.hit('general:a', 60_000)
+      await store.hit('general:b', 60_000)
+      await store.reset('general:a')
+
+      assert.strictEqual(await store.get('general:a', 60_000), 0)
+      assert.strictEqual(await store.get('general:b', 60_000), 1)
+    } finally {
+      await store.destroy()
+    }
+  })
+}
+
+test('resolveRateLimitStoreType reads RATE_LIMIT_STORE with memory as default', () => {
+  assert.strictEqual(resolveRateLimitStoreType({} as NodeJS.ProcessEnv), 'memory')
+  assert.strictEqual(resolveRateLimitStoreType({ RATE_LIMIT_STORE: 'postgres' } as unknown as NodeJS.ProcessEnv), 'postgres')
+  assert.strictEqual(resolveRateLimitStoreType({ RATE_LIMIT_STORE: ' Memory ' } as unknown as NodeJS.ProcessEnv), 'memory')
+})
@@ -0,0 +1,224 @@
+/**
+ * Rate Limit 저장소
+ *
+ * 슬라이딩 윈도우 요청 기록을 보관하는 저장소 인터페이스와 구현체
+ * - memory: 프로세스 메모리 (로컬 개발, 단일 서버)
+ * - postgres: Supabase Postgres 함수 (Vercel 등 서버리스 환경에서 인스턴스 간 공유)
+ *
+ * 사용할 저장소는 RATE_LIMIT_STORE 환경 변수로 선택합니다.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { createServiceClient } from '@/lib/supabase-admin'
+
+/**
+ * 요청 기록 결과
+ */
+export interface RateLimitHit {
+  /** 현재 요청을 포함한 윈도우 내 요청 수 */
+  count: number
+  /** 가장 오래된 요청이 윈도우를 벗어나는 시각 (밀리초) */
+  resetTime: number
+}
+
+/**
+ * Rate Limit 저장소 인터페이스
+ */
+export interface RateLimitStore {
+  /** 요청 기록 추가 및 현재 카운트 반환 */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>
+  /** 특정 키의 현재 요청 수 조회 */
+  get(key: string, windowMs: number): Promise<number>
+  /** 특정 키 삭제 */
+  reset(key: string): Promise<void>
+  /** 저장소 정리 (앱 종료/테스트용) */
+  destroy(): Promise<void>
+}
+
+export type RateLimitStoreType = 'memory' | 'postgres'
+
+/**
+ * 메모리 요청 기록
+ */
+interface RequestRecord {
+  /** 요청 타임스탬프 배열 (밀리초) */
+  timestamps: number[]
+  /** 마지막 업데이트 시간 */
+  lastUpdated: number
+}
+
+/**
+ * 메모리 기반 Rate Limit 저장소
+ *
+ * 서버리스 환경에서는 인스턴스마다 기록이 분리되므로 제한이 사실상 적용되지 않습니다.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private store = new Map<string, RequestRecord>()
+  private cleanupInterval: NodeJS.Timeout | null = null
+
+  constructor() {
+    // 5분마다 오래된 기록 정리
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup()
+    }, 5 * 60 * 1000)
+    this.cleanupInterval.unref?.()
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now()
+    const windowStart = now - windowMs
+
+    // 기존 기록 가져오기 또는 새로 생성
+    let record = this.store.get(key)
+    if (!record) {
+      record = { timestamps: [], lastUpdated: now }
+      this.store.set(key, record)
+    }
+
+    // 윈도우 밖의 오래된 타임스탬프 제거 후 현재 요청 추가
+    record.timestamps = record.timestamps.filter((ts) => ts > windowStart)
+    record.timestamps.push(now)
+    record.lastUpdated = now
+
+    // 가장 오래된 타임스탬프 + windowMs = 리셋 시간
+    const oldestTimestamp = record.timestamps[0] || now
+    return {
+      count: record.timestamps.length,
+      resetTime: oldestTimestamp + windowMs,
+    }
+  }
+
+  async get(key: string, windowMs: number): Promise<number> {
+    const record = this.store.get(key)
+    if (!record) return 0
+
+    const windowStart = Date.now() - windowMs
+    return record.timestamps.filter((ts) => ts > windowStart).length
+  }
+
+  async reset(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+
+  /**
+   * 오래된 기록 정리
+   */
+  private cleanup(): void {
+    const now = Date.now()
+    const maxAge = 15 * 60 * 1000 // 15분
+
+    // Convert to array to avoid iterator issues with older TypeScript targets
+    const entries = Array.from(this.store.entries())
+    for (const [key, record] of entries) {
+      if (now - record.lastUpdated > maxAge) {
+        this.store.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 전체 기록 초기화 (테스트용)
+   */
+  clear(): void {
+    this.store.clear()
+  }
+
+  async destroy(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval)
+      this.cleanupInterval = null
+    }
+    this.clear()
+  }
+}
+
+export type RateLimitRpcClient = Pick<SupabaseClient<Database>, 'rpc'>
+
+/**
+ * Postgres 기반 Rate Limit 저장소
+ *
+ * migration 018 의 rate_limit_hit / rate_limit_count / rate_limit_reset 함수를 호출합니다.
+ * 같은 키의 동시 요청은 함수 안에서 advisory lock 으로 직렬화됩니다.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private client: RateLimitRpcClient | null = null
+
+  constructor(private readonly getClient: () => RateLimitRpcClient) {}
+
+  private get supabase(): RateLimitRpcClient {
+    // 첫 요청 시점에 생성 (빌드 시 환경 변수 없이 import 가능하도록)
+    if (!this.client) {
+      this.client = this.getClient()
+    }
+    return this.client
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const { data, error } = await this.supabase.rpc('rate_limit_hit', {
+      p_key: key,
+      p_window_ms: Math.round(windowMs),
+    })
+
+    if (error) {
+      throw new Error(`rate_limit_hit 실패: ${error.message}`)
+    }
+
+    const row = Array.isArray(data) ? data[0] : null
+    const now = Date.now()
+    return {
+      count: row?.hit_count ?? 1,
+      resetTime: row?.reset_at ? new Date(row.reset_at).getTime() : now + windowMs,
+    }
+  }
+
+  async get(key: string, windowMs: number): Promise<number> {
+    const { data, error } = await this.supabase.rpc('rate_limit_count', {
+      p_key: key,
+      p_window_ms: Math.round(windowMs),
+    })
+
+    if (error) {
+      throw new Error(`rate_limit_count 실패: ${error.message}`)
+    }
+    return typeof data === 'number' ? data : 0
+  }
+
+  async reset(key: string): Promise<void> {
+    const { error } = await this.supabase.rpc('rate_limit_reset', { p_key: key })
+    if (error) {
+      throw new Error(`rate_limit_reset 실패: ${error.message}`)
+    }
+  }
+
+  async destroy(): Promise<void> {
+    this.client = null
+  }
+}
+
+/**
+ * 환경 변수로 저장소 종류 결정 (기본값: memory)
+ */
+export function resolveRateLimitStoreType(env: NodeJS.ProcessEnv = process.env): RateLimitStoreType {
+  const raw = env.RATE_LIMIT_STORE?.trim().toLowerCase()
+  if (raw === 'postgres') {
+    return 'postgres'
+  }
+  if (raw && raw !== 'memory') {
+    console.warn(`[RateLimit] 알 수 없는 RATE_LIMIT_STORE 값 '${raw}', memory 저장소를 사용합니다.`)
+  }
+  return 'memory'
+}
+
+/**
+ * 설정된 종류의 저장소 생성
+ */
+export function createRateLimitStore(
+  type: RateLimitStoreType = resolveRateLimitStoreType(),
+  getClient?: () => RateLimitRpcClient
+): RateLimitStore {
+  if (type === 'postgres') {
+    return new PostgresRateLimitStore(getClient ?? createServiceClient)
+  }
+  return new MemoryRateLimitStore()
+}
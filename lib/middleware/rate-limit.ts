@@ -6,6 +6,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  MemoryRateLimitStore,
+  createRateLimitStore,
+  type RateLimitStore,
+} from './rate-limit-store'
+
+export type { RateLimitStore, RateLimitStoreType } from './rate-limit-store'
 
 /**
  * Rate Limit 설정 인터페이스
@@ -15,6 +22,8 @@ export interface RateLimitConfig {
   windowMs: number
   /** 윈도우 내 최대 요청 수 */
   maxRequests: number
+  /** 저장소 키 접두사 (같은 IP라도 API별로 따로 집계) */
+  prefix?: string
   /** 사용자 식별자 추출 함수 (선택사항) */
   keyGenerator?: (request: NextRequest) => string | Promise<string>
   /** Rate limit 초과 시 메시지 */
@@ -27,121 +36,33 @@ export interface RateLimitConfig {
   skip?: (request: NextRequest) => boolean | Promise<boolean>
 }
 
-/**
- * Rate Limit 요청 기록
- */
-interface RequestRecord {
-  /** 요청 타임스탬프 배열 (밀리초) */
-  timestamps: number[]
-  /** 마지막 업데이트 시간 */
-  lastUpdated: number
+// 전역 저장소 인스턴스 (RATE_LIMIT_STORE 로 선택, 첫 요청 시 생성)
+let globalStore: RateLimitStore | null = null
+// 공유 저장소 장애 시 사용할 메모리 저장소
+let fallbackStore: MemoryRateLimitStore | null = null
+
+function getStore(): RateLimitStore {
+  if (!globalStore) {
+    globalStore = createRateLimitStore()
+  }
+  return globalStore
 }
 
 /**
- * 메모리 기반 Rate Limit 스토어
+ * 요청 기록 (공유 저장소 오류 시 메모리 저장소로 대체해 요청 처리는 계속)
  */
-class MemoryStore {
-  private store = new Map<string, RequestRecord>()
-  private cleanupInterval: NodeJS.Timeout | null = null
-
-  constructor() {
-    // 5분마다 오래된 기록 정리
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup()
-    }, 5 * 60 * 1000)
-  }
-
-  /**
-   * 요청 기록 추가 및 현재 카운트 반환
-   */
-  hit(key: string, windowMs: number): { count: number; resetTime: number } {
-    const now = Date.now()
-    const windowStart = now - windowMs
-
-    // 기존 기록 가져오기 또는 새로 생성
-    let record = this.store.get(key)
-    if (!record) {
-      record = { timestamps: [], lastUpdated: now }
-      this.store.set(key, record)
-    }
-
-    // 윈도우 밖의 오래된 타임스탬프 제거
-    record.timestamps = record.timestamps.filter((ts) => ts > windowStart)
-
-    // 현재 요청 타임스탬프 추가
-    record.timestamps.push(now)
-    record.lastUpdated = now
-
-    // 가장 오래된 타임스탬프 + windowMs = 리셋 시간
-    const oldestTimestamp = record.timestamps[0] || now
-    const resetTime = oldestTimestamp + windowMs
-
-    return {
-      count: record.timestamps.length,
-      resetTime,
-    }
-  }
-
-  /**
-   * 특정 키의 현재 요청 수 조회
-   */
-  get(key: string, windowMs: number): number {
-    const record = this.store.get(key)
-    if (!record) return 0
-
-    const now = Date.now()
-    const windowStart = now - windowMs
-
-    // 윈도우 내 타임스탬프만 카운트
-    const validTimestamps = record.timestamps.filter((ts) => ts > windowStart)
-    return validTimestamps.length
-  }
-
-  /**
-   * 특정 키 삭제
-   */
-  reset(key: string): void {
-    this.store.delete(key)
-  }
-
-  /**
-   * 오래된 기록 정리
-   */
-  private cleanup(): void {
-    const now = Date.now()
-    const maxAge = 15 * 60 * 1000 // 15분
-
-    // Convert to array to avoid iterator issues with older TypeScript targets
-    const entries = Array.from(this.store.entries())
-    for (const [key, record] of entries) {
-      if (now - record.lastUpdated > maxAge) {
-        this.store.delete(key)
-      }
+async function recordHit(key: string, windowMs: number) {
+  try {
+    return await getStore().hit(key, windowMs)
+  } catch (error) {
+    console.error('[RateLimit] 저장소 오류, 메모리 저장소로 대체합니다:', error)
+    if (!fallbackStore) {
+      fallbackStore = new MemoryRateLimitStore()
     }
-  }
-
-  /**
-   * 전체 스토어 초기화 (테스트용)
-   */
-  clear(): void {
-    this.store.clear()
-  }
-
-  /**
-   * cleanup interval 정리
-   */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval)
-      this.cleanupInterval = null
-    }
-    this.clear()
+    return fallbackStore.hit(key, windowMs)
   }
 }
 
-// 전역 메모리 스토어 인스턴스
-const globalStore = new MemoryStore()
-
 /**
  * 클라이언트 IP 주소 추출
  */
@@ -197,6 +118,7 @@ export function rateLimit(config: RateLimitConfig) {
   const {
     windowMs,
     maxRequests,
+    prefix = 'default',
     keyGenerator,
     message = '너무 많은 요청입니다. 잠시 후 다시 시도하세요.',
     standardHeaders = true,
@@ -218,7 +140,7 @@ export function rateLimit(config: RateLimitConfig) {
       : getClientIp(request)
 
     // Rate limit 체크 및 기록
-    const { count, resetTime } = globalStore.hit(key, windowMs)
+    const { count, resetTime } = await recordHit(`${prefix}:${key}`, windowMs)
 
     // 헤더 설정
     const headers: Record<string, string> = {}
@@ -273,6 +195,7 @@ export function rateLimit(config: RateLimitConfig) {
 export const RateLimitPresets = {
   /** 로그인 API (5 req/min) */
   auth: rateLimit({
+    prefix: 'auth',
     windowMs: 60 * 1000,
     maxRequests: 5,
     message: '로그인 시도 횟수를 초과했습니다. 1분 후 다시 시도하세요.',
@@ -280,6 +203,7 @@ export const RateLimitPresets = {
 
   /** 출석 체크인 API (10 req/min) */
   checkin: rateLimit({
+    prefix: 'checkin',
     windowMs: 60 * 1000,
     maxRequests: 10,
     message: '출석 체크 요청이 너무 많습니다. 잠시 후 다시 시도하세요.',
@@ -287,6 +211,7 @@ export const RateLimitPresets = {
 
   /** QR 코드 생성 API (20 req/hour) */
   qrGenerate: rateLimit({
+    prefix: 'qrGenerate',
     windowMs: 60 * 60 * 1000,
     maxRequests: 20,
     message: 'QR 코드 생성 횟수를 초과했습니다. 1시간 후 다시 시도하세요.',
@@ -294,6 +219,7 @@ export const RateLimitPresets = {
 
   /** 일반 API (100 req/min) */
   general: rateLimit({
+    prefix: 'general',
     windowMs: 60 * 1000,
     maxRequests: 100,
     message: '요청이 너무 많습니다. 잠시 후 다시 시도하세요.',
@@ -330,13 +256,23 @@ export function createUserBasedKeyGenerator(
 /**
  * 스토어 초기화 (테스트용)
  */
-export function resetRateLimitStore(): void {
-  globalStore.clear()
+export async function resetRateLimitStore(): Promise<void> {
+  await globalStore?.destroy()
+  await fallbackStore?.destroy()
+  globalStore = null
+  fallbackStore = null
+}
+
+/**
+ * 저장소 교체 (테스트용)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalStore = store
 }
 
 /**
  * 스토어 정리 (앱 종료 시)
  */
-export function destroyRateLimitStore(): void {
-  globalStore.destroy()
+export async function destroyRateLimitStore(): Promise<void> {
+  await resetRateLimitStore()
 }
@@ -0,0 +1,80 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import {
+  checkResetCode,
+  formatResetCode,
+  generateResetCode,
+  hashResetCode,
+  normalizeResetCode,
+  redeemPasswordResetCode
+} from './password-reset'
+
+const NOW = new Date('2025-03-04T01:00:00.000Z')
+
+test('generateResetCode avoids ambiguous characters and formats in groups of four', () => {
+  const code = generateResetCode()
+
+  assert.match(code, /^[A-HJ-NP-Z2-9]{8}$/)
+  assert.strictEqual(formatResetCode('abcd2345'), 'ABCD-2345')
+  assert.strictEqual(normalizeResetCode(' abcd-2345 '), 'ABCD2345')
+  assert.strictEqual(hashResetCode('abcd-2345'), hashResetCode('ABCD2345'))
+})
+
+test('checkResetCode accepts the issued code until it expires', () => {
+  const row = { code_hash: hashResetCode('ABCD2345'), expires_at: '2025-03-04T01:30:00.000Z', failed_attempts: 0 }
+
+  assert.strictEqual(checkResetCode(row, 'abcd-2345', NOW), 'valid')
+  assert.strictEqual(checkResetCode(row, 'ABCD2346', NOW), 'mismatch')
+  assert.strictEqual(checkResetCode(row, 'ABCD2345', new Date('2025-03-04T01:30:00.000Z')), 'expired')
+})
+
+test('checkResetCode locks the code after too many failed attempts', () => {
+  const row = { code_hash: hashResetCode('ABCD2345'), expires_at: '2025-03-04T01:30:00.000Z', failed_attempts: 5 }
+
+  assert.strictEqual(checkResetCode(row, 'ABCD2345', NOW), 'locked')
+})
+
+test('redeemPasswordResetCode marks the code used only after the password update succeeds', async () => {
+  const updates: Array<[string, Record<string, unknown>]> = []
+  let passwordUpdateError: { message: string } | null = { message: 'connection reset' }
+  const row = {
+    id: 'code-1',
+    code_hash: hashResetCode('ABCD2345'),
+    expires_at: new Date(NOW.getTime() + 60_000).toISOString(),
+    failed_attempts: 0
+  }
+  const supabase = {
+    from(table: string) {
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        is: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        maybeSingle: () => Promise.resolve({ data: row, error: null }),
+        update(values: Record<string, unknown>) {
+          updates.push([table, values])
+          return builder
+        },
+        then(resolve: (result: { error: unknown }) => void) {
+          resolve({ error: table === 'students' ? passwordUpdateError : null })
+        }
+      }
+      return builder
+    }
+  } as unknown as SupabaseClient<Database>
+  const target = { userType: 'student' as const, userId: '2024001' }
+
+  const failed = await redeemPasswordResetCode(supabase, target, 'abcd-2345', 'new-password-1', NOW)
+  assert.strictEqual(failed.ok, false)
+  assert.deepStrictEqual(updates.map(([table]) => table), ['students'])
+
+  // 같은 코드로 다시 시도하면 성공하고, 그때 사용 처리
+  passwordUpdateError = null
+  const redeemed = await redeemPasswordResetCode(supabase, target, 'abcd-2345', 'new-password-1', NOW)
+  assert.deepStrictEqual(redeemed, { ok: true, codeId: 'code-1' })
+  assert.deepStrictEqual(updates.map(([table]) => table), ['students', 'students', 'password_reset_codes'])
+  assert.deepStrictEqual(updates[2][1], { used_at: NOW.toISOString() })
+})
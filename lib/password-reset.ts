@@ -0,0 +1,252 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { hashPassword, type UserRole } from '@/lib/auth'
+import { PASSWORD_RESET_CONFIG } from '@/lib/config/auth-config'
+
+/**
+ * 비밀번호 재설정 코드
+ *
+ * 이메일 발송 없이 교수(담당 강의 수강생) 또는 관리자가 1회용 코드를 발급하고,
+ * 사용자는 아이디 + 코드 + 새 비밀번호로 비밀번호를 재설정합니다.
+ * 코드는 해시만 저장하며, 사용자별로 가장 최근에 발급한 코드 하나만 유효합니다.
+ */
+
+type PasswordResetCodeRow = Database['public']['Tables']['password_reset_codes']['Row']
+
+// 관리자 계정은 재설정 코드 대상이 아님 (다른 관리자가 직접 변경)
+export type PasswordResetUserType = 'student' | 'professor'
+export type PasswordResetCodeState = 'valid' | 'expired' | 'locked' | 'mismatch'
+
+export interface PasswordResetTarget {
+  userId: string
+  userType: PasswordResetUserType
+}
+
+export type PasswordResetRedeemResult =
+  | { ok: true; codeId: string }
+  | { ok: false; reason: 'invalid_code' | 'expired' | 'locked' | 'error'; error?: unknown }
+
+// 혼동하기 쉬운 0/O, 1/I 제외
+const RESET_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+const RESET_CODE_COLUMNS = 'id, user_id, user_type, code_hash, issued_by, issued_by_type, expires_at, failed_attempts, used_at, invalidated_at, created_at'
+
+export function generateResetCode(length: number = PASSWORD_RESET_CONFIG.codeLength): string {
+  let code = ''
+  for (let i = 0; i < length; i++) {
+    code += RESET_CODE_ALPHABET[randomInt(RESET_CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+/**
+ * 입력한 코드 정규화 (대소문자, 공백, 하이픈 무시)
+ */
+export function normalizeResetCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+/**
+ * 전달하기 쉽게 4자리씩 끊어 표시 (ABCD-EFGH)
+ */
+export function formatResetCode(code: string): string {
+  return normalizeResetCode(code).match(/.{1,4}/g)?.join('-') ?? ''
+}
+
+export function hashResetCode(code: string): string {
+  return createHash('sha256').update(normalizeResetCode(code)).digest('hex')
+}
+
+/**
+ * 저장된 코드와 입력한 코드 비교 (잠금 > 만료 > 불일치 순)
+ */
+export function checkResetCode(
+  row: Pick<PasswordResetCodeRow, 'code_hash' | 'expires_at' | 'failed_attempts'>,
+  code: string,
+  now: Date = new Date()
+): PasswordResetCodeState {
+  if (row.failed_attempts >= PASSWORD_RESET_CONFIG.maxFailedAttempts) {
+    return 'locked'
+  }
+  if (new Date(row.expires_at).getTime() <= now.getTime()) {
+    return 'expired'
+  }
+
+  const expected = Buffer.from(row.code_hash, 'hex')
+  const actual = Buffer.from(hashResetCode(code), 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? 'valid' : 'mismatch'
+}
+
+/**
+ * 재설정 대상 계정 존재 여부
+ */
+export async function passwordResetTargetExists(
+  supabase: SupabaseClient<Database>,
+  target: PasswordResetTarget
+): Promise<boolean> {
+  const query = target.userType === 'student'
+    ? supabase.from('students').select('student_id').eq('student_id', target.userId)
+    : supabase.from('professors').select('professor_id').eq('professor_id', target.userId)
+
+  const { data, error } = await query.maybeSingle()
+  if (error) {
+    throw error
+  }
+  return Boolean(data)
+}
+
+/**
+ * 교수가 해당 학생의 코드를 발급할 수 있는지 (담당 강의 수강생만)
+ */
+export async function isStudentOfProfessor(
+  supabase: SupabaseClient<Database>,
+  professorId: string,
+  studentId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('course_enrollments')
+    .select('course_id, courses!inner(professor_id)')
+    .eq('student_id', studentId)
+    .eq('courses.professor_id', professorId)
+    .limit(1)
+  if (error) {
+    throw error
+  }
+  return (data ?? []).length > 0
+}
+
+/**
+ * 재설정 코드 발급 (이전에 발급한 미사용 코드는 무효화)
+ *
+ * 반환하는 코드 원문은 저장되지 않으므로 발급자에게 한 번만 보여줍니다.
+ */
+export async function issuePasswordResetCode(
+  supabase: SupabaseClient<Database>,
+  target: PasswordResetTarget,
+  issuer: { issuedBy: string; issuedByType: 'professor' | 'admin' },
+  now: Date = new Date()
+): Promise<{ code: string; expiresAt: string }> {
+  const { error: invalidateError } = await supabase
+    .from('password_reset_codes')
+    .update({ invalidated_at: now.toISOString() })
+    .eq('user_type', target.userType)
+    .eq('user_id', target.userId)
+    .is('used_at', null)
+    .is('invalidated_at', null)
+  if (invalidateError) {
+    throw invalidateError
+  }
+
+  const code = generateResetCode()
+  const expiresAt = new Date(now.getTime() + PASSWORD_RESET_CONFIG.codeTtlMinutes * 60 * 1000).toISOString()
+
+  const { error } = await supabase
+    .from('password_reset_codes')
+    .insert({
+      user_id: target.userId,
+      user_type: target.userType,
+      code_hash: hashResetCode(code),
+      issued_by: issuer.issuedBy,
+      issued_by_type: issuer.issuedByType,
+      expires_at: expiresAt,
+      created_at: now.toISOString()
+    })
+  if (error) {
+    throw error
+  }
+
+  return { code: formatResetCode(code), expiresAt }
+}
+
+/**
+ * 재설정 코드로 비밀번호 재설정
+ *
+ * 틀린 코드는 실패 횟수를 늘리고, 한도에 도달하면 코드를 무효화합니다.
+ * 비밀번호를 먼저 바꾼 뒤 코드를 사용 처리하므로, 비밀번호 갱신이 실패해도 같은 코드로 다시 시도할 수 있습니다.
+ */
+export async function redeemPasswordResetCode(
+  supabase: SupabaseClient<Database>,
+  target: PasswordResetTarget,
+  code: string,
+  newPassword: string,
+  now: Date = new Date()
+): Promise<PasswordResetRedeemResult> {
+  const { data: row, error } = await supabase
+    .from('password_reset_codes')
+    .select(RESET_CODE_COLUMNS)
+    .eq('user_type', target.userType)
+    .eq('user_id', target.userId)
+    .is('used_at', null)
+    .is('invalidated_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    return { ok: false, reason: 'error', error }
+  }
+  if (!row) {
+    return { ok: false, reason: 'invalid_code' }
+  }
+
+  const state = checkResetCode(row, code, now)
+  if (state === 'expired' || state === 'locked') {
+    return { ok: false, reason: state }
+  }
+
+  if (state === 'mismatch') {
+    const failedAttempts = row.failed_attempts + 1
+    const locked = failedAttempts >= PASSWORD_RESET_CONFIG.maxFailedAttempts
+    const { error: updateError } = await supabase
+      .from('password_reset_codes')
+      .update({
+        failed_attempts: failedAttempts,
+        ...(locked && { invalidated_at: now.toISOString() })
+      })
+      .eq('id', row.id)
+    if (updateError) {
+      return { ok: false, reason: 'error', error: updateError }
+    }
+    return { ok: false, reason: locked ? 'locked' : 'invalid_code' }
+  }
+
+  try {
+    await updateUserPassword(supabase, target, newPassword, now)
+  } catch (updateError) {
+    return { ok: false, reason: 'error', error: updateError }
+  }
+
+  // 비밀번호가 바뀐 뒤에만 사용 처리 (동시 요청이 먼저 처리했으면 이미 사용된 코드)
+  const { error: claimError } = await supabase
+    .from('password_reset_codes')
+    .update({ used_at: now.toISOString() })
+    .eq('id', row.id)
+    .is('used_at', null)
+  if (claimError) {
+    return { ok: false, reason: 'error', error: claimError }
+  }
+
+  return { ok: true, codeId: row.id }
+}
+
+/**
+ * 비밀번호 해시 갱신
+ */
+export async function updateUserPassword(
+  supabase: SupabaseClient<Database>,
+  target: { userId: string; userType: UserRole },
+  newPassword: string,
+  now: Date = new Date()
+): Promise<void> {
+  const passwordHash = await hashPassword(newPassword)
+  const update = { password_hash: passwordHash, updated_at: now.toISOString() }
+
+  const { error } = target.userType === 'student'
+    ? await supabase.from('students').update(update).eq('student_id', target.userId)
+    : target.userType === 'professor'
+      ? await supabase.from('professors').update(update).eq('professor_id', target.userId)
+      : await supabase.from('admins').update(update).eq('admin_id', target.userId)
+  if (error) {
+    throw error
+  }
+}
@@ -17,6 +17,8 @@ export interface HeadingEstimatorConfig {
   enableMagnetometer?: boolean
   /** 지자기 센서 보정 주기 (ms, 기본 1000) */
   magnetometerCalibrationInterval?: number
+  /** 현재 시각 (ms, 기본 Date.now, 센서 기록 재생 시 기록 시각 주입) */
+  now?: () => number
 }
 
 /**
@@ -45,8 +47,8 @@ export class HeadingEstimator {
   private currentHeading: number
 
   // 마지막 업데이트 시간
-  private lastUpdateTime: number = Date.now()
-  private lastMagnetometerCalibration: number = Date.now()
+  private lastUpdateTime: number
+  private lastMagnetometerCalibration: number
 
   // Gyroscope drift 보정
   private gyroDriftRate = 0  // 라디안/초
@@ -61,17 +63,20 @@ export class HeadingEstimator {
       initialHeading: config.initialHeading ?? 0,
       gyroWeight: config.gyroWeight ?? 0.99, // 자이로스코프 신뢰도 상향 (0.98 -> 0.99)
       enableMagnetometer: config.enableMagnetometer ?? true,
-      magnetometerCalibrationInterval: config.magnetometerCalibrationInterval ?? 1000
+      magnetometerCalibrationInterval: config.magnetometerCalibrationInterval ?? 1000,
+      now: config.now ?? Date.now
     }
 
     this.currentHeading = this.config.initialHeading
+    this.lastUpdateTime = this.config.now()
+    this.lastMagnetometerCalibration = this.config.now()
   }
 
   /**
    * 자이로스코프 데이터로 방향 업데이트 (상대 회전)
    */
   updateFromGyroscope(rotationRate: RotationRateData): HeadingInfo {
-    const now = Date.now()
+    const now = this.config.now()
     const dt = (now - this.lastUpdateTime) / 1000  // 초 단위
 
     // Z축 회전 (yaw, 수평 방향)만 사용
@@ -110,7 +115,7 @@ export class HeadingEstimator {
       return null
     }
 
-    const now = Date.now()
+    const now = this.config.now()
     const timeSinceLastCalibration = now - this.lastMagnetometerCalibration
 
     // 보정 주기 확인
@@ -206,7 +211,7 @@ export class HeadingEstimator {
    * 시간 경과에 따라 drift로 인해 신뢰도 감소
    */
   private calculateGyroscopeConfidence(dt: number): number {
-    const timeSinceCalibration = (Date.now() - this.lastMagnetometerCalibration) / 1000
+    const timeSinceCalibration = (this.config.now() - this.lastMagnetometerCalibration) / 1000
 
     // 1분 후 신뢰도 50%까지 감소
     const confidenceDecay = Math.exp(-timeSinceCalibration / 60)
@@ -270,7 +275,7 @@ export class HeadingEstimator {
     timeSinceCalibration: number
     confidence: number
   } {
-    const timeSinceCalibration = (Date.now() - this.lastMagnetometerCalibration) / 1000
+    const timeSinceCalibration = (this.config.now() - this.lastMagnetometerCalibration) / 1000
 
     return {
       currentHeading: this.currentHeading,
@@ -286,7 +291,7 @@ export class HeadingEstimator {
    */
   setHeading(heading: number): void {
     this.currentHeading = this.normalizeAngle(heading)
-    this.lastMagnetometerCalibration = Date.now()
+    this.lastMagnetometerCalibration = this.config.now()
   }
 
   /**
@@ -301,8 +306,8 @@ export class HeadingEstimator {
    */
   reset(initialHeading?: number): void {
     this.currentHeading = initialHeading ?? this.config.initialHeading
-    this.lastUpdateTime = Date.now()
-    this.lastMagnetometerCalibration = Date.now()
+    this.lastUpdateTime = this.config.now()
+    this.lastMagnetometerCalibration = this.config.now()
     this.gyroDriftRate = 0
     this.driftHistory = []
     this.headingHistory = []
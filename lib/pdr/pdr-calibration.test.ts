@@ -0,0 +1,80 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { SensorTraceRecorder, type SensorTrace } from '@/lib/sensors/sensor-trace'
+import { replaySensorTrace } from '@/lib/fusion/trace-replay'
+import { calibratePDR, parsePDRCalibration, toPDRTrackerConfig } from './pdr-calibration'
+
+const origin = { lat: 37.5665, lng: 126.978 }
+const startedAt = 1741050000000
+
+/**
+ * 초당 2걸음, 50Hz 로 걷는 합성 기록
+ * bump 를 주면 걸음 사이에 작은 흔들림(가짜 peak)이 섞임
+ */
+function syntheticWalk(seconds: number, { amplitude = 6, bump = 0 } = {}): SensorTrace {
+  const recorder = new SensorTraceRecorder({ startedAt, origin }, 100_000, () => startedAt)
+  const hz = 50
+  for (let i = 0; i <= hz * seconds; i++) {
+    const t = startedAt + Math.round((i * 1000) / hz)
+    const phase = (i / hz) * 2 * 2 * Math.PI
+    const pulse = Math.pow(Math.max(0, Math.sin(phase)), 8)
+    const wobble = Math.pow(Math.max(0, -Math.sin(phase)), 8)
+    recorder.recordSensor(
+      {
+        acceleration: { x: 0, y: 0, z: 9.8 + amplitude * pulse + bump * wobble, timestamp: t },
+        rotation: { alpha: 0, beta: 0, gamma: 0 }
+      },
+      t
+    )
+  }
+  return recorder.getTrace()
+}
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, warn } = console
+  console.log = () => {}
+  console.warn = () => {}
+  try {
+    return await run()
+  } finally {
+    console.log = log
+    console.warn = warn
+  }
+}
+
+test('calibratePDR fits K so that replaying the walk reproduces the walked distance', async () => {
+  const trace = syntheticWalk(15)
+  const calibration = calibratePDR(trace, 24, () => startedAt)
+
+  assert.strictEqual(calibration.steps, 30)
+  assert.ok(Math.abs(calibration.averageStepLength - 0.8) < 1e-9)
+  assert.ok(Math.abs(calibration.cadence - 2) < 0.05, `cadence ${calibration.cadence}`)
+
+  const uncalibrated = await quietly(() => replaySensorTrace(trace, { pdrOnly: true }))
+  const calibrated = await quietly(() =>
+    replaySensorTrace(trace, { pdrOnly: true, fusion: { pdrConfig: toPDRTrackerConfig(calibration) } })
+  )
+
+  assert.ok(Math.abs(uncalibrated.distance - 24) > 2, `uncalibrated ${uncalibrated.distance}`)
+  assert.ok(Math.abs(calibrated.distance - 24) < 0.5, `calibrated ${calibrated.distance}`)
+})
+
+test('calibratePDR raises the step threshold above mid-stride wobble', () => {
+  const trace = syntheticWalk(15, { bump: 4.5 })
+  const calibration = calibratePDR(trace, 20, () => startedAt)
+
+  assert.strictEqual(calibration.steps, 30)
+  assert.ok(calibration.stepThreshold > 9.8 + 4.5, `threshold ${calibration.stepThreshold}`)
+  assert.ok(calibration.stepThreshold < 9.8 + 6, `threshold ${calibration.stepThreshold}`)
+})
+
+test('calibratePDR rejects walks without regular steps and stored values out of range', () => {
+  assert.throws(() => calibratePDR(syntheticWalk(15, { amplitude: 0 }), 20), /규칙적인 걸음/)
+  assert.throws(() => calibratePDR(syntheticWalk(15), 5), /보정 거리/)
+
+  const calibration = calibratePDR(syntheticWalk(15), 20, () => startedAt)
+  assert.deepStrictEqual(parsePDRCalibration(JSON.parse(JSON.stringify(calibration))), calibration)
+  assert.strictEqual(parsePDRCalibration({ ...calibration, weinbergK: 3 }), null)
+  assert.strictEqual(parsePDRCalibration({ ...calibration, calibratedAt: 'yesterday' }), null)
+  assert.deepStrictEqual(toPDRTrackerConfig(null), {})
+})
@@ -0,0 +1,219 @@
+/**
+ * PDR 사용자별 보정 (PDR Calibration)
+ * 거리를 아는 구간을 걸은 센서 기록으로 걸음 감지 임계값과 Weinberg K 를 맞춤
+ *
+ * 1. 걸음 감지 임계값: 가속도 크기 분포에서 고른 후보마다 StepDetector 를 다시 돌려
+ *    걸음 간격이 가장 규칙적인(변동계수가 가장 작은) 후보들의 가운데 값을 고릅니다.
+ * 2. Weinberg K: 고른 임계값으로 감지한 걸음마다 ⁴√(amax - amin) 을 구해
+ *    걸음 길이 합이 실제 걸은 거리가 되도록 K 를 정합니다.
+ *
+ * 가속도 범위는 PDRTracker 와 같은 방식(이전 걸음 이후 샘플의 최대/최소)으로 계산하므로
+ * 보정 값을 PDRTracker 에 넣으면 같은 기록에서 같은 거리가 나옵니다.
+ */
+
+import type { SensorTrace } from '@/lib/sensors/sensor-trace'
+import type { AccelerationData } from '@/lib/sensors/sensor-types'
+import { CALIBRATION_CONFIG, STEP_DETECTOR_CONFIG, WEINBERG_CONFIG } from '@/lib/config/pdr-config'
+import { PDRCalibrationSchema } from '@/lib/schemas/pdr'
+import { StepDetector } from './step-detector'
+import type { PDRTrackerConfig } from './pdr-tracker'
+
+/**
+ * 사용자별 PDR 보정 값 (students.pdr_calibration 에 저장)
+ */
+export interface PDRCalibration {
+  /** 걸음 감지 임계값 (중력 포함 가속도 크기, m/s²) */
+  stepThreshold: number
+  /** Weinberg 계수 K */
+  weinbergK: number
+  /** 보정 보행의 평균 걸음 길이 (m) */
+  averageStepLength: number
+  /** 보정 보행의 걸음 빈도 (steps/sec) */
+  cadence: number
+  /** 보정에 사용한 거리 (m) */
+  distance: number
+  /** 감지된 걸음 수 */
+  steps: number
+  /** 보정 시각 (ISO 8601) */
+  calibratedAt: string
+}
+
+/**
+ * 임계값 후보별 걸음 감지 결과
+ */
+interface ThresholdCandidate {
+  threshold: number
+  /** 걸음마다 ⁴√(amax - amin) */
+  roots: number[]
+  intervals: number[]
+  intervalCv: number
+  cadence: number
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function quantile(sorted: number[], q: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))
+  return sorted[index]
+}
+
+/**
+ * 기록을 StepDetector 에 다시 넣어 걸음을 감지 (PDRTracker.processSensorData 와 같은 순서)
+ */
+function detectSteps(samples: AccelerationData[], threshold: number): ThresholdCandidate {
+  const detector = new StepDetector({ ...STEP_DETECTOR_CONFIG, threshold })
+  const roots: number[] = []
+  const intervals: number[] = []
+  let accelerationMax = 0
+  let accelerationMin = Infinity
+
+  detector.onStep((step) => {
+    roots.push(Math.pow(Math.abs(accelerationMax - accelerationMin), 0.25))
+    if (step.intervalMs > 0) {
+      intervals.push(step.intervalMs)
+    }
+    accelerationMax = 0
+    accelerationMin = Infinity
+  })
+
+  for (const sample of samples) {
+    const magnitude = Math.sqrt(sample.x ** 2 + sample.y ** 2 + sample.z ** 2)
+    accelerationMax = Math.max(accelerationMax, magnitude)
+    accelerationMin = Math.min(accelerationMin, magnitude)
+    detector.processAcceleration(sample)
+  }
+
+  const averageInterval = mean(intervals)
+  const variance = mean(intervals.map((interval) => (interval - averageInterval) ** 2))
+  return {
+    threshold,
+    roots,
+    intervals,
+    intervalCv: averageInterval > 0 ? Math.sqrt(variance) / averageInterval : Infinity,
+    cadence: averageInterval > 0 ? 1000 / averageInterval : 0
+  }
+}
+
+/**
+ * 걸음 길이 합이 distance 가 되는 K (StepLengthEstimator 의 걸음 길이 제한 반영)
+ */
+function fitWeinbergK(roots: number[], distance: number): number {
+  const clamp = (length: number) =>
+    Math.max(WEINBERG_CONFIG.minStepLength, Math.min(WEINBERG_CONFIG.maxStepLength, length))
+
+  let k = distance / roots.reduce((sum, root) => sum + root, 0)
+  // 제한에 걸린 걸음이 있으면 나머지 걸음으로 차이를 메우도록 몇 번 반복
+  for (let i = 0; i < 5; i++) {
+    const estimated = roots.reduce((sum, root) => sum + clamp(k * root), 0)
+    if (Math.abs(estimated - distance) < 1e-3) break
+    k *= distance / estimated
+  }
+  return k
+}
+
+/**
+ * 걷기 기록으로 PDR 보정 값 계산
+ *
+ * @param trace - 보정 구간을 걸은 센서 기록 (sensor 레코드만 사용)
+ * @param distance - 실제 걸은 거리 (m)
+ * @throws 거리가 범위를 벗어나거나 규칙적인 걸음을 찾지 못한 경우
+ */
+export function calibratePDR(
+  trace: SensorTrace,
+  distance: number,
+  now: () => number = Date.now
+): PDRCalibration {
+  if (!Number.isFinite(distance) || distance < CALIBRATION_CONFIG.minDistance || distance > CALIBRATION_CONFIG.maxDistance) {
+    throw new Error(
+      `보정 거리는 ${CALIBRATION_CONFIG.minDistance}m 이상 ${CALIBRATION_CONFIG.maxDistance}m 이하여야 합니다`
+    )
+  }
+
+  // Generic Sensor API 의 timestamp 는 페이지 기준 시각이므로 기록 시각(t)으로 맞춤
+  const samples: AccelerationData[] = []
+  for (const record of trace.records) {
+    if (record.type === 'sensor') {
+      samples.push({ ...record.data.acceleration, timestamp: record.t })
+    }
+  }
+
+  const magnitudes = samples
+    .map((sample) => Math.sqrt(sample.x ** 2 + sample.y ** 2 + sample.z ** 2))
+    .sort((a, b) => a - b)
+  if (magnitudes.length === 0) {
+    throw new Error('보정 기록에 센서 데이터가 없습니다')
+  }
+
+  const low = quantile(magnitudes, 0.5)
+  const high = quantile(magnitudes, 0.98)
+  const count = CALIBRATION_CONFIG.thresholdCandidates
+  const thresholds: number[] = [STEP_DETECTOR_CONFIG.threshold]
+  for (let i = 0; i < count; i++) {
+    thresholds.push(low + ((high - low) * i) / (count - 1))
+  }
+
+  const candidates = thresholds
+    .map((threshold) => detectSteps(samples, threshold))
+    .filter((candidate) => {
+      const steps = candidate.roots.length
+      const stepLength = distance / steps
+      return steps >= CALIBRATION_CONFIG.minSteps &&
+        candidate.cadence >= CALIBRATION_CONFIG.minCadence &&
+        candidate.cadence <= CALIBRATION_CONFIG.maxCadence &&
+        stepLength >= WEINBERG_CONFIG.minStepLength &&
+        stepLength <= WEINBERG_CONFIG.maxStepLength
+    })
+
+  if (candidates.length === 0) {
+    throw new Error('규칙적인 걸음을 감지하지 못했습니다. 휴대폰을 든 채 일정한 속도로 다시 걸어 주세요')
+  }
+
+  const bestCv = Math.min(...candidates.map((candidate) => candidate.intervalCv))
+  const stable = candidates
+    .filter((candidate) => candidate.intervalCv <= bestCv + CALIBRATION_CONFIG.intervalCvTolerance)
+    .sort((a, b) => a.threshold - b.threshold)
+  const chosen = stable[Math.floor((stable.length - 1) / 2)]
+
+  const weinbergK = fitWeinbergK(chosen.roots, distance)
+  if (weinbergK < CALIBRATION_CONFIG.minK || weinbergK > CALIBRATION_CONFIG.maxK) {
+    throw new Error(`보정 결과가 정상 범위를 벗어났습니다 (K=${weinbergK.toFixed(3)}). 다시 걸어 주세요`)
+  }
+
+  return {
+    stepThreshold: chosen.threshold,
+    weinbergK,
+    averageStepLength: distance / chosen.roots.length,
+    cadence: chosen.cadence,
+    distance,
+    steps: chosen.roots.length,
+    calibratedAt: new Date(now()).toISOString()
+  }
+}
+
+/**
+ * 저장된 보정 값 검증 (DB JSON)
+ *
+ * @returns 형식이나 범위가 맞지 않으면 null
+ */
+export function parsePDRCalibration(value: unknown): PDRCalibration | null {
+  const result = PDRCalibrationSchema.safeParse(value)
+  return result.success ? result.data : null
+}
+
+/**
+ * 보정 값을 PDRTracker 설정으로 변환 (보정 값이 없으면 빈 설정)
+ */
+export function toPDRTrackerConfig(
+  calibration: PDRCalibration | null
+): Pick<PDRTrackerConfig, 'stepDetector' | 'stepLength'> {
+  if (!calibration) {
+    return {}
+  }
+
+  return {
+    stepDetector: { threshold: calibration.stepThreshold },
+    stepLength: { calibratedK: calibration.weinbergK }
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { UnifiedSensorManager } from '@/lib/sensors/sensor-manager'
-import type { SensorData } from '@/lib/sensors/sensor-types'
+import type { SensorData, PressureData } from '@/lib/sensors/sensor-types'
 
 import { StepDetector, type StepInfo, type StepDetectorConfig } from './step-detector'
 import { StepLengthEstimator, type StepLengthConfig } from './step-length-estimator'
@@ -22,6 +22,14 @@ export interface PDRTrackerConfig {
   heading?: HeadingEstimatorConfig
   /** 센서 샘플링 주파수 (Hz) */
   sensorFrequency?: number
+  /**
+   * 센서 입력 방식
+   * - 'device': 기기 센서를 직접 읽음 (기본값)
+   * - 'external': pushSensorData 로 넣어 준 데이터만 사용 (센서 기록 재생)
+   */
+  sensorInput?: 'device' | 'external'
+  /** 현재 시각 (ms, 기본 Date.now) */
+  now?: () => number
 }
 
 /**
@@ -110,6 +118,7 @@ export class PDRTracker {
   // 콜백
   private onPositionUpdateCallback: ((position: PDRPosition, delta: PDRDelta) => void) | null = null
   private onErrorCallback: ((error: Error) => void) | null = null
+  private onPressureCallback: ((pressure: PressureData) => void) | null = null
 
   // 추적 상태
   private isTracking = false
@@ -119,13 +128,15 @@ export class PDRTracker {
       stepDetector: config.stepDetector ?? {},
       stepLength: config.stepLength ?? {},
       heading: config.heading ?? {},
-      sensorFrequency: config.sensorFrequency ?? 60
+      sensorFrequency: config.sensorFrequency ?? 60,
+      sensorInput: config.sensorInput ?? 'device',
+      now: config.now ?? Date.now
     }
 
     // 구성 요소 초기화
     this.stepDetector = new StepDetector(this.config.stepDetector)
     this.stepLengthEstimator = new StepLengthEstimator(this.config.stepLength)
-    this.headingEstimator = new HeadingEstimator(this.config.heading)
+    this.headingEstimator = new HeadingEstimator({ now: this.config.now, ...this.config.heading })
 
     // 센서 관리자 초기화
     this.sensorManager = new UnifiedSensorManager({
@@ -140,6 +151,10 @@ export class PDRTracker {
    * PDR 초기화
    */
   async initialize(): Promise<boolean> {
+    if (this.config.sensorInput === 'external') {
+      return true
+    }
+
     try {
       const initialized = await this.sensorManager.initialize()
       if (!initialized) {
@@ -170,7 +185,7 @@ export class PDRTracker {
         y: initialPosition.y,
         heading: initialPosition.heading ?? 0,
         confidence: 1.0,
-        timestamp: Date.now()
+        timestamp: this.config.now()
       }
 
       if (initialPosition.heading !== undefined) {
@@ -178,14 +193,16 @@ export class PDRTracker {
       }
     }
 
-    this.startTime = Date.now()
+    this.startTime = this.config.now()
     this.totalDistance = 0
 
-    // 센서 추적 시작
-    this.sensorManager.startTracking(
-      (data) => this.processSensorData(data),
-      (error) => this.handleError(error)
-    )
+    // 센서 추적 시작 (외부 입력이면 pushSensorData 로 받음)
+    if (this.config.sensorInput === 'device') {
+      this.sensorManager.startTracking(
+        (data) => this.processSensorData(data),
+        (error) => this.handleError(error)
+      )
+    }
 
     this.isTracking = true
     console.log('✅ PDR 추적 시작')
@@ -197,12 +214,22 @@ export class PDRTracker {
   stopTracking(): void {
     if (!this.isTracking) return
 
-    this.sensorManager.stopTracking()
+    if (this.config.sensorInput === 'device') {
+      this.sensorManager.stopTracking()
+    }
     this.isTracking = false
 
     console.log('⏸️ PDR 추적 중지')
   }
 
+  /**
+   * 외부 센서 데이터 입력 (sensorInput: 'external', 추적 중일 때만 처리)
+   */
+  pushSensorData(data: SensorData): void {
+    if (!this.isTracking) return
+    this.processSensorData(data)
+  }
+
   /**
    * 센서 데이터 처리
    */
@@ -229,6 +256,11 @@ export class PDRTracker {
     if (data.magnetometer) {
       this.headingEstimator.calibrateFromMagnetometer(data.magnetometer)
     }
+
+    // 5. 기압 측정 전달 (층 추적용)
+    if (data.pressure) {
+      this.onPressureCallback?.(data.pressure)
+    }
   }
 
   /**
@@ -292,6 +324,13 @@ export class PDRTracker {
     this.onErrorCallback = callback
   }
 
+  /**
+   * 기압 측정 콜백 등록
+   */
+  onPressure(callback: (pressure: PressureData) => void): void {
+    this.onPressureCallback = callback
+  }
+
   /**
    * 에러 처리
    */
@@ -314,7 +353,7 @@ export class PDRTracker {
    * 통계 반환
    */
   getStatistics(): PDRStatistics {
-    const elapsedTime = (Date.now() - this.startTime) / 1000  // 초 단위
+    const elapsedTime = (this.config.now() - this.startTime) / 1000  // 초 단위
 
     return {
       totalSteps: this.stepDetector.getStepCount(),
@@ -335,7 +374,7 @@ export class PDRTracker {
       y: position.y,
       heading: position.heading ?? this.currentPosition.heading,
       confidence: 1.0,  // 재보정 시 신뢰도 리셋
-      timestamp: Date.now()
+      timestamp: this.config.now()
     }
 
     if (position.heading !== undefined) {
@@ -360,7 +399,7 @@ export class PDRTracker {
       y: 0,
       heading: 0,
       confidence: 1.0,
-      timestamp: Date.now()
+      timestamp: this.config.now()
     }
 
     this.totalDistance = 0
@@ -379,6 +418,7 @@ export class PDRTracker {
     this.sensorManager.destroy()
     this.onPositionUpdateCallback = null
     this.onErrorCallback = null
+    this.onPressureCallback = null
 
     console.log('🧹 PDR 추적기 정리 완료')
   }
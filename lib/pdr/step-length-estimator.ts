@@ -11,6 +11,8 @@ export interface StepLengthConfig {
   userHeight?: number
   /** Weinberg 계수 K (기본 0.43) */
   weinbergK?: number
+  /** 걷기 보정으로 구한 사용자별 Weinberg 계수 K (있으면 키 기반 K 보다 우선) */
+  calibratedK?: number | null
   /** 고정 걸음 길이 (m, fallback 용) */
   fixedStepLength?: number
   /** 추정 방법 */
@@ -33,7 +35,7 @@ export interface StepLengthInfo {
  * 걸음 길이 추정기 클래스
  */
 export class StepLengthEstimator {
-  private config: Required<StepLengthConfig>
+  private config: Required<Omit<StepLengthConfig, 'calibratedK'>> & Pick<StepLengthConfig, 'calibratedK'>
 
   // 적응형 추정을 위한 히스토리
   private lengthHistory: number[] = []
@@ -44,7 +46,8 @@ export class StepLengthEstimator {
       userHeight: config.userHeight ?? 170,  // 평균 성인 키
       weinbergK: config.weinbergK ?? 0.43,
       fixedStepLength: config.fixedStepLength ?? 0.65,  // 평균 성인 걸음 길이
-      method: config.method ?? 'weinberg'
+      method: config.method ?? 'weinberg',
+      calibratedK: config.calibratedK ?? null
     }
   }
 
@@ -72,10 +75,15 @@ export class StepLengthEstimator {
   }
 
   /**
-   * 사용자 키 기반 Weinberg K 계산
+   * Weinberg K 계산
+   * 보정 값이 있으면 그대로 사용하고, 없으면 사용자 키 기반 경험적 공식 사용
    * 경험적 공식: K = 0.37 + (height - 170) × 0.0003
    */
   private calculateWeinbergK(): number {
+    if (this.config.calibratedK) {
+      return this.config.calibratedK
+    }
+
     if (!this.config.userHeight) {
       return this.config.weinbergK
     }
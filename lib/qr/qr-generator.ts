@@ -16,6 +16,8 @@ export interface QRCodeData {
   expiresAt: string
   type: 'attendance'
   baseUrl?: string
+  /** 서버가 서명한 회전 토큰 (lib/qr/qr-token.ts) */
+  token?: string
 }
 
 export class QRCodeGenerator {
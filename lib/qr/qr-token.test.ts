@@ -0,0 +1,97 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { SignJWT } from 'jose'
+import { getQRTimeStep, signCheckInTicket, signQRToken, verifyCheckInTicket, verifyQRToken } from './qr-token'
+
+const SESSION_ID = '11111111-1111-4111-8111-111111111111'
+const COURSE_ID = '22222222-2222-4222-8222-222222222222'
+const NOW = Date.parse('2025-03-04T00:00:05.000Z')
+const STEP_MS = 15 * 1000
+
+test('signQRToken signs the current time step', async () => {
+  const signed = await signQRToken(SESSION_ID, COURSE_ID, NOW)
+  assert.strictEqual(signed.step, getQRTimeStep(NOW))
+  assert.strictEqual(signed.rotationSeconds, 15)
+  assert.strictEqual(signed.rotatesAt, new Date((signed.step + 1) * STEP_MS).toISOString())
+})
+
+test('verifyQRToken accepts the current and previous step', async () => {
+  const { token } = await signQRToken(SESSION_ID, COURSE_ID, NOW)
+
+  const current = await verifyQRToken(token, SESSION_ID, NOW + 1000)
+  assert.strictEqual(current.valid, true)
+
+  const previous = await verifyQRToken(token, SESSION_ID, NOW + STEP_MS)
+  assert.strictEqual(previous.valid, true)
+})
+
+test('verifyQRToken rejects tokens older than the allowed window', async () => {
+  const { token } = await signQRToken(SESSION_ID, COURSE_ID, NOW)
+  const result = await verifyQRToken(token, SESSION_ID, NOW + STEP_MS * 3)
+  assert.deepStrictEqual(result.valid ? null : result.reason, 'stale_step')
+})
+
+test('verifyQRToken rejects tokens from the future', async () => {
+  const { token } = await signQRToken(SESSION_ID, COURSE_ID, NOW + STEP_MS * 2)
+  const result = await verifyQRToken(token, SESSION_ID, NOW)
+  assert.deepStrictEqual(result.valid ? null : result.reason, 'future_step')
+})
+
+test('verifyQRToken rejects tokens issued for another session', async () => {
+  const { token } = await signQRToken(SESSION_ID, COURSE_ID, NOW)
+  const result = await verifyQRToken(token, '33333333-3333-4333-8333-333333333333', NOW)
+  assert.deepStrictEqual(result.valid ? null : result.reason, 'session_mismatch')
+})
+
+test('verifyQRToken rejects tokens signed with another secret', async () => {
+  const forged = await new SignJWT({ sid: SESSION_ID, cid: COURSE_ID, stp: getQRTimeStep(NOW) })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuer('attendance-app')
+    .setAudience('attendance-qr')
+    .sign(new TextEncoder().encode('forged-secret'))
+
+  const result = await verifyQRToken(forged, SESSION_ID, NOW)
+  assert.deepStrictEqual(result.valid ? null : result.reason, 'invalid_signature')
+
+  const garbage = await verifyQRToken('not-a-token', SESSION_ID, NOW)
+  assert.deepStrictEqual(garbage.valid ? null : garbage.reason, 'malformed')
+})
+
+test('a check-in ticket exchanged at scan time outlives the QR rotation window', async () => {
+  const { token } = await signQRToken(SESSION_ID, COURSE_ID, NOW)
+  const verified = await verifyQRToken(token, SESSION_ID, NOW + 2000)
+  assert.ok(verified.valid)
+
+  const signed = await signCheckInTicket(verified.claims, '20250001', NOW + 2000)
+  assert.strictEqual(signed.scannedAt, new Date(NOW + 2000).toISOString())
+
+  // 느린 실내 GPS 측정(약 1분) 뒤: QR 토큰은 회전했지만 티켓은 유효, 스캔 시각은 교환 시각
+  const later = NOW + 62 * 1000
+  const stale = await verifyQRToken(token, SESSION_ID, later)
+  assert.deepStrictEqual(stale.valid ? null : stale.reason, 'stale_step')
+
+  const ticket = await verifyCheckInTicket(signed.ticket, SESSION_ID, '20250001', later)
+  assert.ok(ticket.valid)
+  assert.strictEqual(ticket.claims.scannedAt.toISOString(), signed.scannedAt)
+  assert.strictEqual(ticket.claims.step, verified.claims.step)
+})
+
+test('verifyCheckInTicket rejects other students, other sessions and expired tickets', async () => {
+  const verified = await verifyQRToken((await signQRToken(SESSION_ID, COURSE_ID, NOW)).token, SESSION_ID, NOW)
+  assert.ok(verified.valid)
+  const { ticket } = await signCheckInTicket(verified.claims, '20250001', NOW)
+
+  const otherStudent = await verifyCheckInTicket(ticket, SESSION_ID, '20250002', NOW)
+  assert.deepStrictEqual(otherStudent.valid ? null : otherStudent.reason, 'student_mismatch')
+
+  const otherSession = await verifyCheckInTicket(ticket, '33333333-3333-4333-8333-333333333333', '20250001', NOW)
+  assert.deepStrictEqual(otherSession.valid ? null : otherSession.reason, 'session_mismatch')
+
+  // 기본 유효 시간 180초
+  const expired = await verifyCheckInTicket(ticket, SESSION_ID, '20250001', NOW + 181 * 1000)
+  assert.deepStrictEqual(expired.valid ? null : expired.reason, 'expired')
+
+  // QR 토큰을 티켓으로 쓸 수 없음
+  const qrAsTicket = await verifyCheckInTicket((await signQRToken(SESSION_ID, COURSE_ID, NOW)).token, SESSION_ID, '20250001', NOW)
+  assert.strictEqual(qrAsTicket.valid, false)
+})
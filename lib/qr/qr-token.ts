@@ -0,0 +1,256 @@
+import { jwtVerify, SignJWT, errors as joseErrors } from 'jose'
+import { QR_ROTATION_CONFIG } from '@/lib/config/attendance-config'
+import { getJwtSecretKey } from '@/lib/config/auth-config'
+import type { QRCodeData } from './qr-generator'
+
+/**
+ * 출석 QR 서명 토큰 (서버 전용)
+ *
+ * QR에는 세션 정보와 함께 HS256 JWS 토큰이 담기며, 토큰은 TOTP처럼
+ * `floor(now / rotationSeconds)` 타임스텝마다 새로 서명됩니다.
+ * 체크인 시 서명과 타임스텝을 모두 검증하므로 캡처된 QR 이미지는 몇 초 안에 무효가 됩니다.
+ *
+ * 위치 측정은 스캔 뒤에 수십 초가 걸릴 수 있으므로, 앱은 스캔 직후 QR 토큰을 학생에게 묶인
+ * 체크인 티켓으로 교환하고 체크인 요청에는 티켓을 보냅니다. 티켓에는 교환 시각(서버 시계)이 스캔 시각으로 서명됩니다.
+ */
+
+const QR_TOKEN_ISSUER = 'attendance-app'
+const QR_TOKEN_AUDIENCE = 'attendance-qr'
+const CHECKIN_TICKET_AUDIENCE = 'attendance-checkin-ticket'
+
+function getQRSecret(): Uint8Array {
+  const secret = process.env.QR_CODE_SECRET
+  return secret ? new TextEncoder().encode(secret) : getJwtSecretKey()
+}
+
+export interface QRTokenClaims {
+  sessionId: string
+  courseId: string
+  step: number
+}
+
+export interface SignedQRToken {
+  token: string
+  step: number
+  rotationSeconds: number
+  /** 다음 타임스텝이 시작되는 시각 (ISO) */
+  rotatesAt: string
+}
+
+export type QRTokenFailureReason =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'session_mismatch'
+  | 'stale_step'
+  | 'future_step'
+
+export type QRTokenVerification =
+  | { valid: true; claims: QRTokenClaims; currentStep: number }
+  | { valid: false; reason: QRTokenFailureReason; claims?: QRTokenClaims; currentStep: number }
+
+export interface CheckInTicketClaims {
+  sessionId: string
+  studentId: string
+  /** 교환한 QR 토큰의 타임스텝 */
+  step: number
+  /** 티켓 교환 시각 (서버 시계, 스캔 시각으로 사용) */
+  scannedAt: Date
+}
+
+export interface SignedCheckInTicket {
+  ticket: string
+  scannedAt: string
+  expiresAt: string
+}
+
+export type CheckInTicketFailureReason =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'session_mismatch'
+  | 'student_mismatch'
+  | 'expired'
+
+export type CheckInTicketVerification =
+  | { valid: true; claims: CheckInTicketClaims }
+  | { valid: false; reason: CheckInTicketFailureReason }
+
+/**
+ * 주어진 시각의 QR 타임스텝 계산
+ */
+export function getQRTimeStep(now: number = Date.now(), rotationSeconds: number = QR_ROTATION_CONFIG.rotationSeconds): number {
+  return Math.floor(now / (rotationSeconds * 1000))
+}
+
+/**
+ * 현재 타임스텝으로 세션 QR 토큰 서명
+ */
+export async function signQRToken(
+  sessionId: string,
+  courseId: string,
+  now: number = Date.now()
+): Promise<SignedQRToken> {
+  const rotationSeconds = QR_ROTATION_CONFIG.rotationSeconds
+  const step = getQRTimeStep(now, rotationSeconds)
+  const stepEndsAt = (step + 1) * rotationSeconds * 1000
+  const lastAcceptedAt = stepEndsAt + QR_ROTATION_CONFIG.allowedPastSteps * rotationSeconds * 1000
+
+  const token = await new SignJWT({ sid: sessionId, cid: courseId, stp: step })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt(Math.floor(now / 1000))
+    .setExpirationTime(Math.ceil(lastAcceptedAt / 1000))
+    .setIssuer(QR_TOKEN_ISSUER)
+    .setAudience(QR_TOKEN_AUDIENCE)
+    .sign(getQRSecret())
+
+  return {
+    token,
+    step,
+    rotationSeconds,
+    rotatesAt: new Date(stepEndsAt).toISOString()
+  }
+}
+
+/**
+ * QR 토큰 서명 및 타임스텝 검증
+ *
+ * 현재 타임스텝과 직전 `allowedPastSteps` 개 타임스텝만 허용합니다.
+ * 토큰의 exp도 같은 허용 구간 끝으로 서명되므로 만료된 토큰은 stale_step 으로 분류합니다.
+ */
+export async function verifyQRToken(
+  token: string,
+  expectedSessionId: string,
+  now: number = Date.now()
+): Promise<QRTokenVerification> {
+  const currentStep = getQRTimeStep(now)
+
+  let payload: Record<string, unknown>
+  try {
+    const verified = await jwtVerify(token, getQRSecret(), {
+      issuer: QR_TOKEN_ISSUER,
+      audience: QR_TOKEN_AUDIENCE,
+      algorithms: ['HS256'],
+      currentDate: new Date(now)
+    })
+    payload = verified.payload as Record<string, unknown>
+  } catch (error) {
+    if (error instanceof joseErrors.JWTExpired) {
+      return { valid: false, reason: 'stale_step', currentStep }
+    }
+    const reason = error instanceof joseErrors.JWSSignatureVerificationFailed ? 'invalid_signature' : 'malformed'
+    return { valid: false, reason, currentStep }
+  }
+
+  if (typeof payload.sid !== 'string' || typeof payload.cid !== 'string' || !Number.isInteger(payload.stp)) {
+    return { valid: false, reason: 'malformed', currentStep }
+  }
+
+  const claims: QRTokenClaims = {
+    sessionId: payload.sid,
+    courseId: payload.cid,
+    step: payload.stp as number
+  }
+
+  if (claims.sessionId !== expectedSessionId) {
+    return { valid: false, reason: 'session_mismatch', claims, currentStep }
+  }
+
+  if (claims.step > currentStep) {
+    return { valid: false, reason: 'future_step', claims, currentStep }
+  }
+
+  if (currentStep - claims.step > QR_ROTATION_CONFIG.allowedPastSteps) {
+    return { valid: false, reason: 'stale_step', claims, currentStep }
+  }
+
+  return { valid: true, claims, currentStep }
+}
+
+/**
+ * 검증된 QR 토큰을 학생 전용 체크인 티켓으로 교환
+ */
+export async function signCheckInTicket(
+  qrClaims: QRTokenClaims,
+  studentId: string,
+  now: number = Date.now()
+): Promise<SignedCheckInTicket> {
+  const expiresAt = now + QR_ROTATION_CONFIG.checkInTicketSeconds * 1000
+
+  const ticket = await new SignJWT({ sid: qrClaims.sessionId, stp: qrClaims.step, sat: now })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(studentId)
+    .setIssuedAt(Math.floor(now / 1000))
+    .setExpirationTime(Math.floor(expiresAt / 1000))
+    .setIssuer(QR_TOKEN_ISSUER)
+    .setAudience(CHECKIN_TICKET_AUDIENCE)
+    .sign(getQRSecret())
+
+  return {
+    ticket,
+    scannedAt: new Date(now).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString()
+  }
+}
+
+/**
+ * 체크인 티켓 서명, 세션, 학생, 유효 시간 검증
+ */
+export async function verifyCheckInTicket(
+  ticket: string,
+  expectedSessionId: string,
+  studentId: string,
+  now: number = Date.now()
+): Promise<CheckInTicketVerification> {
+  let payload: Record<string, unknown>
+  try {
+    const verified = await jwtVerify(ticket, getQRSecret(), {
+      issuer: QR_TOKEN_ISSUER,
+      audience: CHECKIN_TICKET_AUDIENCE,
+      algorithms: ['HS256'],
+      currentDate: new Date(now)
+    })
+    payload = verified.payload as Record<string, unknown>
+  } catch (error) {
+    if (error instanceof joseErrors.JWTExpired) {
+      return { valid: false, reason: 'expired' }
+    }
+    const reason = error instanceof joseErrors.JWSSignatureVerificationFailed ? 'invalid_signature' : 'malformed'
+    return { valid: false, reason }
+  }
+
+  if (
+    typeof payload.sid !== 'string' ||
+    typeof payload.sub !== 'string' ||
+    !Number.isInteger(payload.stp) ||
+    typeof payload.sat !== 'number'
+  ) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  if (payload.sid !== expectedSessionId) {
+    return { valid: false, reason: 'session_mismatch' }
+  }
+  if (payload.sub !== studentId) {
+    return { valid: false, reason: 'student_mismatch' }
+  }
+
+  return {
+    valid: true,
+    claims: {
+      sessionId: payload.sid,
+      studentId: payload.sub,
+      step: payload.stp as number,
+      scannedAt: new Date(payload.sat)
+    }
+  }
+}
+
+/**
+ * QR 데이터에 현재 타임스텝 토큰을 붙여 반환
+ */
+export async function attachQRToken(
+  qrData: QRCodeData,
+  now: number = Date.now()
+): Promise<{ qrData: QRCodeData; signed: SignedQRToken }> {
+  const signed = await signQRToken(qrData.sessionId, qrData.courseId, now)
+  return { qrData: { ...qrData, token: signed.token }, signed }
+}
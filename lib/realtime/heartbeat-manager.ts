@@ -12,12 +12,16 @@
 
 import { GPSPDRFusionManager, type FusedPosition, type Position2D } from '@/lib/fusion/gps-pdr-fusion'
 import { EnvironmentDetector, type EnvironmentType } from '@/lib/fusion/environment-detector'
+import { ProximityScanner, createDefaultProximitySources, type ProximitySource } from '@/lib/fusion/proximity-source'
+import { parsePDRCalibration, toPDRTrackerConfig, type PDRCalibration } from '@/lib/pdr/pdr-calibration'
 
 export interface HeartbeatLocation {
   latitude: number;
   longitude: number;
   accuracy: number;
   timestamp: number;
+  altitude?: number | null; // GPS 고도 (층 추적용)
+  altitudeAccuracy?: number | null;
   // PDR 융합 정보
   trackingMode?: 'gps-only' | 'pdr-only' | 'fusion';
   environment?: 'outdoor' | 'indoor' | 'unknown';
@@ -27,6 +31,8 @@ export interface HeartbeatLocation {
   // GPS 이상치 정보 (서버 조퇴 판단용)
   gpsAnomalyCount?: number;
   lastGpsAnomalyDistance?: number;
+  // 추적 시작 대비 층 변화 (기압/GPS 고도가 있을 때만, 서버 층 판단용)
+  floorChange?: number;
 }
 
 export interface HeartbeatResponse {
@@ -41,6 +47,8 @@ export interface HeartbeatResponse {
   error?: string;
   lowAccuracy?: boolean;
   accuracy?: number;
+  locationEvidence?: 'gps' | 'proximity';
+  differentFloor?: boolean;
 }
 
 export interface HeartbeatOptions {
@@ -50,6 +58,7 @@ export interface HeartbeatOptions {
   retryDelay: number; // 재시도 지연 시간 (밀리초)
   enableHighAccuracy: boolean; // GPS 고정밀도 모드
   usePDRFusion: boolean; // GPS + PDR 융합 시스템 사용 여부
+  proximitySources: ProximitySource[]; // 비콘/AP 근접 소스 (강의실 근접 지문 매칭용)
 }
 
 export type HeartbeatCallback = (data: {
@@ -76,20 +85,24 @@ export class HeartbeatManager {
   // Environment Detector
   private environmentDetector: EnvironmentDetector | null = null;
 
+  // 비콘/AP 근접 스캐너
+  private proximityScanner: ProximityScanner | null = null;
+
   private options: HeartbeatOptions = {
     interval: 30000, // 30초 (포그라운드)
     backgroundInterval: 60000, // 1분 (백그라운드)
     maxRetries: 3,
     retryDelay: 5000, // 5초
     enableHighAccuracy: true,
-    usePDRFusion: true // GPS + PDR 융합 시스템 기본 활성화
+    usePDRFusion: true, // GPS + PDR 융합 시스템 기본 활성화
+    proximitySources: [] // 생성 시 브라우저에서 지원되는 소스로 채움
   };
 
   constructor(
     private onHeartbeat: HeartbeatCallback,
     options?: Partial<HeartbeatOptions>
   ) {
-    this.options = { ...this.options, ...options };
+    this.options = { ...this.options, proximitySources: createDefaultProximitySources(), ...options };
     this.usePDRFusion = this.options.usePDRFusion;
     this.setupVisibilityHandlers();
     this.setupUnloadHandlers();
@@ -111,15 +124,29 @@ export class HeartbeatManager {
       // Environment Detector 초기화
       this.environmentDetector = new EnvironmentDetector();
 
+      // 비콘/AP 근접 스캔 시작 (지원되는 소스가 없거나 권한이 없으면 GPS/PDR 만 사용)
+      if (this.options.proximitySources.length > 0) {
+        const scanner = new ProximityScanner(this.options.proximitySources);
+        if (await scanner.start()) {
+          this.proximityScanner = scanner;
+        } else {
+          scanner.stop();
+        }
+      }
+
       // GPS+PDR Fusion Manager 초기화
       if (this.usePDRFusion) {
         console.log('🔄 GPS+PDR Fusion Manager 초기화 중...');
 
-        // 초기 GPS 위치 획득
-        const initialGPS = await this.getCurrentLocationGPS();
+        // 초기 GPS 위치 획득 및 걷기 보정 값 조회
+        const [initialGPS, calibration] = await Promise.all([
+          this.getCurrentLocationGPS(),
+          this.loadPDRCalibration()
+        ]);
 
-        // Fusion Manager 생성
+        // Fusion Manager 생성 (보정 값이 있으면 사용자별 걸음 감지/걸음 길이 파라미터 사용)
         this.fusionManager = new GPSPDRFusionManager({
+          pdrConfig: toPDRTrackerConfig(calibration),
           recalibration: {
             periodicInterval: this.options.interval, // Heartbeat 주기와 동일 (30초)
             errorThreshold: 15, // GPS-PDR 오차 15m 초과 시 재보정
@@ -128,16 +155,22 @@ export class HeartbeatManager {
         });
 
         // Fusion 추적 시작
+        // 층 변화는 이 시점(체크인 직후 강의실)의 고도를 기준으로 추적
         await this.fusionManager.startTracking({
           lat: initialGPS.latitude,
           lng: initialGPS.longitude,
           accuracy: initialGPS.accuracy,
+          altitude: initialGPS.altitude,
+          altitudeAccuracy: initialGPS.altitudeAccuracy,
           timestamp: initialGPS.timestamp
         });
 
         console.log('✅ GPS+PDR Fusion 초기화 완료:', {
           initialPosition: { lat: initialGPS.latitude, lng: initialGPS.longitude },
-          accuracy: initialGPS.accuracy
+          accuracy: initialGPS.accuracy,
+          pdrCalibration: calibration
+            ? { weinbergK: calibration.weinbergK, stepThreshold: calibration.stepThreshold }
+            : null
         });
       }
 
@@ -165,6 +198,8 @@ export class HeartbeatManager {
         this.fusionManager.stopTracking();
         this.fusionManager = null;
       }
+      this.proximityScanner?.stop();
+      this.proximityScanner = null;
 
       this.onHeartbeat({
         success: false,
@@ -201,6 +236,10 @@ export class HeartbeatManager {
 
     // Environment Detector 정리
     this.environmentDetector = null;
+
+    // 근접 스캐너 정리
+    this.proximityScanner?.stop();
+    this.proximityScanner = null;
   }
 
   /**
@@ -327,6 +366,7 @@ export class HeartbeatManager {
     try {
       // 1. GPS+PDR 융합 위치 획득 (GPS 업데이트 포함)
       const location = await this.getCurrentLocation();
+      const proximity = this.proximityScanner?.getObservations() ?? [];
 
       // 2. 서버에 heartbeat 전송 (PDR 정보 포함)
       const response = await fetch('/api/attendance/heartbeat', {
@@ -351,7 +391,11 @@ export class HeartbeatManager {
           pdrWeight: location.pdrWeight,
           // GPS 이상치 정보 (서버 조퇴 판단용)
           gpsAnomalyCount: location.gpsAnomalyCount,
-          lastGpsAnomalyDistance: location.lastGpsAnomalyDistance
+          lastGpsAnomalyDistance: location.lastGpsAnomalyDistance,
+          // 층 변화 (서버 층 판단용)
+          floorChange: location.floorChange,
+          // 비콘/AP 관측 (있는 경우)
+          proximity: proximity.length > 0 ? proximity : undefined
         }),
       });
 
@@ -365,6 +409,8 @@ export class HeartbeatManager {
         console.log(`✅ Heartbeat 성공 [${this.isBackground ? 'BG' : 'FG'}]:`, {
           distance: result.distance,
           locationValid: result.locationValid,
+          locationEvidence: result.locationEvidence,
+          differentFloor: result.differentFloor,
           sessionEnded: result.sessionEnded,
           trackingMode: location.trackingMode,
           environment: location.environment,
@@ -420,6 +466,23 @@ export class HeartbeatManager {
     }
   }
 
+  /**
+   * 저장된 PDR 걷기 보정 값 조회 (없거나 실패하면 기본 파라미터 사용)
+   */
+  private async loadPDRCalibration(): Promise<PDRCalibration | null> {
+    try {
+      const response = await fetch('/api/student/pdr-calibration');
+      if (!response.ok) {
+        return null;
+      }
+      const body = await response.json();
+      return parsePDRCalibration(body.calibration);
+    } catch (error) {
+      console.warn('⚠️ PDR 보정 값 조회 실패, 기본 파라미터를 사용합니다:', error);
+      return null;
+    }
+  }
+
   /**
    * GPS 전용 위치 획득 (Fusion 초기화용)
    */
@@ -444,6 +507,8 @@ export class HeartbeatManager {
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
             accuracy: position.coords.accuracy,
+            altitude: position.coords.altitude,
+            altitudeAccuracy: position.coords.altitudeAccuracy,
             timestamp: Date.now()
           });
         },
@@ -498,7 +563,8 @@ export class HeartbeatManager {
             environment,
             confidence: fused.confidence,
             gpsWeight: fused.gpsWeight,
-            pdrWeight: fused.pdrWeight
+            pdrWeight: fused.pdrWeight,
+            floorChange: fused.floorChange
           };
         }
       }
@@ -513,6 +579,8 @@ export class HeartbeatManager {
           lat: gpsPosition.latitude,
           lng: gpsPosition.longitude,
           accuracy: gpsPosition.accuracy,
+          altitude: gpsPosition.altitude,
+          altitudeAccuracy: gpsPosition.altitudeAccuracy,
           timestamp: gpsPosition.timestamp
         });
 
@@ -535,7 +603,8 @@ export class HeartbeatManager {
             pdrWeight: fusedPosition.pdrWeight,
             // GPS 이상치 정보 (서버 조퇴 판단용)
             gpsAnomalyCount: fusedPosition.gpsAnomalyCount,
-            lastGpsAnomalyDistance: fusedPosition.lastGpsAnomalyDistance
+            lastGpsAnomalyDistance: fusedPosition.lastGpsAnomalyDistance,
+            floorChange: fusedPosition.floorChange
           };
         }
       } catch (error) {
@@ -0,0 +1,93 @@
+/**
+ * 관리자 콘솔 Zod 스키마
+ */
+
+import { z } from 'zod'
+import { PasswordSchema } from './auth'
+
+const DateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, '날짜는 YYYY-MM-DD 형식이어야 합니다')
+
+const NameSchema = z
+  .string()
+  .trim()
+  .min(1, '이름을 입력해주세요')
+  .max(50, '이름은 50자 이하여야 합니다')
+
+/**
+ * 교수 계정 생성 스키마
+ */
+export const AdminProfessorCreateSchema = z.object({
+  professorId: z
+    .string()
+    .trim()
+    .min(1, '교수번호를 입력해주세요')
+    .max(50)
+    .describe('교수번호'),
+  name: NameSchema.describe('교수 이름'),
+  email: z.string().trim().email('이메일 형식이 올바르지 않습니다').optional().describe('이메일'),
+  password: PasswordSchema.describe('초기 비밀번호'),
+})
+
+export type AdminProfessorCreateRequest = z.infer<typeof AdminProfessorCreateSchema>
+
+/**
+ * 학생 계정 생성 스키마
+ */
+export const AdminStudentCreateSchema = z.object({
+  studentId: z
+    .string()
+    .regex(/^\d{9}$/, '학번은 9자리 숫자여야 합니다 (예: 202012345)')
+    .describe('학번'),
+  name: NameSchema.describe('학생 이름'),
+  password: PasswordSchema.describe('초기 비밀번호'),
+})
+
+export type AdminStudentCreateRequest = z.infer<typeof AdminStudentCreateSchema>
+
+/**
+ * 교수/학생 정보 수정 스키마 (비밀번호는 재설정 코드로 변경)
+ */
+export const AdminUserUpdateSchema = z
+  .object({
+    name: NameSchema.optional().describe('이름'),
+    email: z.string().trim().email('이메일 형식이 올바르지 않습니다').nullable().optional().describe('이메일 (교수만)'),
+  })
+  .refine((data) => data.name !== undefined || data.email !== undefined, {
+    message: '수정할 항목을 입력해주세요',
+    path: ['name'],
+  })
+
+export type AdminUserUpdateRequest = z.infer<typeof AdminUserUpdateSchema>
+
+/**
+ * 강의 담당 교수 변경 스키마
+ */
+export const CourseReassignSchema = z.object({
+  professorId: z
+    .string()
+    .trim()
+    .min(1, '새 담당 교수번호를 입력해주세요')
+    .describe('새 담당 교수번호'),
+})
+
+export type CourseReassignRequest = z.infer<typeof CourseReassignSchema>
+
+/**
+ * 학기 단위 강의 일괄 삭제 스키마
+ *
+ * dryRun 으로 먼저 삭제 대상을 확인한 뒤, 확인한 강의 수를 expectedCount 로 보내야 삭제합니다.
+ */
+export const TermCourseDeleteSchema = z
+  .object({
+    termStart: DateOnlySchema.describe('학기 시작일 (강의 생성일 기준, 포함)'),
+    termEnd: DateOnlySchema.describe('학기 종료일 (포함)'),
+    professorId: z.string().trim().min(1).optional().describe('특정 교수 강의만'),
+    dryRun: z.boolean().default(true).describe('true 면 삭제 대상만 조회'),
+    expectedCount: z.number().int().min(0).optional().describe('미리보기에서 확인한 강의 수 (삭제 시 필수)'),
+  })
+  .refine((data) => data.dryRun || data.expectedCount !== undefined, {
+    message: '삭제하려면 미리보기에서 확인한 강의 수(expectedCount)가 필요합니다',
+    path: ['expectedCount'],
+  })
+
+export type TermCourseDeleteRequest = z.infer<typeof TermCourseDeleteSchema>
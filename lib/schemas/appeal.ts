@@ -0,0 +1,68 @@
+/**
+ * 출석 이의 신청 관련 Zod 스키마
+ */
+
+import { z } from 'zod'
+import { APPEAL_CONFIG } from '@/lib/config/attendance-config'
+
+/**
+ * 이의 신청 생성 요청 스키마 (학생)
+ *
+ * 첨부파일은 multipart/form-data 의 `attachment` 필드로 별도 전송합니다.
+ * 체크인 기록 없이 결석 처리된 수업은 attendanceId 대신 sessionId 로 신청합니다.
+ */
+export const AppealCreateSchema = z
+  .object({
+    attendanceId: z
+      .string()
+      .uuid('유효하지 않은 출석 기록 ID 형식입니다')
+      .optional()
+      .describe('이의를 제기할 출석 기록 ID'),
+    sessionId: z
+      .string()
+      .uuid('유효하지 않은 세션 ID 형식입니다')
+      .optional()
+      .describe('출석 기록이 없는 수업의 세션 ID'),
+    reason: z
+      .string()
+      .trim()
+      .min(APPEAL_CONFIG.minReasonLength, `사유를 ${APPEAL_CONFIG.minReasonLength}자 이상 입력해주세요`)
+      .max(APPEAL_CONFIG.maxReasonLength, `사유는 ${APPEAL_CONFIG.maxReasonLength}자 이하여야 합니다`)
+      .describe('이의 신청 사유'),
+    requestedStatus: z
+      .enum(['present', 'late'], {
+        errorMap: () => ({ message: '요청 상태는 present 또는 late 여야 합니다' }),
+      })
+      .default('present')
+      .describe('변경을 요청하는 출석 상태'),
+  })
+  .refine((data) => data.attendanceId !== undefined || data.sessionId !== undefined, {
+    message: '출석 기록 ID 또는 세션 ID가 필요합니다',
+    path: ['attendanceId'],
+  })
+
+/**
+ * 이의 신청 처리 요청 스키마 (교수)
+ */
+export const AppealReviewSchema = z.object({
+  decision: z
+    .enum(['approved', 'rejected'], {
+      errorMap: () => ({ message: '처리 결과는 approved 또는 rejected 여야 합니다' }),
+    })
+    .describe('승인 또는 반려'),
+  comment: z
+    .string()
+    .trim()
+    .max(500, '처리 의견은 500자 이하여야 합니다')
+    .optional()
+    .describe('학생에게 전달할 처리 의견'),
+  resolvedStatus: z
+    .enum(['present', 'late'], {
+      errorMap: () => ({ message: '반영 상태는 present 또는 late 여야 합니다' }),
+    })
+    .optional()
+    .describe('승인 시 반영할 출석 상태 (기본값: 학생 요청 상태)'),
+})
+
+export type AppealCreateRequest = z.infer<typeof AppealCreateSchema>
+export type AppealReviewRequest = z.infer<typeof AppealReviewSchema>
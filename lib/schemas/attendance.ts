@@ -159,3 +159,18 @@ export const AttendanceSubmitSchema = z.object({
 })
 
 export type AttendanceSubmitRequest = z.infer<typeof AttendanceSubmitSchema>
+
+/**
+ * 교수 출석 상태 수동 변경 요청 스키마
+ */
+export const AttendanceOverrideSchema = z.object({
+  status: AttendanceStatusSchema.describe('변경할 출석 상태'),
+  reason: z
+    .string()
+    .trim()
+    .min(2, '변경 사유를 입력해주세요')
+    .max(500, '변경 사유는 500자 이하여야 합니다')
+    .describe('변경 사유 (감사 로그에 기록)'),
+})
+
+export type AttendanceOverrideRequest = z.infer<typeof AttendanceOverrideSchema>
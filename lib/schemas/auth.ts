@@ -11,6 +11,26 @@ export const UserTypeSchema = z.enum(['student', 'professor'])
 
 export type UserType = z.infer<typeof UserTypeSchema>
 
+/**
+ * 로그인 사용자 타입 (관리자 계정은 회원가입 없이 관리자가 생성)
+ */
+export const LoginUserTypeSchema = z.enum(['student', 'professor', 'admin'])
+
+/**
+ * 기기 식별자 스키마 (클라이언트가 생성한 해시)
+ */
+export const DeviceIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{16,128}$/, '기기 식별자 형식이 올바르지 않습니다')
+
+/**
+ * 비밀번호 스키마 (회원가입/재설정/변경 공통)
+ */
+export const PasswordSchema = z
+  .string()
+  .min(6, '비밀번호는 최소 6자 이상이어야 합니다')
+  .max(100, '비밀번호는 100자 이하여야 합니다')
+
 /**
  * 로그인 요청 스키마
  */
@@ -23,7 +43,8 @@ export const LoginRequestSchema = z.object({
     .string()
     .min(1, '비밀번호를 입력해주세요')
     .describe('비밀번호'),
-  userType: UserTypeSchema.describe('사용자 타입 (student/professor)'),
+  userType: LoginUserTypeSchema.describe('사용자 타입 (student/professor/admin)'),
+  deviceId: DeviceIdSchema.optional().describe('기기 식별자 (학생 로그인 시 필수)'),
 })
 
 export type LoginRequest = z.infer<typeof LoginRequestSchema>
@@ -38,11 +59,7 @@ export const SignupRequestSchema = z
       .min(1, '이름을 입력해주세요')
       .max(50, '이름은 50자 이하여야 합니다')
       .describe('사용자 이름'),
-    password: z
-      .string()
-      .min(6, '비밀번호는 최소 6자 이상이어야 합니다')
-      .max(100, '비밀번호는 100자 이하여야 합니다')
-      .describe('비밀번호'),
+    password: PasswordSchema.describe('비밀번호'),
     userType: UserTypeSchema.describe('사용자 타입'),
     studentId: z
       .string()
@@ -54,6 +71,7 @@ export const SignupRequestSchema = z
       .min(1, '교수번호를 입력해주세요')
       .optional()
       .describe('교수번호 (교수만 필수)'),
+    deviceId: DeviceIdSchema.optional().describe('기기 식별자 (학생만)'),
   })
   .refine(
     (data) => {
@@ -75,13 +93,68 @@ export const SignupRequestSchema = z
 
 export type SignupRequest = z.infer<typeof SignupRequestSchema>
 
+/**
+ * 비밀번호 재설정 코드 발급 요청 스키마 (교수: 담당 학생, 관리자: 모든 사용자)
+ */
+export const PasswordResetCodeIssueSchema = z.object({
+  userType: UserTypeSchema.describe('재설정 대상 사용자 타입'),
+  userId: z
+    .string()
+    .trim()
+    .min(1, '학번 또는 교수번호를 입력해주세요')
+    .max(50)
+    .describe('재설정 대상 학번 또는 교수번호'),
+})
+
+export type PasswordResetCodeIssueRequest = z.infer<typeof PasswordResetCodeIssueSchema>
+
+/**
+ * 비밀번호 재설정 요청 스키마
+ */
+export const PasswordResetRequestSchema = z.object({
+  userType: UserTypeSchema.describe('사용자 타입'),
+  userId: z
+    .string()
+    .trim()
+    .min(1, '학번 또는 교수번호를 입력해주세요')
+    .max(50)
+    .describe('학번 또는 교수번호'),
+  code: z
+    .string()
+    .trim()
+    .min(1, '재설정 코드를 입력해주세요')
+    .max(20)
+    .describe('교수/관리자에게 받은 재설정 코드'),
+  newPassword: PasswordSchema.describe('새 비밀번호'),
+})
+
+export type PasswordResetRequest = z.infer<typeof PasswordResetRequestSchema>
+
+/**
+ * 비밀번호 변경 요청 스키마 (로그인 사용자)
+ */
+export const PasswordChangeRequestSchema = z
+  .object({
+    currentPassword: z
+      .string()
+      .min(1, '현재 비밀번호를 입력해주세요')
+      .describe('현재 비밀번호'),
+    newPassword: PasswordSchema.describe('새 비밀번호'),
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: '새 비밀번호는 현재 비밀번호와 달라야 합니다',
+    path: ['newPassword'],
+  })
+
+export type PasswordChangeRequest = z.infer<typeof PasswordChangeRequestSchema>
+
 /**
  * 인증 응답 스키마
  */
 export const AuthUserSchema = z.object({
   id: z.string().describe('사용자 ID'),
   name: z.string().describe('사용자 이름'),
-  type: UserTypeSchema.describe('사용자 타입'),
+  type: LoginUserTypeSchema.describe('사용자 타입'),
 })
 
 export type AuthUser = z.infer<typeof AuthUserSchema>
@@ -91,8 +164,9 @@ export type AuthUser = z.infer<typeof AuthUserSchema>
  */
 export const JWTPayloadSchema = z.object({
   userId: z.string().describe('사용자 ID'),
-  userType: UserTypeSchema.describe('사용자 타입'),
+  userType: LoginUserTypeSchema.describe('사용자 타입'),
   name: z.string().describe('사용자 이름'),
+  deviceId: z.string().optional().describe('등록된 기기 식별자 (학생만)'),
   iat: z.number().optional().describe('발급 시간'),
   exp: z.number().optional().describe('만료 시간'),
 })
@@ -0,0 +1,75 @@
+/**
+ * 강의 관련 Zod 스키마
+ */
+
+import { z } from 'zod'
+import { LATE_POLICY_CONFIG, ROSTER_IMPORT_CONFIG } from '@/lib/config/attendance-config'
+
+const lateMinutesSchema = z
+  .number()
+  .int('분 단위 정수여야 합니다')
+  .min(0, '0분 이상이어야 합니다')
+  .max(LATE_POLICY_CONFIG.maxMinutes, `${LATE_POLICY_CONFIG.maxMinutes}분 이하여야 합니다`)
+
+/**
+ * 강의별 지각 판정 설정 스키마
+ */
+export const CourseLatePolicySchema = z
+  .object({
+    lateGraceMinutes: lateMinutesSchema
+      .optional()
+      .describe('출석 인정 유예 시간 (분)'),
+    lateCutoffMinutes: lateMinutesSchema
+      .nullable()
+      .optional()
+      .describe('지각 인정 마감 시간 (분, null이면 마감 없음)'),
+  })
+  .refine(
+    (data) =>
+      data.lateGraceMinutes === undefined ||
+      data.lateCutoffMinutes === undefined ||
+      data.lateCutoffMinutes === null ||
+      data.lateCutoffMinutes >= data.lateGraceMinutes,
+    {
+      message: '지각 마감 시간은 유예 시간보다 같거나 길어야 합니다',
+      path: ['lateCutoffMinutes'],
+    }
+  )
+
+export type CourseLatePolicy = z.infer<typeof CourseLatePolicySchema>
+
+/**
+ * CSV 수강 명단 가져오기 스키마
+ */
+export const RosterImportSchema = z
+  .object({
+    csv: z
+      .string()
+      .min(1, 'CSV 내용이 비어 있습니다')
+      .max(ROSTER_IMPORT_CONFIG.maxCsvLength, 'CSV 파일이 너무 큽니다')
+      .describe('학번, 이름 열이 있는 CSV 본문'),
+    dryRun: z.boolean().default(true).describe('true 면 비교 결과만 반환'),
+    removeMissing: z.boolean().default(false).describe('명단에 없는 기존 수강생 등록 해제'),
+    expectedRemoveCount: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('미리보기에서 확인한 등록 해제 인원 (removeMissing 반영 시 필수)'),
+    autoEnrollOnScan: z.boolean().optional().describe('반영 후 QR 스캔 자동 수강 등록 여부'),
+  })
+  .refine((data) => data.dryRun || !data.removeMissing || data.expectedRemoveCount !== undefined, {
+    message: '등록 해제하려면 미리보기에서 확인한 인원(expectedRemoveCount)이 필요합니다',
+    path: ['expectedRemoveCount'],
+  })
+
+export type RosterImportRequest = z.infer<typeof RosterImportSchema>
+
+/**
+ * 강의 수강 명단 설정 스키마
+ */
+export const CourseRosterSettingsSchema = z.object({
+  autoEnrollOnScan: z.boolean().describe('QR 스캔 시 미등록 학생 자동 수강 등록'),
+})
+
+export type CourseRosterSettings = z.infer<typeof CourseRosterSettingsSchema>
@@ -0,0 +1,31 @@
+/**
+ * 기기 등록 관련 Zod 스키마
+ */
+
+import { z } from 'zod'
+
+/**
+ * 기기 재등록 요청 처리 스키마 (관리자)
+ */
+export const DeviceRebindReviewSchema = z.object({
+  decision: z
+    .enum(['approved', 'rejected'], {
+      errorMap: () => ({ message: '처리 결과는 approved 또는 rejected 여야 합니다' }),
+    })
+    .describe('승인 또는 반려'),
+  reviewedBy: z
+    .string()
+    .trim()
+    .min(1, '처리자를 입력해주세요')
+    .max(100, '처리자는 100자 이하여야 합니다')
+    .optional()
+    .describe('처리한 관리자 이름 또는 ID (관리자 세션이면 생략 시 관리자 ID)'),
+  comment: z
+    .string()
+    .trim()
+    .max(500, '처리 의견은 500자 이하여야 합니다')
+    .optional()
+    .describe('처리 의견'),
+})
+
+export type DeviceRebindReviewRequest = z.infer<typeof DeviceRebindReviewSchema>
@@ -13,3 +13,21 @@ export * from './qr'
 
 // 세션 관련
 export * from './session'
+
+// 강의 관련
+export * from './course'
+
+// 출석 이의 신청 관련
+export * from './appeal'
+
+// 기기 등록 관련
+export * from './device'
+
+// 관리자 콘솔 관련
+export * from './admin'
+
+// PDR 보정 관련
+export * from './pdr'
+
+// 근접 비콘 관련
+export * from './proximity'
@@ -0,0 +1,46 @@
+/**
+ * PDR 보정 관련 Zod 스키마
+ */
+
+import { z } from 'zod'
+import { CALIBRATION_CONFIG } from '@/lib/config/pdr-config'
+
+/**
+ * 학생 PDR 걷기 보정 값 저장 스키마
+ */
+export const PDRCalibrationSchema = z.object({
+  stepThreshold: z
+    .number()
+    .positive('걸음 감지 임계값은 0보다 커야 합니다')
+    .max(50, '걸음 감지 임계값은 50 이하여야 합니다')
+    .describe('걸음 감지 임계값 (중력 포함 가속도 크기, m/s²)'),
+  weinbergK: z
+    .number()
+    .min(CALIBRATION_CONFIG.minK, `Weinberg K 는 ${CALIBRATION_CONFIG.minK} 이상이어야 합니다`)
+    .max(CALIBRATION_CONFIG.maxK, `Weinberg K 는 ${CALIBRATION_CONFIG.maxK} 이하여야 합니다`)
+    .describe('Weinberg 계수 K'),
+  averageStepLength: z
+    .number()
+    .positive('평균 걸음 길이는 0보다 커야 합니다')
+    .describe('보정 보행의 평균 걸음 길이 (m)'),
+  cadence: z
+    .number()
+    .positive('걸음 빈도는 0보다 커야 합니다')
+    .describe('보정 보행의 걸음 빈도 (steps/sec)'),
+  distance: z
+    .number()
+    .min(CALIBRATION_CONFIG.minDistance, `보정 거리는 ${CALIBRATION_CONFIG.minDistance}m 이상이어야 합니다`)
+    .max(CALIBRATION_CONFIG.maxDistance, `보정 거리는 ${CALIBRATION_CONFIG.maxDistance}m 이하여야 합니다`)
+    .describe('보정에 사용한 거리 (m)'),
+  steps: z
+    .number()
+    .int('걸음 수는 정수여야 합니다')
+    .min(CALIBRATION_CONFIG.minSteps, `걸음 수는 ${CALIBRATION_CONFIG.minSteps} 이상이어야 합니다`)
+    .describe('감지된 걸음 수'),
+  calibratedAt: z
+    .string()
+    .datetime('유효하지 않은 ISO 8601 날짜 형식입니다')
+    .describe('보정 시각'),
+})
+
+export type PDRCalibrationRequest = z.infer<typeof PDRCalibrationSchema>
@@ -0,0 +1,54 @@
+/**
+ * 근접(BLE 비콘 / Wi-Fi AP) 위치 근거 관련 Zod 스키마
+ */
+
+import { z } from 'zod'
+import { PROXIMITY_CONFIG } from '@/lib/config/pdr-config'
+
+const ProximityKindSchema = z.enum(['ble', 'wifi'])
+
+/**
+ * 비콘/AP 관측 스키마 (체크인, heartbeat 요청의 proximity)
+ */
+export const ProximityObservationSchema = z.object({
+  kind: ProximityKindSchema.describe('관측 종류 (ble: 비콘, wifi: AP)'),
+  id: z
+    .string()
+    .min(1, '비콘/AP ID 가 비어 있습니다')
+    .max(100, '비콘/AP ID 는 100자 이하여야 합니다')
+    .describe('iBeacon UUID:major:minor 또는 BSSID'),
+  rssi: z
+    .number()
+    .min(-120, 'RSSI 는 -120 dBm 이상이어야 합니다')
+    .max(0, 'RSSI 는 0 dBm 이하여야 합니다')
+    .describe('수신 신호 세기 (dBm)'),
+  timestamp: z
+    .number()
+    .optional()
+    .describe('관측 시각 (epoch ms)'),
+})
+
+export const ProximityObservationsSchema = z
+  .array(ProximityObservationSchema)
+  .max(PROXIMITY_CONFIG.maxObservations, `관측은 ${PROXIMITY_CONFIG.maxObservations}개 이하여야 합니다`)
+
+export type ProximityObservationInput = z.infer<typeof ProximityObservationSchema>
+
+/**
+ * 강의실 근접 지문 스키마 (predefined_locations.proximity_fingerprint)
+ */
+export const ProximityFingerprintSchema = z.object({
+  beacons: z
+    .array(z.object({
+      kind: ProximityKindSchema,
+      id: z.string().min(1, '비콘/AP ID 가 비어 있습니다'),
+      rssi: z
+        .number()
+        .min(-120, 'RSSI 는 -120 dBm 이상이어야 합니다')
+        .max(0, 'RSSI 는 0 dBm 이하여야 합니다')
+        .describe('강의실 안에서 측정한 평균 RSSI (dBm)'),
+    }))
+    .min(1, '지문에는 비콘/AP 가 하나 이상 있어야 합니다'),
+})
+
+export type ProximityFingerprintInput = z.infer<typeof ProximityFingerprintSchema>
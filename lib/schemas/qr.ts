@@ -29,6 +29,11 @@ export const QRCodeDataSchema = z.object({
     .url('유효하지 않은 URL 형식입니다')
     .optional()
     .describe('베이스 URL'),
+  token: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('서명된 회전 QR 토큰 (JWS)'),
 })
 
 export type QRCodeData = z.infer<typeof QRCodeDataSchema>
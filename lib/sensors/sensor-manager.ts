@@ -8,6 +8,7 @@ import { GenericSensorManager } from './generic-sensor'
 import { DeviceMotionManager } from './device-motion'
 import {
   SensorData,
+  PressureData,
   SensorFeatures,
   SensorConfig,
   SensorState,
@@ -16,9 +17,30 @@ import {
   SensorEventHandler,
   SensorErrorHandler
 } from './sensor-types'
+import { SensorTraceRecorder, type GpsFix, type SensorTraceMeta } from './sensor-trace'
 
 type SensorManagerType = 'generic' | 'devicemotion' | null
 
+// 기압 센서 (Generic Sensor API 형식, 지원 브라우저/웹뷰에서만 존재하므로 DOM 타입에 없음)
+interface BarometerSensor extends EventTarget {
+  readonly pressure: number | null  // hPa
+  readonly timestamp: DOMHighResTimeStamp | null
+  start(): void
+  stop(): void
+  onreading: ((ev: Event) => void) | null
+  onerror: ((ev: Event) => void) | null
+}
+
+type BarometerConstructor = new (options?: { frequency?: number }) => BarometerSensor
+
+const BAROMETER_FREQUENCY = 1 // Hz (층 추적에는 1초 간격이면 충분)
+
+function getBarometerConstructor(): BarometerConstructor | undefined {
+  return typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { Barometer?: BarometerConstructor }).Barometer
+}
+
 /**
  * 통합 센서 관리자 클래스
  * 모든 브라우저에서 동작하는 센서 API 추상화 레이어
@@ -28,6 +50,9 @@ export class UnifiedSensorManager {
   private deviceMotion: DeviceMotionManager | null = null
   private activeManager: SensorManagerType = null
   private config: SensorConfig
+  private recorder: SensorTraceRecorder | null = null
+  private barometer: BarometerSensor | null = null
+  private pendingPressure: PressureData | null = null
 
   constructor(config: SensorConfig = {}) {
     this.config = config
@@ -50,6 +75,7 @@ export class UnifiedSensorManager {
 
         this.activeManager = 'generic'
         console.log('🎉 Generic Sensor API 초기화 성공')
+        this.initializeBarometer()
         return true
 
       } catch (error) {
@@ -68,6 +94,7 @@ export class UnifiedSensorManager {
 
         this.activeManager = 'devicemotion'
         console.log('🎉 DeviceMotion API 초기화 성공')
+        this.initializeBarometer()
         return true
 
       } catch (error) {
@@ -83,6 +110,38 @@ export class UnifiedSensorManager {
     )
   }
 
+  /**
+   * 기압 센서 초기화 (선택적 - 없으면 GPS 고도로 층 추적)
+   */
+  private initializeBarometer(): void {
+    const Barometer = getBarometerConstructor()
+    if (!Barometer || this.barometer) return
+
+    try {
+      const barometer = new Barometer({ frequency: BAROMETER_FREQUENCY })
+      barometer.onreading = () => {
+        if (barometer.pressure !== null) {
+          this.pushPressure(barometer.pressure, barometer.timestamp ?? Date.now())
+        }
+      }
+      barometer.onerror = (event) => {
+        console.warn('⚠️ 기압 센서 읽기 실패:', event)
+      }
+      this.barometer = barometer
+      console.log('✅ 기압 센서 감지')
+    } catch (error) {
+      console.warn('⚠️ 기압 센서 초기화 실패:', error)
+    }
+  }
+
+  /**
+   * 기압 측정 입력 (hPa)
+   * 기압 센서나 네이티브 앱 브리지의 측정을 다음 SensorData 에 붙여 내보냅니다.
+   */
+  pushPressure(pressure: number, timestamp: number = Date.now()): void {
+    this.pendingPressure = { pressure, timestamp }
+  }
+
   /**
    * iOS 13+ 권한 요청 (사용자 제스처 필요)
    * 버튼 클릭 이벤트 핸들러 내에서 호출해야 함
@@ -119,11 +178,13 @@ export class UnifiedSensorManager {
 
     console.log(`🚀 센서 추적 시작 (${this.activeManager})`)
 
+    const handleData = this.withRecording(onData)
     if (this.activeManager === 'generic' && this.genericSensor) {
-      this.genericSensor.startTracking(onData, onError)
+      this.genericSensor.startTracking(handleData, onError)
     } else if (this.activeManager === 'devicemotion' && this.deviceMotion) {
-      this.deviceMotion.startTracking(onData, onError)
+      this.deviceMotion.startTracking(handleData, onError)
     }
+    this.barometer?.start()
   }
 
   /**
@@ -134,6 +195,8 @@ export class UnifiedSensorManager {
 
     this.genericSensor?.stopTracking()
     this.deviceMotion?.stopTracking()
+    this.barometer?.stop()
+    this.pendingPressure = null
   }
 
   /**
@@ -147,10 +210,71 @@ export class UnifiedSensorManager {
    * 센서 추적 재개
    */
   resume(onData: SensorEventHandler, onError?: SensorErrorHandler): void {
+    const handleData = this.withRecording(onData)
     if (this.activeManager === 'generic' && this.genericSensor) {
-      this.genericSensor.resume(onData, onError)
+      this.genericSensor.resume(handleData, onError)
     } else if (this.activeManager === 'devicemotion' && this.deviceMotion) {
-      this.deviceMotion.resume(onData, onError)
+      this.deviceMotion.resume(handleData, onError)
+    }
+    this.barometer?.start()
+  }
+
+  /**
+   * 센서 기록 시작 (JSON Lines 센서 기록, lib/sensors/sensor-trace.ts)
+   * 추적 중에 들어오는 SensorData 를 모두 기록하며, GPS 측위는 recordGpsFix 로 추가
+   */
+  startRecording(meta: Partial<Omit<SensorTraceMeta, 'type' | 'version' | 'startedAt'>> = {}): SensorTraceRecorder {
+    this.recorder = new SensorTraceRecorder({
+      platform: this.activeManager ?? undefined,
+      sensorFrequency: this.config.frequency,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      ...meta
+    })
+    console.log('⏺️ 센서 기록 시작')
+    return this.recorder
+  }
+
+  /**
+   * GPS 측위 기록 (기록 중일 때만)
+   */
+  recordGpsFix(fix: GpsFix): void {
+    this.recorder?.recordGps(fix)
+  }
+
+  /**
+   * 실측 지점 기록 (기록 중일 때만, 재생 시 오차 계산용)
+   */
+  recordGroundTruth(point: { lat: number, lng: number, label?: string }): void {
+    this.recorder?.recordTruth(point)
+  }
+
+  /**
+   * 센서 기록 중지, 기록기 반환 (toJsonl() 로 파일 내용 생성)
+   */
+  stopRecording(): SensorTraceRecorder | null {
+    const recorder = this.recorder
+    this.recorder = null
+    if (recorder) {
+      const stats = recorder.getStatistics()
+      console.log(`⏹️ 센서 기록 중지: ${stats.records}개 레코드 (${Math.round(stats.durationMs / 1000)}초)`)
+    }
+    return recorder
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null
+  }
+
+  /**
+   * 새 기압 측정을 붙이고 (기록 중이면) 기록한 뒤 전달
+   */
+  private withRecording(onData: SensorEventHandler): SensorEventHandler {
+    return (data) => {
+      const pressure = this.pendingPressure
+      this.pendingPressure = null
+      const sample = pressure ? { ...data, pressure } : data
+      this.recorder?.recordSensor(sample)
+      onData(sample)
     }
   }
 
@@ -159,11 +283,11 @@ export class UnifiedSensorManager {
    */
   getSupportedFeatures(): SensorFeatures {
     if (this.activeManager === 'generic' && this.genericSensor) {
-      return this.genericSensor.getSupportedFeatures()
+      return { ...this.genericSensor.getSupportedFeatures(), hasBarometer: this.barometer !== null }
     }
 
     if (this.activeManager === 'devicemotion' && this.deviceMotion) {
-      return this.deviceMotion.getSupportedFeatures()
+      return { ...this.deviceMotion.getSupportedFeatures(), hasBarometer: this.barometer !== null }
     }
 
     return {
@@ -237,12 +361,14 @@ export class UnifiedSensorManager {
     console.log('🧹 센서 정리 중...')
 
     this.stopTracking()
+    this.recorder = null
 
     this.genericSensor?.destroy()
     this.deviceMotion?.destroy()
 
     this.genericSensor = null
     this.deviceMotion = null
+    this.barometer = null
     this.activeManager = null
 
     console.log('✅ 센서 정리 완료')
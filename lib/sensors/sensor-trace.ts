@@ -0,0 +1,219 @@
+/**
+ * 센서 기록 (Sensor Trace)
+ * 원시 SensorData 와 GPS 측위를 JSON Lines 파일로 기록/복원
+ *
+ * 한 줄에 레코드 하나이며 첫 줄은 메타데이터입니다.
+ *   {"type":"meta","version":1,"startedAt":1741050000000,...}
+ *   {"type":"sensor","t":1741050000016,"data":{"acceleration":{...},"rotation":{...}}}
+ *   {"type":"gps","t":1741050001000,"fix":{"lat":37.5,"lng":127.0,"accuracy":8}}
+ *   {"type":"truth","t":1741050030000,"lat":37.5001,"lng":127.0002,"label":"B동 입구"}
+ *
+ * t 는 기록 시점의 epoch ms 입니다. Generic Sensor API 의 acceleration.timestamp 는
+ * 페이지 기준 시각이라 epoch 와 다르므로, 재생은 항상 t 를 시계로 사용합니다.
+ * truth 는 실측 지점(정답 위치)이며 재생 시 융합 위치 오차 계산에 쓰입니다.
+ */
+
+import type { SensorData } from './sensor-types'
+
+export const SENSOR_TRACE_VERSION = 1
+
+/**
+ * 기록 메타데이터 (첫 줄)
+ */
+export interface SensorTraceMeta {
+  type: 'meta'
+  version: number
+  /** 기록 시작 시각 (epoch ms) */
+  startedAt: number
+  /** 센서 API (generic | devicemotion) */
+  platform?: string
+  /** 센서 샘플링 주파수 (Hz) */
+  sensorFrequency?: number
+  userAgent?: string
+  /** GPS 가 없을 때 재생 원점 */
+  origin?: { lat: number, lng: number }
+  /** 기록 설명 (장소, 경로 등) */
+  description?: string
+}
+
+/**
+ * GPS 측위 (Geolocation API 결과에서 필요한 값만)
+ */
+export interface GpsFix {
+  lat: number
+  lng: number
+  /** 수평 정확도 (m) */
+  accuracy: number
+  altitude?: number | null
+  altitudeAccuracy?: number | null
+  heading?: number | null
+  speed?: number | null
+}
+
+export interface SensorTraceSensorRecord {
+  type: 'sensor'
+  t: number
+  data: SensorData
+}
+
+export interface SensorTraceGpsRecord {
+  type: 'gps'
+  t: number
+  fix: GpsFix
+}
+
+export interface SensorTraceTruthRecord {
+  type: 'truth'
+  t: number
+  lat: number
+  lng: number
+  label?: string
+}
+
+export type SensorTraceRecord =
+  | SensorTraceSensorRecord
+  | SensorTraceGpsRecord
+  | SensorTraceTruthRecord
+
+export interface SensorTrace {
+  meta: SensorTraceMeta
+  records: SensorTraceRecord[]
+}
+
+/**
+ * 센서 기록기
+ * 메모리에 레코드를 모았다가 JSON Lines 로 내보냄
+ */
+export class SensorTraceRecorder {
+  private meta: SensorTraceMeta
+  private records: SensorTraceRecord[] = []
+  private dropped = 0
+
+  constructor(
+    meta: Partial<Omit<SensorTraceMeta, 'type' | 'version'>> = {},
+    private maxRecords = 200_000,  // 60Hz 기준 약 55분
+    private now: () => number = Date.now
+  ) {
+    this.meta = {
+      ...meta,
+      type: 'meta',
+      version: SENSOR_TRACE_VERSION,
+      startedAt: meta.startedAt ?? this.now()
+    }
+  }
+
+  recordSensor(data: SensorData, t: number = this.now()): void {
+    this.push({ type: 'sensor', t, data })
+  }
+
+  recordGps(fix: GpsFix, t: number = this.now()): void {
+    this.push({ type: 'gps', t, fix })
+  }
+
+  recordTruth(point: { lat: number, lng: number, label?: string }, t: number = this.now()): void {
+    this.push({ type: 'truth', t, ...point })
+  }
+
+  private push(record: SensorTraceRecord): void {
+    if (this.records.length >= this.maxRecords) {
+      this.dropped++
+      return
+    }
+    this.records.push(record)
+  }
+
+  /**
+   * 기록된 레코드 수 (버퍼가 가득 차 버린 수 포함)
+   */
+  getStatistics(): { records: number, dropped: number, durationMs: number } {
+    const last = this.records[this.records.length - 1]
+    return {
+      records: this.records.length,
+      dropped: this.dropped,
+      durationMs: last ? last.t - this.meta.startedAt : 0
+    }
+  }
+
+  getTrace(): SensorTrace {
+    return { meta: { ...this.meta }, records: [...this.records] }
+  }
+
+  toJsonl(): string {
+    return serializeSensorTrace(this.getTrace())
+  }
+}
+
+export function serializeSensorTrace(trace: SensorTrace): string {
+  return [trace.meta, ...trace.records].map((record) => JSON.stringify(record)).join('\n') + '\n'
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isValidRecord(record: Record<string, unknown>): boolean {
+  if (!isFiniteNumber(record.t)) return false
+
+  switch (record.type) {
+    case 'sensor': {
+      const acceleration = (record.data as SensorData | undefined)?.acceleration
+      return !!acceleration && isFiniteNumber(acceleration.x) && isFiniteNumber(acceleration.y) && isFiniteNumber(acceleration.z)
+    }
+    case 'gps': {
+      const fix = record.fix as GpsFix | undefined
+      return !!fix && isFiniteNumber(fix.lat) && isFiniteNumber(fix.lng) && isFiniteNumber(fix.accuracy)
+    }
+    case 'truth':
+      return isFiniteNumber(record.lat) && isFiniteNumber(record.lng)
+    default:
+      return false
+  }
+}
+
+/**
+ * JSON Lines 센서 기록 파싱
+ *
+ * 빈 줄은 건너뛰고, 형식이 잘못된 줄은 줄 번호와 함께 에러를 던집니다.
+ * 레코드는 t 순으로 정렬해 돌려줍니다 (같은 t 는 기록 순서 유지).
+ */
+export function parseSensorTrace(text: string): SensorTrace {
+  const lines = text.split(/\r?\n/)
+  let meta: SensorTraceMeta | null = null
+  const records: SensorTraceRecord[] = []
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (line.trim() === '') continue
+
+    let parsed: Record<string, unknown>
+    try {
+      parsed = JSON.parse(line)
+    } catch {
+      throw new Error(`센서 기록 ${index + 1}번째 줄을 JSON 으로 읽을 수 없습니다`)
+    }
+
+    if (parsed.type === 'meta') {
+      if (meta) {
+        throw new Error(`센서 기록 ${index + 1}번째 줄: 메타데이터가 두 번 나옵니다`)
+      }
+      if (parsed.version !== SENSOR_TRACE_VERSION || !isFiniteNumber(parsed.startedAt)) {
+        throw new Error(`센서 기록 ${index + 1}번째 줄: 지원하지 않는 기록 버전입니다 (${String(parsed.version)})`)
+      }
+      meta = parsed as unknown as SensorTraceMeta
+      continue
+    }
+
+    if (!isValidRecord(parsed)) {
+      throw new Error(`센서 기록 ${index + 1}번째 줄: 올바르지 않은 레코드입니다`)
+    }
+    records.push(parsed as unknown as SensorTraceRecord)
+  }
+
+  if (!meta) {
+    throw new Error('센서 기록에 메타데이터 줄이 없습니다')
+  }
+
+  // Array.prototype.sort 는 안정 정렬이므로 같은 t 는 기록 순서 유지
+  records.sort((a, b) => a.t - b.t)
+  return { meta, records }
+}
@@ -35,6 +35,15 @@ export interface MagnetometerData {
   timestamp: number
 }
 
+/**
+ * 기압 센서 데이터
+ * 단위: hPa (헥토파스칼)
+ */
+export interface PressureData {
+  pressure: number
+  timestamp: number
+}
+
 /**
  * 통합 센서 데이터
  */
@@ -42,6 +51,7 @@ export interface SensorData {
   acceleration: AccelerationData
   rotation: RotationRateData | null  // iOS DeviceMotion은 rotation이 없을 수 있음
   magnetometer?: MagnetometerData    // Generic Sensor API만 지원
+  pressure?: PressureData            // 기압계가 있을 때 새 측정이 들어온 샘플에만
 }
 
 /**
@@ -51,6 +61,7 @@ export interface SensorFeatures {
   hasAccelerometer: boolean
   hasGyroscope: boolean
   hasMagnetometer: boolean
+  hasBarometer?: boolean
   platform: 'generic' | 'devicemotion' | 'none'
 }
 
@@ -0,0 +1,72 @@
+/**
+ * 오프라인 체크인 대기열 (IndexedDB)
+ *
+ * 네트워크가 끊긴 상태에서 스캔한 체크인을 저장해 두면 서비스 워커(public/sw.js)가
+ * 연결 복구 시 재전송합니다. DB 이름/스토어 이름은 sw.js와 같아야 합니다.
+ */
+
+export const OFFLINE_CHECKIN_DB_NAME = 'attendance-offline'
+export const OFFLINE_CHECKIN_STORE = 'checkins'
+export const CHECKIN_REPLAY_SYNC_TAG = 'checkin-replay'
+
+export interface QueuedCheckIn {
+  /** 재전송 시에도 같은 값을 사용 (중복 방지/로그 추적) */
+  correlationId: string
+  sessionId: string
+  qrToken: string | null
+  latitude: number
+  longitude: number
+  accuracy: number
+  networkType?: string
+  /** QR 스캔 시각 (기기 시계, ISO) */
+  capturedAt: string
+  queuedAt: string
+  attempts: number
+}
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_CHECKIN_DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(OFFLINE_CHECKIN_STORE)) {
+        request.result.createObjectStore(OFFLINE_CHECKIN_STORE, { keyPath: 'correlationId' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueue()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(OFFLINE_CHECKIN_STORE, mode).objectStore(OFFLINE_CHECKIN_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function enqueueCheckIn(item: Omit<QueuedCheckIn, 'queuedAt' | 'attempts'>): Promise<void> {
+  await withStore('readwrite', (store) =>
+    store.put({ ...item, queuedAt: new Date().toISOString(), attempts: 0 })
+  )
+}
+
+export function listQueuedCheckIns(): Promise<QueuedCheckIn[]> {
+  return withStore('readonly', (store) => store.getAll() as IDBRequest<QueuedCheckIn[]>)
+}
+
+export async function removeQueuedCheckIn(correlationId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(correlationId))
+}
@@ -8,6 +8,15 @@ export interface LocationData {
   timestamp: string;
 }
 
+export interface CheckInReplayResult {
+  correlationId: string;
+  sessionId: string;
+  status?: number;
+  code?: string;
+  error?: string;
+  message?: string;
+}
+
 export interface ServiceWorkerMessage<T = unknown> {
   type: string;
   data: T;
@@ -98,6 +107,42 @@ export class ServiceWorkerManager {
     });
   }
 
+  /**
+   * 오프라인 대기열 체크인 재전송 요청
+   * Background Sync를 지원하면 sync 이벤트로, 아니면 메시지로 즉시 재전송합니다.
+   */
+  async requestCheckInReplay(): Promise<boolean> {
+    if (!this.isRegistered || !this.registration) {
+      return false;
+    }
+
+    try {
+      if (this.isBackgroundSyncSupported()) {
+        const registrationWithSync = this.registration as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } };
+        await registrationWithSync.sync?.register('checkin-replay');
+      } else {
+        this.sendMessage('REPLAY_CHECKINS');
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ 오프라인 체크인 재전송 요청 실패:', error);
+      this.sendMessage('REPLAY_CHECKINS');
+      return false;
+    }
+  }
+
+  onCheckInReplayed(callback: (data: CheckInReplayResult) => void): void {
+    this.messageCallbacks.set('CHECKIN_REPLAYED', (payload) => {
+      callback(payload as CheckInReplayResult);
+    });
+  }
+
+  onCheckInReplayFailed(callback: (data: CheckInReplayResult) => void): void {
+    this.messageCallbacks.set('CHECKIN_REPLAY_FAILED', (payload) => {
+      callback(payload as CheckInReplayResult);
+    });
+  }
+
   onLocationUpdate(callback: (data: LocationData) => void): void {
     this.messageCallbacks.set('LOCATION_UPDATE', (payload) => {
       callback(payload as LocationData);
@@ -0,0 +1,183 @@
+import type { Json } from '@/types/supabase'
+import { CAMPUS_UTC_OFFSET_MINUTES } from '@/lib/config/attendance-config'
+
+/**
+ * courses.schedule 항목 (캠퍼스 현지 시각 기준)
+ *
+ * DB에는 `[{ day_of_week: 0~6 (일~토), start_time: 'HH:MM', end_time: 'HH:MM' }]` 형태로 저장됩니다.
+ */
+export interface CourseScheduleSlot {
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+}
+
+export interface ScheduledWindow {
+  slot: CourseScheduleSlot
+  start: Date
+  end: Date
+}
+
+const TIME_OF_DAY_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const MINUTE_MS = 60 * 1000
+
+/**
+ * 'HH:MM' 또는 'HH:MM:SS' 문자열을 자정 기준 분(minute)으로 변환
+ */
+export function parseTimeOfDay(time: string | null | undefined): number | null {
+  if (typeof time !== 'string') {
+    return null
+  }
+
+  const match = TIME_OF_DAY_PATTERN.exec(time.trim())
+  if (!match) {
+    return null
+  }
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) {
+    return null
+  }
+
+  return hours * 60 + minutes
+}
+
+/**
+ * courses.schedule JSON을 검증된 시간표 항목 배열로 변환
+ *
+ * 문자열(JSON)로 저장된 레거시 데이터도 허용하며, 형식이 맞지 않는 항목은 건너뜁니다.
+ */
+export function parseCourseSchedule(schedule: Json | string | null | undefined): CourseScheduleSlot[] {
+  let raw: unknown = schedule
+
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw)
+    } catch {
+      return []
+    }
+  }
+
+  if (!Array.isArray(raw)) {
+    return []
+  }
+
+  const slots: CourseScheduleSlot[] = []
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') {
+      continue
+    }
+
+    const record = item as Record<string, unknown>
+    const dayOfWeek = Number(record.day_of_week)
+    const startTime = typeof record.start_time === 'string' ? record.start_time : null
+    const endTime = typeof record.end_time === 'string' ? record.end_time : null
+    const startMinutes = parseTimeOfDay(startTime)
+    const endMinutes = parseTimeOfDay(endTime)
+
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      continue
+    }
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+      continue
+    }
+
+    slots.push({ dayOfWeek, startTime: startTime as string, endTime: endTime as string })
+  }
+
+  return slots
+}
+
+/**
+ * 캠퍼스 현지 날짜(YYYY-MM-DD)와 시각(HH:MM[:SS])을 UTC Date로 변환
+ */
+export function campusDateTimeToUtc(date: string, time: string): Date | null {
+  const dateMatch = DATE_PATTERN.exec(date)
+  const minutesOfDay = parseTimeOfDay(time)
+  if (!dateMatch || minutesOfDay === null) {
+    return null
+  }
+
+  const utcMs = Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]), 0, minutesOfDay)
+  return new Date(utcMs - CAMPUS_UTC_OFFSET_MINUTES * MINUTE_MS)
+}
+
+/**
+ * UTC 시각을 캠퍼스 현지 날짜/요일/분으로 분해
+ */
+export function toCampusLocal(instant: Date): { date: string; dayOfWeek: number; minutesOfDay: number } {
+  const shifted = new Date(instant.getTime() + CAMPUS_UTC_OFFSET_MINUTES * MINUTE_MS)
+  const year = shifted.getUTCFullYear()
+  const month = String(shifted.getUTCMonth() + 1).padStart(2, '0')
+  const day = String(shifted.getUTCDate()).padStart(2, '0')
+
+  return {
+    date: `${year}-${month}-${day}`,
+    dayOfWeek: shifted.getUTCDay(),
+    minutesOfDay: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+  }
+}
+
+/**
+ * 주어진 시각이 속한(또는 곧 시작할) 당일 시간표 항목 찾기
+ *
+ * 같은 요일 항목 중 아직 끝나지 않은 가장 이른 수업을 반환합니다.
+ * 당일 수업이 모두 끝났거나 없으면 null.
+ */
+export function findScheduleWindowAt(slots: CourseScheduleSlot[], instant: Date): ScheduledWindow | null {
+  const local = toCampusLocal(instant)
+
+  const candidates = slots
+    .filter((slot) => slot.dayOfWeek === local.dayOfWeek)
+    .filter((slot) => (parseTimeOfDay(slot.endTime) ?? 0) > local.minutesOfDay)
+    .sort((a, b) => (parseTimeOfDay(a.startTime) ?? 0) - (parseTimeOfDay(b.startTime) ?? 0))
+
+  const slot = candidates[0]
+  if (!slot) {
+    return null
+  }
+
+  const start = campusDateTimeToUtc(local.date, slot.startTime)
+  const end = campusDateTimeToUtc(local.date, slot.endTime)
+  if (!start || !end) {
+    return null
+  }
+
+  return { slot, start, end }
+}
+
+/**
+ * UTC 시각을 캠퍼스 현지 'HH:MM:SS' 문자열로 변환 (class_sessions.start_time/end_time 저장용)
+ */
+export function formatCampusTime(instant: Date): string {
+  const shifted = new Date(instant.getTime() + CAMPUS_UTC_OFFSET_MINUTES * MINUTE_MS)
+  return [shifted.getUTCHours(), shifted.getUTCMinutes(), shifted.getUTCSeconds()]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':')
+}
+
+/**
+ * class_sessions 의 date + start_time/end_time 을 실제 시작/종료 시각으로 변환
+ *
+ * end_time 이 start_time 보다 이르면 자정을 넘긴 수업으로 보고 다음 날로 계산합니다.
+ */
+export function resolveSessionWindow(session: {
+  date?: string | null
+  start_time?: string | null
+  end_time?: string | null
+}): { start: Date | null; end: Date | null } {
+  if (!session.date) {
+    return { start: null, end: null }
+  }
+
+  const start = session.start_time ? campusDateTimeToUtc(session.date, session.start_time) : null
+  let end = session.end_time ? campusDateTimeToUtc(session.date, session.end_time) : null
+
+  if (start && end && end.getTime() <= start.getTime()) {
+    end = new Date(end.getTime() + 24 * 60 * MINUTE_MS)
+  }
+
+  return { start, end }
+}
@@ -0,0 +1,62 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { planCourseSessions, resolveManualSessionTimes } from './scheduler'
+
+const schedule = [
+  { dayOfWeek: 1, startTime: '09:00', endTime: '10:30' }, // 월
+  { dayOfWeek: 3, startTime: '13:00', endTime: '14:15' } // 수
+]
+
+test('planCourseSessions expands the weekly schedule into dated sessions', () => {
+  // 2025-03-10 (월) 08:00 KST
+  const { planned, skipped } = planCourseSessions(schedule, new Date('2025-03-09T23:00:00.000Z'), 14)
+
+  assert.deepStrictEqual(
+    planned.map((session) => `${session.date} ${session.startTime}-${session.endTime}`),
+    [
+      '2025-03-10 09:00:00-10:30:00',
+      '2025-03-12 13:00:00-14:15:00',
+      '2025-03-17 09:00:00-10:30:00',
+      '2025-03-19 13:00:00-14:15:00'
+    ]
+  )
+  assert.strictEqual(planned[0].start.toISOString(), '2025-03-10T00:00:00.000Z')
+  assert.deepStrictEqual(skipped, [])
+})
+
+test('planCourseSessions skips holidays and classes that already ended', () => {
+  // 2025-10-06 (월, 추석) 08:00 KST → 당일 수업은 휴일, 10-08 (수)은 대체공휴일
+  const { planned, skipped } = planCourseSessions(schedule, new Date('2025-10-05T23:00:00.000Z'), 7)
+
+  assert.deepStrictEqual(planned, [])
+  assert.deepStrictEqual(
+    skipped.map((item) => `${item.date}:${item.holidayName}`),
+    ['2025-10-06:추석', '2025-10-08:대체공휴일']
+  )
+
+  // 월요일 10:30 이후에는 당일 수업을 만들지 않음
+  const afterClass = planCourseSessions(schedule, new Date('2025-03-10T02:00:00.000Z'), 1)
+  assert.deepStrictEqual(afterClass.planned, [])
+})
+
+test('resolveManualSessionTimes uses the scheduled slot when opened shortly before class', () => {
+  // 2025-03-10 (월) 08:55 KST
+  const times = resolveManualSessionTimes(schedule, new Date('2025-03-09T23:55:00.000Z'))
+  assert.deepStrictEqual(times, {
+    date: '2025-03-10',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    fromSchedule: true
+  })
+})
+
+test('resolveManualSessionTimes falls back to the default duration outside the schedule', () => {
+  // 2025-03-11 (화) 15:20:30 KST
+  const times = resolveManualSessionTimes(schedule, new Date('2025-03-11T06:20:30.000Z'))
+  assert.deepStrictEqual(times, {
+    date: '2025-03-11',
+    startTime: '15:20:30',
+    endTime: '17:20:30',
+    fromSchedule: false
+  })
+})
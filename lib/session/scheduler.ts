@@ -0,0 +1,292 @@
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import { SESSION_SCHEDULE_CONFIG } from '@/lib/config/attendance-config'
+import { findAcademicHoliday, isWithinAcademicTerm } from '@/lib/config/academic-calendar'
+import { hasCourseScheduleColumn } from '@/lib/courses/schemaSupport'
+import { autoEndSessionIfNeeded } from '@/lib/session/session-service'
+import {
+  campusDateTimeToUtc,
+  findScheduleWindowAt,
+  formatCampusTime,
+  parseCourseSchedule,
+  parseTimeOfDay,
+  resolveSessionWindow,
+  toCampusLocal,
+  type CourseScheduleSlot
+} from '@/lib/session/schedule'
+
+/**
+ * 시간표 기반 세션 스케줄러
+ *
+ * courses.schedule 을 앞으로의 'scheduled' 세션으로 펼치고,
+ * 시작/종료 시각에 맞춰 세션을 자동으로 시작·종료합니다.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PlannedSession {
+  date: string
+  startTime: string
+  endTime: string
+  start: Date
+  end: Date
+}
+
+export interface SkippedSession {
+  date: string
+  startTime: string
+  reason: 'holiday' | 'out_of_term'
+  holidayName?: string
+}
+
+export interface SchedulerRunResult {
+  created: number
+  skipped: SkippedSession[]
+  activated: number
+  ended: number
+}
+
+type SessionInsert = Database['public']['Tables']['class_sessions']['Insert']
+
+function toStoredTime(time: string): string {
+  const minutes = parseTimeOfDay(time) ?? 0
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`
+}
+
+function sessionKey(courseId: string, date: string, startTime: string | null | undefined): string {
+  return `${courseId}|${date}|${parseTimeOfDay(startTime) ?? 'none'}`
+}
+
+/**
+ * 주간 시간표를 기간 내 실제 수업 일정으로 펼치기
+ *
+ * `from` 이후에 끝나는 수업만 포함하며, 휴일과 학기 밖 날짜는 skipped 로 분리합니다.
+ */
+export function planCourseSessions(
+  slots: CourseScheduleSlot[],
+  from: Date,
+  days: number = SESSION_SCHEDULE_CONFIG.lookaheadDays
+): { planned: PlannedSession[]; skipped: SkippedSession[] } {
+  const planned: PlannedSession[] = []
+  const skipped: SkippedSession[] = []
+
+  for (let offset = 0; offset < days; offset += 1) {
+    const local = toCampusLocal(new Date(from.getTime() + offset * DAY_MS))
+
+    for (const slot of slots.filter((item) => item.dayOfWeek === local.dayOfWeek)) {
+      const start = campusDateTimeToUtc(local.date, slot.startTime)
+      const end = campusDateTimeToUtc(local.date, slot.endTime)
+      if (!start || !end || end.getTime() <= from.getTime()) {
+        continue
+      }
+
+      const holiday = findAcademicHoliday(local.date)
+      if (holiday) {
+        skipped.push({ date: local.date, startTime: slot.startTime, reason: 'holiday', holidayName: holiday.name })
+        continue
+      }
+
+      if (!isWithinAcademicTerm(local.date)) {
+        skipped.push({ date: local.date, startTime: slot.startTime, reason: 'out_of_term' })
+        continue
+      }
+
+      planned.push({
+        date: local.date,
+        startTime: toStoredTime(slot.startTime),
+        endTime: toStoredTime(slot.endTime),
+        start,
+        end
+      })
+    }
+  }
+
+  planned.sort((a, b) => a.start.getTime() - b.start.getTime())
+  return { planned, skipped }
+}
+
+/**
+ * 수동으로 여는 세션의 날짜/시작/종료 시각 결정
+ *
+ * 지금이 시간표 수업 시간(또는 시작 직전 openEarlyMinutes 이내)이면 해당 수업 시각을,
+ * 아니면 지금부터 기본 수업 시간만큼을 사용합니다.
+ */
+export function resolveManualSessionTimes(
+  schedule: CourseScheduleSlot[],
+  now: Date
+): { date: string; startTime: string; endTime: string; fromSchedule: boolean } {
+  const window = findScheduleWindowAt(schedule, now)
+  const opensAt = window ? window.start.getTime() - SESSION_SCHEDULE_CONFIG.openEarlyMinutes * 60 * 1000 : null
+
+  if (window && opensAt !== null && now.getTime() >= opensAt) {
+    return {
+      date: toCampusLocal(window.start).date,
+      startTime: toStoredTime(window.slot.startTime),
+      endTime: toStoredTime(window.slot.endTime),
+      fromSchedule: true
+    }
+  }
+
+  const end = new Date(now.getTime() + SESSION_SCHEDULE_CONFIG.defaultDurationMinutes * 60 * 1000)
+  return {
+    date: toCampusLocal(now).date,
+    startTime: formatCampusTime(now),
+    endTime: formatCampusTime(end),
+    fromSchedule: false
+  }
+}
+
+/**
+ * 교수가 지금 QR을 띄울 때 사용할 기존 예정/진행 세션 찾기
+ */
+export async function findOpenableScheduledSession(
+  supabase: SupabaseClient<Database>,
+  courseId: string,
+  now: Date
+) {
+  const today = toCampusLocal(now).date
+  const { data, error } = await supabase
+    .from('class_sessions')
+    .select('id, course_id, status, date, start_time, end_time, created_at, updated_at')
+    .eq('course_id', courseId)
+    .eq('date', today)
+    .in('status', ['scheduled', 'active'])
+    .not('start_time', 'is', null)
+    .order('start_time', { ascending: true })
+
+  if (error || !data) {
+    return null
+  }
+
+  const openEarlyMs = SESSION_SCHEDULE_CONFIG.openEarlyMinutes * 60 * 1000
+  return data.find((session) => {
+    const { start, end } = resolveSessionWindow(session)
+    return start !== null && end !== null &&
+      now.getTime() >= start.getTime() - openEarlyMs &&
+      now.getTime() < end.getTime()
+  }) ?? null
+}
+
+/**
+ * 강의 시간표를 lookahead 기간의 'scheduled' 세션으로 생성 (이미 있는 수업은 건너뜀)
+ */
+export async function scheduleUpcomingSessions(
+  supabase: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<{ created: number; skipped: SkippedSession[] }> {
+  if (!(await hasCourseScheduleColumn(supabase))) {
+    return { created: 0, skipped: [] }
+  }
+
+  const { data: courses, error: coursesError } = await supabase
+    .from('courses')
+    .select('id, schedule')
+
+  if (coursesError) {
+    throw coursesError
+  }
+
+  const plans = (courses ?? [])
+    .map((course) => ({ courseId: course.id, ...planCourseSessions(parseCourseSchedule(course.schedule), now) }))
+    .filter((plan) => plan.planned.length > 0 || plan.skipped.length > 0)
+
+  const courseIds = plans.filter((plan) => plan.planned.length > 0).map((plan) => plan.courseId)
+  const skipped = plans.flatMap((plan) => plan.skipped)
+  if (courseIds.length === 0) {
+    return { created: 0, skipped }
+  }
+
+  const firstDate = toCampusLocal(now).date
+  const lastDate = toCampusLocal(new Date(now.getTime() + SESSION_SCHEDULE_CONFIG.lookaheadDays * DAY_MS)).date
+  const { data: existing, error: existingError } = await supabase
+    .from('class_sessions')
+    .select('course_id, date, start_time')
+    .in('course_id', courseIds)
+    .gte('date', firstDate)
+    .lte('date', lastDate)
+
+  if (existingError) {
+    throw existingError
+  }
+
+  const existingKeys = new Set(
+    (existing ?? []).map((session) => sessionKey(session.course_id ?? '', session.date, session.start_time))
+  )
+
+  const inserts: SessionInsert[] = []
+  for (const plan of plans) {
+    for (const planned of plan.planned) {
+      if (existingKeys.has(sessionKey(plan.courseId, planned.date, planned.startTime))) {
+        continue
+      }
+
+      const sessionId = randomUUID()
+      const expiresAt = planned.end.toISOString()
+      inserts.push({
+        id: sessionId,
+        course_id: plan.courseId,
+        date: planned.date,
+        start_time: planned.startTime,
+        end_time: planned.endTime,
+        status: 'scheduled',
+        qr_code: JSON.stringify({ sessionId, courseId: plan.courseId, expiresAt, type: 'attendance' }),
+        qr_code_expires_at: expiresAt
+      })
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase.from('class_sessions').insert(inserts)
+    if (insertError) {
+      throw insertError
+    }
+  }
+
+  return { created: inserts.length, skipped }
+}
+
+/**
+ * 예정/진행 세션의 상태를 시작·종료 시각에 맞춰 동기화
+ */
+export async function syncSessionStatuses(
+  supabase: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<{ activated: number; ended: number }> {
+  const today = toCampusLocal(now).date
+  const { data: sessions, error } = await supabase
+    .from('class_sessions')
+    .select('id, course_id, status, date, start_time, end_time, created_at, updated_at')
+    .in('status', ['scheduled', 'active'])
+    .lte('date', today)
+
+  if (error) {
+    throw error
+  }
+
+  let activated = 0
+  let ended = 0
+  for (const session of sessions ?? []) {
+    if (!session.course_id) {
+      continue
+    }
+
+    const result = await autoEndSessionIfNeeded(supabase, { ...session, course_id: session.course_id })
+    if (result.autoEnded) ended += 1
+    if (result.autoActivated) activated += 1
+  }
+
+  return { activated, ended }
+}
+
+/**
+ * 스케줄러 1회 실행 (세션 생성 → 상태 동기화)
+ */
+export async function runSessionScheduler(
+  supabase: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<SchedulerRunResult> {
+  const { created, skipped } = await scheduleUpcomingSessions(supabase, now)
+  const { activated, ended } = await syncSessionStatuses(supabase, now)
+  return { created, skipped, activated, ended }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  buildAttendanceEvents,
+  buildSignalEvents,
+  formatSseEvent,
+  parseLastEventId,
+  type AttendanceEventRow
+} from './session-events'
+
+const ms = (iso: string) => Date.parse(iso)
+
+const attendance = (overrides: Partial<AttendanceEventRow>): AttendanceEventRow => ({
+  id: 'att-1',
+  student_id: 'student-1',
+  status: 'present',
+  check_in_time: '2025-03-04T01:00:00.000Z',
+  created_at: '2025-03-04T01:00:00.000Z',
+  updated_at: '2025-03-04T01:00:00.000Z',
+  ...overrides
+})
+
+test('buildAttendanceEvents separates new check-ins from later status changes', () => {
+  const rows = [
+    attendance({ id: 'new', created_at: '2025-03-04T01:00:05.000Z', updated_at: '2025-03-04T01:00:05.200Z' }),
+    attendance({ id: 'changed', status: 'left_early', updated_at: '2025-03-04T01:00:07.000Z' }),
+    attendance({ id: 'old' })
+  ]
+
+  const events = buildAttendanceEvents(rows, ms('2025-03-04T01:00:01.000Z'), ms('2025-03-04T01:00:10.000Z'))
+
+  assert.deepStrictEqual(
+    events.map((event) => [event.type, event.data.attendanceId]),
+    [['checkin', 'new'], ['status_change', 'changed']]
+  )
+})
+
+test('buildAttendanceEvents skips updates that keep an already announced status', () => {
+  const known = new Map([['heartbeat-only', 'present'], ['changed', 'present']])
+  const rows = [
+    attendance({ id: 'heartbeat-only', updated_at: '2025-03-04T01:00:07.000Z' }),
+    attendance({ id: 'changed', status: 'left_early', updated_at: '2025-03-04T01:00:08.000Z' })
+  ]
+  const since = ms('2025-03-04T01:00:01.000Z')
+  const until = ms('2025-03-04T01:00:10.000Z')
+
+  assert.deepStrictEqual(
+    buildAttendanceEvents(rows, since, until, known).map((event) => event.data.attendanceId),
+    ['changed']
+  )
+  assert.strictEqual(known.get('changed'), 'left_early')
+  assert.deepStrictEqual(buildAttendanceEvents(rows, since, until, known), [])
+})
+
+test('buildSignalEvents reports only transitions since the previous poll', () => {
+  const state = (attendanceId: string, signalLost: boolean, status = 'present') => ({
+    attendanceId,
+    studentId: `student-${attendanceId}`,
+    status,
+    lastSeenAt: '2025-03-04T01:01:00.000Z',
+    signalLost,
+    needsReview: false
+  })
+  const silent = new Set(['still', 'back', 'gone'])
+  const at = ms('2025-03-04T01:05:00.000Z')
+
+  const events = buildSignalEvents(
+    [state('lost', true), state('still', true), state('back', false), state('gone', false, 'left_early')],
+    silent,
+    at
+  )
+
+  assert.deepStrictEqual(
+    events.map((event) => [event.type, event.data.attendanceId]),
+    [['heartbeat_gap', 'lost'], ['heartbeat_resumed', 'back']]
+  )
+  assert.deepStrictEqual(Array.from(silent).sort(), ['lost', 'still'])
+})
+
+test('SSE ids round-trip through Last-Event-ID', () => {
+  const event = { type: 'checkin' as const, at: 1741050005000, data: { attendanceId: 'a' } }
+
+  assert.strictEqual(formatSseEvent(event), 'id: 1741050005000\nevent: checkin\ndata: {"attendanceId":"a"}\n\n')
+  assert.strictEqual(parseLastEventId('1741050005000'), 1741050005000)
+  assert.strictEqual(parseLastEventId('abc'), null)
+  assert.strictEqual(parseLastEventId(null), null)
+})
@@ -0,0 +1,170 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+import type { SignalState } from '@/lib/attendance/signal-lost'
+
+/**
+ * 교수 대시보드 세션 이벤트 (SSE)
+ *
+ * Supabase Realtime 대신 DB 를 주기적으로 조회해 (since, until] 구간에 생긴 변화를 이벤트로 만듭니다.
+ * 이벤트 id 는 발생 시각(epoch ms)이므로 Last-Event-ID 로 재연결하면 그 이후 이벤트부터 다시 보냅니다.
+ * 신호 끊김은 연결마다 ready 이벤트로 현재 목록을 보내고, 이후 조회 사이에 바뀐 학생만 이벤트로 보냅니다.
+ */
+
+export type SessionEventType =
+  | 'ready'
+  | 'checkin'
+  | 'status_change'
+  | 'heartbeat_gap'
+  | 'heartbeat_resumed'
+  | 'session_end'
+
+export interface SessionEvent {
+  type: SessionEventType
+  /** 발생 시각 (epoch ms), SSE id 로 사용 */
+  at: number
+  data: Record<string, unknown>
+}
+
+export interface AttendanceEventRow {
+  id: string
+  student_id: string
+  status: string
+  check_in_time: string | null
+  late_minutes?: number | null
+  created_at: string
+  updated_at: string
+}
+
+// 체크인 insert 와 같은 요청 안의 후속 update 는 상태 변경으로 보지 않음
+const STATUS_CHANGE_MIN_DELAY_MS = 1000
+
+const EVENT_ORDER: Record<SessionEventType, number> = {
+  ready: 0,
+  checkin: 1,
+  status_change: 2,
+  heartbeat_gap: 3,
+  heartbeat_resumed: 4,
+  session_end: 5
+}
+
+function inWindow(ms: number, sinceMs: number, untilMs: number): boolean {
+  return Number.isFinite(ms) && ms > sinceMs && ms <= untilMs
+}
+
+export function parseLastEventId(raw: string | null | undefined): number | null {
+  if (!raw || !/^\d+$/.test(raw.trim())) {
+    return null
+  }
+  const value = Number(raw.trim())
+  return Number.isSafeInteger(value) && value > 0 ? value : null
+}
+
+export function formatSseEvent(event: SessionEvent): string {
+  return `id: ${event.at}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
+
+export function sortSessionEvents(events: SessionEvent[]): SessionEvent[] {
+  return [...events].sort((a, b) => a.at - b.at || EVENT_ORDER[a.type] - EVENT_ORDER[b.type])
+}
+
+/**
+ * 새 출석 기록은 checkin, 이후 수정(수동 변경, 조퇴 판정, 세션 종료 처리)은 status_change
+ *
+ * knownStatuses 를 넘기면 이미 보낸 상태와 같은 수정(heartbeat 갱신, 확인 필요 표시 등)은 건너뛰고
+ * 보낸 상태를 기록합니다.
+ */
+export function buildAttendanceEvents(
+  rows: AttendanceEventRow[],
+  sinceMs: number,
+  untilMs: number,
+  knownStatuses?: Map<string, string>
+): SessionEvent[] {
+  const events: SessionEvent[] = []
+  for (const row of rows) {
+    const createdMs = Date.parse(row.created_at)
+    const updatedMs = Date.parse(row.updated_at)
+
+    if (inWindow(createdMs, sinceMs, untilMs)) {
+      knownStatuses?.set(row.id, row.status)
+      events.push({
+        type: 'checkin',
+        at: createdMs,
+        data: {
+          attendanceId: row.id,
+          studentId: row.student_id,
+          status: row.status,
+          checkInTime: row.check_in_time,
+          lateMinutes: row.late_minutes ?? null
+        }
+      })
+    } else if (inWindow(updatedMs, sinceMs, untilMs) && updatedMs - createdMs >= STATUS_CHANGE_MIN_DELAY_MS) {
+      if (knownStatuses?.get(row.id) === row.status) {
+        continue
+      }
+      knownStatuses?.set(row.id, row.status)
+      events.push({
+        type: 'status_change',
+        at: updatedMs,
+        data: { attendanceId: row.id, studentId: row.student_id, status: row.status }
+      })
+    }
+  }
+  return events
+}
+
+/**
+ * 직전 조회 이후 신호가 끊긴 학생은 heartbeat_gap, 다시 들어온 학생은 heartbeat_resumed
+ *
+ * silentIds 는 지금까지 끊김으로 보낸 출석 기록이며, 이벤트에 맞춰 갱신합니다.
+ * 끊긴 채 조퇴/결석으로 바뀐 기록은 status_change 로 전달되므로 목록에서만 뺍니다.
+ */
+export function buildSignalEvents(
+  states: SignalState[],
+  silentIds: Set<string>,
+  atMs: number
+): SessionEvent[] {
+  const events: SessionEvent[] = []
+  for (const state of states) {
+    const wasSilent = silentIds.has(state.attendanceId)
+    if (state.signalLost && !wasSilent) {
+      silentIds.add(state.attendanceId)
+      events.push({
+        type: 'heartbeat_gap',
+        at: atMs,
+        data: { attendanceId: state.attendanceId, studentId: state.studentId, lastHeartbeatAt: state.lastSeenAt }
+      })
+    } else if (!state.signalLost && wasSilent) {
+      silentIds.delete(state.attendanceId)
+      if (state.status === 'present' || state.status === 'late') {
+        events.push({
+          type: 'heartbeat_resumed',
+          at: atMs,
+          data: { attendanceId: state.attendanceId, studentId: state.studentId, lastHeartbeatAt: state.lastSeenAt }
+        })
+      }
+    }
+  }
+  return events
+}
+
+/**
+ * (since, until] 구간의 체크인/상태 변경 이벤트 조회
+ */
+export async function loadAttendanceEvents(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  sinceMs: number,
+  untilMs: number,
+  knownStatuses?: Map<string, string>
+): Promise<SessionEvent[]> {
+  const { data: attendances, error } = await supabase
+    .from('attendances')
+    .select('id, student_id, status, check_in_time, late_minutes, created_at, updated_at')
+    .eq('session_id', sessionId)
+    .gt('updated_at', new Date(sinceMs).toISOString())
+  if (error) {
+    throw error
+  }
+
+  return buildAttendanceEvents(attendances ?? [], sinceMs, untilMs, knownStatuses)
+}
@@ -1,6 +1,7 @@
 import { test } from 'node:test'
 import { strict as assert } from 'node:assert'
-import { autoEndSessionIfNeeded, calculateAutoEndAt } from './session-service'
+import { autoEndSessionIfNeeded, calculateAutoEndAt, finalizeAttendanceRecords } from './session-service'
+import { resetCourseSchemaSupportCache } from '@/lib/courses/schemaSupport'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 const mockSupabase = {
@@ -15,6 +16,22 @@ test('calculateAutoEndAt returns overdue for past sessions', () => {
   assert.strictEqual(isOverdue, true)
 })
 
+test('calculateAutoEndAt prefers the stored end_time over the default duration', () => {
+  const session = {
+    date: '2025-03-04',
+    start_time: '09:00:00',
+    end_time: '10:30:00',
+    created_at: '2025-03-03T23:50:00.000Z'
+  }
+
+  const beforeEnd = calculateAutoEndAt(session, Date.parse('2025-03-04T01:29:00.000Z'))
+  assert.strictEqual(beforeEnd.autoEndAt, '2025-03-04T01:30:00.000Z')
+  assert.strictEqual(beforeEnd.isOverdue, false)
+
+  const afterEnd = calculateAutoEndAt(session, Date.parse('2025-03-04T01:30:00.000Z'))
+  assert.strictEqual(afterEnd.isOverdue, true)
+})
+
 test('autoEndSessionIfNeeded marks overdue sessions as ended', async () => {
   await test.todo('Supabase mock을 구현하고 autoEndSessionIfNeeded가 끝난 세션을 종료하는지 검증한다')
 
@@ -26,3 +43,53 @@ test('autoEndSessionIfNeeded marks overdue sessions as ended', async () => {
     course_id: '00000000-0000-0000-0000-000000000001'
   })
 })
+
+test('finalizeAttendanceRecords judges signal loss and check-out at the session end time', async () => {
+  resetCourseSchemaSupportCache()
+  const endedAt = '2025-03-04T01:30:00.000Z'
+  const updates: Array<{ values: Record<string, unknown>; filters: Array<[string, unknown]> }> = []
+  const selects = [
+    { data: [], error: null },
+    {
+      data: [
+        // 종료 30초 전까지 heartbeat: 자동 종료가 늦게 실행되어도 신호 끊김이 아님
+        { id: 'att-1', student_id: '20250001', status: 'present', check_in_time: '2025-03-04T00:05:00.000Z', created_at: '2025-03-04T00:05:00.000Z', last_heartbeat_at: '2025-03-04T01:29:30.000Z', review_reason: null },
+        { id: 'att-2', student_id: '20250002', status: 'late', check_in_time: '2025-03-04T00:20:00.000Z', created_at: '2025-03-04T00:20:00.000Z', last_heartbeat_at: '2025-03-04T01:10:00.000Z', review_reason: null }
+      ],
+      error: null
+    },
+    { data: [{ id: 'att-1', status: 'present' }, { id: 'att-2', status: 'late' }], error: null }
+  ]
+
+  const supabase = {
+    from() {
+      let update: (typeof updates)[number] | null = null
+      const builder = {
+        select: () => builder,
+        limit: () => builder,
+        eq(column: string, value: unknown) {
+          update?.filters.push([column, value])
+          return builder
+        },
+        in: () => builder,
+        update(values: Record<string, unknown>) {
+          update = { values, filters: [] }
+          updates.push(update)
+          return builder
+        },
+        maybeSingle: () => Promise.resolve({ data: { id: update?.filters[0]?.[1] }, error: null }),
+        then(resolve: (value: { data: unknown; error: unknown }) => void) {
+          resolve(update ? { data: null, error: null } : selects.shift() ?? { data: null, error: null })
+        }
+      }
+      return builder
+    }
+  } as unknown as SupabaseClient
+
+  const { signalLost } = await finalizeAttendanceRecords(supabase, 'session-1', endedAt)
+  resetCourseSchemaSupportCache()
+
+  assert.deepStrictEqual(signalLost, { policy: 'review', attendanceIds: ['att-2'] })
+  assert.strictEqual(updates[0].values.updated_at, endedAt)
+  assert.strictEqual(updates[1].values.check_out_time, endedAt)
+})
@@ -1,87 +1,146 @@
 import { SupabaseClient } from '@supabase/supabase-js'
+import { SESSION_SCHEDULE_CONFIG } from '@/lib/config/attendance-config'
+import { resolveSessionWindow } from '@/lib/session/schedule'
+import { applySignalLostPolicy, type SignalLostPolicy } from '@/lib/attendance/signal-lost'
+
+export interface SessionTiming {
+  date?: string | null
+  start_time?: string | null
+  end_time?: string | null
+  created_at?: string | null
+}
 
-const AUTO_END_AFTER_MS = 2 * 60 * 60 * 1000 // 2시간
-
-export interface SessionRow {
+export interface SessionRow extends SessionTiming {
   id: string
   status: string
-  created_at?: string | null
   updated_at?: string | null
   course_id: string
 }
 
-export interface FinalizeResult {
-  stats: {
-    total: number
-    present: number
-    late: number
-    absent: number
-    left_early: number
-    attendance_rate: number
-  }
+export interface AttendanceStats {
+  total: number
+  present: number
+  late: number
+  absent: number
+  left_early: number
+  attendance_rate: number
 }
 
-export const AUTO_END_AFTER_HOURS = 2
+export interface FinalizeResult {
+  stats: AttendanceStats
+  /** 신호가 끊긴 채 종료되어 정책이 적용된 출석 기록 */
+  signalLost: { policy: SignalLostPolicy; attendanceIds: string[] }
+}
 
-export function calculateAutoEndAt(createdAt?: string | null) {
-  if (!createdAt) {
-    return { autoEndAt: null, isOverdue: false }
+/**
+ * 세션 자동 종료 시각 계산
+ *
+ * 1순위: class_sessions.date + end_time (시간표/세션 생성 시 저장된 종료 시각)
+ * 2순위: created_at + 기본 수업 시간 (end_time 이 없는 기존 세션)
+ * 문자열을 넘기면 created_at 으로 간주합니다.
+ */
+export function calculateAutoEndAt(session?: SessionTiming | string | null, now: number = Date.now()) {
+  const timing: SessionTiming = typeof session === 'string' ? { created_at: session } : session ?? {}
+
+  const { end } = resolveSessionWindow(timing)
+  let autoEndAtMs = end ? end.getTime() : null
+
+  if (autoEndAtMs === null && timing.created_at) {
+    const createdAtMs = Date.parse(timing.created_at)
+    if (!Number.isNaN(createdAtMs)) {
+      autoEndAtMs = createdAtMs + SESSION_SCHEDULE_CONFIG.defaultDurationMinutes * 60 * 1000
+    }
   }
 
-  const createdAtMs = Date.parse(createdAt)
-  if (Number.isNaN(createdAtMs)) {
+  if (autoEndAtMs === null) {
     return { autoEndAt: null, isOverdue: false }
   }
 
-  const autoEndAtMs = createdAtMs + AUTO_END_AFTER_MS
   return {
     autoEndAt: new Date(autoEndAtMs).toISOString(),
-    isOverdue: Date.now() >= autoEndAtMs
+    isOverdue: now >= autoEndAtMs
   }
 }
 
+/**
+ * 예정(scheduled) 세션의 자동 시작 여부
+ */
+export function isSessionDueToStart(session: SessionRow, now: number = Date.now()): boolean {
+  if (session.status !== 'scheduled') {
+    return false
+  }
+
+  const { start } = resolveSessionWindow(session)
+  return start !== null && now >= start.getTime()
+}
+
+/**
+ * 출석 상태 목록 집계
+ *
+ * 출석률 = (출석 + 지각) / 전체 기록 수, 백분율 반올림
+ */
+export function summarizeAttendanceStatuses(statuses: Array<string | null | undefined>): AttendanceStats {
+  const stats: AttendanceStats = {
+    total: statuses.length,
+    present: statuses.filter((status) => status === 'present').length,
+    late: statuses.filter((status) => status === 'late').length,
+    absent: statuses.filter((status) => status === 'absent').length,
+    left_early: statuses.filter((status) => status === 'left_early').length,
+    attendance_rate: 0
+  }
+
+  stats.attendance_rate = stats.total > 0
+    ? Math.round(((stats.present + stats.late) / stats.total) * 100)
+    : 0
+
+  return stats
+}
+
+/**
+ * 세션 종료 시각(endedAt) 기준으로 출석 기록 마감
+ *
+ * 자동 종료는 수업 종료 시각보다 늦게 실행될 수 있으므로, 신호 끊김과 퇴실 시각은 실행 시각이 아닌 endedAt 으로 판정합니다.
+ */
 export async function finalizeAttendanceRecords(
   supabase: SupabaseClient,
-  sessionId: string
+  sessionId: string,
+  endedAt: string
 ): Promise<FinalizeResult> {
+  // 조퇴 처리 정책이면 집계 전에 상태가 바뀌어야 하므로 먼저 적용
+  let signalLost: FinalizeResult['signalLost'] = { policy: 'keep', attendanceIds: [] }
+  try {
+    signalLost = await applySignalLostPolicy(supabase, sessionId, Date.parse(endedAt))
+  } catch (error) {
+    // 신호 끊김 처리 실패로 세션 종료가 막히지 않도록 기록만 남김
+    console.error('[Signal Lost] 정책 적용 실패:', error)
+  }
+
   const { data: attendances } = await supabase
     .from('attendances')
     .select('id, status')
     .eq('session_id', sessionId)
 
   const attendanceList = Array.isArray(attendances) ? attendances : []
+  const stats = summarizeAttendanceStatuses(attendanceList.map((a) => a.status))
 
-  const stats = {
-    total: attendanceList.length,
-    present: attendanceList.filter((a) => a.status === 'present').length,
-    late: attendanceList.filter((a) => a.status === 'late').length,
-    absent: attendanceList.filter((a) => a.status === 'absent').length,
-    left_early: attendanceList.filter((a) => a.status === 'left_early').length,
-    attendance_rate: 0
-  }
-
-  stats.attendance_rate = stats.total > 0
-    ? Math.round(((stats.present + stats.late) / stats.total) * 100)
-    : 0
-
-  if (stats.present > 0) {
+  if (stats.present + stats.late > 0) {
     await supabase
       .from('attendances')
       .update({
-        check_out_time: new Date().toISOString(),
+        check_out_time: endedAt,
         updated_at: new Date().toISOString()
       })
       .eq('session_id', sessionId)
-      .eq('status', 'present')
+      .in('status', ['present', 'late'])
   }
 
-  return { stats }
+  return { stats, signalLost }
 }
 
 export async function markSessionEnded(
   supabase: SupabaseClient,
   sessionId: string
-): Promise<{ endedAt: string | null }> {
+): Promise<{ endedAt: string }> {
   const endedAt = new Date().toISOString()
 
   await supabase
@@ -95,23 +154,62 @@ export async function markSessionEnded(
   return { endedAt }
 }
 
+export async function markSessionActive(
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<{ activatedAt: string }> {
+  const activatedAt = new Date().toISOString()
+
+  await supabase
+    .from('class_sessions')
+    .update({
+      status: 'active',
+      updated_at: activatedAt
+    })
+    .eq('id', sessionId)
+    .eq('status', 'scheduled')
+
+  return { activatedAt }
+}
+
+/**
+ * 세션 시각에 맞춰 상태 동기화
+ *
+ * - 종료 시각이 지난 세션: 'ended' 로 변경 후 출석 집계
+ * - 시작 시각이 지난 예정 세션: 'active' 로 변경
+ */
 export async function autoEndSessionIfNeeded<T extends SessionRow>(
   supabase: SupabaseClient,
   session: T
 ): Promise<{
   session: T
   autoEnded: boolean
+  autoActivated?: boolean
   autoEndAt: string | null
   finalizeResult?: FinalizeResult
 }> {
-  const { autoEndAt, isOverdue } = calculateAutoEndAt(session.created_at)
+  const { autoEndAt, isOverdue } = calculateAutoEndAt(session)
 
-  if (!isOverdue || session.status === 'ended') {
+  if (session.status === 'ended') {
     return { session, autoEnded: false, autoEndAt }
   }
 
-  await markSessionEnded(supabase, session.id)
-  const finalizeResult = await finalizeAttendanceRecords(supabase, session.id)
+  if (!isOverdue) {
+    if (!isSessionDueToStart(session)) {
+      return { session, autoEnded: false, autoEndAt }
+    }
+
+    const { activatedAt } = await markSessionActive(supabase, session.id)
+    return {
+      session: { ...session, status: 'active', updated_at: activatedAt },
+      autoEnded: false,
+      autoActivated: true,
+      autoEndAt
+    }
+  }
+
+  const { endedAt } = await markSessionEnded(supabase, session.id)
+  const finalizeResult = await finalizeAttendanceRecords(supabase, session.id, autoEndAt ?? endedAt)
 
   const updatedSession = {
     ...session,
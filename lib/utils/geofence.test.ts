@@ -0,0 +1,111 @@
+import { test } from 'node:test'
+import { strict as assert } from 'node:assert'
+import {
+  measureGeofence,
+  parseGeoJSONPolygon,
+  polygonCentroid,
+  polygonEnclosingCircle,
+  toPolygonGeofence,
+  type GeoJSONPolygon
+} from './geofence'
+
+// 위도 0.001° ≈ 111m, 경도 0.001° ≈ 88m (위도 37.5°)
+const SQUARE: GeoJSONPolygon = {
+  type: 'Polygon',
+  coordinates: [[
+    [127.000, 37.500],
+    [127.001, 37.500],
+    [127.001, 37.501],
+    [127.000, 37.501],
+    [127.000, 37.500]
+  ]]
+}
+
+test('parseGeoJSONPolygon accepts features and JSON strings and closes open rings', () => {
+  const openRing = [[127.000, 37.500], [127.001, 37.500], [127.001, 37.501]]
+  const parsed = parseGeoJSONPolygon(JSON.stringify({
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'Polygon', coordinates: [openRing] }
+  }))
+
+  assert.ok(parsed)
+  assert.strictEqual(parsed.coordinates[0].length, 4)
+  assert.deepStrictEqual(parsed.coordinates[0][3], [127.000, 37.500])
+})
+
+test('parseGeoJSONPolygon rejects degenerate, invalid and oversized polygons', () => {
+  assert.strictEqual(parseGeoJSONPolygon({ type: 'Point', coordinates: [127, 37.5] }), null)
+  assert.strictEqual(parseGeoJSONPolygon({ type: 'Polygon', coordinates: [[[127, 37.5], [127.001, 37.5]]] }), null)
+  assert.strictEqual(parseGeoJSONPolygon({ type: 'Polygon', coordinates: [[[127, 95], [127.001, 37.5], [127, 37.501]]] }), null)
+  assert.strictEqual(parseGeoJSONPolygon('not json'), null)
+  assert.strictEqual(parseGeoJSONPolygon(SQUARE, 3), null)
+})
+
+test('measureGeofence treats points inside the polygon as distance 0', () => {
+  const geofence = { type: 'polygon' as const, polygon: SQUARE, bufferMeters: 0 }
+  const result = measureGeofence(37.5005, 127.0005, 10, geofence)
+
+  assert.strictEqual(result.distance, 0)
+  assert.strictEqual(result.isInside, true)
+})
+
+test('measureGeofence widens the boundary by buffer plus capped accuracy', () => {
+  // 북쪽 경계에서 약 22m 바깥
+  const latitude = 37.5012
+  const longitude = 127.0005
+  const geofence = { type: 'polygon' as const, polygon: SQUARE, bufferMeters: 5 }
+
+  const precise = measureGeofence(latitude, longitude, 5, geofence)
+  assert.ok(Math.abs(precise.distance - 22.2) < 0.5)
+  assert.strictEqual(precise.allowedDistance, 10)
+  assert.strictEqual(precise.isInside, false)
+
+  const coarse = measureGeofence(latitude, longitude, 18, geofence)
+  assert.strictEqual(coarse.isInside, true)
+
+  // 정확도를 크게 보고해도 여유는 상한(20m)까지만 인정
+  const inflated = measureGeofence(37.5015, longitude, 500, geofence)
+  assert.strictEqual(inflated.accuracyMargin, 20)
+  assert.strictEqual(inflated.isInside, false)
+})
+
+test('measureGeofence excludes holes from the polygon', () => {
+  const withHole = parseGeoJSONPolygon({
+    type: 'Polygon',
+    coordinates: [
+      SQUARE.coordinates[0],
+      [[127.0004, 37.5004], [127.0006, 37.5004], [127.0006, 37.5006], [127.0004, 37.5006]]
+    ]
+  })
+  assert.ok(withHole)
+
+  const result = measureGeofence(37.5005, 127.0005, 0, { type: 'polygon', polygon: withHole, bufferMeters: 0 })
+  assert.ok(result.distance > 0)
+  assert.strictEqual(result.isInside, false)
+})
+
+test('measureGeofence keeps circles accuracy-independent', () => {
+  const circle = { type: 'circle' as const, latitude: 37.5, longitude: 127, radius: 50 }
+  const result = measureGeofence(37.5006, 127, 100, circle)
+
+  assert.strictEqual(result.accuracyMargin, 0)
+  assert.strictEqual(result.isInside, false)
+})
+
+test('polygonCentroid and polygonEnclosingCircle summarize the polygon', () => {
+  const centroid = polygonCentroid(SQUARE)
+  assert.ok(Math.abs(centroid.latitude - 37.5005) < 1e-6)
+  assert.ok(Math.abs(centroid.longitude - 127.0005) < 1e-6)
+
+  const circle = polygonEnclosingCircle(SQUARE, 10)
+  // 대각선 절반 ≈ 71m + 버퍼 10m
+  assert.ok(circle.radius >= 80 && circle.radius <= 83)
+})
+
+test('toPolygonGeofence clamps buffer and falls back to default', () => {
+  assert.strictEqual(toPolygonGeofence(SQUARE, 999)?.bufferMeters, 50)
+  assert.strictEqual(toPolygonGeofence(SQUARE, -3)?.bufferMeters, 0)
+  assert.strictEqual(toPolygonGeofence(SQUARE, null)?.bufferMeters, 5)
+  assert.strictEqual(toPolygonGeofence({ type: 'Polygon', coordinates: [] }, 10), null)
+})
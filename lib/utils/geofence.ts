@@ -0,0 +1,343 @@
+/**
+ * 강의실 경계(geofence) 판정 유틸리티
+ *
+ * 기존 원형 반경 외에 GeoJSON Polygon 경계를 지원합니다.
+ * 다각형은 버퍼와 GPS 정확도만큼 경계를 넓혀 판정하며,
+ * 원형은 evaluateLocation 과 동일하게 실제 거리만으로 판정합니다.
+ */
+
+import { GEOFENCE_CONFIG } from '@/lib/config/attendance-config'
+import { calculateDistance, evaluateLocation, isValidCoordinates, type LocationEvaluationResult } from '@/lib/utils/geo'
+
+const EARTH_RADIUS_METERS = 6371000
+
+/** GeoJSON 좌표 순서: [경도, 위도] */
+export type GeoJSONPosition = [number, number]
+
+export interface GeoJSONPolygon {
+  type: 'Polygon'
+  /** 첫 번째 링은 외곽선, 나머지는 구멍 (각 링은 닫힌 상태로 정규화됨) */
+  coordinates: GeoJSONPosition[][]
+}
+
+export interface CircleGeofence {
+  type: 'circle'
+  latitude: number
+  longitude: number
+  radius: number
+}
+
+export interface PolygonGeofence {
+  type: 'polygon'
+  polygon: GeoJSONPolygon
+  bufferMeters: number
+}
+
+export type ClassroomGeofence = CircleGeofence | PolygonGeofence
+
+export interface GeofenceMeasurement {
+  /** 경계까지의 거리 (원형: 중심까지, 다각형: 내부면 0) */
+  distance: number
+  /** 허용 거리 (원형: 반경, 다각형: 버퍼 + 정확도 여유) */
+  allowedDistance: number
+  /** 판정에 반영된 GPS 정확도 여유 (원형은 항상 0) */
+  accuracyMargin: number
+  isInside: boolean
+}
+
+export interface GeofenceEvaluationResult extends LocationEvaluationResult {
+  shape: ClassroomGeofence['type']
+  accuracyMargin: number
+}
+
+interface LocalPoint {
+  x: number
+  y: number
+}
+
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    isValidCoordinates(value[1], value[0])
+}
+
+function normalizeRing(value: unknown): GeoJSONPosition[] | null {
+  if (!Array.isArray(value) || !value.every(isPosition)) {
+    return null
+  }
+
+  const ring = value.map((position) => [position[0], position[1]] as GeoJSONPosition)
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  if (first && last && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]])
+  }
+
+  const distinct = new Set(ring.map(([lng, lat]) => `${lng},${lat}`))
+  return distinct.size >= 3 ? ring : null
+}
+
+/**
+ * GeoJSON Polygon (또는 Polygon Feature, JSON 문자열) 파싱 및 정규화
+ *
+ * 닫히지 않은 링은 자동으로 닫고, 유효하지 않거나 꼭짓점이 너무 많으면 null 을 반환합니다.
+ */
+export function parseGeoJSONPolygon(
+  input: unknown,
+  maxVertices: number = GEOFENCE_CONFIG.maxVertices
+): GeoJSONPolygon | null {
+  let value = input
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const record = value as { type?: unknown; geometry?: unknown; coordinates?: unknown }
+  if (record.type === 'Feature') {
+    return parseGeoJSONPolygon(record.geometry, maxVertices)
+  }
+  if (record.type !== 'Polygon' || !Array.isArray(record.coordinates) || record.coordinates.length === 0) {
+    return null
+  }
+
+  const rings: GeoJSONPosition[][] = []
+  for (const rawRing of record.coordinates) {
+    const ring = normalizeRing(rawRing)
+    if (!ring) {
+      return null
+    }
+    rings.push(ring)
+  }
+
+  const vertexCount = rings.reduce((sum, ring) => sum + ring.length - 1, 0)
+  if (vertexCount > maxVertices) {
+    return null
+  }
+
+  return { type: 'Polygon', coordinates: rings }
+}
+
+/**
+ * 버퍼 값을 0 ~ maxBufferMeters 범위로 정규화 (없으면 기본값)
+ */
+export function normalizeGeofenceBuffer(value: unknown): number {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    return GEOFENCE_CONFIG.defaultBufferMeters
+  }
+  return Math.min(GEOFENCE_CONFIG.maxBufferMeters, Math.max(0, parsed))
+}
+
+/**
+ * 저장된 GeoJSON 과 버퍼로 다각형 경계 구성 (유효하지 않으면 null)
+ */
+export function toPolygonGeofence(geojson: unknown, buffer?: unknown): PolygonGeofence | null {
+  const polygon = parseGeoJSONPolygon(geojson)
+  if (!polygon) {
+    return null
+  }
+  return { type: 'polygon', polygon, bufferMeters: normalizeGeofenceBuffer(buffer) }
+}
+
+/**
+ * 기준점 주변을 평면(미터)으로 근사 투영
+ *
+ * 강의실 규모(수백 m 이내)에서는 등장방형 근사 오차가 무시할 수준입니다.
+ */
+function projector(originLat: number, originLng: number) {
+  const cosLat = Math.cos((originLat * Math.PI) / 180)
+  return ([lng, lat]: GeoJSONPosition): LocalPoint => ({
+    x: (((lng - originLng) * Math.PI) / 180) * EARTH_RADIUS_METERS * cosLat,
+    y: (((lat - originLat) * Math.PI) / 180) * EARTH_RADIUS_METERS
+  })
+}
+
+function isInsideRing(point: LocalPoint, ring: LocalPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function distanceToSegment(point: LocalPoint, a: LocalPoint, b: LocalPoint): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/**
+ * 점이 다각형 내부에 있는지 확인 (구멍 안은 외부로 취급)
+ */
+export function isPointInPolygon(latitude: number, longitude: number, polygon: GeoJSONPolygon): boolean {
+  const project = projector(latitude, longitude)
+  const origin = { x: 0, y: 0 }
+  const [outer, ...holes] = polygon.coordinates.map((ring) => ring.map(project))
+  return isInsideRing(origin, outer) && !holes.some((hole) => isInsideRing(origin, hole))
+}
+
+/**
+ * 점에서 다각형 경계선(모든 링)까지의 최단 거리 (미터)
+ */
+export function distanceToPolygonBoundary(latitude: number, longitude: number, polygon: GeoJSONPolygon): number {
+  const project = projector(latitude, longitude)
+  const origin = { x: 0, y: 0 }
+  let minDistance = Infinity
+  for (const ring of polygon.coordinates) {
+    const points = ring.map(project)
+    for (let i = 1; i < points.length; i += 1) {
+      minDistance = Math.min(minDistance, distanceToSegment(origin, points[i - 1], points[i]))
+    }
+  }
+  return minDistance
+}
+
+/**
+ * 외곽선의 면적 중심 (면적이 0에 가까우면 꼭짓점 평균)
+ */
+export function polygonCentroid(polygon: GeoJSONPolygon): { latitude: number; longitude: number } {
+  const outer = polygon.coordinates[0]
+  const [originLng, originLat] = outer[0]
+  const project = projector(originLat, originLng)
+  const points = outer.map(project)
+
+  let area = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 1; i < points.length; i += 1) {
+    const cross = points[i - 1].x * points[i].y - points[i].x * points[i - 1].y
+    area += cross
+    cx += (points[i - 1].x + points[i].x) * cross
+    cy += (points[i - 1].y + points[i].y) * cross
+  }
+
+  let centroid: LocalPoint
+  if (Math.abs(area) < 1e-6) {
+    const vertices = points.slice(0, -1)
+    centroid = {
+      x: vertices.reduce((sum, point) => sum + point.x, 0) / vertices.length,
+      y: vertices.reduce((sum, point) => sum + point.y, 0) / vertices.length
+    }
+  } else {
+    centroid = { x: cx / (3 * area), y: cy / (3 * area) }
+  }
+
+  const cosLat = Math.cos((originLat * Math.PI) / 180)
+  return {
+    latitude: originLat + (centroid.y / EARTH_RADIUS_METERS) * (180 / Math.PI),
+    longitude: originLng + (centroid.x / (EARTH_RADIUS_METERS * cosLat)) * (180 / Math.PI)
+  }
+}
+
+/**
+ * 다각형(버퍼 포함)을 감싸는 원 (중심 = 면적 중심)
+ *
+ * classroom_latitude/longitude/radius 만 읽는 기존 화면·로그와의 호환용입니다.
+ */
+export function polygonEnclosingCircle(polygon: GeoJSONPolygon, bufferMeters: number = 0): CircleGeofence {
+  const center = polygonCentroid(polygon)
+  const farthest = polygon.coordinates[0].reduce(
+    (max, [lng, lat]) => Math.max(max, calculateDistance(center.latitude, center.longitude, lat, lng)),
+    0
+  )
+  return {
+    type: 'circle',
+    latitude: center.latitude,
+    longitude: center.longitude,
+    radius: Math.ceil(farthest + bufferMeters)
+  }
+}
+
+/**
+ * 경계 기준 거리/허용치 측정 (개발 환경 예외 없이 순수 계산)
+ *
+ * 다각형은 버퍼 + min(GPS 정확도, maxAccuracyMarginMeters) 만큼 경계를 넓혀 판정합니다.
+ * 원형은 부정 출석 방지를 위해 기존처럼 정확도를 반영하지 않습니다.
+ */
+export function measureGeofence(
+  latitude: number,
+  longitude: number,
+  accuracy: number,
+  geofence: ClassroomGeofence
+): GeofenceMeasurement {
+  if (geofence.type === 'circle') {
+    const distance = calculateDistance(latitude, longitude, geofence.latitude, geofence.longitude)
+    return {
+      distance,
+      allowedDistance: geofence.radius,
+      accuracyMargin: 0,
+      isInside: distance <= geofence.radius
+    }
+  }
+
+  const accuracyMargin = Number.isFinite(accuracy)
+    ? Math.min(Math.max(accuracy, 0), GEOFENCE_CONFIG.maxAccuracyMarginMeters)
+    : 0
+  const allowedDistance = geofence.bufferMeters + accuracyMargin
+  const distance = isPointInPolygon(latitude, longitude, geofence.polygon)
+    ? 0
+    : distanceToPolygonBoundary(latitude, longitude, geofence.polygon)
+
+  return {
+    distance,
+    allowedDistance,
+    accuracyMargin,
+    isInside: distance <= allowedDistance
+  }
+}
+
+/**
+ * 학생 위치가 강의실 경계 안에 있는지 검증
+ *
+ * 원형은 evaluateLocation 에 위임하고, 다각형은 measureGeofence 결과에
+ * evaluateLocation 과 같은 개발 환경 예외를 적용합니다.
+ */
+export function evaluateGeofence(
+  latitude: number,
+  longitude: number,
+  accuracy: number,
+  geofence: ClassroomGeofence
+): GeofenceEvaluationResult {
+  if (geofence.type === 'circle') {
+    const result = evaluateLocation(latitude, longitude, accuracy, geofence.latitude, geofence.longitude, geofence.radius)
+    return { ...result, shape: 'circle', accuracyMargin: 0 }
+  }
+
+  const measurement = measureGeofence(latitude, longitude, accuracy, geofence)
+  const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_ENV === 'development'
+
+  console.log('🔍 [Geofence Validation]', {
+    distanceOutside: Math.round(measurement.distance),
+    bufferMeters: geofence.bufferMeters,
+    accuracyMargin: Math.round(measurement.accuracyMargin),
+    isDevelopment,
+    isLocationValid: isDevelopment || measurement.isInside
+  })
+
+  return {
+    distance: measurement.distance,
+    effectiveDistance: measurement.distance,
+    allowedRadius: measurement.allowedDistance,
+    isLocationValid: isDevelopment || measurement.isInside,
+    shape: 'polygon',
+    accuracyMargin: measurement.accuracyMargin
+  }
+}
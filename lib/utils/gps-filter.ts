@@ -37,6 +37,7 @@ class SimpleKalmanFilter {
   private x: number // 추정값
   private p: number // 추정 오차
   private k: number // 칼만 게인
+  private initialized = false
 
   constructor(options: { R: number; Q: number }) {
     this.q = options.Q
@@ -52,6 +53,14 @@ class SimpleKalmanFilter {
    * @returns 필터링된 값
    */
   filter(measurement: number): number {
+    // 첫 측정값으로 시작 (0 에서 시작하면 첫 위도/경도가 수십 km 어긋남)
+    if (!this.initialized) {
+      this.x = measurement
+      this.p = this.r
+      this.initialized = true
+      return this.x
+    }
+
     // 예측 단계
     this.p = this.p + this.q
 
@@ -1,12 +1,20 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { jwtVerify } from 'jose'
+import { AUTH_TOKEN_CONFIG, getJwtSecretKey } from '@/lib/config/auth-config'
 
 interface SessionData {
   userId: string
-  userType: 'student' | 'professor'
+  userType: 'student' | 'professor' | 'admin'
   name: string
 }
 
+// 역할별 전용 경로 (다른 역할의 경로에 접근하면 자신의 홈으로 이동)
+const ROLE_HOME_PATHS: Record<SessionData['userType'], string> = {
+  student: '/student',
+  professor: '/professor',
+  admin: '/admin'
+}
+
 export async function middleware(request: NextRequest) {
   if (process.env.SKIP_AUTH === 'true') {
     return NextResponse.next()
@@ -15,15 +23,13 @@ export async function middleware(request: NextRequest) {
   const response = NextResponse.next()
 
   // Get auth token from cookies
-  const token = request.cookies.get('auth-token')?.value
+  const token = request.cookies.get(AUTH_TOKEN_CONFIG.accessCookieName)?.value
 
   // Verify token
   let user: SessionData | null = null
   if (token) {
     try {
-      const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-      const secret = new TextEncoder().encode(jwtSecret)
-      const { payload } = await jwtVerify(token, secret)
+      const { payload } = await jwtVerify(token, getJwtSecretKey(), { issuer: AUTH_TOKEN_CONFIG.issuer })
       user = payload as unknown as SessionData
     } catch {
       user = null
@@ -31,7 +37,7 @@ export async function middleware(request: NextRequest) {
   }
 
   // Protected routes
-  const protectedPaths = ['/student', '/professor']
+  const protectedPaths = Object.values(ROLE_HOME_PATHS)
   const authPaths = ['/auth/login', '/auth/signup']
   
   const isProtectedPath = protectedPaths.some(path => 
@@ -44,32 +50,28 @@ export async function middleware(request: NextRequest) {
 
   // Redirect authenticated users away from auth pages
   if (user && isAuthPath) {
-    const redirectUrl = user.userType === 'student' 
-      ? new URL('/student', request.url)
-      : user.userType === 'professor' 
-      ? new URL('/professor', request.url)
-      : new URL('/', request.url)
-
-    return NextResponse.redirect(redirectUrl)
+    const homePath = ROLE_HOME_PATHS[user.userType] ?? '/'
+    return NextResponse.redirect(new URL(homePath, request.url))
   }
 
-  // Redirect unauthenticated users to login
+  // 액세스 토큰이 없거나 만료된 경우 리프레시 토큰으로 갱신 시도
+  // (refresh-token 쿠키는 /api/auth 경로에만 전송되므로 여기서는 읽을 수 없음, 실패 시 로그인 페이지로 이동)
   if (!user && isProtectedPath) {
-    const loginUrl = new URL('/auth/login', request.url)
-    loginUrl.searchParams.set('redirectTo', request.nextUrl.pathname)
-    return NextResponse.redirect(loginUrl)
+    const refreshUrl = new URL('/api/auth/refresh', request.url)
+    refreshUrl.searchParams.set('redirectTo', request.nextUrl.pathname + request.nextUrl.search)
+    return NextResponse.redirect(refreshUrl)
   }
 
   // Role-based access control
   if (user && isProtectedPath) {
-    // Students can only access /student paths
-    if (user.userType === 'student' && request.nextUrl.pathname.startsWith('/professor')) {
-      return NextResponse.redirect(new URL('/student', request.url))
+    const homePath = ROLE_HOME_PATHS[user.userType]
+    if (!homePath) {
+      return NextResponse.redirect(new URL('/', request.url))
     }
-    
-    // Professors can only access /professor paths
-    if (user.userType === 'professor' && request.nextUrl.pathname.startsWith('/student')) {
-      return NextResponse.redirect(new URL('/professor', request.url))
+
+    // Each role can only access its own path group (/student, /professor, /admin)
+    if (!request.nextUrl.pathname.startsWith(homePath)) {
+      return NextResponse.redirect(new URL(homePath, request.url))
     }
   }
 
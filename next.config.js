@@ -9,6 +9,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // instrumentation.ts 의 시작 시 설정 검증 (JWT_SECRET)
+    instrumentationHook: true,
+  },
   eslint: {
     // 빌드 중에 ESLint 오류를 무시 (배포 차단 방지)
     ignoreDuringBuilds: true,
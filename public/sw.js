@@ -34,6 +34,11 @@ self.addEventListener('message', (event) => {
         sessionData
       });
       break;
+    case 'REPLAY_CHECKINS':
+      event.waitUntil(replayQueuedCheckIns().catch((error) => {
+        console.warn('⚠️ Service Worker: 오프라인 체크인 재전송 보류', error.message);
+      }));
+      break;
   }
 });
 
@@ -42,6 +47,9 @@ self.addEventListener('sync', (event) => {
   if (event.tag === 'location-sync') {
     event.waitUntil(syncLocation());
   }
+  if (event.tag === 'checkin-replay') {
+    event.waitUntil(replayQueuedCheckIns());
+  }
 });
 
 async function startLocationTracking(attId, sessData) {
@@ -190,4 +198,117 @@ self.addEventListener('periodicsync', (event) => {
   if (event.tag === 'location-periodic') {
     event.waitUntil(trackLocation());
   }
-});
\ No newline at end of file
+});
+
+// ===== 오프라인 체크인 대기열 재전송 =====
+// lib/service-worker/offline-checkin-queue.ts 와 같은 DB/스토어를 사용
+const OFFLINE_CHECKIN_DB_NAME = 'attendance-offline';
+const OFFLINE_CHECKIN_STORE = 'checkins';
+
+function openCheckInQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_CHECKIN_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(OFFLINE_CHECKIN_STORE)) {
+        request.result.createObjectStore(OFFLINE_CHECKIN_STORE, { keyPath: 'correlationId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function checkInQueueRequest(mode, run) {
+  const db = await openCheckInQueue();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = run(db.transaction(OFFLINE_CHECKIN_STORE, mode).objectStore(OFFLINE_CHECKIN_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function postQueuedCheckIn(item) {
+  return fetch('/api/attendance/checkin', {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      sessionId: item.sessionId,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      accuracy: item.accuracy,
+      qrToken: item.qrToken,
+      networkType: item.networkType,
+      correlationId: item.correlationId,
+      attemptNumber: item.attempts,
+      // 전송 시각으로 서버가 기기 시계 오차를 구해 스캔 시각을 보정
+      clientTimestamp: new Date().toISOString(),
+      capturedAt: item.capturedAt
+    }),
+  });
+}
+
+async function sendQueuedCheckIn(item) {
+  let response = await postQueuedCheckIn(item);
+
+  // 대기 중 액세스 토큰이 만료되었으면 한 번 갱신 후 재시도 (409: 다른 탭이 이미 갱신)
+  if (response.status === 401) {
+    const refresh = await fetch('/api/auth/refresh', { method: 'POST', credentials: 'include' });
+    if (refresh.ok || refresh.status === 409) {
+      response = await postQueuedCheckIn(item);
+    }
+  }
+
+  return response;
+}
+
+async function replayQueuedCheckIns() {
+  const items = await checkInQueueRequest('readonly', (store) => store.getAll());
+  let pending = 0;
+
+  for (const item of items) {
+    let response;
+    try {
+      response = await sendQueuedCheckIn(item);
+    } catch (error) {
+      // 아직 오프라인 → 다음 sync 때 재시도
+      pending++;
+      continue;
+    }
+
+    const result = await response.json().catch(() => ({}));
+    const summary = {
+      correlationId: item.correlationId,
+      sessionId: item.sessionId,
+      status: response.status,
+      code: result.code,
+      error: result.error,
+      message: result.message
+    };
+
+    if (response.ok || result.code === 'already_present') {
+      await checkInQueueRequest('readwrite', (store) => store.delete(item.correlationId));
+      console.log('✅ Service Worker: 오프라인 체크인 전송 완료', item.correlationId);
+      notifyClients('CHECKIN_REPLAYED', summary);
+    } else if (response.status >= 500 || response.status === 429 || response.status === 401) {
+      await checkInQueueRequest('readwrite', (store) => store.put({ ...item, attempts: item.attempts + 1 }));
+      pending++;
+    } else {
+      // 검증 실패(QR 만료, 위치 등)는 재전송해도 결과가 같으므로 대기열에서 제거
+      await checkInQueueRequest('readwrite', (store) => store.delete(item.correlationId));
+      console.warn('⚠️ Service Worker: 오프라인 체크인 거부', summary);
+      notifyClients('CHECKIN_REPLAY_FAILED', summary);
+    }
+  }
+
+  if (pending > 0) {
+    // sync 이벤트가 나중에 다시 실행되도록 실패로 끝냄
+    throw new Error(`${pending}건의 오프라인 체크인 전송 대기 중`);
+  }
+}
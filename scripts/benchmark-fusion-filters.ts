@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * 융합 필터 벤치마크 (KalmanFilter2D vs ExtendedKalmanFilter)
+ *
+ * 사용법:
+ *   npx tsx scripts/benchmark-fusion-filters.ts <trace.jsonl>... [--pdr-only] [--json] [--verbose]
+ *
+ * 같은 센서 기록을 필터별로 재생해 실측 지점 평균/최대 오차를 비교합니다.
+ */
+import { readFileSync } from 'node:fs'
+import { basename } from 'node:path'
+import { parseSensorTrace } from '../lib/sensors/sensor-trace'
+import { benchmarkFusionFilters } from '../lib/fusion/trace-replay'
+
+const args = process.argv.slice(2)
+const files = args.filter((arg) => !arg.startsWith('--'))
+const flag = (name: string) => args.includes(`--${name}`)
+
+if (files.length === 0) {
+  console.error('❌ 사용법: npx tsx scripts/benchmark-fusion-filters.ts <trace.jsonl>... [--pdr-only] [--json]')
+  process.exit(1)
+}
+
+async function main() {
+  const traces = files.map((file) => ({ name: basename(file), trace: parseSensorTrace(readFileSync(file, 'utf8')) }))
+
+  // 재생 중 구성 요소 로그는 --verbose 일 때만 출력
+  const { log, warn } = console
+  if (!flag('verbose')) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+  const benchmarks = await benchmarkFusionFilters(traces, ['kalman', 'ekf'], { pdrOnly: flag('pdr-only') }).finally(() => {
+    console.log = log
+    console.warn = warn
+  })
+
+  if (flag('json')) {
+    console.log(JSON.stringify(benchmarks, null, 2))
+    return
+  }
+
+  const format = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}m`)
+  for (const benchmark of benchmarks) {
+    console.log(`🧮 ${benchmark.filter}: 평균 오차 ${format(benchmark.meanError)}, 최대 ${format(benchmark.maxError)}`)
+    for (const entry of benchmark.traces) {
+      console.log(`   📼 ${entry.name} (실측 ${entry.truthPoints}곳): 평균 ${format(entry.meanError)}, 최대 ${format(entry.maxError)}`)
+    }
+  }
+
+  const ranked = benchmarks
+    .filter((benchmark) => benchmark.meanError !== null)
+    .sort((a, b) => (a.meanError as number) - (b.meanError as number))
+  if (ranked.length > 0) {
+    console.log(`✅ 평균 오차가 가장 작은 필터: ${ranked[0].filter}`)
+  } else {
+    console.log('⚠️ 실측 지점이 있는 기록이 없어 비교할 수 없습니다')
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 벤치마크 실패:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * 센서 기록 재생 (브라우저 없이 PDR/GPS 융합 실행)
+ *
+ * 사용법:
+ *   npx tsx scripts/replay-sensor-trace.ts <trace.jsonl> [--pdr-only] [--filter=kalman|ekf] [--max-mean-error=<m>] [--json] [--verbose]
+ *
+ * --max-mean-error 를 주면 실측 지점 평균 오차가 기준을 넘을 때 종료 코드 1 (CI 회귀 테스트용)
+ */
+import { readFileSync } from 'node:fs'
+import { parseSensorTrace } from '../lib/sensors/sensor-trace'
+import { replaySensorTrace } from '../lib/fusion/trace-replay'
+import type { FusionFilterType } from '../lib/fusion/gps-pdr-fusion'
+
+const args = process.argv.slice(2)
+const file = args.find((arg) => !arg.startsWith('--'))
+const flag = (name: string) => args.includes(`--${name}`)
+const option = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+if (!file) {
+  console.error('❌ 사용법: npx tsx scripts/replay-sensor-trace.ts <trace.jsonl> [--pdr-only] [--max-mean-error=<m>] [--json]')
+  process.exit(1)
+}
+
+const maxMeanError = option('max-mean-error') !== undefined ? Number(option('max-mean-error')) : null
+const filterOption = option('filter') ?? 'kalman'
+
+if (filterOption !== 'kalman' && filterOption !== 'ekf') {
+  console.error(`❌ 알 수 없는 융합 필터: ${filterOption} (kalman 또는 ekf)`)
+  process.exit(1)
+}
+const filter: FusionFilterType = filterOption
+
+async function main() {
+  const trace = parseSensorTrace(readFileSync(file as string, 'utf8'))
+
+  // 재생 중 구성 요소 로그는 --verbose 일 때만 출력
+  const { log, warn } = console
+  if (!flag('verbose')) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+  const result = await replaySensorTrace(trace, { pdrOnly: flag('pdr-only'), fusion: { filter } }).finally(() => {
+    console.log = log
+    console.warn = warn
+  })
+
+  if (flag('json')) {
+    const { positions, ...summary } = result
+    console.log(JSON.stringify({ ...summary, filter, positionCount: positions.length }, null, 2))
+  } else {
+    const format = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}m`)
+    console.log(`📼 ${file} (${trace.records.length}개 레코드${trace.meta.description ? `, ${trace.meta.description}` : ''}, ${filter} 필터)`)
+    console.log(`👣 걸음 ${result.steps}회, PDR 거리 ${result.distance.toFixed(2)}m`)
+    console.log(`🛰️ GPS 보정 ${result.gpsUpdates}회, 재보정 ${result.recalibrations}회`)
+    for (const item of result.truthErrors) {
+      console.log(`   📍 ${item.label ?? new Date(item.t).toISOString()}: 오차 ${item.error.toFixed(2)}m`)
+    }
+    console.log(`📏 실측 지점 평균 오차 ${format(result.meanError)}, 최대 ${format(result.maxError)}`)
+  }
+
+  if (maxMeanError !== null && (result.meanError === null || result.meanError > maxMeanError)) {
+    console.error(`❌ 평균 오차가 기준(${maxMeanError}m)을 넘었습니다: ${result.meanError === null ? '실측 지점 없음' : `${result.meanError.toFixed(2)}m`}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 재생 실패:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
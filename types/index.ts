@@ -77,7 +77,7 @@ export interface ApiResponse<T> {
 export interface AuthUser {
   id: string
   email?: string | null
-  role: 'student' | 'professor'
+  role: 'student' | 'professor' | 'admin'
   student_id?: string | null
   professor_id?: string | null
   name: string
@@ -16,6 +16,7 @@ export type Database = {
           password_hash: string
           created_at: string
           updated_at: string
+          pdr_calibration?: Json | null
         }
         Insert: {
           student_id: string
@@ -23,6 +24,7 @@ export type Database = {
           password_hash: string
           created_at?: string
           updated_at?: string
+          pdr_calibration?: Json | null
         }
         Update: {
           student_id?: string
@@ -30,6 +32,7 @@ export type Database = {
           password_hash?: string
           created_at?: string
           updated_at?: string
+          pdr_calibration?: Json | null
       }
       Relationships: []
     }
@@ -105,6 +108,10 @@ export type Database = {
           location_latitude?: number | null
           location_longitude?: number | null
           location_radius?: number | null
+          late_grace_minutes?: number | null
+          late_cutoff_minutes?: number | null
+          auto_enroll_on_scan?: boolean
+          roster_imported_at?: string | null
         }
         Insert: {
           id?: string
@@ -120,6 +127,10 @@ export type Database = {
           location_latitude?: number | null
           location_longitude?: number | null
           location_radius?: number | null
+          late_grace_minutes?: number | null
+          late_cutoff_minutes?: number | null
+          auto_enroll_on_scan?: boolean
+          roster_imported_at?: string | null
         }
         Update: {
           id?: string
@@ -135,6 +146,10 @@ export type Database = {
           location_latitude?: number | null
           location_longitude?: number | null
           location_radius?: number | null
+          late_grace_minutes?: number | null
+          late_cutoff_minutes?: number | null
+          auto_enroll_on_scan?: boolean
+          roster_imported_at?: string | null
         }
         Relationships: [
           {
@@ -162,6 +177,8 @@ export type Database = {
           classroom_latitude: number | null
           classroom_longitude: number | null
           classroom_radius: number | null
+          classroom_geofence: Json | null
+          classroom_geofence_buffer: number | null
         }
         Insert: {
           id?: string
@@ -178,6 +195,8 @@ export type Database = {
           classroom_latitude?: number | null
           classroom_longitude?: number | null
           classroom_radius?: number | null
+          classroom_geofence?: Json | null
+          classroom_geofence_buffer?: number | null
         }
         Update: {
           id?: string
@@ -194,6 +213,8 @@ export type Database = {
           classroom_latitude?: number | null
           classroom_longitude?: number | null
           classroom_radius?: number | null
+          classroom_geofence?: Json | null
+          classroom_geofence_buffer?: number | null
         }
         Relationships: [
           {
@@ -214,8 +235,12 @@ export type Database = {
           check_in_time: string | null
           check_out_time: string | null
           location_verified: boolean | null
+          late_minutes: number | null
           created_at: string
           updated_at: string
+          last_heartbeat_at?: string | null
+          review_reason?: string | null
+          correlation_id?: string | null
         }
         Insert: {
           id?: string
@@ -225,8 +250,12 @@ export type Database = {
           check_in_time?: string | null
           check_out_time?: string | null
           location_verified?: boolean | null
+          late_minutes?: number | null
           created_at?: string
           updated_at?: string
+          last_heartbeat_at?: string | null
+          review_reason?: string | null
+          correlation_id?: string | null
         }
         Update: {
           id?: string
@@ -236,8 +265,12 @@ export type Database = {
           check_in_time?: string | null
           check_out_time?: string | null
           location_verified?: boolean | null
+          late_minutes?: number | null
           created_at?: string
           updated_at?: string
+          last_heartbeat_at?: string | null
+          review_reason?: string | null
+          correlation_id?: string | null
         }
         Relationships: [
           {
@@ -272,7 +305,10 @@ export type Database = {
           device_accuracy: number | null
           device_type: string | null
           network_type: string | null
+          device_id: string | null
           correlation_id: string | null
+          captured_at?: string | null
+          response_body?: Json | null
           created_at: string
         }
         Insert: {
@@ -290,7 +326,10 @@ export type Database = {
           device_accuracy?: number | null
           device_type?: string | null
           network_type?: string | null
+          device_id?: string | null
           correlation_id?: string | null
+          captured_at?: string | null
+          response_body?: Json | null
           created_at?: string
         }
         Update: {
@@ -308,7 +347,10 @@ export type Database = {
           device_accuracy?: number | null
           device_type?: string | null
           network_type?: string | null
+          device_id?: string | null
           correlation_id?: string | null
+          captured_at?: string | null
+          response_body?: Json | null
           created_at?: string
         }
         Relationships: [
@@ -328,6 +370,388 @@ export type Database = {
           }
         ]
       }
+      attendance_appeals: {
+        Row: {
+          id: string
+          attendance_id: string | null
+          session_id: string
+          course_id: string
+          student_id: string
+          original_status: 'absent' | 'left_early'
+          requested_status: 'present' | 'late'
+          reason: string
+          attachment_path: string | null
+          attachment_name: string | null
+          attachment_type: string | null
+          status: 'pending' | 'approved' | 'rejected'
+          resolved_status: 'present' | 'late' | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_comment: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          attendance_id?: string | null
+          session_id: string
+          course_id: string
+          student_id: string
+          original_status: 'absent' | 'left_early'
+          requested_status?: 'present' | 'late'
+          reason: string
+          attachment_path?: string | null
+          attachment_name?: string | null
+          attachment_type?: string | null
+          status?: 'pending' | 'approved' | 'rejected'
+          resolved_status?: 'present' | 'late' | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          attendance_id?: string | null
+          session_id?: string
+          course_id?: string
+          student_id?: string
+          original_status?: 'absent' | 'left_early'
+          requested_status?: 'present' | 'late'
+          reason?: string
+          attachment_path?: string | null
+          attachment_name?: string | null
+          attachment_type?: string | null
+          status?: 'pending' | 'approved' | 'rejected'
+          resolved_status?: 'present' | 'late' | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'attendance_appeals_attendance_id_fkey'
+            columns: ['attendance_id']
+            isOneToOne: false
+            referencedRelation: 'attendances'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'attendance_appeals_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'class_sessions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'attendance_appeals_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      attendance_audit_log: {
+        Row: {
+          id: string
+          attendance_id: string
+          session_id: string
+          student_id: string
+          previous_status: 'present' | 'late' | 'absent' | 'left_early' | null
+          new_status: 'present' | 'late' | 'absent' | 'left_early'
+          reason: string
+          source: 'manual_override' | 'appeal'
+          changed_by: string
+          appeal_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          attendance_id: string
+          session_id: string
+          student_id: string
+          previous_status?: 'present' | 'late' | 'absent' | 'left_early' | null
+          new_status: 'present' | 'late' | 'absent' | 'left_early'
+          reason: string
+          source: 'manual_override' | 'appeal'
+          changed_by: string
+          appeal_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          attendance_id?: string
+          session_id?: string
+          student_id?: string
+          previous_status?: 'present' | 'late' | 'absent' | 'left_early' | null
+          new_status?: 'present' | 'late' | 'absent' | 'left_early'
+          reason?: string
+          source?: 'manual_override' | 'appeal'
+          changed_by?: string
+          appeal_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      left_early_decisions: {
+        Row: {
+          id: string
+          attendance_id: string
+          session_id: string
+          student_id: string
+          decided_at: string
+          rule: Json
+          window_count: number
+          outside_count: number
+          outside_minutes: number
+          weighted_outside_ratio: number
+          samples: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          attendance_id: string
+          session_id: string
+          student_id: string
+          decided_at?: string
+          rule: Json
+          window_count: number
+          outside_count: number
+          outside_minutes: number
+          weighted_outside_ratio: number
+          samples: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          attendance_id?: string
+          session_id?: string
+          student_id?: string
+          decided_at?: string
+          rule?: Json
+          window_count?: number
+          outside_count?: number
+          outside_minutes?: number
+          weighted_outside_ratio?: number
+          samples?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      student_devices: {
+        Row: {
+          id: string
+          student_id: string
+          device_id: string
+          device_type: string | null
+          user_agent: string | null
+          status: 'active' | 'revoked'
+          registered_at: string
+          last_seen_at: string
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          device_id: string
+          device_type?: string | null
+          user_agent?: string | null
+          status?: 'active' | 'revoked'
+          registered_at?: string
+          last_seen_at?: string
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          device_id?: string
+          device_type?: string | null
+          user_agent?: string | null
+          status?: 'active' | 'revoked'
+          registered_at?: string
+          last_seen_at?: string
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      device_rebind_requests: {
+        Row: {
+          id: string
+          student_id: string
+          device_id: string
+          device_type: string | null
+          user_agent: string | null
+          status: 'pending' | 'approved' | 'rejected'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_comment: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          device_id: string
+          device_type?: string | null
+          user_agent?: string | null
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          device_id?: string
+          device_type?: string | null
+          user_agent?: string | null
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admins: {
+        Row: {
+          admin_id: string
+          name: string
+          password_hash: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          admin_id: string
+          name: string
+          password_hash: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          admin_id?: string
+          name?: string
+          password_hash?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      auth_refresh_tokens: {
+        Row: {
+          id: string
+          family_id: string
+          user_id: string
+          user_type: 'student' | 'professor' | 'admin'
+          user_name: string
+          token_hash: string
+          device_id: string | null
+          user_agent: string | null
+          expires_at: string
+          rotated_at: string | null
+          revoked_at: string | null
+          revoked_reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          family_id: string
+          user_id: string
+          user_type: 'student' | 'professor' | 'admin'
+          user_name: string
+          token_hash: string
+          device_id?: string | null
+          user_agent?: string | null
+          expires_at: string
+          rotated_at?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          family_id?: string
+          user_id?: string
+          user_type?: 'student' | 'professor' | 'admin'
+          user_name?: string
+          token_hash?: string
+          device_id?: string | null
+          user_agent?: string | null
+          expires_at?: string
+          rotated_at?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      password_reset_codes: {
+        Row: {
+          id: string
+          user_id: string
+          user_type: 'student' | 'professor'
+          code_hash: string
+          issued_by: string
+          issued_by_type: 'professor' | 'admin'
+          expires_at: string
+          failed_attempts: number
+          used_at: string | null
+          invalidated_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          user_type: 'student' | 'professor'
+          code_hash: string
+          issued_by: string
+          issued_by_type: 'professor' | 'admin'
+          expires_at: string
+          failed_attempts?: number
+          used_at?: string | null
+          invalidated_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          user_type?: 'student' | 'professor'
+          code_hash?: string
+          issued_by?: string
+          issued_by_type?: 'professor' | 'admin'
+          expires_at?: string
+          failed_attempts?: number
+          used_at?: string | null
+          invalidated_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      rate_limit_hits: {
+        Row: {
+          id: number
+          key: string
+          hit_at: string
+        }
+        Insert: {
+          id?: number
+          key: string
+          hit_at?: string
+        }
+        Update: {
+          id?: number
+          key?: string
+          hit_at?: string
+        }
+        Relationships: []
+      }
       location_logs: {
         Row: {
           id: string
@@ -337,6 +761,13 @@ export type Database = {
           accuracy: number
           timestamp: string
           is_valid: boolean | null
+          tracking_mode: 'gps-only' | 'pdr-only' | 'fusion' | null
+          environment: 'outdoor' | 'indoor' | 'unknown' | null
+          confidence: number | null
+          gps_weight: number | null
+          pdr_weight: number | null
+          floor_change: number | null
+          created_at: string | null
         }
         Insert: {
           id?: string
@@ -346,6 +777,13 @@ export type Database = {
           accuracy: number
           timestamp?: string
           is_valid?: boolean | null
+          tracking_mode?: 'gps-only' | 'pdr-only' | 'fusion' | null
+          environment?: 'outdoor' | 'indoor' | 'unknown' | null
+          confidence?: number | null
+          gps_weight?: number | null
+          pdr_weight?: number | null
+          floor_change?: number | null
+          created_at?: string | null
         }
         Update: {
           id?: string
@@ -355,6 +793,13 @@ export type Database = {
           accuracy?: number
           timestamp?: string
           is_valid?: boolean | null
+          tracking_mode?: 'gps-only' | 'pdr-only' | 'fusion' | null
+          environment?: 'outdoor' | 'indoor' | 'unknown' | null
+          confidence?: number | null
+          gps_weight?: number | null
+          pdr_weight?: number | null
+          floor_change?: number | null
+          created_at?: string | null
         }
         Relationships: [
           {
@@ -411,6 +856,10 @@ export type Database = {
           latitude: number | null
           longitude: number | null
           radius: number | null
+          geofence: Json | null
+          geofence_buffer: number | null
+          proximity_fingerprint: Json | null
+          floor: number | null
           is_active: boolean | null
           created_at: string | null
           updated_at: string | null
@@ -423,6 +872,10 @@ export type Database = {
           latitude?: number | null
           longitude?: number | null
           radius?: number | null
+          geofence?: Json | null
+          geofence_buffer?: number | null
+          proximity_fingerprint?: Json | null
+          floor?: number | null
           is_active?: boolean | null
           created_at?: string | null
           updated_at?: string | null
@@ -435,6 +888,10 @@ export type Database = {
           latitude?: number | null
           longitude?: number | null
           radius?: number | null
+          geofence?: Json | null
+          geofence_buffer?: number | null
+          proximity_fingerprint?: Json | null
+          floor?: number | null
           is_active?: boolean | null
           created_at?: string | null
           updated_at?: string | null
@@ -443,7 +900,20 @@ export type Database = {
       }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      rate_limit_hit: {
+        Args: { p_key: string; p_window_ms: number }
+        Returns: { hit_count: number; reset_at: string }[]
+      }
+      rate_limit_count: {
+        Args: { p_key: string; p_window_ms: number }
+        Returns: number
+      }
+      rate_limit_reset: {
+        Args: { p_key: string }
+        Returns: undefined
+      }
+    }
     Enums: Record<string, never>
     CompositeTypes: Record<string, never>
   }